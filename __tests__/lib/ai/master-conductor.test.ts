@@ -0,0 +1,69 @@
+const mockAnalyze = jest.fn()
+const mockProcessWithAgents = jest.fn()
+
+jest.mock('@/lib/mental-health/safety-plans', () => ({
+  getSafetyPlan: jest.fn(),
+}))
+
+jest.mock('@/lib/ai/core/emotion-fusion', () => ({
+  EmotionFusionAnalyzer: jest.fn(() => ({ analyze: mockAnalyze })),
+}))
+
+jest.mock('@/lib/ai/core/quantum-processor', () => ({
+  QuantumProcessor: jest.fn(() => ({ processWithAgents: mockProcessWithAgents })),
+}))
+
+jest.mock('@/lib/ai/core/knowledge-expansion', () => ({
+  KnowledgeExpansionLoop: jest.fn(() => ({ learnFromInteraction: jest.fn() })),
+}))
+
+jest.mock('@/lib/ai/core/reality-synthesis', () => ({
+  RealitySynthesisEngine: jest.fn(() => ({})),
+}))
+
+// Starts monitoring intervals on construction, which would keep the test running
+jest.mock('@/lib/ai/agents/autonomous/anomaly-detector', () => ({
+  AnomalyDetector: jest.fn(() => ({ id: 'anomaly-detector' })),
+}))
+
+import { MasterAIConductor, UserContext } from '@/lib/ai/core/master-conductor'
+import { getSafetyPlan } from '@/lib/mental-health/safety-plans'
+
+const calmState = { primary: 'neutral', intensity: 0.2, valence: 0.6, arousal: 0.3, confidence: 0.8, timestamp: new Date() }
+const context: Partial<UserContext> = { socialConnections: [] }
+const plan = { warningSigns: ['Not sleeping'], updatedAt: '2026-03-01T00:00:00.000Z' }
+
+describe('master conductor user context', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockAnalyze.mockResolvedValue(calmState)
+    mockProcessWithAgents.mockResolvedValue([])
+    ;(getSafetyPlan as jest.Mock).mockResolvedValue(plan)
+  })
+
+  const agentContext = (): UserContext => mockProcessWithAgents.mock.calls[0][2]
+
+  it("loads the user's safety plan when the emergency agent responds", async () => {
+    await new MasterAIConductor().processUserInput('I am in crisis and need help', 'text', context, 'user-1')
+
+    expect(getSafetyPlan).toHaveBeenCalledWith('user-1')
+    const agents = mockProcessWithAgents.mock.calls[0][1].map((agent: { id: string }) => agent.id)
+    expect(agents).toContain('emergency-response')
+    expect(agentContext().safetyPlan).toBe(plan)
+  })
+
+  it('skips the lookup when no crisis-capable agent runs', async () => {
+    await new MasterAIConductor().processUserInput('What is a budget?', 'text', context, 'user-1')
+
+    expect(getSafetyPlan).not.toHaveBeenCalled()
+  })
+
+  it('still responds when the safety plan fails to load', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    ;(getSafetyPlan as jest.Mock).mockRejectedValue(new Error('database unavailable'))
+
+    await new MasterAIConductor().processUserInput('emergency', 'text', context, 'user-1')
+
+    expect(agentContext().safetyPlan).toBeNull()
+  })
+})
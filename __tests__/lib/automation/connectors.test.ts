@@ -0,0 +1,43 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { connectorRegistry } from '@/lib/automation/connectors'
+
+describe('smtp connector', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'connectors-'))
+  const file = path.join(dir, 'connectors.yaml')
+
+  beforeAll(() => {
+    fs.writeFileSync(file, [
+      'connectors:',
+      '  mail:',
+      '    type: smtp',
+      '    scope: send_only',
+      '    config:',
+      '      host: localhost',
+      '      allowedRecipients: ["me@example.com", "@family.example"]',
+    ].join('\n'))
+    process.env.CONNECTORS_CONFIG_PATH = file
+    connectorRegistry.reload()
+  })
+
+  afterAll(() => {
+    delete process.env.CONNECTORS_CONFIG_PATH
+    connectorRegistry.reload()
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  const send = (to: string) => connectorRegistry.call('mail', 'send_email', { to, subject: 'Hi' }, { dryRun: true })
+
+  it('emails allowed addresses and domains', async () => {
+    await expect(send('Me@example.com, kid@family.example')).resolves.toMatchObject({
+      output: { to: 'me@example.com, kid@family.example' },
+    })
+  })
+
+  it('refuses any recipient outside the allowlist', async () => {
+    await expect(send('me@example.com, someone@elsewhere.example')).rejects.toThrow('may not email someone@elsewhere.example')
+    await expect(send('Me <someone@elsewhere.example>')).rejects.toThrow('may not email')
+    await expect(send('someone@family.example.evil')).rejects.toThrow('may not email')
+  })
+})
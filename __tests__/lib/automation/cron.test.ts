@@ -0,0 +1,40 @@
+import { getNextRun, getRunsBetween, isValidCronExpression } from '@/lib/automation/cron'
+
+describe('cron scheduling', () => {
+  const saturdayNoon = new Date('2026-03-07T12:00:00Z')
+
+  it('finds the next weekly run in the given timezone', () => {
+    // Monday 8am in New York, after the DST switch on March 8th
+    expect(getNextRun('0 8 * * MON', saturdayNoon, 'America/New_York')?.toISOString())
+      .toBe('2026-03-09T12:00:00.000Z')
+  })
+
+  it('skips local times that do not exist because of DST', () => {
+    const beforeSwitch = new Date('2026-03-08T01:00:00Z')
+
+    expect(getNextRun('30 2 * * *', beforeSwitch, 'America/New_York')?.toISOString())
+      .toBe('2026-03-09T06:30:00.000Z')
+  })
+
+  it('treats restricted day-of-month and day-of-week as either/or', () => {
+    expect(getNextRun('0 9 1 * MON', saturdayNoon)?.toISOString()).toBe('2026-03-09T09:00:00.000Z')
+  })
+
+  it('lists the runs missed within a window', () => {
+    const runs = getRunsBetween('*/15 * * * *', saturdayNoon, new Date('2026-03-07T13:00:00Z'))
+
+    expect(runs.map((run) => run.toISOString())).toEqual([
+      '2026-03-07T12:15:00.000Z',
+      '2026-03-07T12:30:00.000Z',
+      '2026-03-07T12:45:00.000Z',
+      '2026-03-07T13:00:00.000Z',
+    ])
+  })
+
+  it('rejects malformed expressions', () => {
+    expect(isValidCronExpression('@weekly')).toBe(true)
+    expect(isValidCronExpression('61 * * * *')).toBe(false)
+    expect(isValidCronExpression('0 9 * *')).toBe(false)
+    expect(isValidCronExpression('*/0 * * * *')).toBe(false)
+  })
+})
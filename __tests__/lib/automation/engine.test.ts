@@ -0,0 +1,87 @@
+const mockRoutine = { findMany: jest.fn() }
+const mockLog = { findMany: jest.fn(), create: jest.fn() }
+
+// The engine creates its client on import, before the mocks are initialised
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn(() => ({
+    get automationRoutine() {
+      return mockRoutine
+    },
+    get automationLog() {
+      return mockLog
+    },
+  })),
+}))
+
+jest.mock('@/lib/automation/event-queue', () => ({
+  automationEventQueue: { registerHandler: jest.fn() },
+}))
+
+jest.mock('@/lib/automation/scheduler', () => ({
+  automationScheduler: { tick: jest.fn() },
+}))
+
+jest.mock('@/lib/automation/action-executor', () => ({
+  actionExecutor: { executeAction: jest.fn() },
+}))
+
+import '@/lib/automation/engine'
+import { actionExecutor } from '@/lib/automation/action-executor'
+import { automationEventQueue } from '@/lib/automation/event-queue'
+import type { AutomationEvent } from '@/lib/automation/event-bus'
+
+const executeAction = actionExecutor.executeAction as jest.Mock
+const processEvent = (automationEventQueue.registerHandler as jest.Mock).mock.calls[0][0] as (event: AutomationEvent) => Promise<void>
+
+const routine = (id: string) => ({
+  id,
+  name: id,
+  triggers: [{ id: `${id}-trigger`, type: 'TRANSACTION_CREATED', config: {} }],
+  actions: [{ id: `${id}-action`, type: 'SEND_NOTIFICATION', config: { routine: id } }],
+})
+
+const event: AutomationEvent = {
+  id: 'event-1',
+  type: 'transaction.created',
+  userId: 'user-1',
+  data: { amount: 12, category: 'Food' },
+  timestamp: new Date('2026-03-01T09:00:00Z'),
+}
+
+describe('automation engine event processing', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    mockRoutine.findMany.mockResolvedValue([routine('routine-1'), routine('routine-2')])
+    executeAction.mockResolvedValue({ message: 'sent' })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('runs the other routines when one fails and skips completed ones on retry', async () => {
+    mockLog.findMany.mockResolvedValue([])
+    mockLog.create
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce(new Error('connection lost'))
+      .mockResolvedValue({})
+
+    await expect(processEvent(event)).rejects.toThrow('connection lost')
+    expect(executeAction).toHaveBeenCalledTimes(2)
+    expect(mockLog.create.mock.calls[0][0].data).toMatchObject({ routineId: 'routine-1', eventId: 'event-1' })
+
+    executeAction.mockClear()
+    mockLog.findMany.mockResolvedValue([{ routineId: 'routine-1' }])
+
+    await processEvent(event)
+
+    expect(mockLog.findMany).toHaveBeenLastCalledWith({
+      where: { eventId: 'event-1', routineId: { in: ['routine-1', 'routine-2'] } },
+      select: { routineId: true },
+    })
+    expect(executeAction).toHaveBeenCalledTimes(1)
+    expect(executeAction.mock.calls[0][0]).toEqual({ type: 'SEND_NOTIFICATION', params: { routine: 'routine-2' } })
+  })
+})
@@ -0,0 +1,153 @@
+const mockOutbox = {
+  create: jest.fn(),
+  updateMany: jest.fn(),
+  findUnique: jest.fn(),
+  update: jest.fn(),
+  findMany: jest.fn(),
+}
+
+// The queue creates its client on import, before mockOutbox is initialised
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn(() => ({
+    get automationOutboxEvent() {
+      return mockOutbox
+    },
+  })),
+}))
+
+import { OUTBOX_STATUS, automationEventQueue } from '@/lib/automation/event-queue'
+
+const occurredAt = new Date('2025-03-01T09:00:00Z')
+
+const outboxRecord = (overrides: Record<string, unknown> = {}) => ({
+  id: 'evt-1',
+  userId: 'user-1',
+  type: 'mood.created',
+  payload: { moodScore: 3 },
+  occurredAt,
+  attempts: 1,
+  maxAttempts: 5,
+  ...overrides,
+})
+
+describe('automation event queue', () => {
+  const handler = jest.fn()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    handler.mockResolvedValue(undefined)
+    automationEventQueue.registerHandler(handler)
+    mockOutbox.updateMany.mockResolvedValue({ count: 1 })
+    mockOutbox.update.mockResolvedValue({})
+  })
+
+  it('persists an event and delivers it to the registered handler', async () => {
+    mockOutbox.create.mockResolvedValue({ id: 'evt-1' })
+    mockOutbox.findUnique.mockResolvedValue(outboxRecord())
+
+    const id = await automationEventQueue.enqueue({
+      type: 'mood.created',
+      userId: 'user-1',
+      data: { moodScore: 3 },
+      timestamp: occurredAt,
+    })
+
+    expect(id).toBe('evt-1')
+    expect(mockOutbox.create).toHaveBeenCalledWith({
+      data: { userId: 'user-1', type: 'mood.created', payload: { moodScore: 3 }, occurredAt },
+    })
+    expect(handler).toHaveBeenCalledWith({
+      id: 'evt-1',
+      type: 'mood.created',
+      userId: 'user-1',
+      data: { moodScore: 3 },
+      timestamp: occurredAt,
+    })
+    expect(mockOutbox.update).toHaveBeenCalledWith({
+      where: { id: 'evt-1' },
+      data: expect.objectContaining({ status: OUTBOX_STATUS.DELIVERED, lockedAt: null, lastError: null }),
+    })
+  })
+
+  it('only delivers events it manages to claim', async () => {
+    mockOutbox.updateMany.mockResolvedValue({ count: 0 })
+
+    expect(await automationEventQueue.deliver('evt-1')).toBe(false)
+    expect(mockOutbox.updateMany).toHaveBeenCalledWith({
+      where: expect.objectContaining({ id: 'evt-1' }),
+      data: expect.objectContaining({ status: OUTBOX_STATUS.PROCESSING, attempts: { increment: 1 } }),
+    })
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('reschedules a failed delivery with exponential backoff', async () => {
+    const now = Date.now()
+    mockOutbox.findUnique.mockResolvedValue(outboxRecord({ attempts: 2 }))
+    handler.mockRejectedValue(new Error('database unavailable'))
+
+    expect(await automationEventQueue.deliver('evt-1')).toBe(false)
+
+    const { data } = mockOutbox.update.mock.calls[0][0]
+    expect(data.status).toBe(OUTBOX_STATUS.PENDING)
+    expect(data.lastError).toBe('database unavailable')
+    // Second attempt waits 2 x 30 seconds
+    expect(data.nextAttemptAt.getTime() - now).toBeGreaterThanOrEqual(60 * 1000)
+    expect(data.nextAttemptAt.getTime() - now).toBeLessThan(61 * 1000)
+  })
+
+  it('moves an event to the dead letter once attempts are exhausted', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    mockOutbox.findUnique.mockResolvedValue(outboxRecord({ attempts: 5 }))
+    handler.mockRejectedValue(new Error('still failing'))
+
+    expect(await automationEventQueue.deliver('evt-1')).toBe(false)
+    expect(mockOutbox.update).toHaveBeenCalledWith({
+      where: { id: 'evt-1' },
+      data: expect.objectContaining({ status: OUTBOX_STATUS.DEAD_LETTER, lastError: 'still failing' }),
+    })
+  })
+
+  it('drains due events and counts the outcomes', async () => {
+    mockOutbox.findMany.mockResolvedValue([{ id: 'evt-1' }, { id: 'evt-2' }])
+    mockOutbox.findUnique.mockImplementation(({ where }) => Promise.resolve(outboxRecord({ id: where.id })))
+    handler.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('boom'))
+
+    expect(await automationEventQueue.processPending()).toEqual({ delivered: 1, failed: 1 })
+  })
+
+  it('replays original events in a window as new outbox rows', async () => {
+    const from = new Date('2025-03-01T00:00:00Z')
+    const to = new Date('2025-03-02T00:00:00Z')
+    mockOutbox.findMany.mockResolvedValue([outboxRecord({ status: OUTBOX_STATUS.DEAD_LETTER })])
+    mockOutbox.create.mockResolvedValue({ id: 'evt-2' })
+
+    const count = await automationEventQueue.replay({
+      userId: 'user-1',
+      from,
+      to,
+      types: ['mood.created'],
+      deadLetterOnly: true,
+    })
+
+    expect(count).toBe(1)
+    expect(mockOutbox.findMany).toHaveBeenCalledWith({
+      where: {
+        userId: 'user-1',
+        replayOfId: null,
+        occurredAt: { gte: from, lte: to },
+        type: { in: ['mood.created'] },
+        status: OUTBOX_STATUS.DEAD_LETTER,
+      },
+      orderBy: { occurredAt: 'asc' },
+    })
+    expect(mockOutbox.create).toHaveBeenCalledWith({
+      data: {
+        userId: 'user-1',
+        type: 'mood.created',
+        payload: { moodScore: 3 },
+        occurredAt,
+        replayOfId: 'evt-1',
+      },
+    })
+  })
+})
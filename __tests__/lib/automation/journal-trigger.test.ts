@@ -0,0 +1,40 @@
+import { JournalEventData, matchesJournalTrigger } from '@/lib/automation/journal-trigger'
+
+describe('JOURNAL_CREATED trigger params', () => {
+  const entry: JournalEventData = {
+    entryId: 'entry-1',
+    title: 'Long day',
+    content: 'Feeling stressed about the deadline, but the walk helped.',
+    mood: 'tired',
+    tags: ['Work'],
+    isPrivate: true,
+    encrypted: false,
+    wordCount: 10,
+    sentiment: { emotion: 'anxious', confidence: 0.5, intensity: 0.67, score: -0.47, label: 'negative' },
+  }
+
+  it('matches whole keywords, tags and sentiment bounds', () => {
+    expect(matchesJournalTrigger({}, entry)).toBe(true)
+    expect(matchesJournalTrigger({ keywords: 'overwhelmed, STRESSED' }, entry)).toBe(true)
+    expect(matchesJournalTrigger({ keywords: ['stress'] }, entry)).toBe(false)
+    expect(matchesJournalTrigger({ tags: ['work', 'family'], maxSentiment: -0.3 }, entry)).toBe(true)
+    expect(matchesJournalTrigger({ tags: 'family' }, entry)).toBe(false)
+    expect(matchesJournalTrigger({ minSentiment: '0' }, entry)).toBe(false)
+    expect(matchesJournalTrigger({ emotion: 'sad' }, entry)).toBe(false)
+  })
+
+  it('matches keywords of a private entry against the text passed in', () => {
+    const withheld = { ...entry, title: null, content: null }
+
+    expect(matchesJournalTrigger({ keywords: 'stressed' }, withheld)).toBe(false)
+    expect(matchesJournalTrigger({ keywords: 'stressed' }, withheld, 'Long day\nFeeling stressed')).toBe(true)
+  })
+
+  it('only lets metadata conditions match encrypted entries', () => {
+    const encrypted = { ...entry, title: null, content: null, wordCount: null, sentiment: null, encrypted: true }
+
+    expect(matchesJournalTrigger({ tags: ['work'] }, encrypted)).toBe(true)
+    expect(matchesJournalTrigger({ keywords: ['stressed'] }, encrypted)).toBe(false)
+    expect(matchesJournalTrigger({ maxSentiment: 1 }, encrypted)).toBe(false)
+  })
+})
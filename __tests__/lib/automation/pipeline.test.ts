@@ -0,0 +1,82 @@
+import {
+  compareValues,
+  evaluateBranchCondition,
+  resolveTemplates,
+  validatePipeline,
+  withTimeout,
+  PipelineScope,
+  StepTimeoutError,
+} from '@/lib/automation/pipeline'
+
+describe('action pipelines', () => {
+  const scope: PipelineScope = {
+    event: { type: 'transaction.created', userId: 'user-1', data: { amount: 42 }, timestamp: '2024-01-01T00:00:00.000Z' },
+    steps: { analyze: { topCategory: 'Dining', totalSpent: 812.5 } },
+  }
+
+  it('resolves step outputs, keeping the type of whole-value templates', () => {
+    const params = resolveTemplates(
+      {
+        message: 'Most spent on {{steps.analyze.topCategory}} ({{ steps.missing.value }})',
+        amount: '{{event.data.amount}}',
+        tags: ['{{steps.analyze.topCategory}}'],
+      },
+      scope
+    )
+
+    expect(params).toEqual({
+      message: 'Most spent on Dining ()',
+      amount: 42,
+      tags: ['Dining'],
+    })
+  })
+
+  it('evaluates branch conditions against resolved values', async () => {
+    const condition = {
+      operator: 'AND' as const,
+      conditions: [
+        { type: 'COMPARE', params: { left: '{{steps.analyze.totalSpent}}', operator: 'gt', right: 500 } },
+        { operator: 'NOT' as const, conditions: [{ type: 'COMPARE', params: { left: '{{steps.analyze.topCategory}}', operator: 'eq', right: 'Rent' } }] },
+      ],
+    }
+
+    await expect(evaluateBranchCondition(condition, scope)).resolves.toBe(true)
+  })
+
+  it('rejects references to later or unknown steps and duplicate step ids', () => {
+    const errors = validatePipeline([
+      { type: 'SEND_NOTIFICATION', params: { message: '{{steps.analyze.topCategory}}' } },
+      { type: 'ANALYZE_SPENDING_PATTERN', stepId: 'analyze', params: {} },
+      {
+        type: 'BRANCH',
+        params: {
+          condition: { type: 'COMPARE', params: { left: '{{steps.analyze.totalSpent}}', operator: 'over', right: 1 } },
+          then: [{ type: 'SEND_NOTIFICATION', stepId: 'analyze', params: {} }],
+        },
+      },
+      { type: 'CREATE_GOAL', maxAttempts: 10, params: {} },
+    ])
+
+    expect(errors).toEqual([
+      'actions[0].params references unknown or later step "analyze" in {{steps.analyze.topCategory}}',
+      'actions[2].params.condition.params.operator must be one of eq, neq, gt, gte, lt, lte, contains, exists',
+      'actions[2].params.then[0].stepId "analyze" is already used by an earlier step',
+      'actions[3].maxAttempts must be between 1 and 5',
+    ])
+  })
+
+  it('compares template strings with numbers and booleans by value', () => {
+    expect(compareValues('5', 'eq', 5)).toBe(true)
+    expect(compareValues('true', 'eq', true)).toBe(true)
+    expect(compareValues(undefined, 'eq', null)).toBe(true)
+    expect(compareValues('', 'eq', null)).toBe(false)
+    expect(compareValues('5.0', 'neq', 5)).toBe(false)
+    expect(compareValues('Dining', 'neq', 'dining')).toBe(true)
+  })
+
+  it('rejects with a StepTimeoutError when a step runs too long', async () => {
+    const slow = new Promise((resolve) => setTimeout(resolve, 50))
+
+    await expect(withTimeout(slow, 5, 'Action SEND_WEBHOOK')).rejects.toBeInstanceOf(StepTimeoutError)
+  })
+})
@@ -0,0 +1,87 @@
+const mockTrigger = {
+  findMany: jest.fn(),
+  update: jest.fn(),
+  updateMany: jest.fn(),
+}
+
+// The scheduler creates its client on import, before mockTrigger is initialised
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn(() => ({
+    get automationTrigger() {
+      return mockTrigger
+    },
+  })),
+}))
+
+jest.mock('@/lib/automation/event-queue', () => ({
+  automationEventQueue: { enqueue: jest.fn() },
+}))
+
+jest.mock('@/lib/timezone', () => ({
+  getUserTimezone: jest.fn(async () => 'UTC'),
+}))
+
+import { automationScheduler } from '@/lib/automation/scheduler'
+import { automationEventQueue } from '@/lib/automation/event-queue'
+
+describe('automation scheduler', () => {
+  const now = new Date('2025-03-03T09:00:30Z')
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockTrigger.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  it('only loads active schedule triggers of active routines', async () => {
+    mockTrigger.findMany.mockResolvedValue([])
+
+    await automationScheduler.tick(now)
+
+    expect(mockTrigger.findMany).toHaveBeenCalledWith({
+      where: {
+        type: 'SCHEDULED_TIME',
+        isActive: true,
+        routine: { isActive: true },
+      },
+      include: {
+        routine: { select: { id: true, userId: true } },
+      },
+    })
+  })
+
+  it('emits a schedule tick for a run that has come due', async () => {
+    const lastRunAt = new Date('2025-03-02T09:00:00Z')
+    mockTrigger.findMany.mockResolvedValue([
+      {
+        id: 'trigger-1',
+        config: { cron: '0 9 * * *' },
+        lastRunAt,
+        nextRunAt: null,
+        createdAt: new Date('2025-03-01T00:00:00Z'),
+        routine: { id: 'routine-1', userId: 'user-1' },
+      },
+    ])
+
+    const result = await automationScheduler.tick(now)
+
+    expect(result).toEqual({ checked: 1, emitted: 1, skipped: 0 })
+    expect(mockTrigger.updateMany).toHaveBeenCalledWith({
+      where: { id: 'trigger-1', lastRunAt },
+      data: {
+        lastRunAt: new Date('2025-03-03T09:00:00Z'),
+        nextRunAt: new Date('2025-03-04T09:00:00Z'),
+      },
+    })
+    expect(automationEventQueue.enqueue).toHaveBeenCalledWith({
+      type: 'schedule.tick',
+      userId: 'user-1',
+      data: expect.objectContaining({
+        routineId: 'routine-1',
+        triggerId: 'trigger-1',
+        scheduledFor: '2025-03-03T09:00:00.000Z',
+        catchUp: false,
+      }),
+      timestamp: new Date('2025-03-03T09:00:00Z'),
+    })
+  })
+})
@@ -0,0 +1,64 @@
+import { createSandboxClient, SandboxWrite } from '@/lib/automation/trace'
+
+describe('dry-run sandbox client', () => {
+  const makeClient = () => ({
+    journalEntry: {
+      findMany: jest.fn(async () => [{ id: 'entry-1' }]),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+    $executeRaw: jest.fn(),
+    $queryRaw: jest.fn(),
+    $disconnect: jest.fn(async () => undefined),
+  })
+
+  const sandboxed = (client: ReturnType<typeof makeClient>, writes: SandboxWrite[]) =>
+    createSandboxClient(client as any, writes) as any
+
+  it('passes reads through and records writes instead of running them', async () => {
+    const client = makeClient()
+    const writes: SandboxWrite[] = []
+    const db = sandboxed(client, writes)
+
+    await expect(db.journalEntry.findMany({ where: { userId: 'user-1' } })).resolves.toEqual([{ id: 'entry-1' }])
+    await expect(db.journalEntry.create({ data: { title: 'Hello' } })).resolves.toEqual({ id: 'dry-run-1', title: 'Hello' })
+    await expect(db.journalEntry.updateMany({ where: {}, data: { isPrivate: true } })).resolves.toEqual({ count: 0 })
+
+    expect(client.journalEntry.create).not.toHaveBeenCalled()
+    expect(client.journalEntry.updateMany).not.toHaveBeenCalled()
+    expect(writes.map(write => write.operation)).toEqual(['create', 'updateMany'])
+  })
+
+  it('runs transactions against the sandbox', async () => {
+    const client = makeClient()
+    const writes: SandboxWrite[] = []
+    const db = sandboxed(client, writes)
+
+    await db.$transaction(async (tx: any) => {
+      await tx.journalEntry.create({ data: { title: 'Inside' } })
+    })
+    await db.$transaction([db.journalEntry.create({ data: { title: 'Batched' } })])
+
+    expect(client.$transaction).not.toHaveBeenCalled()
+    expect(client.journalEntry.create).not.toHaveBeenCalled()
+    expect(writes.map(write => write.args.data.title)).toEqual(['Inside', 'Batched'])
+  })
+
+  it('records raw statements and refuses raw queries', async () => {
+    const client = makeClient()
+    const writes: SandboxWrite[] = []
+    const db = sandboxed(client, writes)
+
+    await expect(db.$executeRaw(['DELETE FROM "Habit" WHERE id = ', ''], 'habit-1')).resolves.toBe(0)
+    await expect(db.$queryRaw(['SELECT 1'])).rejects.toThrow('$queryRaw is not available in a dry run')
+    await db.$disconnect()
+
+    expect(client.$executeRaw).not.toHaveBeenCalled()
+    expect(client.$queryRaw).not.toHaveBeenCalled()
+    expect(client.$disconnect).toHaveBeenCalled()
+    expect(writes).toEqual([
+      { model: '$raw', operation: '$executeRaw', args: { query: 'DELETE FROM "Habit" WHERE id = ?', values: ['habit-1'] } },
+    ])
+  })
+})
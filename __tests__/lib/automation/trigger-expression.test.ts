@@ -0,0 +1,69 @@
+import {
+  evaluateTriggerExpression,
+  validateTriggerExpression,
+  describeTriggerExpression,
+  GROUPABLE_TRIGGER_TYPES,
+  TriggerExpression,
+} from '@/lib/automation/trigger-expression'
+
+describe('trigger expressions', () => {
+  const moodLow = { type: 'MOOD_BELOW_THRESHOLD', params: { threshold: 4 } }
+  const journal = { type: 'JOURNAL_CREATED', params: { keywords: ['stressed'] } }
+
+  const evaluateWith = (results: Record<string, boolean>) =>
+    jest.fn(async (condition: { type: string }) => results[condition.type])
+
+  it('matches an OR group when any condition matches', async () => {
+    const expression: TriggerExpression = { operator: 'OR', conditions: [moodLow, journal] }
+    const evaluate = evaluateWith({ MOOD_BELOW_THRESHOLD: false, JOURNAL_CREATED: true })
+
+    await expect(evaluateTriggerExpression(expression, evaluate)).resolves.toBe(true)
+  })
+
+  it('short-circuits AND groups on the first failing condition', async () => {
+    const expression: TriggerExpression = { operator: 'AND', conditions: [moodLow, journal] }
+    const evaluate = evaluateWith({ MOOD_BELOW_THRESHOLD: false, JOURNAL_CREATED: true })
+
+    await expect(evaluateTriggerExpression(expression, evaluate)).resolves.toBe(false)
+    expect(evaluate).toHaveBeenCalledTimes(1)
+  })
+
+  it('negates nested groups', async () => {
+    const expression: TriggerExpression = {
+      operator: 'NOT',
+      conditions: [{ operator: 'AND', conditions: [moodLow, journal] }],
+    }
+    const evaluate = evaluateWith({ MOOD_BELOW_THRESHOLD: true, JOURNAL_CREATED: false })
+
+    await expect(evaluateTriggerExpression(expression, evaluate)).resolves.toBe(true)
+  })
+
+  it('reports invalid operators, empty groups and unknown trigger types', () => {
+    expect(validateTriggerExpression({ operator: 'OR', conditions: [moodLow] })).toEqual([])
+    expect(validateTriggerExpression({ operator: 'XOR', conditions: [moodLow] })).toHaveLength(1)
+    expect(validateTriggerExpression({ operator: 'AND', conditions: [] })).toHaveLength(1)
+    expect(validateTriggerExpression({ operator: 'NOT', conditions: [moodLow, journal] })).toHaveLength(1)
+    expect(validateTriggerExpression({ type: 'NOPE', params: {} })).toHaveLength(1)
+  })
+
+  it('rejects schedules nested inside a group', () => {
+    const schedule = { type: 'SCHEDULED_TIME', params: { cron: '0 9 * * *' } }
+    const errors = validateTriggerExpression(
+      { operator: 'AND', conditions: [moodLow, schedule] },
+      'expression',
+      1,
+      GROUPABLE_TRIGGER_TYPES
+    )
+
+    expect(errors).toEqual(['expression.conditions[1].type "SCHEDULED_TIME" is not a supported condition type'])
+  })
+
+  it('describes expressions in readable form', () => {
+    const expression: TriggerExpression = {
+      operator: 'OR',
+      conditions: [moodLow, { operator: 'NOT', conditions: [journal] }],
+    }
+
+    expect(describeTriggerExpression(expression)).toBe('(MOOD_BELOW_THRESHOLD OR NOT JOURNAL_CREATED)')
+  })
+})
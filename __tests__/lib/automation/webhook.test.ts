@@ -0,0 +1,60 @@
+import dns from 'dns'
+import {
+  assertPublicHost,
+  isAllowedWebhookUrl,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from '@/lib/automation/webhook'
+
+describe('webhook signatures', () => {
+  const secret = 'test-secret'
+  const body = JSON.stringify({ id: 'delivery-1', event: { type: 'mood.created' } })
+  const now = 1_700_000_000
+
+  it('verifies a signature it produced', () => {
+    const signature = signWebhookPayload(secret, body, now)
+
+    expect(signature).toMatch(/^t=1700000000,v1=[0-9a-f]{64}$/)
+    expect(verifyWebhookSignature(secret, body, signature, 300, now)).toBe(true)
+  })
+
+  it('rejects tampered bodies, wrong secrets and stale timestamps', () => {
+    const signature = signWebhookPayload(secret, body, now)
+
+    expect(verifyWebhookSignature(secret, `${body} `, signature, 300, now)).toBe(false)
+    expect(verifyWebhookSignature('other-secret', body, signature, 300, now)).toBe(false)
+    expect(verifyWebhookSignature(secret, body, signature, 300, now + 301)).toBe(false)
+  })
+})
+
+describe('webhook targets', () => {
+  it('accepts public http(s) URLs', () => {
+    expect(isAllowedWebhookUrl('https://hooks.example.com/automation')).toBe(true)
+    expect(isAllowedWebhookUrl('http://93.184.216.34/hook')).toBe(true)
+  })
+
+  it('rejects loopback, private and link-local hosts', () => {
+    expect(isAllowedWebhookUrl('ftp://example.com/hook')).toBe(false)
+    expect(isAllowedWebhookUrl('http://localhost:3000/api')).toBe(false)
+    expect(isAllowedWebhookUrl('http://127.0.0.1/hook')).toBe(false)
+    expect(isAllowedWebhookUrl('http://10.1.2.3/hook')).toBe(false)
+    expect(isAllowedWebhookUrl('http://172.20.0.5/hook')).toBe(false)
+    expect(isAllowedWebhookUrl('http://192.168.1.10/hook')).toBe(false)
+    expect(isAllowedWebhookUrl('http://169.254.169.254/latest/meta-data')).toBe(false)
+    expect(isAllowedWebhookUrl('http://[::1]/hook')).toBe(false)
+    expect(isAllowedWebhookUrl('http://[fd00::1]/hook')).toBe(false)
+    expect(isAllowedWebhookUrl('http://[::ffff:127.0.0.1]/hook')).toBe(false)
+  })
+
+  it('rejects hostnames that resolve to a non-public address', async () => {
+    const lookup = jest.spyOn(dns.promises, 'lookup').mockResolvedValue([
+      { address: '93.184.216.34', family: 4 },
+      { address: '10.0.0.7', family: 4 },
+    ])
+
+    await expect(assertPublicHost('https://internal.example.com/hook')).rejects.toThrow(
+      'internal.example.com resolves to a non-public address (10.0.0.7)'
+    )
+    lookup.mockRestore()
+  })
+})
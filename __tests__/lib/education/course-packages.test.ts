@@ -0,0 +1,142 @@
+import { parseCoursePackage, readCoursePackage } from '@/lib/education/course-packages'
+import { writeZip } from '@/lib/zip'
+
+const files = (entries: Record<string, string>) =>
+  new Map(Object.entries(entries).map(([path, text]) => [path, Buffer.from(text)]))
+
+describe('course packages', () => {
+  it('maps a SCORM 1.2 organization onto modules and lessons', () => {
+    const manifest = `<?xml version="1.0"?>
+      <manifest identifier="demo" xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2">
+        <metadata><schema>ADL SCORM</schema><schemaversion>1.2</schemaversion></metadata>
+        <organizations default="org">
+          <organization identifier="org">
+            <title>Fractions &amp; Decimals</title>
+            <item identifier="i0" identifierref="r0"><title>Welcome</title></item>
+            <item identifier="m1">
+              <title>Fractions</title>
+              <item identifier="i1" identifierref="r1"><title>What is a fraction?</title></item>
+              <item identifier="i2" identifierref="r2"><title>Worksheet</title></item>
+            </item>
+          </organization>
+        </organizations>
+        <resources>
+          <resource identifier="r0" type="webcontent" adlcp:scormtype="asset" href="welcome.html"/>
+          <resource identifier="r1" type="webcontent" adlcp:scormtype="sco" href="content/fractions.html?start=1"/>
+          <resource identifier="r2" type="webcontent" adlcp:scormtype="asset" href="content/worksheet.pdf"/>
+        </resources>
+      </manifest>`
+    const zip = writeZip([
+      { name: 'imsmanifest.xml', data: Buffer.from(manifest) },
+      { name: 'welcome.html', data: Buffer.from('<html><head><title>x</title></head><body><p>Hello</p></body></html>') },
+      { name: 'content/fractions.html', data: Buffer.from('<body><script>track()</script><h1>Fractions</h1><p>A part of a whole.</p></body>') },
+    ])
+
+    const { format, course, warnings } = readCoursePackage(zip)
+    expect(format).toBe('scorm')
+    expect(course.title).toBe('Fractions & Decimals')
+    expect(course.modules.map((module) => module.title)).toEqual(['Fractions & Decimals', 'Fractions'])
+    expect(course.modules[0].lessons[0]).toMatchObject({ title: 'Welcome', content: 'Hello', type: 'lecture', order: 1 })
+    const [lesson, worksheet] = course.modules[1].lessons
+    expect(lesson).toMatchObject({ content: 'Fractions\nA part of a whole.', type: 'interactive' })
+    expect(worksheet.materials[0]).toMatchObject({ type: 'document', title: 'worksheet.pdf' })
+    expect(warnings).toEqual([expect.stringContaining('1 SCORM activity')])
+  })
+
+  it('reads Common Cartridge weblinks, QTI quizzes and question banks', () => {
+    const choice = (ident: string, text: string) =>
+      `<response_label ident="${ident}"><material><mattext>${text}</mattext></material></response_label>`
+    const qti = `<questestinterop><assessment ident="a1" title="Check">
+      <qtimetadata><qtimetadatafield><fieldlabel>cc_profile</fieldlabel><fieldentry>cc.exam.v0p1</fieldentry></qtimetadatafield></qtimetadata>
+      <section ident="s">
+        <item ident="q1"><itemmetadata><qtimetadata><qtimetadatafield><fieldlabel>cc_profile</fieldlabel><fieldentry>cc.multiple_choice.v0p1</fieldentry></qtimetadatafield></qtimetadata></itemmetadata>
+          <presentation><material><mattext texttype="text/html">&lt;p&gt;What is 1/2 + 1/4?&lt;/p&gt;</mattext></material>
+            <response_lid ident="r"><render_choice>${choice('A', '2/6')}${choice('B', '3/4')}</render_choice></response_lid></presentation>
+          <resprocessing><respcondition><conditionvar><varequal respident="r">B</varequal></conditionvar><setvar action="Set">100</setvar></respcondition></resprocessing>
+        </item>
+        <item ident="q2"><itemmetadata><qtimetadata><qtimetadatafield><fieldlabel>cc_profile</fieldlabel><fieldentry>cc.multiple_response.v0p1</fieldentry></qtimetadatafield></qtimetadata></itemmetadata>
+          <presentation><material><mattext>Which equal 1/2?</mattext></material>
+            <response_lid ident="r"><render_choice>${choice('A', '2/4')}${choice('B', '1/3')}${choice('C', '0.5')}</render_choice></response_lid></presentation>
+          <resprocessing><respcondition><conditionvar><and><varequal respident="r">A</varequal><not><varequal respident="r">B</varequal></not><varequal respident="r">C</varequal></and></conditionvar><setvar>100</setvar></respcondition></resprocessing>
+        </item>
+      </section></assessment></questestinterop>`
+    const bank = `<questestinterop><objectbank ident="b1">
+      <qtimetadata><qtimetadatafield><fieldlabel>bank_title</fieldlabel><fieldentry>Practice</fieldentry></qtimetadatafield></qtimetadata>
+      <item ident="e1"><itemmetadata><qtimetadata><qtimetadatafield><fieldlabel>cc_profile</fieldlabel><fieldentry>cc.essay.v0p1</fieldentry></qtimetadatafield></qtimetadata></itemmetadata>
+        <presentation><material><mattext>Explain equivalent fractions.</mattext></material></presentation></item>
+    </objectbank></questestinterop>`
+    const manifest = `<manifest identifier="cc" xmlns="http://www.imsglobal.org/xsd/imsccv1p1/imscp_v1p1">
+      <metadata><schema>IMS Common Cartridge</schema><lomimscc:lom xmlns:lomimscc="x"><lomimscc:general>
+        <lomimscc:title><lomimscc:string>Fractions</lomimscc:string></lomimscc:title>
+        <lomimscc:description><lomimscc:string>Parts of a whole</lomimscc:string></lomimscc:description>
+      </lomimscc:general></lomimscc:lom></metadata>
+      <organizations><organization identifier="o"><item identifier="root">
+        <item identifier="w1"><title>Week 1</title>
+          <item identifier="l1" identifierref="link"><title>Video</title></item>
+          <item identifier="l2" identifierref="quiz"><title>Check-up</title></item>
+          <item identifier="l3" identifierref="lti"><title>Simulator</title></item>
+        </item>
+      </item></organization></organizations>
+      <resources>
+        <resource identifier="link" type="imswl_xmlv1p1"><file href="link.xml"/></resource>
+        <resource identifier="quiz" type="imsqti_xmlv1p2/imscc_xmlv1p1/assessment"><file href="quiz/assessment.xml"/></resource>
+        <resource identifier="bank" type="imsqti_xmlv1p2/imscc_xmlv1p1/question-bank"><file href="bank.xml"/></resource>
+        <resource identifier="lti" type="imsbasiclti_xmlv1p0"><file href="lti.xml"/></resource>
+      </resources>
+    </manifest>`
+
+    const { format, course, warnings } = parseCoursePackage(files({
+      'cartridge/imsmanifest.xml': manifest,
+      'cartridge/link.xml': '<webLink><title>Intro video</title><url href="https://youtu.be/abc"/></webLink>',
+      'cartridge/quiz/assessment.xml': qti,
+      'cartridge/bank.xml': bank,
+      'cartridge/lti.xml': '<cartridge_basiclti_link><blti:title>Fraction bars</blti:title><blti:secure_launch_url>https://tools.example.com/bars</blti:secure_launch_url></cartridge_basiclti_link>',
+    }))
+
+    expect(format).toBe('imscc')
+    expect(course).toMatchObject({ title: 'Fractions', description: 'Parts of a whole', tags: ['imported', 'imscc'] })
+    expect(course.modules.map((module) => module.title)).toEqual(['Week 1', 'Question banks'])
+    expect(course.modules[0].lessons[0].materials[0]).toMatchObject({ type: 'video', title: 'Intro video', url: 'https://youtu.be/abc' })
+    expect(course.modules[0].assessments[0]).toMatchObject({ title: 'Check-up', type: 'exam', passingScore: 70 })
+    expect(course.modules[0].assessments[0].questions).toEqual([
+      expect.objectContaining({ id: 'q1', type: 'multiple-choice', question: 'What is 1/2 + 1/4?', options: ['2/6', '3/4'], correctAnswer: '3/4' }),
+      expect.objectContaining({ id: 'q2', correctAnswer: ['2/4', '0.5'] }),
+    ])
+    expect(course.modules[1].assessments[0]).toMatchObject({ title: 'Practice', questions: [expect.objectContaining({ type: 'essay', points: 0 })] })
+    expect(course.modules[0].lessons[1]).toMatchObject({ type: 'interactive', materials: [expect.objectContaining({ title: 'Fraction bars', url: 'https://tools.example.com/bars' })] })
+    expect(warnings).toEqual([])
+  })
+
+  it('builds a course from a Markdown folder', () => {
+    const { format, course, warnings } = parseCoursePackage(files({
+      'algebra/course.md': '---\ntitle: Algebra I\nlevel: intermediate\ntags: [math, algebra]\nprerequisites:\n  - arithmetic\n---\nSolving for x.',
+      'algebra/10-equations/module.md': '# Linear equations\nOne unknown at a time.',
+      'algebra/10-equations/02-two-step.md': '# Two-step equations\nUndo addition, then multiplication.',
+      'algebra/10-equations/01-one-step.md': '---\nduration: 20\nobjectives: [Isolate x]\n---\n# One-step equations\nSee [this video](https://example.com/intro.mp4).',
+      'algebra/10-equations/check.quiz.md': [
+        '---', 'passingScore: 80', '---',
+        '## Solve x + 3 = 5', '- [ ] 8', '- [x] 2', '> Subtract 3 from both sides.',
+        '## x = 2 solves 2x = 4', '- [x] True', '- [ ] False',
+        '## 3x = ___ when x = 3', 'Answer: 9', 'Points: 5',
+        '## Which of these is an equation?', '- [ ] 2 + 2',
+      ].join('\n'),
+      'algebra/2-inequalities/intro.md': 'Greater than, less than.',
+      'algebra/.git/HEAD.md': 'ignored',
+    }))
+
+    expect(format).toBe('markdown')
+    expect(course).toMatchObject({ title: 'Algebra I', description: 'Solving for x.', level: 'intermediate', tags: ['math', 'algebra'], prerequisites: ['arithmetic'] })
+    expect(course.modules.map((module) => [module.title, module.order])).toEqual([['Inequalities', 1], ['Linear equations', 2]])
+    const equations = course.modules[1]
+    expect(equations.description).toBe('One unknown at a time.')
+    expect(equations.lessons.map((lesson) => lesson.title)).toEqual(['One-step equations', 'Two-step equations'])
+    expect(equations.lessons[0]).toMatchObject({ duration: 20, objectives: ['Isolate x'], materials: [expect.objectContaining({ type: 'video' })] })
+    expect(equations.assessments[0]).toMatchObject({ title: 'Check', type: 'quiz', passingScore: 80 })
+    expect(equations.assessments[0].questions).toEqual([
+      expect.objectContaining({ type: 'multiple-choice', correctAnswer: '2', explanation: 'Subtract 3 from both sides.' }),
+      expect.objectContaining({ type: 'true-false', correctAnswer: 'True' }),
+      expect.objectContaining({ type: 'fill-blank', correctAnswer: '9', points: 5 }),
+    ])
+    expect(warnings).toEqual([expect.stringContaining('no option marked [x]')])
+  })
+})
@@ -0,0 +1,203 @@
+const mockPrisma = {
+  course: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    upsert: jest.fn(),
+  },
+  courseEnrollment: {
+    findUnique: jest.fn(),
+    upsert: jest.fn(),
+    update: jest.fn(),
+  },
+}
+
+// Mock factories run on import, before mockPrisma is initialised
+jest.mock('@/lib/database', () => ({
+  get prisma() {
+    return mockPrisma
+  },
+}))
+
+import { LMSNotFoundError, LMSSystem, NotEnrolledError } from '@/lib/education/lms-system'
+
+const lastAccessed = new Date('2026-03-01T09:00:00Z')
+
+const courseRow = {
+  id: 'course-1',
+  title: 'Fractions',
+  description: 'Parts of a whole',
+  subject: 'Mathematics',
+  level: 'beginner',
+  gradeLevel: null,
+  prerequisites: [],
+  estimatedDuration: 2,
+  difficulty: 2,
+  tags: ['math'],
+  authorId: null,
+  createdAt: lastAccessed,
+  updatedAt: lastAccessed,
+  modules: [
+    {
+      id: 'module-1',
+      title: 'Basics',
+      description: '',
+      order: 1,
+      estimatedDuration: 60,
+      lessons: [
+        { id: 'lesson-1', title: 'Halves', content: '', type: 'lecture', materials: [], objectives: [], duration: 20, order: 1 },
+        { id: 'lesson-2', title: 'Quarters', content: '', type: 'lecture', materials: [], objectives: [], duration: 25, order: 2 },
+      ],
+      assessments: [
+        {
+          id: 'quiz-1',
+          title: 'Check',
+          type: 'quiz',
+          timeLimit: null,
+          passingScore: 70,
+          order: 1,
+          questions: [
+            { id: 'q1', type: 'multiple-choice', question: 'Half of 4?', correctAnswer: '2', points: 1 },
+            {
+              id: 'q2',
+              type: 'matching',
+              question: 'Order smallest first',
+              correctAnswer: ['1/4', '1/2'],
+              explanation: 'A quarter is smaller than a half',
+              points: 3,
+            },
+          ],
+        },
+      ],
+    },
+  ],
+}
+
+const enrollmentRow = (overrides: Record<string, unknown> = {}) => ({
+  userId: 'user-1',
+  courseId: 'course-1',
+  completedLessons: [],
+  currentModuleId: 'module-1',
+  currentLessonId: 'lesson-1',
+  overallProgress: 0,
+  timeSpent: 0,
+  lastAccessed,
+  attempts: [],
+  ...overrides,
+})
+
+describe('LMS system', () => {
+  let lms: LMSSystem
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    lms = new LMSSystem()
+    // Built-in courses are already seeded
+    mockPrisma.course.findMany.mockImplementation(({ where }) => Promise.resolve(where.id.in.map((id: string) => ({ id }))))
+    mockPrisma.course.findUnique.mockResolvedValue(courseRow)
+    mockPrisma.courseEnrollment.update.mockImplementation(({ data }) => Promise.resolve(enrollmentRow(data)))
+  })
+
+  it('enrolls a student at the first lesson', async () => {
+    mockPrisma.courseEnrollment.upsert.mockResolvedValue(enrollmentRow())
+
+    const progress = await lms.enrollStudent('user-1', 'course-1')
+
+    expect(mockPrisma.course.upsert).not.toHaveBeenCalled()
+    expect(mockPrisma.courseEnrollment.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId_courseId: { userId: 'user-1', courseId: 'course-1' } },
+      create: {
+        userId: 'user-1',
+        courseId: 'course-1',
+        overallProgress: 0,
+        currentModuleId: 'module-1',
+        currentLessonId: 'lesson-1',
+      },
+      update: { lastAccessed: expect.any(Date) },
+    }))
+    expect(progress).toMatchObject({ currentModule: 'module-1', currentLesson: 'lesson-1', completedLessons: [], grades: {} })
+  })
+
+  it('refuses to enroll in a course that does not exist', async () => {
+    mockPrisma.course.findUnique.mockResolvedValue(null)
+
+    await expect(lms.enrollStudent('user-1', 'missing')).rejects.toThrow(LMSNotFoundError)
+    expect(mockPrisma.courseEnrollment.upsert).not.toHaveBeenCalled()
+  })
+
+  it('completes a lesson, moves on and counts its time once', async () => {
+    mockPrisma.courseEnrollment.findUnique.mockResolvedValue(enrollmentRow())
+
+    const progress = await lms.completeLesson('user-1', 'course-1', 'lesson-1')
+
+    expect(mockPrisma.courseEnrollment.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({
+        completedLessons: ['lesson-1'],
+        // One of two lessons and one assessment
+        overallProgress: 33,
+        currentModuleId: 'module-1',
+        currentLessonId: 'lesson-2',
+        timeSpent: 20,
+      }),
+    }))
+    expect(progress.currentLesson).toBe('lesson-2')
+
+    mockPrisma.courseEnrollment.findUnique.mockResolvedValue(enrollmentRow({ completedLessons: ['lesson-1'], timeSpent: 20 }))
+    await lms.completeLesson('user-1', 'course-1', 'lesson-1')
+
+    expect(mockPrisma.courseEnrollment.update.mock.calls[1][0].data).toMatchObject({ completedLessons: ['lesson-1'], timeSpent: 20 })
+  })
+
+  it('only lets enrolled students complete lessons', async () => {
+    mockPrisma.courseEnrollment.findUnique.mockResolvedValue(null)
+
+    await expect(lms.completeLesson('user-1', 'course-1', 'lesson-1')).rejects.toThrow(NotEnrolledError)
+  })
+
+  it('scores an assessment by points and records a failed attempt', async () => {
+    mockPrisma.courseEnrollment.findUnique.mockResolvedValue(enrollmentRow({ completedLessons: ['lesson-1', 'lesson-2'] }))
+
+    const result = await lms.submitAssessment('user-1', 'course-1', 'quiz-1', { q1: '2', q2: ['1/2', '1/4'] })
+
+    expect(result).toEqual({
+      score: 25,
+      passed: false,
+      feedback: ['Question "Order smallest first": A quarter is smaller than a half'],
+    })
+    expect(mockPrisma.courseEnrollment.update).toHaveBeenCalledWith({
+      where: { userId_courseId: { userId: 'user-1', courseId: 'course-1' } },
+      data: {
+        overallProgress: 67,
+        lastAccessed: expect.any(Date),
+        attempts: {
+          create: { assessmentId: 'quiz-1', answers: { q1: '2', q2: ['1/2', '1/4'] }, score: 25, passed: false },
+        },
+      },
+    })
+  })
+
+  it('completes the course when the assessment is passed', async () => {
+    mockPrisma.courseEnrollment.findUnique.mockResolvedValue(enrollmentRow({ completedLessons: ['lesson-1', 'lesson-2'] }))
+
+    const result = await lms.submitAssessment('user-1', 'course-1', 'quiz-1', { q1: '2', q2: ['1/4', '1/2'] })
+
+    expect(result).toEqual({ score: 100, passed: true, feedback: [] })
+    expect(mockPrisma.courseEnrollment.update.mock.calls[0][0].data).toMatchObject({
+      overallProgress: 100,
+      attempts: { create: { score: 100, passed: true } },
+    })
+  })
+
+  it('grades from the latest attempt and keeps an assessment completed once passed', async () => {
+    mockPrisma.courseEnrollment.findUnique.mockResolvedValue(enrollmentRow({
+      attempts: [
+        { assessmentId: 'quiz-1', score: 100, passed: true },
+        { assessmentId: 'quiz-1', score: 25, passed: false },
+      ],
+    }))
+
+    const progress = await lms.getStudentProgress('user-1', 'course-1')
+
+    expect(progress?.grades).toEqual({ 'quiz-1': 25 })
+    expect(progress?.completedAssessments).toEqual(['quiz-1'])
+  })
+})
@@ -0,0 +1,38 @@
+import { buildEnvelopeLedger, getPeriodBounds } from '@/lib/finance/budget-periods'
+
+const day = (value: string) => new Date(`${value}T12:00:00Z`)
+const iso = (date: Date) => date.toISOString().slice(0, 10)
+
+describe('envelope budgets', () => {
+  it('aligns weekly periods to the anchor and monthly periods to the calendar', () => {
+    const weekly = getPeriodBounds('weekly', day('2024-03-06'), day('2024-03-20'))
+    expect([iso(weekly.start), iso(weekly.end)]).toEqual(['2024-03-20', '2024-03-27'])
+
+    const monthly = getPeriodBounds('Monthly', day('2024-03-06'), day('2024-02-29'))
+    expect([iso(monthly.start), iso(monthly.end)]).toEqual(['2024-02-01', '2024-03-01'])
+  })
+
+  it('rolls balances forward according to the rollover mode and applies transfers', () => {
+    const spending = [
+      { date: day('2024-01-10'), amount: 300 },
+      { date: day('2024-02-12'), amount: 550 },
+      { date: day('2024-03-03'), amount: 100 },
+    ]
+    const transfers = [{ date: day('2024-02-20'), amount: 20, fromBudgetId: 'other', toBudgetId: 'food' }]
+    const ledger = (rollover: string) => buildEnvelopeLedger(
+      { id: 'food', amount: 400, period: 'monthly', rollover, periodAnchor: day('2024-01-01') },
+      spending,
+      transfers,
+      day('2024-03-15'),
+      new Map([[Date.UTC(2024, 0, 1), 450]])
+    )
+
+    const surplus = ledger('carry_surplus')
+    expect(surplus.map((period) => period.carriedIn)).toEqual([0, 150, 20])
+    expect(surplus.map((period) => period.closed)).toEqual([true, true, false])
+    expect(surplus[1]).toMatchObject({ transfersIn: 20, available: 570, closingBalance: 20 })
+
+    expect(ledger('carry_deficit').map((period) => period.carriedIn)).toEqual([0, 0, -130])
+    expect(ledger('reset')[2]).toMatchObject({ allocated: 400, carriedIn: 0, closingBalance: 300 })
+  })
+})
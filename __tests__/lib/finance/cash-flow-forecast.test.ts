@@ -0,0 +1,29 @@
+import { forecastCashFlow } from '@/lib/finance/cash-flow-forecast'
+
+const day = (value: string) => new Date(`${value}T12:00:00Z`)
+
+describe('forecastCashFlow', () => {
+  it('projects recurring items, flags the overdraft and checks goals against the surplus', () => {
+    const forecast = forecastCashFlow({
+      startingBalance: 500,
+      horizonDays: 60,
+      today: day('2024-05-10'),
+      recurring: [
+        { id: 'rent', description: 'Rent', amount: 1200, type: 'Expense', rrule: 'FREQ=MONTHLY', startDate: day('2024-01-15'), nextOccurrence: day('2024-05-15') },
+        { id: 'pay', description: 'Paycheck', amount: 2000, type: 'Income', rrule: 'FREQ=MONTHLY', startDate: day('2024-01-20'), nextOccurrence: day('2024-05-20') },
+      ],
+      budgets: [],
+      goals: [
+        { id: 'fund', name: 'Emergency fund', targetAmount: 1000, currentAmount: 200, deadline: day('2024-07-01') },
+        { id: 'car', name: 'Car', targetAmount: 20000, currentAmount: 0, deadline: day('2024-07-01') },
+      ],
+      history: [],
+    })
+
+    expect(forecast.firstOverdraftDate).toBe('2024-05-15')
+    expect(forecast.lowestBalance).toEqual({ date: '2024-05-15', balance: -700 })
+    expect(forecast.overdrafts).toHaveLength(1)
+    expect(forecast.endingBalance).toBe(2100)
+    expect(forecast.goals.map((goal) => goal.status)).toEqual(['on_track', 'at_risk'])
+  })
+})
@@ -0,0 +1,65 @@
+import {
+  categorizeTransaction,
+  CategoryRuleDefinition,
+  compileCategoryRules,
+  compilePayeePattern,
+  isSafePayeePattern,
+} from '@/lib/finance/categorization'
+import { trainCategoryClassifier } from '@/lib/finance/category-classifier'
+
+const rule = (overrides: Partial<CategoryRuleDefinition>): CategoryRuleDefinition => ({
+  id: 'rule',
+  category: 'Other',
+  merchantAliases: [],
+  priority: 0,
+  enabled: true,
+  ...overrides,
+})
+
+describe('categorizeTransaction', () => {
+  const classifier = trainCategoryClassifier([
+    { description: 'Starbucks Coffee', amount: 4.5, type: 'Expense', category: 'Dining' },
+    { description: 'Starbucks #221', amount: 6, type: 'Expense', category: 'Dining' },
+    { description: 'Blue Bottle Coffee', amount: 5, type: 'Expense', category: 'Dining' },
+    { description: 'Whole Foods Market', amount: 84, type: 'Expense', category: 'Groceries' },
+    { description: 'Trader Joes Market', amount: 61, type: 'Expense', category: 'Groceries' },
+    { description: 'ACME Corp Payroll', amount: 3200, type: 'Income', category: 'Salary' },
+    { description: 'ACME Corp Payroll', amount: 3200, type: 'Income', category: 'Salary' },
+  ])
+
+  it('applies the highest-priority matching rule before the classifier', () => {
+    const rules = compileCategoryRules([
+      rule({ id: 'aliases', category: 'Shopping', merchantAliases: ['amzn mktp'] }),
+      rule({ id: 'big', category: 'Electronics', payeePattern: '^amzn', minAmount: 500, priority: 10 }),
+      rule({ id: 'off', category: 'Ignored', payeePattern: '.', enabled: false, priority: 99 }),
+    ])
+
+    expect(categorizeTransaction({ description: 'AMZN Mktp US*2K3', amount: 20, type: 'Expense' }, rules, classifier))
+      .toEqual({ category: 'Shopping', source: 'rule', confidence: 1, ruleId: 'aliases' })
+    expect(categorizeTransaction({ description: 'AMZN Mktp US*2K3', amount: 899, type: 'Expense' }, rules, classifier))
+      .toMatchObject({ category: 'Electronics', ruleId: 'big' })
+  })
+
+  it('falls back to the classifier and respects transaction type', () => {
+    expect(categorizeTransaction({ description: 'STARBUCKS STORE 118', amount: 5, type: 'Expense' }, [], classifier))
+      .toMatchObject({ category: 'Dining', source: 'classifier' })
+    expect(categorizeTransaction({ description: 'Payroll ACME', amount: 3200, type: 'Income' }, [], classifier))
+      .toMatchObject({ category: 'Salary' })
+    expect(categorizeTransaction({ description: 'Refund', amount: 12, type: 'Income' }, [], trainCategoryClassifier([])))
+      .toBeNull()
+  })
+
+  it('refuses payee patterns that could backtrack catastrophically', () => {
+    expect(isSafePayeePattern('^(amzn|amazon) mktp')).toBe(true)
+    expect(isSafePayeePattern('uber\\s+(eats)?\\s*[*+]+')).toBe(true)
+    expect(isSafePayeePattern('(a+)+$')).toBe(false)
+    expect(isSafePayeePattern('(x|xx)*y')).toBe(false)
+    expect(isSafePayeePattern('((ab)*c){2,}')).toBe(false)
+    expect(isSafePayeePattern('(a)\\1')).toBe(false)
+
+    const rules = compileCategoryRules([rule({ payeePattern: '(a+)+$', category: 'Never' })])
+    expect(rules[0].pattern).toBeNull()
+    expect(categorizeTransaction({ description: 'a'.repeat(40) + '!', amount: 1, type: 'Expense' }, rules)).toBeNull()
+    expect(compilePayeePattern('[unclosed')).toBeNull()
+  })
+})
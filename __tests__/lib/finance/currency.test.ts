@@ -0,0 +1,46 @@
+import { convertAmount, createRateLookup, parseExchangeRates } from '@/lib/finance/currency'
+
+const ECB_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <Cube>
+    <Cube time='2024-01-03'>
+      <Cube currency='USD' rate='1.0919'/>
+      <Cube currency='GBP' rate='0.86518'/>
+    </Cube>
+    <Cube time='2024-01-02'>
+      <Cube currency='USD' rate='1.0956'/>
+      <Cube currency='GBP' rate='0.86645'/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`
+
+describe('exchange rates', () => {
+  it('reads ECB XML and CSV layouts', () => {
+    const xml = parseExchangeRates('eurofxref-hist.xml', ECB_XML)
+    expect(xml).toHaveLength(4)
+    expect(xml[0]).toEqual({ base: 'EUR', quote: 'USD', rate: 1.0919, date: new Date('2024-01-03T00:00:00Z') })
+
+    const ecbCsv = parseExchangeRates('eurofxref.csv', 'Date, USD, JPY, CYP, \n18 October 2024, 1.0834, 162.09, N/A, \n')
+    expect(ecbCsv.map((row) => row.quote)).toEqual(['USD', 'JPY'])
+    expect(ecbCsv[0].date).toEqual(new Date('2024-10-18T00:00:00Z'))
+
+    const longCsv = parseExchangeRates('rates.csv', 'date,base,quote,rate\n2024-01-02,usd,mxn,17.01\n')
+    expect(longCsv).toEqual([{ base: 'USD', quote: 'MXN', rate: 17.01, date: new Date('2024-01-02T00:00:00Z') }])
+  })
+
+  it('converts directly, inversely and across the ECB base, using the latest rate on or before the date', () => {
+    const lookup = createRateLookup(parseExchangeRates('eurofxref-hist.xml', ECB_XML))
+    const jan2 = new Date('2024-01-02T12:00:00Z')
+
+    expect(convertAmount(100, 'EUR', 'USD', jan2, lookup)).toMatchObject({ amount: 109.56, rate: 1.0956 })
+    expect(convertAmount(109.19, 'USD', 'EUR', new Date('2024-01-05T12:00:00Z'), lookup)).toMatchObject({
+      amount: 100,
+      rateDate: new Date('2024-01-03T00:00:00Z'),
+    })
+    expect(convertAmount(86.645, 'GBP', 'USD', jan2, lookup).amount).toBe(109.56)
+
+    expect(lookup('EUR', 'USD', new Date('2024-01-01T12:00:00Z'))).toBeNull()
+    expect(lookup('EUR', 'USD', new Date('2024-03-01T12:00:00Z'))).toBeNull()
+    expect(() => convertAmount(5, 'JPY', 'USD', jan2, lookup)).toThrow('No exchange rate for JPY')
+  })
+})
@@ -0,0 +1,62 @@
+const mockTx = {
+  user: {
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  transaction: {
+    findMany: jest.fn(),
+  },
+}
+
+const mockPrisma = {
+  user: { findUnique: jest.fn() },
+  $transaction: jest.fn((run: (tx: typeof mockTx) => unknown) => run(mockTx)),
+}
+
+// Mock factories run on import, before mockPrisma is initialised
+jest.mock('@/lib/database', () => ({
+  get prisma() {
+    return mockPrisma
+  },
+}))
+
+import { BaseCurrencyChangedError } from '@/lib/finance/currency'
+import { changeBaseCurrency, lockBaseCurrency } from '@/lib/finance/exchange-rates'
+import type { Prisma } from '@prisma/client'
+
+const lock = (base?: string) => lockBaseCurrency(mockTx as unknown as Prisma.TransactionClient, 'user-1', base)
+
+describe('base currency locking', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('locks the user row at the base amounts were converted to', async () => {
+    mockTx.user.updateMany.mockResolvedValue({ count: 1 })
+
+    await expect(lock('EUR')).resolves.toBe('EUR')
+    expect(mockTx.user.findUnique).not.toHaveBeenCalled()
+    expect(mockTx.user.updateMany).toHaveBeenCalledWith({
+      where: { id: 'user-1', baseCurrency: 'EUR' },
+      data: { baseCurrency: 'EUR' },
+    })
+  })
+
+  it('rejects a write converted to a base that has since changed', async () => {
+    mockTx.user.updateMany.mockResolvedValue({ count: 0 })
+
+    await expect(lock('EUR')).rejects.toThrow(BaseCurrencyChangedError)
+  })
+
+  it('switches the base before reading transactions and stops if another change won', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({ baseCurrency: 'USD' })
+    mockTx.user.updateMany.mockResolvedValue({ count: 0 })
+
+    await expect(changeBaseCurrency('user-1', 'EUR')).rejects.toThrow(BaseCurrencyChangedError)
+    expect(mockTx.user.updateMany).toHaveBeenCalledWith({
+      where: { id: 'user-1', baseCurrency: 'USD' },
+      data: { baseCurrency: 'EUR' },
+    })
+    expect(mockTx.transaction.findMany).not.toHaveBeenCalled()
+  })
+})
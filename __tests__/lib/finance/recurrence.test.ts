@@ -0,0 +1,54 @@
+import { getNextOccurrence, getOccurrences, parseRRule } from '@/lib/finance/recurrence'
+import { detectSubscriptions } from '@/lib/finance/subscription-detection'
+
+const day = (value: string) => new Date(`${value}T12:00:00Z`)
+const isoDays = (dates: Date[]) => dates.map((date) => date.toISOString().slice(0, 10))
+
+describe('recurrence rules', () => {
+  it('clamps monthly bills to the end of short months and honours COUNT', () => {
+    const rule = parseRRule('FREQ=MONTHLY;COUNT=4')
+
+    expect(isoDays(getOccurrences(rule, day('2024-01-31'), day('2024-01-01'), day('2024-12-31'))))
+      .toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30'])
+  })
+
+  it('expands biweekly, ordinal BYDAY and UNTIL rules', () => {
+    const biweekly = parseRRule('FREQ=WEEKLY;INTERVAL=2')
+    expect(isoDays(getOccurrences(biweekly, day('2024-03-01'), day('2024-03-10'), day('2024-04-01'))))
+      .toEqual(['2024-03-15', '2024-03-29'])
+
+    const lastFriday = parseRRule('RRULE:FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20240501')
+    expect(isoDays(getOccurrences(lastFriday, day('2024-01-01'), day('2024-01-01'), day('2024-12-31'))))
+      .toEqual(['2024-01-26', '2024-02-23', '2024-03-29', '2024-04-26'])
+
+    expect(getNextOccurrence(lastFriday, day('2024-01-01'), day('2024-04-26'))).toBeNull()
+    expect(() => parseRRule('FREQ=HOURLY')).toThrow('Unsupported FREQ')
+  })
+})
+
+describe('detectSubscriptions', () => {
+  it('finds monthly charges with similar amounts and reports the price change', () => {
+    const charges = [
+      { id: '1', date: day('2024-01-05'), amount: 15.49, description: 'NETFLIX.COM 866-579' },
+      { id: '2', date: day('2024-02-05'), amount: 15.49, description: 'NETFLIX.COM 866-579' },
+      { id: '3', date: day('2024-03-06'), amount: 15.49, description: 'Netflix.com' },
+      { id: '4', date: day('2024-04-05'), amount: 17.99, description: 'NETFLIX.COM 866-579' },
+      { id: '5', date: day('2024-01-09'), amount: 82.1, description: 'Whole Foods' },
+      { id: '6', date: day('2024-01-20'), amount: 45.3, description: 'Whole Foods' },
+      { id: '7', date: day('2024-03-02'), amount: 120.0, description: 'Whole Foods' },
+    ]
+
+    const [netflix, ...others] = detectSubscriptions(charges, day('2024-04-20'))
+
+    expect(others).toEqual([])
+    expect(netflix).toMatchObject({
+      merchant: 'netflix',
+      cadence: 'monthly',
+      amount: 17.99,
+      occurrences: 4,
+      active: true,
+      priceChange: { from: 15.49, to: 17.99 },
+    })
+    expect(detectSubscriptions(charges, day('2024-07-01'))[0].active).toBe(false)
+  })
+})
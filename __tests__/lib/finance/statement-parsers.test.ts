@@ -0,0 +1,93 @@
+import {
+  parseCsvStatement,
+  parseOfxStatement,
+  parseQifStatement,
+  parseStatement,
+  StatementParseError,
+} from '@/lib/finance/statement-parsers'
+import { findDuplicates } from '@/lib/finance/transaction-dedup'
+
+describe('statement parsers', () => {
+  it('applies a CSV column mapping with debit/credit columns and comma decimals', () => {
+    const csv = [
+      'Exported 2024-03-31',
+      'Buchungstag;Verwendungszweck;Soll;Haben',
+      '01.03.2024;"REWE Markt; Berlin";12,50;',
+      '02.03.2024;Gehalt;;"2.500,00"',
+      '31.02.2024;Broken;1,00;',
+    ].join('\n')
+
+    const result = parseCsvStatement(csv, {
+      date: 'Buchungstag',
+      description: 'Verwendungszweck',
+      debit: 'Soll',
+      credit: 'Haben',
+      dateFormat: 'DD.MM.YYYY',
+      decimalSeparator: ',',
+      delimiter: ';',
+      skipRows: 1,
+    })
+
+    expect(result.transactions.map((t) => [t.description, t.amount])).toEqual([
+      ['REWE Markt; Berlin', -12.5],
+      ['Gehalt', 2500],
+    ])
+    expect(result.transactions[0].date.toISOString()).toBe('2024-03-01T12:00:00.000Z')
+    expect(result.errors).toEqual(['Line 5: Invalid date "31.02.2024" (expected DD.MM.YYYY)'])
+  })
+
+  it('reads SGML OFX and QIF records', () => {
+    const ofx = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240305120000[-5:EST]<TRNAMT>-4.75<FITID>A1<NAME>STARBUCKS &amp; CO
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20240306<TRNAMT>100.00<FITID>A2<MEMO>Refund
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`
+    const qif = `!Type:Bank
+D3/ 7'24
+T-1,200.00
+PLandlord
+LRent
+^
+D03/08/2024
+T50.00
+L[Savings]
+^`
+
+    expect(parseOfxStatement(ofx).transactions).toEqual([
+      { date: new Date('2024-03-05T12:00:00Z'), amount: -4.75, description: 'STARBUCKS & CO', memo: undefined, externalId: 'A1' },
+      { date: new Date('2024-03-06T12:00:00Z'), amount: 100, description: 'Refund', memo: undefined, externalId: 'A2' },
+    ])
+
+    const records = parseQifStatement(qif).transactions
+    expect(records.map((t) => [t.date.toISOString().slice(0, 10), t.amount, t.category])).toEqual([
+      ['2024-03-07', -1200, 'Rent'],
+      ['2024-03-08', 50, undefined],
+    ])
+  })
+
+  it('throws StatementParseError for statements the caller has to fix', () => {
+    const csv = 'Date,Description\n2024-03-01,Coffee'
+
+    expect(() => parseStatement('csv', csv)).toThrow(StatementParseError)
+    expect(() => parseCsvStatement(csv, { date: 'Date', description: 'Description', amount: 'Amount', dateFormat: 'YYYY-MM-DD' }))
+      .toThrow(new StatementParseError('CSV is missing mapped columns: amount (or debit/credit)'))
+  })
+
+  it('flags duplicates by reference or by amount, date window and description', () => {
+    const candidates = [
+      { date: new Date('2024-03-05T12:00:00Z'), amount: -4.75, description: 'POS 4411 STARBUCKS STORE #12' },
+      { date: new Date('2024-03-05T12:00:00Z'), amount: -4.75, description: 'POS 4411 STARBUCKS STORE #12' },
+      { date: new Date('2024-03-09T12:00:00Z'), amount: -30, description: 'Shell fuel', externalId: 'X9' },
+      { date: new Date('2024-03-20T12:00:00Z'), amount: -4.75, description: 'Starbucks store' },
+    ]
+    const existing = [
+      { id: 'e1', date: new Date('2024-03-04T12:00:00Z'), amount: -4.75, description: 'Starbucks Store' },
+      { id: 'e2', date: new Date('2024-01-01T12:00:00Z'), amount: -99, description: 'Other', externalId: 'X9' },
+    ]
+
+    expect(findDuplicates(candidates, existing)).toEqual([
+      { index: 0, existingId: 'e1', reason: 'fuzzy', similarity: 1 },
+      { index: 2, existingId: 'e2', reason: 'reference', similarity: 1 },
+    ])
+  })
+})
@@ -0,0 +1,71 @@
+import { habitCalendar, habitRisk, habitStats, lastMissed, parseSchedule } from '@/lib/growth/habit-schedule'
+
+describe('habit schedule', () => {
+  // Monday 2026-03-02, habit created the week before
+  const createdAt = new Date('2026-02-23T09:00:00Z')
+  const now = new Date('2026-03-04T12:00:00Z') // Wednesday
+  const done = (date: string) => ({ date, completed: true })
+
+  it('counts streaks over scheduled weekdays, honoring skips and freezes', () => {
+    const schedule = parseSchedule({ type: 'weekdays', days: [1, 3, 5] })
+    const logs = [
+      done('2026-02-23'),
+      // Wed 25th missed
+      done('2026-02-27'),
+      { date: '2026-03-02', completed: false, status: 'freeze' },
+    ]
+
+    const stats = habitStats({ schedule, createdAt, logs, now })
+
+    expect(stats.streak).toBe(1) // Fri done, Mon frozen, Wed still open
+    expect(stats.bestStreak).toBe(1)
+    expect(stats.dueToday).toBe(true)
+    expect(stats.completionRate).toBe(50) // 2 of Mon, Wed, Fri, Mon(frozen)
+
+    const skipped = habitStats({ schedule, createdAt, logs: [...logs, { date: '2026-02-25', completed: false, status: 'skip' }], now })
+    expect(skipped.streak).toBe(2)
+  })
+
+  it('tracks times-per-week in the user timezone and includes backfilled logs', () => {
+    const schedule = parseSchedule({ type: 'weekly', times: 2 })
+    const logs = [done('2026-02-16'), done('2026-02-18'), done('2026-02-24'), done('2026-02-26'), done('2026-03-03')]
+
+    // 23:30 UTC on Wednesday is already Thursday in Auckland
+    const stats = habitStats({ schedule, createdAt, logs, now: new Date('2026-03-04T23:30:00Z'), timeZone: 'Pacific/Auckland' })
+
+    expect(stats.streak).toBe(2)
+    expect(stats.streakUnit).toBe('week')
+    expect(stats.periodProgress).toEqual({ done: 1, target: 2 })
+    expect(stats.dueToday).toBe(true)
+
+    const calendar = habitCalendar({ schedule, createdAt, logs, now }, '2026-03-02', '2026-03-05')
+    expect(calendar.map((day) => day.status)).toEqual(['not_due', 'done', 'pending', 'inactive'])
+  })
+
+  it('reports a missed day only after the grace period, and flags habits at risk', () => {
+    const schedule = parseSchedule({ type: 'daily' })
+    const logs = [done('2026-03-01'), done('2026-03-02')] // Tuesday 3rd not logged
+
+    // 01:00 on Wednesday: still within a 2 hour grace period
+    expect(lastMissed({ schedule, createdAt, logs, now: new Date('2026-03-04T01:00:00Z') }, 2)).toBeNull()
+    expect(lastMissed({ schedule, createdAt, logs, now: new Date('2026-03-04T03:00:00Z') }, 2)).toEqual({
+      key: '2026-03-03', start: '2026-03-03', end: '2026-03-03', unit: 'day', streakLost: 2,
+    })
+
+    expect(habitRisk({ schedule, createdAt, logs, now: new Date('2026-03-03T12:00:00Z') })).toEqual({
+      streak: 2, remaining: 1, daysLeft: 1, deadline: '2026-03-03',
+    })
+    // 3x a week with one done by Friday: two left, three days to go
+    const weekly = parseSchedule({ type: 'weekly', times: 3 })
+    const friday = new Date('2026-03-06T12:00:00Z')
+    expect(habitRisk({ schedule: weekly, createdAt, logs: [done('2026-03-02')], now: friday })).toBeNull()
+    expect(habitRisk({ schedule: weekly, createdAt, logs: [done('2026-03-02')], now: new Date('2026-03-07T12:00:00Z') })).toMatchObject({
+      remaining: 2, daysLeft: 2, deadline: '2026-03-08',
+    })
+  })
+
+  it('falls back to the legacy frequency', () => {
+    expect(parseSchedule(null, 'monthly')).toEqual({ type: 'monthly', times: 1 })
+    expect(parseSchedule({ type: 'weekly', times: 9 }, 'Daily')).toEqual({ type: 'daily' })
+  })
+})
@@ -0,0 +1,51 @@
+import { cardsFromText, deckMastery, newCardSchedule, reviewCard, reviewQueue } from '@/lib/growth/spaced-repetition'
+
+describe('spaced repetition', () => {
+  const now = new Date('2026-03-02T09:00:00Z')
+  const days = (card: { dueAt: Date }) => Math.round((card.dueAt.getTime() - now.getTime()) / 86400000)
+
+  it('steps new cards through learning, grows intervals by ease and relearns lapses', () => {
+    const learning = reviewCard(newCardSchedule(now), 3, now)
+    expect(learning).toMatchObject({ state: 'learning', step: 1 })
+    expect(learning.dueAt.getTime() - now.getTime()).toBe(10 * 60 * 1000)
+
+    const graduated = reviewCard(learning, 3, now)
+    expect(graduated).toMatchObject({ state: 'review', interval: 1 })
+
+    const longer = reviewCard({ ...graduated, interval: 10 }, 3, now)
+    expect(longer.interval).toBe(25)
+    expect(days(longer)).toBe(25)
+
+    const lapsed = reviewCard(longer, 1, now)
+    expect(lapsed).toMatchObject({ state: 'relearning', interval: 13, lapses: 1, ease: 2.3 })
+    expect(reviewCard(lapsed, 3, now)).toMatchObject({ state: 'review', interval: 13 })
+  })
+
+  it('queues due learning cards, then reviews, then new cards up to the daily limit', () => {
+    const earlier = new Date(now.getTime() - 60000)
+    const later = new Date(now.getTime() + 60000)
+    const cards = [
+      { id: 'new1', state: 'new' as const, dueAt: earlier },
+      { id: 'new2', state: 'new' as const, dueAt: earlier },
+      { id: 'review', state: 'review' as const, dueAt: earlier },
+      { id: 'future', state: 'review' as const, dueAt: later },
+      { id: 'learning', state: 'learning' as const, dueAt: earlier },
+    ]
+    expect(reviewQueue(cards, { newPerDay: 5, newSeenToday: 4 }, now).map((card) => card.id)).toEqual(['learning', 'review', 'new1'])
+
+    // A mature card reviewed today counts fully; new cards not at all
+    expect(deckMastery([
+      { state: 'review', interval: 30, lastReviewedAt: now },
+      { state: 'new', interval: 0, lastReviewedAt: null },
+    ], now)).toBe(50)
+  })
+
+  it('drafts cards from Q/A pairs and definition lists', () => {
+    const text = '## Key concepts\n- **Photosynthesis**: turning light into chemical energy\n- Chlorophyll - the green pigment\n\nQ: Where does it happen?\nA: In the chloroplasts'
+    expect(cardsFromText(text)).toEqual([
+      { front: 'Photosynthesis', back: 'turning light into chemical energy' },
+      { front: 'Chlorophyll', back: 'the green pigment' },
+      { front: 'Where does it happen?', back: 'In the chloroplasts' },
+    ])
+  })
+})
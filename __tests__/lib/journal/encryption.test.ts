@@ -0,0 +1,43 @@
+import {
+  JournalKeyError,
+  createKeyring,
+  decryptEntry,
+  encryptEntry,
+  rewrapKeyring,
+  unlockWithPassphrase,
+  unlockWithRecoveryKey,
+} from '@/lib/journal/encryption'
+
+// Low iteration count keeps the test fast; production uses PBKDF2_ITERATIONS
+const ITERATIONS = 1000
+
+describe('journal encryption', () => {
+  it('round-trips entries and unlocks with the passphrase or the recovery key', async () => {
+    const { keyring, key, recoveryKey } = await createKeyring('correct horse battery', 1, ITERATIONS)
+    const payload = await encryptEntry(key, keyring.version, { title: 'Tuesday', content: 'Felt anxious before the call' })
+    expect(payload.ciphertext).not.toContain('anxious')
+
+    const unlocked = await unlockWithPassphrase(keyring, 'correct horse battery')
+    expect(await decryptEntry(unlocked, payload)).toEqual({ title: 'Tuesday', content: 'Felt anxious before the call' })
+
+    // Typed back in lower case without dashes
+    const recovered = await unlockWithRecoveryKey(keyring, recoveryKey.toLowerCase().replace(/-/g, ''))
+    expect((await decryptEntry(recovered, payload)).title).toBe('Tuesday')
+
+    await expect(unlockWithPassphrase(keyring, 'wrong passphrase')).rejects.toThrow(JournalKeyError)
+  })
+
+  it('changes the passphrase without re-encrypting, and rejects payloads from another key', async () => {
+    const { keyring, key } = await createKeyring('first passphrase', 1, ITERATIONS)
+    const payload = await encryptEntry(key, 1, { title: 'a', content: 'b' })
+
+    const { keyring: rewrapped, recoveryKey } = await rewrapKeyring(keyring, key, 'second passphrase', true)
+    expect(recoveryKey).toMatch(/^([0-9A-Z]{4}-){7}[0-9A-Z]{4}$/)
+    await expect(unlockWithPassphrase(rewrapped, 'first passphrase')).rejects.toThrow(JournalKeyError)
+    const unlocked = await unlockWithPassphrase(rewrapped, 'second passphrase')
+    expect(await decryptEntry(unlocked, payload)).toEqual({ title: 'a', content: 'b' })
+
+    const rotated = await createKeyring('second passphrase', 2, ITERATIONS)
+    await expect(decryptEntry(rotated.key, payload)).rejects.toThrow(JournalKeyError)
+  })
+})
@@ -0,0 +1,50 @@
+import { analyzeJournalSentiment, buildJournalEventData } from '@/lib/journal/journal-events'
+
+describe('journal.created event data', () => {
+  const entry = {
+    id: 'entry-1',
+    title: 'Long day',
+    content: 'Feeling stressed and worried about the deadline',
+    mood: 'tired',
+    tags: ['Work'],
+    isPrivate: true,
+  }
+
+  it('scores sentiment from emotion keywords', () => {
+    expect(analyzeJournalSentiment('Feeling stressed and worried')).toMatchObject({
+      emotion: 'anxious',
+      intensity: 0.67,
+      score: -0.47,
+      label: 'negative',
+    })
+    expect(analyzeJournalSentiment('Went to the shops').label).toBe('neutral')
+  })
+
+  it('only counts whole emotion words', () => {
+    expect(analyzeJournalSentiment('A download made me discontent').emotion).toBe('neutral')
+    expect(analyzeJournalSentiment('Finally at  ease and content').emotion).toBe('calm')
+  })
+
+  it('leaves the text of private entries out of the event', () => {
+    const data = buildJournalEventData(entry)
+
+    expect(data.title).toBeNull()
+    expect(data.content).toBeNull()
+    expect(data.wordCount).toBe(7)
+    expect(data.sentiment?.emotion).toBe('anxious')
+    expect(buildJournalEventData({ ...entry, isPrivate: false })).toMatchObject({
+      title: 'Long day',
+      content: 'Feeling stressed and worried about the deadline',
+    })
+  })
+
+  it('only carries metadata for encrypted entries', () => {
+    expect(buildJournalEventData({ ...entry, encrypted: true })).toMatchObject({
+      title: null,
+      content: null,
+      wordCount: null,
+      sentiment: null,
+      tags: ['Work'],
+    })
+  })
+})
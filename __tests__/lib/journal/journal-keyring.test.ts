@@ -0,0 +1,60 @@
+import {
+  JournalKeyConflictError,
+  KEY_CHANGED_MESSAGE,
+  PLAINTEXT_PRIVATE_MESSAGE,
+  checkJournalWrite,
+} from '@/lib/journal/journal-keyring'
+import type { Prisma } from '@prisma/client'
+
+const transaction = () => ({
+  journalKeyring: {
+    count: jest.fn(),
+    updateMany: jest.fn(),
+  },
+})
+
+type MockTransaction = ReturnType<typeof transaction>
+
+const check = (tx: MockTransaction, write: { isPrivate: boolean; keyVersion: number | null }) =>
+  checkJournalWrite(tx as unknown as Prisma.TransactionClient, 'user-1', write)
+
+describe('journal keyring write checks', () => {
+  it('locks the keyring row at the version an encrypted entry was written with', async () => {
+    const tx = transaction()
+    tx.journalKeyring.updateMany.mockResolvedValue({ count: 1 })
+
+    await check(tx, { isPrivate: true, keyVersion: 2 })
+
+    expect(tx.journalKeyring.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', version: 2 },
+      data: { version: 2 },
+    })
+  })
+
+  it('rejects an encrypted entry written with a rotated key', async () => {
+    const tx = transaction()
+    tx.journalKeyring.updateMany.mockResolvedValue({ count: 0 })
+
+    const write = check(tx, { isPrivate: true, keyVersion: 1 })
+
+    await expect(write).rejects.toThrow(JournalKeyConflictError)
+    await expect(write).rejects.toThrow(KEY_CHANGED_MESSAGE)
+  })
+
+  it('rejects plaintext private entries once the journal is encrypted', async () => {
+    const tx = transaction()
+    tx.journalKeyring.count.mockResolvedValue(1)
+
+    await expect(check(tx, { isPrivate: true, keyVersion: null })).rejects.toThrow(PLAINTEXT_PRIVATE_MESSAGE)
+  })
+
+  it('allows plaintext private entries without a keyring and shared entries with one', async () => {
+    const tx = transaction()
+    tx.journalKeyring.count.mockResolvedValue(0)
+    await expect(check(tx, { isPrivate: true, keyVersion: null })).resolves.toBeUndefined()
+
+    tx.journalKeyring.count.mockResolvedValue(1)
+    await expect(check(tx, { isPrivate: false, keyVersion: null })).resolves.toBeUndefined()
+    expect(tx.journalKeyring.updateMany).not.toHaveBeenCalled()
+  })
+})
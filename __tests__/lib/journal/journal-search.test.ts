@@ -0,0 +1,31 @@
+import { buildTagCloud, onThisDayRanges, parseSearchQuery, searchEntry } from '@/lib/journal/journal-search'
+
+describe('journal search', () => {
+  it('requires every term and highlights matches in the title and snippet', () => {
+    const entry = { title: 'Morning walk', content: 'Walked by the river before work. The river was calm.', tags: ['Outdoors'] }
+    const terms = parseSearchQuery('River "morning walk" outdoors')
+
+    const hit = searchEntry(entry, terms)
+
+    expect(terms).toEqual(['river', 'morning walk', 'outdoors'])
+    expect(hit?.title).toEqual([{ text: 'Morning walk', match: true }])
+    expect(hit?.snippet.filter((segment) => segment.match).map((segment) => segment.text)).toEqual(['river', 'river'])
+    expect(hit?.matchedTags).toEqual(['Outdoors'])
+    expect(searchEntry(entry, parseSearchQuery('river rain'))).toBeNull()
+  })
+
+  it('counts tags case-insensitively under their most common spelling', () => {
+    const cloud = buildTagCloud([{ tags: ['Work', 'sleep'] }, { tags: ['work'] }, { tags: ['work', 'work'] }])
+
+    expect(cloud).toEqual([{ tag: 'work', count: 3 }, { tag: 'sleep', count: 1 }])
+  })
+
+  it('resurfaces the same local day in earlier years, with Feb 29 on Feb 28', () => {
+    const ranges = onThisDayRanges({ year: 2026, month: 2, day: 28 }, 2023, -120)
+
+    expect(ranges.map((range) => range.year)).toEqual([2025, 2024, 2023])
+    expect(ranges[1].start.toISOString()).toBe('2024-02-27T22:00:00.000Z')
+    expect(ranges[1].end.toISOString()).toBe('2024-02-29T22:00:00.000Z')
+    expect(ranges[0].end.getTime() - ranges[0].start.getTime()).toBe(24 * 60 * 60 * 1000)
+  })
+})
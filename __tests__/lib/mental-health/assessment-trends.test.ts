@@ -0,0 +1,37 @@
+import { buildAssessmentTrend } from '@/lib/mental-health/assessment-trends'
+
+const point = (id: string, score: number, day: number) => ({
+  id,
+  score,
+  severity: null,
+  createdAt: new Date(Date.UTC(2024, 0, day)),
+})
+
+describe('assessment trends', () => {
+  it('classifies PHQ-9 changes with the reliable change index and clinical cutoff', () => {
+    const trend = buildAssessmentTrend('PHQ-9', [
+      point('c', 14, 29),
+      point('a', 6, 1),
+      point('b', 10, 15),
+    ])!
+
+    expect(trend.reliableChange).toBe(6)
+    expect(trend.points.map((p) => p.id)).toEqual(['a', 'b', 'c'])
+
+    // Each 4-point step crosses nothing reliable on its own
+    expect(trend.changes[0].category).toBe('unchanged')
+    expect(trend.changes[1].category).toBe('unchanged')
+
+    // 6 -> 14 is a reliable worsening into the clinical range
+    expect(trend.sinceBaseline!.direction).toBe('worsened')
+    expect(trend.sinceBaseline!.rci).toBeLessThan(-1.96)
+    expect(trend.sinceBaseline!.category).toBe('deteriorated')
+  })
+
+  it('treats higher WHO-5 scores as improvement', () => {
+    const trend = buildAssessmentTrend('WHO-5', [point('a', 28, 1), point('b', 64, 20)])!
+    expect(trend.reliableChange).toBe(20)
+    expect(trend.changes[0].direction).toBe('improved')
+    expect(trend.changes[0].category).toBe('recovered')
+  })
+})
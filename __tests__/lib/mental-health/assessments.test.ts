@@ -0,0 +1,34 @@
+import { AssessmentValidationError, scoreAssessment } from '@/lib/mental-health/assessments'
+
+describe('assessment scoring', () => {
+  it('scores PHQ-9 into severity bands and flags item 9', () => {
+    const moderate = scoreAssessment('PHQ-9', [2, 2, 1, 2, 1, 1, 1, 1, 0])
+    expect(moderate.score).toBe(11)
+    expect(moderate.severity.label).toBe('Moderate')
+    expect(moderate.safetyFlag).toBe(false)
+
+    const flagged = scoreAssessment('phq9', { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0, 6: 0, 7: 0, 8: 0, 9: 1 })
+    expect(flagged.score).toBe(1)
+    expect(flagged.severity.label).toBe('Minimal')
+    expect(flagged.safetyFlag).toBe(true)
+    expect(flagged.safetyItems).toEqual([9])
+  })
+
+  it('reverse-scores PSS-10 items and scales WHO-5 to 0-100', () => {
+    // Items 4, 5, 7 and 8 are reversed: answering 4 there counts as 0
+    const pss = scoreAssessment('PSS-10', [4, 4, 4, 0, 0, 4, 0, 0, 4, 4])
+    expect(pss.score).toBe(40)
+    expect(pss.severity.label).toBe('High Stress')
+
+    const who = scoreAssessment('WHO-5', [3, 3, 2, 2, 3])
+    expect(who.rawScore).toBe(13)
+    expect(who.score).toBe(52)
+    expect(who.severity.label).toBe('Good Wellbeing')
+  })
+
+  it('rejects missing and out-of-range answers', () => {
+    expect(() => scoreAssessment('GAD-7', [0, 1, 2])).toThrow(AssessmentValidationError)
+    expect(() => scoreAssessment('GAD-7', [0, 1, 2, 3, 4, 0, 0])).toThrow('Item 5')
+    expect(() => scoreAssessment('BDI', [0])).toThrow('Unknown assessment type')
+  })
+})
@@ -0,0 +1,43 @@
+import { analyzeMoodCorrelations, meanDifference, strongestFindings, tCritical } from '@/lib/mental-health/mood-correlations'
+
+describe('mood correlations', () => {
+  const day = (index: number) => new Date(Date.UTC(2026, 0, 1 + index, 18))
+
+  it('uses Welch intervals with Student t critical values', () => {
+    expect(tCritical(3)).toBeCloseTo(3.182, 1)
+    expect(tCritical(30)).toBeCloseTo(2.042, 2)
+
+    const { difference, ci } = meanDifference([7, 8, 7, 8, 9], [5, 6, 5, 6, 5])
+    expect(difference).toBeCloseTo(2.4)
+    expect(ci.low).toBeGreaterThan(0)
+    expect(ci.high).toBeLessThan(4)
+  })
+
+  it('finds a lagged habit effect and ignores unrelated signals', () => {
+    // Mood is higher the day after the sleep habit; "coffee" is logged on alternating days regardless
+    const sleepDays = new Set([0, 1, 4, 5, 8, 9, 12, 13, 16, 17, 20, 21, 24, 25])
+    const moods = Array.from({ length: 28 }, (_, i) => ({
+      mood: sleepDays.has(i - 1) ? 7 + (i % 3 === 0 ? 1 : 0) : 5 - (i % 4 === 0 ? 1 : 0),
+      activities: i % 2 === 0 ? ['Coffee'] : [],
+      createdAt: day(i),
+    }))
+    const habitLogs = Array.from(sleepDays, (i) => ({
+      habitName: 'Sleep 8 hours',
+      date: new Date(Date.UTC(2026, 0, 1 + i)),
+      completed: true,
+    }))
+
+    const report = analyzeMoodCorrelations({ moods, habitLogs, transactions: [] })
+    const lagged = report.effects.find((effect) => effect.key === 'habit:sleep 8 hours:1')
+    const coffee = report.effects.find((effect) => effect.key === 'activity:coffee:0')
+
+    expect(report.enoughData).toBe(true)
+    expect(lagged?.significant).toBe(true)
+    expect(lagged?.lift).toBeGreaterThan(2)
+    expect(coffee?.significant).toBe(false)
+
+    const [top] = strongestFindings(report, 1)
+    expect(top.key).toBe('habit:sleep 8 hours:1')
+    expect(top.title).toBe('Your mood tends to be higher the day after you complete "sleep 8 hours"')
+  })
+})
@@ -0,0 +1,43 @@
+const mockPrisma = {
+  moodEntry: { findMany: jest.fn() },
+  habitLog: { findMany: jest.fn() },
+  transaction: { findMany: jest.fn() },
+  proactiveInsight: { findMany: jest.fn(), create: jest.fn() },
+}
+
+// Mock factories run on import, before mockPrisma is initialised
+jest.mock('@/lib/database', () => ({
+  get prisma() {
+    return mockPrisma
+  },
+}))
+
+jest.mock('@/lib/timezone', () => ({
+  getUserTimezone: jest.fn(async () => 'Pacific/Auckland'),
+}))
+
+jest.mock('@/lib/mental-health/mood-correlations', () => ({
+  analyzeMoodCorrelations: jest.fn(() => ({ findings: [] })),
+  strongestFindings: jest.fn(() => []),
+}))
+
+import { publishMoodInsights } from '@/lib/mental-health/mood-insights'
+import { analyzeMoodCorrelations } from '@/lib/mental-health/mood-correlations'
+import { getUserTimezone } from '@/lib/timezone'
+
+describe('publishing mood insights', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.moodEntry.findMany.mockResolvedValue([])
+    mockPrisma.habitLog.findMany.mockResolvedValue([])
+    mockPrisma.transaction.findMany.mockResolvedValue([])
+  })
+
+  it("buckets days in the user's timezone", async () => {
+    expect(await publishMoodInsights('user-1', new Date('2026-03-04T12:00:00Z'))).toBe(0)
+
+    expect(getUserTimezone).toHaveBeenCalledWith('user-1')
+    expect(analyzeMoodCorrelations).toHaveBeenCalledWith(expect.objectContaining({ timeZone: 'Pacific/Auckland' }))
+    expect(mockPrisma.proactiveInsight.create).not.toHaveBeenCalled()
+  })
+})
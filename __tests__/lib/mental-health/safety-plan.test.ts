@@ -0,0 +1,31 @@
+import { crisisView, normalizeSafetyPlan, telHref } from '@/lib/mental-health/safety-plan'
+
+describe('safety plan', () => {
+  it('trims, dedupes and drops blank rows and contacts without a name', () => {
+    const plan = normalizeSafetyPlan({
+      warningSigns: ['  Not sleeping ', 'not sleeping', '', 42],
+      helpContacts: [{ name: ' Sam ', phone: ' 555-0100 ', note: '' }, { name: '', phone: '555-0199' }],
+      reasonsForLiving: 'my dog',
+    })
+
+    expect(plan.warningSigns).toEqual(['Not sleeping'])
+    expect(plan.helpContacts).toEqual([{ name: 'Sam', phone: '555-0100' }])
+    expect(plan.reasonsForLiving).toEqual([])
+  })
+
+  it('puts coping steps, people and crisis lines in front during a crisis', () => {
+    const plan = normalizeSafetyPlan({
+      copingStrategies: ['Walk', 'Shower', 'Music', 'Draw'],
+      helpContacts: [{ name: 'Sam', phone: '+1 (555) 010-0100' }],
+      professionalContacts: [{ name: 'Dr. Lee' }],
+    })
+
+    const view = crisisView(plan)
+
+    expect(crisisView(normalizeSafetyPlan({}))).toBeNull()
+    expect(view?.copingStrategies).toEqual(['Walk', 'Shower', 'Music'])
+    expect(view?.contacts.map((contact) => contact.name)).toEqual(['Sam', 'Dr. Lee'])
+    expect(view?.resources.length).toBeGreaterThan(0)
+    expect(telHref('+1 (555) 010-0100')).toBe('tel:+15550100100')
+  })
+})
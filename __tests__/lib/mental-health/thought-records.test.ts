@@ -0,0 +1,29 @@
+import { detectDistortionCues, thoughtRecordStats } from '@/lib/mental-health/thought-records'
+
+describe('thought records', () => {
+  it('counts distortions and the average drop in intensity after re-rating', () => {
+    const stats = thoughtRecordStats([
+      { distortions: ['catastrophizing', 'mind_reading'], intensityBefore: 80, intensityAfter: 40 },
+      { distortions: ['catastrophizing'], intensityBefore: 70, intensityAfter: 60 },
+      { distortions: ['labeling'], intensityBefore: 90, intensityAfter: null },
+    ])
+
+    expect(stats.total).toBe(3)
+    expect(stats.rerated).toBe(2)
+    expect(stats.averageReduction).toBe(25)
+    expect(stats.distortions[0]).toEqual({
+      id: 'catastrophizing',
+      label: 'Catastrophizing',
+      count: 2,
+      share: 0.67,
+      averageReduction: 25,
+    })
+    expect(stats.distortions.find((distortion) => distortion.id === 'labeling')?.averageReduction).toBeNull()
+    expect(stats.distortions.some((distortion) => distortion.id === 'blaming')).toBe(false)
+  })
+
+  it('spots common thinking-trap phrases', () => {
+    expect(detectDistortionCues("I always mess up, I'm such a failure")).toEqual(['overgeneralization', 'labeling'])
+    expect(detectDistortionCues('Had a nice walk today')).toEqual([])
+  })
+})
@@ -0,0 +1,24 @@
+import { SqliteFormatError, readSqliteSchema, readSqliteTable, writeSqlite } from '@/lib/sqlite-file'
+
+const PAGE_SIZE = 4096
+
+const notes = Array.from({ length: 200 }, (_, i) => ({ id: i + 1, text: `note ${i} `.padEnd(100, 'x') }))
+const database = () => writeSqlite([{ name: 'notes', sql: 'CREATE TABLE notes (id integer primary key, text text)', rows: notes }])
+
+describe('sqlite files', () => {
+  it('reads back the rows it wrote across several pages', () => {
+    expect(readSqliteTable(database(), 'notes')).toEqual(notes)
+  })
+
+  it('rejects a table b-tree whose pages link back to themselves', () => {
+    const buffer = database()
+    const [{ rootPage }] = readSqliteSchema(buffer)
+    const root = (rootPage - 1) * PAGE_SIZE
+    expect(buffer[root]).toBe(0x05)
+    // Point the interior root's right-most child at the root itself
+    buffer.writeUInt32BE(rootPage, root + 8)
+
+    expect(() => readSqliteTable(buffer, 'notes')).toThrow(SqliteFormatError)
+    expect(() => readSqliteTable(buffer, 'notes')).toThrow(`Page ${rootPage} is linked more than once`)
+  })
+})
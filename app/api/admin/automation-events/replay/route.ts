@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+// Loading the engine registers it as the outbox handler
+import "@/lib/automation/engine";
+import { automationEventQueue } from "@/lib/automation/event-queue";
+
+const ReplaySchema = z.object({
+  userId: z.string().min(1),
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  types: z.array(z.string()).optional(),
+  deadLetterOnly: z.boolean().optional(),
+}).refine((data) => data.from <= data.to, {
+  message: "`from` must be before `to`",
+});
+
+// POST /api/admin/automation-events/replay - Re-run automation events for a user/time window
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const admin = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!admin || !["Owner", "Admin"].includes(admin.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const options = ReplaySchema.parse(body);
+
+    const replayed = await automationEventQueue.replay(options);
+
+    const result = await automationEventQueue.processPending();
+
+    await prisma.auditLog.create({
+      data: {
+        userId: admin.id,
+        action: "automation_events.replay",
+        resource: "AutomationOutboxEvent",
+        details: {
+          targetUserId: options.userId,
+          from: options.from.toISOString(),
+          to: options.to.toISOString(),
+          types: options.types || [],
+          deadLetterOnly: options.deadLetterOnly || false,
+          replayed,
+        },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      replayed,
+      delivered: result.delivered,
+      failed: result.failed,
+    });
+  } catch (error) {
+    console.error("Error replaying automation events:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,10 @@ import { OllamaClient } from "@/lib/ai/ollama-client";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db/file-db";
 import { prisma } from "@/lib/database";
+import { emitJournalCreated, sentimentFields } from "@/lib/journal/journal-events";
+import { checkJournalWrite } from "@/lib/journal/journal-keyring";
+import { lockBaseCurrency } from "@/lib/finance/exchange-rates";
+import { logHabit, todayForUser } from "@/lib/growth/habits";
 import { z } from "zod";
 import { SINGULARITY_SYSTEM_PROMPT } from "@/lib/ai/ascended-core";
 
@@ -74,42 +78,46 @@ async function executeFunction(functionName: string, params: any, userId: string
       });
 
     case "CREATE_TRANSACTION":
-      return await prisma.transaction.create({
-        data: {
-          userId,
-          description: params.description,
-          amount: params.amount,
-          type: params.type,
-          category: params.category,
-          date: new Date(),
-        },
+      return await prisma.$transaction(async(tx) => {
+        await lockBaseCurrency(tx, userId);
+        return tx.transaction.create({
+          data: {
+            userId,
+            description: params.description,
+            amount: params.amount,
+            type: params.type,
+            category: params.category,
+            date: new Date(),
+          },
+        });
       });
 
     case "LOG_HABIT":
-      // Find the habit and update its streak
+      // Log today as done; the streak is recomputed from the logs
       const habit = await prisma.habit.findFirst({
         where: { userId, name: { contains: params.habitName } },
       });
       if (habit) {
-        return await prisma.habit.update({
-          where: { id: habit.id },
-          data: {
-            streak: habit.streak + 1,
-            updatedAt: new Date(),
-          },
-        });
+        const { stats } = await logHabit(habit, await todayForUser(userId));
+        return { ...habit, streak: stats.streak };
       }
       throw new Error(`Habit "${params.habitName}" not found`);
 
     case "CREATE_JOURNAL_ENTRY":
-      const journalEntry = await prisma.journalEntry.create({
-        data: {
-          title: params.title,
-          content: params.content,
-          mood: params.mood,
-          userId,
-        },
+      // The assistant writes plaintext, so it can't add private entries to an encrypted journal
+      const journalEntry = await prisma.$transaction(async(tx) => {
+        await checkJournalWrite(tx, userId, { isPrivate: true, keyVersion: null });
+        return tx.journalEntry.create({
+          data: {
+            title: params.title,
+            content: params.content,
+            ...sentimentFields(params),
+            mood: params.mood,
+            userId,
+          },
+        });
       });
+      emitJournalCreated(userId, journalEntry);
       return { journalEntry };
 
     case "GET_FINANCIAL_SUMMARY":
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { automationEngine } from "@/lib/automation/engine";
+
+const DryRunSchema = z.object({
+  event: z.object({
+    type: z.string().min(1),
+    data: z.record(z.any()).optional(),
+    timestamp: z.coerce.date().optional(),
+  }),
+});
+
+// POST /api/automations/[id]/dry-run - Simulate a routine against a sample event without side effects
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const routine = await prisma.automationRoutine.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id,
+      },
+    });
+
+    if (!routine) {
+      return NextResponse.json({ error: "Automation routine not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { event } = DryRunSchema.parse(body);
+
+    const trace = await automationEngine.simulateRoutine(routine.id, user.id, event);
+
+    return NextResponse.json({ trace });
+  } catch (error) {
+    console.error("Error simulating automation routine:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to simulate automation routine" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+
+// GET /api/automations/[id]/runs - Execution history with step-by-step traces
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const routine = await prisma.automationRoutine.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id,
+      },
+    });
+
+    if (!routine) {
+      return NextResponse.json({ error: "Automation routine not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 100);
+    const includeDryRuns = searchParams.get("includeDryRuns") !== "false";
+
+    const logs = await prisma.automationLog.findMany({
+      where: {
+        routineId: routine.id,
+        ...(includeDryRuns ? {} : { status: { not: "DRY_RUN" } }),
+      },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+
+    return NextResponse.json({ logs });
+  } catch (error) {
+    console.error("Error fetching automation logs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch automation logs" },
+      { status: 500 }
+    );
+  }
+}
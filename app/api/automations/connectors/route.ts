@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { connectorRegistry } from "@/lib/automation/connectors";
+
+// GET /api/automations/connectors - Connectors automations can call, with the operations their scope allows
+export async function GET(_request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json({ connectors: connectorRegistry.listCallable() });
+  } catch (error) {
+    console.error("Error listing automation connectors:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
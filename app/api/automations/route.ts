@@ -1,7 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { PrismaClient } from "@prisma/client";
 import { auth } from "@/lib/auth";
-;
+import {
+  CONDITION_GROUP_TRIGGER,
+  GROUPABLE_TRIGGER_TYPES,
+  LEAF_TRIGGER_TYPES,
+  validateTriggerExpression,
+} from "@/lib/automation/trigger-expression";
+import { isValidCronExpression, isValidTimezone } from "@/lib/automation/cron";
+import { flattenPipeline, validatePipeline } from "@/lib/automation/pipeline";
+import { connectorRegistry } from "@/lib/automation/connectors";
+import { isAllowedWebhookUrl } from "@/lib/automation/webhook";
 
 const prisma = new PrismaClient();
 
@@ -24,9 +33,21 @@ export async function GET(_request: NextRequest) {
     const routines = await prisma.automationRoutine.findMany({
       where: { userId: user.id },
       orderBy: { createdAt: "desc" },
+      include: {
+        triggers: true,
+        actions: { orderBy: { order: "asc" } },
+        logs: { orderBy: { createdAt: "desc" }, take: 10 },
+      },
     });
 
-    return NextResponse.json({ routines });
+    // The UI works with `params`; the database stores them as `config`
+    return NextResponse.json({
+      routines: routines.map((routine) => ({
+        ...routine,
+        triggers: routine.triggers.map((trigger) => ({ ...trigger, params: trigger.config })),
+        actions: routine.actions.map((action) => ({ ...action, params: action.config })),
+      })),
+    });
   } catch (error) {
     console.error("Error fetching automation routines:", error);
     return NextResponse.json(
@@ -77,14 +98,50 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create the routine with triggers and actions as JSON
+    const triggerErrors = validateTriggers(triggers);
+    if (triggerErrors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid triggers", details: triggerErrors },
+        { status: 400 }
+      );
+    }
+
+    const actionErrors = [...validatePipeline(actions), ...validateActionTargets(actions)];
+    if (actionErrors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid actions", details: actionErrors },
+        { status: 400 }
+      );
+    }
+
+    // Create the routine with its triggers and actions
     const routine = await prisma.automationRoutine.create({
       data: {
         userId: user.id,
         name,
         description: description || null,
-        trigger: triggers[0]?.type || "manual",
-        actions: actions,
+        triggers: {
+          create: triggers.map((trigger: any) => ({
+            type: trigger.type,
+            config: trigger.params || {},
+          })),
+        },
+        actions: {
+          create: actions.map((action: any, index: number) => ({
+            type: action.type,
+            config: action.params || {},
+            order: index,
+            stepId: action.stepId || null,
+            maxAttempts: action.maxAttempts ?? 1,
+            retryBackoffMs: action.retryBackoffMs ?? 1000,
+            timeoutMs: action.timeoutMs ?? null,
+            continueOnError: action.continueOnError ?? false,
+          })),
+        },
+      },
+      include: {
+        triggers: true,
+        actions: true,
       },
     });
 
@@ -97,3 +154,59 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+function validateTriggers(triggers: any[]): string[] {
+  const errors: string[] = [];
+
+  triggers.forEach((trigger, index) => {
+    const path = `triggers[${index}]`;
+
+    if (trigger?.type === CONDITION_GROUP_TRIGGER) {
+      errors.push(
+        ...validateTriggerExpression(trigger.params?.expression, `${path}.params.expression`, 1, GROUPABLE_TRIGGER_TYPES)
+      );
+    } else if (!LEAF_TRIGGER_TYPES.includes(trigger?.type)) {
+      errors.push(`${path}.type "${trigger?.type}" is not a supported trigger type`);
+    } else if (trigger.type === "SCHEDULED_TIME") {
+      const { cron, timezone, catchUp } = trigger.params || {};
+
+      if (!cron || !isValidCronExpression(cron)) {
+        errors.push(`${path}.params.cron "${cron}" is not a valid cron expression`);
+      }
+      if (timezone && !isValidTimezone(timezone)) {
+        errors.push(`${path}.params.timezone "${timezone}" is not a valid IANA timezone`);
+      }
+      if (catchUp && !["all", "latest", "skip"].includes(catchUp)) {
+        errors.push(`${path}.params.catchUp must be one of all, latest, skip`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+// Outbound actions must point at a valid URL or a connector operation its scope allows
+function validateActionTargets(actions: any[]): string[] {
+  const errors: string[] = [];
+
+  for (const action of flattenPipeline(actions)) {
+    const params = action?.params || {};
+
+    if (action?.type === "SEND_WEBHOOK" && !(params.url && isAllowedWebhookUrl(params.url))) {
+      errors.push(`SEND_WEBHOOK url "${params.url}" must be a public http(s) URL`);
+    }
+
+    if (action?.type === "CALL_CONNECTOR") {
+      const connector = connectorRegistry.listCallable().find((c) => c.name === params.connector);
+      const configured = connectorRegistry.getConnector(params.connector);
+
+      if (!configured) {
+        errors.push(`CALL_CONNECTOR connector "${params.connector}" is not configured`);
+      } else if (!connector?.operations.some((operation) => operation.name === params.operation)) {
+        errors.push(`CALL_CONNECTOR operation "${params.operation}" is not available on ${params.connector} (scope ${configured.scope})`);
+      }
+    }
+  }
+
+  return errors;
+}
@@ -49,8 +49,8 @@ Available trigger types:
 - TRANSACTION_CREATED: params: { "category": "string", "minAmount": number, "maxAmount": number }
 - BUDGET_EXCEEDED: params: { "budgetName": "string" }
 - GOAL_COMPLETED: params: { "category": "string" }
-- JOURNAL_CREATED: params: {}
-- ASSESSMENT_COMPLETED: params: { "assessmentType": "string" }
+- JOURNAL_CREATED: params: { "keywords": ["string"], "tags": ["string"], "emotion": "happy|excited|calm|neutral|anxious|sad|angry", "minSentiment": number, "maxSentiment": number } (sentiment from -1 to 1)
+- ASSESSMENT_COMPLETED: params: { "assessmentType": "string", "change": "any" | "reliable_worsening" | "clinically_significant" }
 - SCHEDULED_TIME: params: { "cron": "string" }
 
 Available action types:
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+// Loading the engine registers it as the outbox handler
+import "@/lib/automation/engine";
+import { automationEventQueue } from "@/lib/automation/event-queue";
+
+// Verify the request is from a legitimate cron service
+function verifyCronSecret(request: NextRequest): boolean {
+  const authHeader = request.headers.get("authorization");
+  const expectedSecret = process.env.CRON_SECRET;
+
+  if (!expectedSecret) {
+    console.error("CRON_SECRET environment variable not set");
+    return false;
+  }
+
+  return authHeader === `Bearer ${expectedSecret}`;
+}
+
+// POST /api/cron/automation-events - Deliver pending and retryable outbox events
+export async function POST(request: NextRequest) {
+  try {
+    if (!verifyCronSecret(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await automationEventQueue.processPending();
+
+    return NextResponse.json({
+      success: true,
+      delivered: result.delivered,
+      failed: result.failed,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Automation event delivery error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support GET for manual testing (with proper authentication)
+export async function GET(request: NextRequest) {
+  return POST(request);
+}
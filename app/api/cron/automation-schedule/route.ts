@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+// Loading the engine registers it as the outbox handler
+import "@/lib/automation/engine";
+import { automationScheduler } from "@/lib/automation/scheduler";
+
+// Verify the request is from a legitimate cron service
+function verifyCronSecret(request: NextRequest): boolean {
+  const authHeader = request.headers.get("authorization");
+  const expectedSecret = process.env.CRON_SECRET;
+
+  if (!expectedSecret) {
+    console.error("CRON_SECRET environment variable not set");
+    return false;
+  }
+
+  return authHeader === `Bearer ${expectedSecret}`;
+}
+
+// POST /api/cron/automation-schedule - Emit schedule.tick events for due SCHEDULED_TIME triggers
+// Run every minute; missed runs are caught up according to each trigger's catchUp policy
+export async function POST(request: NextRequest) {
+  try {
+    if (!verifyCronSecret(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await automationScheduler.tick();
+
+    return NextResponse.json({
+      success: true,
+      checked: result.checked,
+      emitted: result.emitted,
+      skipped: result.skipped,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Automation scheduler error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support GET for manual testing (with proper authentication)
+export async function GET(request: NextRequest) {
+  return POST(request);
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/database";
+import { materializeDueRecurring } from "@/lib/finance/recurring";
+import { refreshDetectedSubscriptions } from "@/lib/finance/subscriptions";
+import { syncBudgetEnvelopes } from "@/lib/finance/budget-envelopes";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Verify the request is from a legitimate cron service
+function verifyCronSecret(request: NextRequest): boolean {
+  const authHeader = request.headers.get("authorization");
+  const expectedSecret = process.env.CRON_SECRET;
+
+  if (!expectedSecret) {
+    console.error("CRON_SECRET environment variable not set");
+    return false;
+  }
+
+  return authHeader === `Bearer ${expectedSecret}`;
+}
+
+// POST /api/cron/finance-recurring - Materialize due recurring transactions, then
+// re-scan for subscriptions for every user with new transactions since the last day and
+// roll every budget envelope into its current period
+// Run daily
+export async function POST(request: NextRequest) {
+  try {
+    if (!verifyCronSecret(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const recurring = await materializeDueRecurring();
+
+    const activeUsers = await prisma.transaction.findMany({
+      where: { createdAt: { gte: new Date(Date.now() - DAY_MS) } },
+      distinct: ["userId"],
+      select: { userId: true },
+    });
+
+    let priceChanges = 0;
+    for (const { userId } of activeUsers) {
+      try {
+        priceChanges += (await refreshDetectedSubscriptions(userId)).priceChanges;
+      } catch (error) {
+        console.error(`Subscription detection failed for user ${userId}:`, error);
+      }
+    }
+
+    const budgetUsers = await prisma.budget.findMany({
+      distinct: ["userId"],
+      select: { userId: true },
+    });
+
+    for (const { userId } of budgetUsers) {
+      try {
+        await syncBudgetEnvelopes(userId);
+      } catch (error) {
+        console.error(`Budget period sync failed for user ${userId}:`, error);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      recurring,
+      subscriptionScans: activeUsers.length,
+      priceChanges,
+      budgetSyncs: budgetUsers.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Finance recurring cron error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support GET for manual testing (with proper authentication)
+export async function GET(request: NextRequest) {
+  return POST(request);
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/database";
+import { detectMissedHabits } from "@/lib/growth/habits";
+
+// Verify the request is from a legitimate cron service
+function verifyCronSecret(request: NextRequest): boolean {
+  const authHeader = request.headers.get("authorization");
+  const expectedSecret = process.env.CRON_SECRET;
+
+  if (!expectedSecret) {
+    console.error("CRON_SECRET environment variable not set");
+    return false;
+  }
+
+  return authHeader === `Bearer ${expectedSecret}`;
+}
+
+// POST /api/cron/habit-missed - Emit habit.missed for scheduled days and periods that
+// ended without a log, once their grace period has passed in the user's timezone
+// Run hourly
+export async function POST(request: NextRequest) {
+  try {
+    if (!verifyCronSecret(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const habitUsers = await prisma.habit.findMany({
+      distinct: ["userId"],
+      select: { userId: true },
+    });
+
+    let missed = 0;
+    for (const { userId } of habitUsers) {
+      try {
+        missed += await detectMissedHabits(userId);
+      } catch (error) {
+        console.error(`Missed habit check failed for user ${userId}:`, error);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      processed: habitUsers.length,
+      missed,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Missed habit cron error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support GET for manual testing (with proper authentication)
+export async function GET(request: NextRequest) {
+  return POST(request);
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { PrismaClient } from "@prisma/client";
 // import { ollamaClient } from "@/lib/ai/ollama-client";
 import { automationEngine } from "@/lib/automation/engine";
+import { publishMoodInsights } from "@/lib/mental-health/mood-insights";
 
 const prisma = new PrismaClient();
 
@@ -201,10 +202,8 @@ async function performWellnessCheck(): Promise<{ processed: number; insights: nu
       // Generate AI insight (commented out since proactiveInsight model not available)
       // const insight = await generateInsight(snapshot);
 
-      // Check if we should generate an insight (avoid spam)
-      // Note: proactiveInsight model not available in current schema
-      // For now, always generate insights
-      insightsGenerated++;
+      // Mood/activity correlations; repeats are suppressed inside
+      insightsGenerated += await publishMoodInsights(user.id);
     } catch (error) {
       console.error(`Error processing wellness check for user ${user.id}:`, error);
     }
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/database";
+import { getCurrentUser } from "@/lib/auth";
+import { FinancialAccountUpdateSchema } from "@/lib/finance/currency-schemas";
+
+// PUT /api/finance/accounts/[id] - Rename, retype, archive or change the opening balance
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const data = FinancialAccountUpdateSchema.parse(await request.json());
+
+    const result = await prisma.financialAccount.updateMany({
+      where: { id: params.id, userId: user.id },
+      data,
+    });
+    if (result.count === 0) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    const account = await prisma.financialAccount.findUnique({ where: { id: params.id } });
+    return NextResponse.json({ account });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid input", details: error.errors }, { status: 400 });
+    }
+    console.error("Error updating account:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/finance/accounts/[id] - Delete an account; its transactions are kept unassigned
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await prisma.financialAccount.deleteMany({
+      where: { id: params.id, userId: user.id },
+    });
+    if (result.count === 0) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting account:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
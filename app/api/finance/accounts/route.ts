@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/database";
+import { getCurrentUser } from "@/lib/auth";
+import { FinancialAccountSchema } from "@/lib/finance/currency-schemas";
+import { getAccountBalances } from "@/lib/finance/accounts";
+import { getBaseCurrency } from "@/lib/finance/exchange-rates";
+
+// GET /api/finance/accounts - Accounts with balances in their own and the base currency
+export async function GET(_request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const baseCurrency = await getBaseCurrency(user.id);
+    const accounts = await getAccountBalances(user.id, baseCurrency);
+
+    return NextResponse.json({ baseCurrency, accounts });
+  } catch (error) {
+    console.error("Error fetching accounts:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/finance/accounts - Create an account; its currency can't change later
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const data = FinancialAccountSchema.parse(await request.json());
+
+    const existing = await prisma.financialAccount.findFirst({
+      where: { userId: user.id, name: data.name },
+    });
+    if (existing) {
+      return NextResponse.json({ error: "An account with this name already exists" }, { status: 409 });
+    }
+
+    const account = await prisma.financialAccount.create({
+      data: { ...data, userId: user.id },
+    });
+
+    return NextResponse.json({ account }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid input", details: error.errors }, { status: 400 });
+    }
+    console.error("Error creating account:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/database";
+import { getCurrentUser } from "@/lib/auth";
+import { syncBudgetEnvelopes } from "@/lib/finance/budget-envelopes";
+
+// GET /api/finance/budgets/[id]/history - Per-period performance, newest first
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const budget = await prisma.budget.findFirst({
+      where: { id: params.id, userId: user.id },
+    });
+    if (!budget) {
+      return NextResponse.json({ error: "Budget not found" }, { status: 404 });
+    }
+
+    await syncBudgetEnvelopes(user.id);
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "12") || 12, 1), 120);
+
+    const periods = await prisma.budgetPeriod.findMany({
+      where: { budgetId: budget.id },
+      orderBy: { periodStart: "desc" },
+      take: limit,
+    });
+
+    return NextResponse.json({ budget, periods });
+  } catch (error) {
+    console.error("Error fetching budget history:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
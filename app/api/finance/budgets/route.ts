@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/database";
 import { getCurrentUser } from "@/lib/auth";
+import { isRolloverMode, normalizeBudgetPeriod } from "@/lib/finance/budget-periods";
+import { syncBudgetEnvelopes } from "@/lib/finance/budget-envelopes";
 
 export async function POST(request: NextRequest) {
   try {
@@ -10,7 +12,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { name, category, amount, period } = body;
+    const { name, category, amount, period, rollover, periodAnchor } = body;
 
     if (!name || !category || !amount || !period) {
       return NextResponse.json(
@@ -19,6 +21,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (rollover !== undefined && !isRolloverMode(rollover)) {
+      return NextResponse.json({ error: "Invalid rollover mode" }, { status: 400 });
+    }
+
     if (!user.id) {
       return NextResponse.json({ error: "User ID not found" }, { status: 400 });
     }
@@ -29,7 +35,9 @@ export async function POST(request: NextRequest) {
         name,
         category,
         amount: parseFloat(amount),
-        period,
+        period: normalizeBudgetPeriod(period),
+        rollover,
+        periodAnchor: periodAnchor ? new Date(periodAnchor) : undefined,
       },
     });
 
@@ -54,12 +62,9 @@ export async function GET(_request: NextRequest) {
       return NextResponse.json({ error: "User ID not found" }, { status: 400 });
     }
 
-    const budgets = await prisma.budget.findMany({
-      where: { userId: user.id },
-      orderBy: { createdAt: "desc" },
-    });
+    const envelopes = await syncBudgetEnvelopes(user.id);
 
-    return NextResponse.json(budgets);
+    return NextResponse.json(envelopes.map(({ budget, current }) => ({ ...budget, currentPeriod: current })));
   } catch (error) {
     console.error("Error fetching budgets:", error);
     return NextResponse.json(
@@ -77,7 +82,7 @@ export async function PUT(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { id, name, category, amount, period } = body;
+    const { id, name, category, amount, period, rollover } = body;
 
     if (!id) {
       return NextResponse.json(
@@ -100,8 +105,23 @@ export async function PUT(request: NextRequest) {
     if (amount !== undefined) {
       updateData.amount = parseFloat(amount);
     }
-    if (period !== undefined) {
-      updateData.period = period;
+    if (rollover !== undefined) {
+      if (!isRolloverMode(rollover)) {
+        return NextResponse.json({ error: "Invalid rollover mode" }, { status: 400 });
+      }
+      updateData.rollover = rollover;
+    }
+
+    const existing = await prisma.budget.findFirst({ where: { id, userId: user.id } });
+    if (!existing) {
+      return NextResponse.json({ error: "Budget not found" }, { status: 404 });
+    }
+
+    if (period !== undefined && normalizeBudgetPeriod(period) !== existing.period) {
+      // New period boundaries start a fresh envelope; closed periods stay as history
+      updateData.period = normalizeBudgetPeriod(period);
+      updateData.periodAnchor = new Date();
+      await prisma.budgetPeriod.deleteMany({ where: { budgetId: id, closed: false } });
     }
 
     const budget = await prisma.budget.update({
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/database";
+import { getCurrentUser } from "@/lib/auth";
+import { BudgetTransferSchema } from "@/lib/finance/budget-schemas";
+import { syncBudgetEnvelopes } from "@/lib/finance/budget-envelopes";
+
+// GET /api/finance/budgets/transfers - Recent transfers between envelopes, newest first
+export async function GET(_request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const transfers = await prisma.budgetTransfer.findMany({
+      where: { userId: user.id },
+      include: {
+        fromBudget: { select: { id: true, name: true } },
+        toBudget: { select: { id: true, name: true } },
+      },
+      orderBy: { date: "desc" },
+      take: 50,
+    });
+
+    return NextResponse.json({ transfers });
+  } catch (error) {
+    console.error("Error fetching budget transfers:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/finance/budgets/transfers - Move money from one envelope to another in the
+// current period; the source can't go below zero
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const data = BudgetTransferSchema.parse(await request.json());
+    const envelopes = await syncBudgetEnvelopes(user.id);
+    const source = envelopes.find((envelope) => envelope.budget.id === data.fromBudgetId);
+    const target = envelopes.find((envelope) => envelope.budget.id === data.toBudgetId);
+
+    if (!source || !target) {
+      return NextResponse.json({ error: "Budget not found" }, { status: 404 });
+    }
+
+    if (data.amount > source.current.closingBalance) {
+      return NextResponse.json(
+        { error: "Insufficient funds in envelope", available: Math.max(0, source.current.closingBalance) },
+        { status: 400 }
+      );
+    }
+
+    const transfer = await prisma.budgetTransfer.create({
+      data: {
+        userId: user.id,
+        fromBudgetId: data.fromBudgetId,
+        toBudgetId: data.toBudgetId,
+        amount: data.amount,
+        note: data.note,
+      },
+    });
+
+    await syncBudgetEnvelopes(user.id);
+
+    return NextResponse.json({ transfer }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid input", details: error.errors }, { status: 400 });
+    }
+    console.error("Error creating budget transfer:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getCurrentUser } from "@/lib/auth";
+import { RecategorizeSchema } from "@/lib/finance/category-schemas";
+import { recategorizeTransactions } from "@/lib/finance/auto-categorize";
+
+// POST /api/finance/categories/recategorize - Re-run rules and the classifier over
+// all auto-categorized and uncategorized transactions (or every row with includeManual)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const options = RecategorizeSchema.parse(await request.json().catch(() => ({})));
+    const result = await recategorizeTransactions(user.id, options);
+
+    return NextResponse.json({ ...result, dryRun: options.dryRun });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid input", details: error.errors }, { status: 400 });
+    }
+    console.error("Error recategorizing transactions:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
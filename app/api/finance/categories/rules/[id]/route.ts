@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/database";
+import { getCurrentUser } from "@/lib/auth";
+import { CategoryRuleSchema } from "@/lib/finance/category-schemas";
+
+// PUT /api/finance/categories/rules/[id] - Replace a rule
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const data = CategoryRuleSchema.parse(await request.json());
+
+    const existing = await prisma.categoryRule.findFirst({
+      where: { id: params.id, userId: user.id },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+    }
+
+    const rule = await prisma.categoryRule.update({
+      where: { id: params.id },
+      data,
+    });
+
+    return NextResponse.json({ rule });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid input", details: error.errors }, { status: 400 });
+    }
+    console.error("Error updating category rule:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/finance/categories/rules/[id] - Delete a rule (categorized rows keep their category)
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { count } = await prisma.categoryRule.deleteMany({
+      where: { id: params.id, userId: user.id },
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting category rule:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
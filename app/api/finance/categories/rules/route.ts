@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/database";
+import { getCurrentUser } from "@/lib/auth";
+import { CategoryRuleSchema } from "@/lib/finance/category-schemas";
+
+// GET /api/finance/categories/rules - Auto-categorization rules, highest priority first
+export async function GET(_request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const rules = await prisma.categoryRule.findMany({
+      where: { userId: user.id },
+      orderBy: [{ priority: "desc" }, { createdAt: "asc" }],
+    });
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error("Error fetching category rules:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/finance/categories/rules - Create a rule
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const data = CategoryRuleSchema.parse(await request.json());
+
+    const rule = await prisma.categoryRule.create({
+      data: { ...data, userId: user.id },
+    });
+
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid input", details: error.errors }, { status: 400 });
+    }
+    console.error("Error creating category rule:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getCurrentUser } from "@/lib/auth";
+import { CategorySuggestionSchema } from "@/lib/finance/category-schemas";
+import { loadCategorizer } from "@/lib/finance/auto-categorize";
+
+// POST /api/finance/categories/suggest - Category the engine would pick for a draft transaction
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const input = CategorySuggestionSchema.parse(await request.json());
+    const categorize = await loadCategorizer(user.id);
+
+    return NextResponse.json({ suggestion: categorize(input) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid input", details: error.errors }, { status: 400 });
+    }
+    console.error("Error suggesting category:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
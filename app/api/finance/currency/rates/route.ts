@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { parseExchangeRates } from "@/lib/finance/currency";
+import { importExchangeRates } from "@/lib/finance/exchange-rates";
+
+// The ECB's full history XML is around 6 MB
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+// POST /api/finance/currency/rates - Import exchange rates (multipart: file). Accepts
+// ECB eurofxref XML/CSV files or a CSV with date, base, quote and rate columns.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const form = await request.formData();
+    const file = form.get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "A rate file is required" }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json({ error: "Rate files are limited to 10 MB" }, { status: 413 });
+    }
+
+    let rows;
+    try {
+      rows = parseExchangeRates(file.name, await file.text());
+    } catch (parseError) {
+      // Format problems are the caller's to fix
+      return NextResponse.json({ error: (parseError as Error).message }, { status: 400 });
+    }
+
+    const result = await importExchangeRates(user.id, rows, /\.xml$/i.test(file.name) ? "ecb" : "csv");
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error("Error importing exchange rates:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
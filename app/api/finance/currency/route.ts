@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/database";
+import { getCurrentUser } from "@/lib/auth";
+import { BaseCurrencySchema } from "@/lib/finance/currency-schemas";
+import { BaseCurrencyChangedError, MissingExchangeRateError } from "@/lib/finance/currency";
+import { changeBaseCurrency, getBaseCurrency } from "@/lib/finance/exchange-rates";
+
+// GET /api/finance/currency - Base currency and the stored rate coverage per currency pair
+export async function GET(_request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [baseCurrency, pairs] = await Promise.all([
+      getBaseCurrency(user.id),
+      prisma.exchangeRate.groupBy({
+        by: ["base", "quote"],
+        where: { userId: user.id },
+        _count: { _all: true },
+        _min: { date: true },
+        _max: { date: true },
+      }),
+    ]);
+
+    return NextResponse.json({
+      baseCurrency,
+      rates: pairs.map((pair) => ({
+        base: pair.base,
+        quote: pair.quote,
+        count: pair._count._all,
+        from: pair._min.date,
+        to: pair._max.date,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching currency settings:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// PUT /api/finance/currency - Change the base currency and reconvert stored amounts
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { baseCurrency } = BaseCurrencySchema.parse(await request.json());
+    const result = await changeBaseCurrency(user.id, baseCurrency);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid input", details: error.errors }, { status: 400 });
+    }
+    if (error instanceof MissingExchangeRateError) {
+      return NextResponse.json({ error: error.message, missingCurrencies: error.currencies }, { status: 400 });
+    }
+    if (error instanceof BaseCurrencyChangedError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error changing base currency:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/database";
+import { getCurrentUser } from "@/lib/auth";
+import { CsvColumnMappingSchema } from "@/lib/finance/import-schemas";
+
+const SaveMappingSchema = z.object({
+  bankName: z.string().min(1).max(100),
+  mapping: CsvColumnMappingSchema,
+});
+
+// GET /api/finance/import/mappings - Saved CSV column mappings, one per bank
+export async function GET(_request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const mappings = await prisma.bankImportMapping.findMany({
+      where: { userId: user.id },
+      orderBy: { bankName: "asc" },
+    });
+
+    return NextResponse.json({ mappings });
+  } catch (error) {
+    console.error("Error fetching import mappings:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/finance/import/mappings - Save (or replace) the mapping for a bank
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { bankName, mapping } = SaveMappingSchema.parse(await request.json());
+
+    const saved = await prisma.bankImportMapping.upsert({
+      where: { userId_bankName: { userId: user.id, bankName } },
+      create: { userId: user.id, bankName, mapping },
+      update: { mapping },
+    });
+
+    return NextResponse.json({ mapping: saved });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid input", details: error.errors }, { status: 400 });
+    }
+    console.error("Error saving import mapping:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
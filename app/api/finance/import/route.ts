@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/database";
+import { getCurrentUser } from "@/lib/auth";
+import { CsvColumnMappingSchema } from "@/lib/finance/import-schemas";
+import { DATE_FORMATS, CsvColumnMapping, DateFormat, StatementParseError } from "@/lib/finance/statement-parsers";
+import { importStatement, previewStatementImport } from "@/lib/finance/statement-import";
+import { BaseCurrencyChangedError, MissingExchangeRateError } from "@/lib/finance/currency";
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+const ImportFieldsSchema = z.object({
+  format: z.enum(["csv", "ofx", "qif"]).optional(),
+  bankName: z.string().max(100).optional(),
+  accountId: z.string().optional(),
+  mappingId: z.string().optional(),
+  mapping: z.string().optional(), // JSON-encoded CsvColumnMapping
+  dateFormat: z.enum(DATE_FORMATS as [string, ...string[]]).optional(),
+  preview: z.enum(["true", "false"]).optional(),
+  saveMapping: z.enum(["true", "false"]).optional(),
+});
+
+// POST /api/finance/import - Import a bank statement (multipart: file + options).
+// With preview=true, returns parsed rows flagged as duplicates without saving.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const form = await request.formData();
+    const file = form.get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "A statement file is required" }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json({ error: "Statement files are limited to 5 MB" }, { status: 413 });
+    }
+
+    const fields = ImportFieldsSchema.parse(
+      Object.fromEntries(Array.from(form.entries()).filter(([, value]) => typeof value === "string"))
+    );
+
+    let mapping: CsvColumnMapping | undefined;
+    if (fields.mapping) {
+      mapping = CsvColumnMappingSchema.parse(JSON.parse(fields.mapping)) as CsvColumnMapping;
+    } else if (fields.mappingId) {
+      const saved = await prisma.bankImportMapping.findFirst({
+        where: { id: fields.mappingId, userId: user.id },
+      });
+      if (!saved) {
+        return NextResponse.json({ error: "Import mapping not found" }, { status: 404 });
+      }
+      mapping = saved.mapping as unknown as CsvColumnMapping;
+    }
+
+    let account: { id: string; currency: string } | undefined;
+    if (fields.accountId) {
+      const found = await prisma.financialAccount.findFirst({
+        where: { id: fields.accountId, userId: user.id },
+        select: { id: true, currency: true },
+      });
+      if (!found) {
+        return NextResponse.json({ error: "Account not found" }, { status: 404 });
+      }
+      account = found;
+    }
+
+    const options = {
+      fileName: file.name,
+      content: await file.text(),
+      format: fields.format,
+      mapping,
+      dateFormat: fields.dateFormat as DateFormat | undefined,
+      bankName: fields.bankName,
+      account,
+    };
+
+    if (fields.preview === "true") {
+      return NextResponse.json(await previewStatementImport(user.id, options));
+    }
+
+    const result = await importStatement(user.id, options);
+
+    if (fields.saveMapping === "true" && mapping && fields.bankName) {
+      await prisma.bankImportMapping.upsert({
+        where: { userId_bankName: { userId: user.id, bankName: fields.bankName } },
+        create: { userId: user.id, bankName: fields.bankName, mapping: mapping as any },
+        update: { mapping: mapping as any },
+      });
+    }
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid input", details: error.errors }, { status: 400 });
+    }
+    if (error instanceof MissingExchangeRateError) {
+      return NextResponse.json({ error: error.message, missingCurrencies: error.currencies }, { status: 400 });
+    }
+    if (error instanceof BaseCurrencyChangedError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Mapping must be valid JSON" }, { status: 400 });
+    }
+    if (error instanceof StatementParseError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error importing statement:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/database";
+import { getCurrentUser } from "@/lib/auth";
+import { RecurringTransactionSchema } from "@/lib/finance/recurring-schemas";
+import { computeNextOccurrence, resolveRRule } from "@/lib/finance/recurring";
+import { RecurrenceFrequency } from "@/lib/finance/recurrence";
+
+// PUT /api/finance/recurring/[id] - Replace a template. Occurrences already
+// materialized stay; the schedule continues after the latest one.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { rrule, frequency, ...data } = RecurringTransactionSchema.parse(await request.json());
+
+    const existing = await prisma.recurringTransaction.findFirst({
+      where: { id: params.id, userId: user.id },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Recurring transaction not found" }, { status: 404 });
+    }
+
+    const latest = await prisma.transaction.findFirst({
+      where: { recurringId: existing.id },
+      orderBy: { date: "desc" },
+      select: { date: true },
+    });
+
+    const resolved = resolveRRule(frequency as RecurrenceFrequency, rrule);
+    const recurring = await prisma.recurringTransaction.update({
+      where: { id: existing.id },
+      data: {
+        ...data,
+        frequency,
+        rrule: resolved,
+        nextOccurrence: computeNextOccurrence(
+          { rrule: resolved, startDate: data.startDate, endDate: data.endDate },
+          latest?.date || null
+        ),
+      },
+    });
+
+    return NextResponse.json({ recurring });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid input", details: error.errors }, { status: 400 });
+    }
+    console.error("Error updating recurring transaction:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/finance/recurring/[id] - Stop and remove a template (its transactions are kept)
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { count } = await prisma.recurringTransaction.deleteMany({
+      where: { id: params.id, userId: user.id },
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: "Recurring transaction not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting recurring transaction:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
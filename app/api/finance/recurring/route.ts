@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/database";
+import { getCurrentUser } from "@/lib/auth";
+import { RecurringTransactionSchema } from "@/lib/finance/recurring-schemas";
+import { computeNextOccurrence, resolveRRule } from "@/lib/finance/recurring";
+import { RecurrenceFrequency } from "@/lib/finance/recurrence";
+
+// GET /api/finance/recurring - Recurring transaction templates, soonest first
+export async function GET(_request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const recurring = await prisma.recurringTransaction.findMany({
+      where: { userId: user.id },
+      orderBy: [{ active: "desc" }, { nextOccurrence: "asc" }],
+    });
+
+    return NextResponse.json({ recurring });
+  } catch (error) {
+    console.error("Error fetching recurring transactions:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/finance/recurring - Create a template; occurrences from startDate on are
+// materialized by /api/cron/finance-recurring (including past ones, up to a limit)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { rrule, frequency, ...data } = RecurringTransactionSchema.parse(await request.json());
+    const resolved = resolveRRule(frequency as RecurrenceFrequency, rrule);
+
+    const recurring = await prisma.recurringTransaction.create({
+      data: {
+        ...data,
+        userId: user.id,
+        frequency,
+        rrule: resolved,
+        nextOccurrence: computeNextOccurrence({ rrule: resolved, startDate: data.startDate, endDate: data.endDate }, null),
+      },
+    });
+
+    return NextResponse.json({ recurring }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid input", details: error.errors }, { status: 400 });
+    }
+    console.error("Error creating recurring transaction:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
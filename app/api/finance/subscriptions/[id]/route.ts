@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/database";
+import { getCurrentUser } from "@/lib/auth";
+import { SubscriptionStatusSchema } from "@/lib/finance/recurring-schemas";
+
+// PUT /api/finance/subscriptions/[id] - Dismiss a false positive (or restore it).
+// Dismissed subscriptions stay dismissed across scans and raise no price alerts.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { status } = SubscriptionStatusSchema.parse(await request.json());
+
+    const { count } = await prisma.detectedSubscription.updateMany({
+      where: { id: params.id, userId: user.id },
+      data: { status },
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid input", details: error.errors }, { status: 400 });
+    }
+    console.error("Error updating subscription:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/database";
+import { getCurrentUser } from "@/lib/auth";
+import { refreshDetectedSubscriptions } from "@/lib/finance/subscriptions";
+
+// GET /api/finance/subscriptions - Likely subscriptions (?includeDismissed=true for all)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const includeDismissed = searchParams.get("includeDismissed") === "true";
+
+    const subscriptions = await prisma.detectedSubscription.findMany({
+      where: {
+        userId: user.id,
+        ...(includeDismissed ? {} : { status: { not: "dismissed" } }),
+      },
+      orderBy: [{ status: "asc" }, { amount: "desc" }],
+    });
+
+    return NextResponse.json({ subscriptions });
+  } catch (error) {
+    console.error("Error fetching subscriptions:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/finance/subscriptions - Scan transaction history now instead of waiting for the cron
+export async function POST(_request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await refreshDetectedSubscriptions(user.id);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error detecting subscriptions:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/database";
 import { getCurrentUser } from "@/lib/auth";
+import { syncBudgetEnvelopes } from "@/lib/finance/budget-envelopes";
+import { getAccountBalances } from "@/lib/finance/accounts";
+import { getBaseCurrency } from "@/lib/finance/exchange-rates";
+import { FORECAST_HORIZONS, LOOKBACK_DAYS, forecastCashFlow } from "@/lib/finance/cash-flow-forecast";
 
 export async function GET(request: NextRequest) {
   try {
@@ -15,6 +19,10 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
     const period = searchParams.get("period") || "month"; // month, week, year
+    const requestedHorizon = parseInt(searchParams.get("forecast") || "90");
+    const forecastDays = FORECAST_HORIZONS.find((days) => days === requestedHorizon) || 90;
+    // Forecast starts from the client's balance, else the accounts' total, else all-time tracked net
+    const balanceParam = searchParams.get("balance");
 
     // Calculate date range based on period
     const now = new Date();
@@ -33,7 +41,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Fetch all financial data for the user
-    const [transactions, budgets, financialGoals] = await Promise.all([
+    const [transactions, envelopes, financialGoals] = await Promise.all([
       prisma.transaction.findMany({
         where: {
           userId: user.id,
@@ -44,13 +52,54 @@ export async function GET(request: NextRequest) {
         },
         orderBy: { date: "desc" },
       }),
-      prisma.budget.findMany({
-        where: { userId: user.id },
-      }),
+      syncBudgetEnvelopes(user.id, now),
       prisma.financialGoal.findMany({
         where: { userId: user.id },
       }),
     ]);
+    const budgets = envelopes.map((envelope) => envelope.budget);
+    const baseCurrency = await getBaseCurrency(user.id);
+    const accounts = await getAccountBalances(user.id, baseCurrency, now);
+
+    const [recurring, history] = await Promise.all([
+      prisma.recurringTransaction.findMany({
+        where: { userId: user.id, active: true, nextOccurrence: { not: null } },
+      }),
+      prisma.transaction.findMany({
+        where: {
+          userId: user.id,
+          date: { gte: new Date(now.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000), lte: now },
+        },
+        select: { date: true, amount: true, type: true, category: true, recurringId: true },
+      }),
+    ]);
+
+    let startingBalance = parseFloat(balanceParam || "");
+    if (!Number.isFinite(startingBalance) && accounts.length > 0 && accounts.every((account) => account.balanceInBase !== null)) {
+      startingBalance = accounts.reduce((sum, account) => sum + account.balanceInBase!, 0);
+    }
+    if (!Number.isFinite(startingBalance)) {
+      const totalsByType = await prisma.transaction.groupBy({
+        by: ["type"],
+        where: { userId: user.id, date: { lte: now } },
+        _sum: { amount: true },
+      });
+      startingBalance = totalsByType.reduce(
+        (sum, row) => sum + (row.type === "Income" ? 1 : -1) * (row._sum.amount || 0),
+        0
+      );
+    }
+
+    const forecast = forecastCashFlow({
+      startingBalance,
+      horizonDays: forecastDays,
+      today: now,
+      recurring,
+      budgets,
+      goals: financialGoals,
+      history,
+    });
+    const goalForecasts = new Map(forecast.goals.map((goal) => [goal.id, goal]));
 
     // Calculate financial summary
     const totalIncome = transactions
@@ -63,6 +112,36 @@ export async function GET(request: NextRequest) {
 
     const netIncome = totalIncome - totalExpenses;
 
+    // Amounts are stored in the base currency; report which rates the foreign ones used
+    const conversions = Object.values(
+      transactions
+        .filter((t) => t.originalCurrency && t.rateDate)
+        .reduce((acc, t) => {
+          const entry = acc[t.originalCurrency!] || {
+            currency: t.originalCurrency!,
+            transactions: 0,
+            originalTotal: 0,
+            convertedTotal: 0,
+            oldestRateDate: t.rateDate!,
+            newestRateDate: t.rateDate!,
+          };
+          entry.transactions++;
+          entry.originalTotal += (t.type === "Income" ? 1 : -1) * (t.originalAmount || 0);
+          entry.convertedTotal += (t.type === "Income" ? 1 : -1) * t.amount;
+          entry.oldestRateDate = t.rateDate! < entry.oldestRateDate ? t.rateDate! : entry.oldestRateDate;
+          entry.newestRateDate = t.rateDate! > entry.newestRateDate ? t.rateDate! : entry.newestRateDate;
+          acc[t.originalCurrency!] = entry;
+          return acc;
+        }, {} as Record<string, {
+          currency: string;
+          transactions: number;
+          originalTotal: number;
+          convertedTotal: number;
+          oldestRateDate: Date;
+          newestRateDate: Date;
+        }>)
+    );
+
     // Calculate expenses by category
     const expensesByCategory = transactions
       .filter(t => t.type === "Expense")
@@ -71,16 +150,22 @@ export async function GET(request: NextRequest) {
         return acc;
       }, {} as Record<string, number>);
 
-    // Calculate budget progress
-    const budgetProgress = budgets.map(budget => {
-      const spent = expensesByCategory[budget.category] || 0;
-      const progress = (spent / budget.amount) * 100;
+    // Budget progress covers each envelope's own current period, not the summary window
+    const budgetProgress = envelopes.map(({ budget, current }) => {
+      const progress = current.available > 0
+        ? (current.spent / current.available) * 100
+        : current.spent > 0 ? 100 : 0;
       return {
         ...budget,
-        spent,
-        remaining: budget.amount - spent,
+        spent: current.spent,
+        available: current.available,
+        carriedIn: current.carriedIn,
+        transferred: current.transfersIn - current.transfersOut,
+        periodStart: current.periodStart,
+        periodEnd: current.periodEnd,
+        remaining: current.closingBalance,
         progress,
-        isOverBudget: spent > budget.amount,
+        isOverBudget: current.closingBalance < 0,
       };
     });
 
@@ -92,12 +177,16 @@ export async function GET(request: NextRequest) {
         ? Math.ceil((goal.deadline.getTime() - now.getTime()) / (1000 * 60 * 60 * 24))
         : null;
 
+      const projection = goalForecasts.get(goal.id);
+
       return {
         ...goal,
         progress,
         remaining,
         daysRemaining,
-        isOnTrack: daysRemaining !== null && daysRemaining > 0 && progress >= (daysRemaining / 365) * 100,
+        isOnTrack: projection?.onTrack ?? false,
+        forecastStatus: projection?.status,
+        requiredPerMonth: projection?.requiredPerMonth ?? null,
       };
     });
 
@@ -112,7 +201,7 @@ export async function GET(request: NextRequest) {
         body: JSON.stringify({
           prompt: `Analyze this financial data and provide personalized insights and actionable advice:
 
-Financial Summary for ${period}:
+Financial Summary for ${period} (amounts in ${baseCurrency}):
 - Total Income: $${totalIncome.toFixed(2)}
 - Total Expenses: $${totalExpenses.toFixed(2)}
 - Net Income: $${netIncome.toFixed(2)}
@@ -131,9 +220,14 @@ ${budgetProgress
 
 Financial Goals:
 ${goalProgress
-  .map(g => `- ${g.name}: ${g.progress.toFixed(1)}% complete, ${g.daysRemaining} days remaining`)
+  .map(g => `- ${g.name}: ${g.progress.toFixed(1)}% complete, ${g.daysRemaining} days remaining, ${g.isOnTrack ? "on track" : "at risk"}`)
   .join("\n")}
 
+${forecastDays}-Day Cash-Flow Forecast:
+- Projected balance: $${forecast.startingBalance.toFixed(2)} now, $${forecast.endingBalance.toFixed(2)} in ${forecastDays} days
+- Lowest point: $${forecast.lowestBalance.balance.toFixed(2)} on ${forecast.lowestBalance.date}
+- ${forecast.firstOverdraftDate ? `Projected overdraft on ${forecast.firstOverdraftDate}` : "No overdraft projected"}
+
 Please provide:
 1. 2-3 key insights about spending patterns
 2. 2-3 actionable recommendations for improvement
@@ -159,6 +253,7 @@ Keep the response concise and practical.`,
         start: startDate,
         end: now,
       },
+      baseCurrency,
       overview: {
         totalIncome,
         totalExpenses,
@@ -169,6 +264,12 @@ Keep the response concise and practical.`,
       budgetProgress,
       goalProgress,
       recentTransactions: transactions.slice(0, 10),
+      accounts,
+      currency: {
+        base: baseCurrency,
+        conversions,
+      },
+      forecast,
       aiInsights,
     };
 
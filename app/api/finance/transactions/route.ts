@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/database";
 import { getCurrentUser } from "@/lib/auth";
 import { emitAutomationEvent } from "@/lib/automation/event-bus";
+import { UNCATEGORIZED, loadCategorizer } from "@/lib/finance/auto-categorize";
+import { BaseCurrencyChangedError, MissingExchangeRateError, isCurrencyCode } from "@/lib/finance/currency";
+import { convertToBaseCurrency, getBaseCurrency, lockBaseCurrency } from "@/lib/finance/exchange-rates";
 
 export async function POST(request: NextRequest) {
   try {
@@ -11,9 +14,9 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { description, amount, type, category, date, notes } = body;
+    const { description, amount, type, category, date, notes, accountId, currency } = body;
 
-    if (!description || !amount || !type || !category || !date) {
+    if (!description || !amount || !type || !date) {
       return NextResponse.json(
         { error: "Missing required fields" },
         { status: 400 }
@@ -24,31 +27,75 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "User ID not found" }, { status: 400 });
     }
 
-    const transaction = await prisma.transaction.create({
-      data: {
-        userId: user.id,
-        description,
-        amount: parseFloat(amount),
-        type,
-        category,
-        date: new Date(date),
-        notes,
-      },
+    // Amounts on an account are in the account's currency; otherwise in `currency`
+    // (default: the base currency). Either way `amount` is stored in the base currency.
+    let account = null;
+    if (accountId) {
+      account = await prisma.financialAccount.findFirst({ where: { id: accountId, userId: user.id } });
+      if (!account) {
+        return NextResponse.json({ error: "Account not found" }, { status: 404 });
+      }
+    }
+
+    const entryCurrency = account?.currency || (currency ? String(currency).toUpperCase() : null);
+    if (entryCurrency && !isCurrencyCode(entryCurrency)) {
+      return NextResponse.json({ error: "Invalid currency code" }, { status: 400 });
+    }
+
+    const userId = user.id;
+    const baseCurrency = await getBaseCurrency(userId);
+    const converted = entryCurrency
+      ? await convertToBaseCurrency(userId, parseFloat(amount), entryCurrency, new Date(date), baseCurrency)
+      : null;
+    const baseAmount = converted ? converted.amount : parseFloat(amount);
+
+    // Leaving the category blank lets the user's rules and history pick one
+    const assignment = category
+      ? null
+      : (await loadCategorizer(user.id))({ description, amount: baseAmount, type });
+
+    const transaction = await prisma.$transaction(async(tx) => {
+      await lockBaseCurrency(tx, userId, baseCurrency);
+      return tx.transaction.create({
+        data: {
+          userId,
+          description,
+          ...converted,
+          amount: baseAmount,
+          accountId: account?.id,
+          type,
+          category: category || assignment?.category || UNCATEGORIZED,
+          categorySource: category ? "user" : assignment?.source,
+          categoryConfidence: assignment?.confidence,
+          categoryRuleId: assignment?.ruleId,
+          date: new Date(date),
+          notes,
+        },
+      });
     });
 
     // Emit automation event for transaction creation
     emitAutomationEvent("transaction.created", user.id, {
       transactionId: transaction.id,
       description,
-      amount: parseFloat(amount),
+      amount: baseAmount,
       type,
-      category,
+      category: transaction.category,
       date: new Date(date),
       notes,
+      originalAmount: transaction.originalAmount,
+      originalCurrency: transaction.originalCurrency,
+      accountId: transaction.accountId,
     });
 
     return NextResponse.json(transaction);
   } catch (error) {
+    if (error instanceof MissingExchangeRateError) {
+      return NextResponse.json({ error: error.message, missingCurrencies: error.currencies }, { status: 400 });
+    }
+    if (error instanceof BaseCurrencyChangedError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     console.error("Error creating transaction:", error);
     return NextResponse.json(
       { error: "Internal server error" },
@@ -67,6 +114,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const type = searchParams.get("type");
     const category = searchParams.get("category");
+    const accountId = searchParams.get("accountId");
     const startDate = searchParams.get("startDate");
     const endDate = searchParams.get("endDate");
     const page = parseInt(searchParams.get("page") || "1");
@@ -87,6 +135,9 @@ where.type = type;
     if (category) {
 where.category = category;
 }
+    if (accountId) {
+      where.accountId = accountId;
+    }
     if (startDate || endDate) {
       where.date = {};
       if (startDate) {
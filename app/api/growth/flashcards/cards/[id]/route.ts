@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { z } from "zod";
+import { CardSchema } from "@/lib/growth/flashcard-schemas";
+import { refreshSkillMastery } from "@/lib/growth/flashcards";
+
+// PUT /api/growth/flashcards/cards/[id] - Edit a card's text; scheduling is kept
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validatedData = CardSchema.partial().parse(body);
+
+    const existing = await prisma.flashcard.findFirst({
+      where: { id: params.id, deck: { userId: user.id } },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Card not found" }, { status: 404 });
+    }
+
+    const card = await prisma.flashcard.update({
+      where: { id: params.id },
+      data: validatedData,
+    });
+
+    return NextResponse.json(card);
+  } catch (error) {
+    console.error("Error updating flashcard:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/growth/flashcards/cards/[id] - Delete a card and its review history
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const card = await prisma.flashcard.findFirst({
+      where: { id: params.id, deck: { userId: user.id } },
+      include: { deck: { select: { skillId: true } } },
+    });
+    if (!card) {
+      return NextResponse.json({ error: "Card not found" }, { status: 404 });
+    }
+
+    await prisma.flashcard.delete({ where: { id: card.id } });
+    if (card.deck.skillId) {
+      await refreshSkillMastery(card.deck.skillId);
+    }
+
+    return NextResponse.json({ message: "Card deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting flashcard:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
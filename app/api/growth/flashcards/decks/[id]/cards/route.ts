@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { z } from "zod";
+import { AddCardsSchema } from "@/lib/growth/flashcard-schemas";
+import { addCards } from "@/lib/growth/flashcards";
+
+// POST /api/growth/flashcards/decks/[id]/cards - Add cards; fronts already in the deck are skipped
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { cards } = AddCardsSchema.parse(body);
+
+    const deck = await prisma.flashcardDeck.findFirst({
+      where: { id: params.id, userId: user.id },
+    });
+    if (!deck) {
+      return NextResponse.json({ error: "Deck not found" }, { status: 404 });
+    }
+
+    const added = await addCards(deck.id, cards);
+
+    return NextResponse.json({ added, skipped: cards.length - added }, { status: 201 });
+  } catch (error) {
+    console.error("Error adding flashcards:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { buildApkg, cardsToCsv } from "@/lib/growth/flashcard-formats";
+import { cardSchedule } from "@/lib/growth/flashcards";
+
+// GET /api/growth/flashcards/decks/[id]/export - Download a deck as an Anki package
+// (?format=apkg, the default, with scheduling) or as front/back/tags CSV (?format=csv)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const format = request.nextUrl.searchParams.get("format") ?? "apkg";
+    if (format !== "apkg" && format !== "csv") {
+      return NextResponse.json({ error: "Format must be apkg or csv" }, { status: 400 });
+    }
+
+    const deck = await prisma.flashcardDeck.findFirst({
+      where: { id: params.id, userId: user.id },
+      include: { cards: { orderBy: { createdAt: "asc" } } },
+    });
+    if (!deck) {
+      return NextResponse.json({ error: "Deck not found" }, { status: 404 });
+    }
+
+    const fileName = `${deck.name.replace(/[^\w\- ]+/g, "").trim() || "deck"}.${format}`;
+    // A Buffer isn't a BodyInit, so hand over its bytes
+    const body =
+      format === "apkg"
+        ? new Uint8Array(buildApkg(
+            deck.name,
+            deck.cards.map((card) => ({ front: card.front, back: card.back, tags: card.tags, schedule: cardSchedule(card) }))
+          ))
+        : cardsToCsv(deck.cards);
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": format === "apkg" ? "application/octet-stream" : "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting flashcard deck:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { z } from "zod";
+import { GenerateCardsSchema } from "@/lib/growth/flashcard-schemas";
+import { addCards, draftCardsFromResource } from "@/lib/growth/flashcards";
+
+// POST /api/growth/flashcards/decks/[id]/generate - Generate cards from a learning resource's
+// AI summary and notes; useAi asks Ollama to write the questions
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { resourceId, useAi } = GenerateCardsSchema.parse(body);
+
+    const [deck, resource] = await Promise.all([
+      prisma.flashcardDeck.findFirst({ where: { id: params.id, userId: user.id } }),
+      prisma.learningResource.findFirst({ where: { id: resourceId, userId: user.id } }),
+    ]);
+    if (!deck) {
+      return NextResponse.json({ error: "Deck not found" }, { status: 404 });
+    }
+    if (!resource) {
+      return NextResponse.json({ error: "Resource not found" }, { status: 404 });
+    }
+    if (!resource.aiSummary && !resource.notes) {
+      return NextResponse.json(
+        { error: "Summarize the resource or add notes to it first" },
+        { status: 400 }
+      );
+    }
+
+    const drafts = await draftCardsFromResource(resource, useAi);
+    const added = drafts.length > 0 ? await addCards(deck.id, drafts, resource.id) : 0;
+
+    return NextResponse.json({ generated: drafts.length, added, cards: drafts }, { status: 201 });
+  } catch (error) {
+    console.error("Error generating flashcards:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { z } from "zod";
+import { DeckSchema } from "@/lib/growth/flashcard-schemas";
+import { refreshSkillMastery } from "@/lib/growth/flashcards";
+
+// GET /api/growth/flashcards/decks/[id] - Get a deck with its cards
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const deck = await prisma.flashcardDeck.findFirst({
+      where: { id: params.id, userId: user.id },
+      include: {
+        skill: {
+          select: {
+            id: true,
+            name: true,
+            masteryLevel: true,
+            resources: { select: { id: true, title: true, aiSummary: true, notes: true } },
+          },
+        },
+        cards: {
+          include: { resource: { select: { id: true, title: true } } },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+    if (!deck) {
+      return NextResponse.json({ error: "Deck not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(deck);
+  } catch (error) {
+    console.error("Error fetching flashcard deck:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/growth/flashcards/decks/[id] - Update a deck; moving it to a skill updates that skill's mastery
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validatedData = DeckSchema.partial().parse(body);
+
+    const existing = await prisma.flashcardDeck.findFirst({
+      where: { id: params.id, userId: user.id },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Deck not found" }, { status: 404 });
+    }
+    if (validatedData.skillId) {
+      const skill = await prisma.skill.findFirst({
+        where: { id: validatedData.skillId, userId: user.id },
+      });
+      if (!skill) {
+        return NextResponse.json({ error: "Skill not found" }, { status: 404 });
+      }
+    }
+
+    const deck = await prisma.flashcardDeck.update({
+      where: { id: params.id },
+      data: validatedData,
+    });
+    for (const skillId of [existing.skillId, deck.skillId]) {
+      if (skillId && existing.skillId !== deck.skillId) {
+        await refreshSkillMastery(skillId);
+      }
+    }
+
+    return NextResponse.json(deck);
+  } catch (error) {
+    console.error("Error updating flashcard deck:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/growth/flashcards/decks/[id] - Delete a deck, its cards and their review history
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const deck = await prisma.flashcardDeck.findFirst({
+      where: { id: params.id, userId: user.id },
+    });
+    if (!deck) {
+      return NextResponse.json({ error: "Deck not found" }, { status: 404 });
+    }
+
+    await prisma.flashcardDeck.delete({ where: { id: deck.id } });
+    if (deck.skillId) {
+      await refreshSkillMastery(deck.skillId);
+    }
+
+    return NextResponse.json({ message: "Deck deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting flashcard deck:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
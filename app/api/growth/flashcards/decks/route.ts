@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { z } from "zod";
+import { DeckSchema } from "@/lib/growth/flashcard-schemas";
+import { deckSummaries } from "@/lib/growth/flashcards";
+
+// GET /api/growth/flashcards/decks - List decks with card, due and mastery counts
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const decks = await deckSummaries(user.id);
+
+    return NextResponse.json({ decks });
+  } catch (error) {
+    console.error("Error fetching flashcard decks:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/growth/flashcards/decks - Create a deck, optionally tied to a skill
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validatedData = DeckSchema.parse(body);
+
+    if (validatedData.skillId) {
+      const skill = await prisma.skill.findFirst({
+        where: { id: validatedData.skillId, userId: user.id },
+      });
+      if (!skill) {
+        return NextResponse.json({ error: "Skill not found" }, { status: 404 });
+      }
+    }
+
+    const deck = await prisma.flashcardDeck.create({
+      data: {
+        ...validatedData,
+        userId: user.id,
+      },
+    });
+
+    return NextResponse.json(deck, { status: 201 });
+  } catch (error) {
+    console.error("Error creating flashcard deck:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { z } from "zod";
+import { FlashcardImportError, parseApkg, parseCardsCsv } from "@/lib/growth/flashcard-formats";
+import { importCards } from "@/lib/growth/flashcards";
+import { ZipFormatError } from "@/lib/zip";
+import { SqliteFormatError } from "@/lib/sqlite-file";
+
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+
+const ImportFieldsSchema = z.object({
+  deckId: z.string().optional(),
+  deckName: z.string().max(200).optional(),
+  skillId: z.string().optional(),
+});
+
+// POST /api/growth/flashcards/import - Import an Anki package (.apkg) or a CSV/TSV
+// export (multipart: file + deckId or deckName, skillId). Anki decks keep their
+// names and review history unless a deckId is given.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const form = await request.formData();
+    const file = form.get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "A deck file is required" }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json({ error: "Deck files are limited to 20 MB" }, { status: 413 });
+    }
+
+    const fields = ImportFieldsSchema.parse(
+      Object.fromEntries(Array.from(form.entries()).filter(([, value]) => typeof value === "string" && value !== ""))
+    );
+
+    if (fields.deckId) {
+      const deck = await prisma.flashcardDeck.findFirst({ where: { id: fields.deckId, userId: user.id } });
+      if (!deck) {
+        return NextResponse.json({ error: "Deck not found" }, { status: 404 });
+      }
+    }
+    if (fields.skillId) {
+      const skill = await prisma.skill.findFirst({ where: { id: fields.skillId, userId: user.id } });
+      if (!skill) {
+        return NextResponse.json({ error: "Skill not found" }, { status: 404 });
+      }
+    }
+
+    const isApkg = /\.(apkg|colpkg)$/i.test(file.name);
+    const cards = isApkg
+      ? parseApkg(Buffer.from(await file.arrayBuffer()))
+      : parseCardsCsv(await file.text());
+    if (cards.length === 0) {
+      return NextResponse.json({ error: "No cards found in the file" }, { status: 400 });
+    }
+
+    const decks = await importCards(user.id, cards, {
+      deckId: fields.deckId,
+      deckName: fields.deckName || file.name.replace(/\.[^.]+$/, ""),
+      skillId: fields.skillId,
+    });
+
+    return NextResponse.json({ decks }, { status: 201 });
+  } catch (error) {
+    console.error("Error importing flashcards:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (
+      error instanceof FlashcardImportError ||
+      error instanceof ZipFormatError ||
+      error instanceof SqliteFormatError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
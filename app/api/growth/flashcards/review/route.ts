@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { z } from "zod";
+import { ReviewSchema } from "@/lib/growth/flashcard-schemas";
+import { reviewFlashcard, studyQueue } from "@/lib/growth/flashcards";
+
+// GET /api/growth/flashcards/review - Cards due now across all decks, or one deck with ?deckId=
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const deckId = request.nextUrl.searchParams.get("deckId") ?? undefined;
+    const queue = await studyQueue(user.id, deckId);
+
+    return NextResponse.json(queue);
+  } catch (error) {
+    console.error("Error fetching review queue:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/growth/flashcards/review - Grade a card (1 Again, 2 Hard, 3 Good, 4 Easy) and reschedule it
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { cardId, grade, durationMs } = ReviewSchema.parse(body);
+
+    const result = await reviewFlashcard(user.id, cardId, grade, durationMs);
+    if (!result) {
+      return NextResponse.json({ error: "Card not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error reviewing flashcard:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { PrismaClient } from "@prisma/client";
 import { emitAutomationEvent } from "@/lib/automation/event-bus";
+import { parseLogDate } from "@/lib/growth/habit-schedule";
+import { logHabit } from "@/lib/growth/habits";
 
 const prisma = new PrismaClient();
 
@@ -26,37 +28,16 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Habit not found" }, { status: 404 });
     }
 
-    // Parse the date
-    const logDate = new Date(date);
-    logDate.setHours(0, 0, 0, 0); // Set to start of day
+    // Calendar day, stored at UTC midnight
+    const logDate = parseLogDate(String(date).slice(0, 10));
+    if (!logDate) {
+      return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+    }
 
-    // Create or update the habit log
-    const habitLog = await prisma.habitLog.upsert({
-      where: {
-        habitId_date: {
-          habitId,
-          date: logDate,
-        },
-      },
-      update: {
-        completed: completed ?? true,
-      },
-      create: {
-        habitId,
-        date: logDate,
-        completed: completed ?? true,
-      },
-    });
+    // Also recomputes the streak and emits habit.completed
+    const { habitLog } = await logHabit(habit, logDate, { completed: completed ?? true });
 
-    // Emit automation events based on completion status
-    if (habitLog.completed) {
-      emitAutomationEvent("habit.completed", habit.userId, {
-        habitId,
-        habitName: habit.name,
-        date: logDate,
-        logId: habitLog.id,
-      });
-    } else {
+    if (!habitLog.completed) {
       emitAutomationEvent("habit.missed", habit.userId, {
         habitId,
         habitName: habit.name,
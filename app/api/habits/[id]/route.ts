@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { z } from "zod";
+import { HabitScheduleSchema } from "@/lib/growth/habit-schemas";
+import { scheduleFrequency } from "@/lib/growth/habit-schedule";
+import { refreshHabitStreak } from "@/lib/growth/habits";
+
+const UpdateHabitSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().optional(),
+  schedule: HabitScheduleSchema.optional(),
+  goal: z.string().optional(),
+  missedGraceHours: z.number().int().min(0).max(72).nullable().optional(),
+});
+
+// PUT /api/habits/[id] - Update a habit; a new schedule re-derives the streak from the logs
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validatedData = UpdateHabitSchema.parse(body);
+
+    const existing = await prisma.habit.findFirst({
+      where: { id: params.id, userId: user.id },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Habit not found" }, { status: 404 });
+    }
+
+    const { schedule, ...fields } = validatedData;
+    const habit = await prisma.habit.update({
+      where: { id: params.id },
+      data: {
+        ...fields,
+        ...(schedule && { schedule, frequency: scheduleFrequency(schedule) }),
+      },
+    });
+    if (schedule) {
+      await refreshHabitStreak(habit);
+    }
+
+    return NextResponse.json(habit);
+  } catch (error) {
+    console.error("Error updating habit:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/habits/[id] - Delete a habit and its logs
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const { count } = await prisma.habit.deleteMany({
+      where: { id: params.id, userId: user.id },
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: "Habit not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Habit deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting habit:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
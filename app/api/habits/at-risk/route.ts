@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { isValidTimezone } from "@/lib/automation/cron";
+import { habitsAtRisk } from "@/lib/growth/habits";
+
+// GET /api/habits/at-risk - Habits that still need doing today, or on every day left in their week/month
+// Query: timeZone (IANA, defaults to the user's)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const timeZone = new URL(request.url).searchParams.get("timeZone");
+    if (timeZone && !isValidTimezone(timeZone)) {
+      return NextResponse.json({ error: "Invalid timeZone" }, { status: 400 });
+    }
+
+    const habits = await habitsAtRisk(user.id, timeZone ?? undefined);
+
+    return NextResponse.json({ habits });
+  } catch (error) {
+    console.error("Error fetching habits at risk:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,13 +2,32 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/database";
 import { z } from "zod";
-
-const HabitSchema = z.object({
-  name: z.string().min(1).max(100),
-  description: z.string().optional(),
-  frequency: z.enum(["daily", "weekly", "monthly"]),
-  goal: z.string().optional(),
-});
+import { isValidTimezone } from "@/lib/automation/cron";
+import { getUserTimezone } from "@/lib/timezone";
+import { HabitScheduleSchema } from "@/lib/growth/habit-schemas";
+import {
+  describeSchedule,
+  habitCalendar,
+  habitStats,
+  localDay,
+  parseSchedule,
+  scheduleFrequency,
+  shiftDay,
+} from "@/lib/growth/habit-schedule";
+
+// Either a frequency rule or the legacy frequency
+const HabitSchema = z
+  .object({
+    name: z.string().min(1).max(100),
+    description: z.string().optional(),
+    frequency: z.enum(["daily", "weekly", "monthly"]).optional(),
+    schedule: HabitScheduleSchema.optional(),
+    goal: z.string().optional(),
+    missedGraceHours: z.number().int().min(0).max(72).nullable().optional(),
+  })
+  .refine((data) => data.frequency || data.schedule, {
+    message: "Send a frequency or a schedule",
+  });
 
 // POST /api/habits - Create a new habit
 export async function POST(request: NextRequest) {
@@ -29,12 +48,15 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = HabitSchema.parse(body);
 
+    const schedule = parseSchedule(validatedData.schedule, validatedData.frequency);
     const habit = await prisma.habit.create({
       data: {
         name: validatedData.name,
         description: validatedData.description,
-        frequency: validatedData.frequency,
+        frequency: scheduleFrequency(schedule),
+        schedule,
         goal: validatedData.goal,
+        missedGraceHours: validatedData.missedGraceHours,
         userId: user.id,
       },
     });
@@ -55,7 +77,8 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET /api/habits - Get user's habits
+// GET /api/habits - Get user's habits with streaks, completion rate and a day-by-day calendar
+// Query: timeZone (IANA, defaults to the user's), days (calendar length, default 182)
 export async function GET(request: NextRequest) {
   try {
     const session = await auth();
@@ -71,76 +94,50 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
+    const { searchParams } = new URL(request.url);
+    const timeZoneParam = searchParams.get("timeZone");
+    const days = parseInt(searchParams.get("days") || "182");
+    if (timeZoneParam && !isValidTimezone(timeZoneParam)) {
+      return NextResponse.json({ error: "Invalid timeZone" }, { status: 400 });
+    }
+    if (isNaN(days) || days < 7 || days > 366) {
+      return NextResponse.json({ error: "days must be between 7 and 366" }, { status: 400 });
+    }
+    const timeZone = timeZoneParam || (await getUserTimezone(user.id));
+
+    // Streaks need the full history, not just the calendar window
     const habits = await prisma.habit.findMany({
       where: { userId: user.id },
       include: {
         logs: {
-          where: {
-            date: {
-              gte: new Date(new Date().setDate(new Date().getDate() - 30)), // Last 30 days
-            },
-          },
+          select: { id: true, date: true, completed: true, status: true, notes: true },
           orderBy: { date: "desc" },
         },
-        _count: {
-          select: {
-            logs: {
-              where: {
-                completed: true,
-                date: {
-                  gte: new Date(new Date().setDate(new Date().getDate() - 30)),
-                },
-              },
-            },
-          },
-        },
       },
       orderBy: { createdAt: "desc" },
     });
 
-    // Calculate completion rates and current streaks
-    const habitsWithStats = habits.map(habit => {
-      const completedLogs = habit.logs.filter(log => log.completed);
-      const totalDays = 30; // Last 30 days
-      const completionRate = (completedLogs.length / totalDays) * 100;
-
-      // Calculate current streak
-      let currentStreak = 0;
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      for (let i = 0; i < 30; i++) {
-        const checkDate = new Date(today);
-        checkDate.setDate(today.getDate() - i);
-        
-        const logForDate = habit.logs.find(log => {
-          const logDate = new Date(log.date);
-          logDate.setHours(0, 0, 0, 0);
-          return logDate.getTime() === checkDate.getTime();
-        });
-
-        if (logForDate && logForDate.completed) {
-          currentStreak++;
-        } else {
-          break;
-        }
-      }
+    const now = new Date();
+    const today = localDay(now, timeZone);
+    const from = shiftDay(today, -(days - 1));
 
+    const habitsWithStats = habits.map(({ logs, ...habit }) => {
+      const schedule = parseSchedule(habit.schedule, habit.frequency);
+      const input = { schedule, createdAt: habit.createdAt, logs, timeZone, now };
+      const stats = habitStats(input);
       return {
         ...habit,
-        completionRate: Math.round(completionRate),
-        currentStreak,
-        completedToday: habit.logs.some(log => {
-          const logDate = new Date(log.date);
-          const today = new Date();
-          return (
-            logDate.toDateString() === today.toDateString() && log.completed
-          );
-        }),
+        schedule,
+        scheduleLabel: describeSchedule(schedule),
+        ...stats,
+        // Kept for older clients
+        currentStreak: stats.streak,
+        completedToday: stats.doneToday,
+        calendar: habitCalendar(input, from, today),
       };
     });
 
-    return NextResponse.json({ habits: habitsWithStats });
+    return NextResponse.json({ habits: habitsWithStats, today, timeZone });
   } catch (error) {
     console.error("Error fetching habits:", error);
     return NextResponse.json(
@@ -148,4 +145,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -5,6 +5,14 @@ import { auth } from "@/lib/auth";
 
 const prisma = new PrismaClient();
 
+// Feed categories map onto ProactiveInsight.type
+const CATEGORY_TYPES: Record<string, string[]> = {
+  WELLNESS: ["health", "wellness"],
+  FINANCE: ["finance"],
+  SOCIAL: ["social"],
+  GROWTH: ["productivity", "growth"],
+};
+
 // GET: Fetch user's insights
 export async function GET(request: NextRequest) {
   try {
@@ -33,11 +41,11 @@ export async function GET(request: NextRequest) {
     const where: any = { userId: user.id };
 
     if (category) {
-      where.category = category;
+      where.type = { in: CATEGORY_TYPES[category] ?? [category.toLowerCase()] };
     }
 
     if (priority) {
-      where.priority = priority;
+      where.priority = { equals: priority, mode: "insensitive" };
     }
 
     if (unreadOnly) {
@@ -2,14 +2,22 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/database";
 import { z } from "zod";
-
-const UpdateJournalEntrySchema = z.object({
-  title: z.string().min(1).max(200).optional(),
-  content: z.string().min(1).max(10000).optional(),
-  mood: z.string().optional(),
-  tags: z.array(z.string()).optional(),
-  isPrivate: z.boolean().optional(),
-});
+import { EncryptedPayloadSchema, encryptionFields } from "@/lib/journal/journal-schemas";
+import { sentimentFields } from "@/lib/journal/journal-events";
+import { JournalKeyConflictError, checkJournalWrite } from "@/lib/journal/journal-keyring";
+
+const UpdateJournalEntrySchema = z
+  .object({
+    title: z.string().min(1).max(200).optional(),
+    content: z.string().min(1).max(10000).optional(),
+    encrypted: EncryptedPayloadSchema.optional(),
+    mood: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    isPrivate: z.boolean().optional(),
+  })
+  .refine((data) => !data.encrypted || (!data.title && !data.content), {
+    message: "Send either title and content, or an encrypted payload",
+  });
 
 // GET /api/journal/[id] - Get a specific journal entry
 export async function GET(
@@ -89,15 +97,59 @@ export async function PUT(
     }
 
     const body = await request.json();
-    const validatedData = UpdateJournalEntrySchema.parse(body);
+    const { encrypted, ...validatedData } = UpdateJournalEntrySchema.parse(body);
+    const data: Record<string, unknown> = validatedData;
+
+    if (encrypted) {
+      if (validatedData.isPrivate === false) {
+        return NextResponse.json({ error: "Encrypted entries are always private" }, { status: 400 });
+      }
+      Object.assign(data, encryptionFields({ encrypted }));
+    } else if (existingEntry.encrypted) {
+      // Saving plaintext over an encrypted entry removes its encryption
+      if (validatedData.title && validatedData.content) {
+        Object.assign(data, encryptionFields(validatedData));
+      } else if (validatedData.title || validatedData.content || validatedData.isPrivate === false) {
+        return NextResponse.json(
+          { error: "Send the full title and content to store an encrypted entry unencrypted" },
+          { status: 400 }
+        );
+      }
+    }
 
-    const updatedEntry = await prisma.journalEntry.update({
-      where: { id: params.id },
-      data: validatedData,
+    // Re-score whenever the text changes, or clear the score once it's encrypted
+    if (data.title !== undefined || data.content !== undefined || data.encrypted !== undefined) {
+      Object.assign(data, sentimentFields({
+        title: (data.title as string | undefined) ?? existingEntry.title,
+        content: (data.content as string | undefined) ?? existingEntry.content,
+        encrypted: (data.encrypted as boolean | undefined) ?? existingEntry.encrypted,
+      }));
+    }
+
+    // Mood and tag edits leave the stored body as it is; anything that writes a
+    // body, or makes a plaintext entry private, is checked against the keyring
+    const writesPlaintext = !encrypted && (
+      data.title !== undefined || data.content !== undefined || (validatedData.isPrivate === true && !existingEntry.encrypted)
+    );
+
+    const updatedEntry = await prisma.$transaction(async(tx) => {
+      if (encrypted || writesPlaintext) {
+        await checkJournalWrite(tx, user.id, {
+          isPrivate: validatedData.isPrivate ?? existingEntry.isPrivate,
+          keyVersion: encrypted ? encrypted.keyVersion : null,
+        });
+      }
+      return tx.journalEntry.update({
+        where: { id: params.id },
+        data,
+      });
     });
 
     return NextResponse.json(updatedEntry);
   } catch (error) {
+    if (error instanceof JournalKeyConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     console.error("Error updating journal entry:", error);
     if (error instanceof z.ZodError) {
       return NextResponse.json(
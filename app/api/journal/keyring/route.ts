@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { z } from "zod";
+import { JournalKeyringSchema, KeyringUpdateSchema } from "@/lib/journal/journal-schemas";
+
+// Rolls back a rotation that raced with another device or missed an entry
+class RotationConflictError extends Error {
+  constructor(message: string, public missing: string[] = []) {
+    super(message);
+    this.name = "RotationConflictError";
+  }
+}
+
+type KeyringRecord = NonNullable<Awaited<ReturnType<typeof prisma.journalKeyring.findUnique>>>;
+
+function toKeyring(record: KeyringRecord) {
+  return {
+    version: record.version,
+    kdf: record.kdf,
+    iterations: record.iterations,
+    passphrase: record.passphraseKey,
+    recovery: record.recoveryKey,
+    rotatedAt: record.rotatedAt,
+  };
+}
+
+async function getUser() {
+  const session = await auth();
+  if (!session?.user?.email) {
+    return null;
+  }
+  return prisma.user.findUnique({ where: { email: session.user.email } });
+}
+
+// GET /api/journal/keyring - Wrapped journal key and encryption status
+export async function GET() {
+  try {
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [keyring, encryptedEntries, unencryptedPrivateEntries] = await Promise.all([
+      prisma.journalKeyring.findUnique({ where: { userId: user.id } }),
+      prisma.journalEntry.count({ where: { userId: user.id, encrypted: true } }),
+      prisma.journalEntry.count({ where: { userId: user.id, encrypted: false, isPrivate: true } }),
+    ]);
+
+    return NextResponse.json({
+      keyring: keyring ? toKeyring(keyring) : null,
+      encryptedEntries,
+      unencryptedPrivateEntries,
+    });
+  } catch (error) {
+    console.error("Error fetching journal keyring:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/journal/keyring - Set up journal encryption
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const keyring = JournalKeyringSchema.parse(await request.json());
+
+    const existing = await prisma.journalKeyring.findUnique({ where: { userId: user.id } });
+    if (existing) {
+      return NextResponse.json({ error: "Journal encryption is already set up" }, { status: 409 });
+    }
+
+    const created = await prisma.journalKeyring.create({
+      data: {
+        userId: user.id,
+        version: keyring.version,
+        kdf: keyring.kdf,
+        iterations: keyring.iterations,
+        passphraseKey: keyring.passphrase,
+        recoveryKey: keyring.recovery,
+      },
+    });
+
+    return NextResponse.json({ keyring: toKeyring(created) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid input", details: error.errors }, { status: 400 });
+    }
+    console.error("Error creating journal keyring:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// PUT /api/journal/keyring - Change passphrase / recovery key, or rotate the data key
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { keyring, entries } = KeyringUpdateSchema.parse(await request.json());
+
+    const existing = await prisma.journalKeyring.findUnique({ where: { userId: user.id } });
+    if (!existing) {
+      return NextResponse.json({ error: "Journal encryption is not set up" }, { status: 404 });
+    }
+
+    const data = {
+      kdf: keyring.kdf,
+      iterations: keyring.iterations,
+      passphraseKey: keyring.passphrase,
+      recoveryKey: keyring.recovery,
+    };
+
+    if (keyring.version === existing.version) {
+      if (entries?.length) {
+        return NextResponse.json({ error: "Entries can only be re-encrypted with a new key version" }, { status: 400 });
+      }
+      const updated = await prisma.journalKeyring.update({ where: { userId: user.id }, data });
+      return NextResponse.json({ keyring: toKeyring(updated) });
+    }
+
+    if (keyring.version !== existing.version + 1) {
+      return NextResponse.json(
+        { error: "Keyring version conflict", currentVersion: existing.version },
+        { status: 409 }
+      );
+    }
+
+    const submitted = new Map((entries || []).map((entry) => [entry.id, entry]));
+    if (Array.from(submitted.values()).some((entry) => entry.keyVersion !== keyring.version)) {
+      return NextResponse.json({ error: "Entries must use the new key version" }, { status: 400 });
+    }
+
+    const updated = await prisma.$transaction(async(tx) => {
+      // Bumping the version takes the keyring row lock first, so entry writes
+      // under the old key either commit before this point or fail afterwards
+      const bumped = await tx.journalKeyring.updateMany({
+        where: { userId: user.id, version: existing.version },
+        data: { ...data, version: keyring.version, rotatedAt: new Date() },
+      });
+      if (bumped.count === 0) {
+        throw new RotationConflictError("Keyring version conflict");
+      }
+
+      // Rotation must cover every encrypted entry, or some would be left unreadable
+      const encrypted = await tx.journalEntry.findMany({
+        where: { userId: user.id, encrypted: true },
+        select: { id: true },
+      });
+      const missing = encrypted.filter((entry) => !submitted.has(entry.id)).map((entry) => entry.id);
+      if (missing.length > 0 || submitted.size !== encrypted.length) {
+        throw new RotationConflictError("Every encrypted entry must be re-encrypted with the new key", missing);
+      }
+
+      for (const entry of Array.from(submitted.values())) {
+        await tx.journalEntry.update({
+          where: { id: entry.id },
+          data: { ciphertext: entry.ciphertext, iv: entry.iv, keyVersion: entry.keyVersion },
+        });
+      }
+
+      return tx.journalKeyring.findUniqueOrThrow({ where: { userId: user.id } });
+    }, { timeout: 30000 });
+
+    return NextResponse.json({ keyring: toKeyring(updated), reencrypted: submitted.size });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid input", details: error.errors }, { status: 400 });
+    }
+    if (error instanceof RotationConflictError) {
+      return NextResponse.json({ error: error.message, missing: error.missing }, { status: 409 });
+    }
+    console.error("Error updating journal keyring:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
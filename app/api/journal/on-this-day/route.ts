@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { journalEntrySelect } from "@/lib/journal/journal-schemas";
+import { onThisDayRanges, parseCalendarDate } from "@/lib/journal/journal-search";
+
+// GET /api/journal/on-this-day - Entries written on today's date in earlier years
+// Query: date=YYYY-MM-DD (the client's local date), tzOffset=Date#getTimezoneOffset()
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const today = parseCalendarDate(searchParams.get("date") || new Date().toISOString().slice(0, 10));
+    const tzOffset = parseInt(searchParams.get("tzOffset") || "0");
+    if (!today || isNaN(tzOffset) || Math.abs(tzOffset) > 14 * 60) {
+      return NextResponse.json({ error: "Invalid date or timezone offset" }, { status: 400 });
+    }
+
+    const oldest = await prisma.journalEntry.findFirst({
+      where: { userId: user.id },
+      orderBy: { createdAt: "asc" },
+      select: { createdAt: true },
+    });
+    const ranges = oldest ? onThisDayRanges(today, oldest.createdAt.getUTCFullYear(), tzOffset) : [];
+    if (ranges.length === 0) {
+      return NextResponse.json({ years: [] });
+    }
+
+    // Encrypted entries come back as ciphertext for the browser to decrypt
+    const entries = await prisma.journalEntry.findMany({
+      where: {
+        userId: user.id,
+        OR: ranges.map((range) => ({ createdAt: { gte: range.start, lt: range.end } })),
+      },
+      orderBy: { createdAt: "desc" },
+      select: journalEntrySelect,
+    });
+
+    const years = ranges
+      .map((range) => ({
+        year: range.year,
+        yearsAgo: today.year - range.year,
+        entries: entries.filter((entry) => entry.createdAt >= range.start && entry.createdAt < range.end),
+      }))
+      .filter((group) => group.entries.length > 0);
+
+    return NextResponse.json({ years });
+  } catch (error) {
+    console.error("Error fetching on this day entries:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,14 +2,31 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/database";
 import { z } from "zod";
-
-const JournalEntrySchema = z.object({
-  title: z.string().min(1).max(200),
-  content: z.string().min(1).max(10000),
-  mood: z.string().optional(),
-  tags: z.array(z.string()).optional(),
-  isPrivate: z.boolean().default(true),
-});
+import { EncryptedPayloadSchema, encryptionFields, journalEntrySelect } from "@/lib/journal/journal-schemas";
+import { emitJournalCreated, sentimentFields } from "@/lib/journal/journal-events";
+import { JournalKeyConflictError, checkJournalWrite } from "@/lib/journal/journal-keyring";
+import { parseSearchQuery, searchEntry } from "@/lib/journal/journal-search";
+
+// Upper bound on entries ranked for a single search
+const MAX_SEARCH_CANDIDATES = 500;
+
+// Encrypted entries send `encrypted` instead of title and content
+const JournalEntrySchema = z
+  .object({
+    title: z.string().min(1).max(200).optional(),
+    content: z.string().min(1).max(10000).optional(),
+    encrypted: EncryptedPayloadSchema.optional(),
+    mood: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    isPrivate: z.boolean().default(true),
+  })
+  .refine((data) => (data.encrypted ? !data.title && !data.content : data.title && data.content), {
+    message: "Send either title and content, or an encrypted payload",
+  })
+  .refine((data) => !data.encrypted || data.isPrivate, {
+    message: "Encrypted entries are always private",
+    path: ["isPrivate"],
+  });
 
 // POST /api/journal - Create a new journal entry
 export async function POST(request: NextRequest) {
@@ -30,19 +47,28 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = JournalEntrySchema.parse(body);
 
-    const journalEntry = await prisma.journalEntry.create({
-      data: {
-        title: validatedData.title,
-        content: validatedData.content,
-        mood: validatedData.mood,
-        tags: validatedData.tags || [],
-        isPrivate: validatedData.isPrivate,
-        userId: user.id,
-      },
+    const fields = encryptionFields(validatedData);
+    const journalEntry = await prisma.$transaction(async(tx) => {
+      await checkJournalWrite(tx, user.id, { isPrivate: validatedData.isPrivate, keyVersion: fields.keyVersion });
+      return tx.journalEntry.create({
+        data: {
+          ...fields,
+          ...sentimentFields(fields),
+          mood: validatedData.mood,
+          tags: validatedData.tags || [],
+          isPrivate: validatedData.isPrivate,
+          userId: user.id,
+        },
+      });
     });
 
+    emitJournalCreated(user.id, journalEntry);
+
     return NextResponse.json(journalEntry, { status: 201 });
   } catch (error) {
+    if (error instanceof JournalKeyConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     console.error("Error creating journal entry:", error);
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -57,7 +83,7 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET /api/journal - Get user's journal entries
+// GET /api/journal - Get user's journal entries, optionally searched and ranked with highlights
 export async function GET(request: NextRequest) {
   try {
     const session = await auth();
@@ -77,8 +103,16 @@ export async function GET(request: NextRequest) {
     const page = parseInt(searchParams.get("page") || "1");
     const limit = parseInt(searchParams.get("limit") || "20");
     const search = searchParams.get("search") || "";
+    const encrypted = searchParams.get("encrypted");
     const mood = searchParams.get("mood") || "";
     const tag = searchParams.get("tag") || "";
+    // ISO timestamps; the client sends its local start and end of day
+    const from = searchParams.get("from") ? new Date(searchParams.get("from")!) : null;
+    const to = searchParams.get("to") ? new Date(searchParams.get("to")!) : null;
+
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+    }
 
     const skip = (page - 1) * limit;
 
@@ -86,13 +120,6 @@ export async function GET(request: NextRequest) {
       userId: user.id,
     };
 
-    if (search) {
-      where.OR = [
-        { title: { contains: search, mode: "insensitive" } },
-        { content: { contains: search, mode: "insensitive" } },
-      ];
-    }
-
     if (mood) {
       where.mood = mood;
     }
@@ -103,28 +130,74 @@ export async function GET(request: NextRequest) {
       };
     }
 
+    if (encrypted === "true" || encrypted === "false") {
+      where.encrypted = encrypted === "true";
+    }
+
+    if (from || to) {
+      where.createdAt = {
+        ...(from && { gte: from }),
+        ...(to && { lte: to }),
+      };
+    }
+
+    const terms = parseSearchQuery(search);
+    if (terms.length > 0) {
+      // Encrypted entries are searched in the browser after unlocking; report
+      // how many the server skipped
+      const encryptedNotSearched = await prisma.journalEntry.count({ where: { ...where, encrypted: true } });
+      where.encrypted = false;
+
+      // Tags are matched exactly but case-insensitively, which Prisma can't
+      // express for arrays, so resolve each term to the user's spellings first
+      const tagged = await prisma.journalEntry.findMany({ where: { userId: user.id }, select: { tags: true } });
+      const userTags = Array.from(new Set(tagged.flatMap((entry) => entry.tags)));
+      where.AND = terms.map((term) => ({
+        OR: [
+          { title: { contains: term, mode: "insensitive" } },
+          { content: { contains: term, mode: "insensitive" } },
+          { tags: { hasSome: userTags.filter((candidate) => candidate.toLowerCase() === term) } },
+        ],
+      }));
+
+      // Ranked by relevance, so rank the candidates before paging
+      const candidates = await prisma.journalEntry.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        take: MAX_SEARCH_CANDIDATES,
+        select: journalEntrySelect,
+      });
+      const ranked = candidates
+        .map((entry) => ({ ...entry, highlight: searchEntry(entry, terms) }))
+        .filter((entry) => entry.highlight !== null)
+        .sort((a, b) => b.highlight!.score - a.highlight!.score);
+
+      return NextResponse.json({
+        journalEntries: ranked.slice(skip, skip + limit),
+        encryptedNotSearched,
+        pagination: {
+          page,
+          limit,
+          total: ranked.length,
+          pages: Math.ceil(ranked.length / limit),
+        },
+      });
+    }
+
     const [journalEntries, total] = await Promise.all([
       prisma.journalEntry.findMany({
         where,
         orderBy: { createdAt: "desc" },
         skip,
         take: limit,
-        select: {
-          id: true,
-          title: true,
-          content: true,
-          mood: true,
-          tags: true,
-          isPrivate: true,
-          createdAt: true,
-          updatedAt: true,
-        },
+        select: journalEntrySelect,
       }),
       prisma.journalEntry.count({ where }),
     ]);
 
     return NextResponse.json({
       journalEntries,
+      encryptedNotSearched: 0,
       pagination: {
         page,
         limit,
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { buildTagCloud } from "@/lib/journal/journal-search";
+
+// GET /api/journal/tags - Tag cloud with entry counts
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    // Tags stay plaintext metadata on encrypted entries, so they count too
+    const entries = await prisma.journalEntry.findMany({
+      where: { userId: user.id },
+      select: { tags: true },
+    });
+
+    return NextResponse.json({ tags: buildTagCloud(entries) });
+  } catch (error) {
+    console.error("Error fetching journal tags:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { z } from "zod";
+import { LMSNotFoundError, NotEnrolledError, lmsSystem } from "@/lib/education/lms-system";
+import { SubmitAssessmentSchema } from "@/lib/education/lms-schemas";
+
+// POST /api/learning/courses/[id]/assessments/[assessmentId]/submit - Grade answers
+// (questionId -> answer) and record the attempt
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; assessmentId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { answers } = SubmitAssessmentSchema.parse(body);
+
+    const result = await lmsSystem.submitAssessment(user.id, params.id, params.assessmentId, answers);
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error("Error submitting assessment:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof LMSNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof NotEnrolledError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
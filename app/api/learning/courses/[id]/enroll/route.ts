@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { LMSNotFoundError, lmsSystem } from "@/lib/education/lms-system";
+
+// POST /api/learning/courses/[id]/enroll - Enroll in a course; enrolling again keeps existing progress
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const progress = await lmsSystem.enrollStudent(user.id, params.id);
+
+    return NextResponse.json(progress, { status: 201 });
+  } catch (error) {
+    console.error("Error enrolling in course:", error);
+    if (error instanceof LMSNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { z } from "zod";
+import { LMSNotFoundError, NotEnrolledError, lmsSystem } from "@/lib/education/lms-system";
+import { CompleteLessonSchema } from "@/lib/education/lms-schemas";
+
+// POST /api/learning/courses/[id]/lessons/[lessonId]/complete - Mark a lesson complete
+// (optional minutesSpent; defaults to the lesson's duration) and move on to the next one
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; lessonId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { minutesSpent } = CompleteLessonSchema.parse(body);
+
+    const progress = await lmsSystem.completeLesson(user.id, params.id, params.lessonId, minutesSpent);
+
+    return NextResponse.json(progress);
+  } catch (error) {
+    console.error("Error completing lesson:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof LMSNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof NotEnrolledError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { z } from "zod";
+import { lmsSystem } from "@/lib/education/lms-system";
+import { CourseSchema } from "@/lib/education/lms-schemas";
+
+// GET /api/learning/courses/[id] - Get a course with the user's progress in it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const course = await lmsSystem.getCourse(params.id);
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+
+    const progress = await lmsSystem.getStudentProgress(user.id, course.id);
+
+    return NextResponse.json({ course, progress });
+  } catch (error) {
+    console.error("Error fetching course:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/learning/courses/[id] - Save the user's course from the editor; lessons and
+// assessments keep their ids so learners' progress carries over
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validatedData = CourseSchema.parse(body);
+
+    const existing = await lmsSystem.getCourse(params.id);
+    if (!existing || existing.authorId !== user.id) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+
+    const course = await lmsSystem.updateCourse(existing.id, validatedData);
+
+    return NextResponse.json(course);
+  } catch (error) {
+    console.error("Error updating course:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/learning/courses/[id] - Delete the user's course with its enrollments
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const existing = await lmsSystem.getCourse(params.id);
+    if (!existing || existing.authorId !== user.id) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+
+    await lmsSystem.deleteCourse(existing.id);
+
+    return NextResponse.json({ message: "Course deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting course:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { lmsSystem } from "@/lib/education/lms-system";
+import { CoursePackageError, parseCoursePackage, readCoursePackage } from "@/lib/education/course-packages";
+import { ZipFormatError } from "@/lib/zip";
+import { XmlFormatError } from "@/lib/xml";
+
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+// POST /api/learning/courses/import - Import a course the user will own (multipart): either
+// one SCORM 1.2 / IMS Common Cartridge zip as "file", or a Markdown folder as "files",
+// each named with its path inside the folder
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const form = await request.formData();
+    const file = form.get("file");
+    const folder = form.getAll("files").filter((entry): entry is File => entry instanceof File);
+    const uploads = file instanceof File ? [file] : folder;
+
+    if (uploads.length === 0) {
+      return NextResponse.json({ error: "A course package or Markdown folder is required" }, { status: 400 });
+    }
+    if (uploads.reduce((total, upload) => total + upload.size, 0) > MAX_UPLOAD_BYTES) {
+      return NextResponse.json({ error: "Course uploads are limited to 50 MB" }, { status: 413 });
+    }
+
+    const imported = file instanceof File
+      ? readCoursePackage(Buffer.from(await file.arrayBuffer()))
+      : parseCoursePackage(new Map(
+        await Promise.all(folder.map(async(entry) => [entry.name, Buffer.from(await entry.arrayBuffer())] as const))
+      ));
+
+    const course = await lmsSystem.createCustomCourse(imported.course, user.id);
+
+    return NextResponse.json({ course, format: imported.format, warnings: imported.warnings }, { status: 201 });
+  } catch (error) {
+    console.error("Error importing course:", error);
+    if (
+      error instanceof CoursePackageError ||
+      error instanceof ZipFormatError ||
+      error instanceof XmlFormatError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { z } from "zod";
+import { lmsSystem } from "@/lib/education/lms-system";
+import { CourseFiltersSchema, CourseSchema } from "@/lib/education/lms-schemas";
+
+// GET /api/learning/courses - List courses (?subject=&level=&gradeLevel=&tags=a,b, or
+// ?authored=true for the user's own) with the user's enrollments
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const { authored, tags, ...filters } = CourseFiltersSchema.parse(Object.fromEntries(request.nextUrl.searchParams));
+    const [courses, enrollments] = await Promise.all([
+      lmsSystem.getCourses({
+        ...filters,
+        tags: tags?.split(",").map((tag) => tag.trim()).filter(Boolean),
+        authorId: authored === "true" ? user.id : undefined,
+      }),
+      lmsSystem.getEnrollments(user.id),
+    ]);
+
+    return NextResponse.json({ courses, enrollments });
+  } catch (error) {
+    console.error("Error fetching courses:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/learning/courses - Create a course authored by the user
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validatedData = CourseSchema.parse(body);
+
+    const course = await lmsSystem.createCustomCourse(validatedData, user.id);
+
+    return NextResponse.json(course, { status: 201 });
+  } catch (error) {
+    console.error("Error creating course:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { lmsSystem } from "@/lib/education/lms-system";
+
+// GET /api/learning/recommendations - Courses suggested from the user's completed courses and grades
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const recommendations = await lmsSystem.generatePersonalizedRecommendations(user.id);
+
+    return NextResponse.json(recommendations);
+  } catch (error) {
+    console.error("Error generating course recommendations:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-;
 import { prisma } from "@/lib/database";
+import { emitAutomationEvent } from "@/lib/automation/event-bus";
+import { AssessmentValidationError, CRISIS_RESOURCES, getAssessment, scoreAssessment } from "@/lib/mental-health/assessments";
+import { compareAdministrations } from "@/lib/mental-health/assessment-trends";
+import { SAFETY_PLAN_PATH, crisisView } from "@/lib/mental-health/safety-plan";
+import { getSafetyPlan } from "@/lib/mental-health/safety-plans";
 
-// POST /api/mental-health/assessment
+// POST /api/mental-health/assessment - Score and store a completed assessment
 export async function POST(request: NextRequest) {
   try {
     const session = await auth();
@@ -11,32 +15,104 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { type, scores } = await request.json();
+    const { type, answers } = await request.json();
 
     // Validate input
-    if (!type || !scores) {
+    if (!type || !answers) {
       return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
     }
 
+    const result = scoreAssessment(type, answers);
+
     // Create assessment
     const assessment = await prisma.mentalHealthAssessment.create({
       data: {
         userId: session.user.id,
-        type,
-        scores,
+        type: result.type,
+        answers: result.answers,
+        score: result.score,
+        severity: result.severity.label,
+        interpretation: result.interpretation,
+        safetyFlag: result.safetyFlag,
+      },
+    });
+
+    // Compare with the previous administration of the same instrument
+    const previous = await prisma.mentalHealthAssessment.findFirst({
+      where: {
+        userId: session.user.id,
+        type: result.type,
+        score: { not: null },
+        id: { not: assessment.id },
+        createdAt: { lte: assessment.createdAt },
       },
+      orderBy: { createdAt: "desc" },
     });
+    const change = previous
+      ? compareAdministrations(
+        getAssessment(result.type)!,
+        { id: previous.id, score: previous.score as number, severity: previous.severity, createdAt: previous.createdAt },
+        { id: assessment.id, score: result.score, severity: result.severity.label, createdAt: assessment.createdAt }
+      )
+      : null;
+
+    const eventData = {
+      assessmentId: assessment.id,
+      type: result.type,
+      score: result.score,
+      maxScore: result.maxScore,
+      severity: result.severity.label,
+      safetyFlag: result.safetyFlag,
+      change,
+    };
+    emitAutomationEvent("assessment.completed", session.user.id, eventData);
+
+    // Emit worsening event when the change is beyond measurement error
+    if (change?.direction === "worsened") {
+      emitAutomationEvent("assessment.worsened", session.user.id, {
+        ...eventData,
+        previousAssessmentId: previous!.id,
+        previousScore: change.from,
+        rci: change.rci,
+        clinicallySignificant: change.clinicallySignificant,
+      });
+    }
+
+    const scored = {
+      ...assessment,
+      maxScore: result.maxScore,
+      tone: result.severity.tone,
+      change,
+    };
+
+    // A positive safety item goes straight to crisis resources and the
+    // user's own safety plan; no AI summary
+    if (result.safetyFlag) {
+      const safetyPlan = await getSafetyPlan(session.user.id).catch((planError) => {
+        console.error("Failed to load safety plan:", planError);
+        return null;
+      });
+      return NextResponse.json({
+        ...scored,
+        crisis: {
+          message: "You mentioned thoughts of being better off dead or of hurting yourself. You don't have to go through this alone - please reach out to one of these services now.",
+          safetyItems: result.safetyItems,
+          resources: CRISIS_RESOURCES,
+          safetyPlan: crisisView(safetyPlan),
+          safetyPlanUrl: SAFETY_PLAN_PATH,
+        },
+      });
+    }
 
     // Generate AI summary
     try {
-      const scoreData = typeof scores === "object" ? JSON.stringify(scores) : scores;
       const aiResponse = await fetch(`${process.env.NEXT_PUBLIC_APP_URL}/api/ai`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          message: `Analyze this ${type} assessment result and provide a supportive, professional summary (max 500 characters). Focus on patterns, severity level, and gentle suggestions. Be encouraging and emphasize that this is just one data point. Results: ${scoreData}`,
+          message: `Write a supportive, professional summary (max 500 characters) of this ${result.type} result. The score and severity are already computed; do not re-score it. Offer gentle suggestions, be encouraging and emphasize that this is just one data point. Score: ${result.score}/${result.maxScore} (${result.severity.label}). ${result.interpretation}`,
           context: "mental-health-assessment",
         }),
       });
@@ -52,7 +128,7 @@ export async function POST(request: NextRequest) {
         });
 
         return NextResponse.json({
-          ...assessment,
+          ...scored,
           summary,
         });
       }
@@ -61,8 +137,11 @@ export async function POST(request: NextRequest) {
       // Continue without AI summary
     }
 
-    return NextResponse.json(assessment);
+    return NextResponse.json(scored);
   } catch (error) {
+    if (error instanceof AssessmentValidationError) {
+      return NextResponse.json({ error: error.message, itemId: error.itemId }, { status: 400 });
+    }
     console.error("Error creating assessment:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
@@ -84,7 +163,7 @@ export async function GET(request: NextRequest) {
 
     const whereClause = {
       userId: session.user.id,
-      ...(type && { type }),
+      ...(type && { type: getAssessment(type)?.type || type }),
     };
 
     const [assessments, total] = await Promise.all([
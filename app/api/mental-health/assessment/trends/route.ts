@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { ASSESSMENT_TYPES, getAssessment } from "@/lib/mental-health/assessments";
+import { buildAssessmentTrend } from "@/lib/mental-health/assessment-trends";
+
+const MAX_POINTS = 200;
+
+// GET /api/mental-health/assessment/trends - Scores over time with reliable-change indices per instrument
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { searchParams } = new URL(request.url);
+    const type = searchParams.get("type");
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50") || 50, MAX_POINTS);
+
+    const definition = type ? getAssessment(type) : null;
+    if (type && !definition) {
+      return NextResponse.json({ error: "Unknown assessment type" }, { status: 400 });
+    }
+
+    const types = definition ? [definition.type] : [...ASSESSMENT_TYPES];
+    const results = await Promise.all(types.map((assessmentType) =>
+      prisma.mentalHealthAssessment.findMany({
+        where: { userId, type: assessmentType, score: { not: null } },
+        orderBy: { createdAt: "desc" },
+        take: limit,
+        select: { id: true, score: true, severity: true, createdAt: true },
+      })
+    ));
+
+    const trends = types
+      .map((assessmentType, index) => buildAssessmentTrend(
+        assessmentType,
+        results[index].map((row) => ({ ...row, score: row.score as number }))
+      ))
+      .filter((trend) => trend && trend.points.length > 0);
+
+    return NextResponse.json({ trends });
+  } catch (error) {
+    console.error("Error fetching assessment trends:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { buildMoodCorrelationReport, publishMoodInsights } from "@/lib/mental-health/mood-insights";
+
+// GET /api/mental-health/mood/correlations - Mood lift per activity, habit and spending category, and by weekday
+// Query: days (lookback, default 120), timeZone (IANA, default UTC)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const days = parseInt(searchParams.get("days") || "120");
+    const timeZone = searchParams.get("timeZone") || undefined;
+    if (isNaN(days) || days < 14 || days > 730) {
+      return NextResponse.json({ error: "days must be between 14 and 730" }, { status: 400 });
+    }
+    if (timeZone) {
+      try {
+        new Intl.DateTimeFormat("en-US", { timeZone });
+      } catch {
+        return NextResponse.json({ error: "Invalid timeZone" }, { status: 400 });
+      }
+    }
+
+    const report = await buildMoodCorrelationReport(session.user.id, { days, timeZone });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error analyzing mood correlations:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/mental-health/mood/correlations - Publish the strongest new findings as insights
+export async function POST() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const published = await publishMoodInsights(session.user.id);
+    return NextResponse.json({ published });
+  } catch (error) {
+    console.error("Error publishing mood insights:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { CRISIS_RESOURCES } from "@/lib/mental-health/assessments";
+import { getSafetyPlan, saveSafetyPlan } from "@/lib/mental-health/safety-plans";
+
+const ContactSchema = z.object({
+  name: z.string().max(300),
+  phone: z.string().max(300).optional(),
+  note: z.string().max(300).optional(),
+});
+
+// Blank rows are allowed here and dropped when the plan is normalized
+const SafetyPlanSchema = z.object({
+  warningSigns: z.array(z.string()).max(50).default([]),
+  copingStrategies: z.array(z.string()).max(50).default([]),
+  distractionContacts: z.array(ContactSchema).max(50).default([]),
+  distractionPlaces: z.array(z.string()).max(50).default([]),
+  helpContacts: z.array(ContactSchema).max(50).default([]),
+  professionalContacts: z.array(ContactSchema).max(50).default([]),
+  environmentSafety: z.array(z.string()).max(50).default([]),
+  reasonsForLiving: z.array(z.string()).max(50).default([]),
+});
+
+// GET /api/mental-health/safety-plan - The user's safety plan (null if none yet) and crisis lines
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const plan = await getSafetyPlan(session.user.id);
+    return NextResponse.json({ plan, resources: CRISIS_RESOURCES });
+  } catch (error) {
+    console.error("Error fetching safety plan:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// PUT /api/mental-health/safety-plan - Create or replace the user's safety plan
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = SafetyPlanSchema.parse(body);
+
+    const plan = await saveSafetyPlan(session.user.id, validatedData);
+    return NextResponse.json({ plan, resources: CRISIS_RESOURCES });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid input", details: error.errors }, { status: 400 });
+    }
+    console.error("Error saving safety plan:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
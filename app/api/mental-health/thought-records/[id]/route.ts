@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { UpdateThoughtRecordSchema } from "@/lib/mental-health/thought-record-schemas";
+
+const moodEntrySelect = { id: true, mood: true, createdAt: true };
+
+// GET /api/mental-health/thought-records/[id] - Get a thought record
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const thoughtRecord = await prisma.thoughtRecord.findFirst({
+      where: { id: params.id, userId: session.user.id },
+      include: { moodEntry: { select: moodEntrySelect } },
+    });
+    if (!thoughtRecord) {
+      return NextResponse.json({ error: "Thought record not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(thoughtRecord);
+  } catch (error) {
+    console.error("Error fetching thought record:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// PUT /api/mental-health/thought-records/[id] - Update a thought record, e.g. to re-rate the emotion
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = UpdateThoughtRecordSchema.parse(body);
+
+    const existing = await prisma.thoughtRecord.findFirst({
+      where: { id: params.id, userId: session.user.id },
+      select: { id: true },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Thought record not found" }, { status: 404 });
+    }
+
+    if (validatedData.moodEntryId) {
+      const moodEntry = await prisma.moodEntry.findFirst({
+        where: { id: validatedData.moodEntryId, userId: session.user.id },
+        select: { id: true },
+      });
+      if (!moodEntry) {
+        return NextResponse.json({ error: "Mood entry not found" }, { status: 404 });
+      }
+    }
+
+    const thoughtRecord = await prisma.thoughtRecord.update({
+      where: { id: params.id },
+      data: validatedData,
+      include: { moodEntry: { select: moodEntrySelect } },
+    });
+
+    return NextResponse.json(thoughtRecord);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid input", details: error.errors }, { status: 400 });
+    }
+    console.error("Error updating thought record:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/mental-health/thought-records/[id] - Delete a thought record
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { count } = await prisma.thoughtRecord.deleteMany({
+      where: { id: params.id, userId: session.user.id },
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: "Thought record not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting thought record:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { DISTORTION_IDS, DistortionId } from "@/lib/mental-health/thought-records";
+import { ThoughtRecordSchema } from "@/lib/mental-health/thought-record-schemas";
+
+const moodEntrySelect = { id: true, mood: true, createdAt: true };
+
+// GET /api/mental-health/thought-records - Thought record history, newest first
+// Query: page, limit, distortion (id), moodEntryId
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 100);
+    const distortion = searchParams.get("distortion");
+    const moodEntryId = searchParams.get("moodEntryId");
+    const skip = (page - 1) * limit;
+
+    if (distortion && !DISTORTION_IDS.includes(distortion as DistortionId)) {
+      return NextResponse.json({ error: "Unknown distortion" }, { status: 400 });
+    }
+
+    const where = {
+      userId: session.user.id,
+      ...(distortion && { distortions: { has: distortion } }),
+      ...(moodEntryId && { moodEntryId }),
+    };
+
+    const [thoughtRecords, total] = await Promise.all([
+      prisma.thoughtRecord.findMany({
+        where,
+        include: { moodEntry: { select: moodEntrySelect } },
+        orderBy: { createdAt: "desc" },
+        skip,
+        take: limit,
+      }),
+      prisma.thoughtRecord.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      thoughtRecords,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching thought records:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/mental-health/thought-records - Create a thought record
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = ThoughtRecordSchema.parse(body);
+
+    if (validatedData.moodEntryId) {
+      const moodEntry = await prisma.moodEntry.findFirst({
+        where: { id: validatedData.moodEntryId, userId: session.user.id },
+        select: { id: true },
+      });
+      if (!moodEntry) {
+        return NextResponse.json({ error: "Mood entry not found" }, { status: 404 });
+      }
+    }
+
+    const thoughtRecord = await prisma.thoughtRecord.create({
+      data: {
+        ...validatedData,
+        userId: session.user.id,
+      },
+      include: { moodEntry: { select: moodEntrySelect } },
+    });
+
+    return NextResponse.json(thoughtRecord, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid input", details: error.errors }, { status: 400 });
+    }
+    console.error("Error creating thought record:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/database";
+import { thoughtRecordStats } from "@/lib/mental-health/thought-records";
+
+// GET /api/mental-health/thought-records/stats - Distortion frequencies and average intensity change
+// Query: days (lookback; all records when omitted)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const daysParam = searchParams.get("days");
+    const days = daysParam ? parseInt(daysParam) : null;
+    if (days !== null && (isNaN(days) || days < 1 || days > 3650)) {
+      return NextResponse.json({ error: "days must be between 1 and 3650" }, { status: 400 });
+    }
+
+    const records = await prisma.thoughtRecord.findMany({
+      where: {
+        userId: session.user.id,
+        ...(days !== null && { createdAt: { gte: new Date(Date.now() - days * 24 * 60 * 60 * 1000) } }),
+      },
+      select: { distortions: true, intensityBefore: true, intensityAfter: true },
+    });
+
+    return NextResponse.json(thoughtRecordStats(records));
+  } catch (error) {
+    console.error("Error fetching thought record stats:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from "next/server";
 import { PrismaClient } from "@prisma/client";
 import bcrypt from "bcryptjs";
 import { ollamaClient } from "@/lib/ai/ollama-client";
+import { emitJournalCreated, sentimentFields } from "@/lib/journal/journal-events";
+import { checkJournalWrite } from "@/lib/journal/journal-keyring";
+import { lockBaseCurrency } from "@/lib/finance/exchange-rates";
+import { parseLogDate } from "@/lib/growth/habit-schedule";
+import { logHabit, todayForUser } from "@/lib/growth/habits";
 
 const prisma = new PrismaClient();
 
@@ -116,15 +121,18 @@ async function executeAction(userId: string, intent: string, payload: any): Prom
   try {
     switch (intent) {
       case "CREATE_TRANSACTION":
-        const transaction = await prisma.transaction.create({
-          data: {
-            userId: userId,
-            description: payload.description,
-            amount: parseFloat(payload.amount) || 0,
-            type: payload.type || "Expense",
-            category: payload.category || "Other",
-            date: new Date(),
-          },
+        const transaction = await prisma.$transaction(async(tx) => {
+          await lockBaseCurrency(tx, userId);
+          return tx.transaction.create({
+            data: {
+              userId: userId,
+              description: payload.description,
+              amount: parseFloat(payload.amount) || 0,
+              type: payload.type || "Expense",
+              category: payload.category || "Other",
+              date: new Date(),
+            },
+          });
         });
         return {
           success: true,
@@ -151,24 +159,9 @@ async function executeAction(userId: string, intent: string, payload: any): Prom
           });
         }
 
-        // Log the habit
-        const habitDate = payload.date ? new Date(payload.date) : new Date();
-        await prisma.habitLog.upsert({
-          where: {
-            habitId_date: {
-              habitId: habit.id,
-              date: habitDate,
-            },
-          },
-          update: {
-            isCompleted: true,
-          },
-          create: {
-            habitId: habit.id,
-            date: habitDate,
-            isCompleted: true,
-          },
-        });
+        // Log the habit; the date is a YYYY-MM-DD calendar day, today by default
+        const habitDate = (payload.date && parseLogDate(String(payload.date).slice(0, 10))) || await todayForUser(userId);
+        await logHabit(habit, habitDate);
 
         return {
           success: true,
@@ -176,14 +169,23 @@ async function executeAction(userId: string, intent: string, payload: any): Prom
         };
 
       case "CREATE_JOURNAL_ENTRY":
-        const journalEntry = await prisma.journalEntry.create({
-          data: {
-            userId: userId,
-            content: payload.content,
-            title: `Voice Entry - ${new Date().toLocaleDateString()}`,
-            tags: ["voice-entry"],
-          },
+        const voiceEntry = {
+          content: payload.content,
+          title: `Voice Entry - ${new Date().toLocaleDateString()}`,
+        };
+        // Dictated entries arrive as plaintext, which an encrypted journal won't take
+        const journalEntry = await prisma.$transaction(async(tx) => {
+          await checkJournalWrite(tx, userId, { isPrivate: true, keyVersion: null });
+          return tx.journalEntry.create({
+            data: {
+              userId: userId,
+              ...voiceEntry,
+              ...sentimentFields(voiceEntry),
+              tags: ["voice-entry"],
+            },
+          });
         });
+        emitJournalCreated(userId, journalEntry);
         return {
           success: true,
           message: `Successfully created journal entry: ${payload.content.substring(0, 50)}...`,
@@ -16,6 +16,7 @@ import {
 } from "lucide-react";
 import AutomationBuilder from "@/components/automations/AutomationBuilder";
 import AutomationList from "@/components/automations/AutomationList";
+import type { ExecutionTrace } from "@/lib/automation/trace";
 
 interface AutomationRoutine {
   id: string;
@@ -35,7 +36,9 @@ interface AutomationRoutine {
   logs: Array<{
     id: string;
     status: string;
-    message: string;
+    message?: string;
+    error?: string | null;
+    details?: ExecutionTrace | null;
     createdAt: string;
   }>;
   createdAt: string;
@@ -166,6 +169,25 @@ return;
     }
   };
 
+  // Simulate an automation against a sample event without side effects
+  const handleDryRun = async(id: string, event: { type: string; data?: any }): Promise<ExecutionTrace> => {
+    const response = await fetch(`/api/automations/${id}/dry-run`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ event }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to run simulation");
+    }
+
+    fetchRoutines();
+    return data.trace;
+  };
+
   // Edit automation routine
   const handleEditRoutine = (routine: AutomationRoutine) => {
     setEditingRoutine(routine);
@@ -355,6 +377,7 @@ return;
             onToggle={handleToggleRoutine}
             onEdit={handleEditRoutine}
             onDelete={handleDeleteRoutine}
+            onDryRun={handleDryRun}
           />
         </TabsContent>
 
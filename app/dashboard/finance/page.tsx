@@ -10,9 +10,17 @@ import BudgetTracker from "@/components/finance/BudgetTracker";
 import FinancialGoalCard from "@/components/finance/FinancialGoalCard";
 import FinanceDashboardChart from "@/components/finance/FinanceDashboardChart";
 import TransactionList from "@/components/finance/TransactionList";
+import StatementImport from "@/components/finance/StatementImport";
+import CategoryRules from "@/components/finance/CategoryRules";
+import CategoryConfidenceBadge from "@/components/finance/CategoryConfidenceBadge";
+import RecurringTransactions from "@/components/finance/RecurringTransactions";
+import SubscriptionList from "@/components/finance/SubscriptionList";
+import AccountList from "@/components/finance/AccountList";
+import type { CashFlowForecast } from "@/lib/finance/cash-flow-forecast";
 
 interface FinancialSummary {
   period: string;
+  baseCurrency: string;
   overview: {
     totalIncome: number;
     totalExpenses: number;
@@ -23,6 +31,7 @@ interface FinancialSummary {
   budgetProgress: any[];
   goalProgress: any[];
   recentTransactions: any[];
+  forecast?: CashFlowForecast;
   aiInsights: string;
 }
 
@@ -30,19 +39,21 @@ export default function FinanceDashboard() {
   const [summary, setSummary] = useState<FinancialSummary | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [period, setPeriod] = useState("month");
+  const [forecastDays, setForecastDays] = useState(90);
   const [showTransactionForm, setShowTransactionForm] = useState(false);
   const [showTransactionList, setShowTransactionList] = useState(false);
+  const [showStatementImport, setShowStatementImport] = useState(false);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
-      currency: "USD",
+      currency: summary?.baseCurrency || "USD",
     }).format(amount);
   };
 
   const fetchSummary = async() => {
     try {
-      const response = await fetch(`/api/finance/summary?period=${period}`);
+      const response = await fetch(`/api/finance/summary?period=${period}&forecast=${forecastDays}`);
       if (response.ok) {
         const data = await response.json();
         setSummary(data);
@@ -56,7 +67,7 @@ export default function FinanceDashboard() {
 
   useEffect(() => {
     fetchSummary();
-  }, [period]);
+  }, [period, forecastDays]);
 
   const handleTransactionAdded = () => {
     fetchSummary();
@@ -116,6 +127,9 @@ export default function FinanceDashboard() {
               <SelectItem value="year">This Year</SelectItem>
             </SelectContent>
           </Select>
+          <Button variant="outline" onClick={() => setShowStatementImport(true)}>
+            Import Statement
+          </Button>
           <Button onClick={() => setShowTransactionForm(true)}>
             + Add Transaction
           </Button>
@@ -199,8 +213,18 @@ export default function FinanceDashboard() {
               expensesByCategory={summary.expensesByCategory}
               recentTransactions={summary.recentTransactions}
               period={period}
+              forecast={summary.forecast}
+              forecastDays={forecastDays}
+              onForecastDaysChange={setForecastDays}
             />
-            <BudgetTracker budgets={summary.budgetProgress} />
+            <BudgetTracker budgets={summary.budgetProgress} onChanged={fetchSummary} />
+          </div>
+
+          {/* Accounts, Recurring and Subscriptions */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <AccountList onChanged={fetchSummary} />
+            <RecurringTransactions />
+            <SubscriptionList />
           </div>
 
           {/* Financial Goals */}
@@ -252,6 +276,7 @@ export default function FinanceDashboard() {
                 pagination={{ page: 1, limit: 10, total: summary.recentTransactions.length, pages: 1 }}
                 onPageChange={() => {}}
                 onFilterChange={() => {}}
+                currency={summary.baseCurrency}
               />
             ) : (
               <Card>
@@ -268,8 +293,12 @@ export default function FinanceDashboard() {
                           </div>
                           <div>
                             <p className="font-medium">{transaction.description}</p>
-                            <p className="text-sm text-muted-foreground">
+                            <p className="text-sm text-muted-foreground flex items-center gap-2">
                               {new Date(transaction.date).toLocaleDateString()} • {transaction.category}
+                              <CategoryConfidenceBadge
+                                source={transaction.categorySource}
+                                confidence={transaction.categoryConfidence}
+                              />
                             </p>
                           </div>
                         </div>
@@ -286,6 +315,9 @@ export default function FinanceDashboard() {
               </Card>
             )}
           </div>
+
+          {/* Auto-categorization */}
+          <CategoryRules onRecategorized={fetchSummary} />
         </>
       )}
 
@@ -295,6 +327,13 @@ export default function FinanceDashboard() {
         onClose={() => setShowTransactionForm(false)}
         onSubmit={handleTransactionAdded}
       />
+
+      {/* Statement Import Modal */}
+      <StatementImport
+        isOpen={showStatementImport}
+        onClose={() => setShowStatementImport(false)}
+        onImported={handleTransactionAdded}
+      />
     </div>
   );
 }
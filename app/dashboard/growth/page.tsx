@@ -3,9 +3,12 @@
 import React, { useState } from "react";
 import HabitTracker from "@/components/growth/HabitTracker";
 import SkillDashboard from "@/components/growth/SkillDashboard";
+import FlashcardDecks from "@/components/growth/FlashcardDecks";
+import HabitsAtRiskWidget from "@/components/dashboard/HabitsAtRiskWidget";
 
 const GrowthHubPage: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<"habits" | "skills">("habits");
+  const [activeTab, setActiveTab] = useState<"habits" | "skills" | "flashcards">("habits");
+  const [trackerKey, setTrackerKey] = useState(0);
 
   return (
     <div className="min-h-screen bg-gray-950 text-white">
@@ -21,6 +24,10 @@ const GrowthHubPage: React.FC = () => {
           </p>
         </div>
 
+        <div className="max-w-7xl mx-auto mb-8">
+          <HabitsAtRiskWidget onLogged={() => setTrackerKey((key) => key + 1)} />
+        </div>
+
         {/* Navigation Tabs */}
         <div className="flex justify-center mb-8">
           <div className="bg-gray-800 rounded-lg p-1">
@@ -44,6 +51,16 @@ const GrowthHubPage: React.FC = () => {
             >
               🎯 Skill Development
             </button>
+            <button
+              onClick={() => setActiveTab("flashcards")}
+              className={`px-6 py-3 rounded-lg font-medium transition-colors ${
+                activeTab === "flashcards"
+                  ? "bg-purple-600 text-white"
+                  : "text-gray-300 hover:text-white hover:bg-gray-700"
+              }`}
+            >
+              🧠 Flashcards
+            </button>
           </div>
         </div>
 
@@ -59,10 +76,10 @@ const GrowthHubPage: React.FC = () => {
                     Build positive habits and track your daily progress. Click on any day to mark your habit as complete.
                   </p>
                 </div>
-                <HabitTracker />
+                <HabitTracker key={trackerKey} />
               </div>
             </div>
-          ) : (
+          ) : activeTab === "skills" ? (
             <div>
               <div className="bg-gray-900 rounded-xl p-8 mb-8">
                 <div className="text-center mb-8">
@@ -75,6 +92,19 @@ const GrowthHubPage: React.FC = () => {
                 <SkillDashboard />
               </div>
             </div>
+          ) : (
+            <div>
+              <div className="bg-gray-900 rounded-xl p-8 mb-8">
+                <div className="text-center mb-8">
+                  <div className="text-6xl mb-4">🧠</div>
+                  <h2 className="text-3xl font-bold mb-4">Flashcards</h2>
+                  <p className="text-gray-400">
+                    Retain what you learn with spaced repetition. Reviews feed your skills&apos; mastery levels.
+                  </p>
+                </div>
+                <FlashcardDecks />
+              </div>
+            </div>
           )}
         </div>
 
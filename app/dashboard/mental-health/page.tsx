@@ -1,17 +1,22 @@
 "use client";
 
 import React, { useState } from "react";
+import { useRouter } from "next/navigation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Heart, TrendingUp, BookOpen, ClipboardList, Brain, Activity, Moon, Sparkles } from "lucide-react";
+import { Heart, TrendingUp, BookOpen, ClipboardList, Brain, Activity, Moon, Sparkles, ShieldCheck, PenLine } from "lucide-react";
 import DailyMoodTracker from "@/components/mental-health/DailyMoodTracker";
 import MoodHistoryChart from "@/components/mental-health/MoodHistoryChart";
 import ResourceLibrary from "@/components/mental-health/ResourceLibrary";
 import AssessmentWizard from "@/components/mental-health/AssessmentWizard";
+import AssessmentTrends from "@/components/mental-health/AssessmentTrends";
+import { SAFETY_PLAN_PATH } from "@/lib/mental-health/safety-plan";
+import { THOUGHT_RECORD_PATH } from "@/lib/mental-health/thought-records";
 
 export default function MentalHealthDashboard() {
+  const router = useRouter();
   const [activeTab, setActiveTab] = useState("overview");
 
   const stats = [
@@ -55,7 +60,7 @@ export default function MentalHealthDashboard() {
     },
     {
       title: "Take Assessment",
-      description: "PHQ-9 or GAD-7 screening",
+      description: "PHQ-9, GAD-7, PSS-10 or WHO-5",
       icon: ClipboardList,
       action: () => setActiveTab("assessment"),
       color: "bg-purple-50 border-purple-200 hover:bg-purple-100",
@@ -67,6 +72,20 @@ export default function MentalHealthDashboard() {
       action: () => setActiveTab("resources"),
       color: "bg-green-50 border-green-200 hover:bg-green-100",
     },
+    {
+      title: "Thought Record",
+      description: "Work through an upsetting thought",
+      icon: PenLine,
+      action: () => router.push(THOUGHT_RECORD_PATH),
+      color: "bg-amber-50 border-amber-200 hover:bg-amber-100",
+    },
+    {
+      title: "My Safety Plan",
+      description: "Steps and contacts for hard moments",
+      icon: ShieldCheck,
+      action: () => router.push(SAFETY_PLAN_PATH),
+      color: "bg-blue-50 border-blue-200 hover:bg-blue-100",
+    },
   ];
 
   return (
@@ -111,7 +130,7 @@ export default function MentalHealthDashboard() {
           <CardTitle>Quick Actions</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
             {quickActions.map((action) => {
               const Icon = action.icon;
               return (
@@ -192,6 +211,7 @@ export default function MentalHealthDashboard() {
 
         <TabsContent value="assessment" className="space-y-6">
           <AssessmentWizard />
+          <AssessmentTrends />
         </TabsContent>
       </Tabs>
 
@@ -0,0 +1,22 @@
+import { Metadata } from "next";
+import SafetyPlanEditor from "@/components/mental-health/SafetyPlanEditor";
+
+export const metadata: Metadata = {
+  title: "Safety Plan - AI Life Companion",
+  description: "Build a personal safety plan for difficult moments",
+};
+
+export default function SafetyPlanPage() {
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">My Safety Plan</h1>
+        <p className="text-muted-foreground">
+          Work through these steps while you feel calm, so you know what to do if a crisis starts. In a crisis,
+          go through them in order until you feel safe.
+        </p>
+      </div>
+      <SafetyPlanEditor />
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { Metadata } from "next";
+import SafetyPlanQuickView from "@/components/mental-health/SafetyPlanQuickView";
+
+export const metadata: Metadata = {
+  title: "My Safety Plan - AI Life Companion",
+  description: "Quick access to your safety plan, available offline",
+};
+
+export default function SafetyPlanQuickPage() {
+  return (
+    <div className="container mx-auto p-4 max-w-2xl space-y-4">
+      <h1 className="text-2xl font-bold">My Safety Plan</h1>
+      <SafetyPlanQuickView />
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import React, { useState } from "react";
+import ThoughtRecordForm from "@/components/mental-health/ThoughtRecordForm";
+import ThoughtRecordHistory from "@/components/mental-health/ThoughtRecordHistory";
+
+// ?moodEntryId= links the new record to the mood check-in that prompted it
+export default function ThoughtRecordsPage({ searchParams }: { searchParams: { moodEntryId?: string } }) {
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Thought Records</h1>
+        <p className="text-muted-foreground">
+          Slow down an upsetting thought, look at the evidence and find a more balanced way to see it
+        </p>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+        <ThoughtRecordForm moodEntryId={searchParams.moodEntryId} onSaved={() => setRefreshKey((key) => key + 1)} />
+        <ThoughtRecordHistory refreshKey={refreshKey} />
+      </div>
+    </div>
+  );
+}
@@ -333,10 +333,7 @@ return "text-yellow-500";
 
               {activeMode === "educator" && (
                 <div className="h-full">
-                  <EducationalInterface
-                    userId={userId}
-                    onCourseSelect={handleCourseSelect}
-                  />
+                  <EducationalInterface onCourseSelect={handleCourseSelect} />
                 </div>
               )}
 
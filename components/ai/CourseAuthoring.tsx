@@ -0,0 +1,240 @@
+"use client";
+
+import React, { useState, useEffect, useRef } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { Course } from "@/lib/education/lms-system";
+import CourseEditor from "./CourseEditor";
+import { BookOpen, Edit, FolderOpen, Plus, Trash2, Upload } from "lucide-react";
+
+interface CourseAuthoringProps {
+  onCoursesChanged?: () => void; // Lets the catalogue pick up new or edited courses
+}
+
+interface ImportResult {
+  course: Course;
+  format: "scorm" | "imscc" | "markdown";
+  warnings: string[];
+}
+
+const FORMAT_LABELS: Record<ImportResult["format"], string> = {
+  scorm: "SCORM 1.2",
+  imscc: "IMS Common Cartridge",
+  markdown: "Markdown folder",
+};
+
+// Non-standard attribute for picking a whole folder, not in React's input typings
+const FOLDER_INPUT_PROPS = { webkitdirectory: "", directory: "" } as Record<string, string>;
+
+const CourseAuthoring: React.FC<CourseAuthoringProps> = ({ onCoursesChanged }) => {
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [editing, setEditing] = useState<Course | "new" | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const packageInput = useRef<HTMLInputElement>(null);
+  const folderInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetchCourses();
+  }, []);
+
+  const fetchCourses = async() => {
+    try {
+      const response = await fetch("/api/learning/courses?authored=true");
+      if (response.ok) {
+        const data: { courses: Course[] } = await response.json();
+        setCourses(data.courses);
+      }
+    } catch (error) {
+      console.error("Error fetching authored courses:", error);
+    }
+  };
+
+  const refresh = () => {
+    fetchCourses();
+    if (onCoursesChanged) {
+      onCoursesChanged();
+    }
+  };
+
+  const uploadCourse = async(formData: FormData) => {
+    setImporting(true);
+    setImportError(null);
+    setImportResult(null);
+    try {
+      const response = await fetch("/api/learning/courses/import", {
+        method: "POST",
+        body: formData,
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Import failed: ${response.status}`);
+      }
+      setImportResult(data);
+      refresh();
+    } catch (error) {
+      console.error("Error importing course:", error);
+      setImportError(error instanceof Error ? error.message : "Import failed");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const importPackage = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append("file", file);
+    uploadCourse(formData);
+  };
+
+  const importFolder = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0) {
+      return;
+    }
+
+    // The relative path carries the module structure
+    const formData = new FormData();
+    for (const file of files) {
+      formData.append("files", file, file.webkitRelativePath || file.name);
+    }
+    uploadCourse(formData);
+  };
+
+  const deleteCourse = async(course: Course) => {
+    if (!confirm(`Delete "${course.title}"? Enrollments and assessment attempts are deleted with it.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/learning/courses/${course.id}`, { method: "DELETE" });
+      if (response.ok) {
+        refresh();
+      }
+    } catch (error) {
+      console.error("Error deleting course:", error);
+    }
+  };
+
+  if (editing) {
+    return (
+      <CourseEditor
+        course={editing === "new" ? undefined : editing}
+        onSaved={() => {
+          setEditing(null);
+          refresh();
+        }}
+        onCancel={() => setEditing(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Course Authoring</h2>
+            <p className="text-sm text-gray-600">
+              Write a course, or import a SCORM 1.2 / IMS Common Cartridge package or a folder of Markdown files.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={() => setEditing("new")}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Course
+            </Button>
+            <Button variant="outline" onClick={() => packageInput.current?.click()} disabled={importing}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import Package
+            </Button>
+            <Button variant="outline" onClick={() => folderInput.current?.click()} disabled={importing}>
+              <FolderOpen className="w-4 h-4 mr-2" />
+              Import Markdown Folder
+            </Button>
+            <input
+              ref={packageInput}
+              type="file"
+              accept=".zip,.imscc"
+              onChange={importPackage}
+              className="hidden"
+            />
+            <input
+              ref={folderInput}
+              type="file"
+              multiple
+              onChange={importFolder}
+              className="hidden"
+              {...FOLDER_INPUT_PROPS}
+            />
+          </div>
+        </div>
+
+        {importing && <p className="text-sm text-gray-600">Importing course...</p>}
+        {importError && <p className="text-sm text-red-600">{importError}</p>}
+        {importResult && (
+          <div className="rounded-md bg-green-50 border border-green-200 p-3 text-sm space-y-1">
+            <p className="text-green-800">
+              Imported &quot;{importResult.course.title}&quot; from a {FORMAT_LABELS[importResult.format]}:{" "}
+              {importResult.course.modules.length} modules.
+            </p>
+            {importResult.warnings.map((warning, index) => (
+              <p key={index} className="text-yellow-800">⚠️ {warning}</p>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {courses.map(course => (
+          <Card key={course.id} className="p-6">
+            <div className="flex items-start justify-between mb-3">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">{course.title}</h3>
+                <p className="text-sm text-gray-600">{course.subject}</p>
+              </div>
+              <Badge variant="outline">{course.level}</Badge>
+            </div>
+            <div className="flex items-center space-x-4 text-sm text-gray-500 mb-4">
+              <div className="flex items-center space-x-1">
+                <BookOpen className="w-4 h-4" />
+                <span>{course.modules.length} modules</span>
+              </div>
+              <span>
+                {course.modules.reduce((sum, module) => sum + module.assessments.reduce((n, a) => n + a.questions.length, 0), 0)} questions
+              </span>
+            </div>
+            <div className="flex space-x-2">
+              <Button variant="outline" className="flex-1" onClick={() => setEditing(course)}>
+                <Edit className="w-4 h-4 mr-2" />
+                Edit
+              </Button>
+              <Button variant="outline" onClick={() => deleteCourse(course)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </Card>
+        ))}
+      </div>
+
+      {courses.length === 0 && (
+        <div className="text-center py-12">
+          <BookOpen className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No courses authored yet</h3>
+          <p className="text-gray-600">Start from scratch or import existing course content.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CourseAuthoring;
@@ -0,0 +1,563 @@
+"use client";
+
+import React, { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import type {
+  Assessment,
+  Course,
+  CourseDraft,
+  LearningMaterial,
+  Lesson,
+  Module,
+  Question,
+} from "@/lib/education/lms-system";
+import { ChevronDown, ChevronUp, Plus, Save, Trash2 } from "lucide-react";
+
+interface CourseEditorProps {
+  course?: Course; // Omitted when writing a new course
+  onSaved: (course: Course) => void;
+  onCancel: () => void;
+}
+
+const SELECT_CLASS = "px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500";
+
+// Questions need a stable id for grading; the server assigns everything else
+const newQuestionId = () => `q-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const emptyLesson = (order: number): Lesson => ({
+  id: "", title: "New lesson", content: "", type: "lecture", materials: [], objectives: [], duration: 15, order,
+});
+
+const emptyAssessment = (order: number): Assessment => ({
+  id: "", title: "New quiz", type: "quiz", questions: [], passingScore: 70, order,
+});
+
+const emptyModule = (order: number): Module => ({
+  id: "", title: "New module", description: "", lessons: [], assessments: [], order, estimatedDuration: 0,
+});
+
+const emptyDraft = (): CourseDraft => ({
+  title: "",
+  description: "",
+  subject: "",
+  level: "beginner",
+  modules: [],
+  prerequisites: [],
+  estimatedDuration: 1,
+  difficulty: 3,
+  tags: [],
+});
+
+const toDraft = (course: Course): CourseDraft => ({
+  title: course.title,
+  description: course.description,
+  subject: course.subject,
+  level: course.level,
+  gradeLevel: course.gradeLevel,
+  modules: course.modules,
+  prerequisites: course.prerequisites,
+  estimatedDuration: course.estimatedDuration,
+  difficulty: course.difficulty,
+  tags: course.tags,
+});
+
+const splitList = (value: string) => value.split(",").map(item => item.trim()).filter(Boolean);
+const splitLines = (value: string) => value.split("\n").map(item => item.trim()).filter(Boolean);
+
+function move<T>(items: T[], index: number, offset: number): T[] {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) {
+    return items;
+  }
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+// Order follows position in the editor
+const renumber = <T extends { order: number }>(items: T[]) => items.map((item, index) => ({ ...item, order: index + 1 }));
+
+const CourseEditor: React.FC<CourseEditorProps> = ({ course, onSaved, onCancel }) => {
+  const [draft, setDraft] = useState<CourseDraft>(() => (course ? toDraft(course) : emptyDraft()));
+  const [openModule, setOpenModule] = useState<number | null>(0);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateModules = (update: (modules: Module[]) => Module[]) => {
+    setDraft(prev => ({ ...prev, modules: renumber(update(prev.modules)) }));
+  };
+
+  const updateModule = (index: number, patch: Partial<Module>) => {
+    updateModules(modules => modules.map((module, i) => (i === index ? { ...module, ...patch } : module)));
+  };
+
+  const updateLesson = (moduleIndex: number, lessonIndex: number, patch: Partial<Lesson>) => {
+    const courseModule = draft.modules[moduleIndex];
+    updateModule(moduleIndex, {
+      lessons: courseModule.lessons.map((lesson, i) => (i === lessonIndex ? { ...lesson, ...patch } : lesson)),
+    });
+  };
+
+  const updateAssessment = (moduleIndex: number, assessmentIndex: number, patch: Partial<Assessment>) => {
+    const courseModule = draft.modules[moduleIndex];
+    updateModule(moduleIndex, {
+      assessments: courseModule.assessments.map((assessment, i) => (i === assessmentIndex ? { ...assessment, ...patch } : assessment)),
+    });
+  };
+
+  const saveCourse = async() => {
+    if (!draft.title.trim() || !draft.subject.trim()) {
+      setError("A course needs a title and a subject");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const modules = draft.modules.map(module => ({
+        ...module,
+        estimatedDuration: module.lessons.reduce((sum, lesson) => sum + lesson.duration, 0),
+      }));
+      const response = await fetch(course ? `/api/learning/courses/${course.id}` : "/api/learning/courses", {
+        method: course ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ...draft, modules }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to save course: ${response.status}`);
+      }
+      onSaved(data);
+    } catch (error) {
+      console.error("Error saving course:", error);
+      setError(error instanceof Error ? error.message : "Failed to save course");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderMaterials = (moduleIndex: number, lessonIndex: number, materials: LearningMaterial[]) => {
+    const setMaterials = (next: LearningMaterial[]) => updateLesson(moduleIndex, lessonIndex, { materials: next });
+
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-700">Materials</span>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setMaterials([...materials, { id: "", type: "document", title: "New material", content: "" }])}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Material
+          </Button>
+        </div>
+        {materials.map((material, index) => (
+          <div key={index} className="grid grid-cols-1 md:grid-cols-[8rem_1fr_1fr_auto] gap-2">
+            <select
+              value={material.type}
+              onChange={(e) => setMaterials(materials.map((m, i) => (i === index ? { ...m, type: e.target.value as LearningMaterial["type"] } : m)))}
+              className={SELECT_CLASS}
+            >
+              {["text", "video", "audio", "image", "interactive", "document", "simulation"].map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+            <Input
+              value={material.title}
+              placeholder="Title"
+              onChange={(e) => setMaterials(materials.map((m, i) => (i === index ? { ...m, title: e.target.value } : m)))}
+            />
+            <Input
+              value={material.url || ""}
+              placeholder="https://"
+              onChange={(e) => setMaterials(materials.map((m, i) => (i === index ? { ...m, url: e.target.value || undefined } : m)))}
+            />
+            <Button size="icon" variant="ghost" onClick={() => setMaterials(materials.filter((_, i) => i !== index))}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderQuestions = (moduleIndex: number, assessmentIndex: number, questions: Question[]) => {
+    const setQuestions = (next: Question[]) => updateAssessment(moduleIndex, assessmentIndex, { questions: next });
+    const setQuestion = (index: number, patch: Partial<Question>) => {
+      setQuestions(questions.map((q, i) => (i === index ? { ...q, ...patch } : q)));
+    };
+
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-700">Question bank ({questions.length})</span>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setQuestions([
+              ...questions,
+              { id: newQuestionId(), type: "multiple-choice", question: "", options: ["", ""], correctAnswer: "", points: 1 },
+            ])}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Question
+          </Button>
+        </div>
+        {questions.map((question, index) => (
+          <div key={question.id} className="border border-gray-200 rounded-md p-3 space-y-2">
+            <div className="flex gap-2">
+              <select
+                value={question.type}
+                onChange={(e) => setQuestion(index, { type: e.target.value as Question["type"] })}
+                className={SELECT_CLASS}
+              >
+                {["multiple-choice", "true-false", "short-answer", "essay", "matching", "fill-blank"].map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+              <Input
+                type="number"
+                min={0}
+                value={question.points}
+                onChange={(e) => setQuestion(index, { points: Number(e.target.value) || 0 })}
+                className="w-24"
+                title="Points"
+              />
+              <Button size="icon" variant="ghost" onClick={() => setQuestions(questions.filter((_, i) => i !== index))}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            <Textarea
+              value={question.question}
+              placeholder="Question"
+              onChange={(e) => setQuestion(index, { question: e.target.value })}
+            />
+            {(question.type === "multiple-choice" || question.type === "matching") && (
+              <Textarea
+                value={(question.options || []).join("\n")}
+                placeholder="One option per line"
+                onChange={(e) => setQuestion(index, { options: e.target.value.split("\n") })}
+              />
+            )}
+            {question.type !== "essay" && (
+              <Input
+                value={Array.isArray(question.correctAnswer) ? question.correctAnswer.join(" | ") : question.correctAnswer}
+                placeholder="Correct answer (separate several with |)"
+                onChange={(e) => {
+                  const answers = e.target.value.split("|").map(answer => answer.trim());
+                  setQuestion(index, { correctAnswer: answers.length > 1 ? answers : e.target.value });
+                }}
+              />
+            )}
+            <Input
+              value={question.explanation || ""}
+              placeholder="Explanation shown after grading"
+              onChange={(e) => setQuestion(index, { explanation: e.target.value || undefined })}
+            />
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderModule = (module: Module, moduleIndex: number) => (
+    <div className="space-y-4">
+      <Textarea
+        value={module.description}
+        placeholder="Module description"
+        onChange={(e) => updateModule(moduleIndex, { description: e.target.value })}
+      />
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium text-gray-900">Lessons</h4>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => updateModule(moduleIndex, { lessons: renumber([...module.lessons, emptyLesson(0)]) })}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Lesson
+          </Button>
+        </div>
+        {module.lessons.map((lesson, lessonIndex) => (
+          <Card key={lesson.id || `new-${lessonIndex}`} className="p-4 space-y-3">
+            <div className="flex gap-2">
+              <Input
+                value={lesson.title}
+                onChange={(e) => updateLesson(moduleIndex, lessonIndex, { title: e.target.value })}
+              />
+              <select
+                value={lesson.type}
+                onChange={(e) => updateLesson(moduleIndex, lessonIndex, { type: e.target.value as Lesson["type"] })}
+                className={SELECT_CLASS}
+              >
+                {["lecture", "interactive", "hands-on", "discussion", "quiz"].map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+              <Input
+                type="number"
+                min={0}
+                value={lesson.duration}
+                onChange={(e) => updateLesson(moduleIndex, lessonIndex, { duration: Number(e.target.value) || 0 })}
+                className="w-24"
+                title="Minutes"
+              />
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => updateModule(moduleIndex, { lessons: renumber(move(module.lessons, lessonIndex, -1)) })}
+              >
+                <ChevronUp className="w-4 h-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => updateModule(moduleIndex, { lessons: renumber(move(module.lessons, lessonIndex, 1)) })}
+              >
+                <ChevronDown className="w-4 h-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => updateModule(moduleIndex, { lessons: renumber(module.lessons.filter((_, i) => i !== lessonIndex)) })}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            <Textarea
+              value={lesson.content}
+              placeholder="Lesson content (Markdown)"
+              rows={6}
+              onChange={(e) => updateLesson(moduleIndex, lessonIndex, { content: e.target.value })}
+            />
+            <Textarea
+              value={lesson.objectives.join("\n")}
+              placeholder="Objectives, one per line"
+              onChange={(e) => updateLesson(moduleIndex, lessonIndex, { objectives: splitLines(e.target.value) })}
+            />
+            {renderMaterials(moduleIndex, lessonIndex, lesson.materials)}
+          </Card>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium text-gray-900">Assessments</h4>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => updateModule(moduleIndex, { assessments: renumber([...module.assessments, emptyAssessment(0)]) })}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Assessment
+          </Button>
+        </div>
+        {module.assessments.map((assessment, assessmentIndex) => (
+          <Card key={assessment.id || `new-${assessmentIndex}`} className="p-4 space-y-3">
+            <div className="flex gap-2">
+              <Input
+                value={assessment.title}
+                onChange={(e) => updateAssessment(moduleIndex, assessmentIndex, { title: e.target.value })}
+              />
+              <select
+                value={assessment.type}
+                onChange={(e) => updateAssessment(moduleIndex, assessmentIndex, { type: e.target.value as Assessment["type"] })}
+                className={SELECT_CLASS}
+              >
+                {["quiz", "assignment", "project", "exam"].map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={assessment.passingScore}
+                onChange={(e) => updateAssessment(moduleIndex, assessmentIndex, { passingScore: Number(e.target.value) || 0 })}
+                className="w-24"
+                title="Passing score (%)"
+              />
+              <Input
+                type="number"
+                min={1}
+                value={assessment.timeLimit ?? ""}
+                placeholder="No limit"
+                onChange={(e) => updateAssessment(moduleIndex, assessmentIndex, { timeLimit: Number(e.target.value) || undefined })}
+                className="w-28"
+                title="Time limit (minutes)"
+              />
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => updateModule(moduleIndex, {
+                  assessments: renumber(module.assessments.filter((_, i) => i !== assessmentIndex)),
+                })}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            {renderQuestions(moduleIndex, assessmentIndex, assessment.questions)}
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">{course ? "Edit Course" : "New Course"}</h2>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={saveCourse} disabled={saving}>
+              <Save className="w-4 h-4 mr-2" />
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            value={draft.title}
+            placeholder="Course title"
+            onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+          />
+          <Input
+            value={draft.subject}
+            placeholder="Subject"
+            onChange={(e) => setDraft(prev => ({ ...prev, subject: e.target.value }))}
+          />
+        </div>
+        <Textarea
+          value={draft.description}
+          placeholder="Description"
+          onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+        />
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <select
+            value={draft.level}
+            onChange={(e) => setDraft(prev => ({ ...prev, level: e.target.value as Course["level"] }))}
+            className={SELECT_CLASS}
+          >
+            <option value="beginner">Beginner</option>
+            <option value="intermediate">Intermediate</option>
+            <option value="advanced">Advanced</option>
+            <option value="expert">Expert</option>
+          </select>
+          <select
+            value={draft.gradeLevel || ""}
+            onChange={(e) => setDraft(prev => ({ ...prev, gradeLevel: (e.target.value || undefined) as Course["gradeLevel"] }))}
+            className={SELECT_CLASS}
+          >
+            <option value="">No grade level</option>
+            <option value="kindergarten">Kindergarten</option>
+            <option value="elementary">Elementary</option>
+            <option value="middle">Middle School</option>
+            <option value="high">High School</option>
+            <option value="college">College</option>
+            <option value="graduate">Graduate</option>
+          </select>
+          <Input
+            type="number"
+            min={0}
+            value={draft.estimatedDuration}
+            onChange={(e) => setDraft(prev => ({ ...prev, estimatedDuration: Number(e.target.value) || 0 }))}
+            title="Estimated hours"
+          />
+          <Input
+            type="number"
+            min={1}
+            max={10}
+            value={draft.difficulty}
+            onChange={(e) => setDraft(prev => ({ ...prev, difficulty: Math.min(10, Math.max(1, Number(e.target.value) || 1)) }))}
+            title="Difficulty (1-10)"
+          />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            defaultValue={draft.tags.join(", ")}
+            placeholder="Tags, comma-separated"
+            onBlur={(e) => setDraft(prev => ({ ...prev, tags: splitList(e.target.value) }))}
+          />
+          <Input
+            defaultValue={draft.prerequisites.join(", ")}
+            placeholder="Prerequisites, comma-separated"
+            onBlur={(e) => setDraft(prev => ({ ...prev, prerequisites: splitList(e.target.value) }))}
+          />
+        </div>
+      </Card>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Modules</h3>
+          <Button
+            variant="outline"
+            onClick={() => {
+              updateModules(modules => [...modules, emptyModule(0)]);
+              setOpenModule(draft.modules.length);
+            }}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Module
+          </Button>
+        </div>
+
+        {draft.modules.map((module, moduleIndex) => (
+          <Card key={module.id || `new-${moduleIndex}`} className="p-4 space-y-4">
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-500 w-6">{moduleIndex + 1}.</span>
+              <Input
+                value={module.title}
+                onChange={(e) => updateModule(moduleIndex, { title: e.target.value })}
+              />
+              <span className="text-xs text-gray-500 whitespace-nowrap">
+                {module.lessons.length} lessons, {module.assessments.length} assessments
+              </span>
+              <Button size="icon" variant="ghost" onClick={() => updateModules(modules => move(modules, moduleIndex, -1))}>
+                <ChevronUp className="w-4 h-4" />
+              </Button>
+              <Button size="icon" variant="ghost" onClick={() => updateModules(modules => move(modules, moduleIndex, 1))}>
+                <ChevronDown className="w-4 h-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => updateModules(modules => modules.filter((_, i) => i !== moduleIndex))}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setOpenModule(openModule === moduleIndex ? null : moduleIndex)}
+              >
+                {openModule === moduleIndex ? "Collapse" : "Edit"}
+              </Button>
+            </div>
+            {openModule === moduleIndex && renderModule(module, moduleIndex)}
+          </Card>
+        ))}
+
+        {draft.modules.length === 0 && (
+          <p className="text-center text-gray-500 py-8">No modules yet. Add one to start writing lessons.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CourseEditor;
@@ -6,23 +6,21 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { LMSSystem, Course, StudentProgress } from "@/lib/education/lms-system";
+import type { Course, StudentProgress } from "@/lib/education/lms-system";
+import CourseAuthoring from "./CourseAuthoring";
 import { BookOpen, GraduationCap, Target, Clock, Star, Play, CheckCircle, Award } from "lucide-react";
 
 interface EducationalInterfaceProps {
-  userId: string;
   onCourseSelect?: (course: Course) => void;
 }
 
 const EducationalInterface: React.FC<EducationalInterfaceProps> = ({
-  userId,
   onCourseSelect,
 }) => {
-  const [lmsSystem] = useState(() => new LMSSystem());
   const [courses, setCourses] = useState<Course[]>([]);
   const [enrolledCourses, setEnrolledCourses] = useState<Course[]>([]);
   const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
-  const [studentProgress, setStudentProgress] = useState<StudentProgress | null>(null);
+  const [progressByCourse, setProgressByCourse] = useState<Record<string, StudentProgress>>({});
   const [recommendations, setRecommendations] = useState<{ courses: Course[]; reasons: string[] }>({ courses: [], reasons: [] });
   const [loading, setLoading] = useState(true);
   const [filters, setFilters] = useState({
@@ -38,18 +36,17 @@ const EducationalInterface: React.FC<EducationalInterfaceProps> = ({
 
   const loadCourses = async() => {
     try {
-      const allCourses = await lmsSystem.getCourses();
-      setCourses(allCourses);
+      const response = await fetch("/api/learning/courses");
+      if (!response.ok) {
+        throw new Error(`Failed to load courses: ${response.status}`);
+      }
+      const data: { courses: Course[]; enrollments: StudentProgress[] } = await response.json();
+      setCourses(data.courses);
 
       // Load enrolled courses
-      const enrolled: Course[] = [];
-      for (const course of allCourses) {
-        const progress = await lmsSystem.getStudentProgress(userId, course.id);
-        if (progress) {
-          enrolled.push(course);
-        }
-      }
-      setEnrolledCourses(enrolled);
+      const progress = Object.fromEntries(data.enrollments.map(p => [p.courseId, p]));
+      setProgressByCourse(progress);
+      setEnrolledCourses(data.courses.filter(course => progress[course.id]));
     } catch (error) {
       console.error("Failed to load courses:", error);
     } finally {
@@ -59,8 +56,10 @@ const EducationalInterface: React.FC<EducationalInterfaceProps> = ({
 
   const loadRecommendations = async() => {
     try {
-      const recs = await lmsSystem.generatePersonalizedRecommendations(userId);
-      setRecommendations(recs);
+      const response = await fetch("/api/learning/recommendations");
+      if (response.ok) {
+        setRecommendations(await response.json());
+      }
     } catch (error) {
       console.error("Failed to load recommendations:", error);
     }
@@ -68,8 +67,13 @@ const EducationalInterface: React.FC<EducationalInterfaceProps> = ({
 
   const enrollInCourse = async(course: Course) => {
     try {
-      await lmsSystem.enrollStudent(userId, course.id);
-      setEnrolledCourses(prev => [...prev, course]);
+      const response = await fetch(`/api/learning/courses/${course.id}/enroll`, { method: "POST" });
+      if (!response.ok) {
+        throw new Error(`Failed to enroll: ${response.status}`);
+      }
+      const progress: StudentProgress = await response.json();
+      setProgressByCourse(prev => ({ ...prev, [course.id]: progress }));
+      setEnrolledCourses(prev => (prev.some(c => c.id === course.id) ? prev : [...prev, course]));
       setSelectedCourse(course);
 
       if (onCourseSelect) {
@@ -82,8 +86,13 @@ const EducationalInterface: React.FC<EducationalInterfaceProps> = ({
 
   const selectCourse = async(course: Course) => {
     setSelectedCourse(course);
-    const progress = await lmsSystem.getStudentProgress(userId, course.id);
-    setStudentProgress(progress);
+    const response = await fetch(`/api/learning/courses/${course.id}`);
+    if (response.ok) {
+      const data: { progress: StudentProgress | null } = await response.json();
+      if (data.progress) {
+        setProgressByCourse(prev => ({ ...prev, [course.id]: data.progress! }));
+      }
+    }
 
     if (onCourseSelect) {
       onCourseSelect(course);
@@ -135,11 +144,12 @@ return "bg-yellow-500";
       </div>
 
       <Tabs defaultValue="courses" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="courses">All Courses</TabsTrigger>
           <TabsTrigger value="enrolled">My Learning</TabsTrigger>
           <TabsTrigger value="recommendations">Recommended</TabsTrigger>
           <TabsTrigger value="progress">Progress</TabsTrigger>
+          <TabsTrigger value="authoring">Authoring</TabsTrigger>
         </TabsList>
 
         <TabsContent value="courses" className="space-y-6">
@@ -279,7 +289,7 @@ return false;
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
               {enrolledCourses.map(course => {
-                const progress = studentProgress?.courseId === course.id ? studentProgress : null;
+                const progress = progressByCourse[course.id] ?? null;
                 return (
                   <Card key={course.id} className="p-6 hover:shadow-lg transition-shadow">
                     <div className="flex items-start justify-between mb-4">
@@ -411,7 +421,7 @@ return false;
           ) : (
             <div className="space-y-6">
               {enrolledCourses.map(course => {
-                const progress = studentProgress?.courseId === course.id ? studentProgress : null;
+                const progress = progressByCourse[course.id] ?? null;
                 if (!progress) {
 return null;
 }
@@ -463,7 +473,7 @@ return null;
 
                       <div className="flex items-center justify-between text-sm text-gray-600">
                         <span>Time Spent: {Math.round(progress.timeSpent / 60)} hours</span>
-                        <span>Last Accessed: {progress.lastAccessed.toLocaleDateString()}</span>
+                        <span>Last Accessed: {new Date(progress.lastAccessed).toLocaleDateString()}</span>
                       </div>
                     </div>
 
@@ -482,6 +492,10 @@ return null;
             </div>
           )}
         </TabsContent>
+
+        <TabsContent value="authoring" className="space-y-6">
+          <CourseAuthoring onCoursesChanged={loadCourses} />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -1,13 +1,27 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { X, Plus, Settings } from "lucide-react";
+import ConditionGroupEditor from "@/components/automations/ConditionGroupEditor";
+import {
+  CONDITION_GROUP_TRIGGER,
+  GROUPABLE_TRIGGER_TYPES,
+  validateTriggerExpression,
+} from "@/lib/automation/trigger-expression";
+import {
+  BRANCH_ACTION,
+  COMPARE_CONDITION,
+  COMPARE_OPERATORS,
+  MAX_STEP_ATTEMPTS,
+  validatePipeline,
+} from "@/lib/automation/pipeline";
 
 interface Trigger {
   type: string;
@@ -17,6 +31,10 @@ interface Trigger {
 interface Action {
   type: string;
   params: Record<string, any>;
+  stepId?: string;
+  maxAttempts?: number;
+  timeoutMs?: number;
+  continueOnError?: boolean;
 }
 
 interface AutomationBuilderProps {
@@ -36,8 +54,16 @@ const TRIGGER_TYPES = [
   { value: "JOURNAL_CREATED", label: "Journal Created" },
   { value: "ASSESSMENT_COMPLETED", label: "Assessment Completed" },
   { value: "SCHEDULED_TIME", label: "Scheduled Time" },
+  { value: "CONDITION_GROUP", label: "Condition Group (AND/OR/NOT)" },
 ];
 
+// Emotions reported by @vitality/emotion-detection for journal text
+const JOURNAL_EMOTIONS = ["happy", "excited", "calm", "neutral", "anxious", "sad", "angry"];
+
+// List params are saved as typed ("a, b") but may arrive as arrays from the API
+const formatListParam = (value: string[] | string | undefined) =>
+  Array.isArray(value) ? value.join(", ") : value || "";
+
 const ACTION_TYPES = [
   { value: "CREATE_JOURNAL_PROMPT", label: "Create Journal Prompt" },
   { value: "SUGGEST_COPING_STRATEGY", label: "Suggest Coping Strategy" },
@@ -49,13 +75,80 @@ const ACTION_TYPES = [
   { value: "ANALYZE_SPENDING_PATTERN", label: "Analyze Spending Pattern" },
   { value: "SUGGEST_ACTIVITY", label: "Suggest Activity" },
   { value: "CREATE_MOOD_CHECK_IN", label: "Create Mood Check-in" },
+  { value: "SEND_WEBHOOK", label: "Send Signed Webhook" },
+  { value: "CALL_CONNECTOR", label: "Call Connector" },
+  { value: "BRANCH", label: "If / Else Branch" },
 ];
 
+interface ConnectorOption {
+  name: string;
+  type: string;
+  scope: string;
+  operations: Array<{ name: string; access: string; description: string }>;
+}
+
+const BRANCH_CONDITION_TYPES = [{ value: COMPARE_CONDITION, label: "Compare Values" }];
+
+// Edits a JSON value (e.g. a branch's nested steps); invalid JSON is kept locally until fixed
+function JsonField({
+  value,
+  onChange,
+  placeholder,
+  kind = "array",
+}: {
+  value: any;
+  onChange: (value: any) => void;
+  placeholder?: string;
+  kind?: "array" | "object";
+}) {
+  const [text, setText] = useState(JSON.stringify(value ?? (kind === "array" ? [] : {}), null, 2));
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    try {
+      const parsed = JSON.parse(next || (kind === "array" ? "[]" : "{}"));
+      if (kind === "array" ? !Array.isArray(parsed) : typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+        throw new Error(kind === "array" ? "Must be a JSON array" : "Must be a JSON object");
+      }
+      setError(null);
+      onChange(parsed);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Invalid JSON");
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <Textarea
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder={placeholder}
+        rows={4}
+        className="font-mono text-xs"
+      />
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
+
 export default function AutomationBuilder({ isOpen, onClose, onSave, initialData }: AutomationBuilderProps) {
   const [name, setName] = useState(initialData?.name || "");
   const [description, setDescription] = useState(initialData?.description || "");
   const [triggers, setTriggers] = useState<Trigger[]>(initialData?.triggers || []);
   const [actions, setActions] = useState<Action[]>(initialData?.actions || []);
+  const [connectors, setConnectors] = useState<ConnectorOption[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    fetch("/api/automations/connectors")
+      .then((response) => (response.ok ? response.json() : { connectors: [] }))
+      .then((data) => setConnectors(data.connectors || []))
+      .catch((error) => console.error("Error fetching connectors:", error));
+  }, [isOpen]);
 
   const addTrigger = () => {
     setTriggers([...triggers, { type: "", params: {} }]);
@@ -68,7 +161,10 @@ export default function AutomationBuilder({ isOpen, onClose, onSave, initialData
   const updateTrigger = (index: number, field: string, value: any) => {
     const newTriggers = [...triggers];
     if (field === "type") {
-      newTriggers[index] = { type: value, params: {} };
+      newTriggers[index] = {
+        type: value,
+        params: value === CONDITION_GROUP_TRIGGER ? { expression: { operator: "OR", conditions: [] } } : {},
+      };
     } else {
       newTriggers[index] = { ...newTriggers[index], params: { ...newTriggers[index].params, [field]: value } };
     }
@@ -86,13 +182,23 @@ export default function AutomationBuilder({ isOpen, onClose, onSave, initialData
   const updateAction = (index: number, field: string, value: any) => {
     const newActions = [...actions];
     if (field === "type") {
-      newActions[index] = { type: value, params: {} };
+      newActions[index] = {
+        type: value,
+        params: value === BRANCH_ACTION ? { condition: { operator: "AND", conditions: [] }, then: [], else: [] } : {},
+      };
     } else {
       newActions[index] = { ...newActions[index], params: { ...newActions[index].params, [field]: value } };
     }
     setActions(newActions);
   };
 
+  // Pipeline settings live next to `params`, not inside them
+  const updateActionStep = (index: number, field: keyof Action, value: any) => {
+    const newActions = [...actions];
+    newActions[index] = { ...newActions[index], [field]: value };
+    setActions(newActions);
+  };
+
   const handleSave = () => {
     if (!name.trim()) {
       alert("Please enter a name for the automation");
@@ -106,11 +212,35 @@ export default function AutomationBuilder({ isOpen, onClose, onSave, initialData
       alert("Please add at least one action");
       return;
     }
+    for (const trigger of triggers) {
+      if (trigger.type === CONDITION_GROUP_TRIGGER) {
+        const errors = validateTriggerExpression(trigger.params.expression, "expression", 1, GROUPABLE_TRIGGER_TYPES);
+        if (errors.length > 0) {
+          alert(`Please fix the condition group: ${errors[0]}`);
+          return;
+        }
+      }
+    }
+    const actionErrors = validatePipeline(actions);
+    if (actionErrors.length > 0) {
+      alert(`Please fix the actions: ${actionErrors[0]}`);
+      return;
+    }
     onSave({ name, description, triggers, actions });
   };
 
-  const renderTriggerParams = (trigger: Trigger, index: number) => {
+  const renderTriggerParams = (trigger: Trigger, onParamChange: (field: string, value: any) => void) => {
     switch (trigger.type) {
+      case CONDITION_GROUP_TRIGGER:
+        return (
+          <ConditionGroupEditor
+            group={trigger.params.expression || { operator: "OR", conditions: [] }}
+            onChange={(expression) => onParamChange("expression", expression)}
+            conditionTypes={TRIGGER_TYPES.filter((type) => GROUPABLE_TRIGGER_TYPES.includes(type.value))}
+            renderConditionParams={renderTriggerParams}
+          />
+        );
+
       case "MOOD_BELOW_THRESHOLD":
         return (
           <div className="space-y-2">
@@ -120,7 +250,7 @@ export default function AutomationBuilder({ isOpen, onClose, onSave, initialData
               min="1"
               max="10"
               value={trigger.params.threshold || ""}
-              onChange={(e) => updateTrigger(index, "threshold", parseInt(e.target.value))}
+              onChange={(e) => onParamChange("threshold", parseInt(e.target.value))}
               placeholder="5"
             />
           </div>
@@ -133,7 +263,7 @@ export default function AutomationBuilder({ isOpen, onClose, onSave, initialData
             <label className="text-sm font-medium">Habit Name (optional)</label>
             <Input
               value={trigger.params.habitName || ""}
-              onChange={(e) => updateTrigger(index, "habitName", e.target.value)}
+              onChange={(e) => onParamChange("habitName", e.target.value)}
               placeholder="Any habit"
             />
           </div>
@@ -145,21 +275,21 @@ export default function AutomationBuilder({ isOpen, onClose, onSave, initialData
             <label className="text-sm font-medium">Category (optional)</label>
             <Input
               value={trigger.params.category || ""}
-              onChange={(e) => updateTrigger(index, "category", e.target.value)}
+              onChange={(e) => onParamChange("category", e.target.value)}
               placeholder="Any category"
             />
             <label className="text-sm font-medium">Min Amount (optional)</label>
             <Input
               type="number"
               value={trigger.params.minAmount || ""}
-              onChange={(e) => updateTrigger(index, "minAmount", parseFloat(e.target.value))}
+              onChange={(e) => onParamChange("minAmount", parseFloat(e.target.value))}
               placeholder="0"
             />
             <label className="text-sm font-medium">Max Amount (optional)</label>
             <Input
               type="number"
               value={trigger.params.maxAmount || ""}
-              onChange={(e) => updateTrigger(index, "maxAmount", parseFloat(e.target.value))}
+              onChange={(e) => onParamChange("maxAmount", parseFloat(e.target.value))}
               placeholder="No limit"
             />
           </div>
@@ -171,7 +301,7 @@ export default function AutomationBuilder({ isOpen, onClose, onSave, initialData
             <label className="text-sm font-medium">Budget Name (optional)</label>
             <Input
               value={trigger.params.budgetName || ""}
-              onChange={(e) => updateTrigger(index, "budgetName", e.target.value)}
+              onChange={(e) => onParamChange("budgetName", e.target.value)}
               placeholder="Any budget"
             />
           </div>
@@ -183,21 +313,86 @@ export default function AutomationBuilder({ isOpen, onClose, onSave, initialData
             <label className="text-sm font-medium">Goal Category (optional)</label>
             <Input
               value={trigger.params.category || ""}
-              onChange={(e) => updateTrigger(index, "category", e.target.value)}
+              onChange={(e) => onParamChange("category", e.target.value)}
               placeholder="Any category"
             />
           </div>
         );
 
+      case "JOURNAL_CREATED":
+        return (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Keywords (optional)</label>
+            <Input
+              value={formatListParam(trigger.params.keywords)}
+              onChange={(e) => onParamChange("keywords", e.target.value)}
+              placeholder="stressed, overwhelmed (any of)"
+            />
+            <label className="text-sm font-medium">Tags (optional)</label>
+            <Input
+              value={formatListParam(trigger.params.tags)}
+              onChange={(e) => onParamChange("tags", e.target.value)}
+              placeholder="work, family (any of)"
+            />
+            <label className="text-sm font-medium">Detected Emotion</label>
+            <Select value={trigger.params.emotion || "any"} onValueChange={(value) => onParamChange("emotion", value === "any" ? "" : value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any emotion</SelectItem>
+                {JOURNAL_EMOTIONS.map((emotion) => (
+                  <SelectItem key={emotion} value={emotion}>{emotion}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <label className="text-sm font-medium">Min Sentiment (optional, -1 to 1)</label>
+            <Input
+              type="number"
+              min="-1"
+              max="1"
+              step="0.1"
+              value={trigger.params.minSentiment ?? ""}
+              onChange={(e) => onParamChange("minSentiment", e.target.value === "" ? undefined : parseFloat(e.target.value))}
+              placeholder="-1"
+            />
+            <label className="text-sm font-medium">Max Sentiment (optional, -1 to 1)</label>
+            <Input
+              type="number"
+              min="-1"
+              max="1"
+              step="0.1"
+              value={trigger.params.maxSentiment ?? ""}
+              onChange={(e) => onParamChange("maxSentiment", e.target.value === "" ? undefined : parseFloat(e.target.value))}
+              placeholder="-0.3 for negative entries"
+            />
+            <p className="text-xs text-gray-500">
+              Sentiment and emotion are detected on the server without AI. Keyword, emotion and sentiment
+              conditions never match encrypted entries.
+            </p>
+          </div>
+        );
+
       case "ASSESSMENT_COMPLETED":
         return (
           <div className="space-y-2">
             <label className="text-sm font-medium">Assessment Type (optional)</label>
             <Input
               value={trigger.params.assessmentType || ""}
-              onChange={(e) => updateTrigger(index, "assessmentType", e.target.value)}
+              onChange={(e) => onParamChange("assessmentType", e.target.value)}
               placeholder="Any assessment"
             />
+            <label className="text-sm font-medium">Run when</label>
+            <Select value={trigger.params.change || "any"} onValueChange={(value) => onParamChange("change", value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any assessment is completed</SelectItem>
+                <SelectItem value="reliable_worsening">Score reliably worsens since last time</SelectItem>
+                <SelectItem value="clinically_significant">Score worsens into the clinical range</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
         );
 
@@ -207,12 +402,29 @@ export default function AutomationBuilder({ isOpen, onClose, onSave, initialData
             <label className="text-sm font-medium">Cron Expression</label>
             <Input
               value={trigger.params.cron || ""}
-              onChange={(e) => updateTrigger(index, "cron", e.target.value)}
+              onChange={(e) => onParamChange("cron", e.target.value)}
               placeholder="0 9 * * 1 (Every Monday at 9 AM)"
             />
             <p className="text-xs text-gray-500">
               Format: minute hour day month dayOfWeek
             </p>
+            <label className="text-sm font-medium">Timezone (optional)</label>
+            <Input
+              value={trigger.params.timezone || ""}
+              onChange={(e) => onParamChange("timezone", e.target.value)}
+              placeholder="Defaults to your organization's timezone"
+            />
+            <label className="text-sm font-medium">Missed Runs</label>
+            <Select value={trigger.params.catchUp || "all"} onValueChange={(value) => onParamChange("catchUp", value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Run every missed occurrence</SelectItem>
+                <SelectItem value="latest">Run only the latest missed occurrence</SelectItem>
+                <SelectItem value="skip">Skip missed occurrences</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
         );
 
@@ -221,8 +433,136 @@ export default function AutomationBuilder({ isOpen, onClose, onSave, initialData
     }
   };
 
+  const renderCompareParams = (condition: { params: Record<string, any> }, onParamChange: (field: string, value: any) => void) => (
+    <div className="grid grid-cols-3 gap-2">
+      <Input
+        value={condition.params.left ?? ""}
+        onChange={(e) => onParamChange("left", e.target.value)}
+        placeholder="{{steps.analyze.totalSpent}}"
+      />
+      <Select value={condition.params.operator || ""} onValueChange={(value) => onParamChange("operator", value)}>
+        <SelectTrigger>
+          <SelectValue placeholder="Operator" />
+        </SelectTrigger>
+        <SelectContent>
+          {COMPARE_OPERATORS.map((operator) => (
+            <SelectItem key={operator} value={operator}>{operator}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        value={condition.params.right ?? ""}
+        onChange={(e) => onParamChange("right", e.target.value)}
+        placeholder="500"
+        disabled={condition.params.operator === "exists"}
+      />
+    </div>
+  );
+
   const renderActionParams = (action: Action, index: number) => {
     switch (action.type) {
+      case "SEND_WEBHOOK":
+        return (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">URL</label>
+            <Input
+              value={action.params.url || ""}
+              onChange={(e) => updateAction(index, "url", e.target.value)}
+              placeholder="https://example.com/hooks/automation"
+            />
+            <label className="text-sm font-medium">Payload (optional)</label>
+            <JsonField
+              kind="object"
+              value={action.params.payload}
+              onChange={(payload) => updateAction(index, "payload", payload)}
+              placeholder='{ "category": "{{steps.analyze.topCategory}}" }'
+            />
+            <p className="text-xs text-gray-500">
+              Sent as JSON with the triggering event and an X-Automation-Signature header.
+            </p>
+          </div>
+        );
+
+      case "CALL_CONNECTOR": {
+        const connector = connectors.find((c) => c.name === action.params.connector);
+        const operation = connector?.operations.find((o) => o.name === action.params.operation);
+        const { connector: _connector, operation: _operation, ...args } = action.params;
+
+        return (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Connector</label>
+            <Select value={action.params.connector || ""} onValueChange={(value) => updateAction(index, "connector", value)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select connector" />
+              </SelectTrigger>
+              <SelectContent>
+                {connectors.map((c) => (
+                  <SelectItem key={c.name} value={c.name}>
+                    {c.name} ({c.scope})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {connector && (
+              <>
+                <label className="text-sm font-medium">Operation</label>
+                <Select value={action.params.operation || ""} onValueChange={(value) => updateAction(index, "operation", value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select operation" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {connector.operations.map((o) => (
+                      <SelectItem key={o.name} value={o.name}>
+                        {o.name} - {o.description}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </>
+            )}
+            {operation && (
+              <>
+                <label className="text-sm font-medium">Arguments</label>
+                <JsonField
+                  key={`${action.params.connector}.${action.params.operation}`}
+                  kind="object"
+                  value={args}
+                  onChange={(next) => setActions(actions.map((a, i) =>
+                    i === index ? { ...a, params: { connector: a.params.connector, operation: a.params.operation, ...next } } : a
+                  ))}
+                  placeholder='{ "entityId": "light.living_room" }'
+                />
+              </>
+            )}
+          </div>
+        );
+      }
+
+      case BRANCH_ACTION:
+        return (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">If</label>
+            <ConditionGroupEditor
+              group={action.params.condition || { operator: "AND", conditions: [] }}
+              onChange={(condition) => updateAction(index, "condition", condition)}
+              conditionTypes={BRANCH_CONDITION_TYPES}
+              renderConditionParams={renderCompareParams}
+            />
+            <label className="text-sm font-medium">Then run</label>
+            <JsonField
+              value={action.params.then}
+              onChange={(steps) => updateAction(index, "then", steps)}
+              placeholder='[{ "type": "SEND_NOTIFICATION", "params": { "message": "..." } }]'
+            />
+            <label className="text-sm font-medium">Else run</label>
+            <JsonField
+              value={action.params.else}
+              onChange={(steps) => updateAction(index, "else", steps)}
+              placeholder='[{ "type": "SEND_NOTIFICATION", "params": { "message": "..." } }]'
+            />
+          </div>
+        );
+
       case "CREATE_JOURNAL_PROMPT":
         return (
           <div className="space-y-2">
@@ -487,7 +827,7 @@ return null;
                       ))}
                     </SelectContent>
                   </Select>
-                  {trigger.type && renderTriggerParams(trigger, index)}
+                  {trigger.type && renderTriggerParams(trigger, (field, value) => updateTrigger(index, field, value))}
                 </div>
               ))}
               <Button variant="outline" onClick={addTrigger} className="w-full">
@@ -531,8 +871,50 @@ return null;
                     </SelectContent>
                   </Select>
                   {action.type && renderActionParams(action, index)}
+                  {action.type && (
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2 items-end pt-2 border-t">
+                      <div>
+                        <label className="text-xs font-medium text-gray-600">Step ID</label>
+                        <Input
+                          value={action.stepId || ""}
+                          onChange={(e) => updateActionStep(index, "stepId", e.target.value)}
+                          placeholder="analyze"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs font-medium text-gray-600">Attempts</label>
+                        <Input
+                          type="number"
+                          min="1"
+                          max={MAX_STEP_ATTEMPTS}
+                          value={action.maxAttempts ?? 1}
+                          onChange={(e) => updateActionStep(index, "maxAttempts", parseInt(e.target.value) || 1)}
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs font-medium text-gray-600">Timeout (ms)</label>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={action.timeoutMs ?? ""}
+                          onChange={(e) => updateActionStep(index, "timeoutMs", e.target.value ? parseInt(e.target.value) : undefined)}
+                          placeholder="None"
+                        />
+                      </div>
+                      <div className="flex items-center gap-2 pb-2">
+                        <Switch
+                          checked={action.continueOnError ?? false}
+                          onCheckedChange={(checked) => updateActionStep(index, "continueOnError", checked)}
+                        />
+                        <label className="text-xs font-medium text-gray-600">Continue on error</label>
+                      </div>
+                    </div>
+                  )}
                 </div>
               ))}
+              <p className="text-xs text-gray-500">
+                Actions run in order. Give a step an ID to use its output later, e.g. {"{{steps.analyze.topCategory}}"}.
+              </p>
               <Button variant="outline" onClick={addAction} className="w-full">
                 <Plus className="h-4 w-4 mr-2" />
                 Add Action
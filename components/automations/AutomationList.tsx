@@ -5,6 +5,8 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Play,
   Pause,
@@ -15,7 +17,13 @@ import {
   AlertCircle,
   CheckCircle,
   XCircle,
+  FlaskConical,
+  ChevronDown,
+  ChevronRight,
 } from "lucide-react";
+import { describeTriggerExpression } from "@/lib/automation/trigger-expression";
+import type { ExecutionTrace } from "@/lib/automation/trace";
+import ExecutionTimeline from "./ExecutionTimeline";
 
 interface AutomationRoutine {
   id: string;
@@ -31,11 +39,14 @@ interface AutomationRoutine {
     id: string;
     type: string;
     params: any;
+    stepId?: string | null;
   }>;
   logs: Array<{
     id: string;
     status: string;
-    message: string;
+    message?: string;
+    error?: string | null;
+    details?: ExecutionTrace | null;
     createdAt: string;
   }>;
   createdAt: string;
@@ -46,8 +57,24 @@ interface AutomationListProps {
   onToggle: (id: string, enabled: boolean) => void;
   onEdit: (routine: AutomationRoutine) => void;
   onDelete: (id: string) => void;
+  onDryRun?: (id: string, event: { type: string; data?: any }) => Promise<ExecutionTrace>;
 }
 
+// Event types that can be simulated from the "Test run" panel
+const SAMPLE_EVENT_TYPES = [
+  "mood.created",
+  "mood.below_threshold",
+  "habit.completed",
+  "habit.missed",
+  "transaction.created",
+  "budget.exceeded",
+  "goal.completed",
+  "journal.created",
+  "assessment.completed",
+  "assessment.worsened",
+  "schedule.tick",
+];
+
 const TRIGGER_LABELS: Record<string, string> = {
   "MOOD_BELOW_THRESHOLD": "Mood Below Threshold",
   "HABIT_COMPLETED": "Habit Completed",
@@ -58,6 +85,7 @@ const TRIGGER_LABELS: Record<string, string> = {
   "JOURNAL_CREATED": "Journal Created",
   "ASSESSMENT_COMPLETED": "Assessment Completed",
   "SCHEDULED_TIME": "Scheduled Time",
+  "CONDITION_GROUP": "Condition Group",
 };
 
 const ACTION_LABELS: Record<string, string> = {
@@ -71,10 +99,20 @@ const ACTION_LABELS: Record<string, string> = {
   "ANALYZE_SPENDING_PATTERN": "Analyze Spending Pattern",
   "SUGGEST_ACTIVITY": "Suggest Activity",
   "CREATE_MOOD_CHECK_IN": "Create Mood Check-in",
+  "SEND_WEBHOOK": "Send Webhook",
+  "CALL_CONNECTOR": "Call Connector",
+  "BRANCH": "If / Else",
 };
 
-export default function AutomationList({ routines, onToggle, onEdit, onDelete }: AutomationListProps) {
+export default function AutomationList({ routines, onToggle, onEdit, onDelete, onDryRun }: AutomationListProps) {
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [expandedLogId, setExpandedLogId] = useState<string | null>(null);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [sampleType, setSampleType] = useState(SAMPLE_EVENT_TYPES[0]);
+  const [sampleData, setSampleData] = useState("{}");
+  const [dryRunLoading, setDryRunLoading] = useState(false);
+  const [dryRunError, setDryRunError] = useState<string | null>(null);
+  const [dryRunTrace, setDryRunTrace] = useState<ExecutionTrace | null>(null);
 
   const handleDelete = async(id: string) => {
     if (confirm("Are you sure you want to delete this automation? This action cannot be undone.")) {
@@ -87,8 +125,42 @@ export default function AutomationList({ routines, onToggle, onEdit, onDelete }:
     }
   };
 
-  const formatTriggerDescription = (trigger: any) => {
+  const openTestRun = (id: string) => {
+    setTestingId(testingId === id ? null : id);
+    setDryRunTrace(null);
+    setDryRunError(null);
+  };
+
+  const handleDryRun = async(id: string) => {
+    if (!onDryRun) {
+      return;
+    }
+
+    let data: any;
+    try {
+      data = JSON.parse(sampleData || "{}");
+    } catch {
+      setDryRunError("Sample data must be valid JSON");
+      return;
+    }
+
+    setDryRunLoading(true);
+    setDryRunError(null);
+    try {
+      setDryRunTrace(await onDryRun(id, { type: sampleType, data }));
+    } catch (error) {
+      setDryRunError(error instanceof Error ? error.message : "Failed to run simulation");
+    } finally {
+      setDryRunLoading(false);
+    }
+  };
+
+  const formatTriggerDescription = (trigger: any): string => {
     switch (trigger.type) {
+      case "CONDITION_GROUP":
+        return trigger.params.expression
+          ? describeTriggerExpression(trigger.params.expression, formatTriggerDescription)
+          : "empty condition group";
       case "MOOD_BELOW_THRESHOLD":
         return `when mood is below ${trigger.params.threshold || 5}`;
       case "HABIT_COMPLETED":
@@ -112,16 +184,38 @@ conditions.push(`max: $${trigger.params.maxAmount}`);
       case "GOAL_COMPLETED":
         return `when goal in category "${trigger.params.category || "any"}" is completed`;
       case "JOURNAL_CREATED":
-        return "when journal entry is created";
+        const journalConditions = [];
+        if (trigger.params.keywords?.length) {
+journalConditions.push(`mentions: ${[].concat(trigger.params.keywords).join(", ")}`);
+}
+        if (trigger.params.tags?.length) {
+journalConditions.push(`tags: ${[].concat(trigger.params.tags).join(", ")}`);
+}
+        if (trigger.params.emotion) {
+journalConditions.push(`emotion: ${trigger.params.emotion}`);
+}
+        if (typeof trigger.params.minSentiment === "number") {
+journalConditions.push(`sentiment ≥ ${trigger.params.minSentiment}`);
+}
+        if (typeof trigger.params.maxSentiment === "number") {
+journalConditions.push(`sentiment ≤ ${trigger.params.maxSentiment}`);
+}
+        return `when journal entry is created${journalConditions.length ? ` (${journalConditions.join(", ")})` : ""}`;
       case "ASSESSMENT_COMPLETED":
+        if (trigger.params.change === "reliable_worsening" || trigger.params.change === "clinically_significant") {
+          return `when assessment "${trigger.params.assessmentType || "any"}" ${trigger.params.change === "clinically_significant" ? "worsens into the clinical range" : "reliably worsens"}`;
+        }
         return `when assessment "${trigger.params.assessmentType || "any"}" is completed`;
       case "SCHEDULED_TIME":
-        return `on schedule: ${trigger.params.cron || "not set"}`;
+        return `on schedule: ${trigger.params.cron || "not set"}${trigger.params.timezone ? ` (${trigger.params.timezone})` : ""}`;
       default:
         return trigger.type;
     }
   };
 
+  const formatCompareDescription = (condition: any): string =>
+    `${condition.params?.left ?? "?"} ${condition.params?.operator ?? "?"}${condition.params?.operator === "exists" ? "" : ` ${condition.params?.right ?? "?"}`}`;
+
   const formatActionDescription = (action: any) => {
     switch (action.type) {
       case "CREATE_JOURNAL_PROMPT":
@@ -144,6 +238,12 @@ conditions.push(`max: $${trigger.params.maxAmount}`);
         return `suggest activity for ${action.params.timeOfDay || "any time"}`;
       case "CREATE_MOOD_CHECK_IN":
         return "create mood check-in prompt";
+      case "SEND_WEBHOOK":
+        return `send signed webhook to ${action.params.url || "not set"}`;
+      case "CALL_CONNECTOR":
+        return `call ${action.params.connector || "connector"}.${action.params.operation || "?"}`;
+      case "BRANCH":
+        return `if ${action.params.condition ? describeTriggerExpression(action.params.condition, formatCompareDescription) : "(no condition)"} then ${action.params.then?.length || 0} step(s), else ${action.params.else?.length || 0} step(s)`;
       default:
         return action.type;
     }
@@ -155,6 +255,8 @@ conditions.push(`max: $${trigger.params.maxAmount}`);
         return <CheckCircle className="h-4 w-4 text-green-500" />;
       case "FAILED":
         return <XCircle className="h-4 w-4 text-red-500" />;
+      case "DRY_RUN":
+        return <FlaskConical className="h-4 w-4 text-purple-500" />;
       default:
         return <AlertCircle className="h-4 w-4 text-yellow-500" />;
     }
@@ -164,6 +266,25 @@ conditions.push(`max: $${trigger.params.maxAmount}`);
     return logs.slice(0, 3); // Show last 3 logs
   };
 
+  // Older logs only have a message; traced runs summarize from their details
+  const formatLogSummary = (log: AutomationRoutine["logs"][number]): string => {
+    if (log.message) {
+      return log.message;
+    }
+    if (log.error) {
+      return log.error;
+    }
+    if (!log.details) {
+      return log.status;
+    }
+    if (!log.details.matched) {
+      return "Triggers did not match";
+    }
+
+    const succeeded = log.details.actions.filter((step) => step.status === "SUCCESS").length;
+    return `${succeeded}/${log.details.actions.length} steps succeeded`;
+  };
+
   if (routines.length === 0) {
     return (
       <Card>
@@ -204,6 +325,16 @@ conditions.push(`max: $${trigger.params.maxAmount}`);
                 </div>
               </div>
               <div className="flex items-center gap-2">
+                {onDryRun && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openTestRun(routine.id)}
+                  >
+                    <FlaskConical className="h-4 w-4 mr-1" />
+                    Test Run
+                  </Button>
+                )}
                 <Button
                   variant="outline"
                   size="sm"
@@ -258,6 +389,9 @@ conditions.push(`max: $${trigger.params.maxAmount}`);
                       <Badge variant="outline" className="text-xs">
                         {ACTION_LABELS[action.type] || action.type}
                       </Badge>
+                      {action.stepId && (
+                        <span className="text-xs text-gray-400">{action.stepId}</span>
+                      )}
                       <span className="text-sm text-gray-600">
                         {formatActionDescription(action)}
                       </span>
@@ -266,25 +400,77 @@ conditions.push(`max: $${trigger.params.maxAmount}`);
                 </div>
               </div>
 
+              {/* Test Run */}
+              {testingId === routine.id && (
+                <div className="border rounded-lg p-4 space-y-3">
+                  <h4 className="text-sm font-medium text-gray-700">
+                    Simulate with a sample event (nothing is saved)
+                  </h4>
+                  <Select value={sampleType} onValueChange={setSampleType}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Event type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SAMPLE_EVENT_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Textarea
+                    value={sampleData}
+                    onChange={(e) => setSampleData(e.target.value)}
+                    placeholder='{"mood": 3}'
+                    rows={4}
+                    className="font-mono text-xs"
+                  />
+                  {dryRunError && <p className="text-sm text-red-600">{dryRunError}</p>}
+                  <Button size="sm" onClick={() => handleDryRun(routine.id)} disabled={dryRunLoading}>
+                    {dryRunLoading ? "Running..." : "Run Simulation"}
+                  </Button>
+                  {dryRunTrace && <ExecutionTimeline trace={dryRunTrace} />}
+                </div>
+              )}
+
               {/* Recent Logs */}
               {routine.logs.length > 0 && (
                 <div>
                   <h4 className="text-sm font-medium text-gray-700 mb-2">Recent Activity</h4>
                   <div className="space-y-1">
-                    {getRecentLogs(routine.logs).map((log) => (
-                      <div key={log.id} className="flex items-center gap-2 text-sm">
-                        {getStatusIcon(log.status)}
-                        <span className="text-gray-600">
-                          {log.message.length > 60
-                            ? `${log.message.substring(0, 60)}...`
-                            : log.message
-                          }
-                        </span>
-                        <span className="text-xs text-gray-400">
-                          {new Date(log.createdAt).toLocaleDateString()}
-                        </span>
-                      </div>
-                    ))}
+                    {getRecentLogs(routine.logs).map((log) => {
+                      const summary = formatLogSummary(log);
+
+                      return (
+                        <div key={log.id}>
+                          <button
+                            type="button"
+                            className="flex items-center gap-2 text-sm w-full text-left"
+                            onClick={() => setExpandedLogId(expandedLogId === log.id ? null : log.id)}
+                            disabled={!log.details}
+                          >
+                            {log.details && (expandedLogId === log.id ? (
+                              <ChevronDown className="h-3 w-3 text-gray-400" />
+                            ) : (
+                              <ChevronRight className="h-3 w-3 text-gray-400" />
+                            ))}
+                            {getStatusIcon(log.status)}
+                            <span className="text-gray-600">
+                              {summary.length > 60
+                                ? `${summary.substring(0, 60)}...`
+                                : summary
+                              }
+                            </span>
+                            <span className="text-xs text-gray-400">
+                              {new Date(log.createdAt).toLocaleDateString()}
+                            </span>
+                          </button>
+                          {expandedLogId === log.id && log.details && (
+                            <div className="mt-2">
+                              <ExecutionTimeline trace={log.details} />
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
                   </div>
                 </div>
               )}
@@ -0,0 +1,152 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X, Plus, FolderTree } from "lucide-react";
+import {
+  ConditionGroup,
+  ConditionOperator,
+  TriggerCondition,
+  TriggerExpression,
+  isConditionGroup,
+  MAX_EXPRESSION_DEPTH,
+} from "@/lib/automation/trigger-expression";
+
+interface ConditionGroupEditorProps {
+  group: ConditionGroup;
+  onChange: (group: ConditionGroup) => void;
+  onRemove?: () => void;
+  conditionTypes: Array<{ value: string; label: string }>;
+  renderConditionParams: (
+    condition: TriggerCondition,
+    onParamChange: (field: string, value: any) => void
+  ) => React.ReactNode;
+  depth?: number;
+}
+
+const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  AND: "All of (AND)",
+  OR: "Any of (OR)",
+  NOT: "None of (NOT)",
+};
+
+export default function ConditionGroupEditor({
+  group,
+  onChange,
+  onRemove,
+  conditionTypes,
+  renderConditionParams,
+  depth = 1,
+}: ConditionGroupEditorProps) {
+  const canAddChild = group.operator !== "NOT" || group.conditions.length === 0;
+
+  const updateOperator = (operator: ConditionOperator) => {
+    // NOT wraps exactly one condition
+    const conditions = operator === "NOT" ? group.conditions.slice(0, 1) : group.conditions;
+    onChange({ operator, conditions });
+  };
+
+  const updateChild = (index: number, child: TriggerExpression) => {
+    const conditions = [...group.conditions];
+    conditions[index] = child;
+    onChange({ ...group, conditions });
+  };
+
+  const removeChild = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  };
+
+  const addCondition = () => {
+    onChange({ ...group, conditions: [...group.conditions, { type: "", params: {} }] });
+  };
+
+  const addGroup = () => {
+    onChange({ ...group, conditions: [...group.conditions, { operator: "AND", conditions: [] }] });
+  };
+
+  return (
+    <div className={`border rounded-lg p-3 space-y-3 ${depth > 1 ? "bg-gray-50" : ""}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <FolderTree className="h-4 w-4 text-gray-500" />
+          <Select value={group.operator} onValueChange={(value) => updateOperator(value as ConditionOperator)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(OPERATOR_LABELS) as ConditionOperator[]).map((operator) => (
+                <SelectItem key={operator} value={operator}>
+                  {OPERATOR_LABELS[operator]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {onRemove && (
+          <Button variant="ghost" size="sm" onClick={onRemove}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.conditions.map((child, index) => (
+        <div key={index} className="pl-4 border-l-2 border-gray-200 space-y-2">
+          {isConditionGroup(child) ? (
+            <ConditionGroupEditor
+              group={child}
+              onChange={(updated) => updateChild(index, updated)}
+              onRemove={() => removeChild(index)}
+              conditionTypes={conditionTypes}
+              renderConditionParams={renderConditionParams}
+              depth={depth + 1}
+            />
+          ) : (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Badge variant="outline">Condition {index + 1}</Badge>
+                <Button variant="ghost" size="sm" onClick={() => removeChild(index)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <Select
+                value={child.type}
+                onValueChange={(value) => updateChild(index, { type: value, params: {} })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select condition type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {conditionTypes.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {child.type && renderConditionParams(child, (field, value) =>
+                updateChild(index, { ...child, params: { ...child.params, [field]: value } })
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {canAddChild && (
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={addCondition}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Condition
+          </Button>
+          {depth < MAX_EXPRESSION_DEPTH && (
+            <Button variant="outline" size="sm" onClick={addGroup}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Group
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
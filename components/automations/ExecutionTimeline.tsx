@@ -0,0 +1,135 @@
+"use client";
+
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle, XCircle, MinusCircle, Database, FlaskConical, Globe } from "lucide-react";
+import type { ExecutionTrace } from "@/lib/automation/trace";
+
+interface ExecutionTimelineProps {
+  trace: ExecutionTrace;
+}
+
+const formatJson = (value: any) => JSON.stringify(value ?? {}, null, 2);
+
+export default function ExecutionTimeline({ trace }: ExecutionTimelineProps) {
+  return (
+    <div className="border rounded-lg p-4 space-y-4 bg-gray-50">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {trace.dryRun && (
+          <Badge variant="outline" className="bg-purple-50 text-purple-700">
+            <FlaskConical className="h-3 w-3 mr-1" />
+            Dry run
+          </Badge>
+        )}
+        <Badge variant="outline">{trace.event.type}</Badge>
+        <span className="text-gray-500">
+          {new Date(trace.startedAt).toLocaleString()}
+        </span>
+        <span className={trace.matched ? "text-green-600" : "text-gray-500"}>
+          {trace.matched ? "Triggers matched" : "Triggers did not match"}
+        </span>
+      </div>
+
+      <ol className="relative border-l border-gray-300 ml-2 space-y-4">
+        {trace.triggers.map((step, index) => (
+          <li key={step.triggerId || `trigger-${index}`} className="ml-4">
+            <span className="absolute -left-2 bg-white rounded-full">
+              {step.matched ? (
+                <CheckCircle className="h-4 w-4 text-green-500" />
+              ) : (
+                <XCircle className="h-4 w-4 text-gray-400" />
+              )}
+            </span>
+            <p className="text-sm font-medium">
+              Trigger {index + 1}: {step.type}
+            </p>
+            <pre className="text-xs text-gray-600 bg-white border rounded p-2 mt-1 overflow-x-auto">
+              {formatJson(step.params)}
+            </pre>
+          </li>
+        ))}
+
+        {trace.matched && trace.actions.length === 0 && (
+          <li className="ml-4">
+            <span className="absolute -left-2 bg-white rounded-full">
+              <MinusCircle className="h-4 w-4 text-gray-400" />
+            </span>
+            <p className="text-sm text-gray-500">No actions configured</p>
+          </li>
+        )}
+
+        {trace.actions.map((step, index) => (
+          <li
+            key={`${step.actionId || step.stepId || "action"}-${index}`}
+            className="ml-4"
+            style={{ paddingLeft: `${(step.depth ?? 0) * 1.5}rem` }}
+          >
+            <span className="absolute -left-2 bg-white rounded-full">
+              {step.status === "SUCCESS" && <CheckCircle className="h-4 w-4 text-green-500" />}
+              {step.status === "FAILED" && <XCircle className="h-4 w-4 text-red-500" />}
+              {step.status === "SKIPPED" && <MinusCircle className="h-4 w-4 text-gray-400" />}
+            </span>
+            <div className="flex items-center gap-2">
+              <p className={`text-sm font-medium ${step.status === "SKIPPED" ? "text-gray-400" : ""}`}>
+                {step.type}
+                {step.stepId && <span className="text-gray-500 font-normal"> ({step.stepId})</span>}
+              </p>
+              {step.status === "SKIPPED" ? (
+                <span className="text-xs text-gray-400">skipped</span>
+              ) : (
+                <span className="text-xs text-gray-400">
+                  {step.durationMs}ms{(step.attempts ?? 1) > 1 ? ` · ${step.attempts} attempts` : ""}
+                </span>
+              )}
+            </div>
+            <pre className="text-xs text-gray-600 bg-white border rounded p-2 mt-1 overflow-x-auto">
+              {formatJson(step.params)}
+            </pre>
+            {step.result && (
+              <p className="text-sm text-gray-700 mt-1">{step.result}</p>
+            )}
+            {step.error && (
+              <p className="text-sm text-red-600 mt-1">{step.error}</p>
+            )}
+            {step.http && (
+              <details className="text-xs mt-1">
+                <summary className="cursor-pointer text-gray-600 flex items-center gap-1">
+                  <Globe className="h-3 w-3" />
+                  {step.http.request.method} {step.http.request.url}
+                  {step.http.response ? ` → ${step.http.response.status}` : trace.dryRun ? " (not sent)" : " (no response)"}
+                </summary>
+                <pre className="bg-white border rounded p-2 mt-1 overflow-x-auto">
+                  {formatJson(step.http)}
+                </pre>
+              </details>
+            )}
+            {step.output && Object.keys(step.output).length > 0 && (
+              <details className="text-xs mt-1">
+                <summary className="cursor-pointer text-gray-600">Output</summary>
+                <pre className="bg-white border rounded p-2 mt-1 overflow-x-auto">
+                  {formatJson(step.output)}
+                </pre>
+              </details>
+            )}
+            {step.writes && step.writes.length > 0 && (
+              <div className="mt-2 space-y-1">
+                <p className="text-xs font-medium text-gray-500">Would have written:</p>
+                {step.writes.map((write, writeIndex) => (
+                  <details key={writeIndex} className="text-xs">
+                    <summary className="cursor-pointer text-gray-600 flex items-center gap-1">
+                      <Database className="h-3 w-3" />
+                      {write.model}.{write.operation}
+                    </summary>
+                    <pre className="bg-white border rounded p-2 mt-1 overflow-x-auto">
+                      {formatJson(write.args)}
+                    </pre>
+                  </details>
+                ))}
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
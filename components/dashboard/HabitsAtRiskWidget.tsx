@@ -0,0 +1,96 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, Check, Flame } from "lucide-react";
+import { localDay } from "@/lib/growth/habit-schedule";
+import type { HabitAtRisk } from "@/lib/growth/habits";
+
+const timeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export default function HabitsAtRiskWidget({ onLogged }: { onLogged?: () => void }) {
+  const [habits, setHabits] = useState<HabitAtRisk[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchHabitsAtRisk = async() => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/habits/at-risk?timeZone=${encodeURIComponent(timeZone())}`);
+      if (response.ok) {
+        const data = await response.json();
+        setHabits(data.habits);
+      }
+    } catch (error) {
+      console.error("Error fetching habits at risk:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchHabitsAtRisk();
+  }, []);
+
+  const markDone = async(habitId: string) => {
+    try {
+      const response = await fetch(`/api/habits/${habitId}/logs`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ date: localDay(new Date(), timeZone()), completed: true, timeZone: timeZone() }),
+      });
+      if (response.ok) {
+        fetchHabitsAtRisk();
+        onLogged?.();
+      }
+    } catch (error) {
+      console.error("Error logging habit:", error);
+    }
+  };
+
+  // Nothing to nag about
+  if (isLoading || habits.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="w-full border-orange-200">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-orange-500" />
+          Habits at Risk
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {habits.map((habit) => (
+          <div key={habit.id} className="flex items-center justify-between gap-3">
+            <div>
+              <p className="font-medium">{habit.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {habit.scheduleLabel} -{" "}
+                {habit.daysLeft === 1
+                  ? "due today"
+                  : `${habit.remaining} more by ${new Date(`${habit.deadline}T00:00:00Z`).toLocaleDateString(undefined, { weekday: "long", timeZone: "UTC" })}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {habit.streak > 0 && (
+                <Badge variant="secondary" className="text-xs">
+                  <Flame className="h-3 w-3 mr-1 text-orange-500" />
+                  {habit.streak}
+                </Badge>
+              )}
+              <Button variant="outline" size="sm" onClick={() => markDone(habit.id)}>
+                <Check className="h-4 w-4 mr-1" />
+                Done
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -17,12 +17,18 @@ import {
   EyeOff,
 } from "lucide-react";
 
+// ProactiveInsight rows carry title, description and type; older producers
+// wrote content and category
 interface Insight {
   id: string;
-  content: string;
-  category: string;
+  title?: string;
+  description?: string;
+  content?: string;
+  type?: string;
+  category?: string;
   priority: string;
   isRead: boolean;
+  data?: { kind?: string; moodDays?: number } | null;
   createdAt: string;
 }
 
@@ -53,6 +59,18 @@ const categoryColors = {
   GROWTH: "bg-purple-100 text-purple-800",
 };
 
+const typeCategories: Record<string, keyof typeof categoryIcons> = {
+  health: "WELLNESS",
+  wellness: "WELLNESS",
+  finance: "FINANCE",
+  social: "SOCIAL",
+  productivity: "GROWTH",
+  growth: "GROWTH",
+};
+
+const insightCategory = (insight: Insight) =>
+  insight.category || typeCategories[insight.type || ""] || "WELLNESS";
+
 const priorityColors = {
   LOW: "bg-gray-100 text-gray-800",
   MEDIUM: "bg-yellow-100 text-yellow-800",
@@ -226,7 +244,9 @@ return "Yesterday";
       {/* Insights list */}
       <div className="space-y-3 max-h-96 overflow-y-auto">
         {filteredInsights.map((insight) => {
-          const CategoryIcon = categoryIcons[insight.category as keyof typeof categoryIcons] || Heart;
+          const category = insightCategory(insight);
+          const priority = insight.priority.toUpperCase();
+          const CategoryIcon = categoryIcons[category as keyof typeof categoryIcons] || Heart;
 
           return (
             <Card
@@ -242,25 +262,36 @@ return "Yesterday";
                       <CategoryIcon className="h-4 w-4 text-gray-500" />
                       <Badge
                         variant="secondary"
-                        className={`text-xs ${categoryColors[insight.category as keyof typeof categoryColors]}`}
+                        className={`text-xs ${categoryColors[category as keyof typeof categoryColors]}`}
                       >
-                        {insight.category}
+                        {category}
                       </Badge>
                       <Badge
                         variant="secondary"
-                        className={`text-xs ${priorityColors[insight.priority as keyof typeof priorityColors]}`}
+                        className={`text-xs ${priorityColors[priority as keyof typeof priorityColors]}`}
                       >
-                        {insight.priority}
+                        {priority}
                       </Badge>
                       {!insight.isRead && (
                         <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
                       )}
                     </div>
 
+                    {insight.title && (
+                      <p className="text-sm font-medium text-gray-900 mb-1">
+                        {insight.title}
+                      </p>
+                    )}
                     <p className="text-sm text-gray-700 mb-2">
-                      {insight.content}
+                      {insight.description || insight.content}
                     </p>
 
+                    {insight.data?.kind === "mood_correlation" && insight.data.moodDays && (
+                      <p className="text-xs text-gray-500 mb-2">
+                        Based on {insight.data.moodDays} days of mood check-ins
+                      </p>
+                    )}
+
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-2 text-xs text-gray-500">
                         <Clock className="h-3 w-3" />
@@ -0,0 +1,304 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface AccountBalance {
+  id: string;
+  name: string;
+  type: string;
+  currency: string;
+  balance: number;
+  balanceInBase: number | null;
+  rateDate: string | null;
+}
+
+interface RateCoverage {
+  base: string;
+  quote: string;
+  count: number;
+  from: string;
+  to: string;
+}
+
+interface AccountListProps {
+  onChanged?: () => void;
+}
+
+const EMPTY_ACCOUNT = {
+  name: "",
+  type: "checking",
+  currency: "",
+  openingBalance: "",
+};
+
+export default function AccountList({ onChanged }: AccountListProps) {
+  const [accounts, setAccounts] = useState<AccountBalance[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState("USD");
+  const [rates, setRates] = useState<RateCoverage[]>([]);
+  const [formData, setFormData] = useState(EMPTY_ACCOUNT);
+  const [showForm, setShowForm] = useState(false);
+  const [newBase, setNewBase] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const formatMoney = (amount: number, currency: string) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+    }).format(amount);
+  };
+
+  const fetchAccounts = async() => {
+    try {
+      const [accountsResponse, currencyResponse] = await Promise.all([
+        fetch("/api/finance/accounts"),
+        fetch("/api/finance/currency"),
+      ]);
+      if (accountsResponse.ok) {
+        const data = await accountsResponse.json();
+        setAccounts(data.accounts);
+        setBaseCurrency(data.baseCurrency);
+      }
+      if (currencyResponse.ok) {
+        const data = await currencyResponse.json();
+        setRates(data.rates);
+      }
+    } catch (error) {
+      console.error("Error fetching accounts:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchAccounts();
+  }, []);
+
+  const errorMessage = async(response: Response, fallback: string) => {
+    const data = await response.json();
+    return data.details?.[0]?.message || data.error || fallback;
+  };
+
+  const handleCreate = async(e: React.FormEvent) => {
+    e.preventDefault();
+    setIsWorking(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch("/api/finance/accounts", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...formData,
+          currency: formData.currency || baseCurrency,
+          openingBalance: parseFloat(formData.openingBalance) || 0,
+        }),
+      });
+
+      if (response.ok) {
+        setFormData(EMPTY_ACCOUNT);
+        setShowForm(false);
+        fetchAccounts();
+        onChanged?.();
+      } else {
+        setMessage(await errorMessage(response, "Failed to create account"));
+      }
+    } catch (error) {
+      console.error("Error creating account:", error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRateImport = async(file: File | null) => {
+    if (!file) {
+      return;
+    }
+    setIsWorking(true);
+    setMessage(null);
+
+    try {
+      const data = new FormData();
+      data.append("file", file);
+      const response = await fetch("/api/finance/currency/rates", { method: "POST", body: data });
+
+      if (response.ok) {
+        const result = await response.json();
+        setMessage(`Imported ${result.imported} rates for ${result.pairs.length} currency pairs`);
+        fetchAccounts();
+      } else {
+        setMessage(await errorMessage(response, "Rate import failed"));
+      }
+    } catch (error) {
+      console.error("Error importing exchange rates:", error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleBaseCurrencyChange = async() => {
+    setIsWorking(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch("/api/finance/currency", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ baseCurrency: newBase }),
+      });
+
+      if (response.ok) {
+        setNewBase("");
+        fetchAccounts();
+        onChanged?.();
+      } else {
+        setMessage(await errorMessage(response, "Failed to change base currency"));
+      }
+    } catch (error) {
+      console.error("Error changing base currency:", error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Accounts</span>
+          <Button variant="outline" size="sm" onClick={() => setShowForm(!showForm)}>
+            {showForm ? "Cancel" : "+ Add Account"}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showForm && (
+          <form onSubmit={handleCreate} className="grid grid-cols-2 gap-3 border rounded-lg p-3">
+            <div className="col-span-2">
+              <label className="text-sm font-medium">Name</label>
+              <Input
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Euro savings, travel card..."
+                required
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium">Type</label>
+              <Select value={formData.type} onValueChange={(value) => setFormData(prev => ({ ...prev, type: value }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="checking">Checking</SelectItem>
+                  <SelectItem value="savings">Savings</SelectItem>
+                  <SelectItem value="credit">Credit card</SelectItem>
+                  <SelectItem value="cash">Cash</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium">Currency</label>
+              <Input
+                value={formData.currency}
+                onChange={(e) => setFormData(prev => ({ ...prev, currency: e.target.value.toUpperCase() }))}
+                placeholder={baseCurrency}
+                maxLength={3}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="text-sm font-medium">Opening balance</label>
+              <Input
+                type="number"
+                step="0.01"
+                value={formData.openingBalance}
+                onChange={(e) => setFormData(prev => ({ ...prev, openingBalance: e.target.value }))}
+                placeholder="0.00"
+              />
+            </div>
+            <Button type="submit" className="col-span-2" disabled={isWorking}>
+              {isWorking ? "Saving..." : "Save"}
+            </Button>
+          </form>
+        )}
+
+        {accounts.length > 0 ? (
+          <div className="space-y-2">
+            {accounts.map((account) => (
+              <div key={account.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <p className="font-medium">{account.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {account.type} • {account.currency}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="font-bold">{formatMoney(account.balance, account.currency)}</p>
+                  {account.currency !== baseCurrency && (
+                    <p className="text-xs text-muted-foreground">
+                      {account.balanceInBase !== null
+                        ? `≈ ${formatMoney(account.balanceInBase, baseCurrency)} (rate of ${new Date(account.rateDate!).toLocaleDateString()})`
+                        : `No recent ${account.currency}/${baseCurrency} rate`}
+                    </p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          !showForm && (
+            <p className="text-sm text-muted-foreground">
+              No accounts yet. Add one per bank account or card to track balances in their own currency.
+            </p>
+          )
+        )}
+
+        <div className="border-t pt-4 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm">
+              Base currency: <span className="font-medium">{baseCurrency}</span>
+            </span>
+            <div className="flex items-center gap-2">
+              <Input
+                className="w-20"
+                value={newBase}
+                onChange={(e) => setNewBase(e.target.value.toUpperCase())}
+                placeholder="EUR"
+                maxLength={3}
+              />
+              <Button variant="outline" size="sm" onClick={handleBaseCurrencyChange} disabled={isWorking || newBase.length !== 3}>
+                Change
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm text-muted-foreground">
+              {rates.length > 0
+                ? `Rates for ${rates.length} pairs, up to ${new Date(Math.max(...rates.map((rate) => new Date(rate.to).getTime()))).toLocaleDateString()}`
+                : "No exchange rates stored"}
+            </span>
+            <label className="text-sm font-medium underline cursor-pointer">
+              Import rates (ECB XML/CSV)
+              <input
+                type="file"
+                accept=".xml,.csv"
+                className="hidden"
+                disabled={isWorking}
+                onChange={(e) => handleRateImport(e.target.files?.[0] || null)}
+              />
+            </label>
+          </div>
+
+          {message && <p className="text-sm text-muted-foreground">{message}</p>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
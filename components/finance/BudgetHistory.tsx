@@ -0,0 +1,132 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface BudgetPeriod {
+  id: string;
+  periodStart: string;
+  periodEnd: string;
+  allocated: number;
+  carriedIn: number;
+  transfersIn: number;
+  transfersOut: number;
+  spent: number;
+  closingBalance: number;
+  closed: boolean;
+}
+
+interface BudgetHistoryProps {
+  budgetId: string;
+  rollover: string;
+  onRolloverChange: () => void;
+}
+
+const ROLLOVER_LABELS: Record<string, string> = {
+  reset: "Start fresh each period",
+  carry_surplus: "Carry unspent money over",
+  carry_deficit: "Carry overspending over",
+};
+
+export default function BudgetHistory({ budgetId, rollover, onRolloverChange }: BudgetHistoryProps) {
+  const [periods, setPeriods] = useState<BudgetPeriod[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+    }).format(amount);
+  };
+
+  const formatRange = (start: string, end: string) => {
+    const options: Intl.DateTimeFormatOptions = { month: "short", day: "numeric", timeZone: "UTC" };
+    // periodEnd is exclusive
+    const last = new Date(new Date(end).getTime() - 24 * 60 * 60 * 1000);
+    return `${new Date(start).toLocaleDateString("en-US", options)} – ${last.toLocaleDateString("en-US", options)}`;
+  };
+
+  const fetchHistory = async() => {
+    try {
+      const response = await fetch(`/api/finance/budgets/${budgetId}/history`);
+      if (response.ok) {
+        const data = await response.json();
+        setPeriods(data.periods);
+      }
+    } catch (error) {
+      console.error("Error fetching budget history:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchHistory();
+  }, [budgetId, rollover]);
+
+  const handleRolloverChange = async(value: string) => {
+    try {
+      const response = await fetch("/api/finance/budgets", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ id: budgetId, rollover: value }),
+      });
+      if (response.ok) {
+        onRolloverChange();
+      }
+    } catch (error) {
+      console.error("Error updating rollover mode:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-3 border rounded-lg p-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">At the end of each period</span>
+        <Select value={rollover} onValueChange={handleRolloverChange}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(ROLLOVER_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading history...</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="font-normal">Period</th>
+              <th className="font-normal text-right">Budget</th>
+              <th className="font-normal text-right">Carried</th>
+              <th className="font-normal text-right">Moved</th>
+              <th className="font-normal text-right">Spent</th>
+              <th className="font-normal text-right">Left</th>
+            </tr>
+          </thead>
+          <tbody>
+            {periods.map((period) => (
+              <tr key={period.id} className={period.closed ? "" : "font-medium"}>
+                <td>{formatRange(period.periodStart, period.periodEnd)}</td>
+                <td className="text-right">{formatCurrency(period.allocated)}</td>
+                <td className="text-right">{formatCurrency(period.carriedIn)}</td>
+                <td className="text-right">{formatCurrency(period.transfersIn - period.transfersOut)}</td>
+                <td className="text-right">{formatCurrency(period.spent)}</td>
+                <td className={`text-right ${period.closingBalance < 0 ? "text-red-600" : "text-green-600"}`}>
+                  {formatCurrency(period.closingBalance)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,10 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useState } from "react";
+import BudgetTransferForm from "@/components/finance/BudgetTransferForm";
+import BudgetHistory from "@/components/finance/BudgetHistory";
 
 interface Budget {
   id: string;
@@ -10,7 +14,13 @@ interface Budget {
   category: string;
   amount: number;
   period: string;
+  rollover: string;
   spent: number;
+  available: number; // Amount plus carry-over and transfers for the current period
+  carriedIn: number;
+  transferred: number;
+  periodStart: string;
+  periodEnd: string;
   remaining: number;
   progress: number;
   isOverBudget: boolean;
@@ -18,9 +28,13 @@ interface Budget {
 
 interface BudgetTrackerProps {
   budgets: Budget[];
+  onChanged?: () => void;
 }
 
-export default function BudgetTracker({ budgets }: BudgetTrackerProps) {
+export default function BudgetTracker({ budgets, onChanged }: BudgetTrackerProps) {
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [historyBudgetId, setHistoryBudgetId] = useState<string | null>(null);
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
@@ -28,6 +42,13 @@ export default function BudgetTracker({ budgets }: BudgetTrackerProps) {
     }).format(amount);
   };
 
+  const formatPeriod = (start: string, end: string) => {
+    const options: Intl.DateTimeFormatOptions = { month: "short", day: "numeric", timeZone: "UTC" };
+    // periodEnd is exclusive
+    const last = new Date(new Date(end).getTime() - 24 * 60 * 60 * 1000);
+    return `${new Date(start).toLocaleDateString("en-US", options)} – ${last.toLocaleDateString("en-US", options)}`;
+  };
+
   const getProgressColor = (progress: number, isOverBudget: boolean) => {
     if (isOverBudget) {
 return "bg-red-500";
@@ -68,24 +89,41 @@ return "text-yellow-600";
       <CardHeader>
         <CardTitle className="flex items-center justify-between">
           Budget Tracker
-          <Badge variant="outline">
-            {budgets.filter(b => b.isOverBudget).length} Over Budget
-          </Badge>
+          <div className="flex items-center gap-2">
+            {budgets.length > 1 && (
+              <Button variant="outline" size="sm" onClick={() => setShowTransfer(!showTransfer)}>
+                Move Money
+              </Button>
+            )}
+            <Badge variant="outline">
+              {budgets.filter(b => b.isOverBudget).length} Over Budget
+            </Badge>
+          </div>
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
+        {showTransfer && (
+          <BudgetTransferForm
+            budgets={budgets}
+            onCancel={() => setShowTransfer(false)}
+            onTransferred={() => {
+              setShowTransfer(false);
+              onChanged?.();
+            }}
+          />
+        )}
         {budgets.map((budget) => (
           <div key={budget.id} className="space-y-2">
             <div className="flex items-center justify-between">
               <div>
                 <h4 className="font-medium">{budget.name}</h4>
                 <p className="text-sm text-muted-foreground">
-                  {budget.category} • {budget.period}
+                  {budget.category} • {budget.period} • {formatPeriod(budget.periodStart, budget.periodEnd)}
                 </p>
               </div>
               <div className="text-right">
                 <p className="font-medium">
-                  {formatCurrency(budget.spent)} / {formatCurrency(budget.amount)}
+                  {formatCurrency(budget.spent)} / {formatCurrency(budget.available)}
                 </p>
                 <p className={`text-sm font-medium ${getProgressTextColor(budget.progress, budget.isOverBudget)}`}>
                   {budget.progress.toFixed(1)}%
@@ -109,6 +147,31 @@ return "text-yellow-600";
               </div>
             </div>
 
+            {(budget.carriedIn !== 0 || budget.transferred !== 0) && (
+              <p className="text-xs text-muted-foreground">
+                {formatCurrency(budget.amount)} budget
+                {budget.carriedIn !== 0 && ` ${budget.carriedIn > 0 ? "+" : "−"} ${formatCurrency(Math.abs(budget.carriedIn))} carried over`}
+                {budget.transferred !== 0 && ` ${budget.transferred > 0 ? "+" : "−"} ${formatCurrency(Math.abs(budget.transferred))} moved`}
+              </p>
+            )}
+
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => setHistoryBudgetId(historyBudgetId === budget.id ? null : budget.id)}
+            >
+              {historyBudgetId === budget.id ? "Hide history" : "History & rollover"}
+            </Button>
+
+            {historyBudgetId === budget.id && (
+              <BudgetHistory
+                budgetId={budget.id}
+                rollover={budget.rollover}
+                onRolloverChange={() => onChanged?.()}
+              />
+            )}
+
             {budget.isOverBudget && (
               <div className="bg-red-50 border border-red-200 rounded-md p-2">
                 <p className="text-red-700 text-sm font-medium">
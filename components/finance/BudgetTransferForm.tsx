@@ -0,0 +1,120 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface BudgetTransferFormProps {
+  budgets: { id: string; name: string; remaining: number }[];
+  onTransferred: () => void;
+  onCancel: () => void;
+}
+
+export default function BudgetTransferForm({ budgets, onTransferred, onCancel }: BudgetTransferFormProps) {
+  const [formData, setFormData] = useState({ fromBudgetId: "", toBudgetId: "", amount: "", note: "" });
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+    }).format(amount);
+  };
+
+  const handleSubmit = async(e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/finance/budgets/transfers", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...formData,
+          amount: parseFloat(formData.amount),
+          note: formData.note || null,
+        }),
+      });
+
+      if (response.ok) {
+        onTransferred();
+      } else {
+        const data = await response.json();
+        setError(
+          data.available !== undefined
+            ? `Only ${formatCurrency(data.available)} left in that envelope`
+            : data.details?.[0]?.message || data.error || "Transfer failed"
+        );
+      }
+    } catch (transferError) {
+      console.error("Error transferring between budgets:", transferError);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-3 border rounded-lg p-3">
+      <div>
+        <label className="text-sm font-medium">From</label>
+        <Select value={formData.fromBudgetId} onValueChange={(value) => setFormData(prev => ({ ...prev, fromBudgetId: value }))}>
+          <SelectTrigger>
+            <SelectValue placeholder="Envelope" />
+          </SelectTrigger>
+          <SelectContent>
+            {budgets.map((budget) => (
+              <SelectItem key={budget.id} value={budget.id}>
+                {budget.name} ({formatCurrency(budget.remaining)})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <label className="text-sm font-medium">To</label>
+        <Select value={formData.toBudgetId} onValueChange={(value) => setFormData(prev => ({ ...prev, toBudgetId: value }))}>
+          <SelectTrigger>
+            <SelectValue placeholder="Envelope" />
+          </SelectTrigger>
+          <SelectContent>
+            {budgets
+              .filter((budget) => budget.id !== formData.fromBudgetId)
+              .map((budget) => (
+                <SelectItem key={budget.id} value={budget.id}>{budget.name}</SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <label className="text-sm font-medium">Amount</label>
+        <Input
+          type="number"
+          step="0.01"
+          min="0.01"
+          value={formData.amount}
+          onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+          required
+        />
+      </div>
+      <div>
+        <label className="text-sm font-medium">Note (Optional)</label>
+        <Input
+          value={formData.note}
+          onChange={(e) => setFormData(prev => ({ ...prev, note: e.target.value }))}
+        />
+      </div>
+      {error && <p className="col-span-2 text-sm text-red-600">{error}</p>}
+      <Button type="button" variant="outline" onClick={onCancel}>
+        Cancel
+      </Button>
+      <Button type="submit" disabled={isSaving || !formData.fromBudgetId || !formData.toBudgetId}>
+        {isSaving ? "Moving..." : "Move Money"}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+
+interface CategoryConfidenceBadgeProps {
+  source?: string | null;
+  confidence?: number | null;
+}
+
+// Marks categories the engine picked, so the user knows which ones to double-check
+export default function CategoryConfidenceBadge({ source, confidence }: CategoryConfidenceBadgeProps) {
+  if (source === "rule") {
+    return (
+      <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200" title="Assigned by one of your rules">
+        Rule
+      </Badge>
+    );
+  }
+
+  if (source !== "classifier" || typeof confidence !== "number") {
+    return null;
+  }
+
+  const percent = Math.round(confidence * 100);
+  const color = percent >= 85
+    ? "bg-green-50 text-green-700 border-green-200"
+    : percent >= 70
+      ? "bg-yellow-50 text-yellow-700 border-yellow-200"
+      : "bg-orange-50 text-orange-700 border-orange-200";
+
+  return (
+    <Badge variant="outline" className={color} title="Guessed from your past transactions">
+      Auto {percent}%
+    </Badge>
+  );
+}
@@ -0,0 +1,273 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface CategoryRule {
+  id: string;
+  category: string;
+  type?: string | null;
+  payeePattern?: string | null;
+  merchantAliases: string[];
+  minAmount?: number | null;
+  maxAmount?: number | null;
+  priority: number;
+  enabled: boolean;
+}
+
+interface RecategorizeResult {
+  scanned: number;
+  updated: number;
+  byCategory: Record<string, number>;
+}
+
+interface CategoryRulesProps {
+  onRecategorized: () => void;
+}
+
+const ANY_TYPE = "any";
+
+const EMPTY_RULE = {
+  category: "",
+  type: ANY_TYPE,
+  payeePattern: "",
+  merchantAliases: "",
+  minAmount: "",
+  maxAmount: "",
+  priority: "0",
+};
+
+export default function CategoryRules({ onRecategorized }: CategoryRulesProps) {
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [formData, setFormData] = useState(EMPTY_RULE);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRecategorizing, setIsRecategorizing] = useState(false);
+  const [lastRun, setLastRun] = useState<RecategorizeResult | null>(null);
+
+  const fetchRules = async() => {
+    try {
+      const response = await fetch("/api/finance/categories/rules");
+      if (response.ok) {
+        const data = await response.json();
+        setRules(data.rules);
+      }
+    } catch (fetchError) {
+      console.error("Error fetching category rules:", fetchError);
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const handleSubmit = async(e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/finance/categories/rules", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          category: formData.category,
+          type: formData.type === ANY_TYPE ? null : formData.type,
+          payeePattern: formData.payeePattern || null,
+          merchantAliases: formData.merchantAliases.split(",").map((alias) => alias.trim()).filter(Boolean),
+          minAmount: formData.minAmount ? parseFloat(formData.minAmount) : null,
+          maxAmount: formData.maxAmount ? parseFloat(formData.maxAmount) : null,
+          priority: parseInt(formData.priority) || 0,
+        }),
+      });
+
+      if (response.ok) {
+        setFormData(EMPTY_RULE);
+        fetchRules();
+      } else {
+        const data = await response.json();
+        setError(data.details?.[0]?.message || data.error || "Failed to save rule");
+      }
+    } catch (saveError) {
+      console.error("Error creating category rule:", saveError);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async(id: string) => {
+    try {
+      const response = await fetch(`/api/finance/categories/rules/${id}`, { method: "DELETE" });
+      if (response.ok) {
+        setRules((prev) => prev.filter((rule) => rule.id !== id));
+      }
+    } catch (deleteError) {
+      console.error("Error deleting category rule:", deleteError);
+    }
+  };
+
+  const handleRecategorize = async() => {
+    setIsRecategorizing(true);
+
+    try {
+      const response = await fetch("/api/finance/categories/recategorize", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({}),
+      });
+
+      if (response.ok) {
+        setLastRun(await response.json());
+        onRecategorized();
+      }
+    } catch (runError) {
+      console.error("Error recategorizing transactions:", runError);
+    } finally {
+      setIsRecategorizing(false);
+    }
+  };
+
+  const describeRule = (rule: CategoryRule) => {
+    const parts: string[] = [];
+    if (rule.payeePattern) {
+      parts.push(`matches /${rule.payeePattern}/`);
+    }
+    if (rule.merchantAliases.length > 0) {
+      parts.push(`merchant is ${rule.merchantAliases.join(" or ")}`);
+    }
+    if (typeof rule.minAmount === "number" || typeof rule.maxAmount === "number") {
+      parts.push(`amount ${rule.minAmount ?? 0}–${rule.maxAmount ?? "∞"}`);
+    }
+    if (rule.type) {
+      parts.push(rule.type.toLowerCase());
+    }
+    return parts.join(", ");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Categorization Rules</span>
+          <Button variant="outline" size="sm" onClick={handleRecategorize} disabled={isRecategorizing}>
+            {isRecategorizing ? "Re-categorizing..." : "Re-categorize All"}
+          </Button>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Rules run first, highest priority wins. Anything left over is guessed from your past transactions.
+          Categories you picked yourself are never changed.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {lastRun && (
+          <p className="text-sm">
+            Updated {lastRun.updated} of {lastRun.scanned} transactions
+            {Object.keys(lastRun.byCategory).length > 0 && (
+              <span className="text-muted-foreground">
+                {" "}({Object.entries(lastRun.byCategory).map(([category, count]) => `${category}: ${count}`).join(", ")})
+              </span>
+            )}
+          </p>
+        )}
+
+        {rules.length > 0 ? (
+          <div className="space-y-2">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary">{rule.category}</Badge>
+                  <span className="text-sm text-muted-foreground">{describeRule(rule)}</span>
+                  {rule.priority !== 0 && <Badge variant="outline">priority {rule.priority}</Badge>}
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(rule.id)}>
+                  ✕
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No rules yet.</p>
+        )}
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end border-t pt-4">
+          <div>
+            <label className="text-sm font-medium">Category</label>
+            <Input
+              value={formData.category}
+              onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value }))}
+              placeholder="Groceries"
+              required
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium">Payee pattern (regex)</label>
+            <Input
+              value={formData.payeePattern}
+              onChange={(e) => setFormData(prev => ({ ...prev, payeePattern: e.target.value }))}
+              placeholder="^(REWE|ALDI)"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium">Merchant aliases</label>
+            <Input
+              value={formData.merchantAliases}
+              onChange={(e) => setFormData(prev => ({ ...prev, merchantAliases: e.target.value }))}
+              placeholder="AMZN MKTP, Amazon.com"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium">Type</label>
+            <Select value={formData.type} onValueChange={(value) => setFormData(prev => ({ ...prev, type: value }))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_TYPE}>Any</SelectItem>
+                <SelectItem value="Expense">Expense</SelectItem>
+                <SelectItem value="Income">Income</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-sm font-medium">Min amount</label>
+            <Input
+              type="number"
+              step="0.01"
+              value={formData.minAmount}
+              onChange={(e) => setFormData(prev => ({ ...prev, minAmount: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium">Max amount</label>
+            <Input
+              type="number"
+              step="0.01"
+              value={formData.maxAmount}
+              onChange={(e) => setFormData(prev => ({ ...prev, maxAmount: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium">Priority</label>
+            <Input
+              type="number"
+              value={formData.priority}
+              onChange={(e) => setFormData(prev => ({ ...prev, priority: e.target.value }))}
+            />
+          </div>
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? "Saving..." : "+ Add Rule"}
+          </Button>
+          {error && <p className="text-sm text-red-600 md:col-span-4">{error}</p>}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,15 +2,33 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
 import { useState } from "react";
-import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import {
+  PieChart, Pie, Cell, BarChart, Bar, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend,
+  ReferenceLine, ReferenceDot, ResponsiveContainer,
+} from "recharts";
+import type { CashFlowForecast } from "@/lib/finance/cash-flow-forecast";
 
 interface FinanceDashboardChartProps {
   expensesByCategory: Record<string, number>;
   recentTransactions: any[];
   period: string;
+  forecast?: CashFlowForecast;
+  forecastDays?: number;
+  onForecastDaysChange?: (days: number) => void;
 }
 
+type ChartType = "pie" | "bar" | "forecast";
+
+const GOAL_STATUS_LABELS: Record<string, string> = {
+  complete: "Complete",
+  on_track: "On track",
+  at_risk: "At risk",
+  overdue: "Overdue",
+  no_deadline: "No deadline",
+};
+
 const COLORS = [
   "#8884d8", "#82ca9d", "#ffc658", "#ff7300", "#ff0000",
   "#00ff00", "#0000ff", "#ffff00", "#ff00ff", "#00ffff",
@@ -20,8 +38,11 @@ export default function FinanceDashboardChart({
   expensesByCategory,
   recentTransactions,
   period,
+  forecast,
+  forecastDays = 90,
+  onForecastDaysChange,
 }: FinanceDashboardChartProps) {
-  const [chartType, setChartType] = useState<"pie" | "bar">("pie");
+  const [chartType, setChartType] = useState<ChartType>("pie");
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("en-US", {
@@ -114,7 +135,70 @@ export default function FinanceDashboardChart({
     </ResponsiveContainer>
   );
 
-  if (Object.keys(expensesByCategory).length === 0) {
+  const formatDay = (date: string) => {
+    return new Date(`${date}T12:00:00Z`).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  const renderForecastChart = () => {
+    if (!forecast) {
+      return null;
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span>
+            {formatCurrency(forecast.startingBalance)} today → {formatCurrency(forecast.endingBalance)} in{" "}
+            {forecast.horizonDays} days
+          </span>
+          {forecast.firstOverdraftDate ? (
+            <Badge className="bg-red-100 text-red-800">
+              Overdraft projected {formatDay(forecast.firstOverdraftDate)}
+            </Badge>
+          ) : (
+            <Badge className="bg-green-100 text-green-800">No overdraft projected</Badge>
+          )}
+        </div>
+
+        <ResponsiveContainer width="100%" height={300}>
+          <AreaChart data={forecast.points}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="date" tickFormatter={formatDay} minTickGap={24} />
+            <YAxis tickFormatter={(value) => `$${value}`} />
+            <Tooltip
+              labelFormatter={(label: string) => formatDay(label)}
+              formatter={(value: number) => formatCurrency(value)}
+            />
+            <ReferenceLine y={0} stroke="#ff0000" strokeDasharray="4 4" />
+            <Area type="monotone" dataKey="balance" name="Projected balance" stroke="#8884d8" fill="#8884d8" fillOpacity={0.2} />
+            {forecast.overdrafts.map((overdraft) => (
+              <ReferenceDot key={overdraft.date} x={overdraft.date} y={overdraft.balance} r={5} fill="#ff0000" stroke="none" />
+            ))}
+          </AreaChart>
+        </ResponsiveContainer>
+
+        {forecast.goals.length > 0 && (
+          <div className="space-y-1 text-sm">
+            {forecast.goals.map((goal) => (
+              <div key={goal.id} className="flex items-center justify-between">
+                <span className="truncate">{goal.name}</span>
+                <span className={goal.onTrack ? "text-green-600" : "text-yellow-600"}>
+                  {GOAL_STATUS_LABELS[goal.status]}
+                  {goal.status === "at_risk" && goal.requiredPerMonth !== null &&
+                    ` (needs ${formatCurrency(goal.requiredPerMonth)}/mo)`}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  if (Object.keys(expensesByCategory).length === 0 && !forecast) {
     return (
       <Card>
         <CardHeader>
@@ -134,19 +218,39 @@ export default function FinanceDashboardChart({
       <CardHeader>
         <div className="flex items-center justify-between">
           <CardTitle>Financial Overview</CardTitle>
-          <Select value={chartType} onValueChange={(value: "pie" | "bar") => setChartType(value)}>
-            <SelectTrigger className="w-32">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="pie">Pie Chart</SelectItem>
-              <SelectItem value="bar">Bar Chart</SelectItem>
-            </SelectContent>
-          </Select>
+          <div className="flex items-center gap-2">
+            {chartType === "forecast" && onForecastDaysChange && (
+              <Select
+                value={String(forecastDays)}
+                onValueChange={(value) => onForecastDaysChange(parseInt(value))}
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="30">30 days</SelectItem>
+                  <SelectItem value="90">90 days</SelectItem>
+                  <SelectItem value="365">1 year</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={chartType} onValueChange={(value: ChartType) => setChartType(value)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pie">Pie Chart</SelectItem>
+                <SelectItem value="bar">Bar Chart</SelectItem>
+                {forecast && <SelectItem value="forecast">Forecast</SelectItem>}
+              </SelectContent>
+            </Select>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
-        {chartType === "pie" ? renderPieChart() : renderBarChart()}
+        {chartType === "forecast"
+          ? renderForecastChart()
+          : chartType === "pie" ? renderPieChart() : renderBarChart()}
 
         {chartType === "pie" && (
           <div className="mt-4 grid grid-cols-2 gap-2 text-sm">
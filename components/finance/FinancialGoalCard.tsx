@@ -17,6 +17,7 @@ interface FinancialGoal {
   remaining: number;
   daysRemaining: number;
   isOnTrack: boolean;
+  forecastStatus?: "complete" | "on_track" | "at_risk" | "overdue" | "no_deadline";
 }
 
 interface FinancialGoalCardProps {
@@ -126,9 +127,16 @@ return "text-yellow-600";
           />
           <div className="flex justify-between text-xs text-muted-foreground">
             <span>{goal.progress.toFixed(1)}% complete</span>
-            <span className={goal.isOnTrack ? "text-green-600" : "text-yellow-600"}>
-              {goal.isOnTrack ? "On track" : "Behind schedule"}
-            </span>
+            {goal.forecastStatus === "no_deadline" ? (
+              <span>No deadline</span>
+            ) : (
+              <span
+                className={goal.isOnTrack ? "text-green-600" : "text-yellow-600"}
+                title="Based on your projected cash flow until the deadline"
+              >
+                {goal.isOnTrack ? "On track" : "Behind schedule"}
+              </span>
+            )}
           </div>
         </div>
 
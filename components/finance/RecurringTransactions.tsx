@@ -0,0 +1,255 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface RecurringTransaction {
+  id: string;
+  description: string;
+  amount: number;
+  type: string;
+  category: string;
+  frequency: string;
+  rrule: string;
+  startDate: string;
+  endDate?: string | null;
+  nextOccurrence?: string | null;
+  active: boolean;
+}
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  weekly: "Weekly",
+  biweekly: "Every 2 weeks",
+  monthly: "Monthly",
+  custom: "Custom",
+};
+
+const EMPTY_TEMPLATE = {
+  description: "",
+  amount: "",
+  type: "Expense",
+  category: "",
+  frequency: "monthly",
+  rrule: "",
+  startDate: new Date().toISOString().split("T")[0],
+  endDate: "",
+};
+
+export default function RecurringTransactions() {
+  const [templates, setTemplates] = useState<RecurringTransaction[]>([]);
+  const [formData, setFormData] = useState(EMPTY_TEMPLATE);
+  const [showForm, setShowForm] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+    }).format(amount);
+  };
+
+  const fetchTemplates = async() => {
+    try {
+      const response = await fetch("/api/finance/recurring");
+      if (response.ok) {
+        const data = await response.json();
+        setTemplates(data.recurring);
+      }
+    } catch (fetchError) {
+      console.error("Error fetching recurring transactions:", fetchError);
+    }
+  };
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const handleSubmit = async(e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/finance/recurring", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...formData,
+          amount: parseFloat(formData.amount),
+          rrule: formData.frequency === "custom" ? formData.rrule : null,
+          endDate: formData.endDate || null,
+        }),
+      });
+
+      if (response.ok) {
+        setFormData(EMPTY_TEMPLATE);
+        setShowForm(false);
+        fetchTemplates();
+      } else {
+        const data = await response.json();
+        setError(data.details?.[0]?.message || data.error || "Failed to save");
+      }
+    } catch (saveError) {
+      console.error("Error creating recurring transaction:", saveError);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async(id: string) => {
+    try {
+      const response = await fetch(`/api/finance/recurring/${id}`, { method: "DELETE" });
+      if (response.ok) {
+        setTemplates((prev) => prev.filter((template) => template.id !== id));
+      }
+    } catch (deleteError) {
+      console.error("Error deleting recurring transaction:", deleteError);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Recurring Bills & Income</span>
+          <Button variant="outline" size="sm" onClick={() => setShowForm(!showForm)}>
+            {showForm ? "Cancel" : "+ Add Recurring"}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showForm && (
+          <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-3 border rounded-lg p-3">
+            <div className="col-span-2">
+              <label className="text-sm font-medium">Description</label>
+              <Input
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="Rent, paycheck, gym..."
+                required
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium">Amount</label>
+              <Input
+                type="number"
+                step="0.01"
+                value={formData.amount}
+                onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+                required
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium">Type</label>
+              <Select value={formData.type} onValueChange={(value) => setFormData(prev => ({ ...prev, type: value }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="Expense">Expense</SelectItem>
+                  <SelectItem value="Income">Income</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium">Category</label>
+              <Input
+                value={formData.category}
+                onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value }))}
+                required
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium">Repeats</label>
+              <Select value={formData.frequency} onValueChange={(value) => setFormData(prev => ({ ...prev, frequency: value }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {formData.frequency === "custom" && (
+              <div className="col-span-2">
+                <label className="text-sm font-medium">RRULE</label>
+                <Input
+                  value={formData.rrule}
+                  onChange={(e) => setFormData(prev => ({ ...prev, rrule: e.target.value }))}
+                  placeholder="FREQ=MONTHLY;BYDAY=-1FR (last Friday of the month)"
+                  required
+                />
+              </div>
+            )}
+            <div>
+              <label className="text-sm font-medium">Starts</label>
+              <Input
+                type="date"
+                value={formData.startDate}
+                onChange={(e) => setFormData(prev => ({ ...prev, startDate: e.target.value }))}
+                required
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium">Ends (Optional)</label>
+              <Input
+                type="date"
+                value={formData.endDate}
+                onChange={(e) => setFormData(prev => ({ ...prev, endDate: e.target.value }))}
+              />
+            </div>
+            {error && <p className="col-span-2 text-sm text-red-600">{error}</p>}
+            <Button type="submit" className="col-span-2" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </form>
+        )}
+
+        {templates.length > 0 ? (
+          <div className="space-y-2">
+            {templates.map((template) => (
+              <div key={template.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <p className="font-medium">{template.description}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {FREQUENCY_LABELS[template.frequency] || template.frequency}
+                    {template.frequency === "custom" && ` (${template.rrule})`}
+                    {" • "}
+                    {template.nextOccurrence
+                      ? `next ${new Date(template.nextOccurrence).toLocaleDateString()}`
+                      : "ended"}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {!template.active && <Badge variant="outline">Paused</Badge>}
+                  <span className={`font-bold ${template.type === "Income" ? "text-green-600" : "text-red-600"}`}>
+                    {template.type === "Income" ? "+" : "-"}
+                    {formatCurrency(template.amount)}
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(template.id)}>
+                    ✕
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          !showForm && (
+            <p className="text-sm text-muted-foreground">
+              No recurring transactions. Add rent, paychecks or bills to have them recorded automatically.
+            </p>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,456 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  CsvColumnMapping,
+  DATE_FORMATS,
+  DateFormat,
+  StatementFormat,
+  detectStatementFormat,
+  readCsvHeader,
+} from "@/lib/finance/statement-parsers";
+
+interface StatementImportProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (result: any) => void;
+}
+
+interface SavedMapping {
+  id: string;
+  bankName: string;
+  mapping: CsvColumnMapping;
+}
+
+interface PreviewRow {
+  date: string;
+  amount: number;
+  description: string;
+  category?: string;
+  duplicate?: { existingId: string; reason: "reference" | "fuzzy"; similarity: number };
+}
+
+interface Preview {
+  format: StatementFormat;
+  rows: PreviewRow[];
+  errors: string[];
+  duplicateCount: number;
+}
+
+// Mapping fields the user picks a CSV column for
+const COLUMN_FIELDS: { key: keyof CsvColumnMapping; label: string; required?: boolean }[] = [
+  { key: "date", label: "Date", required: true },
+  { key: "description", label: "Description", required: true },
+  { key: "amount", label: "Amount (signed)" },
+  { key: "debit", label: "Debit" },
+  { key: "credit", label: "Credit" },
+  { key: "category", label: "Category" },
+  { key: "memo", label: "Memo" },
+  { key: "reference", label: "Reference" },
+];
+
+const NONE = "__none";
+const PREVIEW_ROWS = 50;
+
+const EMPTY_MAPPING: CsvColumnMapping = {
+  date: "",
+  description: "",
+  dateFormat: "YYYY-MM-DD",
+};
+
+export default function StatementImport({ isOpen, onClose, onImported }: StatementImportProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<StatementFormat>("csv");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>(EMPTY_MAPPING);
+  const [bankName, setBankName] = useState("");
+  const [saveMapping, setSaveMapping] = useState(true);
+  const [qifDateFormat, setQifDateFormat] = useState<DateFormat>("MM/DD/YYYY");
+  const [savedMappings, setSavedMappings] = useState<SavedMapping[]>([]);
+  const [accounts, setAccounts] = useState<{ id: string; name: string; currency: string }[]>([]);
+  const [accountId, setAccountId] = useState(NONE);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    fetch("/api/finance/import/mappings")
+      .then((response) => (response.ok ? response.json() : { mappings: [] }))
+      .then((data) => setSavedMappings(data.mappings || []))
+      .catch((fetchError) => console.error("Error fetching import mappings:", fetchError));
+    fetch("/api/finance/accounts")
+      .then((response) => (response.ok ? response.json() : { accounts: [] }))
+      .then((data) => setAccounts(data.accounts || []))
+      .catch((fetchError) => console.error("Error fetching accounts:", fetchError));
+  }, [isOpen]);
+
+  const reset = () => {
+    setFile(null);
+    setHeaders([]);
+    setMapping(EMPTY_MAPPING);
+    setBankName("");
+    setAccountId(NONE);
+    setPreview(null);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async(selected: File | null) => {
+    setPreview(null);
+    setError(null);
+    setFile(selected);
+
+    if (!selected) {
+      setHeaders([]);
+      return;
+    }
+
+    const content = await selected.text();
+    const detected = detectStatementFormat(selected.name, content);
+    setFormat(detected);
+    setHeaders(detected === "csv" ? readCsvHeader(content, mapping.delimiter, mapping.skipRows) : []);
+  };
+
+  const applySavedMapping = async(id: string) => {
+    const saved = savedMappings.find((entry) => entry.id === id);
+    if (!saved) {
+      return;
+    }
+    setBankName(saved.bankName);
+    setMapping(saved.mapping);
+    setPreview(null);
+    if (file) {
+      setHeaders(readCsvHeader(await file.text(), saved.mapping.delimiter, saved.mapping.skipRows));
+    }
+  };
+
+  const updateMapping = (changes: Partial<CsvColumnMapping>) => {
+    setMapping((prev) => ({ ...prev, ...changes }));
+    setPreview(null);
+  };
+
+  const buildFormData = (previewOnly: boolean) => {
+    const data = new FormData();
+    data.append("file", file as File);
+    data.append("format", format);
+    data.append("preview", String(previewOnly));
+    if (bankName) {
+      data.append("bankName", bankName);
+    }
+    if (accountId !== NONE) {
+      data.append("accountId", accountId);
+    }
+    if (format === "csv") {
+      // Drop unmapped optional columns so the schema sees them as absent
+      const cleaned = Object.fromEntries(
+        Object.entries(mapping).filter(([, value]) => value !== "" && value !== undefined)
+      );
+      data.append("mapping", JSON.stringify(cleaned));
+      data.append("saveMapping", String(saveMapping && !!bankName));
+    }
+    if (format === "qif") {
+      data.append("dateFormat", qifDateFormat);
+    }
+    return data;
+  };
+
+  const submit = async(previewOnly: boolean) => {
+    if (!file) {
+      return;
+    }
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/finance/import", {
+        method: "POST",
+        body: buildFormData(previewOnly),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.details?.[0]?.message || data.error || "Import failed");
+        return;
+      }
+
+      if (previewOnly) {
+        setPreview(data);
+      } else {
+        onImported(data);
+        handleClose();
+      }
+    } catch (submitError) {
+      console.error("Error importing statement:", submitError);
+      setError("Import failed");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const formatAmount = (amount: number) =>
+    new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const canPreview = !!file && (format !== "csv" || (!!mapping.date && !!mapping.description &&
+    !!(mapping.amount || mapping.debit || mapping.credit)));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-3xl mx-4 max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Import Bank Statement</span>
+            <Button variant="ghost" size="sm" onClick={handleClose}>
+              ✕
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <label className="text-sm font-medium">Statement file (CSV, OFX, QFX or QIF)</label>
+            <Input
+              type="file"
+              accept=".csv,.ofx,.qfx,.qif,text/csv"
+              onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+            />
+            {file && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Detected format: <Badge variant="secondary">{format.toUpperCase()}</Badge>
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium">Bank</label>
+              <Input
+                value={bankName}
+                onChange={(e) => setBankName(e.target.value)}
+                placeholder="e.g. Chase Checking"
+              />
+            </div>
+            {accounts.length > 0 && (
+              <div>
+                <label className="text-sm font-medium">Account</label>
+                <Select
+                  value={accountId}
+                  onValueChange={(value) => {
+                    setAccountId(value);
+                    setPreview(null);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No account</SelectItem>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name} ({account.currency})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {format === "csv" && savedMappings.length > 0 && (
+              <div>
+                <label className="text-sm font-medium">Saved mapping</label>
+                <Select onValueChange={applySavedMapping}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Use a saved mapping" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {savedMappings.map((saved) => (
+                      <SelectItem key={saved.id} value={saved.id}>
+                        {saved.bankName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {format === "qif" && (
+              <div>
+                <label className="text-sm font-medium">Date format</label>
+                <Select value={qifDateFormat} onValueChange={(value) => setQifDateFormat(value as DateFormat)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_FORMATS.map((dateFormat) => (
+                      <SelectItem key={dateFormat} value={dateFormat}>{dateFormat}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {format === "csv" && headers.length > 0 && (
+            <div className="space-y-3 border rounded p-3">
+              <p className="text-sm font-medium">Column mapping</p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {COLUMN_FIELDS.map((field) => (
+                  <div key={field.key}>
+                    <label className="text-xs text-muted-foreground">
+                      {field.label}{field.required ? " *" : ""}
+                    </label>
+                    <Select
+                      value={(mapping[field.key] as string) || NONE}
+                      onValueChange={(value) => updateMapping({ [field.key]: value === NONE ? undefined : value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>—</SelectItem>
+                        {headers.map((header) => (
+                          <SelectItem key={header} value={header}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+                <div>
+                  <label className="text-xs text-muted-foreground">Date format</label>
+                  <Select
+                    value={mapping.dateFormat}
+                    onValueChange={(value) => updateMapping({ dateFormat: value as DateFormat })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DATE_FORMATS.map((dateFormat) => (
+                        <SelectItem key={dateFormat} value={dateFormat}>{dateFormat}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="text-xs text-muted-foreground">Decimal separator</label>
+                  <Select
+                    value={mapping.decimalSeparator || "."}
+                    onValueChange={(value) => updateMapping({ decimalSeparator: value as "." | "," })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value=".">1,234.56</SelectItem>
+                      <SelectItem value=",">1.234,56</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={!!mapping.invertSign}
+                    onChange={(e) => updateMapping({ invertSign: e.target.checked })}
+                  />
+                  Spending is positive
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={saveMapping}
+                    onChange={(e) => setSaveMapping(e.target.checked)}
+                    disabled={!bankName}
+                  />
+                  Save for this bank
+                </label>
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {preview && (
+            <div className="space-y-2">
+              <div className="flex gap-2 text-sm">
+                <Badge variant="secondary">{preview.rows.length - preview.duplicateCount} new</Badge>
+                {preview.duplicateCount > 0 && (
+                  <Badge className="bg-yellow-100 text-yellow-800">{preview.duplicateCount} duplicates skipped</Badge>
+                )}
+                {preview.errors.length > 0 && (
+                  <Badge className="bg-red-100 text-red-800">{preview.errors.length} unreadable</Badge>
+                )}
+              </div>
+              <div className="border rounded max-h-64 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="text-left p-2">Date</th>
+                      <th className="text-left p-2">Description</th>
+                      <th className="text-right p-2">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                      <tr
+                        key={index}
+                        className={row.duplicate ? "bg-yellow-50 text-muted-foreground line-through" : "border-t"}
+                        title={row.duplicate ? `Already recorded (${row.duplicate.reason} match)` : undefined}
+                      >
+                        <td className="p-2">{new Date(row.date).toLocaleDateString()}</td>
+                        <td className="p-2">{row.description}</td>
+                        <td className={`p-2 text-right ${row.amount < 0 ? "text-red-600" : "text-green-600"}`}>
+                          {formatAmount(row.amount)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {preview.rows.length > PREVIEW_ROWS && (
+                <p className="text-xs text-muted-foreground">
+                  Showing {PREVIEW_ROWS} of {preview.rows.length} transactions
+                </p>
+              )}
+              {preview.errors.slice(0, 5).map((message) => (
+                <p key={message} className="text-xs text-red-600">{message}</p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-4">
+            <Button variant="outline" onClick={handleClose} className="flex-1" disabled={isWorking}>
+              Cancel
+            </Button>
+            {preview ? (
+              <Button
+                onClick={() => submit(false)}
+                className="flex-1"
+                disabled={isWorking || preview.rows.length === preview.duplicateCount}
+              >
+                {isWorking ? "Importing..." : `Import ${preview.rows.length - preview.duplicateCount} Transactions`}
+              </Button>
+            ) : (
+              <Button onClick={() => submit(true)} className="flex-1" disabled={isWorking || !canPreview}>
+                {isWorking ? "Reading..." : "Preview"}
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+
+interface DetectedSubscription {
+  id: string;
+  displayName: string;
+  cadence: string;
+  amount: number;
+  previousAmount?: number | null;
+  occurrences: number;
+  lastChargedAt: string;
+  nextExpectedAt: string;
+  status: string;
+}
+
+// Rough monthly cost, for the total at the top
+const MONTHLY_FACTOR: Record<string, number> = {
+  weekly: 52 / 12,
+  biweekly: 26 / 12,
+  monthly: 1,
+  quarterly: 1 / 3,
+  yearly: 1 / 12,
+};
+
+export default function SubscriptionList() {
+  const [subscriptions, setSubscriptions] = useState<DetectedSubscription[]>([]);
+  const [isScanning, setIsScanning] = useState(false);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+    }).format(amount);
+  };
+
+  const fetchSubscriptions = async() => {
+    try {
+      const response = await fetch("/api/finance/subscriptions");
+      if (response.ok) {
+        const data = await response.json();
+        setSubscriptions(data.subscriptions);
+      }
+    } catch (error) {
+      console.error("Error fetching subscriptions:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchSubscriptions();
+  }, []);
+
+  const handleScan = async() => {
+    setIsScanning(true);
+    try {
+      const response = await fetch("/api/finance/subscriptions", { method: "POST" });
+      if (response.ok) {
+        await fetchSubscriptions();
+      }
+    } catch (error) {
+      console.error("Error detecting subscriptions:", error);
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleDismiss = async(id: string) => {
+    try {
+      const response = await fetch(`/api/finance/subscriptions/${id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ status: "dismissed" }),
+      });
+      if (response.ok) {
+        setSubscriptions((prev) => prev.filter((subscription) => subscription.id !== id));
+      }
+    } catch (error) {
+      console.error("Error dismissing subscription:", error);
+    }
+  };
+
+  const active = subscriptions.filter((subscription) => subscription.status === "active");
+  const monthlyTotal = active.reduce(
+    (sum, subscription) => sum + subscription.amount * (MONTHLY_FACTOR[subscription.cadence] || 1),
+    0
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Subscriptions</span>
+          <Button variant="outline" size="sm" onClick={handleScan} disabled={isScanning}>
+            {isScanning ? "Scanning..." : "Scan History"}
+          </Button>
+        </CardTitle>
+        {active.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {active.length} active, about {formatCurrency(monthlyTotal)} per month
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        {subscriptions.length > 0 ? (
+          <div className="space-y-2">
+            {subscriptions.map((subscription) => {
+              const priceChanged = typeof subscription.previousAmount === "number" &&
+                Math.abs(subscription.amount - subscription.previousAmount) >= 0.01;
+
+              return (
+                <div key={subscription.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <p className="font-medium">{subscription.displayName}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {subscription.cadence} • {subscription.occurrences} charges •{" "}
+                      {subscription.status === "active"
+                        ? `next ~${new Date(subscription.nextExpectedAt).toLocaleDateString()}`
+                        : `last ${new Date(subscription.lastChargedAt).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {subscription.status === "inactive" && <Badge variant="outline">Stopped</Badge>}
+                    {priceChanged && (
+                      <Badge
+                        className={subscription.amount > subscription.previousAmount!
+                          ? "bg-red-100 text-red-800"
+                          : "bg-green-100 text-green-800"}
+                        title={`Was ${formatCurrency(subscription.previousAmount!)}`}
+                      >
+                        {subscription.amount > subscription.previousAmount! ? "Price up" : "Price down"}
+                      </Badge>
+                    )}
+                    <span className="font-bold">{formatCurrency(subscription.amount)}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Not a subscription"
+                      onClick={() => handleDismiss(subscription.id)}
+                    >
+                      ✕
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No subscriptions detected yet. Charges that repeat on a regular schedule will show up here.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
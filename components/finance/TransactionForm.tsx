@@ -1,12 +1,13 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import CategoryConfidenceBadge from "@/components/finance/CategoryConfidenceBadge";
 
 interface TransactionFormProps {
   isOpen: boolean;
@@ -14,6 +15,9 @@ interface TransactionFormProps {
   onSubmit: (transaction: any) => void;
 }
 
+// Select needs a non-empty value for "no account"
+const NO_ACCOUNT = "__none";
+
 const TRANSACTION_CATEGORIES = {
   Income: ["Salary", "Freelance", "Investment", "Gift", "Other"],
   Expense: ["Groceries", "Dining", "Transportation", "Entertainment", "Shopping", "Utilities", "Rent", "Healthcare", "Education", "Other"],
@@ -27,21 +31,76 @@ export default function TransactionForm({ isOpen, onClose, onSubmit }: Transacti
     category: "",
     date: new Date().toISOString().split("T")[0],
     notes: "",
+    accountId: NO_ACCOUNT,
+    currency: "",
   });
 
+  const [accounts, setAccounts] = useState<{ id: string; name: string; currency: string }[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState("USD");
+  const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [suggestion, setSuggestion] = useState<{ category: string; source: string; confidence: number } | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    fetch("/api/finance/accounts")
+      .then((response) => (response.ok ? response.json() : { accounts: [] }))
+      .then((data) => {
+        setAccounts(data.accounts || []);
+        if (data.baseCurrency) {
+          setBaseCurrency(data.baseCurrency);
+        }
+      })
+      .catch((fetchError) => console.error("Error fetching accounts:", fetchError));
+  }, [isOpen]);
+
+  const selectedAccount = accounts.find((account) => account.id === formData.accountId);
+
+  // Ask the categorization engine once description and amount are filled in
+  const fetchSuggestion = async() => {
+    const amount = parseFloat(formData.amount);
+    if (!formData.description || !Number.isFinite(amount)) {
+      setSuggestion(null);
+      return;
+    }
+
+    try {
+      const response = await fetch("/api/finance/categories/suggest", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ description: formData.description, amount: Math.abs(amount), type: formData.type }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setSuggestion(data.suggestion);
+      }
+    } catch (error) {
+      console.error("Error fetching category suggestion:", error);
+    }
+  };
 
   const handleSubmit = async(e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
+    setError(null);
 
     try {
+      const { accountId, currency, ...fields } = formData;
       const response = await fetch("/api/finance/transactions", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...fields,
+          accountId: accountId === NO_ACCOUNT ? undefined : accountId,
+          currency: accountId === NO_ACCOUNT && currency ? currency : undefined,
+        }),
       });
 
       if (response.ok) {
@@ -55,9 +114,13 @@ export default function TransactionForm({ isOpen, onClose, onSubmit }: Transacti
           category: "",
           date: new Date().toISOString().split("T")[0],
           notes: "",
+          accountId: NO_ACCOUNT,
+          currency: "",
         });
+        setSuggestion(null);
       } else {
-        console.error("Failed to create transaction");
+        const data = await response.json();
+        setError(data.error || "Failed to create transaction");
       }
     } catch (error) {
       console.error("Error creating transaction:", error);
@@ -68,6 +131,7 @@ export default function TransactionForm({ isOpen, onClose, onSubmit }: Transacti
 
   const handleTypeChange = (type: string) => {
     setFormData(prev => ({ ...prev, type, category: "" }));
+    setSuggestion(null);
   };
 
   if (!isOpen) {
@@ -113,21 +177,57 @@ return null;
               <Input
                 value={formData.description}
                 onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                onBlur={fetchSuggestion}
                 placeholder="What was this transaction for?"
                 required
               />
             </div>
 
-            <div>
-              <label className="text-sm font-medium">Amount</label>
-              <Input
-                type="number"
-                step="0.01"
-                value={formData.amount}
-                onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
-                placeholder="0.00"
-                required
-              />
+            {accounts.length > 0 && (
+              <div>
+                <label className="text-sm font-medium">Account</label>
+                <Select
+                  value={formData.accountId}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, accountId: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name} ({account.currency})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <label className="text-sm font-medium">Amount</label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={formData.amount}
+                  onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+                  onBlur={fetchSuggestion}
+                  placeholder="0.00"
+                  required
+                />
+              </div>
+              <div className="w-24">
+                <label className="text-sm font-medium">Currency</label>
+                <Input
+                  value={selectedAccount ? selectedAccount.currency : formData.currency}
+                  onChange={(e) => setFormData(prev => ({ ...prev, currency: e.target.value.toUpperCase() }))}
+                  placeholder={baseCurrency}
+                  maxLength={3}
+                  disabled={!!selectedAccount}
+                />
+              </div>
             </div>
 
             <div>
@@ -146,8 +246,26 @@ return null;
                       {category}
                     </SelectItem>
                   ))}
+                  {/* Categories from rules or history that aren't in the defaults */}
+                  {formData.category && !TRANSACTION_CATEGORIES[formData.type as keyof typeof TRANSACTION_CATEGORIES]?.includes(formData.category) && (
+                    <SelectItem value={formData.category}>{formData.category}</SelectItem>
+                  )}
                 </SelectContent>
               </Select>
+              {suggestion && suggestion.category !== formData.category && (
+                <div className="flex items-center gap-2 mt-2 text-sm">
+                  <span className="text-muted-foreground">Suggested:</span>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setFormData(prev => ({ ...prev, category: suggestion.category }))}
+                  >
+                    {suggestion.category}
+                  </Button>
+                  <CategoryConfidenceBadge source={suggestion.source} confidence={suggestion.confidence} />
+                </div>
+              )}
             </div>
 
             <div>
@@ -170,6 +288,8 @@ return null;
               />
             </div>
 
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
             <div className="flex gap-2 pt-4">
               <Button
                 type="button"
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import CategoryConfidenceBadge from "@/components/finance/CategoryConfidenceBadge";
 
 interface Transaction {
   id: string;
@@ -13,8 +14,13 @@ interface Transaction {
   amount: number;
   type: string;
   category: string;
+  categorySource?: string | null;
+  categoryConfidence?: number | null;
   date: string;
   notes?: string;
+  originalAmount?: number | null;
+  originalCurrency?: string | null;
+  rateDate?: string | null;
 }
 
 interface TransactionListProps {
@@ -27,6 +33,7 @@ interface TransactionListProps {
   };
   onPageChange: (page: number) => void;
   onFilterChange: (filters: any) => void;
+  currency?: string; // Base currency
 }
 
 export default function TransactionList({
@@ -34,6 +41,7 @@ export default function TransactionList({
   pagination,
   onPageChange,
   onFilterChange,
+  currency = "USD",
 }: TransactionListProps) {
   const [filters, setFilters] = useState({
     type: "",
@@ -41,10 +49,10 @@ export default function TransactionList({
     search: "",
   });
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, code = currency) => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
-      currency: "USD",
+      currency: code,
     }).format(amount);
   };
 
@@ -162,6 +170,10 @@ export default function TransactionList({
                     >
                       {transaction.category}
                     </Badge>
+                    <CategoryConfidenceBadge
+                      source={transaction.categorySource}
+                      confidence={transaction.categoryConfidence}
+                    />
                     {transaction.notes && (
                       <>
                         <span>•</span>
@@ -179,6 +191,14 @@ export default function TransactionList({
                   {transaction.type === "Income" ? "+" : "-"}
                   {formatCurrency(transaction.amount)}
                 </p>
+                {transaction.originalCurrency && typeof transaction.originalAmount === "number" && (
+                  <p
+                    className="text-xs text-muted-foreground"
+                    title={transaction.rateDate ? `Rate of ${new Date(transaction.rateDate).toLocaleDateString()}` : undefined}
+                  >
+                    {formatCurrency(transaction.originalAmount, transaction.originalCurrency)}
+                  </p>
+                )}
                 <Badge
                   variant="outline"
                   className={getTypeColor(transaction.type)}
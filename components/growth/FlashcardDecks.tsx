@@ -0,0 +1,486 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import FlashcardReview from "./FlashcardReview";
+
+interface DeckSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  newPerDay: number;
+  skill: { id: string; name: string; masteryLevel: number } | null;
+  total: number;
+  new: number;
+  due: number;
+  mastery: number;
+}
+
+interface DeckDetail {
+  id: string;
+  skill: {
+    id: string;
+    name: string;
+    resources: { id: string; title: string; aiSummary: string | null; notes: string | null }[];
+  } | null;
+  cards: { id: string; front: string; back: string; state: string; dueAt: string; resource: { title: string } | null }[];
+}
+
+interface SkillOption {
+  id: string;
+  name: string;
+}
+
+const emptyDeck = { name: "", skillId: "", newPerDay: 20 };
+
+const FlashcardDecks: React.FC = () => {
+  const [decks, setDecks] = useState<DeckSummary[]>([]);
+  const [skills, setSkills] = useState<SkillOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [newDeck, setNewDeck] = useState(emptyDeck);
+  const [studying, setStudying] = useState<{ deckId?: string } | null>(null);
+  const [openDeck, setOpenDeck] = useState<DeckDetail | null>(null);
+  const [newCard, setNewCard] = useState({ front: "", back: "" });
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    fetchDecks();
+    fetchSkills();
+  }, []);
+
+  const fetchDecks = async() => {
+    try {
+      const response = await fetch("/api/growth/flashcards/decks");
+      if (response.ok) {
+        const data = await response.json();
+        setDecks(data.decks);
+      }
+    } catch (error) {
+      console.error("Error fetching decks:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchSkills = async() => {
+    try {
+      const token = localStorage.getItem("auth-token");
+      const response = await fetch("/api/growth/skills", {
+        headers: {
+          "Authorization": `Bearer ${token}`,
+        },
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setSkills(data.skills);
+      }
+    } catch (error) {
+      console.error("Error fetching skills:", error);
+    }
+  };
+
+  const fetchDeck = async(deckId: string) => {
+    try {
+      const response = await fetch(`/api/growth/flashcards/decks/${deckId}`);
+      if (response.ok) {
+        setOpenDeck(await response.json());
+      }
+    } catch (error) {
+      console.error("Error fetching deck:", error);
+    }
+  };
+
+  const handleAddDeck = async(e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const response = await fetch("/api/growth/flashcards/decks", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ...newDeck, skillId: newDeck.skillId || null }),
+      });
+
+      if (response.ok) {
+        setNewDeck(emptyDeck);
+        setShowAddForm(false);
+        fetchDecks();
+      }
+    } catch (error) {
+      console.error("Error adding deck:", error);
+    }
+  };
+
+  const handleDeleteDeck = async(deckId: string) => {
+    if (!confirm("Delete this deck and all of its cards?")) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/growth/flashcards/decks/${deckId}`, { method: "DELETE" });
+      if (response.ok) {
+        setOpenDeck(null);
+        fetchDecks();
+      }
+    } catch (error) {
+      console.error("Error deleting deck:", error);
+    }
+  };
+
+  const handleAddCard = async(e: React.FormEvent) => {
+    e.preventDefault();
+    if (!openDeck) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/growth/flashcards/decks/${openDeck.id}/cards`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ cards: [newCard] }),
+      });
+
+      if (response.ok) {
+        setNewCard({ front: "", back: "" });
+        fetchDeck(openDeck.id);
+        fetchDecks();
+      }
+    } catch (error) {
+      console.error("Error adding card:", error);
+    }
+  };
+
+  const handleDeleteCard = async(cardId: string) => {
+    if (!openDeck) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/growth/flashcards/cards/${cardId}`, { method: "DELETE" });
+      if (response.ok) {
+        fetchDeck(openDeck.id);
+        fetchDecks();
+      }
+    } catch (error) {
+      console.error("Error deleting card:", error);
+    }
+  };
+
+  const handleGenerate = async(resourceId: string, useAi: boolean) => {
+    if (!openDeck) {
+      return;
+    }
+    setMessage(useAi ? "Generating cards with AI..." : "Generating cards...");
+
+    try {
+      const response = await fetch(`/api/growth/flashcards/decks/${openDeck.id}/generate`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ resourceId, useAi }),
+      });
+
+      const data = await response.json();
+      setMessage(response.ok ? `Added ${data.added} of ${data.generated} generated cards` : data.error);
+      if (response.ok) {
+        fetchDeck(openDeck.id);
+        fetchDecks();
+      }
+    } catch (error) {
+      console.error("Error generating cards:", error);
+      setMessage("");
+    }
+  };
+
+  const handleImport = async(e: React.FormEvent) => {
+    e.preventDefault();
+    if (!importFile) {
+      return;
+    }
+
+    const form = new FormData();
+    form.append("file", importFile);
+    setMessage("Importing...");
+
+    try {
+      const response = await fetch("/api/growth/flashcards/import", { method: "POST", body: form });
+      const data = await response.json();
+      if (response.ok) {
+        const imported = data.decks.reduce((sum: number, deck: { imported: number }) => sum + deck.imported, 0);
+        setMessage(`Imported ${imported} cards into ${data.decks.length} deck${data.decks.length === 1 ? "" : "s"}`);
+        setImportFile(null);
+        fetchDecks();
+      } else {
+        setMessage(data.error);
+      }
+    } catch (error) {
+      console.error("Error importing deck:", error);
+      setMessage("");
+    }
+  };
+
+  const dueTotal = decks.reduce((sum, deck) => sum + deck.due + Math.min(deck.new, deck.newPerDay), 0);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500"></div>
+      </div>
+    );
+  }
+
+  if (studying) {
+    return (
+      <FlashcardReview
+        deckId={studying.deckId}
+        onClose={() => {
+          setStudying(null);
+          fetchDecks();
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-white">Flashcards</h2>
+        <div className="flex gap-2">
+          {dueTotal > 0 && (
+            <button
+              onClick={() => setStudying({})}
+              className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              Study All
+            </button>
+          )}
+          <button
+            onClick={() => setShowAddForm(!showAddForm)}
+            className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg transition-colors"
+          >
+            {showAddForm ? "Cancel" : "Add Deck"}
+          </button>
+        </div>
+      </div>
+
+      {message && <p className="text-sm text-purple-300">{message}</p>}
+
+      {showAddForm && (
+        <div className="bg-gray-800 rounded-lg p-6">
+          <form onSubmit={handleAddDeck} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Deck Name
+              </label>
+              <input
+                type="text"
+                value={newDeck.name}
+                onChange={(e) => setNewDeck({ ...newDeck, name: e.target.value })}
+                className="w-full bg-gray-700 text-white border border-gray-600 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                placeholder="e.g., Spanish vocabulary"
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Skill
+                </label>
+                <select
+                  value={newDeck.skillId}
+                  onChange={(e) => setNewDeck({ ...newDeck, skillId: e.target.value })}
+                  className="w-full bg-gray-700 text-white border border-gray-600 rounded-lg px-3 py-2"
+                >
+                  <option value="">None</option>
+                  {skills.map((skill) => (
+                    <option key={skill.id} value={skill.id}>{skill.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  New Cards per Day
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="500"
+                  value={newDeck.newPerDay}
+                  onChange={(e) => setNewDeck({ ...newDeck, newPerDay: parseInt(e.target.value) || 0 })}
+                  className="w-full bg-gray-700 text-white border border-gray-600 rounded-lg px-3 py-2"
+                />
+              </div>
+            </div>
+            <button
+              type="submit"
+              className="w-full bg-purple-600 hover:bg-purple-700 text-white py-2 rounded-lg transition-colors"
+            >
+              Create Deck
+            </button>
+          </form>
+        </div>
+      )}
+
+      <form onSubmit={handleImport} className="bg-gray-800 rounded-lg p-4 flex flex-wrap items-center gap-4">
+        <span className="text-sm text-gray-300">Import from Anki (.apkg) or CSV</span>
+        <input
+          type="file"
+          accept=".apkg,.colpkg,.csv,.tsv,.txt"
+          onChange={(e) => setImportFile(e.target.files?.[0] ?? null)}
+          className="text-sm text-gray-400"
+        />
+        <button
+          type="submit"
+          disabled={!importFile}
+          className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white px-4 py-2 rounded-lg text-sm transition-colors"
+        >
+          Import
+        </button>
+      </form>
+
+      {decks.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="text-6xl mb-4">🧠</div>
+          <h3 className="text-xl font-semibold text-white mb-2">No decks yet</h3>
+          <p className="text-gray-400">Create a deck for a skill, or import one from Anki.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {decks.map((deck) => (
+            <div key={deck.id} className="bg-gray-800 rounded-lg p-6">
+              <div className="flex justify-between items-start mb-3">
+                <div>
+                  <h3 className="text-lg font-semibold text-white">{deck.name}</h3>
+                  {deck.skill && <p className="text-sm text-purple-300">🎯 {deck.skill.name}</p>}
+                </div>
+                <button
+                  onClick={() => handleDeleteDeck(deck.id)}
+                  className="text-gray-500 hover:text-red-400 text-sm"
+                >
+                  Delete
+                </button>
+              </div>
+              <div className="flex gap-4 text-sm text-gray-400 mb-3">
+                <span>{deck.total} cards</span>
+                <span className="text-blue-400">{deck.new} new</span>
+                <span className="text-green-400">{deck.due} due</span>
+              </div>
+              <div className="mb-4">
+                <div className="flex justify-between text-xs text-gray-400 mb-1">
+                  <span>Mastery</span>
+                  <span>{deck.mastery}%</span>
+                </div>
+                <div className="w-full bg-gray-700 rounded-full h-2">
+                  <div className="bg-purple-500 h-2 rounded-full" style={{ width: `${deck.mastery}%` }}></div>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2 text-sm">
+                <button
+                  onClick={() => setStudying({ deckId: deck.id })}
+                  className="bg-green-600 hover:bg-green-700 text-white px-3 py-1 rounded-lg transition-colors"
+                >
+                  Study
+                </button>
+                <button
+                  onClick={() => (openDeck?.id === deck.id ? setOpenDeck(null) : fetchDeck(deck.id))}
+                  className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded-lg transition-colors"
+                >
+                  {openDeck?.id === deck.id ? "Hide Cards" : "Cards"}
+                </button>
+                <a
+                  href={`/api/growth/flashcards/decks/${deck.id}/export?format=apkg`}
+                  className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded-lg transition-colors"
+                >
+                  Export .apkg
+                </a>
+                <a
+                  href={`/api/growth/flashcards/decks/${deck.id}/export?format=csv`}
+                  className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded-lg transition-colors"
+                >
+                  Export CSV
+                </a>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {openDeck && (
+        <div className="bg-gray-800 rounded-lg p-6 space-y-6">
+          {openDeck.skill && openDeck.skill.resources.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-300 mb-2">Generate from {openDeck.skill.name} resources</h4>
+              <div className="space-y-2">
+                {openDeck.skill.resources.map((resource) => (
+                  <div key={resource.id} className="flex justify-between items-center bg-gray-700 rounded-lg px-3 py-2">
+                    <span className="text-sm text-white">{resource.title}</span>
+                    {resource.aiSummary || resource.notes ? (
+                      <div className="flex gap-2 text-xs">
+                        <button onClick={() => handleGenerate(resource.id, false)} className="text-purple-300 hover:text-white">
+                          From notes
+                        </button>
+                        <button onClick={() => handleGenerate(resource.id, true)} className="text-purple-300 hover:text-white">
+                          With AI
+                        </button>
+                      </div>
+                    ) : (
+                      <span className="text-xs text-gray-500">No summary or notes</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <form onSubmit={handleAddCard} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-2">
+            <input
+              type="text"
+              value={newCard.front}
+              onChange={(e) => setNewCard({ ...newCard, front: e.target.value })}
+              className="bg-gray-700 text-white border border-gray-600 rounded-lg px-3 py-2"
+              placeholder="Front"
+              required
+            />
+            <input
+              type="text"
+              value={newCard.back}
+              onChange={(e) => setNewCard({ ...newCard, back: e.target.value })}
+              className="bg-gray-700 text-white border border-gray-600 rounded-lg px-3 py-2"
+              placeholder="Back"
+              required
+            />
+            <button
+              type="submit"
+              className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              Add Card
+            </button>
+          </form>
+
+          <div className="divide-y divide-gray-700">
+            {openDeck.cards.map((card) => (
+              <div key={card.id} className="flex justify-between items-start gap-4 py-2 text-sm">
+                <div className="flex-1 text-white whitespace-pre-wrap">{card.front}</div>
+                <div className="flex-1 text-gray-300 whitespace-pre-wrap">{card.back}</div>
+                <div className="w-28 text-xs text-gray-500">
+                  {card.state === "new" ? "New" : `Due ${new Date(card.dueAt).toLocaleDateString()}`}
+                  {card.resource && <div>📚 {card.resource.title}</div>}
+                </div>
+                <button onClick={() => handleDeleteCard(card.id)} className="text-gray-500 hover:text-red-400">
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FlashcardDecks;
@@ -0,0 +1,155 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { REVIEW_GRADES } from "@/lib/growth/spaced-repetition";
+import type { ReviewGrade } from "@/lib/growth/spaced-repetition";
+
+interface QueueCard {
+  id: string;
+  deckName: string;
+  front: string;
+  back: string;
+  state: string;
+}
+
+interface Queue {
+  cards: QueueCard[];
+  counts: { learning: number; review: number; new: number };
+  nextDue: string | null;
+}
+
+interface FlashcardReviewProps {
+  deckId?: string;
+  onClose: () => void;
+}
+
+const GRADE_CLASSES: Record<ReviewGrade, string> = {
+  1: "bg-red-700 hover:bg-red-600",
+  2: "bg-yellow-700 hover:bg-yellow-600",
+  3: "bg-green-700 hover:bg-green-600",
+  4: "bg-blue-700 hover:bg-blue-600",
+};
+
+const FlashcardReview: React.FC<FlashcardReviewProps> = ({ deckId, onClose }) => {
+  const [queue, setQueue] = useState<Queue | null>(null);
+  const [showBack, setShowBack] = useState(false);
+  const [shownAt, setShownAt] = useState(Date.now());
+  const [reviewed, setReviewed] = useState(0);
+  const [masteryLevel, setMasteryLevel] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [deckId]);
+
+  const fetchQueue = async() => {
+    try {
+      const response = await fetch(`/api/growth/flashcards/review${deckId ? `?deckId=${deckId}` : ""}`);
+      if (response.ok) {
+        setQueue(await response.json());
+        setShowBack(false);
+        setShownAt(Date.now());
+      }
+    } catch (error) {
+      console.error("Error fetching review queue:", error);
+    }
+  };
+
+  const grade = async(value: ReviewGrade) => {
+    const card = queue?.cards[0];
+    if (!card) {
+      return;
+    }
+
+    try {
+      const response = await fetch("/api/growth/flashcards/review", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ cardId: card.id, grade: value, durationMs: Date.now() - shownAt }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setReviewed((count) => count + 1);
+        if (data.masteryLevel !== null) {
+          setMasteryLevel(data.masteryLevel);
+        }
+        // Cards failed or still in learning come back within minutes
+        fetchQueue();
+      }
+    } catch (error) {
+      console.error("Error grading flashcard:", error);
+    }
+  };
+
+  if (!queue) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500"></div>
+      </div>
+    );
+  }
+
+  const card = queue.cards[0];
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div className="flex gap-4 text-sm">
+          <span className="text-blue-400">{queue.counts.new} new</span>
+          <span className="text-red-400">{queue.counts.learning} learning</span>
+          <span className="text-green-400">{queue.counts.review} review</span>
+          {masteryLevel !== null && <span className="text-purple-300">Skill mastery {masteryLevel}%</span>}
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white text-sm">
+          Done
+        </button>
+      </div>
+
+      {card ? (
+        <div className="space-y-6">
+          <div className="text-xs text-gray-500">{card.deckName}</div>
+          <div className="text-xl text-white whitespace-pre-wrap text-center">{card.front}</div>
+          {showBack && (
+            <div className="border-t border-gray-700 pt-6 text-lg text-gray-200 whitespace-pre-wrap text-center">
+              {card.back}
+            </div>
+          )}
+          {showBack ? (
+            <div className="grid grid-cols-4 gap-2">
+              {REVIEW_GRADES.map(({ grade: value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => grade(value)}
+                  className={`${GRADE_CLASSES[value]} text-white py-2 rounded-lg transition-colors`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <button
+              onClick={() => setShowBack(true)}
+              className="w-full bg-purple-600 hover:bg-purple-700 text-white py-2 rounded-lg transition-colors"
+            >
+              Show Answer
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="text-center py-8 space-y-2">
+          <div className="text-4xl">🎉</div>
+          <p className="text-white">
+            {reviewed > 0 ? `Done for now: ${reviewed} review${reviewed === 1 ? "" : "s"}.` : "Nothing due right now."}
+          </p>
+          {queue.nextDue && (
+            <p className="text-gray-400 text-sm">Next card due {new Date(queue.nextDue).toLocaleString()}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FlashcardReview;
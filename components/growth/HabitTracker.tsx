@@ -1,26 +1,74 @@
 "use client";
 
 import React, { useState, useEffect } from "react";
+import type { HabitDayStatus, HabitSchedule, HabitStats } from "@/lib/growth/habit-schedule";
 
-interface Habit {
+interface Habit extends HabitStats {
   id: string;
   name: string;
-  frequency: string;
-  goal: string;
-  logs: HabitLog[];
+  goal: string | null;
+  schedule: HabitSchedule;
+  scheduleLabel: string;
+  calendar: { date: string; status: HabitDayStatus }[];
 }
 
-interface HabitLog {
-  id: string;
-  date: string;
-  isCompleted: boolean;
+type ScheduleType = HabitSchedule["type"];
+
+const WEEKDAYS = [
+  { value: 1, label: "M" },
+  { value: 2, label: "T" },
+  { value: 3, label: "W" },
+  { value: 4, label: "T" },
+  { value: 5, label: "F" },
+  { value: 6, label: "S" },
+  { value: 0, label: "S" },
+];
+
+const STATUS_CLASSES: Record<HabitDayStatus, string> = {
+  done: "bg-green-500",
+  missed: "bg-red-900",
+  skipped: "bg-blue-900",
+  frozen: "bg-cyan-400",
+  pending: "bg-purple-500",
+  not_due: "bg-gray-700",
+  inactive: "bg-gray-800 border border-gray-700",
+};
+
+const STATUS_LABELS: Record<HabitDayStatus, string> = {
+  done: "Done",
+  missed: "Missed",
+  skipped: "Skipped",
+  frozen: "Streak freeze",
+  pending: "Due",
+  not_due: "Not scheduled",
+  inactive: "",
+};
+
+const emptyForm = { name: "", goal: "", type: "daily" as ScheduleType, days: [1, 3, 5], times: 3, interval: 2 };
+
+function buildSchedule(form: typeof emptyForm): HabitSchedule {
+  switch (form.type) {
+    case "weekdays":
+      return { type: "weekdays", days: form.days };
+    case "every_n_days":
+      return { type: "every_n_days", interval: form.interval };
+    case "weekly":
+      return { type: "weekly", times: form.times };
+    case "monthly":
+      return { type: "monthly", times: form.times };
+    default:
+      return { type: "daily" };
+  }
 }
 
+const timeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
 const HabitTracker: React.FC = () => {
   const [habits, setHabits] = useState<Habit[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddForm, setShowAddForm] = useState(false);
-  const [newHabit, setNewHabit] = useState({ name: "", frequency: "Daily", goal: "" });
+  const [newHabit, setNewHabit] = useState(emptyForm);
+  const [today, setToday] = useState("");
 
   useEffect(() => {
     fetchHabits();
@@ -28,16 +76,12 @@ const HabitTracker: React.FC = () => {
 
   const fetchHabits = async() => {
     try {
-      const token = localStorage.getItem("auth-token");
-      const response = await fetch("/api/growth/habits", {
-        headers: {
-          "Authorization": `Bearer ${token}`,
-        },
-      });
+      const response = await fetch(`/api/habits?timeZone=${encodeURIComponent(timeZone())}`);
 
       if (response.ok) {
         const data = await response.json();
         setHabits(data.habits);
+        setToday(data.today);
       }
     } catch (error) {
       console.error("Error fetching habits:", error);
@@ -50,87 +94,71 @@ const HabitTracker: React.FC = () => {
     e.preventDefault();
 
     try {
-      const token = localStorage.getItem("auth-token");
-      const response = await fetch("/api/growth/habits", {
+      const response = await fetch("/api/habits", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          "Authorization": `Bearer ${token}`,
         },
-        body: JSON.stringify(newHabit),
+        body: JSON.stringify({
+          name: newHabit.name,
+          goal: newHabit.goal || undefined,
+          schedule: buildSchedule(newHabit),
+        }),
       });
 
       if (response.ok) {
-        const data = await response.json();
-        setHabits([data.habit, ...habits]);
-        setNewHabit({ name: "", frequency: "Daily", goal: "" });
+        setNewHabit(emptyForm);
         setShowAddForm(false);
+        fetchHabits();
       }
     } catch (error) {
       console.error("Error adding habit:", error);
     }
   };
 
-  const toggleHabitLog = async(habitId: string, date: string) => {
+  // Clicking a day cycles it: done -> skipped -> streak freeze -> cleared.
+  // Works for past days too, to backfill.
+  const cycleDay = async(habitId: string, date: string, status: HabitDayStatus) => {
     try {
-      const token = localStorage.getItem("auth-token");
-      const response = await fetch("/api/growth/habits/log", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          habitId,
-          date,
-          isCompleted: true, // Toggle logic would be handled on the server
-        }),
-      });
+      const next = status === "done" ? { status: "skip" } : status === "skipped" ? { status: "freeze" } : status === "frozen" ? null : { completed: true };
+      const response = next
+        ? await fetch(`/api/habits/${habitId}/logs`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ date, ...next, timeZone: timeZone() }),
+        })
+        : await fetch(`/api/habits/${habitId}/logs?date=${date}&timeZone=${encodeURIComponent(timeZone())}`, {
+          method: "DELETE",
+        });
 
       if (response.ok) {
-        fetchHabits(); // Refresh habits to get updated logs
+        fetchHabits(); // Refresh habits to get updated stats
       }
     } catch (error) {
-      console.error("Error toggling habit log:", error);
-    }
-  };
-
-  const getDaysInMonth = () => {
-    const now = new Date();
-    const year = now.getFullYear();
-    const month = now.getMonth();
-    const daysInMonth = new Date(year, month + 1, 0).getDate();
-    const days = [];
-
-    for (let day = 1; day <= daysInMonth; day++) {
-      days.push(new Date(year, month, day));
+      console.error("Error updating habit log:", error);
     }
-
-    return days;
   };
 
-  const isHabitCompleted = (habit: Habit, date: Date) => {
-    const dateStr = date.toISOString().split("T")[0];
-    return habit.logs.some(log => log.date === dateStr && log.isCompleted);
+  const toggleWeekday = (day: number) => {
+    const days = newHabit.days.includes(day) ? newHabit.days.filter((d) => d !== day) : [...newHabit.days, day];
+    setNewHabit({ ...newHabit, days });
   };
 
-  const getDayClass = (habit: Habit, date: Date) => {
-    const isCompleted = isHabitCompleted(habit, date);
-    const isToday = date.toDateString() === new Date().toDateString();
-    const isPast = date < new Date(new Date().setHours(0, 0, 0, 0));
-
-    if (isCompleted) {
-      return "bg-green-500 hover:bg-green-600";
-    }
-    if (isToday) {
-      return "bg-purple-500 hover:bg-purple-600";
-    }
-    if (isPast) {
-      return "bg-gray-600 hover:bg-gray-500";
+  // Columns are Monday-Sunday weeks, oldest on the left
+  const heatmapCells = (habit: Habit) => {
+    if (habit.calendar.length === 0) {
+      return [];
     }
-    return "bg-gray-700 hover:bg-gray-600";
+    const firstWeekday = new Date(`${habit.calendar[0].date}T00:00:00Z`).getUTCDay();
+    const padding = Array.from({ length: (firstWeekday + 6) % 7 }, () => null);
+    return [...padding, ...habit.calendar];
   };
 
+  const streakLabel = (habit: Habit, value: number) =>
+    `${value} ${habit.streakUnit}${value === 1 ? "" : "s"}`;
+
   if (loading) {
     return (
       <div className="flex justify-center items-center h-64">
@@ -139,8 +167,6 @@ const HabitTracker: React.FC = () => {
     );
   }
 
-  const daysInMonth = getDaysInMonth();
-
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -174,14 +200,60 @@ const HabitTracker: React.FC = () => {
                 Frequency
               </label>
               <select
-                value={newHabit.frequency}
-                onChange={(e) => setNewHabit({ ...newHabit, frequency: e.target.value })}
+                value={newHabit.type}
+                onChange={(e) => setNewHabit({ ...newHabit, type: e.target.value as ScheduleType })}
                 className="w-full bg-gray-700 text-white border border-gray-600 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
               >
-                <option value="Daily">Daily</option>
-                <option value="Weekly">Weekly</option>
+                <option value="daily">Every day</option>
+                <option value="weekdays">Specific days of the week</option>
+                <option value="weekly">A number of times per week</option>
+                <option value="monthly">A number of times per month</option>
+                <option value="every_n_days">Every few days</option>
               </select>
             </div>
+            {newHabit.type === "weekdays" && (
+              <div className="flex space-x-2">
+                {WEEKDAYS.map((day) => (
+                  <button
+                    key={day.value}
+                    type="button"
+                    onClick={() => toggleWeekday(day.value)}
+                    className={`w-9 h-9 rounded-full text-sm font-medium text-white transition-colors ${
+                      newHabit.days.includes(day.value) ? "bg-purple-600" : "bg-gray-700 hover:bg-gray-600"
+                    }`}
+                  >
+                    {day.label}
+                  </button>
+                ))}
+              </div>
+            )}
+            {(newHabit.type === "weekly" || newHabit.type === "monthly") && (
+              <div className="flex items-center space-x-2 text-gray-300">
+                <input
+                  type="number"
+                  min={1}
+                  max={newHabit.type === "weekly" ? 7 : 31}
+                  value={newHabit.times}
+                  onChange={(e) => setNewHabit({ ...newHabit, times: parseInt(e.target.value) || 1 })}
+                  className="w-20 bg-gray-700 text-white border border-gray-600 rounded-lg px-3 py-2"
+                />
+                <span>times per {newHabit.type === "weekly" ? "week" : "month"}</span>
+              </div>
+            )}
+            {newHabit.type === "every_n_days" && (
+              <div className="flex items-center space-x-2 text-gray-300">
+                <span>Every</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={newHabit.interval}
+                  onChange={(e) => setNewHabit({ ...newHabit, interval: parseInt(e.target.value) || 1 })}
+                  className="w-20 bg-gray-700 text-white border border-gray-600 rounded-lg px-3 py-2"
+                />
+                <span>days</span>
+              </div>
+            )}
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
                 Goal
@@ -192,13 +264,13 @@ const HabitTracker: React.FC = () => {
                 className="w-full bg-gray-700 text-white border border-gray-600 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
                 placeholder="Why are you building this habit?"
                 rows={3}
-                required
               />
             </div>
             <div className="flex space-x-3">
               <button
                 type="submit"
-                className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors"
+                disabled={newHabit.type === "weekdays" && newHabit.days.length === 0}
+                className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-colors"
               >
                 Add Habit
               </button>
@@ -235,39 +307,68 @@ const HabitTracker: React.FC = () => {
               <div className="flex justify-between items-start mb-4">
                 <div>
                   <h3 className="text-lg font-semibold text-white">{habit.name}</h3>
-                  <p className="text-sm text-gray-400">{habit.frequency}</p>
-                  <p className="text-sm text-gray-300 mt-1">{habit.goal}</p>
+                  <p className="text-sm text-gray-400">
+                    {habit.scheduleLabel}
+                    {habit.periodProgress && ` - ${habit.periodProgress.done}/${habit.periodProgress.target} this ${habit.streakUnit}`}
+                  </p>
+                  {habit.goal && <p className="text-sm text-gray-300 mt-1">{habit.goal}</p>}
                 </div>
+                <button
+                  onClick={() => cycleDay(habit.id, today, habit.doneToday ? "frozen" : "pending")}
+                  className={`px-3 py-1 rounded-lg text-sm text-white transition-colors ${
+                    habit.doneToday ? "bg-green-600 hover:bg-green-700" : "bg-purple-600 hover:bg-purple-700"
+                  }`}
+                >
+                  {habit.doneToday ? "Done today ✓" : "Mark done"}
+                </button>
               </div>
 
-              <div className="grid grid-cols-31 gap-1">
-                {daysInMonth.map((date, index) => (
-                  <button
-                    key={index}
-                    onClick={() => toggleHabitLog(habit.id, date.toISOString().split("T")[0])}
-                    className={`w-8 h-8 rounded text-xs font-medium text-white transition-colors ${getDayClass(habit, date)}`}
-                    title={`${date.toLocaleDateString()} - ${isHabitCompleted(habit, date) ? "Completed" : "Not completed"}`}
-                  >
-                    {date.getDate()}
-                  </button>
-                ))}
+              <div className="grid grid-cols-3 gap-4 mb-4 text-center">
+                <div>
+                  <p className="text-xl font-bold text-white">{streakLabel(habit, habit.streak)}</p>
+                  <p className="text-xs text-gray-400">Current streak</p>
+                </div>
+                <div>
+                  <p className="text-xl font-bold text-white">{streakLabel(habit, habit.bestStreak)}</p>
+                  <p className="text-xs text-gray-400">Best streak</p>
+                </div>
+                <div>
+                  <p className="text-xl font-bold text-white">
+                    {habit.completionRate === null ? "-" : `${habit.completionRate}%`}
+                  </p>
+                  <p className="text-xs text-gray-400">Last 30 days</p>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <div className="grid grid-rows-7 grid-flow-col gap-1 w-max">
+                  {heatmapCells(habit).map((day, index) =>
+                    day ? (
+                      <button
+                        key={day.date}
+                        onClick={() => day.status !== "inactive" && cycleDay(habit.id, day.date, day.status)}
+                        disabled={day.status === "inactive"}
+                        className={`w-3 h-3 rounded-sm ${STATUS_CLASSES[day.status]} ${
+                          day.date === today ? "ring-1 ring-white" : ""
+                        }`}
+                        title={`${day.date}${STATUS_LABELS[day.status] ? ` - ${STATUS_LABELS[day.status]}` : ""}`}
+                      />
+                    ) : (
+                      <div key={`pad-${index}`} className="w-3 h-3" />
+                    )
+                  )}
+                </div>
               </div>
 
-              <div className="mt-4 flex justify-between text-sm text-gray-400">
-                <span>Click a day to toggle completion</span>
-                <div className="flex space-x-4">
-                  <div className="flex items-center space-x-1">
-                    <div className="w-3 h-3 bg-green-500 rounded"></div>
-                    <span>Completed</span>
-                  </div>
-                  <div className="flex items-center space-x-1">
-                    <div className="w-3 h-3 bg-purple-500 rounded"></div>
-                    <span>Today</span>
-                  </div>
-                  <div className="flex items-center space-x-1">
-                    <div className="w-3 h-3 bg-gray-600 rounded"></div>
-                    <span>Missed</span>
-                  </div>
+              <div className="mt-4 flex flex-wrap justify-between gap-2 text-sm text-gray-400">
+                <span>Click a day to mark it done, skipped or frozen, or to clear it</span>
+                <div className="flex flex-wrap gap-3">
+                  {(["done", "missed", "skipped", "frozen", "pending"] as HabitDayStatus[]).map((status) => (
+                    <div key={status} className="flex items-center space-x-1">
+                      <div className={`w-3 h-3 rounded ${STATUS_CLASSES[status]}`}></div>
+                      <span>{STATUS_LABELS[status]}</span>
+                    </div>
+                  ))}
                 </div>
               </div>
             </div>
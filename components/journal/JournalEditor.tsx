@@ -9,18 +9,31 @@ import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
-import { BookOpen, Save, Plus, X, Search, Filter, Calendar, Heart, Smile, Meh, Frown, Zap } from "lucide-react";
+import { BookOpen, Save, Plus, X, Search, Filter, Calendar, Heart, Smile, Meh, Frown, Zap, Lock } from "lucide-react";
 import { toast } from "sonner";
-
-interface JournalEntry {
+import JournalEncryptionPanel, { fetchAllEntries, toPayload } from "@/components/journal/JournalEncryptionPanel";
+import type { KeyringStatus } from "@/components/journal/JournalEncryptionPanel";
+import JournalTagCloud from "@/components/journal/JournalTagCloud";
+import OnThisDay from "@/components/journal/OnThisDay";
+import { decryptEntry, encryptEntry } from "@/lib/journal/encryption";
+import type { JournalKeyring, JournalPlaintext } from "@/lib/journal/encryption";
+import { parseSearchQuery, searchEntry } from "@/lib/journal/journal-search";
+import type { HighlightSegment, JournalSearchHit } from "@/lib/journal/journal-search";
+
+export interface JournalEntry {
   id: string;
   title: string;
   content: string;
   mood?: string;
   tags: string[];
   isPrivate: boolean;
+  encrypted: boolean;
+  ciphertext: string | null;
+  iv: string | null;
+  keyVersion: number | null;
   createdAt: string;
   updatedAt: string;
+  highlight?: JournalSearchHit | null; // Set on search results
 }
 
 const moodOptions = [
@@ -32,6 +45,24 @@ const moodOptions = [
   { value: "challenging", label: "Challenging", icon: Frown, color: "text-red-500" },
 ];
 
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-200 rounded-sm px-0.5">{segment.text}</mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+// Local start and end of day as ISO timestamps for the date range filter
+const dayStart = (date: string) => new Date(`${date}T00:00:00`).toISOString();
+const dayEnd = (date: string) => new Date(`${date}T23:59:59.999`).toISOString();
+
 export default function JournalEditor() {
   const [entries, setEntries] = useState<JournalEntry[]>([]);
   const [selectedEntry, setSelectedEntry] = useState<JournalEntry | null>(null);
@@ -40,6 +71,16 @@ export default function JournalEditor() {
   const [searchTerm, setSearchTerm] = useState("");
   const [filterMood, setFilterMood] = useState("");
   const [filterTag, setFilterTag] = useState("");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [encryptedNotSearched, setEncryptedNotSearched] = useState(0);
+  const [searchedLocally, setSearchedLocally] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // Encryption state; the unwrapped key only ever lives in memory
+  const [keyringStatus, setKeyringStatus] = useState<KeyringStatus | null>(null);
+  const [journalKey, setJournalKey] = useState<CryptoKey | null>(null);
+  const [decrypted, setDecrypted] = useState<Record<string, JournalPlaintext>>({});
 
   // Form state
   const [title, setTitle] = useState("");
@@ -51,19 +92,104 @@ export default function JournalEditor() {
 
   useEffect(() => {
     fetchEntries();
-  }, [searchTerm, filterMood, filterTag]);
+  }, [searchTerm, filterMood, filterTag, dateFrom, dateTo, journalKey]);
+
+  useEffect(() => {
+    fetchKeyring();
+  }, []);
+
+  useEffect(() => {
+    decryptEntries();
+  }, [entries, journalKey]);
+
+  const fetchKeyring = async() => {
+    try {
+      const response = await fetch("/api/journal/keyring");
+      if (response.ok) {
+        setKeyringStatus(await response.json());
+      }
+    } catch (error) {
+      console.error("Error fetching journal keyring:", error);
+    }
+  };
+
+  const decryptEntries = async() => {
+    if (!journalKey) {
+      setDecrypted({});
+      return;
+    }
+    const results: Record<string, JournalPlaintext> = {};
+    for (const entry of entries.filter((candidate) => candidate.encrypted)) {
+      try {
+        results[entry.id] = await decryptEntry(journalKey, toPayload(entry));
+      } catch (error) {
+        console.error(`Could not decrypt journal entry ${entry.id}:`, error);
+      }
+    }
+    setDecrypted(results);
+  };
+
+  const handleUnlock = (key: CryptoKey, keyring: JournalKeyring) => {
+    setJournalKey(key);
+    setKeyringStatus((prev) => (prev ? { ...prev, keyring } : prev));
+  };
+
+  const handleLock = () => {
+    // Don't leave decrypted text on screen
+    if (selectedEntry?.encrypted) {
+      resetForm();
+    }
+    setJournalKey(null);
+  };
+
+  const refreshAll = () => {
+    fetchKeyring();
+    fetchEntries();
+    setRefreshKey((key) => key + 1);
+  };
+
+  // Title and content as the user sees them; null while an encrypted entry is locked
+  const readEntry = (entry: JournalEntry): JournalPlaintext | null => {
+    if (!entry.encrypted) {
+      return { title: entry.title, content: entry.content };
+    }
+    return decrypted[entry.id] || null;
+  };
 
   const fetchEntries = async () => {
     try {
-      const params = new URLSearchParams();
+      const filters = new URLSearchParams();
+      if (filterMood) {
+        filters.append("mood", filterMood);
+      }
+      if (filterTag) {
+        filters.append("tag", filterTag);
+      }
+      if (dateFrom) {
+        filters.append("from", dayStart(dateFrom));
+      }
+      if (dateTo) {
+        filters.append("to", dayEnd(dateTo));
+      }
+
+      const params = new URLSearchParams(filters);
       if (searchTerm) params.append("search", searchTerm);
-      if (filterMood) params.append("mood", filterMood);
-      if (filterTag) params.append("tag", filterTag);
 
       const response = await fetch(`/api/journal?${params}`);
       if (response.ok) {
         const data = await response.json();
-        setEntries(data.journalEntries);
+        const terms = parseSearchQuery(searchTerm);
+        if (terms.length > 0 && journalKey && data.encryptedNotSearched > 0) {
+          // The server only searches plaintext; encrypted entries are searched here
+          const localHits = await searchEncryptedEntries(filters, terms);
+          setEntries([...data.journalEntries, ...localHits].sort((a, b) => b.highlight!.score - a.highlight!.score));
+          setEncryptedNotSearched(0);
+          setSearchedLocally(true);
+        } else {
+          setEntries(data.journalEntries);
+          setEncryptedNotSearched(data.encryptedNotSearched || 0);
+          setSearchedLocally(false);
+        }
       }
     } catch (error) {
       console.error("Error fetching entries:", error);
@@ -71,6 +197,22 @@ export default function JournalEditor() {
     }
   };
 
+  const searchEncryptedEntries = async(filters: URLSearchParams, terms: string[]) => {
+    const hits: JournalEntry[] = [];
+    for (const entry of await fetchAllEntries<JournalEntry>(true, filters)) {
+      try {
+        const plaintext = await decryptEntry(journalKey!, toPayload(entry));
+        const highlight = searchEntry({ ...plaintext, tags: entry.tags }, terms);
+        if (highlight) {
+          hits.push({ ...entry, highlight });
+        }
+      } catch (error) {
+        console.error(`Could not decrypt journal entry ${entry.id}:`, error);
+      }
+    }
+    return hits;
+  };
+
   const resetForm = () => {
     setTitle("");
     setContent("");
@@ -87,9 +229,13 @@ export default function JournalEditor() {
     setIsEditing(true);
   };
 
-  const handleEditEntry = (entry: JournalEntry) => {
-    setTitle(entry.title);
-    setContent(entry.content);
+  const handleEditEntry = (entry: JournalEntry, plaintext = readEntry(entry)) => {
+    if (!plaintext) {
+      toast.error("Unlock your journal to open this entry");
+      return;
+    }
+    setTitle(plaintext.title);
+    setContent(plaintext.content);
     setMood(entry.mood || "");
     setTags(entry.tags);
     setIsPrivate(entry.isPrivate);
@@ -103,11 +249,21 @@ export default function JournalEditor() {
       return;
     }
 
+    // With encryption set up, private entries are encrypted before they leave the browser
+    const keyring = keyringStatus?.keyring;
+    const shouldEncrypt = isPrivate && Boolean(keyring);
+    if (shouldEncrypt && !journalKey) {
+      toast.error("Unlock your journal to save private entries");
+      return;
+    }
+
     setIsLoading(true);
     try {
+      const plaintext = { title: title.trim(), content: content.trim() };
       const entryData = {
-        title: title.trim(),
-        content: content.trim(),
+        ...(shouldEncrypt
+          ? { encrypted: await encryptEntry(journalKey!, keyring!.version, plaintext) }
+          : plaintext),
         mood: mood || undefined,
         tags,
         isPrivate,
@@ -133,7 +289,13 @@ export default function JournalEditor() {
       if (response.ok) {
         toast.success(selectedEntry ? "Entry updated!" : "Entry saved!");
         resetForm();
-        fetchEntries();
+        refreshAll();
+      } else if (response.status === 409) {
+        // The key was rotated elsewhere; the cached key can't write anymore
+        const error = await response.json();
+        toast.error(error.error || "Your journal key changed on another device. Unlock again to save.");
+        setJournalKey(null);
+        fetchKeyring();
       } else {
         const error = await response.json();
         toast.error(error.error || "Failed to save entry");
@@ -159,7 +321,7 @@ export default function JournalEditor() {
         if (selectedEntry?.id === entryId) {
           resetForm();
         }
-        fetchEntries();
+        refreshAll();
       } else {
         toast.error("Failed to delete entry");
       }
@@ -249,51 +411,116 @@ export default function JournalEditor() {
                 value={filterTag}
                 onChange={(e) => setFilterTag(e.target.value)}
               />
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="date-from" className="text-xs">From</Label>
+                  <Input id="date-from" type="date" value={dateFrom} max={dateTo || undefined} onChange={(e) => setDateFrom(e.target.value)} />
+                </div>
+                <div>
+                  <Label htmlFor="date-to" className="text-xs">To</Label>
+                  <Input id="date-to" type="date" value={dateTo} min={dateFrom || undefined} onChange={(e) => setDateTo(e.target.value)} />
+                </div>
+              </div>
+              {(dateFrom || dateTo) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => {
+                    setDateFrom("");
+                    setDateTo("");
+                  }}
+                >
+                  <Calendar className="h-4 w-4 mr-2" />
+                  Clear dates
+                </Button>
+              )}
+
+              {searchTerm && encryptedNotSearched > 0 && (
+                <p className="text-xs text-gray-500 flex items-center gap-1">
+                  <Lock className="h-3 w-3" />
+                  {encryptedNotSearched} encrypted {encryptedNotSearched === 1 ? "entry wasn't" : "entries weren't"} searched.
+                  Unlock your journal to search them on this device.
+                </p>
+              )}
+              {searchTerm && searchedLocally && (
+                <p className="text-xs text-gray-500 flex items-center gap-1">
+                  <Lock className="h-3 w-3" />
+                  Encrypted entries were searched on this device.
+                </p>
+              )}
             </CardContent>
           </Card>
 
+          <JournalTagCloud selectedTag={filterTag} onSelect={setFilterTag} refreshKey={refreshKey} />
+
+          {keyringStatus && (
+            <JournalEncryptionPanel
+              status={keyringStatus}
+              journalKey={journalKey}
+              onUnlock={handleUnlock}
+              onLock={handleLock}
+              onChanged={refreshAll}
+            />
+          )}
+
           {/* Entries List */}
           <div className="space-y-2 max-h-96 overflow-y-auto">
-            {entries.map((entry) => (
-              <Card
-                key={entry.id}
-                className={`cursor-pointer transition-colors hover:bg-gray-50 ${
-                  selectedEntry?.id === entry.id ? "ring-2 ring-purple-500" : ""
-                }`}
-                onClick={() => handleEditEntry(entry)}
-              >
-                <CardContent className="p-4">
-                  <div className="flex items-start justify-between mb-2">
-                    <h3 className="font-medium text-sm truncate flex-1">{entry.title}</h3>
-                    {entry.mood && getMoodIcon(entry.mood)}
-                  </div>
-                  <p className="text-xs text-gray-600 mb-2 line-clamp-2">{entry.content}</p>
-                  <div className="flex items-center justify-between text-xs text-gray-500">
-                    <span>{formatDate(entry.createdAt)}</span>
-                    {!entry.isPrivate && <span className="text-blue-500">Public</span>}
-                  </div>
-                  {entry.tags.length > 0 && (
-                    <div className="flex flex-wrap gap-1 mt-2">
-                      {entry.tags.slice(0, 3).map((tag) => (
-                        <Badge key={tag} variant="secondary" className="text-xs">
-                          {tag}
-                        </Badge>
-                      ))}
-                      {entry.tags.length > 3 && (
-                        <Badge variant="secondary" className="text-xs">
-                          +{entry.tags.length - 3}
-                        </Badge>
-                      )}
+            {entries.map((entry) => {
+              const plaintext = readEntry(entry);
+              return (
+                <Card
+                  key={entry.id}
+                  className={`cursor-pointer transition-colors hover:bg-gray-50 ${
+                    selectedEntry?.id === entry.id ? "ring-2 ring-purple-500" : ""
+                  }`}
+                  onClick={() => handleEditEntry(entry)}
+                >
+                  <CardContent className="p-4">
+                    <div className="flex items-start justify-between mb-2">
+                      <h3 className="font-medium text-sm truncate flex-1 flex items-center gap-1">
+                        {entry.encrypted && <Lock className="h-3 w-3 text-purple-500 flex-shrink-0" />}
+                        {entry.highlight ? <Highlighted segments={entry.highlight.title} /> : plaintext ? plaintext.title : entry.title}
+                      </h3>
+                      {entry.mood && getMoodIcon(entry.mood)}
                     </div>
-                  )}
-                </CardContent>
-              </Card>
-            ))}
+                    <p className="text-xs text-gray-600 mb-2 line-clamp-2">
+                      {entry.highlight
+                        ? <Highlighted segments={entry.highlight.snippet} />
+                        : plaintext ? plaintext.content : "Locked - unlock your journal to read this entry"}
+                    </p>
+                    <div className="flex items-center justify-between text-xs text-gray-500">
+                      <span>{formatDate(entry.createdAt)}</span>
+                      {!entry.isPrivate && <span className="text-blue-500">Public</span>}
+                    </div>
+                    {entry.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {entry.tags.slice(0, 3).map((tag) => (
+                          <Badge
+                            key={tag}
+                            variant="secondary"
+                            className={`text-xs ${entry.highlight?.matchedTags.includes(tag) ? "bg-yellow-200" : ""}`}
+                          >
+                            {tag}
+                          </Badge>
+                        ))}
+                        {entry.tags.length > 3 && (
+                          <Badge variant="secondary" className="text-xs">
+                            +{entry.tags.length - 3}
+                          </Badge>
+                        )}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
         </div>
 
         {/* Editor */}
-        <div className="lg:col-span-2">
+        <div className="lg:col-span-2 space-y-6">
           {isEditing ? (
             <Card>
               <CardHeader>
@@ -396,9 +623,18 @@ export default function JournalEditor() {
                     checked={isPrivate}
                     onCheckedChange={setIsPrivate}
                   />
-                  <Label htmlFor="private">Keep this entry private</Label>
+                  <Label htmlFor="private">
+                    {keyringStatus?.keyring ? "Keep this entry private (end-to-end encrypted)" : "Keep this entry private"}
+                  </Label>
                 </div>
 
+                {isPrivate && keyringStatus?.keyring && (
+                  <p className="text-xs text-gray-500 flex items-center gap-1">
+                    <Lock className="h-3 w-3" />
+                    Encrypted in your browser. AI insights and text search only see this entry&apos;s mood and tags.
+                  </p>
+                )}
+
                 {selectedEntry && (
                   <div className="pt-4 border-t">
                     <Button
@@ -427,6 +663,8 @@ export default function JournalEditor() {
               </div>
             </Card>
           )}
+
+          <OnThisDay journalKey={journalKey} onOpen={handleEditEntry} refreshKey={refreshKey} />
         </div>
       </div>
     </div>
@@ -0,0 +1,388 @@
+"use client";
+
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Lock, Unlock, KeyRound, RefreshCw, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import {
+  createKeyring,
+  decryptEntry,
+  encryptEntry,
+  rewrapKeyring,
+  unlockWithPassphrase,
+  unlockWithRecoveryKey,
+} from "@/lib/journal/encryption";
+import type { EncryptedPayload, JournalKeyring } from "@/lib/journal/encryption";
+
+export interface KeyringStatus {
+  keyring: JournalKeyring | null;
+  encryptedEntries: number;
+  unencryptedPrivateEntries: number;
+}
+
+interface StoredEntry {
+  id: string;
+  title: string;
+  content: string;
+  isPrivate: boolean;
+  encrypted: boolean;
+  ciphertext: string | null;
+  iv: string | null;
+  keyVersion: number | null;
+}
+
+interface JournalEncryptionPanelProps {
+  status: KeyringStatus;
+  journalKey: CryptoKey | null;
+  onUnlock: (key: CryptoKey, keyring: JournalKeyring) => void;
+  onLock: () => void;
+  onChanged: () => void;
+}
+
+type Mode = "idle" | "recover" | "passphrase" | "rotate";
+
+const MIN_PASSPHRASE_LENGTH = 10;
+
+export function toPayload(entry: { ciphertext: string | null; iv: string | null; keyVersion: number | null }): EncryptedPayload {
+  return { ciphertext: entry.ciphertext!, iv: entry.iv!, keyVersion: entry.keyVersion! };
+}
+
+// Every page of encrypted or plaintext entries, optionally narrowed by the list filters
+export async function fetchAllEntries<T = StoredEntry>(encrypted: boolean, filters?: URLSearchParams): Promise<T[]> {
+  const entries: T[] = [];
+  for (let page = 1; ; page++) {
+    const params = new URLSearchParams(filters);
+    params.set("encrypted", String(encrypted));
+    params.set("limit", "100");
+    params.set("page", String(page));
+    const response = await fetch(`/api/journal?${params}`);
+    if (!response.ok) {
+      throw new Error("Failed to load journal entries");
+    }
+    const data = await response.json();
+    entries.push(...data.journalEntries);
+    if (page >= data.pagination.pages) {
+      return entries;
+    }
+  }
+}
+
+async function saveKeyring(method: "POST" | "PUT", body: unknown): Promise<JournalKeyring> {
+  const response = await fetch("/api/journal/keyring", {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to save journal key");
+  }
+  return data.keyring;
+}
+
+export default function JournalEncryptionPanel({ status, journalKey, onUnlock, onLock, onChanged }: JournalEncryptionPanelProps) {
+  const [mode, setMode] = useState<Mode>("idle");
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [recoveryInput, setRecoveryInput] = useState("");
+  const [recoveryKey, setRecoveryKey] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const { keyring } = status;
+
+  const reset = () => {
+    setMode("idle");
+    setPassphrase("");
+    setConfirmation("");
+    setRecoveryInput("");
+  };
+
+  const checkNewPassphrase = () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      toast.error(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return false;
+    }
+    if (passphrase !== confirmation) {
+      toast.error("Passphrases don't match");
+      return false;
+    }
+    return true;
+  };
+
+  const run = async(task: () => Promise<void>) => {
+    setIsWorking(true);
+    try {
+      await task();
+    } catch (error) {
+      console.error("Journal encryption error:", error);
+      toast.error(error instanceof Error ? error.message : "Something went wrong");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSetup = () => {
+    if (!checkNewPassphrase()) {
+      return;
+    }
+    run(async() => {
+      const created = await createKeyring(passphrase);
+      const saved = await saveKeyring("POST", created.keyring);
+      setRecoveryKey(created.recoveryKey);
+      onUnlock(created.key, saved);
+      reset();
+    });
+  };
+
+  const handleUnlock = () => {
+    run(async() => {
+      const key = await unlockWithPassphrase(keyring!, passphrase);
+      onUnlock(key, keyring!);
+      reset();
+    });
+  };
+
+  // Recovery key unlocks, then sets a new passphrase and issues a new recovery key
+  const handleRecover = () => {
+    if (!checkNewPassphrase()) {
+      return;
+    }
+    run(async() => {
+      const key = await unlockWithRecoveryKey(keyring!, recoveryInput);
+      const rewrapped = await rewrapKeyring(keyring!, key, passphrase, true);
+      const saved = await saveKeyring("PUT", { keyring: rewrapped.keyring });
+      setRecoveryKey(rewrapped.recoveryKey);
+      onUnlock(key, saved);
+      reset();
+    });
+  };
+
+  const handleChangePassphrase = () => {
+    if (!checkNewPassphrase()) {
+      return;
+    }
+    run(async() => {
+      const rewrapped = await rewrapKeyring(keyring!, journalKey!, passphrase);
+      const saved = await saveKeyring("PUT", { keyring: rewrapped.keyring });
+      onUnlock(journalKey!, saved);
+      toast.success("Passphrase changed");
+      reset();
+    });
+  };
+
+  // New data key: every encrypted entry is decrypted and re-encrypted here, then saved in one request
+  const handleRotate = () => {
+    if (!checkNewPassphrase()) {
+      return;
+    }
+    run(async() => {
+      const stored = await fetchAllEntries(true);
+      const plaintexts = await Promise.all(stored.map((entry) => decryptEntry(journalKey!, toPayload(entry))));
+      const rotated = await createKeyring(passphrase, keyring!.version + 1, keyring!.iterations);
+      const entries = await Promise.all(stored.map(async(entry, index) => ({
+        id: entry.id,
+        ...(await encryptEntry(rotated.key, rotated.keyring.version, plaintexts[index])),
+      })));
+      const saved = await saveKeyring("PUT", { keyring: rotated.keyring, entries });
+      setRecoveryKey(rotated.recoveryKey);
+      onUnlock(rotated.key, saved);
+      toast.success(`Re-encrypted ${entries.length} entries with a new key`);
+      reset();
+      onChanged();
+    });
+  };
+
+  const handleEncryptExisting = () => {
+    run(async() => {
+      const stored = (await fetchAllEntries(false)).filter((entry) => entry.isPrivate);
+      for (const entry of stored) {
+        const encrypted = await encryptEntry(journalKey!, keyring!.version, { title: entry.title, content: entry.content });
+        const response = await fetch(`/api/journal/${entry.id}`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ encrypted }),
+        });
+        if (!response.ok) {
+          throw new Error("Failed to encrypt an entry; the rest were left unchanged");
+        }
+      }
+      toast.success(`Encrypted ${stored.length} private entries`);
+      onChanged();
+    });
+  };
+
+  const passphraseFields = (label: string) => (
+    <>
+      <div>
+        <label htmlFor="journal-passphrase" className="text-sm font-medium">{label}</label>
+        <Input
+          id="journal-passphrase"
+          type="password"
+          autoComplete="new-password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          className="mt-1"
+        />
+      </div>
+      <div>
+        <label htmlFor="journal-passphrase-confirm" className="text-sm font-medium">Confirm passphrase</label>
+        <Input
+          id="journal-passphrase-confirm"
+          type="password"
+          autoComplete="new-password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          className="mt-1"
+        />
+      </div>
+    </>
+  );
+
+  // Recovery keys are shown once and never stored unwrapped
+  if (recoveryKey) {
+    return (
+      <Card className="border-purple-300">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <KeyRound className="h-4 w-4 text-purple-600" />
+            Save your recovery key
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-gray-600">
+            This is the only way to read your encrypted entries if you forget your passphrase. We can&apos;t recover it for you.
+          </p>
+          <code className="block p-3 bg-gray-100 rounded text-center font-mono text-sm break-all">{recoveryKey}</code>
+          <div className="flex gap-2">
+            <Button variant="outline" className="flex-1" onClick={() => navigator.clipboard?.writeText(recoveryKey)}>
+              Copy
+            </Button>
+            <Button className="flex-1 bg-purple-600 hover:bg-purple-700" onClick={() => {
+              setRecoveryKey(null);
+              onChanged();
+            }}>
+              I&apos;ve saved it
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            {journalKey ? <Unlock className="h-4 w-4 text-green-600" /> : <Lock className="h-4 w-4 text-purple-600" />}
+            Encryption
+          </span>
+          {journalKey && (
+            <Button variant="outline" size="sm" onClick={onLock}>
+              Lock
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!keyring ? (
+          <>
+            <p className="text-sm text-gray-600">
+              Encrypt private entries in your browser with a passphrase. Only encrypted text reaches our servers.
+              AI insights and text search can&apos;t read encrypted entries.
+            </p>
+            {passphraseFields("Passphrase")}
+            <Button onClick={handleSetup} disabled={isWorking} className="w-full bg-purple-600 hover:bg-purple-700">
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              {isWorking ? "Setting up..." : "Set up encryption"}
+            </Button>
+          </>
+        ) : !journalKey ? (
+          mode === "recover" ? (
+            <>
+              <div>
+                <label htmlFor="journal-recovery" className="text-sm font-medium">Recovery key</label>
+                <Input
+                  id="journal-recovery"
+                  value={recoveryInput}
+                  onChange={(e) => setRecoveryInput(e.target.value)}
+                  placeholder="XXXX-XXXX-..."
+                  className="mt-1 font-mono"
+                />
+              </div>
+              {passphraseFields("New passphrase")}
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={reset} disabled={isWorking}>
+                  Back
+                </Button>
+                <Button onClick={handleRecover} disabled={isWorking || !recoveryInput} className="flex-1">
+                  {isWorking ? "Recovering..." : "Recover journal"}
+                </Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600">
+                {status.encryptedEntries} encrypted {status.encryptedEntries === 1 ? "entry is" : "entries are"} locked.
+              </p>
+              <Input
+                type="password"
+                autoComplete="current-password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleUnlock()}
+                placeholder="Passphrase"
+              />
+              <Button onClick={handleUnlock} disabled={isWorking || !passphrase} className="w-full bg-purple-600 hover:bg-purple-700">
+                {isWorking ? "Unlocking..." : "Unlock journal"}
+              </Button>
+              <button className="text-xs text-purple-600 underline" onClick={() => setMode("recover")}>
+                Forgot your passphrase? Use your recovery key
+              </button>
+            </>
+          )
+        ) : mode === "passphrase" || mode === "rotate" ? (
+          <>
+            <p className="text-sm text-gray-600">
+              {mode === "rotate"
+                ? `Generates a new key and re-encrypts all ${status.encryptedEntries} encrypted entries in this browser. You'll also get a new recovery key.`
+                : "Your entries stay encrypted with the same key; only the passphrase that unlocks it changes."}
+            </p>
+            {passphraseFields(mode === "rotate" ? "Passphrase for the new key" : "New passphrase")}
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={reset} disabled={isWorking}>
+                Cancel
+              </Button>
+              <Button onClick={mode === "rotate" ? handleRotate : handleChangePassphrase} disabled={isWorking} className="flex-1">
+                {isWorking ? "Working..." : mode === "rotate" ? "Rotate key" : "Change passphrase"}
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              New private entries are encrypted (key v{keyring.version}).
+            </p>
+            {status.unencryptedPrivateEntries > 0 && (
+              <Button variant="outline" size="sm" className="w-full" onClick={handleEncryptExisting} disabled={isWorking}>
+                {isWorking ? "Encrypting..." : `Encrypt ${status.unencryptedPrivateEntries} existing private entries`}
+              </Button>
+            )}
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" className="flex-1" onClick={() => setMode("passphrase")}>
+                <KeyRound className="h-3 w-3 mr-1" />
+                Passphrase
+              </Button>
+              <Button variant="outline" size="sm" className="flex-1" onClick={() => setMode("rotate")}>
+                <RefreshCw className="h-3 w-3 mr-1" />
+                Rotate key
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tags } from "lucide-react";
+import type { TagCount } from "@/lib/journal/journal-search";
+
+interface JournalTagCloudProps {
+  selectedTag: string;
+  onSelect: (tag: string) => void;
+  refreshKey: number;
+}
+
+const SIZES = ["text-xs", "text-sm", "text-base", "text-lg", "text-xl"];
+
+export default function JournalTagCloud({ selectedTag, onSelect, refreshKey }: JournalTagCloudProps) {
+  const [tags, setTags] = useState<TagCount[]>([]);
+
+  useEffect(() => {
+    fetchTags();
+  }, [refreshKey]);
+
+  const fetchTags = async() => {
+    try {
+      const response = await fetch("/api/journal/tags");
+      if (response.ok) {
+        const data = await response.json();
+        setTags(data.tags);
+      }
+    } catch (error) {
+      console.error("Error fetching journal tags:", error);
+    }
+  };
+
+  if (tags.length === 0) {
+    return null;
+  }
+
+  const maxCount = tags[0].count;
+  // Alphabetical reads better in a cloud; size carries the count
+  const sorted = [...tags].sort((a, b) => a.tag.localeCompare(b.tag));
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Tags className="h-4 w-4" />
+          Tags
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-x-3 gap-y-1">
+        {sorted.map(({ tag, count }) => {
+          const size = SIZES[Math.round(((count - 1) / Math.max(maxCount - 1, 1)) * (SIZES.length - 1))];
+          const isSelected = selectedTag.toLowerCase() === tag.toLowerCase();
+          return (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => onSelect(isSelected ? "" : tag)}
+              className={`${size} ${isSelected ? "text-purple-700 font-semibold underline" : "text-gray-600 hover:text-purple-600"}`}
+              title={`${count} ${count === 1 ? "entry" : "entries"}`}
+            >
+              {tag}
+              <span className="ml-0.5 text-xs text-gray-400">{count}</span>
+            </button>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { History, Lock } from "lucide-react";
+import { toPayload } from "@/components/journal/JournalEncryptionPanel";
+import { decryptEntry } from "@/lib/journal/encryption";
+import type { JournalPlaintext } from "@/lib/journal/encryption";
+import type { JournalEntry } from "@/components/journal/JournalEditor";
+
+interface OnThisDayYear {
+  year: number;
+  yearsAgo: number;
+  entries: JournalEntry[];
+}
+
+interface OnThisDayProps {
+  journalKey: CryptoKey | null;
+  onOpen: (entry: JournalEntry, plaintext: JournalPlaintext | null) => void;
+  refreshKey: number;
+}
+
+function localDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export default function OnThisDay({ journalKey, onOpen, refreshKey }: OnThisDayProps) {
+  const [years, setYears] = useState<OnThisDayYear[]>([]);
+  const [decrypted, setDecrypted] = useState<Record<string, JournalPlaintext>>({});
+
+  useEffect(() => {
+    fetchOnThisDay();
+  }, [refreshKey]);
+
+  useEffect(() => {
+    decryptEntries();
+  }, [years, journalKey]);
+
+  const fetchOnThisDay = async() => {
+    try {
+      const now = new Date();
+      const params = new URLSearchParams({ date: localDate(now), tzOffset: String(now.getTimezoneOffset()) });
+      const response = await fetch(`/api/journal/on-this-day?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setYears(data.years);
+      }
+    } catch (error) {
+      console.error("Error fetching on this day entries:", error);
+    }
+  };
+
+  const decryptEntries = async() => {
+    if (!journalKey) {
+      setDecrypted({});
+      return;
+    }
+    const results: Record<string, JournalPlaintext> = {};
+    for (const entry of years.flatMap((group) => group.entries).filter((candidate) => candidate.encrypted)) {
+      try {
+        results[entry.id] = await decryptEntry(journalKey, toPayload(entry));
+      } catch (error) {
+        console.error(`Could not decrypt journal entry ${entry.id}:`, error);
+      }
+    }
+    setDecrypted(results);
+  };
+
+  if (years.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <History className="h-5 w-5 text-purple-600" />
+          On This Day
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {years.map((group) => (
+          <div key={group.year} className="space-y-2">
+            <p className="text-xs font-medium text-gray-500">
+              {group.yearsAgo === 1 ? "1 year ago" : `${group.yearsAgo} years ago`} ({group.year})
+            </p>
+            {group.entries.map((entry) => {
+              const plaintext = entry.encrypted ? decrypted[entry.id] : entry;
+              return (
+                <button
+                  key={entry.id}
+                  type="button"
+                  onClick={() => onOpen(entry, plaintext || null)}
+                  className="block w-full text-left rounded-md border p-3 hover:bg-gray-50"
+                >
+                  <p className="text-sm font-medium flex items-center gap-1">
+                    {entry.encrypted && <Lock className="h-3 w-3 text-purple-500 flex-shrink-0" />}
+                    {plaintext ? plaintext.title : entry.title}
+                  </p>
+                  <p className="text-xs text-gray-600 line-clamp-2">
+                    {plaintext ? plaintext.content : "Locked - unlock your journal to read this entry"}
+                  </p>
+                </button>
+              );
+            })}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
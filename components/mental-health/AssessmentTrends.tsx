@@ -0,0 +1,147 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
+import { LineChart as LineChartIcon } from "lucide-react";
+import { format } from "date-fns";
+import type { AssessmentChange, AssessmentTrend, ChangeCategory } from "@/lib/mental-health/assessment-trends";
+
+// Dates arrive as ISO strings over JSON
+type TrendResponse = Omit<AssessmentTrend, "points"> & {
+  points: { id: string; score: number; severity: string | null; createdAt: string }[];
+};
+
+const CATEGORY_STYLES: Record<ChangeCategory, { label: string; color: string }> = {
+  recovered: { label: "Recovered", color: "bg-green-100 text-green-800" },
+  improved: { label: "Reliably improved", color: "bg-green-50 text-green-700" },
+  unchanged: { label: "No reliable change", color: "bg-gray-100 text-gray-800" },
+  worsened: { label: "Reliably worsened", color: "bg-orange-100 text-orange-800" },
+  deteriorated: { label: "Worsened into clinical range", color: "bg-red-100 text-red-800" },
+};
+
+function ChangeBadge({ change }: { change: AssessmentChange }) {
+  const style = CATEGORY_STYLES[change.category];
+  return (
+    <Badge className={style.color}>
+      {style.label} ({change.difference > 0 ? "+" : ""}{change.difference}, RCI {change.rci})
+    </Badge>
+  );
+}
+
+export default function AssessmentTrends() {
+  const [trends, setTrends] = useState<TrendResponse[]>([]);
+  const [selectedType, setSelectedType] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchTrends();
+  }, []);
+
+  const fetchTrends = async() => {
+    try {
+      const response = await fetch("/api/mental-health/assessment/trends");
+      if (response.ok) {
+        const data = await response.json();
+        setTrends(data.trends);
+        if (data.trends.length > 0) {
+          setSelectedType(data.trends[0].type);
+        }
+      }
+    } catch (error) {
+      console.error("Error fetching assessment trends:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const trend = trends.find((candidate) => candidate.type === selectedType);
+  const chartData = trend?.points.map((point) => ({
+    date: format(new Date(point.createdAt), "MMM dd"),
+    score: point.score,
+    severity: point.severity,
+  })) || [];
+  const latestChange = trend?.changes[trend.changes.length - 1];
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <LineChartIcon className="h-5 w-5" />
+            Assessment Trends
+          </span>
+          {trends.length > 0 && (
+            <Select value={selectedType} onValueChange={setSelectedType}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {trends.map((candidate) => (
+                  <SelectItem key={candidate.type} value={candidate.type}>
+                    {candidate.type}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading trends...</p>
+        ) : !trend ? (
+          <p className="text-sm text-muted-foreground">
+            Complete an assessment to start tracking how your scores change over time.
+          </p>
+        ) : (
+          <>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" />
+                  <YAxis domain={[0, trend.maxScore]} />
+                  <Tooltip formatter={(value: number, _name: string, entry: any) => [`${value} (${entry.payload.severity || "unscored"})`, "Score"]} />
+                  <ReferenceLine
+                    y={trend.clinicalCutoff}
+                    stroke="#f59e0b"
+                    strokeDasharray="4 4"
+                    label={{ value: "Clinical cutoff", position: "insideTopRight", fontSize: 12 }}
+                  />
+                  <Line type="monotone" dataKey="score" stroke="#8b5cf6" strokeWidth={2} dot={{ r: 4 }} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              {trend.higherIsBetter ? "Higher scores are better. " : "Lower scores are better. "}
+              A change of {trend.reliableChange} points or more is larger than normal day-to-day variation in this questionnaire.
+            </p>
+
+            {trend.points.length < 2 ? (
+              <p className="text-sm text-muted-foreground">Retake the {trend.type} to see how your score changes.</p>
+            ) : (
+              <div className="space-y-2">
+                {latestChange && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span>Since last time</span>
+                    <ChangeBadge change={latestChange} />
+                  </div>
+                )}
+                {trend.sinceBaseline && trend.points.length > 2 && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span>Since first assessment</span>
+                    <ChangeBadge change={trend.sinceBaseline} />
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,221 +1,124 @@
 "use client";
 
 import React, { useState } from "react";
+import Link from "next/link";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
-import { ClipboardList, ArrowLeft, ArrowRight, CheckCircle, Brain, AlertCircle } from "lucide-react";
+import { ClipboardList, ArrowLeft, ArrowRight, CheckCircle, Brain, AlertCircle, Phone } from "lucide-react";
 import { toast } from "sonner";
-
-interface AssessmentQuestion {
-  id: number;
-  text: string;
-  options: {
-    value: number;
-    label: string;
-    description: string;
-  }[];
-}
+import {
+  ASSESSMENTS,
+  CRISIS_RESOURCES,
+  isSafetyResponse,
+} from "@/lib/mental-health/assessments";
+import type { AssessmentType, CrisisResource, SeverityTone } from "@/lib/mental-health/assessments";
+import { SAFETY_PLAN_PATH, SAFETY_PLAN_QUICK_PATH, telHref } from "@/lib/mental-health/safety-plan";
+import type { CrisisSafetyPlan } from "@/lib/mental-health/safety-plan";
 
 interface AssessmentResult {
   type: string;
-  scores: { [key: number]: number };
-  totalScore: number;
+  score: number;
+  maxScore: number;
+  severity: string;
+  tone: SeverityTone;
+  interpretation: string;
   summary?: string;
+  crisis?: {
+    message: string;
+    resources: CrisisResource[];
+    safetyPlan?: CrisisSafetyPlan | null;
+    safetyPlanUrl?: string;
+  };
 }
 
-const phq9Questions: AssessmentQuestion[] = [
-  {
-    id: 1,
-    text: "Little interest or pleasure in doing things",
-    options: [
-      { value: 0, label: "Not at all", description: "No problems" },
-      { value: 1, label: "Several days", description: "1-2 days in the past week" },
-      { value: 2, label: "More than half the days", description: "3-4 days in the past week" },
-      { value: 3, label: "Nearly every day", description: "5-7 days in the past week" },
-    ],
-  },
-  {
-    id: 2,
-    text: "Feeling down, depressed, or hopeless",
-    options: [
-      { value: 0, label: "Not at all", description: "No problems" },
-      { value: 1, label: "Several days", description: "1-2 days in the past week" },
-      { value: 2, label: "More than half the days", description: "3-4 days in the past week" },
-      { value: 3, label: "Nearly every day", description: "5-7 days in the past week" },
-    ],
-  },
-  {
-    id: 3,
-    text: "Trouble falling or staying asleep, or sleeping too much",
-    options: [
-      { value: 0, label: "Not at all", description: "No problems" },
-      { value: 1, label: "Several days", description: "1-2 days in the past week" },
-      { value: 2, label: "More than half the days", description: "3-4 days in the past week" },
-      { value: 3, label: "Nearly every day", description: "5-7 days in the past week" },
-    ],
-  },
-  {
-    id: 4,
-    text: "Feeling tired or having little energy",
-    options: [
-      { value: 0, label: "Not at all", description: "No problems" },
-      { value: 1, label: "Several days", description: "1-2 days in the past week" },
-      { value: 2, label: "More than half the days", description: "3-4 days in the past week" },
-      { value: 3, label: "Nearly every day", description: "5-7 days in the past week" },
-    ],
-  },
-  {
-    id: 5,
-    text: "Poor appetite or overeating",
-    options: [
-      { value: 0, label: "Not at all", description: "No problems" },
-      { value: 1, label: "Several days", description: "1-2 days in the past week" },
-      { value: 2, label: "More than half the days", description: "3-4 days in the past week" },
-      { value: 3, label: "Nearly every day", description: "5-7 days in the past week" },
-    ],
-  },
-  {
-    id: 6,
-    text: "Feeling bad about yourself - or that you are a failure or have let yourself or your family down",
-    options: [
-      { value: 0, label: "Not at all", description: "No problems" },
-      { value: 1, label: "Several days", description: "1-2 days in the past week" },
-      { value: 2, label: "More than half the days", description: "3-4 days in the past week" },
-      { value: 3, label: "Nearly every day", description: "5-7 days in the past week" },
-    ],
-  },
-  {
-    id: 7,
-    text: "Trouble concentrating on things, such as reading the newspaper or watching television",
-    options: [
-      { value: 0, label: "Not at all", description: "No problems" },
-      { value: 1, label: "Several days", description: "1-2 days in the past week" },
-      { value: 2, label: "More than half the days", description: "3-4 days in the past week" },
-      { value: 3, label: "Nearly every day", description: "5-7 days in the past week" },
-    ],
-  },
-  {
-    id: 8,
-    text: "Moving or speaking slowly enough that other people could have noticed. Or the opposite - being so fidgety or restless that you have been moving around a lot more than usual",
-    options: [
-      { value: 0, label: "Not at all", description: "No problems" },
-      { value: 1, label: "Several days", description: "1-2 days in the past week" },
-      { value: 2, label: "More than half the days", description: "3-4 days in the past week" },
-      { value: 3, label: "Nearly every day", description: "5-7 days in the past week" },
-    ],
-  },
-  {
-    id: 9,
-    text: "Thoughts that you would be better off dead or of hurting yourself in some way",
-    options: [
-      { value: 0, label: "Not at all", description: "No problems" },
-      { value: 1, label: "Several days", description: "1-2 days in the past week" },
-      { value: 2, label: "More than half the days", description: "3-4 days in the past week" },
-      { value: 3, label: "Nearly every day", description: "5-7 days in the past week" },
-    ],
-  },
-];
+const TONE_COLORS: Record<SeverityTone, string> = {
+  minimal: "bg-green-100 text-green-800",
+  mild: "bg-yellow-100 text-yellow-800",
+  moderate: "bg-orange-100 text-orange-800",
+  severe: "bg-red-100 text-red-800",
+};
 
-const gad7Questions: AssessmentQuestion[] = [
-  {
-    id: 1,
-    text: "Feeling nervous, anxious, or on edge",
-    options: [
-      { value: 0, label: "Not at all", description: "No problems" },
-      { value: 1, label: "Several days", description: "1-2 days in the past week" },
-      { value: 2, label: "More than half the days", description: "3-4 days in the past week" },
-      { value: 3, label: "Nearly every day", description: "5-7 days in the past week" },
-    ],
-  },
-  {
-    id: 2,
-    text: "Not being able to stop or control worrying",
-    options: [
-      { value: 0, label: "Not at all", description: "No problems" },
-      { value: 1, label: "Several days", description: "1-2 days in the past week" },
-      { value: 2, label: "More than half the days", description: "3-4 days in the past week" },
-      { value: 3, label: "Nearly every day", description: "5-7 days in the past week" },
-    ],
-  },
-  {
-    id: 3,
-    text: "Worrying too much about different things",
-    options: [
-      { value: 0, label: "Not at all", description: "No problems" },
-      { value: 1, label: "Several days", description: "1-2 days in the past week" },
-      { value: 2, label: "More than half the days", description: "3-4 days in the past week" },
-      { value: 3, label: "Nearly every day", description: "5-7 days in the past week" },
-    ],
-  },
-  {
-    id: 4,
-    text: "Trouble relaxing",
-    options: [
-      { value: 0, label: "Not at all", description: "No problems" },
-      { value: 1, label: "Several days", description: "1-2 days in the past week" },
-      { value: 2, label: "More than half the days", description: "3-4 days in the past week" },
-      { value: 3, label: "Nearly every day", description: "5-7 days in the past week" },
-    ],
-  },
-  {
-    id: 5,
-    text: "Being so restless that it's hard to sit still",
-    options: [
-      { value: 0, label: "Not at all", description: "No problems" },
-      { value: 1, label: "Several days", description: "1-2 days in the past week" },
-      { value: 2, label: "More than half the days", description: "3-4 days in the past week" },
-      { value: 3, label: "Nearly every day", description: "5-7 days in the past week" },
-    ],
-  },
-  {
-    id: 6,
-    text: "Becoming easily annoyed or irritable",
-    options: [
-      { value: 0, label: "Not at all", description: "No problems" },
-      { value: 1, label: "Several days", description: "1-2 days in the past week" },
-      { value: 2, label: "More than half the days", description: "3-4 days in the past week" },
-      { value: 3, label: "Nearly every day", description: "5-7 days in the past week" },
-    ],
-  },
-  {
-    id: 7,
-    text: "Feeling afraid as if something awful might happen",
-    options: [
-      { value: 0, label: "Not at all", description: "No problems" },
-      { value: 1, label: "Several days", description: "1-2 days in the past week" },
-      { value: 2, label: "More than half the days", description: "3-4 days in the past week" },
-      { value: 3, label: "Nearly every day", description: "5-7 days in the past week" },
-    ],
-  },
-];
+// The user's own plan comes first when they have one
+function SafetyPlanSteps({ plan }: { plan: CrisisSafetyPlan }) {
+  return (
+    <div className="space-y-2 text-sm text-red-900">
+      <p className="font-medium">From your safety plan</p>
+      {plan.copingStrategies.length > 0 && (
+        <p>Try: {plan.copingStrategies.join(", ")}</p>
+      )}
+      {plan.contacts.map((contact) => (
+        <div key={contact.name} className="flex items-center gap-3">
+          <Phone className="h-4 w-4 text-red-600" />
+          {contact.phone ? (
+            <a href={telHref(contact.phone)} className="underline">
+              {contact.name}: {contact.phone}
+            </a>
+          ) : (
+            <span>{contact.name}</span>
+          )}
+        </div>
+      ))}
+      {plan.reasonsForLiving.length > 0 && (
+        <p>Remember: {plan.reasonsForLiving.join(", ")}</p>
+      )}
+    </div>
+  );
+}
 
-const assessments = {
-  "PHQ-9": {
-    title: "Patient Health Questionnaire (PHQ-9)",
-    description: "A 9-item depression screening tool",
-    questions: phq9Questions,
-    maxScore: 27,
-  },
-  "GAD-7": {
-    title: "Generalized Anxiety Disorder (GAD-7)",
-    description: "A 7-item anxiety screening tool",
-    questions: gad7Questions,
-    maxScore: 21,
-  },
-};
+function CrisisResources({
+  message,
+  resources,
+  safetyPlan,
+  safetyPlanUrl,
+}: {
+  message: string;
+  resources: CrisisResource[];
+  safetyPlan?: CrisisSafetyPlan | null;
+  safetyPlanUrl?: string;
+}) {
+  return (
+    <div className="p-4 bg-red-50 border border-red-200 rounded-lg space-y-3">
+      <div className="flex items-start gap-3">
+        <AlertCircle className="h-5 w-5 text-red-600 mt-0.5" />
+        <p className="text-sm text-red-800">{message}</p>
+      </div>
+      <div className="space-y-2">
+        {resources.map((resource) => (
+          <div key={resource.name} className="flex items-center gap-3 text-sm">
+            <Phone className="h-4 w-4 text-red-600" />
+            <div>
+              <p className="font-medium text-red-900">
+                {resource.name}: {resource.contact}
+              </p>
+              <p className="text-red-700">{resource.description}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+      {safetyPlan && <SafetyPlanSteps plan={safetyPlan} />}
+      <Link
+        href={safetyPlan ? safetyPlan.url : safetyPlanUrl ?? SAFETY_PLAN_QUICK_PATH}
+        className="inline-block text-sm font-medium text-red-800 underline"
+      >
+        {safetyPlan || !safetyPlanUrl ? "Open my safety plan" : "Make a safety plan for moments like this"}
+      </Link>
+    </div>
+  );
+}
 
 export default function AssessmentWizard() {
-  const [selectedAssessment, setSelectedAssessment] = useState<string>("");
+  const [selectedAssessment, setSelectedAssessment] = useState<AssessmentType | "">("");
   const [currentStep, setCurrentStep] = useState(0);
   const [answers, setAnswers] = useState<{ [key: number]: number }>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [result, setResult] = useState<AssessmentResult | null>(null);
 
-  const assessment = selectedAssessment ? assessments[selectedAssessment as keyof typeof assessments] : null;
-  const questions = assessment?.questions || [];
+  const assessment = selectedAssessment ? ASSESSMENTS[selectedAssessment] : null;
+  const questions = assessment?.items || [];
   const progress = questions.length > 0 ? ((currentStep + 1) / questions.length) * 100 : 0;
+  const safetyTriggered = questions.some((question) => isSafetyResponse(question, answers[question.id]));
 
   const handleAnswerSelect = (questionId: number, value: number) => {
     setAnswers(prev => ({
@@ -238,15 +141,8 @@ export default function AssessmentWizard() {
 
   const handleSubmit = async() => {
     if (!selectedAssessment) {
-return;
-}
-
-    const totalScore = Object.values(answers).reduce((sum, score) => sum + score, 0);
-    const resultData: AssessmentResult = {
-      type: selectedAssessment,
-      scores: answers,
-      totalScore,
-    };
+      return;
+    }
 
     setIsSubmitting(true);
     try {
@@ -257,19 +153,17 @@ return;
         },
         body: JSON.stringify({
           type: selectedAssessment,
-          scores: resultData,
+          answers: questions.map((question) => answers[question.id]),
         }),
       });
 
       if (response.ok) {
         const data = await response.json();
-        setResult({
-          ...resultData,
-          summary: data.summary,
-        });
+        setResult(data);
         toast.success("Assessment completed successfully!");
       } else {
-        toast.error("Failed to submit assessment");
+        const data = await response.json();
+        toast.error(data.error || "Failed to submit assessment");
       }
     } catch (error) {
       toast.error("Failed to submit assessment");
@@ -278,36 +172,6 @@ return;
     }
   };
 
-  const getSeverityLevel = (score: number, type: string) => {
-    if (type === "PHQ-9") {
-      if (score <= 4) {
-return { level: "Minimal", color: "bg-green-100 text-green-800" };
-}
-      if (score <= 9) {
-return { level: "Mild", color: "bg-yellow-100 text-yellow-800" };
-}
-      if (score <= 14) {
-return { level: "Moderate", color: "bg-orange-100 text-orange-800" };
-}
-      if (score <= 19) {
-return { level: "Moderately Severe", color: "bg-red-100 text-red-800" };
-}
-      return { level: "Severe", color: "bg-red-200 text-red-900" };
-    } else if (type === "GAD-7") {
-      if (score <= 4) {
-return { level: "Minimal", color: "bg-green-100 text-green-800" };
-}
-      if (score <= 9) {
-return { level: "Mild", color: "bg-yellow-100 text-yellow-800" };
-}
-      if (score <= 14) {
-return { level: "Moderate", color: "bg-orange-100 text-orange-800" };
-}
-      return { level: "Severe", color: "bg-red-100 text-red-800" };
-    }
-    return { level: "Unknown", color: "bg-gray-100 text-gray-800" };
-  };
-
   const handleRestart = () => {
     setSelectedAssessment("");
     setCurrentStep(0);
@@ -316,7 +180,7 @@ return { level: "Moderate", color: "bg-orange-100 text-orange-800" };
   };
 
   // Assessment Selection Screen
-  if (!selectedAssessment) {
+  if (!assessment) {
     return (
       <Card className="w-full max-w-2xl mx-auto">
         <CardHeader>
@@ -329,19 +193,19 @@ return { level: "Moderate", color: "bg-orange-100 text-orange-800" };
           </p>
         </CardHeader>
         <CardContent className="space-y-4">
-          {Object.entries(assessments).map(([key, assessment]) => (
+          {Object.values(ASSESSMENTS).map((definition) => (
             <Card
-              key={key}
+              key={definition.type}
               className="cursor-pointer hover:shadow-md transition-shadow border-2 hover:border-primary"
-              onClick={() => setSelectedAssessment(key)}
+              onClick={() => setSelectedAssessment(definition.type)}
             >
               <CardContent className="p-4">
                 <div className="flex items-center justify-between">
                   <div>
-                    <h3 className="font-semibold">{assessment.title}</h3>
-                    <p className="text-sm text-muted-foreground">{assessment.description}</p>
+                    <h3 className="font-semibold">{definition.title}</h3>
+                    <p className="text-sm text-muted-foreground">{definition.description}</p>
                     <p className="text-xs text-muted-foreground mt-1">
-                      {assessment.questions.length} questions • ~5 minutes
+                      {definition.items.length} questions • ~{Math.max(2, Math.ceil(definition.items.length / 2))} minutes
                     </p>
                   </div>
                   <ArrowRight className="h-5 w-5 text-muted-foreground" />
@@ -369,7 +233,6 @@ return { level: "Moderate", color: "bg-orange-100 text-orange-800" };
 
   // Results Screen
   if (result) {
-    const severity = getSeverityLevel(result.totalScore, result.type);
     return (
       <Card className="w-full max-w-2xl mx-auto">
         <CardHeader>
@@ -379,19 +242,34 @@ return { level: "Moderate", color: "bg-orange-100 text-orange-800" };
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-6">
+          {result.crisis && (
+            <CrisisResources
+              message={result.crisis.message}
+              resources={result.crisis.resources}
+              safetyPlan={result.crisis.safetyPlan}
+              safetyPlanUrl={result.crisis.safetyPlanUrl ?? SAFETY_PLAN_PATH}
+            />
+          )}
+
           <div className="text-center">
-            <h3 className="text-lg font-semibold mb-2">{assessments[selectedAssessment as keyof typeof assessments].title}</h3>
+            <h3 className="text-lg font-semibold mb-2">{assessment.title}</h3>
             <div className="flex items-center justify-center gap-4 mb-4">
               <div className="text-center">
-                <p className="text-2xl font-bold">{result.totalScore}</p>
-                <p className="text-sm text-muted-foreground">Total Score</p>
+                <p className="text-2xl font-bold">
+                  {result.score}
+                  <span className="text-sm font-normal text-muted-foreground">/{result.maxScore}</span>
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {assessment.higherIsBetter ? "Wellbeing Score" : "Total Score"}
+                </p>
               </div>
               <div className="text-center">
-                <Badge className={severity.color}>
-                  {severity.level}
+                <Badge className={TONE_COLORS[result.tone]}>
+                  {result.severity}
                 </Badge>
               </div>
             </div>
+            <p className="text-sm text-muted-foreground">{result.interpretation}</p>
           </div>
 
           {result.summary && (
@@ -410,7 +288,7 @@ return { level: "Moderate", color: "bg-orange-100 text-orange-800" };
               <div key={question.id} className="text-sm">
                 <p className="font-medium">{question.id}. {question.text}</p>
                 <p className="text-muted-foreground">
-                  Response: {question.options.find(opt => opt.value === answers[question.id])?.label || "Not answered"}
+                  Response: {assessment.options.find(opt => opt.value === answers[question.id])?.label || "Not answered"}
                 </p>
               </div>
             ))}
@@ -428,8 +306,8 @@ return { level: "Moderate", color: "bg-orange-100 text-orange-800" };
 
   // Question Screen
   const currentQuestion = questions[currentStep];
-  const isAnswered = answers[currentQuestion?.id] !== undefined;
-  const canProceed = isAnswered || currentStep === 0;
+  const canProceed = answers[currentQuestion?.id] !== undefined;
+  const allAnswered = questions.every((question) => answers[question.id] !== undefined);
 
   return (
     <Card className="w-full max-w-2xl mx-auto">
@@ -437,7 +315,7 @@ return { level: "Moderate", color: "bg-orange-100 text-orange-800" };
         <div className="flex items-center justify-between">
           <CardTitle className="flex items-center gap-2">
             <ClipboardList className="h-5 w-5" />
-            {assessment?.title}
+            {assessment.title}
           </CardTitle>
           <Badge variant="outline">
             {currentStep + 1} of {questions.length}
@@ -449,12 +327,13 @@ return { level: "Moderate", color: "bg-orange-100 text-orange-800" };
         {currentQuestion && (
           <>
             <div>
+              <p className="text-sm text-muted-foreground mb-2">{assessment.prompt}</p>
               <h3 className="text-lg font-medium mb-4">
                 {currentQuestion.text}
               </h3>
 
               <div className="space-y-3">
-                {currentQuestion.options.map((option) => (
+                {assessment.options.map((option) => (
                   <button
                     key={option.value}
                     onClick={() => handleAnswerSelect(currentQuestion.id, option.value)}
@@ -467,7 +346,9 @@ return { level: "Moderate", color: "bg-orange-100 text-orange-800" };
                     <div className="flex items-center justify-between">
                       <div>
                         <p className="font-medium">{option.label}</p>
-                        <p className="text-sm text-muted-foreground">{option.description}</p>
+                        {option.description && (
+                          <p className="text-sm text-muted-foreground">{option.description}</p>
+                        )}
                       </div>
                       {answers[currentQuestion.id] === option.value && (
                         <CheckCircle className="h-5 w-5 text-primary" />
@@ -478,6 +359,14 @@ return { level: "Moderate", color: "bg-orange-100 text-orange-800" };
               </div>
             </div>
 
+            {/* Shown as soon as a safety item is answered, before submitting */}
+            {safetyTriggered && (
+              <CrisisResources
+                message="If you're having thoughts of ending your life or hurting yourself, please reach out for support now. You can finish this assessment afterwards."
+                resources={CRISIS_RESOURCES}
+              />
+            )}
+
             <div className="flex justify-between">
               <Button
                 variant="outline"
@@ -492,7 +381,7 @@ return { level: "Moderate", color: "bg-orange-100 text-orange-800" };
               {currentStep === questions.length - 1 ? (
                 <Button
                   onClick={handleSubmit}
-                  disabled={!canProceed || isSubmitting}
+                  disabled={!allAnswered || isSubmitting}
                   className="flex items-center gap-2"
                 >
                   {isSubmitting ? "Submitting..." : "Complete Assessment"}
@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useState } from "react";
+import { useRouter } from "next/navigation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -9,6 +10,7 @@ import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
 import { Smile, Meh, Frown, Heart, Zap, Coffee, Book, Music, Users, Home } from "lucide-react";
 import { toast } from "sonner";
+import { THOUGHT_RECORD_PATH } from "@/lib/mental-health/thought-records";
 
 interface MoodEntry {
   moodScore: number;
@@ -41,6 +43,7 @@ const suggestedTags = [
 ];
 
 export default function DailyMoodTracker() {
+  const router = useRouter();
   const [moodScore, setMoodScore] = useState(5);
   const [notes, setNotes] = useState("");
   const [tags, setTags] = useState<string[]>([]);
@@ -101,6 +104,17 @@ export default function DailyMoodTracker() {
             duration: 5000,
           });
         }
+
+        // Offer a thought record for low moods, linked to this check-in
+        if (moodScore <= 4) {
+          toast("Want to work through what's behind this feeling?", {
+            duration: 10000,
+            action: {
+              label: "Thought record",
+              onClick: () => router.push(`${THOUGHT_RECORD_PATH}?moodEntryId=${result.id}`),
+            },
+          });
+        }
       } else {
         const error = await response.json();
         toast.error(error.error || "Failed to save mood entry");
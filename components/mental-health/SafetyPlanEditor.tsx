@@ -0,0 +1,221 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Trash2, ShieldCheck, Save } from "lucide-react";
+import { toast } from "sonner";
+import {
+  EMPTY_SAFETY_PLAN,
+  SAFETY_PLAN_QUICK_PATH,
+  SAFETY_PLAN_SECTIONS,
+  readCachedSafetyPlan,
+  writeCachedSafetyPlan,
+} from "@/lib/mental-health/safety-plan";
+import type {
+  SafetyContact,
+  SafetyPlan,
+  SafetyPlanContactField,
+  SafetyPlanListField,
+} from "@/lib/mental-health/safety-plan";
+
+export default function SafetyPlanEditor() {
+  const [plan, setPlan] = useState<SafetyPlan>(EMPTY_SAFETY_PLAN);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadPlan = async() => {
+      try {
+        const response = await fetch("/api/mental-health/safety-plan");
+        if (!response.ok) {
+          throw new Error("Failed to load safety plan");
+        }
+        const data = await response.json();
+        setPlan(data.plan ?? EMPTY_SAFETY_PLAN);
+        writeCachedSafetyPlan(data.plan);
+      } catch (error) {
+        console.error("Error loading safety plan:", error);
+        const cached = readCachedSafetyPlan();
+        if (cached) {
+          setPlan(cached);
+          toast.error("Couldn't reach the server - showing your saved copy");
+        } else {
+          toast.error("Failed to load your safety plan");
+        }
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadPlan();
+  }, []);
+
+  const updateList = (field: SafetyPlanListField, items: string[]) => {
+    setPlan((current) => ({ ...current, [field]: items }));
+  };
+
+  const updateContacts = (field: SafetyPlanContactField, contacts: SafetyContact[]) => {
+    setPlan((current) => ({ ...current, [field]: contacts }));
+  };
+
+  const handleSave = async() => {
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/mental-health/safety-plan", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(plan),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to save safety plan");
+      }
+      const data = await response.json();
+      setPlan(data.plan);
+      writeCachedSafetyPlan(data.plan);
+      toast.success("Safety plan saved");
+    } catch (error) {
+      console.error("Error saving safety plan:", error);
+      toast.error("Failed to save your safety plan");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading your safety plan...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {plan.updatedAt ? `Last updated ${new Date(plan.updatedAt).toLocaleDateString()}` : "Not saved yet"}
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href={SAFETY_PLAN_QUICK_PATH}>
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Quick view
+            </Link>
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            <Save className="h-4 w-4 mr-2" />
+            {isSaving ? "Saving..." : "Save plan"}
+          </Button>
+        </div>
+      </div>
+
+      {SAFETY_PLAN_SECTIONS.map((section) => (
+        <Card key={section.field}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              {section.step !== null && <Badge variant="secondary">Step {section.step}</Badge>}
+              {section.title}
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">{section.prompt}</p>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {section.kind === "list" ? (
+              <ListEditor
+                items={plan[section.field]}
+                placeholder={section.placeholder}
+                onChange={(items) => updateList(section.field, items)}
+              />
+            ) : (
+              <ContactEditor
+                contacts={plan[section.field]}
+                placeholder={section.placeholder}
+                onChange={(contacts) => updateContacts(section.field, contacts)}
+              />
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={isSaving}>
+          <Save className="h-4 w-4 mr-2" />
+          {isSaving ? "Saving..." : "Save plan"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ListEditor({
+  items,
+  placeholder,
+  onChange,
+}: {
+  items: string[];
+  placeholder: string;
+  onChange: (items: string[]) => void;
+}) {
+  return (
+    <>
+      {items.map((item, index) => (
+        <div key={index} className="flex gap-2">
+          <Input
+            value={item}
+            placeholder={placeholder}
+            onChange={(e) => onChange(items.map((existing, i) => (i === index ? e.target.value : existing)))}
+          />
+          <Button variant="ghost" size="sm" onClick={() => onChange(items.filter((_, i) => i !== index))}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => onChange([...items, ""])}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add
+      </Button>
+    </>
+  );
+}
+
+function ContactEditor({
+  contacts,
+  placeholder,
+  onChange,
+}: {
+  contacts: SafetyContact[];
+  placeholder: string;
+  onChange: (contacts: SafetyContact[]) => void;
+}) {
+  const update = (index: number, changes: Partial<SafetyContact>) => {
+    onChange(contacts.map((contact, i) => (i === index ? { ...contact, ...changes } : contact)));
+  };
+
+  return (
+    <>
+      {contacts.map((contact, index) => (
+        <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-2">
+          <Input value={contact.name} placeholder={placeholder} onChange={(e) => update(index, { name: e.target.value })} />
+          <Input
+            type="tel"
+            value={contact.phone ?? ""}
+            placeholder="Phone"
+            onChange={(e) => update(index, { phone: e.target.value })}
+          />
+          <Input
+            value={contact.note ?? ""}
+            placeholder="Relationship or notes"
+            onChange={(e) => update(index, { note: e.target.value })}
+          />
+          <Button variant="ghost" size="sm" onClick={() => onChange(contacts.filter((_, i) => i !== index))}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => onChange([...contacts, { name: "" }])}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add contact
+      </Button>
+    </>
+  );
+}
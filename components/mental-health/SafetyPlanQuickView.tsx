@@ -0,0 +1,156 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Phone, Pencil, WifiOff } from "lucide-react";
+import { CRISIS_RESOURCES } from "@/lib/mental-health/assessments";
+import {
+  SAFETY_PLAN_PATH,
+  SAFETY_PLAN_QUICK_PATH,
+  SAFETY_PLAN_SECTIONS,
+  SAFETY_PLAN_SW_PATH,
+  isSafetyPlanEmpty,
+  readCachedSafetyPlan,
+  telHref,
+  writeCachedSafetyPlan,
+} from "@/lib/mental-health/safety-plan";
+import type { SafetyContact, SafetyPlan } from "@/lib/mental-health/safety-plan";
+
+// Read-only plan for use in a crisis. Renders the local copy first so it works
+// offline, then refreshes it from the server.
+export default function SafetyPlanQuickView() {
+  const [plan, setPlan] = useState<SafetyPlan | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isOffline, setIsOffline] = useState(false);
+
+  useEffect(() => {
+    setPlan(readCachedSafetyPlan());
+
+    if ("serviceWorker" in navigator) {
+      navigator.serviceWorker.register(SAFETY_PLAN_SW_PATH, { scope: SAFETY_PLAN_QUICK_PATH }).catch((error) => {
+        console.error("Safety plan service worker registration failed:", error);
+      });
+    }
+
+    const refreshPlan = async() => {
+      try {
+        const response = await fetch("/api/mental-health/safety-plan");
+        if (!response.ok) {
+          throw new Error("Failed to load safety plan");
+        }
+        const data = await response.json();
+        setPlan(data.plan);
+        writeCachedSafetyPlan(data.plan);
+        setIsOffline(false);
+      } catch (error) {
+        console.error("Error refreshing safety plan:", error);
+        setIsOffline(true);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    refreshPlan();
+  }, []);
+
+  const hasPlan = plan && !isSafetyPlanEmpty(plan);
+
+  return (
+    <div className="space-y-4">
+      {isOffline && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <WifiOff className="h-4 w-4" />
+          {plan?.updatedAt
+            ? `Offline - showing the copy saved on this device (${new Date(plan.updatedAt).toLocaleDateString()})`
+            : "Offline - showing the copy saved on this device"}
+        </div>
+      )}
+
+      <Card className="border-red-200 bg-red-50">
+        <CardHeader>
+          <CardTitle className="text-lg text-red-900">If you are in danger right now</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {CRISIS_RESOURCES.map((resource) => (
+            <div key={resource.name} className="flex items-center gap-3 text-sm">
+              <Phone className="h-4 w-4 text-red-600" />
+              <div>
+                <p className="font-medium text-red-900">
+                  {resource.name}: {resource.contact}
+                </p>
+                <p className="text-red-700">{resource.description}</p>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {hasPlan ? (
+        SAFETY_PLAN_SECTIONS.filter((section) => plan[section.field].length > 0).map((section) => (
+          <Card key={section.field}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                {section.step !== null && <Badge variant="secondary">Step {section.step}</Badge>}
+                {section.title}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {section.kind === "list" ? (
+                <ul className="list-disc pl-5 space-y-1">
+                  {plan[section.field].map((item) => (
+                    <li key={item}>{item}</li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="space-y-2">
+                  {plan[section.field].map((contact) => (
+                    <ContactRow key={`${contact.name}-${contact.phone ?? ""}`} contact={contact} />
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      ) : (
+        !isLoading && (
+          <Card>
+            <CardContent className="p-6 space-y-3">
+              <p className="text-sm text-muted-foreground">
+                You haven't made a safety plan yet. Writing one down when you feel calmer makes it easier to
+                know what to do when things get hard.
+              </p>
+            </CardContent>
+          </Card>
+        )
+      )}
+
+      <Button variant="outline" asChild>
+        <Link href={SAFETY_PLAN_PATH}>
+          <Pencil className="h-4 w-4 mr-2" />
+          {hasPlan ? "Edit my plan" : "Make my plan"}
+        </Link>
+      </Button>
+    </div>
+  );
+}
+
+function ContactRow({ contact }: { contact: SafetyContact }) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <div>
+        <p className="font-medium">{contact.name}</p>
+        {contact.note && <p className="text-sm text-muted-foreground">{contact.note}</p>}
+      </div>
+      {contact.phone && (
+        <Button size="sm" asChild>
+          <a href={telHref(contact.phone)}>
+            <Phone className="h-4 w-4 mr-2" />
+            {contact.phone}
+          </a>
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+"use client";
+
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Slider } from "@/components/ui/slider";
+import { Progress } from "@/components/ui/progress";
+import { ArrowLeft, ArrowRight, Brain, CheckCircle } from "lucide-react";
+import { toast } from "sonner";
+import { COGNITIVE_DISTORTIONS, DISTORTION_IDS, detectDistortionCues } from "@/lib/mental-health/thought-records";
+import type { DistortionId } from "@/lib/mental-health/thought-records";
+
+const STEPS = [
+  { title: "Situation", prompt: "What happened? Where were you, who was there, what were you doing?" },
+  { title: "Automatic thought", prompt: "What went through your mind? Write the thought the way it sounded." },
+  { title: "Emotion", prompt: "What did you feel, and how strong was it?" },
+  { title: "Thinking traps", prompt: "Do any of these describe the thought? Tick all that apply." },
+  { title: "Evidence", prompt: "Look at the thought like a detective would." },
+  { title: "Balanced thought", prompt: "Taking all the evidence into account, what's a more balanced way to see it?" },
+];
+
+const EMOTIONS = ["Anxious", "Sad", "Angry", "Ashamed", "Guilty", "Frustrated", "Lonely", "Hopeless"];
+
+interface ThoughtRecordFormProps {
+  moodEntryId?: string;
+  onSaved?: () => void;
+}
+
+export default function ThoughtRecordForm({ moodEntryId, onSaved }: ThoughtRecordFormProps) {
+  const [step, setStep] = useState(0);
+  const [situation, setSituation] = useState("");
+  const [automaticThought, setAutomaticThought] = useState("");
+  const [emotion, setEmotion] = useState("");
+  const [intensityBefore, setIntensityBefore] = useState(70);
+  const [distortions, setDistortions] = useState<DistortionId[]>([]);
+  const [evidenceFor, setEvidenceFor] = useState("");
+  const [evidenceAgainst, setEvidenceAgainst] = useState("");
+  const [balancedThought, setBalancedThought] = useState("");
+  const [intensityAfter, setIntensityAfter] = useState(70);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const canContinue = [
+    situation.trim(),
+    automaticThought.trim(),
+    emotion.trim(),
+    true,
+    true,
+    true,
+  ][step];
+
+  const handleNext = () => {
+    // Suggest traps from the wording of the thought, once
+    if (step === 2 && distortions.length === 0) {
+      setDistortions(detectDistortionCues(automaticThought));
+    }
+    // Start the re-rating from the original intensity
+    if (step === 4) {
+      setIntensityAfter(intensityBefore);
+    }
+    setStep(step + 1);
+  };
+
+  const toggleDistortion = (id: DistortionId) => {
+    setDistortions(distortions.includes(id) ? distortions.filter((existing) => existing !== id) : [...distortions, id]);
+  };
+
+  const reset = () => {
+    setStep(0);
+    setSituation("");
+    setAutomaticThought("");
+    setEmotion("");
+    setIntensityBefore(70);
+    setDistortions([]);
+    setEvidenceFor("");
+    setEvidenceAgainst("");
+    setBalancedThought("");
+    setIntensityAfter(70);
+  };
+
+  const handleSubmit = async() => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/mental-health/thought-records", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          moodEntryId,
+          situation,
+          automaticThought,
+          emotion,
+          intensityBefore,
+          distortions,
+          evidenceFor: evidenceFor.trim() || undefined,
+          evidenceAgainst: evidenceAgainst.trim() || undefined,
+          balancedThought: balancedThought.trim() || undefined,
+          // Only re-rated once there is a balanced thought to compare against
+          intensityAfter: balancedThought.trim() ? intensityAfter : undefined,
+        }),
+      });
+
+      if (response.ok) {
+        toast.success("Thought record saved");
+        reset();
+        onSaved?.();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to save thought record");
+      }
+    } catch (error) {
+      toast.error("Failed to save thought record");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Brain className="h-5 w-5 text-purple-500" />
+          {STEPS[step].title}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">{STEPS[step].prompt}</p>
+        <Progress value={((step + 1) / STEPS.length) * 100} className="w-full" />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {step === 0 && (
+          <Textarea
+            value={situation}
+            onChange={(e) => setSituation(e.target.value)}
+            placeholder="e.g. My manager didn't reply to my message all afternoon"
+            rows={4}
+          />
+        )}
+
+        {step === 1 && (
+          <Textarea
+            value={automaticThought}
+            onChange={(e) => setAutomaticThought(e.target.value)}
+            placeholder="e.g. She thinks my work is terrible and I'm going to get fired"
+            rows={4}
+          />
+        )}
+
+        {step === 2 && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {EMOTIONS.map((option) => (
+                <Button
+                  key={option}
+                  variant={emotion === option ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setEmotion(option)}
+                >
+                  {option}
+                </Button>
+              ))}
+            </div>
+            <Input value={emotion} onChange={(e) => setEmotion(e.target.value)} placeholder="Or name it yourself" />
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Intensity: {intensityBefore}%</p>
+              <Slider
+                value={[intensityBefore]}
+                onValueChange={(value) => setIntensityBefore(value[0])}
+                max={100}
+                min={0}
+                step={5}
+                className="w-full"
+              />
+            </div>
+          </div>
+        )}
+
+        {step === 3 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {DISTORTION_IDS.map((id) => {
+              const distortion = COGNITIVE_DISTORTIONS[id];
+              const selected = distortions.includes(id);
+              return (
+                <button
+                  key={id}
+                  type="button"
+                  onClick={() => toggleDistortion(id)}
+                  className={`p-3 text-left border rounded-lg transition-colors ${
+                    selected ? "border-primary bg-primary/10" : "border-gray-200 hover:border-gray-300"
+                  }`}
+                >
+                  <p className="text-sm font-medium">{distortion.label}</p>
+                  <p className="text-xs text-muted-foreground">{distortion.description}</p>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {step === 4 && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Evidence that supports the thought</p>
+              <Textarea value={evidenceFor} onChange={(e) => setEvidenceFor(e.target.value)} rows={3} />
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Evidence that doesn't support it</p>
+              <Textarea value={evidenceAgainst} onChange={(e) => setEvidenceAgainst(e.target.value)} rows={3} />
+            </div>
+            {distortions.length > 0 && (
+              <ul className="text-sm text-muted-foreground list-disc pl-5 space-y-1">
+                {distortions.map((id) => (
+                  <li key={id}>{COGNITIVE_DISTORTIONS[id].question}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {step === 5 && (
+          <div className="space-y-4">
+            <Textarea
+              value={balancedThought}
+              onChange={(e) => setBalancedThought(e.target.value)}
+              placeholder="e.g. She's often busy in the afternoon, and my last review was good"
+              rows={4}
+            />
+            {balancedThought.trim() && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">
+                  How {emotion.toLowerCase() || "strong"} do you feel now? {intensityAfter}%
+                </p>
+                <Slider
+                  value={[intensityAfter]}
+                  onValueChange={(value) => setIntensityAfter(value[0])}
+                  max={100}
+                  min={0}
+                  step={5}
+                  className="w-full"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={() => setStep(step - 1)} disabled={step === 0}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Previous
+          </Button>
+          {step < STEPS.length - 1 ? (
+            <Button onClick={handleNext} disabled={!canContinue}>
+              Next
+              <ArrowRight className="h-4 w-4 ml-2" />
+            </Button>
+          ) : (
+            <Button onClick={handleSubmit} disabled={isSubmitting}>
+              <CheckCircle className="h-4 w-4 mr-2" />
+              {isSubmitting ? "Saving..." : "Save record"}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { Progress } from "@/components/ui/progress";
+import { BarChart3, History, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { COGNITIVE_DISTORTIONS } from "@/lib/mental-health/thought-records";
+import type { DistortionId, ThoughtRecordStats } from "@/lib/mental-health/thought-records";
+
+interface ThoughtRecord {
+  id: string;
+  situation: string;
+  automaticThought: string;
+  emotion: string;
+  intensityBefore: number;
+  distortions: DistortionId[];
+  evidenceFor: string | null;
+  evidenceAgainst: string | null;
+  balancedThought: string | null;
+  intensityAfter: number | null;
+  createdAt: string;
+  moodEntry: { id: string; mood: number; createdAt: string } | null;
+}
+
+export default function ThoughtRecordHistory({ refreshKey = 0 }: { refreshKey?: number }) {
+  const [records, setRecords] = useState<ThoughtRecord[]>([]);
+  const [stats, setStats] = useState<ThoughtRecordStats | null>(null);
+  const [distortion, setDistortion] = useState<DistortionId | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [rerating, setRerating] = useState<{ id: string; value: number } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const loadHistory = async() => {
+      setIsLoading(true);
+      try {
+        const params = new URLSearchParams({ limit: "50" });
+        if (distortion) {
+          params.set("distortion", distortion);
+        }
+        const [recordsResponse, statsResponse] = await Promise.all([
+          fetch(`/api/mental-health/thought-records?${params}`),
+          fetch("/api/mental-health/thought-records/stats"),
+        ]);
+        if (!recordsResponse.ok || !statsResponse.ok) {
+          throw new Error("Failed to load thought records");
+        }
+        setRecords((await recordsResponse.json()).thoughtRecords);
+        setStats(await statsResponse.json());
+      } catch (error) {
+        console.error("Error loading thought records:", error);
+        toast.error("Failed to load thought records");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadHistory();
+  }, [distortion, refreshKey, reloadKey]);
+
+  const saveRerating = async() => {
+    if (!rerating) {
+      return;
+    }
+    try {
+      const response = await fetch(`/api/mental-health/thought-records/${rerating.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ intensityAfter: rerating.value }),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to update thought record");
+      }
+      setRerating(null);
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      toast.error("Failed to save the new rating");
+    }
+  };
+
+  const deleteRecord = async(id: string) => {
+    if (!confirm("Delete this thought record?")) {
+      return;
+    }
+    try {
+      const response = await fetch(`/api/mental-health/thought-records/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error("Failed to delete thought record");
+      }
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      toast.error("Failed to delete thought record");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {stats && stats.total > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5 text-blue-500" />
+              Your thinking traps
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {stats.total} records
+              {stats.averageReduction !== null &&
+                ` - emotions eased by ${stats.averageReduction} points on average across ${stats.rerated} re-rated records`}
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {stats.distortions.map((frequency) => (
+              <button
+                key={frequency.id}
+                type="button"
+                onClick={() => setDistortion(distortion === frequency.id ? null : frequency.id)}
+                className={`w-full text-left space-y-1 rounded p-1 ${distortion === frequency.id ? "bg-primary/10" : ""}`}
+              >
+                <div className="flex justify-between text-sm">
+                  <span>{frequency.label}</span>
+                  <span className="text-muted-foreground">
+                    {frequency.count} ({Math.round(frequency.share * 100)}%)
+                  </span>
+                </div>
+                <Progress value={frequency.share * 100} className="h-2" />
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-gray-500" />
+            History
+            {distortion && (
+              <Badge variant="secondary" className="cursor-pointer" onClick={() => setDistortion(null)}>
+                {COGNITIVE_DISTORTIONS[distortion].label} ×
+              </Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading && <p className="text-sm text-muted-foreground">Loading...</p>}
+          {!isLoading && records.length === 0 && (
+            <p className="text-sm text-muted-foreground">No thought records yet.</p>
+          )}
+          {records.map((record) => (
+            <div key={record.id} className="border rounded-lg p-3 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <button
+                  type="button"
+                  className="text-left"
+                  onClick={() => setExpandedId(expandedId === record.id ? null : record.id)}
+                >
+                  <p className="font-medium">{record.automaticThought}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(record.createdAt).toLocaleDateString()} - {record.emotion} {record.intensityBefore}%
+                    {record.intensityAfter !== null && ` → ${record.intensityAfter}%`}
+                    {record.moodEntry && ` - mood ${record.moodEntry.mood}/10`}
+                  </p>
+                </button>
+                <Button variant="ghost" size="sm" onClick={() => deleteRecord(record.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="flex flex-wrap gap-1">
+                {record.distortions.map((id) => (
+                  <Badge key={id} variant="outline" className="text-xs">
+                    {COGNITIVE_DISTORTIONS[id]?.label ?? id}
+                  </Badge>
+                ))}
+              </div>
+
+              {expandedId === record.id && (
+                <div className="text-sm space-y-2">
+                  <p><span className="font-medium">Situation:</span> {record.situation}</p>
+                  {record.evidenceFor && <p><span className="font-medium">Evidence for:</span> {record.evidenceFor}</p>}
+                  {record.evidenceAgainst && (
+                    <p><span className="font-medium">Evidence against:</span> {record.evidenceAgainst}</p>
+                  )}
+                  {record.balancedThought && (
+                    <p><span className="font-medium">Balanced thought:</span> {record.balancedThought}</p>
+                  )}
+
+                  {record.intensityAfter === null && (
+                    rerating?.id === record.id ? (
+                      <div className="space-y-2">
+                        <p>How {record.emotion.toLowerCase()} do you feel about it now? {rerating.value}%</p>
+                        <Slider
+                          value={[rerating.value]}
+                          onValueChange={(value) => setRerating({ id: record.id, value: value[0] })}
+                          max={100}
+                          min={0}
+                          step={5}
+                        />
+                        <Button size="sm" onClick={saveRerating}>Save rating</Button>
+                      </div>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRerating({ id: record.id, value: record.intensityBefore })}
+                      >
+                        Re-rate the emotion
+                      </Button>
+                    )
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -11,6 +11,8 @@ const customJestConfig = {
   testEnvironment: 'jest-environment-jsdom',
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/$1',
+    // Workspace package, tested from source rather than its build
+    '^@vitality/emotion-detection/text$': '<rootDir>/packages/emotion-detection/src/text.ts',
   },
   collectCoverageFrom: [
     'app/**/*.{js,jsx,ts,tsx}',
@@ -1,5 +1,6 @@
 import { Agent, AgentResponse } from "../core/agent";
 import { UserContext, EmotionalState } from "../core/master-conductor";
+import { CrisisSafetyPlan, crisisView } from "../../mental-health/safety-plan";
 
 export interface Emergency {
   id: string;
@@ -338,15 +339,17 @@ export class EmergencyResponseAgent extends Agent {
   ): Promise<AgentResponse> {
     let content = "";
     let suggestedActions: string[] = [];
+    // The user's own safety plan, when the caller loaded one
+    const personalPlan = crisisView(context.safetyPlan ?? null);
 
     // Handle critical emergencies first
     if (emergencyNeeds.severity === "critical" || emergencyNeeds.requiresImmediateAction) {
-      content = await this.generateCriticalEmergencyResponse(emergencyNeeds);
+      content = await this.generateCriticalEmergencyResponse(emergencyNeeds, personalPlan);
       suggestedActions = ["Call 911", "Get help now", "Stay safe"];
     } else {
       switch (emergencyNeeds.type) {
         case "mental_health":
-          content = await this.generateMentalHealthResponse(emergencyNeeds);
+          content = await this.generateMentalHealthResponse(emergencyNeeds, personalPlan);
           suggestedActions = ["Get support", "Call hotline", "Talk to someone"];
           break;
 
@@ -376,6 +379,10 @@ export class EmergencyResponseAgent extends Agent {
       }
     }
 
+    if (personalPlan && emergencyNeeds.type === "mental_health") {
+      suggestedActions = ["Open my safety plan", ...suggestedActions];
+    }
+
     // Add immediate action warning for critical situations
     if (emergencyNeeds.severity === "critical") {
       content = `🚨 CRITICAL EMERGENCY: ${content}`;
@@ -400,12 +407,13 @@ export class EmergencyResponseAgent extends Agent {
         emergencyContacts: this.emergencyContacts.size,
         protocols: this.protocols.size,
         resources: this.resources.size,
+        safetyPlanUrl: personalPlan?.url,
         agentId: this.id,
       },
     };
   }
 
-  private async generateCriticalEmergencyResponse(emergencyNeeds: any): Promise<string> {
+  private async generateCriticalEmergencyResponse(emergencyNeeds: any, personalPlan: CrisisSafetyPlan | null): Promise<string> {
     let content = "I understand you're in a critical situation. Your safety is the most important thing right now. ";
 
     content += "Please take these immediate steps: ";
@@ -416,6 +424,10 @@ export class EmergencyResponseAgent extends Agent {
 
     if (emergencyNeeds.type === "mental_health") {
       content += "For mental health crises, you can also call the National Suicide Prevention Lifeline at 988 (available 24/7). ";
+      const contact = personalPlan?.contacts.find((candidate) => candidate.phone);
+      if (contact) {
+        content += `Your safety plan lists ${contact.name} (${contact.phone}) as someone you can call. `;
+      }
     }
 
     content += "I'm here to support you, but professional emergency services are best equipped to help in critical situations. ";
@@ -424,7 +436,7 @@ export class EmergencyResponseAgent extends Agent {
     return content;
   }
 
-  private async generateMentalHealthResponse(emergencyNeeds: any): Promise<string> {
+  private async generateMentalHealthResponse(emergencyNeeds: any, personalPlan: CrisisSafetyPlan | null): Promise<string> {
     let content = "I hear that you're struggling, and I want you to know that you're not alone. ";
 
     const mentalHealthResources = Array.from(this.resources.values())
@@ -442,7 +454,18 @@ export class EmergencyResponseAgent extends Agent {
     const safetyPlan = Array.from(this.safetyPlans.values())
       .find(plan => plan.isActive);
 
-    if (safetyPlan) {
+    if (personalPlan) {
+      content += "Let's go through your safety plan together. ";
+      if (personalPlan.copingStrategies.length > 0) {
+        content += `You wrote that these help: ${personalPlan.copingStrategies.join(", ")}. `;
+      }
+      if (personalPlan.contacts.length > 0) {
+        content += `You can reach out to ${personalPlan.contacts.map((contact) => contact.name).join(" or ")}. `;
+      }
+      if (personalPlan.reasonsForLiving.length > 0) {
+        content += `And remember what matters to you: ${personalPlan.reasonsForLiving.slice(0, 3).join(", ")}. `;
+      }
+    } else if (safetyPlan) {
       content += "You have an active safety plan with coping strategies. ";
       content += `Consider trying: ${safetyPlan.copingStrategies.slice(0, 2).join(", ")}. `;
     }
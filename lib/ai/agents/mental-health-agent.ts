@@ -1,5 +1,6 @@
 import { Agent, AgentResponse } from "../core/agent";
 import { UserContext, EmotionalState } from "../core/master-conductor";
+import { COGNITIVE_DISTORTIONS, THOUGHT_RECORD_PATH, detectDistortionCues } from "../../mental-health/thought-records";
 
 export interface MentalHealthAssessment {
   condition: string;
@@ -490,6 +491,17 @@ export class MentalHealthAgent extends Agent {
       suggestedActions = assessment.recommendations.slice(0, 3);
     }
 
+    // Suggest the guided thought record when the message shows a thinking trap
+    // or the picture fits anxiety or depression, where CBT helps most
+    const distortions = detectDistortionCues(input);
+    const suggestThoughtRecord = distortions.length > 0 || /depress|anxiety/i.test(assessment.condition);
+    if (suggestThoughtRecord) {
+      content += distortions.length > 0
+        ? `Some of what you wrote sounds like ${COGNITIVE_DISTORTIONS[distortions[0]].label.toLowerCase()}, a common thinking trap. A thought record can help you look at the evidence and find a more balanced view. `
+        : "A thought record can help you untangle difficult thoughts and look at them from another angle. ";
+      suggestedActions = ["Open a thought record", ...suggestedActions.slice(0, 2)];
+    }
+
     content += "Remember, you're not alone in this. There are people who care about you and want to help. If you ever feel like you're in crisis, please don't hesitate to reach out to a crisis hotline or emergency services.";
 
     return {
@@ -509,6 +521,7 @@ export class MentalHealthAgent extends Agent {
         condition: assessment.condition,
         severity: assessment.severity,
         riskLevel: assessment.riskLevel,
+        thoughtRecord: suggestThoughtRecord ? { url: THOUGHT_RECORD_PATH, distortions } : undefined,
         agentId: this.id,
       },
     };
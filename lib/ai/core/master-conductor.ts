@@ -14,6 +14,8 @@ import { CreativeExpressionAgent } from "../agents/creative-expression-agent";
 import { FinancialWellnessAgent } from "../agents/financial-wellness-agent";
 import { EmergencyResponseAgent } from "../agents/emergency-response-agent";
 import { AnomalyDetector } from "../agents/autonomous/anomaly-detector";
+import type { SafetyPlan as PersonalSafetyPlan } from "../../mental-health/safety-plan";
+import { getSafetyPlan } from "../../mental-health/safety-plans";
 
 export interface AgentResponse {
   agentId: string;
@@ -31,6 +33,7 @@ export interface UserContext {
   goals: UserGoal[];
   healthMetrics: HealthMetrics;
   socialConnections: SocialConnection[];
+  safetyPlan?: PersonalSafetyPlan | null; // Loaded by processUserInput when a crisis-capable agent runs
 }
 
 export interface EmotionalState {
@@ -140,7 +143,8 @@ export class MasterAIConductor {
   async processUserInput(
     input: string,
     modality: "text" | "voice" | "video" | "multimodal",
-    context?: Partial<UserContext>
+    context?: Partial<UserContext>,
+    userId?: string
   ): Promise<AgentResponse[]> {
     // Update user context with new information
     if (context) {
@@ -154,6 +158,17 @@ export class MasterAIConductor {
     // Determine which agents should respond based on input analysis
     const relevantAgents = this.selectRelevantAgents(input, emotionalState);
 
+    // The emergency agent walks the user through their own safety plan. A
+    // failed lookup must not hold up a crisis response, so fall back to none
+    if (userId && relevantAgents.some((agent) => agent.id === "emergency-response")) {
+      try {
+        this.userContext.safetyPlan = await getSafetyPlan(userId);
+      } catch (error) {
+        console.error("Error loading safety plan:", error);
+        this.userContext.safetyPlan = null;
+      }
+    }
+
     // Process with quantum processor for optimal response generation
     const responses = await this.quantumProcessor.processWithAgents(
       input,
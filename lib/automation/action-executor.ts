@@ -1,9 +1,24 @@
+import crypto from "crypto";
 import { PrismaClient } from "@prisma/client";
 import { AutomationEvent } from "./event-bus";
 import { generateAIResponse } from "../ai";
+import { connectorRegistry } from "./connectors";
+import { hasJournalKeyring } from "../journal/journal-keyring";
+import { HttpExchange, SIGNATURE_HEADER, isAllowedWebhookUrl, sendHttpRequest, signWebhookPayload } from "./webhook";
 
 const prisma = new PrismaClient();
 
+export interface ActionContext {
+  db: PrismaClient;
+  dryRun: boolean;
+}
+
+export interface ActionResult {
+  message: string;
+  output: Record<string, any>; // Later steps read these as {{steps.<stepId>.<field>}}
+  exchange?: HttpExchange; // Outbound request/response, recorded in the trace
+}
+
 export class ActionExecutor {
   private static instance: ActionExecutor;
 
@@ -16,76 +31,92 @@ export class ActionExecutor {
     return ActionExecutor.instance;
   }
 
-  public async executeAction(action: any, event: AutomationEvent): Promise<string> {
+  // In a dry run `context.db` is a sandboxed client that records writes instead of executing them.
+  // Params arrive with pipeline templates already resolved.
+  public async executeAction(
+    action: any,
+    event: AutomationEvent,
+    context: ActionContext = { db: prisma, dryRun: false }
+  ): Promise<ActionResult> {
+    // Persisted actions keep their parameters in `config`
+    const params = action.config ?? action.params ?? {};
+
     switch (action.type) {
       case "CREATE_JOURNAL_PROMPT":
-        return this.createJournalPrompt(action.params, event);
+        return this.createJournalPrompt(params, event, context);
 
       case "SUGGEST_COPING_STRATEGY":
-        return this.suggestCopingStrategy(action.params, event);
+        return this.suggestCopingStrategy(params, event, context);
 
       case "CREATE_TRANSACTION":
-        return this.createTransaction(action.params, event);
+        return this.createTransaction(params, event, context);
 
       case "CREATE_GOAL":
-        return this.createGoal(action.params, event);
+        return this.createGoal(params, event, context);
 
       case "SEND_NOTIFICATION":
-        return this.sendNotification(action.params, event);
+        return this.sendNotification(params, event, context);
 
       case "GENERATE_AI_INSIGHT":
-        return this.generateAIInsight(action.params, event);
+        return this.generateAIInsight(params, event, context);
 
       case "CREATE_HABIT_REMINDER":
-        return this.createHabitReminder(action.params, event);
+        return this.createHabitReminder(params, event, context);
 
       case "ANALYZE_SPENDING_PATTERN":
-        return this.analyzeSpendingPattern(action.params, event);
+        return this.analyzeSpendingPattern(params, event, context);
 
       case "SUGGEST_ACTIVITY":
-        return this.suggestActivity(action.params, event);
+        return this.suggestActivity(params, event, context);
 
       case "CREATE_MOOD_CHECK_IN":
-        return this.createMoodCheckIn(action.params, event);
+        return this.createMoodCheckIn(params, event, context);
+
+      case "SEND_WEBHOOK":
+        return this.sendWebhook(params, event, context);
+
+      case "CALL_CONNECTOR":
+        return this.callConnector(params, event, context);
 
       default:
         throw new Error(`Unknown action type: ${action.type}`);
     }
   }
 
-  private async createJournalPrompt(params: any, event: AutomationEvent): Promise<string> {
+  private async createJournalPrompt(params: any, event: AutomationEvent, { db }: ActionContext): Promise<ActionResult> {
     const prompt = params.prompt || "Reflect on your day and how you're feeling.";
 
-    // Create a journal entry with the AI-generated prompt
-    const journalEntry = await prisma.journalEntry.create({
+    // Create a journal entry with the AI-generated prompt. An encrypted journal
+    // only stores private entries as ciphertext, so the prompt isn't marked private there
+    const journalEntry = await db.journalEntry.create({
       data: {
         userId: event.userId,
         title: "Automated Journal Prompt",
         content: prompt,
         tags: ["automated", "prompt"],
-        isPrivate: true,
+        isPrivate: !(await hasJournalKeyring(db, event.userId)),
       },
     });
 
-    return `Created journal prompt: ${journalEntry.id}`;
+    return { message: `Created journal prompt: ${journalEntry.id}`, output: { journalEntryId: journalEntry.id, prompt } };
   }
 
-  private async suggestCopingStrategy(params: any, event: AutomationEvent): Promise<string> {
+  private async suggestCopingStrategy(params: any, event: AutomationEvent, { db }: ActionContext): Promise<ActionResult> {
     const category = params.category || "General";
 
     // Find a coping strategy in the specified category
-    const strategy = await prisma.copingStrategy.findFirst({
+    const strategy = await db.copingStrategy.findFirst({
       where: {
         category: category,
       },
     });
 
     if (!strategy) {
-      return "No coping strategy found for the specified category";
+      return { message: "No coping strategy found for the specified category", output: { found: false } };
     }
 
     // Create a proactive insight with the coping strategy
-    await prisma.proactiveInsight.create({
+    await db.proactiveInsight.create({
       data: {
         userId: event.userId,
         content: `Here's a coping strategy that might help: ${strategy.title} - ${strategy.description}`,
@@ -94,17 +125,20 @@ export class ActionExecutor {
       },
     });
 
-    return `Suggested coping strategy: ${strategy.title}`;
+    return {
+      message: `Suggested coping strategy: ${strategy.title}`,
+      output: { found: true, strategyId: strategy.id, title: strategy.title },
+    };
   }
 
-  private async createTransaction(params: any, event: AutomationEvent): Promise<string> {
+  private async createTransaction(params: any, event: AutomationEvent, { db }: ActionContext): Promise<ActionResult> {
     const { description, amount, category, type } = params;
 
     if (!description || !amount || !category || !type) {
       throw new Error("Missing required transaction parameters");
     }
 
-    const transaction = await prisma.transaction.create({
+    const transaction = await db.transaction.create({
       data: {
         userId: event.userId,
         description,
@@ -115,17 +149,17 @@ export class ActionExecutor {
       },
     });
 
-    return `Created transaction: ${transaction.id}`;
+    return { message: `Created transaction: ${transaction.id}`, output: { transactionId: transaction.id } };
   }
 
-  private async createGoal(params: any, event: AutomationEvent): Promise<string> {
+  private async createGoal(params: any, event: AutomationEvent, { db }: ActionContext): Promise<ActionResult> {
     const { title, description, category, targetDate } = params;
 
     if (!title || !category) {
       throw new Error("Missing required goal parameters");
     }
 
-    const goal = await prisma.goal.create({
+    const goal = await db.goal.create({
       data: {
         userId: event.userId,
         title,
@@ -135,10 +169,10 @@ export class ActionExecutor {
       },
     });
 
-    return `Created goal: ${goal.id}`;
+    return { message: `Created goal: ${goal.id}`, output: { goalId: goal.id } };
   }
 
-  private async sendNotification(params: any, event: AutomationEvent): Promise<string> {
+  private async sendNotification(params: any, event: AutomationEvent, { db }: ActionContext): Promise<ActionResult> {
     const { message, priority } = params;
 
     if (!message) {
@@ -146,7 +180,7 @@ export class ActionExecutor {
     }
 
     // Create a proactive insight as a notification
-    await prisma.proactiveInsight.create({
+    await db.proactiveInsight.create({
       data: {
         userId: event.userId,
         content: message,
@@ -155,10 +189,10 @@ export class ActionExecutor {
       },
     });
 
-    return `Sent notification: ${message}`;
+    return { message: `Sent notification: ${message}`, output: { message } };
   }
 
-  private async generateAIInsight(params: any, event: AutomationEvent): Promise<string> {
+  private async generateAIInsight(params: any, event: AutomationEvent, { db, dryRun }: ActionContext): Promise<ActionResult> {
     const { context, prompt } = params;
 
     if (!prompt) {
@@ -166,10 +200,13 @@ export class ActionExecutor {
     }
 
     try {
-      const aiResponse = await generateAIResponse(prompt, context);
+      // Dry runs don't call the model, so simulations stay fast and deterministic
+      const aiResponse = dryRun
+        ? `[dry run] AI insight for prompt: ${prompt}`
+        : await generateAIResponse(prompt, context);
 
       // Create a proactive insight with the AI-generated content
-      await prisma.proactiveInsight.create({
+      await db.proactiveInsight.create({
         data: {
           userId: event.userId,
           content: aiResponse,
@@ -178,18 +215,21 @@ export class ActionExecutor {
         },
       });
 
-      return `Generated AI insight: ${aiResponse.substring(0, 100)}...`;
+      return {
+        message: `Generated AI insight: ${aiResponse.substring(0, 100)}...`,
+        output: { insight: aiResponse },
+      };
     } catch (error) {
       throw new Error(`Failed to generate AI insight: ${error.message}`);
     }
   }
 
-  private async createHabitReminder(params: any, event: AutomationEvent): Promise<string> {
+  private async createHabitReminder(params: any, event: AutomationEvent, { db }: ActionContext): Promise<ActionResult> {
     const { habitName, message } = params;
 
     const reminderMessage = message || `Don't forget to complete your habit: ${habitName}`;
 
-    await prisma.proactiveInsight.create({
+    await db.proactiveInsight.create({
       data: {
         userId: event.userId,
         content: reminderMessage,
@@ -198,12 +238,12 @@ export class ActionExecutor {
       },
     });
 
-    return `Created habit reminder: ${habitName}`;
+    return { message: `Created habit reminder: ${habitName}`, output: { habitName, message: reminderMessage } };
   }
 
-  private async analyzeSpendingPattern(params: any, event: AutomationEvent): Promise<string> {
+  private async analyzeSpendingPattern(params: any, event: AutomationEvent, { db }: ActionContext): Promise<ActionResult> {
     // Get recent transactions for analysis
-    const recentTransactions = await prisma.transaction.findMany({
+    const recentTransactions = await db.transaction.findMany({
       where: {
         userId: event.userId,
         type: "Expense",
@@ -214,7 +254,7 @@ export class ActionExecutor {
     });
 
     if (recentTransactions.length === 0) {
-      return "No recent transactions to analyze";
+      return { message: "No recent transactions to analyze", output: { totalSpent: 0, transactionCount: 0 } };
     }
 
     // Simple spending analysis
@@ -229,7 +269,7 @@ export class ActionExecutor {
 
     const analysis = `In the last 30 days, you've spent $${totalSpent.toFixed(2)}. Your highest spending category is ${topCategory[0]} with $${topCategory[1].toFixed(2)}.`;
 
-    await prisma.proactiveInsight.create({
+    await db.proactiveInsight.create({
       data: {
         userId: event.userId,
         content: analysis,
@@ -238,10 +278,20 @@ export class ActionExecutor {
       },
     });
 
-    return `Analyzed spending pattern: ${analysis}`;
+    return {
+      message: `Analyzed spending pattern: ${analysis}`,
+      output: {
+        totalSpent,
+        transactionCount: recentTransactions.length,
+        topCategory: topCategory[0],
+        topCategoryAmount: topCategory[1],
+        categorySpending,
+        analysis,
+      },
+    };
   }
 
-  private async suggestActivity(params: any, event: AutomationEvent): Promise<string> {
+  private async suggestActivity(params: any, event: AutomationEvent, { db }: ActionContext): Promise<ActionResult> {
     const { mood, timeOfDay } = params;
 
     let suggestion = "";
@@ -256,7 +306,7 @@ export class ActionExecutor {
       suggestion = "Consider engaging in an activity that brings you joy or helps you grow.";
     }
 
-    await prisma.proactiveInsight.create({
+    await db.proactiveInsight.create({
       data: {
         userId: event.userId,
         content: suggestion,
@@ -265,15 +315,15 @@ export class ActionExecutor {
       },
     });
 
-    return `Suggested activity: ${suggestion}`;
+    return { message: `Suggested activity: ${suggestion}`, output: { suggestion } };
   }
 
-  private async createMoodCheckIn(params: any, event: AutomationEvent): Promise<string> {
+  private async createMoodCheckIn(params: any, event: AutomationEvent, { db }: ActionContext): Promise<ActionResult> {
     const { prompt } = params;
 
     const checkInPrompt = prompt || "How are you feeling right now? Take a moment to check in with yourself.";
 
-    await prisma.proactiveInsight.create({
+    await db.proactiveInsight.create({
       data: {
         userId: event.userId,
         content: checkInPrompt,
@@ -282,7 +332,64 @@ export class ActionExecutor {
       },
     });
 
-    return "Created mood check-in prompt";
+    return { message: "Created mood check-in prompt", output: { prompt: checkInPrompt } };
+  }
+
+  // Payloads are signed with AUTOMATION_WEBHOOK_SECRET; see verifyWebhookSignature
+  private async sendWebhook(params: any, event: AutomationEvent, { dryRun }: ActionContext): Promise<ActionResult> {
+    const { url, method, headers, payload } = params;
+    const secret = process.env.AUTOMATION_WEBHOOK_SECRET;
+
+    if (!url || !isAllowedWebhookUrl(url)) {
+      throw new Error("Webhook URL must be a public http(s) URL");
+    }
+    if (!secret) {
+      throw new Error("AUTOMATION_WEBHOOK_SECRET is not configured");
+    }
+
+    const deliveryId = crypto.randomUUID();
+    const body = JSON.stringify({
+      id: deliveryId,
+      event: {
+        id: event.id,
+        type: event.type,
+        data: event.data,
+        timestamp: new Date(event.timestamp).toISOString(),
+      },
+      payload: payload ?? null,
+    });
+
+    const exchange = await sendHttpRequest(
+      {
+        method: method || "POST",
+        url,
+        headers: {
+          ...(headers || {}),
+          "Content-Type": "application/json",
+          "X-Automation-Event": event.type,
+          "X-Automation-Delivery": deliveryId,
+          [SIGNATURE_HEADER]: signWebhookPayload(secret, body),
+        },
+        body,
+      },
+      { dryRun, publicOnly: true }
+    );
+
+    return {
+      message: dryRun ? `[dry run] Would send webhook to ${url}` : `Sent webhook to ${url} (${exchange.response?.status})`,
+      output: { deliveryId, status: exchange.response?.status, response: exchange.response?.body },
+      exchange,
+    };
+  }
+
+  private async callConnector(params: any, event: AutomationEvent, { dryRun }: ActionContext): Promise<ActionResult> {
+    const { connector, operation, ...args } = params;
+
+    if (!connector || !operation) {
+      throw new Error("Missing connector or operation");
+    }
+
+    return connectorRegistry.call(connector, operation, args, { dryRun });
   }
 }
 
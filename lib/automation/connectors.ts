@@ -0,0 +1,314 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { parse } from "yaml";
+import { HttpExchange, HttpRequestSpec, sendHttpRequest } from "./webhook";
+
+// Local connectors declared in connectors/connectors.yaml. Automations call
+// them through CALL_CONNECTOR; each operation needs "read" or "send" access and
+// is only allowed if the connector's declared scope grants it.
+// Credentials come from the connector's `config` or CONNECTOR_<NAME>_<KEY> env vars.
+
+export type ConnectorScope = "read_only" | "send_only" | "read_write";
+export type ConnectorAccess = "read" | "send";
+
+export interface ConnectorDefinition {
+  name: string;
+  type: string;
+  scope: ConnectorScope;
+  config: Record<string, any>;
+}
+
+export interface ConnectorCallResult {
+  message: string;
+  output: Record<string, any>;
+  exchange?: HttpExchange;
+}
+
+interface ConnectorOperation {
+  access: ConnectorAccess;
+  description: string;
+  request?: (connector: ConnectorDefinition, args: Record<string, any>) => HttpRequestSpec;
+  send?: (connector: ConnectorDefinition, args: Record<string, any>, dryRun: boolean) => Promise<ConnectorCallResult>;
+}
+
+// A bare address; display names and groups could smuggle in other recipients
+const EMAIL_ADDRESS = /^[^\s@<>()",;:]+@[^\s@<>()",;:]+$/;
+
+const SCOPE_ACCESS: Record<ConnectorScope, ConnectorAccess[]> = {
+  read_only: ["read"],
+  send_only: ["send"],
+  read_write: ["read", "send"],
+};
+
+const OPERATIONS: Record<string, Record<string, ConnectorOperation>> = {
+  home_assistant: {
+    get_state: {
+      access: "read",
+      description: "Read an entity's state",
+      request: (connector, args) => ({
+        method: "GET",
+        url: `${baseUrl(connector)}/api/states/${encodeURIComponent(required(args, "entityId"))}`,
+        headers: bearer(connector, "token"),
+      }),
+    },
+    toggle: {
+      access: "send",
+      description: "Toggle an entity (light, switch, ...)",
+      request: (connector, args) => ({
+        method: "POST",
+        url: `${baseUrl(connector)}/api/services/homeassistant/toggle`,
+        headers: bearer(connector, "token"),
+        body: { entity_id: required(args, "entityId") },
+      }),
+    },
+    call_service: {
+      access: "send",
+      description: "Call any Home Assistant service",
+      request: (connector, args) => ({
+        method: "POST",
+        url: `${baseUrl(connector)}/api/services/${encodeURIComponent(required(args, "domain"))}/${encodeURIComponent(required(args, "service"))}`,
+        headers: bearer(connector, "token"),
+        body: { ...(args.data || {}), ...(args.entityId ? { entity_id: args.entityId } : {}) },
+      }),
+    },
+  },
+  matrix: {
+    send_message: {
+      access: "send",
+      description: "Post a text message to a room",
+      request: (connector, args) => ({
+        method: "PUT",
+        url: `${stripTrailingSlash(connector.config.homeserver)}/_matrix/client/v3/rooms/${encodeURIComponent(required(args, "roomId"))}/send/m.room.message/${crypto.randomUUID()}`,
+        headers: bearer(connector, "accessToken"),
+        body: { msgtype: "m.text", body: required(args, "message") },
+      }),
+    },
+  },
+  gitea: {
+    list_issues: {
+      access: "read",
+      description: "List open issues in a repository",
+      request: (connector, args) => ({
+        method: "GET",
+        url: `${repoUrl(connector, args)}/issues?state=${encodeURIComponent(args.state || "open")}`,
+        headers: tokenHeader(connector),
+      }),
+    },
+    create_issue: {
+      access: "send",
+      description: "Open an issue in a repository",
+      request: (connector, args) => ({
+        method: "POST",
+        url: `${repoUrl(connector, args)}/issues`,
+        headers: tokenHeader(connector),
+        body: { title: required(args, "title"), body: args.body || "" },
+      }),
+    },
+  },
+  smtp: {
+    send_email: {
+      access: "send",
+      description: "Send an email",
+      send: sendEmail,
+    },
+  },
+};
+
+export class ConnectorRegistry {
+  private static instance: ConnectorRegistry;
+  private connectors: Map<string, ConnectorDefinition> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): ConnectorRegistry {
+    if (!ConnectorRegistry.instance) {
+      ConnectorRegistry.instance = new ConnectorRegistry();
+    }
+    return ConnectorRegistry.instance;
+  }
+
+  public getConnector(name: string): ConnectorDefinition | undefined {
+    return this.load().get(name);
+  }
+
+  // Connectors that automations can call, with the operations their scope allows
+  public listCallable(): Array<{ name: string; type: string; scope: ConnectorScope; operations: Array<{ name: string; access: ConnectorAccess; description: string }> }> {
+    return Array.from(this.load().values())
+      .filter((connector) => OPERATIONS[connector.type])
+      .map((connector) => ({
+        name: connector.name,
+        type: connector.type,
+        scope: connector.scope,
+        operations: Object.entries(OPERATIONS[connector.type])
+          .filter(([, operation]) => isAccessAllowed(connector.scope, operation.access))
+          .map(([name, operation]) => ({ name, access: operation.access, description: operation.description })),
+      }));
+  }
+
+  public async call(
+    name: string,
+    operationName: string,
+    args: Record<string, any>,
+    options: { dryRun?: boolean; timeoutMs?: number } = {}
+  ): Promise<ConnectorCallResult> {
+    const connector = this.getConnector(name);
+    if (!connector) {
+      throw new Error(`Unknown connector: ${name}`);
+    }
+
+    const operation = OPERATIONS[connector.type]?.[operationName];
+    if (!operation) {
+      throw new Error(`Connector ${name} (${connector.type}) does not support operation "${operationName}"`);
+    }
+
+    // Scope is enforced for dry runs too, so a simulation shows the same refusal
+    if (!isAccessAllowed(connector.scope, operation.access)) {
+      throw new Error(`Connector ${name} is ${connector.scope}; "${operationName}" needs ${operation.access} access`);
+    }
+
+    if (operation.send) {
+      return operation.send(connector, args, options.dryRun ?? false);
+    }
+
+    const exchange = await sendHttpRequest(operation.request!(connector, args), options);
+
+    return {
+      message: options.dryRun
+        ? `[dry run] Would call ${name}.${operationName}`
+        : `Called ${name}.${operationName} (${exchange.response?.status})`,
+      output: { status: exchange.response?.status, response: exchange.response?.body },
+      exchange,
+    };
+  }
+
+  // Drop the cached file, e.g. after editing connectors.yaml
+  public reload(): void {
+    this.connectors = null;
+  }
+
+  private load(): Map<string, ConnectorDefinition> {
+    if (this.connectors) {
+      return this.connectors;
+    }
+
+    const file = process.env.CONNECTORS_CONFIG_PATH || path.join(process.cwd(), "connectors", "connectors.yaml");
+    const connectors = new Map<string, ConnectorDefinition>();
+
+    try {
+      const document = parse(fs.readFileSync(file, "utf8")) || {};
+
+      for (const [name, definition] of Object.entries<any>(document.connectors || {})) {
+        if (!SCOPE_ACCESS[definition?.scope as ConnectorScope]) {
+          console.warn(`Connector ${name} has unknown scope "${definition?.scope}"; ignoring it`);
+          continue;
+        }
+        connectors.set(name, {
+          name,
+          type: definition.type,
+          scope: definition.scope,
+          config: definition.config || {},
+        });
+      }
+    } catch (error) {
+      console.error(`Failed to load connectors from ${file}:`, error);
+    }
+
+    this.connectors = connectors;
+    return connectors;
+  }
+}
+
+export function isAccessAllowed(scope: ConnectorScope, access: ConnectorAccess): boolean {
+  return SCOPE_ACCESS[scope]?.includes(access) ?? false;
+}
+
+async function sendEmail(
+  connector: ConnectorDefinition,
+  args: Record<string, any>,
+  dryRun: boolean
+): Promise<ConnectorCallResult> {
+  const to = allowedRecipients(connector, required(args, "to"));
+  const message = {
+    from: args.from || connector.config.from || secret(connector, "from"),
+    to: to.join(", "),
+    subject: required(args, "subject"),
+    text: args.text || args.body || "",
+  };
+
+  if (dryRun) {
+    return { message: `[dry run] Would email ${message.to}`, output: { to: message.to } };
+  }
+
+  // Loaded lazily so the mail client is only required when SMTP is used
+  const nodemailer = await import("nodemailer");
+  const user = secret(connector, "user");
+  const transport = nodemailer.createTransport({
+    host: connector.config.host,
+    port: connector.config.port,
+    secure: connector.config.secure ?? false,
+    auth: user ? { user, pass: secret(connector, "password") } : undefined,
+  });
+
+  const info = await transport.sendMail(message);
+  return { message: `Emailed ${message.to}`, output: { to: message.to, messageId: info.messageId } };
+}
+
+// Comma-separated `to` addresses, each of which must be listed in the
+// connector's `allowedRecipients` (an address, or "@domain" for a whole
+// domain). `to` can be templated from event data, so without the list a
+// routine could mail anyone.
+function allowedRecipients(connector: ConnectorDefinition, to: string): string[] {
+  const allowed: string[] = (connector.config.allowedRecipients || []).map((entry: unknown) => String(entry).trim().toLowerCase());
+  const recipients = to.split(",").map((address) => address.trim().toLowerCase()).filter(Boolean);
+  if (recipients.length === 0) {
+    throw new Error("Missing connector argument: to");
+  }
+
+  for (const address of recipients) {
+    const domain = address.slice(address.lastIndexOf("@"));
+    if (!EMAIL_ADDRESS.test(address) || !(allowed.includes(address) || allowed.includes(domain))) {
+      throw new Error(`Connector ${connector.name} may not email ${address}; add it to allowedRecipients in connectors.yaml`);
+    }
+  }
+  return recipients;
+}
+
+function secret(connector: ConnectorDefinition, key: string): string | undefined {
+  const envKey = `CONNECTOR_${connector.name}_${key.replace(/[A-Z]/g, (c) => `_${c}`)}`.toUpperCase();
+  return connector.config[key] ?? process.env[envKey];
+}
+
+function bearer(connector: ConnectorDefinition, key: string): Record<string, string> {
+  const token = secret(connector, key);
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+function tokenHeader(connector: ConnectorDefinition): Record<string, string> {
+  const token = secret(connector, "token");
+  return token ? { Authorization: `token ${token}` } : {};
+}
+
+function baseUrl(connector: ConnectorDefinition): string {
+  if (!connector.config.baseUrl) {
+    throw new Error(`Connector ${connector.name} has no baseUrl`);
+  }
+  return stripTrailingSlash(connector.config.baseUrl);
+}
+
+function repoUrl(connector: ConnectorDefinition, args: Record<string, any>): string {
+  return `${baseUrl(connector)}/api/v1/repos/${encodeURIComponent(required(args, "owner"))}/${encodeURIComponent(required(args, "repo"))}`;
+}
+
+function stripTrailingSlash(url: string): string {
+  return String(url || "").replace(/\/+$/, "");
+}
+
+function required(args: Record<string, any>, key: string): string {
+  if (args[key] === undefined || args[key] === null || args[key] === "") {
+    throw new Error(`Missing connector argument: ${key}`);
+  }
+  return String(args[key]);
+}
+
+export const connectorRegistry = ConnectorRegistry.getInstance();
@@ -0,0 +1,274 @@
+// Minimal 5-field cron parser with IANA timezone support.
+// Supports `*`, lists (`1,15`), ranges (`1-5`), steps (`*/15`, `0-30/5`),
+// month/weekday names (`JAN`, `MON`) and the @hourly/@daily/@weekly/@monthly/@yearly macros.
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron semantics: when both day fields are restricted, either may match
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  aliases?: Record<string, number>;
+}
+
+const MONTH_ALIASES: Record<string, number> = {
+  JAN: 1, FEB: 2, MAR: 3, APR: 4, MAY: 5, JUN: 6,
+  JUL: 7, AUG: 8, SEP: 9, OCT: 10, NOV: 11, DEC: 12,
+};
+
+const WEEKDAY_ALIASES: Record<string, number> = {
+  SUN: 0, MON: 1, TUE: 2, WED: 3, THU: 4, FRI: 5, SAT: 6,
+};
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, aliases: MONTH_ALIASES },
+  { name: "day of week", min: 0, max: 7, aliases: WEEKDAY_ALIASES },
+];
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+// Give up looking for a next run after this many years (e.g. "0 0 30 2 *")
+const MAX_SEARCH_YEARS = 5;
+
+const MINUTE_MS = 60 * 1000;
+
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = MACROS[expression.trim().toLowerCase()] || expression.trim();
+  const parts = normalized.split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELDS[index])
+  );
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: parts[2] !== "*" && parts[2] !== "?",
+    daysOfWeekRestricted: parts[4] !== "*" && parts[4] !== "?",
+  };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Does `date` (truncated to the minute) match the schedule in the given timezone?
+export function matchesCron(schedule: CronSchedule, date: Date, timezone = "UTC"): boolean {
+  const local = getLocalParts(date, timezone);
+  return matchesDay(schedule, local) && schedule.hours.has(local.hour) && schedule.minutes.has(local.minute);
+}
+
+// First run strictly after `after`, or null if none within MAX_SEARCH_YEARS
+export function getNextRun(expression: string | CronSchedule, after: Date, timezone = "UTC"): Date | null {
+  const schedule = typeof expression === "string" ? parseCronExpression(expression) : expression;
+  const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * MINUTE_MS;
+
+  // Start at the next whole minute
+  let cursor = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+
+  while (cursor <= limit) {
+    const local = getLocalParts(new Date(cursor), timezone);
+
+    if (!matchesDay(schedule, local)) {
+      // Skip towards the start of the next local day, stopping an hour short so a
+      // DST change can't carry us past midnight
+      const minutesToMidnight = (23 - local.hour) * 60 + (60 - local.minute);
+      cursor += Math.max(minutesToMidnight - 60, 1) * MINUTE_MS;
+      continue;
+    }
+
+    if (!schedule.hours.has(local.hour)) {
+      // Skip to the start of the next local hour
+      cursor += (60 - local.minute) * MINUTE_MS;
+      continue;
+    }
+
+    if (!schedule.minutes.has(local.minute)) {
+      cursor += MINUTE_MS;
+      continue;
+    }
+
+    return new Date(cursor);
+  }
+
+  return null;
+}
+
+// All runs in (after, until], oldest first, capped at `limit`
+export function getRunsBetween(
+  expression: string | CronSchedule,
+  after: Date,
+  until: Date,
+  timezone = "UTC",
+  limit = 100
+): Date[] {
+  const schedule = typeof expression === "string" ? parseCronExpression(expression) : expression;
+  const runs: Date[] = [];
+  let cursor = after;
+
+  while (runs.length < limit) {
+    const next = getNextRun(schedule, cursor, timezone);
+    if (!next || next > until) {
+      break;
+    }
+    runs.push(next);
+    cursor = next;
+  }
+
+  return runs;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepPart}" in ${spec.name} field`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === "*" || rangePart === "?") {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes("-")) {
+      const [from, to] = rangePart.split("-");
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+    } else {
+      start = parseValue(rangePart, spec);
+      // `5/15` means "from 5 to the end, every 15"
+      end = stepPart === undefined ? start : spec.max;
+    }
+
+    if (start > end) {
+      throw new Error(`Invalid range "${rangePart}" in ${spec.name} field`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(value: string, spec: FieldSpec): number {
+  const alias = spec.aliases?.[value.toUpperCase()];
+  const parsed = alias !== undefined ? alias : Number(value);
+
+  if (value === "" || !Number.isInteger(parsed) || parsed < spec.min || parsed > spec.max) {
+    throw new Error(`Invalid value "${value}" in ${spec.name} field (expected ${spec.min}-${spec.max})`);
+  }
+
+  return parsed;
+}
+
+interface LocalParts {
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6,
+};
+
+function getLocalParts(date: Date, timezone: string): LocalParts {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      month: "numeric",
+      day: "numeric",
+      weekday: "short",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatterCache.set(timezone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAY_INDEX[parts.weekday],
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, local: LocalParts): boolean {
+  if (!schedule.months.has(local.month)) {
+    return false;
+  }
+
+  const domMatch = schedule.daysOfMonth.has(local.day);
+  const dowMatch = schedule.daysOfWeek.has(local.weekday);
+
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+
+  return domMatch && dowMatch;
+}
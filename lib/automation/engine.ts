@@ -1,6 +1,30 @@
 import { PrismaClient } from "@prisma/client";
-import { eventBus, AutomationEvent, AutomationEventType } from "./event-bus";
+import { AutomationEvent } from "./event-bus";
 import { actionExecutor } from "./action-executor";
+import { automationEventQueue } from "./event-queue";
+import { automationScheduler } from "./scheduler";
+import { CONDITION_GROUP_TRIGGER, evaluateTriggerExpression } from "./trigger-expression";
+import {
+  BRANCH_ACTION,
+  BranchParams,
+  PipelineScope,
+  PipelineStep,
+  StepTimeoutError,
+  evaluateBranchCondition,
+  getRetryDelay,
+  resolveTemplates,
+  toPipelineStep,
+  withTimeout,
+} from "./pipeline";
+import {
+  ActionTraceStep,
+  ExecutionTrace,
+  SandboxWrite,
+  TriggerTraceStep,
+  createSandboxClient,
+} from "./trace";
+import { HttpRequestError } from "./webhook";
+import { matchesJournalTrigger, parseList } from "./journal-trigger";
 
 const prisma = new PrismaClient();
 
@@ -19,10 +43,8 @@ export class AutomationEngine {
   }
 
   private initializeEventListeners(): void {
-    // Listen to all automation events
-    eventBus.on("automation", async(event: AutomationEvent) => {
-      await this.processEvent(event);
-    });
+    // Receive all automation events through the durable outbox
+    automationEventQueue.registerHandler((event: AutomationEvent) => this.processEvent(event));
   }
 
   private async processEvent(event: AutomationEvent): Promise<void> {
@@ -31,66 +53,120 @@ export class AutomationEngine {
       const routines = await prisma.automationRoutine.findMany({
         where: {
           userId: event.userId,
-          isEnabled: true,
+          isActive: true,
+          // Schedule ticks are addressed to a single routine
+          ...(event.type === "schedule.tick" ? { id: event.data.routineId } : {}),
         },
         include: {
           triggers: true,
-          actions: true,
+          actions: { orderBy: { order: "asc" } },
         },
       });
 
-      // Check each routine for matching triggers
+      // Routines that already ran for this event on an earlier delivery
+      const completed = new Set<string>();
+      if (event.id && routines.length > 0) {
+        const logs = await prisma.automationLog.findMany({
+          where: { eventId: event.id, routineId: { in: routines.map((routine) => routine.id) } },
+          select: { routineId: true },
+        });
+        logs.forEach((log) => completed.add(log.routineId));
+      }
+
+      // Check each routine for matching triggers. One failing routine doesn't
+      // stop the others; the retry then only runs the ones without a log.
+      let failure: unknown = null;
       for (const routine of routines) {
-        const shouldExecute = await this.evaluateTriggers(routine.triggers, event);
+        if (completed.has(routine.id)) {
+          continue;
+        }
+        try {
+          const triggerSteps: TriggerTraceStep[] = [];
+          const shouldExecute = await this.evaluateTriggers(routine.triggers, event, triggerSteps);
 
-        if (shouldExecute) {
-          await this.executeRoutine(routine, event);
+          if (shouldExecute) {
+            await this.executeRoutine(routine, event, triggerSteps);
+          }
+        } catch (error) {
+          console.error(`Error running automation routine ${routine.id}:`, error);
+          failure = failure ?? error;
         }
       }
+      if (failure) {
+        throw failure;
+      }
     } catch (error) {
       console.error("Error processing automation event:", error);
+      // Rethrow so the outbox schedules a retry
+      throw error;
     }
   }
 
-  private async evaluateTriggers(triggers: any[], event: AutomationEvent): Promise<boolean> {
-    // All triggers must match for the routine to execute (AND logic)
+  private async evaluateTriggers(
+    triggers: any[],
+    event: AutomationEvent,
+    trace?: TriggerTraceStep[]
+  ): Promise<boolean> {
+    // All triggers must match for the routine to execute (AND logic).
+    // OR/NOT logic is expressed with a CONDITION_GROUP trigger.
+    let allMatched = true;
+
     for (const trigger of triggers) {
       const matches = await this.evaluateTrigger(trigger, event);
+
+      trace?.push({
+        triggerId: trigger.id,
+        type: trigger.type,
+        params: trigger.config ?? trigger.params ?? {},
+        matched: matches,
+      });
+
       if (!matches) {
-        return false;
+        allMatched = false;
+        // When tracing, keep going so every trigger's outcome is recorded
+        if (!trace) {
+          return false;
+        }
       }
     }
-    return true;
+
+    return allMatched;
   }
 
   private async evaluateTrigger(trigger: any, event: AutomationEvent): Promise<boolean> {
+    // Persisted triggers keep their parameters in `config`; nested conditions use `params`
+    const params = trigger.config ?? trigger.params ?? {};
+
     switch (trigger.type) {
+      case CONDITION_GROUP_TRIGGER:
+        return this.evaluateConditionGroup(params, event);
+
       case "MOOD_BELOW_THRESHOLD":
-        return this.evaluateMoodThreshold(trigger.params, event);
+        return this.evaluateMoodThreshold(params, event);
 
       case "HABIT_COMPLETED":
-        return this.evaluateHabitCompleted(trigger.params, event);
+        return this.evaluateHabitCompleted(params, event);
 
       case "HABIT_MISSED":
-        return this.evaluateHabitMissed(trigger.params, event);
+        return this.evaluateHabitMissed(params, event);
 
       case "TRANSACTION_CREATED":
-        return this.evaluateTransactionCreated(trigger.params, event);
+        return this.evaluateTransactionCreated(params, event);
 
       case "BUDGET_EXCEEDED":
-        return this.evaluateBudgetExceeded(trigger.params, event);
+        return this.evaluateBudgetExceeded(params, event);
 
       case "GOAL_COMPLETED":
-        return this.evaluateGoalCompleted(trigger.params, event);
+        return this.evaluateGoalCompleted(params, event);
 
       case "JOURNAL_CREATED":
-        return this.evaluateJournalCreated(trigger.params, event);
+        return this.evaluateJournalCreated(params, event);
 
       case "ASSESSMENT_COMPLETED":
-        return this.evaluateAssessmentCompleted(trigger.params, event);
+        return this.evaluateAssessmentCompleted(params, event);
 
       case "SCHEDULED_TIME":
-        return this.evaluateScheduledTime(trigger.params, event);
+        return this.evaluateScheduledTime(params, event);
 
       default:
         console.warn(`Unknown trigger type: ${trigger.type}`);
@@ -98,6 +174,14 @@ export class AutomationEngine {
     }
   }
 
+  private async evaluateConditionGroup(params: any, event: AutomationEvent): Promise<boolean> {
+    if (!params.expression) {
+      return false;
+    }
+
+    return evaluateTriggerExpression(params.expression, (condition) => this.evaluateTrigger(condition, event));
+  }
+
   private async evaluateMoodThreshold(params: any, event: AutomationEvent): Promise<boolean> {
     if (event.type !== "mood.created" && event.type !== "mood.below_threshold") {
       return false;
@@ -140,19 +224,26 @@ return true;
       return false;
     }
 
+    // Statement imports emit one batched event; it matches if any transaction in it does
+    const transactions: any[] = event.data.batch ? event.data.transactions || [] : [event.data];
+
+    return transactions.some((transaction) => this.matchesTransaction(params, transaction));
+  }
+
+  private matchesTransaction(params: any, transaction: any): boolean {
     const category = params.category;
     const minAmount = params.minAmount;
     const maxAmount = params.maxAmount;
 
-    if (category && event.data.category !== category) {
+    if (category && transaction.category !== category) {
       return false;
     }
 
-    if (minAmount && event.data.amount < minAmount) {
+    if (minAmount && transaction.amount < minAmount) {
       return false;
     }
 
-    if (maxAmount && event.data.amount > maxAmount) {
+    if (maxAmount && transaction.amount > maxAmount) {
       return false;
     }
 
@@ -190,133 +281,315 @@ return true;
       return false;
     }
 
-    // Could add more sophisticated logic here (e.g., check for specific tags)
-    return true;
+    // Private entries keep their text out of the event, so keyword conditions
+    // read it from the entry
+    let text: string | undefined;
+    if (parseList(params.keywords).length > 0 && event.data.isPrivate && !event.data.encrypted) {
+      const entry = await prisma.journalEntry.findFirst({
+        where: { id: event.data.entryId, userId: event.userId },
+        select: { title: true, content: true },
+      });
+      text = entry ? `${entry.title}\n${entry.content}` : "";
+    }
+
+    return matchesJournalTrigger(params, event.data, text);
   }
 
   private async evaluateAssessmentCompleted(params: any, event: AutomationEvent): Promise<boolean> {
-    if (event.type !== "assessment.completed") {
+    // With `change` set the trigger reacts to reliable worsening between
+    // administrations instead of to every completed assessment
+    const change = params.change || "any";
+    const expectedType = change === "any" ? "assessment.completed" : "assessment.worsened";
+    if (event.type !== expectedType) {
+      return false;
+    }
+
+    if (change === "clinically_significant" && !event.data.clinicallySignificant) {
       return false;
     }
 
     const assessmentType = params.assessmentType;
     if (!assessmentType) {
-return true;
-}
+      return true;
+    }
 
     return event.data.type === assessmentType;
   }
 
   private async evaluateScheduledTime(params: any, event: AutomationEvent): Promise<boolean> {
-    if (event.type !== "scheduled.time") {
+    if (event.type !== "schedule.tick") {
       return false;
     }
 
-    // This is handled by the cron job, so if we receive this event,
-    // it means the scheduled time has been reached
+    // The scheduler only emits ticks for due runs, and processEvent has already
+    // narrowed the candidates to the routine the tick belongs to
     return true;
   }
 
-  private async executeRoutine(routine: any, event: AutomationEvent): Promise<void> {
-    console.log(`Executing automation routine: ${routine.name}`);
+  private async executeRoutine(
+    routine: any,
+    event: AutomationEvent,
+    triggerSteps: TriggerTraceStep[],
+    options: { dryRun?: boolean } = {}
+  ): Promise<ExecutionTrace> {
+    const dryRun = options.dryRun ?? false;
+    console.log(`${dryRun ? "Simulating" : "Executing"} automation routine: ${routine.name}`);
+
+    const trace: ExecutionTrace = {
+      routineId: routine.id,
+      dryRun,
+      event: {
+        id: event.id,
+        type: event.type,
+        data: event.data,
+        timestamp: new Date(event.timestamp).toISOString(),
+      },
+      matched: triggerSteps.every((step) => step.matched),
+      triggers: triggerSteps,
+      actions: [],
+      startedAt: new Date().toISOString(),
+    };
+
+    if (trace.matched) {
+      const scope: PipelineScope = {
+        event: { type: event.type, userId: event.userId, data: event.data, timestamp: trace.event.timestamp },
+        steps: {},
+      };
+      const steps = routine.actions
+        .filter((action: any) => action.isActive !== false)
+        .map((action: any, index: number) => toPipelineStep(action, index));
+
+      await this.runPipeline(steps, event, scope, trace, dryRun);
+    }
+
+    trace.finishedAt = new Date().toISOString();
+
+    const failures = trace.actions.filter((step) => step.status === "FAILED");
+
+    // One log per run, with the step-by-step trace in `details`
+    await prisma.automationLog.create({
+      data: {
+        routineId: routine.id,
+        eventId: dryRun ? null : event.id,
+        status: this.getRunStatus(trace, failures.length),
+        details: trace as any,
+        error: failures.length > 0
+          ? failures.map((step) => `Action ${step.type} failed: ${step.error}`).join("; ")
+          : null,
+      },
+    });
+
+    return trace;
+  }
+
+  private getRunStatus(trace: ExecutionTrace, failureCount: number): string {
+    if (trace.dryRun) {
+      return "DRY_RUN";
+    }
+    if (failureCount === 0) {
+      return "SUCCESS";
+    }
+    return trace.actions.some((step) => step.status === "SUCCESS") ? "PARTIAL" : "FAILED";
+  }
 
-    for (const action of routine.actions) {
-      try {
-        const result = await actionExecutor.executeAction(action, event);
-
-        // Log the successful execution
-        await prisma.automationLog.create({
-          data: {
-            routineId: routine.id,
-            status: "SUCCESS",
-            message: `Action ${action.type} executed successfully: ${result}`,
-          },
-        });
-      } catch (error) {
-        console.error(`Error executing action ${action.type}:`, error);
-
-        // Log the failed execution
-        await prisma.automationLog.create({
-          data: {
-            routineId: routine.id,
-            status: "FAILED",
-            message: `Action ${action.type} failed: ${error.message}`,
-          },
-        });
+  // Run steps in order, feeding each step's output into the scope for later
+  // templates. A failed step halts the pipeline unless it has `continueOnError`.
+  // Returns false if the pipeline was halted.
+  private async runPipeline(
+    steps: PipelineStep[],
+    event: AutomationEvent,
+    scope: PipelineScope,
+    trace: ExecutionTrace,
+    dryRun: boolean,
+    depth = 0
+  ): Promise<boolean> {
+    for (const [index, step] of steps.entries()) {
+      const traceStep = step.type === BRANCH_ACTION
+        ? await this.evaluateBranchStep(step, scope, depth)
+        : await this.executeActionStep(step, event, scope, dryRun, depth);
+
+      trace.actions.push(traceStep);
+
+      if (traceStep.status === "FAILED") {
+        if (!step.continueOnError) {
+          this.skipSteps(steps.slice(index + 1), trace, depth);
+          return false;
+        }
+        continue;
+      }
+
+      if (step.stepId) {
+        scope.steps[step.stepId] = traceStep.output ?? {};
+      }
+
+      if (step.type === BRANCH_ACTION) {
+        const params = step.params as BranchParams;
+        const branch = (traceStep.output?.branch === "then" ? params.then : params.else) ?? [];
+        const completed = await this.runPipeline(
+          branch.map((nested: any, nestedIndex: number) => toPipelineStep(nested, nestedIndex)),
+          event,
+          scope,
+          trace,
+          dryRun,
+          depth + 1
+        );
+
+        if (!completed) {
+          this.skipSteps(steps.slice(index + 1), trace, depth);
+          return false;
+        }
       }
     }
+
+    return true;
   }
 
-  // Public method to manually trigger scheduled routines
-  public async processScheduledRoutines(): Promise<void> {
+  private async evaluateBranchStep(step: PipelineStep, scope: PipelineScope, depth: number): Promise<ActionTraceStep> {
+    const startedAt = new Date();
+    const traceStep = this.createTraceStep(step, depth, startedAt);
+    traceStep.params = { condition: resolveTemplates(step.params.condition, scope) };
+    traceStep.attempts = 1;
+
     try {
-      const routines = await prisma.automationRoutine.findMany({
-        where: {
-          isEnabled: true,
-        },
-        include: {
-          triggers: true,
-          actions: true,
-        },
-      });
+      const matched = await evaluateBranchCondition(step.params.condition, scope);
+      traceStep.output = { matched, branch: matched ? "then" : "else" };
+      traceStep.result = `Condition ${matched ? "matched, running then" : "not matched, running else"}`;
+    } catch (error) {
+      traceStep.status = "FAILED";
+      traceStep.error = error instanceof Error ? error.message : String(error);
+    }
 
-      const now = new Date();
+    traceStep.durationMs = Date.now() - startedAt.getTime();
+    return traceStep;
+  }
 
-      for (const routine of routines) {
-        for (const trigger of routine.triggers) {
-          if (trigger.type === "SCHEDULED_TIME") {
-            const shouldExecute = await this.evaluateScheduledTimeTrigger(trigger.params, now);
-            if (shouldExecute) {
-              const event: AutomationEvent = {
-                type: "scheduled.time",
-                userId: routine.userId,
-                data: { scheduledTime: now },
-                timestamp: now,
-              };
-              await this.executeRoutine(routine, event);
-            }
-          }
+  private async executeActionStep(
+    step: PipelineStep,
+    event: AutomationEvent,
+    scope: PipelineScope,
+    dryRun: boolean,
+    depth: number
+  ): Promise<ActionTraceStep> {
+    const writes: SandboxWrite[] = [];
+    const startedAt = new Date();
+    const traceStep = this.createTraceStep(step, depth, startedAt);
+    const params = resolveTemplates(step.params, scope);
+    traceStep.params = params;
+
+    while (traceStep.attempts < step.maxAttempts) {
+      traceStep.attempts++;
+
+      try {
+        const result = await withTimeout(
+          actionExecutor.executeAction({ type: step.type, params }, event, {
+            db: dryRun ? createSandboxClient(prisma, writes) : prisma,
+            dryRun,
+          }),
+          step.timeoutMs,
+          `Action ${step.type}`
+        );
+
+        traceStep.status = "SUCCESS";
+        traceStep.result = result.message;
+        traceStep.output = result.output;
+        traceStep.http = result.exchange;
+        traceStep.error = undefined;
+        break;
+      } catch (error) {
+        console.error(`Error executing action ${step.type} (attempt ${traceStep.attempts}/${step.maxAttempts}):`, error);
+        traceStep.status = "FAILED";
+        traceStep.error = error instanceof Error ? error.message : String(error);
+        if (error instanceof HttpRequestError) {
+          traceStep.http = error.exchange;
+        }
+
+        // The timed-out call may still be running, so a retry could repeat its writes
+        if (error instanceof StepTimeoutError) {
+          break;
+        }
+
+        // Dry runs report the retries without waiting out the backoff
+        if (traceStep.attempts < step.maxAttempts && !dryRun) {
+          await new Promise((resolve) => setTimeout(resolve, getRetryDelay(step, traceStep.attempts)));
         }
       }
-    } catch (error) {
-      console.error("Error processing scheduled routines:", error);
     }
+
+    if (dryRun) {
+      traceStep.writes = writes;
+    }
+    traceStep.durationMs = Date.now() - startedAt.getTime();
+
+    return traceStep;
   }
 
-  private async evaluateScheduledTimeTrigger(params: any, now: Date): Promise<boolean> {
-    // Simple cron-like evaluation
-    // For now, we'll use a basic implementation
-    // In production, you might want to use a proper cron parser
+  private skipSteps(steps: PipelineStep[], trace: ExecutionTrace, depth: number): void {
+    const now = new Date();
+    for (const step of steps) {
+      trace.actions.push(this.createTraceStep(step, depth, now, "SKIPPED"));
+    }
+  }
 
-    const cronExpression = params.cron;
-    if (!cronExpression) {
-return false;
-}
+  private createTraceStep(
+    step: PipelineStep,
+    depth: number,
+    startedAt: Date,
+    status: ActionTraceStep["status"] = "SUCCESS"
+  ): ActionTraceStep {
+    return {
+      actionId: step.actionId,
+      stepId: step.stepId,
+      type: step.type,
+      order: step.order,
+      depth,
+      params: step.params,
+      status,
+      attempts: 0,
+      startedAt: startedAt.toISOString(),
+      durationMs: 0,
+    };
+  }
 
-    // This is a simplified cron parser - in production, use a library like 'cron-parser'
-    // For now, we'll just check if it's time to run based on basic patterns
+  // Simulate a routine against a sample event: triggers are evaluated and
+  // actions run against a sandboxed client, so nothing but the trace is written.
+  public async simulateRoutine(
+    routineId: string,
+    userId: string,
+    sample: { type: string; data?: any; timestamp?: Date }
+  ): Promise<ExecutionTrace> {
+    const routine = await prisma.automationRoutine.findFirst({
+      where: { id: routineId, userId },
+      include: {
+        triggers: true,
+        actions: { orderBy: { order: "asc" } },
+      },
+    });
 
-    const parts = cronExpression.split(" ");
-    if (parts.length !== 5) {
-return false;
-}
+    if (!routine) {
+      throw new Error(`Automation routine ${routineId} not found`);
+    }
 
-    const [minute, hour, dayOfMonth, month, dayOfWeek] = parts;
+    const event: AutomationEvent = {
+      type: sample.type,
+      userId,
+      data: { ...(sample.data || {}), ...(sample.type === "schedule.tick" ? { routineId } : {}) },
+      timestamp: sample.timestamp || new Date(),
+    };
 
-    const currentMinute = now.getMinutes();
-    const currentHour = now.getHours();
-    const currentDay = now.getDate();
-    const currentMonth = now.getMonth() + 1; // getMonth() returns 0-11
-    const currentDayOfWeek = now.getDay(); // 0 = Sunday
+    const triggerSteps: TriggerTraceStep[] = [];
+    await this.evaluateTriggers(routine.triggers, event, triggerSteps);
 
-    // Simple wildcard matching
-    const matchesMinute = minute === "*" || parseInt(minute) === currentMinute;
-    const matchesHour = hour === "*" || parseInt(hour) === currentHour;
-    const matchesDay = dayOfMonth === "*" || parseInt(dayOfMonth) === currentDay;
-    const matchesMonth = month === "*" || parseInt(month) === currentMonth;
-    const matchesDayOfWeek = dayOfWeek === "*" || parseInt(dayOfWeek) === currentDayOfWeek;
+    return this.executeRoutine(routine, event, triggerSteps, { dryRun: true });
+  }
 
-    return matchesMinute && matchesHour && matchesDay && matchesMonth && matchesDayOfWeek;
+  // Public method to run the scheduler once (called from cron routes)
+  public async processScheduledRoutines(): Promise<void> {
+    try {
+      const result = await automationScheduler.tick();
+      console.log(`Automation scheduler: ${result.emitted} runs emitted for ${result.checked} scheduled triggers`);
+    } catch (error) {
+      console.error("Error processing scheduled routines:", error);
+    }
   }
 }
 
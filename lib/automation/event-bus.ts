@@ -1,4 +1,5 @@
 import { EventEmitter } from "events";
+import { automationEventQueue } from "./event-queue";
 
 // Global event bus for automation system
 export const eventBus = new EventEmitter();
@@ -14,6 +15,28 @@ export const EVENT_TYPES = {
   SYSTEM_HEALTH: "system:health",
 } as const;
 
+// Automation event types consumed by the AutomationEngine
+export type AutomationEventType =
+  | "mood.created"
+  | "mood.below_threshold"
+  | "habit.completed"
+  | "habit.missed"
+  | "transaction.created"
+  | "budget.exceeded"
+  | "goal.completed"
+  | "journal.created"
+  | "assessment.completed"
+  | "assessment.worsened"
+  | "schedule.tick";
+
+export interface AutomationEvent {
+  id?: string; // Outbox id, set once the event has been persisted
+  type: AutomationEventType | string;
+  userId: string;
+  data: any;
+  timestamp: Date;
+}
+
 // Event interfaces
 export interface MoodLoggedEvent {
   userId: string;
@@ -36,20 +59,25 @@ export interface HabitCompletedEvent {
   timestamp: Date;
 }
 
-// Legacy function for backward compatibility
+// Persist the event to the automation outbox and notify in-process listeners.
+// Delivery to the AutomationEngine goes through the outbox so events survive
+// restarts and failed runs are retried.
 export function emitAutomationEvent(
   type: string,
   userId: string,
   data: any
 ): void {
-  const event = {
+  const event: AutomationEvent = {
     type,
     userId,
     data,
     timestamp: new Date(),
   };
   eventBus.emit(type, event);
-  eventBus.emit("automation", event);
+
+  automationEventQueue.enqueue(event).catch((error) => {
+    console.error(`Failed to persist automation event ${type}:`, error);
+  });
 }
 
 // Emit events
@@ -0,0 +1,223 @@
+import { PrismaClient } from "@prisma/client";
+import type { AutomationEvent } from "./event-bus";
+
+const prisma = new PrismaClient();
+
+// Outbox statuses
+export const OUTBOX_STATUS = {
+  PENDING: "pending",
+  PROCESSING: "processing",
+  DELIVERED: "delivered",
+  DEAD_LETTER: "dead_letter",
+} as const;
+
+const RETRY_BASE_DELAY_MS = 30 * 1000; // 30 seconds
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000; // 1 hour
+const PROCESSING_LOCK_TIMEOUT_MS = 5 * 60 * 1000; // Reclaim events stuck in processing after 5 minutes
+
+export type AutomationEventHandler = (event: AutomationEvent) => Promise<void>;
+
+export interface ReplayOptions {
+  userId: string;
+  from: Date;
+  to: Date;
+  types?: string[];
+  deadLetterOnly?: boolean;
+}
+
+export class AutomationEventQueue {
+  private static instance: AutomationEventQueue;
+  private handler: AutomationEventHandler | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): AutomationEventQueue {
+    if (!AutomationEventQueue.instance) {
+      AutomationEventQueue.instance = new AutomationEventQueue();
+    }
+    return AutomationEventQueue.instance;
+  }
+
+  // The AutomationEngine registers itself here when it is loaded
+  public registerHandler(handler: AutomationEventHandler): void {
+    this.handler = handler;
+  }
+
+  public async enqueue(event: AutomationEvent): Promise<string> {
+    const record = await prisma.automationOutboxEvent.create({
+      data: {
+        userId: event.userId,
+        type: event.type,
+        payload: event.data ?? {},
+        occurredAt: event.timestamp,
+      },
+    });
+
+    // Deliver right away when the engine is loaded in this process; otherwise
+    // the event stays pending until the next processPending() run.
+    if (this.handler) {
+      await this.deliver(record.id);
+    }
+
+    return record.id;
+  }
+
+  // Deliver a single outbox event. Returns true if the handler succeeded.
+  public async deliver(eventId: string): Promise<boolean> {
+    if (!this.handler) {
+      return false;
+    }
+
+    const now = new Date();
+    const claimed = await prisma.automationOutboxEvent.updateMany({
+      where: {
+        id: eventId,
+        OR: [
+          { status: OUTBOX_STATUS.PENDING },
+          {
+            status: OUTBOX_STATUS.PROCESSING,
+            lockedAt: { lt: new Date(now.getTime() - PROCESSING_LOCK_TIMEOUT_MS) },
+          },
+        ],
+      },
+      data: {
+        status: OUTBOX_STATUS.PROCESSING,
+        lockedAt: now,
+        attempts: { increment: 1 },
+      },
+    });
+
+    // Another worker picked it up or it is no longer pending
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    const record = await prisma.automationOutboxEvent.findUnique({
+      where: { id: eventId },
+    });
+
+    if (!record) {
+      return false;
+    }
+
+    try {
+      await this.handler({
+        id: record.id,
+        type: record.type,
+        userId: record.userId,
+        data: record.payload,
+        timestamp: record.occurredAt,
+      });
+
+      await prisma.automationOutboxEvent.update({
+        where: { id: record.id },
+        data: {
+          status: OUTBOX_STATUS.DELIVERED,
+          deliveredAt: new Date(),
+          lockedAt: null,
+          lastError: null,
+        },
+      });
+
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const exhausted = record.attempts >= record.maxAttempts;
+
+      await prisma.automationOutboxEvent.update({
+        where: { id: record.id },
+        data: {
+          status: exhausted ? OUTBOX_STATUS.DEAD_LETTER : OUTBOX_STATUS.PENDING,
+          nextAttemptAt: new Date(Date.now() + this.getRetryDelay(record.attempts)),
+          lockedAt: null,
+          lastError: message,
+        },
+      });
+
+      if (exhausted) {
+        console.error(`Automation event ${record.id} moved to dead letter after ${record.attempts} attempts:`, message);
+      }
+
+      return false;
+    }
+  }
+
+  // Drain due events. Intended to be called from a cron route.
+  public async processPending(limit = 100): Promise<{ delivered: number; failed: number }> {
+    const now = new Date();
+    const due = await prisma.automationOutboxEvent.findMany({
+      where: {
+        OR: [
+          { status: OUTBOX_STATUS.PENDING, nextAttemptAt: { lte: now } },
+          {
+            status: OUTBOX_STATUS.PROCESSING,
+            lockedAt: { lt: new Date(now.getTime() - PROCESSING_LOCK_TIMEOUT_MS) },
+          },
+        ],
+      },
+      orderBy: { occurredAt: "asc" },
+      take: limit,
+      select: { id: true },
+    });
+
+    let delivered = 0;
+    let failed = 0;
+
+    for (const { id } of due) {
+      if (await this.deliver(id)) {
+        delivered++;
+      } else {
+        failed++;
+      }
+    }
+
+    return { delivered, failed };
+  }
+
+  // Re-enqueue the original events for a user/time window as new outbox rows,
+  // leaving the history of the originals untouched.
+  public async replay(options: ReplayOptions): Promise<number> {
+    const where: any = {
+      userId: options.userId,
+      replayOfId: null,
+      occurredAt: {
+        gte: options.from,
+        lte: options.to,
+      },
+    };
+
+    if (options.types && options.types.length > 0) {
+      where.type = { in: options.types };
+    }
+
+    if (options.deadLetterOnly) {
+      where.status = OUTBOX_STATUS.DEAD_LETTER;
+    }
+
+    const originals = await prisma.automationOutboxEvent.findMany({
+      where,
+      orderBy: { occurredAt: "asc" },
+    });
+
+    for (const original of originals) {
+      await prisma.automationOutboxEvent.create({
+        data: {
+          userId: original.userId,
+          type: original.type,
+          payload: original.payload ?? {},
+          occurredAt: original.occurredAt,
+          replayOfId: original.id,
+        },
+      });
+    }
+
+    return originals.length;
+  }
+
+  private getRetryDelay(attempts: number): number {
+    const delay = RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0));
+    return Math.min(delay, RETRY_MAX_DELAY_MS);
+  }
+}
+
+export const automationEventQueue = AutomationEventQueue.getInstance();
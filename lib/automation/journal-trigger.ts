@@ -0,0 +1,100 @@
+// Matching for JOURNAL_CREATED trigger params against `journal.created` event
+// data. Kept free of engine state so it can be unit tested.
+
+export type SentimentLabel = "positive" | "negative" | "neutral";
+
+export interface JournalSentiment {
+  emotion: string;
+  confidence: number; // 0-1
+  intensity: number; // 0-1
+  score: number; // -1 (negative) to 1 (positive)
+  label: SentimentLabel;
+}
+
+// Events are stored in the outbox and can be forwarded by webhooks, so private
+// entries leave out their title and content; encrypted entries only carry
+// metadata, with no sentiment either
+export interface JournalEventData {
+  entryId: string;
+  title: string | null;
+  content: string | null;
+  mood: string | null;
+  tags: string[];
+  isPrivate: boolean;
+  encrypted: boolean;
+  wordCount: number | null;
+  sentiment: JournalSentiment | null;
+}
+
+export interface JournalTriggerParams {
+  keywords?: string[] | string; // Any of; whole words or phrases, case-insensitive
+  tags?: string[] | string; // Any of
+  emotion?: string;
+  minSentiment?: number | string;
+  maxSentiment?: number | string;
+}
+
+// The builder stores comma-separated text; API clients may send arrays
+export function parseList(value: string[] | string | undefined): string[] {
+  const items = Array.isArray(value) ? value : (value || "").split(",");
+  return items.map((item) => item.trim().toLowerCase()).filter(Boolean);
+}
+
+function parseBound(value: number | string | undefined): number | null {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  const bound = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(bound) ? bound : null;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function matchesKeywords(text: string, keywords: string[]): boolean {
+  return keywords.some((keyword) => {
+    const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(keyword)}($|[^\\p{L}\\p{N}])`, "iu");
+    return pattern.test(text);
+  });
+}
+
+// `text` is the entry's title and content for a private entry, which the
+// caller reads from the entry itself since the event doesn't carry it
+export function matchesJournalTrigger(params: JournalTriggerParams, data: JournalEventData, text?: string): boolean {
+  const tags = parseList(params.tags);
+  if (tags.length > 0) {
+    const entryTags = (data.tags || []).map((tag) => tag.toLowerCase());
+    if (!tags.some((tag) => entryTags.includes(tag))) {
+      return false;
+    }
+  }
+
+  const keywords = parseList(params.keywords);
+  const emotion = params.emotion?.trim().toLowerCase();
+  const minSentiment = parseBound(params.minSentiment);
+  const maxSentiment = parseBound(params.maxSentiment);
+  const needsText = keywords.length > 0 || !!emotion || minSentiment !== null || maxSentiment !== null;
+
+  // Content conditions never match an encrypted entry: the server can't read it
+  if (needsText && data.encrypted) {
+    return false;
+  }
+
+  if (keywords.length > 0 && !matchesKeywords(text ?? `${data.title || ""}\n${data.content || ""}`, keywords)) {
+    return false;
+  }
+
+  const sentiment = data.sentiment;
+  if (emotion && sentiment?.emotion !== emotion) {
+    return false;
+  }
+  if (minSentiment !== null && (!sentiment || sentiment.score < minSentiment)) {
+    return false;
+  }
+  if (maxSentiment !== null && (!sentiment || sentiment.score > maxSentiment)) {
+    return false;
+  }
+
+  return true;
+}
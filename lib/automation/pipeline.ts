@@ -0,0 +1,330 @@
+import {
+  TriggerCondition,
+  TriggerExpression,
+  evaluateTriggerExpression,
+  validateTriggerExpression,
+} from "./trigger-expression";
+
+// Multi-step action pipelines. Steps run in `order`; later steps can reference
+// earlier outputs with `{{steps.<stepId>.<field>}}` (and the event with
+// `{{event.data.<field>}}`), and BRANCH steps run a `then` or `else` sub-pipeline.
+
+export const BRANCH_ACTION = "BRANCH";
+
+// Leaf condition of a branch: `{ left, operator, right }`, with templates resolved first
+export const COMPARE_CONDITION = "COMPARE";
+
+export const COMPARE_OPERATORS = ["eq", "neq", "gt", "gte", "lt", "lte", "contains", "exists"] as const;
+
+export type CompareOperator = typeof COMPARE_OPERATORS[number];
+
+export const MAX_BRANCH_DEPTH = 3;
+export const MAX_STEP_ATTEMPTS = 5;
+export const MAX_STEP_TIMEOUT_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+const STEP_ID_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const TEMPLATE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const WHOLE_TEMPLATE_PATTERN = /^\{\{\s*([^{}]+?)\s*\}\}$/;
+
+export interface PipelineStep {
+  actionId?: string; // Only top-level steps are AutomationAction rows
+  stepId?: string;
+  type: string;
+  params: any;
+  order: number;
+  maxAttempts: number;
+  retryBackoffMs: number;
+  timeoutMs?: number;
+  continueOnError: boolean;
+}
+
+export interface BranchParams {
+  condition: TriggerExpression;
+  then?: any[];
+  else?: any[];
+}
+
+export interface PipelineScope {
+  event: {
+    type: string;
+    userId: string;
+    data: any;
+    timestamp: string;
+  };
+  steps: Record<string, any>;
+}
+
+// Normalize an AutomationAction row (`config`) or a nested branch step (`params`)
+export function toPipelineStep(action: any, order = 0): PipelineStep {
+  return {
+    actionId: action.id,
+    stepId: action.stepId || undefined,
+    type: action.type,
+    params: action.config ?? action.params ?? {},
+    order: action.order ?? order,
+    maxAttempts: clamp(action.maxAttempts ?? 1, 1, MAX_STEP_ATTEMPTS),
+    retryBackoffMs: Math.max(action.retryBackoffMs ?? 1000, 0),
+    timeoutMs: action.timeoutMs ? clamp(action.timeoutMs, 1, MAX_STEP_TIMEOUT_MS) : undefined,
+    continueOnError: action.continueOnError ?? false,
+  };
+}
+
+// Read a dotted path like `steps.analyze.topCategory` or `event.data.tags.0`
+export function getScopeValue(scope: PipelineScope, path: string): any {
+  let value: any = scope;
+
+  for (const key of path.split(".")) {
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+    value = value[key];
+  }
+
+  return value;
+}
+
+// Replace `{{path}}` templates throughout a params object. A string that is a
+// single template keeps the referenced value's type (numbers stay numbers);
+// templates embedded in text are stringified, with missing values left empty.
+export function resolveTemplates<T>(value: T, scope: PipelineScope): T {
+  if (typeof value === "string") {
+    const whole = value.match(WHOLE_TEMPLATE_PATTERN);
+    if (whole) {
+      return getScopeValue(scope, whole[1]) as T;
+    }
+
+    return value.replace(TEMPLATE_PATTERN, (_match, path: string) => {
+      const resolved = getScopeValue(scope, path);
+      if (resolved === null || resolved === undefined) {
+        return "";
+      }
+      return typeof resolved === "object" ? JSON.stringify(resolved) : String(resolved);
+    }) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveTemplates(item, scope)) as T;
+  }
+
+  if (typeof value === "object" && value !== null && !(value instanceof Date)) {
+    const resolved: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      resolved[key] = resolveTemplates(item, scope);
+    }
+    return resolved as T;
+  }
+
+  return value;
+}
+
+function valuesEqual(left: any, right: any): boolean {
+  if (left === null || left === undefined || right === null || right === undefined) {
+    return (left ?? null) === (right ?? null);
+  }
+  if (typeof left === "object" || typeof right === "object") {
+    return left === right;
+  }
+  // Templates always resolve inside strings, so "5" should equal 5
+  if (typeof left === "number" || typeof right === "number") {
+    return Number(left) === Number(right);
+  }
+  return String(left) === String(right);
+}
+
+export function compareValues(left: any, operator: CompareOperator, right: any): boolean {
+  switch (operator) {
+    case "eq":
+      return valuesEqual(left, right);
+    case "neq":
+      return !valuesEqual(left, right);
+    case "gt":
+      return Number(left) > Number(right);
+    case "gte":
+      return Number(left) >= Number(right);
+    case "lt":
+      return Number(left) < Number(right);
+    case "lte":
+      return Number(left) <= Number(right);
+    case "contains":
+      if (Array.isArray(left)) {
+        return left.includes(right);
+      }
+      return typeof left === "string" && left.toLowerCase().includes(String(right).toLowerCase());
+    case "exists":
+      return left !== null && left !== undefined && left !== "";
+    default:
+      return false;
+  }
+}
+
+export async function evaluateBranchCondition(condition: TriggerExpression, scope: PipelineScope): Promise<boolean> {
+  return evaluateTriggerExpression(condition, async(leaf: TriggerCondition) => {
+    if (leaf.type !== COMPARE_CONDITION) {
+      return false;
+    }
+
+    const { left, operator, right } = resolveTemplates(leaf.params, scope);
+    return compareValues(left, operator, right);
+  });
+}
+
+// Exponential backoff between attempts: backoff, 2x backoff, 4x backoff, ...
+export function getRetryDelay(step: PipelineStep, attempt: number): number {
+  return Math.min(step.retryBackoffMs * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+}
+
+export class StepTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StepTimeoutError";
+  }
+}
+
+// The underlying work isn't cancelled on timeout and may still finish its
+// writes, so a timed-out step must not be retried
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number | undefined, label: string): Promise<T> {
+  if (!timeoutMs) {
+    return promise;
+  }
+
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new StepTimeoutError(`${label} timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Every step in the pipeline, including those nested in branches
+export function flattenPipeline(actions: any[]): any[] {
+  return actions.flatMap((action) => {
+    const params = action?.params ?? action?.config ?? {};
+    return action?.type === BRANCH_ACTION
+      ? [action, ...flattenPipeline(params.then ?? []), ...flattenPipeline(params.else ?? [])]
+      : [action];
+  });
+}
+
+// Returns a list of human-readable problems; an empty list means the pipeline is valid.
+// Step ids must be unique, and templates may only reference steps defined earlier.
+export function validatePipeline(
+  actions: unknown,
+  path = "actions",
+  knownStepIds = new Set<string>(),
+  depth = 1
+): string[] {
+  if (!Array.isArray(actions)) {
+    return [`${path} must be an array`];
+  }
+
+  if (depth > MAX_BRANCH_DEPTH) {
+    return [`${path} exceeds the maximum branch depth of ${MAX_BRANCH_DEPTH}`];
+  }
+
+  const errors: string[] = [];
+
+  actions.forEach((action: any, index: number) => {
+    const stepPath = `${path}[${index}]`;
+
+    if (typeof action !== "object" || action === null || typeof action.type !== "string") {
+      errors.push(`${stepPath} must be an object with a type`);
+      return;
+    }
+
+    if (action.maxAttempts !== undefined && !isIntegerBetween(action.maxAttempts, 1, MAX_STEP_ATTEMPTS)) {
+      errors.push(`${stepPath}.maxAttempts must be between 1 and ${MAX_STEP_ATTEMPTS}`);
+    }
+    if (action.timeoutMs !== undefined && action.timeoutMs !== null && !isIntegerBetween(action.timeoutMs, 1, MAX_STEP_TIMEOUT_MS)) {
+      errors.push(`${stepPath}.timeoutMs must be between 1 and ${MAX_STEP_TIMEOUT_MS}`);
+    }
+    if (action.retryBackoffMs !== undefined && !isIntegerBetween(action.retryBackoffMs, 0, MAX_RETRY_DELAY_MS)) {
+      errors.push(`${stepPath}.retryBackoffMs must be between 0 and ${MAX_RETRY_DELAY_MS}`);
+    }
+
+    const params = action.params ?? action.config ?? {};
+
+    if (action.type === BRANCH_ACTION) {
+      errors.push(
+        ...validateTriggerExpression(params.condition, `${stepPath}.params.condition`, 1, [COMPARE_CONDITION]),
+        ...validateReferences(params.condition, `${stepPath}.params.condition`, knownStepIds),
+        ...validateCompareOperators(params.condition, `${stepPath}.params.condition`)
+      );
+      // Steps inside a branch can't see each other across then/else, but can see what came before
+      const thenIds = new Set(knownStepIds);
+      const elseIds = new Set(knownStepIds);
+      errors.push(...validatePipeline(params.then ?? [], `${stepPath}.params.then`, thenIds, depth + 1));
+      errors.push(...validatePipeline(params.else ?? [], `${stepPath}.params.else`, elseIds, depth + 1));
+      // Afterwards either side may have run; references to them resolve empty if not
+      [...thenIds, ...elseIds].forEach((id) => knownStepIds.add(id));
+    } else {
+      errors.push(...validateReferences(params, `${stepPath}.params`, knownStepIds));
+    }
+
+    if (action.stepId !== undefined && action.stepId !== null && action.stepId !== "") {
+      if (typeof action.stepId !== "string" || !STEP_ID_PATTERN.test(action.stepId)) {
+        errors.push(`${stepPath}.stepId "${action.stepId}" must start with a letter and contain only letters, digits and _`);
+      } else if (knownStepIds.has(action.stepId)) {
+        errors.push(`${stepPath}.stepId "${action.stepId}" is already used by an earlier step`);
+      } else {
+        knownStepIds.add(action.stepId);
+      }
+    }
+  });
+
+  return errors;
+}
+
+function validateReferences(value: unknown, path: string, knownStepIds: Set<string>): string[] {
+  const errors: string[] = [];
+
+  for (const template of collectTemplates(value)) {
+    const [root, stepId] = template.split(".");
+
+    if (root === "steps" && !knownStepIds.has(stepId)) {
+      errors.push(`${path} references unknown or later step "${stepId}" in {{${template}}}`);
+    } else if (root !== "steps" && root !== "event") {
+      errors.push(`${path}: {{${template}}} must start with steps. or event.`);
+    }
+  }
+
+  return errors;
+}
+
+function validateCompareOperators(expression: any, path: string): string[] {
+  if (typeof expression !== "object" || expression === null) {
+    return [];
+  }
+
+  if (Array.isArray(expression.conditions)) {
+    return expression.conditions.flatMap((child: any, index: number) =>
+      validateCompareOperators(child, `${path}.conditions[${index}]`)
+    );
+  }
+
+  const operator = expression.params?.operator;
+  return COMPARE_OPERATORS.includes(operator)
+    ? []
+    : [`${path}.params.operator must be one of ${COMPARE_OPERATORS.join(", ")}`];
+}
+
+function collectTemplates(value: unknown): string[] {
+  if (typeof value === "string") {
+    return Array.from(value.matchAll(TEMPLATE_PATTERN), (match) => match[1]);
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(collectTemplates);
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.values(value).flatMap(collectTemplates);
+  }
+  return [];
+}
+
+function isIntegerBetween(value: unknown, min: number, max: number): boolean {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
@@ -0,0 +1,173 @@
+import { PrismaClient } from "@prisma/client";
+import { automationEventQueue } from "./event-queue";
+import { getNextRun, getRunsBetween, isValidCronExpression, isValidTimezone } from "./cron";
+import { getUserTimezone } from "../timezone";
+
+const prisma = new PrismaClient();
+
+const DEFAULT_TICK_INTERVAL_MS = 60 * 1000;
+const CATCH_UP_WINDOW_MS = 7 * 24 * 60 * 60 * 1000; // Missed runs older than a week are dropped
+const MAX_CATCH_UP_RUNS = 10; // Most recent missed runs emitted with the "all" policy
+const MAX_RUNS_SCANNED = 20000;
+const SKIP_POLICY_GRACE_MS = 5 * 60 * 1000;
+
+// What to do with runs missed while the scheduler wasn't ticking:
+// - all: emit each missed run (up to MAX_CATCH_UP_RUNS)
+// - latest: emit only the most recent missed run
+// - skip: drop missed runs unless the latest one is within the grace period
+export type CatchUpPolicy = "all" | "latest" | "skip";
+
+export interface SchedulerTickResult {
+  checked: number;
+  emitted: number;
+  skipped: number;
+}
+
+export class AutomationScheduler {
+  private static instance: AutomationScheduler;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): AutomationScheduler {
+    if (!AutomationScheduler.instance) {
+      AutomationScheduler.instance = new AutomationScheduler();
+    }
+    return AutomationScheduler.instance;
+  }
+
+  // For long-running servers; serverless deployments call tick() from a cron route instead
+  public start(intervalMs = DEFAULT_TICK_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => {
+        console.error("Automation scheduler tick failed:", error);
+      });
+    }, intervalMs);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Emit a `schedule.tick` event for every SCHEDULED_TIME trigger whose cron
+  // expression has come due since its last recorded run.
+  public async tick(now = new Date()): Promise<SchedulerTickResult> {
+    const triggers = await prisma.automationTrigger.findMany({
+      where: {
+        type: "SCHEDULED_TIME",
+        isActive: true,
+        routine: { isActive: true },
+      },
+      include: {
+        routine: { select: { id: true, userId: true } },
+      },
+    });
+
+    const timezones = new Map<string, string>();
+    const result: SchedulerTickResult = { checked: triggers.length, emitted: 0, skipped: 0 };
+
+    for (const trigger of triggers) {
+      try {
+        const params = (trigger.config as any) || {};
+
+        if (!params.cron || !isValidCronExpression(params.cron)) {
+          result.skipped++;
+          continue;
+        }
+
+        const timezone = await this.resolveTimezone(params.timezone, trigger.routine.userId, timezones);
+        const since = trigger.lastRunAt ?? trigger.createdAt;
+        const windowStart = new Date(Math.max(since.getTime(), now.getTime() - CATCH_UP_WINDOW_MS));
+        const missed = getRunsBetween(params.cron, windowStart, now, timezone, MAX_RUNS_SCANNED);
+        const nextRunAt = getNextRun(params.cron, now, timezone);
+
+        if (missed.length === 0) {
+          if (!trigger.nextRunAt || trigger.nextRunAt.getTime() !== nextRunAt?.getTime()) {
+            await prisma.automationTrigger.update({
+              where: { id: trigger.id },
+              data: { nextRunAt },
+            });
+          }
+          continue;
+        }
+
+        // Record the run before emitting so a concurrent tick can't fire it twice
+        const claimed = await prisma.automationTrigger.updateMany({
+          where: { id: trigger.id, lastRunAt: trigger.lastRunAt },
+          data: { lastRunAt: missed[missed.length - 1], nextRunAt },
+        });
+
+        if (claimed.count === 0) {
+          continue;
+        }
+
+        const runs = this.selectRuns(missed, params.catchUp || "all", now);
+        result.skipped += missed.length - runs.length;
+
+        for (const run of runs) {
+          await automationEventQueue.enqueue({
+            type: "schedule.tick",
+            userId: trigger.routine.userId,
+            data: {
+              routineId: trigger.routine.id,
+              triggerId: trigger.id,
+              cron: params.cron,
+              timezone,
+              scheduledFor: run.toISOString(),
+              catchUp: now.getTime() - run.getTime() >= DEFAULT_TICK_INTERVAL_MS,
+            },
+            timestamp: run,
+          });
+          result.emitted++;
+        }
+      } catch (error) {
+        console.error(`Error scheduling trigger ${trigger.id}:`, error);
+        result.skipped++;
+      }
+    }
+
+    return result;
+  }
+
+  private selectRuns(missed: Date[], policy: CatchUpPolicy, now: Date): Date[] {
+    const latest = missed[missed.length - 1];
+
+    switch (policy) {
+      case "latest":
+        return [latest];
+
+      case "skip":
+        return now.getTime() - latest.getTime() <= SKIP_POLICY_GRACE_MS ? [latest] : [];
+
+      case "all":
+      default:
+        return missed.slice(-MAX_CATCH_UP_RUNS);
+    }
+  }
+
+  // Trigger-level timezone wins, then the user's org timezone
+  private async resolveTimezone(
+    timezone: string | undefined,
+    userId: string,
+    cache: Map<string, string>
+  ): Promise<string> {
+    if (timezone && isValidTimezone(timezone)) {
+      return timezone;
+    }
+
+    if (!cache.has(userId)) {
+      cache.set(userId, await getUserTimezone(userId));
+    }
+
+    return cache.get(userId)!;
+  }
+}
+
+export const automationScheduler = AutomationScheduler.getInstance();
@@ -0,0 +1,134 @@
+import { PrismaClient } from "@prisma/client";
+import type { HttpExchange } from "./webhook";
+
+// Step-by-step execution traces, stored in AutomationLog.details
+
+export interface SandboxWrite {
+  model: string;
+  operation: string;
+  args: any;
+}
+
+export interface TriggerTraceStep {
+  triggerId?: string;
+  type: string;
+  params: any;
+  matched: boolean;
+}
+
+export interface ActionTraceStep {
+  actionId?: string;
+  stepId?: string;
+  type: string;
+  order: number;
+  depth: number; // 0 for top-level steps, +1 inside each branch
+  params: any; // With templates resolved
+  status: "SUCCESS" | "FAILED" | "SKIPPED";
+  attempts: number;
+  result?: string;
+  output?: Record<string, any>;
+  error?: string;
+  writes?: SandboxWrite[]; // Only recorded in dry runs
+  http?: HttpExchange; // Webhook and connector calls
+  startedAt: string;
+  durationMs: number;
+}
+
+export interface ExecutionTrace {
+  routineId: string;
+  dryRun: boolean;
+  event: {
+    id?: string;
+    type: string;
+    data: any;
+    timestamp: string;
+  };
+  matched: boolean;
+  triggers: TriggerTraceStep[];
+  actions: ActionTraceStep[];
+  startedAt: string;
+  finishedAt?: string;
+}
+
+const WRITE_OPERATIONS = new Set([
+  "create",
+  "createMany",
+  "update",
+  "updateMany",
+  "upsert",
+  "delete",
+  "deleteMany",
+]);
+
+// Client-level methods that don't touch data
+const PASSTHROUGH_CLIENT_METHODS = new Set(["$connect", "$disconnect"]);
+
+const RAW_WRITE_METHODS = new Set(["$executeRaw", "$executeRawUnsafe"]);
+
+// Wrap a Prisma client so reads go through but writes are recorded instead of
+// executed. Writes resolve with a plausible record built from their arguments.
+// Transactions run against the sandbox; raw SQL can't be told apart from a
+// read, so raw queries are refused and raw statements only recorded.
+export function createSandboxClient(client: PrismaClient, writes: SandboxWrite[]): PrismaClient {
+  const sandbox: PrismaClient = new Proxy(client, {
+    get(target, property, receiver) {
+      const delegate = Reflect.get(target, property, receiver);
+
+      if (typeof property === "string" && property.startsWith("$")) {
+        if (PASSTHROUGH_CLIENT_METHODS.has(property)) {
+          return typeof delegate === "function" ? delegate.bind(target) : delegate;
+        }
+
+        if (property === "$transaction") {
+          // Batches hold promises from sandboxed delegates; interactive
+          // transactions get the sandbox as their client
+          return async(input: any) => (typeof input === "function" ? input(sandbox) : Promise.all(input));
+        }
+
+        if (RAW_WRITE_METHODS.has(property)) {
+          return async(query: any, ...values: any[]) => {
+            writes.push({
+              model: "$raw",
+              operation: property,
+              args: { query: Array.isArray(query) ? query.join("?") : query, values },
+            });
+            return 0;
+          };
+        }
+
+        return async() => {
+          throw new Error(`${property} is not available in a dry run`);
+        };
+      }
+
+      if (typeof property !== "string" || typeof delegate !== "object" || delegate === null) {
+        return delegate;
+      }
+
+      return new Proxy(delegate, {
+        get(modelDelegate, operation, modelReceiver) {
+          const method = Reflect.get(modelDelegate, operation, modelReceiver);
+
+          if (typeof operation !== "string" || !WRITE_OPERATIONS.has(operation)) {
+            return typeof method === "function" ? method.bind(modelDelegate) : method;
+          }
+
+          return async(args: any) => {
+            writes.push({ model: property, operation, args });
+
+            if (operation.endsWith("Many")) {
+              return { count: Array.isArray(args?.data) ? args.data.length : 0 };
+            }
+
+            return {
+              id: `dry-run-${writes.length}`,
+              ...(args?.data || args?.create || {}),
+            };
+          };
+        },
+      });
+    },
+  });
+
+  return sandbox;
+}
@@ -0,0 +1,144 @@
+// Boolean trigger expressions: nested AND/OR/NOT groups of leaf triggers,
+// stored in the `config.expression` of a CONDITION_GROUP trigger.
+
+export const LEAF_TRIGGER_TYPES = [
+  "MOOD_BELOW_THRESHOLD",
+  "HABIT_COMPLETED",
+  "HABIT_MISSED",
+  "TRANSACTION_CREATED",
+  "BUDGET_EXCEEDED",
+  "GOAL_COMPLETED",
+  "JOURNAL_CREATED",
+  "ASSESSMENT_COMPLETED",
+  "SCHEDULED_TIME",
+] as const;
+
+export const CONDITION_GROUP_TRIGGER = "CONDITION_GROUP";
+
+// Schedules fire from the scheduler, which only reads top-level SCHEDULED_TIME
+// triggers, so they can't be nested inside a group
+export const GROUPABLE_TRIGGER_TYPES: readonly string[] = LEAF_TRIGGER_TYPES.filter((type) => type !== "SCHEDULED_TIME");
+
+export const MAX_EXPRESSION_DEPTH = 5;
+
+export type ConditionOperator = "AND" | "OR" | "NOT";
+
+export interface TriggerCondition {
+  type: string;
+  params: Record<string, any>;
+}
+
+export interface ConditionGroup {
+  operator: ConditionOperator;
+  conditions: TriggerExpression[];
+}
+
+export type TriggerExpression = TriggerCondition | ConditionGroup;
+
+export function isConditionGroup(expression: TriggerExpression): expression is ConditionGroup {
+  return typeof expression === "object" && expression !== null && "operator" in expression;
+}
+
+// Returns a list of human-readable problems; an empty list means the expression is valid.
+// `leafTypes` lets other condition trees (e.g. pipeline branches) reuse the same grammar.
+export function validateTriggerExpression(
+  expression: unknown,
+  path = "expression",
+  depth = 1,
+  leafTypes: readonly string[] = LEAF_TRIGGER_TYPES
+): string[] {
+  if (typeof expression !== "object" || expression === null || Array.isArray(expression)) {
+    return [`${path} must be an object`];
+  }
+
+  if (depth > MAX_EXPRESSION_DEPTH) {
+    return [`${path} exceeds the maximum nesting depth of ${MAX_EXPRESSION_DEPTH}`];
+  }
+
+  const node = expression as Record<string, any>;
+
+  if ("operator" in node) {
+    const errors: string[] = [];
+
+    if (!["AND", "OR", "NOT"].includes(node.operator)) {
+      errors.push(`${path}.operator must be one of AND, OR, NOT`);
+    }
+
+    if (!Array.isArray(node.conditions)) {
+      return [...errors, `${path}.conditions must be an array`];
+    }
+
+    if (node.operator === "NOT" && node.conditions.length !== 1) {
+      errors.push(`${path}: NOT groups must contain exactly one condition`);
+    } else if (node.conditions.length === 0) {
+      errors.push(`${path}: groups must contain at least one condition`);
+    }
+
+    node.conditions.forEach((child: unknown, index: number) => {
+      errors.push(...validateTriggerExpression(child, `${path}.conditions[${index}]`, depth + 1, leafTypes));
+    });
+
+    return errors;
+  }
+
+  if (!leafTypes.includes(node.type)) {
+    return [`${path}.type "${node.type}" is not a supported ${leafTypes === LEAF_TRIGGER_TYPES ? "trigger" : "condition"} type`];
+  }
+
+  if (node.params !== undefined && (typeof node.params !== "object" || node.params === null)) {
+    return [`${path}.params must be an object`];
+  }
+
+  return [];
+}
+
+// Evaluate an expression tree, short-circuiting AND/OR groups
+export async function evaluateTriggerExpression(
+  expression: TriggerExpression,
+  evaluateCondition: (condition: TriggerCondition) => Promise<boolean>
+): Promise<boolean> {
+  if (!isConditionGroup(expression)) {
+    return evaluateCondition({ type: expression.type, params: expression.params || {} });
+  }
+
+  switch (expression.operator) {
+    case "AND":
+      for (const condition of expression.conditions) {
+        if (!(await evaluateTriggerExpression(condition, evaluateCondition))) {
+          return false;
+        }
+      }
+      return true;
+
+    case "OR":
+      for (const condition of expression.conditions) {
+        if (await evaluateTriggerExpression(condition, evaluateCondition)) {
+          return true;
+        }
+      }
+      return false;
+
+    case "NOT":
+      return !(await evaluateTriggerExpression(expression.conditions[0], evaluateCondition));
+
+    default:
+      return false;
+  }
+}
+
+// Human-readable rendering, e.g. `(MOOD_BELOW_THRESHOLD OR NOT JOURNAL_CREATED)`
+export function describeTriggerExpression(
+  expression: TriggerExpression,
+  describeCondition: (condition: TriggerCondition) => string = (condition) => condition.type
+): string {
+  if (!isConditionGroup(expression)) {
+    return describeCondition(expression);
+  }
+
+  if (expression.operator === "NOT") {
+    return `NOT ${describeTriggerExpression(expression.conditions[0], describeCondition)}`;
+  }
+
+  const parts = expression.conditions.map((condition) => describeTriggerExpression(condition, describeCondition));
+  return `(${parts.join(` ${expression.operator} `)})`;
+}
@@ -0,0 +1,241 @@
+import crypto from "crypto";
+import dns from "dns";
+import net from "net";
+
+// Outbound HTTP for automation actions: signed webhooks and connector calls.
+// Every call produces an HttpExchange that is stored in the run's trace.
+
+const DEFAULT_TIMEOUT_MS = 10 * 1000;
+const MAX_RECORDED_BODY_LENGTH = 4000;
+const REDACTED_HEADERS = new Set(["authorization", "cookie", "x-api-key"]);
+
+export const SIGNATURE_HEADER = "X-Automation-Signature";
+
+// Webhook URLs are user-supplied, so they must not reach the server's own
+// network: loopback, private, link-local (cloud metadata), CGNAT and multicast
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export interface HttpRequestSpec {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: any;
+}
+
+export interface HttpExchange {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: any;
+  };
+  response?: {
+    status: number;
+    ok: boolean;
+    body: any;
+  };
+  durationMs: number;
+}
+
+// Carries the exchange so failed calls still show up in the trace
+export class HttpRequestError extends Error {
+  constructor(message: string, public exchange: HttpExchange) {
+    super(message);
+    this.name = "HttpRequestError";
+  }
+}
+
+// Stripe-style signature: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+// Receivers should recompute it and reject stale timestamps.
+export function signWebhookPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const digest = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  signature: string,
+  toleranceSeconds = 300,
+  now = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = Object.fromEntries(signature.split(",").map((part) => part.split("=") as [string, string]));
+  const timestamp = Number(parts.t);
+
+  if (!Number.isFinite(timestamp) || !parts.v1 || Math.abs(now - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = signWebhookPayload(secret, body, timestamp).split("v1=")[1];
+  return expected.length === parts.v1.length && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(parts.v1));
+}
+
+export function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as the IPv4 address it wraps
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return isPublicAddress(mapped[1]);
+  }
+
+  if (net.isIPv4(address)) {
+    return !BLOCKED_ADDRESSES.check(address, "ipv4");
+  }
+  if (net.isIPv6(address)) {
+    return !BLOCKED_ADDRESSES.check(address, "ipv6");
+  }
+  return false;
+}
+
+const urlHost = (url: URL) => url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+
+// Cheap check for saving a routine; hostnames are resolved when the webhook is sent
+export function isAllowedWebhookUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    const host = urlHost(parsed);
+
+    if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+      return false;
+    }
+    if (host === "localhost" || host.endsWith(".localhost")) {
+      return false;
+    }
+    return net.isIP(host) === 0 || isPublicAddress(host);
+  } catch {
+    return false;
+  }
+}
+
+// Rejects hosts that resolve to any non-public address
+export async function assertPublicHost(url: string): Promise<void> {
+  const host = urlHost(new URL(url));
+  const addresses = net.isIP(host) ? [{ address: host }] : await dns.promises.lookup(host, { all: true });
+  const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+
+  if (addresses.length === 0 || blocked) {
+    throw new Error(`${host} resolves to a non-public address${blocked ? ` (${blocked.address})` : ""}`);
+  }
+}
+
+// In a dry run the request is recorded but not sent. `publicOnly` is for
+// user-supplied URLs: the host must resolve to public addresses and redirects
+// aren't followed, so they can't bounce the request back inside.
+export async function sendHttpRequest(
+  spec: HttpRequestSpec,
+  options: { dryRun?: boolean; timeoutMs?: number; publicOnly?: boolean } = {}
+): Promise<HttpExchange> {
+  const headers: Record<string, string> = { ...(spec.headers || {}) };
+  let body: string | undefined;
+
+  if (spec.body !== undefined) {
+    body = typeof spec.body === "string" ? spec.body : JSON.stringify(spec.body);
+    if (!Object.keys(headers).some((key) => key.toLowerCase() === "content-type")) {
+      headers["Content-Type"] = "application/json";
+    }
+  }
+
+  const exchange: HttpExchange = {
+    request: {
+      method: spec.method,
+      url: spec.url,
+      headers: redactHeaders(headers),
+      body: spec.body,
+    },
+    durationMs: 0,
+  };
+
+  if (options.dryRun) {
+    return exchange;
+  }
+
+  if (options.publicOnly) {
+    try {
+      await assertPublicHost(spec.url);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new HttpRequestError(`${spec.method} ${spec.url} blocked: ${reason}`, exchange);
+    }
+  }
+
+  const controller = new AbortController();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const startedAt = Date.now();
+
+  try {
+    const response = await fetch(spec.url, {
+      method: spec.method,
+      headers,
+      body,
+      signal: controller.signal,
+      redirect: options.publicOnly ? "manual" : "follow",
+    });
+
+    exchange.response = {
+      status: response.status,
+      ok: response.ok,
+      body: parseResponseBody(await response.text()),
+    };
+  } catch (error) {
+    exchange.durationMs = Date.now() - startedAt;
+    const message = controller.signal.aborted
+      ? `${spec.method} ${spec.url} timed out after ${timeoutMs}ms`
+      : `${spec.method} ${spec.url} failed: ${error instanceof Error ? error.message : String(error)}`;
+    throw new HttpRequestError(message, exchange);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  exchange.durationMs = Date.now() - startedAt;
+
+  if (!exchange.response.ok) {
+    throw new HttpRequestError(`${spec.method} ${spec.url} returned ${exchange.response.status}`, exchange);
+  }
+
+  return exchange;
+}
+
+function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers)) {
+    redacted[key] = REDACTED_HEADERS.has(key.toLowerCase()) ? "[redacted]" : value;
+  }
+  return redacted;
+}
+
+function parseResponseBody(text: string): any {
+  // Large bodies are kept as a truncated string so logs stay small
+  if (text.length > MAX_RECORDED_BODY_LENGTH) {
+    return `${text.substring(0, MAX_RECORDED_BODY_LENGTH)}... [truncated]`;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
@@ -0,0 +1,688 @@
+// Course import from interchange packages: SCORM 1.2 and IMS Common
+// Cartridge zips (read through imsmanifest.xml), and folders of Markdown
+// files so course content can be versioned in git. Everything is mapped onto
+// the LMS's Course -> Module -> Lesson/Assessment structure; SCORM runtime
+// behaviour (JavaScript, tracking) is not carried over, only the content.
+
+import { readZip } from "../zip";
+import { parseXml, xmlAttribute, xmlChild, xmlChildren, xmlDescendants, xmlText } from "../xml";
+import type { XmlElement } from "../xml";
+import { htmlToText } from "../growth/flashcard-formats";
+import type { Assessment, Course, CourseDraft, LearningMaterial, Lesson, Module, Question } from "./lms-system";
+
+export type CoursePackageFormat = "scorm" | "imscc" | "markdown";
+
+export interface ImportedCourse {
+  format: CoursePackageFormat;
+  course: CourseDraft;
+  warnings: string[];
+}
+
+export class CoursePackageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CoursePackageError";
+  }
+}
+
+const DEFAULT_QUESTION_POINTS = 10;
+const DEFAULT_PASSING_SCORE = 70;
+const DEFAULT_ASSESSMENT_MINUTES = 10;
+const WORDS_PER_MINUTE = 200;
+
+const LEVELS: Course["level"][] = ["beginner", "intermediate", "advanced", "expert"];
+const GRADE_LEVELS: NonNullable<Course["gradeLevel"]>[] = ["kindergarten", "elementary", "middle", "high", "college", "graduate"];
+const LESSON_TYPES: Lesson["type"][] = ["lecture", "interactive", "hands-on", "discussion", "quiz"];
+const ASSESSMENT_TYPES: Assessment["type"][] = ["quiz", "assignment", "project", "exam"];
+
+// --- Shared helpers ---
+
+const readingMinutes = (text: string) =>
+  Math.max(5, Math.round(text.split(/\s+/).filter(Boolean).length / WORDS_PER_MINUTE));
+
+const isHtml = (path: string) => /\.x?html?$/i.test(path);
+
+const baseName = (path: string) => path.slice(path.lastIndexOf("/") + 1);
+
+const directoryOf = (path: string) => path.slice(0, path.lastIndexOf("/") + 1);
+
+// "02-loops_and-conditions.md" -> "Loops and conditions"
+function titleFromFileName(path: string): string {
+  const name = baseName(path.replace(/\/$/, ""))
+    .replace(/\.[^.]+$/, "")
+    .replace(/\.(quiz|exam|assignment|project)$/i, "")
+    .replace(/^\d+[-_. ]*/, "")
+    .replace(/[-_]+/g, " ")
+    .trim();
+  return name ? name[0].toUpperCase() + name.slice(1) : "Untitled";
+}
+
+// Resolves an href against a directory inside the package
+function resolvePath(directory: string, href: string): string {
+  const parts: string[] = [];
+  const clean = decodeURIComponent(href.replace(/[?#].*$/, ""));
+  for (const segment of (clean.startsWith("/") ? clean.slice(1) : directory + clean).split("/")) {
+    if (segment === "..") {
+      parts.pop();
+    } else if (segment && segment !== ".") {
+      parts.push(segment);
+    }
+  }
+  return parts.join("/");
+}
+
+// Visible text of an HTML page; scripts, styles and the head are dropped
+function pageText(html: string): string {
+  const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+  return htmlToText(body.replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, ""));
+}
+
+function materialType(url: string): LearningMaterial["type"] {
+  if (/youtube\.com|youtu\.be|vimeo\.com|\.(mp4|webm|mov|m4v)(\?|$)/i.test(url)) {
+    return "video";
+  }
+  if (/\.(mp3|ogg|wav|m4a)(\?|$)/i.test(url)) {
+    return "audio";
+  }
+  if (/\.(png|jpe?g|gif|svg|webp)(\?|$)/i.test(url)) {
+    return "image";
+  }
+  return "document";
+}
+
+function newModule(title: string, description = ""): Module {
+  return { id: "", title, description, lessons: [], assessments: [], order: 0, estimatedDuration: 0 };
+}
+
+// Numbers modules, lessons and assessments in order and adds up durations
+function finishCourse(course: Omit<CourseDraft, "estimatedDuration">): CourseDraft {
+  const modules = course.modules
+    .filter((module) => module.lessons.length > 0 || module.assessments.length > 0)
+    .map((module, index) => ({
+      ...module,
+      order: index + 1,
+      lessons: module.lessons.map((lesson, i) => ({ ...lesson, order: i + 1 })),
+      assessments: module.assessments.map((assessment, i) => ({ ...assessment, order: i + 1 })),
+      estimatedDuration:
+        module.lessons.reduce((sum, lesson) => sum + lesson.duration, 0) +
+        module.assessments.reduce((sum, assessment) => sum + (assessment.timeLimit ?? DEFAULT_ASSESSMENT_MINUTES), 0),
+    }));
+  const minutes = modules.reduce((sum, module) => sum + module.estimatedDuration, 0);
+  return { ...course, modules, estimatedDuration: Math.max(1, Math.round(minutes / 60)) };
+}
+
+// --- QTI 1.2 (Common Cartridge assessments and question banks) ---
+
+function qtiMetadata(element: XmlElement | undefined): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const field of xmlDescendants(xmlChild(element, "qtimetadata"), "qtimetadatafield")) {
+    fields[xmlText(xmlChild(field, "fieldlabel"))] = xmlText(xmlChild(field, "fieldentry"));
+  }
+  return fields;
+}
+
+function qtiMaterialText(element: XmlElement | undefined): string {
+  return xmlDescendants(element, "mattext")
+    .map((mattext) => {
+      const text = xmlText(mattext);
+      return /html/i.test(xmlAttribute(mattext, "texttype") ?? "") || /<[a-z][^>]*>/i.test(text) ? htmlToText(text) : text;
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Response idents that score: varequal conditions under a respcondition that
+// sets a positive score, leaving out any negated with <not>
+function qtiCorrectResponses(item: XmlElement): string[] {
+  const positive = (element: XmlElement): string[] =>
+    element.localName === "not"
+      ? []
+      : [...(element.localName === "varequal" ? [xmlText(element)] : []), ...element.children.flatMap(positive)];
+
+  const values: string[] = [];
+  for (const condition of xmlDescendants(xmlChild(item, "resprocessing"), "respcondition")) {
+    const score = Number(xmlText(xmlChild(condition, "setvar")));
+    const conditionvar = xmlChild(condition, "conditionvar");
+    if (score > 0 && conditionvar) {
+      values.push(...positive(conditionvar));
+    }
+  }
+  return Array.from(new Set(values));
+}
+
+export interface QtiAssessment {
+  title: string;
+  type: Assessment["type"];
+  timeLimit?: number;
+  questions: Question[];
+  skipped: number; // Items of a kind the LMS can't grade
+}
+
+export function parseQti(xml: string): QtiAssessment {
+  const root = parseXml(xml);
+  const container = xmlChild(root, "assessment") ?? xmlChild(root, "objectbank");
+  if (!container) {
+    throw new CoursePackageError("QTI file has no assessment or question bank");
+  }
+  const meta = qtiMetadata(container);
+  const profile = meta.cc_profile ?? "";
+  const timeLimit = Number(meta.qmd_timelimit);
+
+  const questions: Question[] = [];
+  let skipped = 0;
+  for (const item of xmlDescendants(container, "item")) {
+    const itemMeta = qtiMetadata(xmlChild(item, "itemmetadata"));
+    const kind = (itemMeta.cc_profile ?? itemMeta.question_type ?? "").replace(/^cc\.|\.v\d+p\d+$/g, "");
+    const presentation = xmlChild(item, "presentation");
+    const prompt = qtiMaterialText(xmlChild(presentation, "material")) || qtiMaterialText(presentation);
+    const labels = xmlDescendants(presentation, "response_label").map((label) => ({
+      ident: xmlAttribute(label, "ident") ?? "",
+      text: qtiMaterialText(label),
+    }));
+    const correct = qtiCorrectResponses(item);
+    const correctOptions = labels.filter((label) => correct.includes(label.ident)).map((label) => label.text);
+    const feedback = xmlChildren(item, "itemfeedback").map(qtiMaterialText).filter(Boolean).join("\n");
+    const weighting = Number(itemMeta.cc_weighting ?? itemMeta.qmd_weighting ?? itemMeta.points_possible);
+    const base = {
+      id: `q${questions.length + 1}`,
+      question: prompt,
+      explanation: feedback || undefined,
+      points: weighting > 0 ? weighting : DEFAULT_QUESTION_POINTS,
+    };
+
+    if (!prompt) {
+      skipped++;
+    } else if ((kind === "multiple_choice" || kind === "true_false" || kind === "multiple_choice_question" || kind === "true_false_question") && correctOptions.length > 0) {
+      questions.push({
+        ...base,
+        type: kind.startsWith("true_false") ? "true-false" : "multiple-choice",
+        options: labels.map((label) => label.text),
+        correctAnswer: correctOptions[0],
+      });
+    } else if ((kind === "multiple_response" || kind === "multiple_answers_question") && correctOptions.length > 0) {
+      questions.push({ ...base, type: "multiple-choice", options: labels.map((label) => label.text), correctAnswer: correctOptions });
+    } else if ((kind === "fib" || kind === "short_answer_question") && correct.length > 0) {
+      questions.push({ ...base, type: "fill-blank", correctAnswer: correct[0] });
+    } else if (kind === "pattern_match" && correct.length > 0) {
+      questions.push({ ...base, type: "short-answer", correctAnswer: correct[0] });
+    } else if (kind === "essay" || kind === "essay_question") {
+      // Essays need a person to mark them, so they carry no automatic points
+      questions.push({ ...base, type: "essay", correctAnswer: "", points: 0 });
+    } else {
+      skipped++;
+    }
+  }
+
+  return {
+    title: xmlAttribute(container, "title") || meta.bank_title || "",
+    type: /exam/.test(profile) ? "exam" : "quiz",
+    timeLimit: timeLimit > 0 ? timeLimit : undefined,
+    questions,
+    skipped,
+  };
+}
+
+// --- IMS manifest (SCORM 1.2 and Common Cartridge) ---
+
+interface ManifestResource {
+  type: string;
+  scormType: string;
+  href: string; // Resolved path inside the package, or ""
+  files: string[];
+}
+
+function parseManifest(files: Map<string, Buffer>, manifestPath: string): ImportedCourse {
+  const manifest = parseXml(files.get(manifestPath)!.toString("utf8"));
+  const warnings: string[] = [];
+  const schema = xmlText(xmlChild(xmlChild(manifest, "metadata"), "schema"));
+  const format: CoursePackageFormat =
+    /common cartridge/i.test(schema) || Object.values(manifest.attributes).some((value) => /imsccv1p|imscp_v1p1.*cc/i.test(value))
+      ? "imscc"
+      : "scorm";
+
+  const root = directoryOf(manifestPath) + (xmlAttribute(manifest, "base") ?? "");
+  const resourcesElement = xmlChild(manifest, "resources");
+  const resourcesBase = resolvePath(root, xmlAttribute(resourcesElement, "base") ?? "");
+  const resources = new Map<string, ManifestResource>();
+  for (const resource of xmlChildren(resourcesElement, "resource")) {
+    const base = resolvePath(resourcesBase ? `${resourcesBase}/` : root, xmlAttribute(resource, "base") ?? "");
+    const directory = base ? `${base}/` : "";
+    const href = xmlAttribute(resource, "href");
+    resources.set(xmlAttribute(resource, "identifier") ?? "", {
+      type: xmlAttribute(resource, "type") ?? "",
+      scormType: (xmlAttribute(resource, "scormtype") ?? xmlAttribute(resource, "scormType") ?? "").toLowerCase(),
+      href: href ? resolvePath(directory, href) : "",
+      files: xmlChildren(resource, "file").map((file) => resolvePath(directory, xmlAttribute(file, "href") ?? "")),
+    });
+  }
+
+  const lom = xmlDescendants(xmlChild(manifest, "metadata"), "general")[0];
+  const lomString = (name: string) => xmlText(xmlDescendants(xmlChild(lom, name), "string")[0] ?? xmlDescendants(xmlChild(lom, name), "langstring")[0]);
+  const organizations = xmlChild(manifest, "organizations");
+  const organization =
+    xmlChildren(organizations, "organization").find((org) => xmlAttribute(org, "identifier") === xmlAttribute(organizations, "default")) ??
+    xmlChild(organizations, "organization");
+  const title = xmlText(xmlChild(organization, "title")) || lomString("title") || "Imported course";
+
+  const packageText = (path: string) => files.get(path)?.toString("utf8");
+  const referenced = new Set<string>();
+  let scormActivities = 0;
+
+  // One organization item becomes a lesson or an assessment
+  const addItem = (module: Module, item: XmlElement) => {
+    const ref = xmlAttribute(item, "identifierref");
+    const resource = ref ? resources.get(ref) : undefined;
+    const itemTitle = xmlText(xmlChild(item, "title")) || "Untitled";
+    if (!ref) {
+      return; // A heading without content
+    }
+    if (!resource) {
+      warnings.push(`Skipped "${itemTitle}": resource ${ref} is missing from the manifest`);
+      return;
+    }
+    referenced.add(ref);
+    const descriptor = resource.files[0] ?? resource.href;
+
+    if (/qti/i.test(resource.type) && /assessment/i.test(resource.type)) {
+      const xml = packageText(descriptor);
+      if (!xml) {
+        warnings.push(`Skipped "${itemTitle}": ${descriptor} is missing from the package`);
+        return;
+      }
+      const qti = parseQti(xml);
+      if (qti.skipped > 0) {
+        warnings.push(`"${itemTitle}": skipped ${qti.skipped} question(s) of an unsupported type`);
+      }
+      module.assessments.push({
+        id: "",
+        title: itemTitle,
+        type: qti.type,
+        questions: qti.questions,
+        timeLimit: qti.timeLimit,
+        passingScore: DEFAULT_PASSING_SCORE,
+        order: 0,
+      });
+      return;
+    }
+
+    const lesson: Lesson = { id: "", title: itemTitle, content: "", type: "lecture", materials: [], objectives: [], duration: 0, order: 0 };
+    const described = /imswl|imsdt|basiclti/i.test(resource.type);
+    if (described && !packageText(descriptor)) {
+      warnings.push(`Skipped "${itemTitle}": ${descriptor || "its descriptor"} is missing from the package`);
+      return;
+    }
+    if (/imswl/i.test(resource.type)) {
+      const link = parseXml(packageText(descriptor) ?? "<webLink/>");
+      const url = xmlAttribute(xmlChild(link, "url"), "href") ?? "";
+      lesson.content = url;
+      lesson.materials.push({ id: "m1", type: materialType(url), title: xmlText(xmlChild(link, "title")) || itemTitle, content: "", url });
+    } else if (/imsdt/i.test(resource.type)) {
+      const topic = parseXml(packageText(descriptor) ?? "<topic/>");
+      lesson.type = "discussion";
+      lesson.content = htmlToText(xmlText(xmlChild(topic, "text")));
+    } else if (/basiclti/i.test(resource.type)) {
+      const lti = parseXml(packageText(descriptor) ?? "<cartridge_basiclti_link/>");
+      const url = xmlText(xmlChild(lti, "secure_launch_url")) || xmlText(xmlChild(lti, "launch_url"));
+      lesson.type = "interactive";
+      lesson.content = xmlText(xmlChild(lti, "description"));
+      lesson.materials.push({ id: "m1", type: "interactive", title: xmlText(xmlChild(lti, "title")) || itemTitle, content: "External tool (LTI)", url });
+    } else if (/webcontent|sco|asset/i.test(resource.type + resource.scormType) && resource.href) {
+      const html = isHtml(resource.href) ? packageText(resource.href) : undefined;
+      lesson.content = html ? pageText(html) : "";
+      if (resource.scormType === "sco") {
+        lesson.type = "interactive";
+        scormActivities++;
+      }
+      if (!html) {
+        lesson.materials.push({ id: "m1", type: materialType(resource.href), title: baseName(resource.href), content: `Packaged file: ${resource.href}` });
+      }
+    } else {
+      warnings.push(`Skipped "${itemTitle}": unsupported resource type ${resource.type || "(none)"}`);
+      return;
+    }
+    lesson.duration = readingMinutes(lesson.content);
+    module.lessons.push(lesson);
+  };
+
+  // Cartridges wrap everything in one untitled root item
+  let items = xmlChildren(organization, "item");
+  while (items.length === 1 && !xmlAttribute(items[0], "identifierref") && !xmlText(xmlChild(items[0], "title"))) {
+    items = xmlChildren(items[0], "item");
+  }
+
+  // Items with children become modules, flattening anything nested deeper;
+  // runs of top-level leaves go into a module named after the course
+  const modules: Module[] = [];
+  const leaves = (item: XmlElement): XmlElement[] => {
+    const children = xmlChildren(item, "item");
+    return children.length === 0 ? [item] : [item, ...children.flatMap(leaves)];
+  };
+  let loose: Module | null = null;
+  for (const item of items) {
+    if (xmlChildren(item, "item").length > 0) {
+      loose = null;
+      const courseModule = newModule(xmlText(xmlChild(item, "title")) || "Untitled module");
+      leaves(item).forEach((leaf) => addItem(courseModule, leaf));
+      modules.push(courseModule);
+    } else {
+      if (!loose) {
+        loose = newModule(title);
+        modules.push(loose);
+      }
+      addItem(loose, item);
+    }
+  }
+
+  // Question banks aren't placed in the organization but are worth keeping
+  const banks = newModule("Question banks", "Questions imported from the cartridge's question banks");
+  for (const [identifier, resource] of Array.from(resources.entries())) {
+    const xml = !referenced.has(identifier) && /question-bank/i.test(resource.type) ? packageText(resource.files[0] ?? resource.href) : undefined;
+    if (xml) {
+      const qti = parseQti(xml);
+      banks.assessments.push({
+        id: "",
+        title: qti.title || identifier,
+        type: "quiz",
+        questions: qti.questions,
+        passingScore: DEFAULT_PASSING_SCORE,
+        order: 0,
+      });
+    }
+  }
+  modules.push(banks);
+
+  if (scormActivities > 0) {
+    warnings.push(`${scormActivities} SCORM activit${scormActivities === 1 ? "y was" : "ies were"} imported as text; interactive parts and tracking need the original package`);
+  }
+
+  const course = finishCourse({
+    title,
+    description: lomString("description"),
+    subject: "General",
+    level: "beginner",
+    modules,
+    prerequisites: [],
+    difficulty: 5,
+    tags: ["imported", format],
+  });
+  if (course.modules.length === 0) {
+    throw new CoursePackageError("The package has no lessons or assessments that could be imported");
+  }
+  return { format, course, warnings };
+}
+
+// --- Markdown folders ---
+
+export interface FrontMatter {
+  data: Record<string, string | string[]>;
+  body: string;
+}
+
+const unquote = (value: string) => value.trim().replace(/^(["'])(.*)\1$/, "$2");
+
+// YAML front matter between "---" lines; supports scalars, [a, b] lists and
+// "- item" lists, which covers what course files need
+export function parseFrontMatter(text: string): FrontMatter {
+  const match = text.replace(/^\uFEFF/, "").match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) {
+    return { data: {}, body: text };
+  }
+
+  const data: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s+-\s+(.*)$/) ?? line.match(/^-\s+(.*)$/);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+    const pair = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!pair) {
+      continue;
+    }
+    const [, key, value] = pair;
+    listKey = null;
+    if (value.trim() === "") {
+      data[key] = [];
+      listKey = key;
+    } else if (/^\[.*\]$/.test(value.trim())) {
+      data[key] = value.trim().slice(1, -1).split(",").map(unquote).filter(Boolean);
+    } else {
+      data[key] = unquote(value);
+    }
+  }
+  return { data, body: text.slice(match[0].length) };
+}
+
+const scalar = (value: string | string[] | undefined) => (Array.isArray(value) ? value.join(", ") : value ?? "");
+
+const list = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value : value ? value.split(",").map((part) => part.trim()).filter(Boolean) : [];
+
+const positiveNumber = (value: string | string[] | undefined) => {
+  const number = Number(scalar(value));
+  return number > 0 ? number : undefined;
+};
+
+// Title from front matter, else a leading "# Heading" (removed from the body)
+function titled(file: FrontMatter, fallback: string): { title: string; body: string } {
+  const heading = file.body.match(/^\s*#\s+(.+)\r?\n?/);
+  if (scalar(file.data.title)) {
+    return { title: scalar(file.data.title), body: file.body.trim() };
+  }
+  return heading
+    ? { title: heading[1].trim(), body: file.body.slice(heading[0].length).trim() }
+    : { title: fallback, body: file.body.trim() };
+}
+
+// Absolute links and images in a lesson are listed as its materials
+function markdownMaterials(markdown: string): LearningMaterial[] {
+  const materials: LearningMaterial[] = [];
+  for (const [, image, label, url] of Array.from(markdown.matchAll(/(!?)\[([^\]]*)\]\((https?:\/\/[^\s)]+)[^)]*\)/g))) {
+    if (!materials.some((material) => material.url === url)) {
+      materials.push({
+        id: `m${materials.length + 1}`,
+        type: image ? "image" : materialType(url),
+        title: label || url,
+        content: "",
+        url,
+      });
+    }
+  }
+  return materials;
+}
+
+function markdownLesson(path: string, text: string): Lesson {
+  const file = parseFrontMatter(text);
+  const { title, body } = titled(file, titleFromFileName(path));
+  const type = scalar(file.data.type) as Lesson["type"];
+  return {
+    id: "",
+    title,
+    content: body,
+    type: LESSON_TYPES.includes(type) ? type : "lecture",
+    materials: markdownMaterials(body),
+    objectives: list(file.data.objectives),
+    duration: positiveNumber(file.data.duration) ?? readingMinutes(body),
+    order: 0,
+  };
+}
+
+// "## Question" blocks with "- [x]" options, an "Answer:" line, or neither
+// (an essay); "> " lines explain the answer and "Points: n" sets the weight
+export function markdownAssessment(path: string, text: string): { assessment: Assessment; warnings: string[] } {
+  const file = parseFrontMatter(text);
+  const { title, body } = titled(file, titleFromFileName(path));
+  const warnings: string[] = [];
+  const questions: Question[] = [];
+
+  for (const block of body.split(/^##\s+/m).slice(1)) {
+    const [heading, ...lines] = block.split(/\r?\n/);
+    const prompt: string[] = [heading.trim()];
+    const options: { text: string; correct: boolean }[] = [];
+    const explanation: string[] = [];
+    let answer: string | undefined;
+    let points = DEFAULT_QUESTION_POINTS;
+
+    for (const line of lines) {
+      const option = line.match(/^\s*[-*]\s+\[([ xX])\]\s+(.+)$/);
+      const answerLine = line.match(/^\s*answer\s*:\s*(.+)$/i);
+      const pointsLine = line.match(/^\s*points\s*:\s*(\d+)\s*$/i);
+      if (option) {
+        options.push({ text: option[2].trim(), correct: option[1] !== " " });
+      } else if (answerLine) {
+        answer ??= answerLine[1].trim();
+      } else if (pointsLine) {
+        points = Number(pointsLine[1]);
+      } else if (/^\s*>/.test(line)) {
+        explanation.push(line.replace(/^\s*>\s?/, ""));
+      } else if (line.trim() && options.length === 0) {
+        prompt.push(line.trim());
+      }
+    }
+
+    const base = {
+      id: `q${questions.length + 1}`,
+      question: prompt.join("\n"),
+      explanation: explanation.join("\n").trim() || undefined,
+      points,
+    };
+    const correct = options.filter((option) => option.correct).map((option) => option.text);
+    if (options.length > 0) {
+      if (correct.length === 0) {
+        warnings.push(`${path}: "${heading.trim()}" has no option marked [x] and was skipped`);
+        continue;
+      }
+      const trueFalse = options.length === 2 && options.every((option) => /^(true|false)$/i.test(option.text));
+      questions.push({
+        ...base,
+        type: trueFalse ? "true-false" : "multiple-choice",
+        options: options.map((option) => option.text),
+        correctAnswer: correct.length === 1 ? correct[0] : correct,
+      });
+    } else if (answer !== undefined) {
+      questions.push({ ...base, type: /_{3,}/.test(base.question) ? "fill-blank" : "short-answer", correctAnswer: answer });
+    } else {
+      questions.push({ ...base, type: "essay", correctAnswer: "", points: 0 });
+    }
+  }
+
+  const suffix = path.match(/\.(quiz|exam|assignment|project)\.(md|markdown)$/i)?.[1].toLowerCase() as Assessment["type"] | undefined;
+  const type = scalar(file.data.type) as Assessment["type"];
+  return {
+    assessment: {
+      id: "",
+      title,
+      type: ASSESSMENT_TYPES.includes(type) ? type : suffix ?? "quiz",
+      questions,
+      timeLimit: positiveNumber(file.data.timeLimit),
+      passingScore: Math.min(100, positiveNumber(file.data.passingScore) ?? DEFAULT_PASSING_SCORE),
+      order: 0,
+    },
+    warnings,
+  };
+}
+
+const isIndexFile = (name: string) => /^(course|module|index|readme)\.(md|markdown)$/i.test(name);
+const isAssessmentFile = (name: string) => /\.(quiz|exam|assignment|project)\.(md|markdown)$/i.test(name);
+const byName = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+// course.md at the top (front matter: title, subject, level, gradeLevel,
+// difficulty, tags, prerequisites; body: description), one folder per
+// module with an optional module.md, lesson files, and *.quiz.md,
+// *.exam.md, *.assignment.md or *.project.md assessments. Numeric prefixes
+// ("01-intro.md") set the order and are dropped from titles.
+function parseMarkdownFolder(files: Map<string, Buffer>): ImportedCourse {
+  const paths = Array.from(files.keys())
+    .filter((path) => /\.(md|markdown)$/i.test(path))
+    .filter((path) => !path.split("/").some((segment) => segment.startsWith(".") || segment === "__MACOSX"))
+    .sort(byName);
+  if (paths.length === 0) {
+    throw new CoursePackageError("No Markdown files found");
+  }
+
+  // A folder upload (or a zip of one) puts everything under the folder's name
+  const first = paths[0].split("/");
+  const prefix = first.length > 1 && paths.every((path) => path.startsWith(`${first[0]}/`)) ? `${first[0]}/` : "";
+  const text = (path: string) => files.get(path)!.toString("utf8");
+  const warnings: string[] = [];
+
+  const modules = new Map<string, Module>();
+  let courseFile: FrontMatter = { data: {}, body: "" };
+  for (const path of paths) {
+    const relative = path.slice(prefix.length);
+    const segments = relative.split("/");
+    const name = segments[segments.length - 1];
+    const folder = segments.length > 1 ? segments[0] : "";
+
+    if (!folder && isIndexFile(name)) {
+      courseFile = parseFrontMatter(text(path));
+      continue;
+    }
+    if (!modules.has(folder)) {
+      modules.set(folder, newModule(folder ? titleFromFileName(folder) : ""));
+    }
+    const courseModule = modules.get(folder)!;
+
+    if (folder && segments.length === 2 && isIndexFile(name)) {
+      const file = parseFrontMatter(text(path));
+      const { title, body } = titled(file, courseModule.title);
+      courseModule.title = title;
+      courseModule.description = scalar(file.data.description) || body;
+    } else if (isAssessmentFile(name)) {
+      const { assessment, warnings: skipped } = markdownAssessment(relative, text(path));
+      courseModule.assessments.push(assessment);
+      warnings.push(...skipped);
+    } else {
+      courseModule.lessons.push(markdownLesson(relative, text(path)));
+    }
+  }
+
+  const { title, body } = titled(courseFile, prefix ? titleFromFileName(prefix) : "Imported course");
+  const level = scalar(courseFile.data.level) as Course["level"];
+  const gradeLevel = scalar(courseFile.data.gradeLevel) as NonNullable<Course["gradeLevel"]>;
+  const difficulty = positiveNumber(courseFile.data.difficulty);
+  const tags = list(courseFile.data.tags);
+
+  // Files next to course.md form the first module
+  const loose = modules.get("");
+  if (loose) {
+    loose.title = title;
+  }
+
+  return {
+    format: "markdown",
+    course: finishCourse({
+      title,
+      description: scalar(courseFile.data.description) || body,
+      subject: scalar(courseFile.data.subject) || "General",
+      level: LEVELS.includes(level) ? level : "beginner",
+      gradeLevel: GRADE_LEVELS.includes(gradeLevel) ? gradeLevel : undefined,
+      modules: Array.from(modules.values()),
+      prerequisites: list(courseFile.data.prerequisites),
+      difficulty: difficulty ? Math.min(10, Math.round(difficulty)) : 5,
+      tags: tags.length > 0 ? tags : ["imported"],
+    }),
+    warnings,
+  };
+}
+
+// --- Entry points ---
+
+// Files by path, from a zip or a folder upload
+export function parseCoursePackage(files: Map<string, Buffer>): ImportedCourse {
+  const manifest = Array.from(files.keys())
+    .filter((path) => baseName(path).toLowerCase() === "imsmanifest.xml" && !path.includes("__MACOSX"))
+    .sort((a, b) => a.split("/").length - b.split("/").length)[0];
+  if (manifest) {
+    return parseManifest(files, manifest);
+  }
+  if (Array.from(files.keys()).some((path) => /\.(md|markdown)$/i.test(path))) {
+    return parseMarkdownFolder(files);
+  }
+  throw new CoursePackageError("Not a course package: expected an imsmanifest.xml (SCORM, Common Cartridge) or Markdown files");
+}
+
+export function readCoursePackage(zip: Buffer): ImportedCourse {
+  return parseCoursePackage(readZip(zip));
+}
@@ -0,0 +1,80 @@
+import { z } from "zod";
+
+export const CourseFiltersSchema = z.object({
+  subject: z.string().max(100).optional(),
+  level: z.enum(["beginner", "intermediate", "advanced", "expert"]).optional(),
+  gradeLevel: z.enum(["kindergarten", "elementary", "middle", "high", "college", "graduate"]).optional(),
+  tags: z.string().max(500).optional(), // Comma-separated
+  authored: z.enum(["true", "false"]).optional(), // Only courses the user wrote or imported
+});
+
+export const CompleteLessonSchema = z.object({
+  minutesSpent: z.number().int().min(0).max(24 * 60).optional(),
+});
+
+export const SubmitAssessmentSchema = z.object({
+  answers: z.record(z.union([z.string(), z.array(z.string())])),
+});
+
+export const MaterialSchema = z.object({
+  id: z.string().max(100),
+  type: z.enum(["text", "video", "audio", "image", "interactive", "document", "simulation"]),
+  title: z.string().min(1).max(200),
+  content: z.string().max(20000),
+  url: z.string().max(2000).optional(),
+  metadata: z.record(z.any()).optional(),
+});
+
+export const QuestionSchema = z.object({
+  id: z.string().min(1).max(100),
+  type: z.enum(["multiple-choice", "true-false", "short-answer", "essay", "matching", "fill-blank"]),
+  question: z.string().min(1).max(5000),
+  options: z.array(z.string().max(1000)).max(20).optional(),
+  correctAnswer: z.union([z.string().max(1000), z.array(z.string().max(1000)).max(20)]),
+  explanation: z.string().max(5000).optional(),
+  points: z.number().min(0).max(1000),
+});
+
+export const LessonSchema = z.object({
+  id: z.string().max(100), // Empty for a new lesson
+  title: z.string().min(1).max(200),
+  content: z.string().max(200000),
+  type: z.enum(["lecture", "interactive", "hands-on", "discussion", "quiz"]),
+  materials: z.array(MaterialSchema).max(50),
+  objectives: z.array(z.string().max(500)).max(50),
+  duration: z.number().int().min(0).max(24 * 60),
+  order: z.number().int().min(0),
+});
+
+export const AssessmentSchema = z.object({
+  id: z.string().max(100), // Empty for a new assessment
+  title: z.string().min(1).max(200),
+  type: z.enum(["quiz", "assignment", "project", "exam"]),
+  questions: z.array(QuestionSchema).max(500), // The assessment's question bank
+  timeLimit: z.number().int().min(1).max(24 * 60).optional(),
+  passingScore: z.number().min(0).max(100),
+  order: z.number().int().min(0),
+});
+
+export const ModuleSchema = z.object({
+  id: z.string().max(100), // Empty for a new module
+  title: z.string().min(1).max(200),
+  description: z.string().max(5000),
+  lessons: z.array(LessonSchema).max(200),
+  assessments: z.array(AssessmentSchema).max(50),
+  order: z.number().int().min(0),
+  estimatedDuration: z.number().int().min(0),
+});
+
+export const CourseSchema = z.object({
+  title: z.string().min(1).max(200),
+  description: z.string().max(10000),
+  subject: z.string().min(1).max(100),
+  level: z.enum(["beginner", "intermediate", "advanced", "expert"]),
+  gradeLevel: z.enum(["kindergarten", "elementary", "middle", "high", "college", "graduate"]).optional(),
+  modules: z.array(ModuleSchema).max(100),
+  prerequisites: z.array(z.string().max(200)).max(50),
+  estimatedDuration: z.number().min(0).max(10000), // Hours
+  difficulty: z.number().int().min(1).max(10),
+  tags: z.array(z.string().max(100)).max(50),
+});
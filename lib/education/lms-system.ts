@@ -1,3 +1,6 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../database";
+
 export interface Course {
   id: string;
   title: string;
@@ -10,10 +13,15 @@ export interface Course {
   estimatedDuration: number; // in hours
   difficulty: number; // 1-10
   tags: string[];
+  authorId?: string; // Set for courses written or imported by a user
   createdAt: Date;
   updatedAt: Date;
 }
 
+// A course as written in the editor or read from a package. Module, lesson
+// and assessment ids may be empty for items that don't exist yet.
+export type CourseDraft = Omit<Course, "id" | "authorId" | "createdAt" | "updatedAt">;
+
 export interface Module {
   id: string;
   title: string;
@@ -88,16 +96,209 @@ export interface LearningAnalytics {
   recommendations: string[];
 }
 
-export class LMSSystem {
-  private courses: Map<string, Course> = new Map();
-  private studentProgress: Map<string, StudentProgress> = new Map();
-  private analytics: Map<string, LearningAnalytics> = new Map();
+export class LMSNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LMSNotFoundError";
+  }
+}
 
-  constructor() {
-    this.initializeDefaultCourses();
+export class NotEnrolledError extends Error {
+  constructor(message = "Student not enrolled in this course") {
+    super(message);
+    this.name = "NotEnrolledError";
   }
+}
+
+const COURSE_INCLUDE = {
+  modules: {
+    orderBy: { order: "asc" },
+    include: {
+      lessons: { orderBy: { order: "asc" } },
+      assessments: { orderBy: { order: "asc" } },
+    },
+  },
+} as const;
+
+const ENROLLMENT_INCLUDE = {
+  attempts: { orderBy: { submittedAt: "asc" } },
+} as const;
+
+type CourseRow = Prisma.CourseGetPayload<{ include: typeof COURSE_INCLUDE }>;
+type EnrollmentRow = Prisma.CourseEnrollmentGetPayload<{ include: typeof ENROLLMENT_INCLUDE }>;
+
+function toCourse(row: CourseRow): Course {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    subject: row.subject,
+    level: row.level as Course["level"],
+    gradeLevel: (row.gradeLevel ?? undefined) as Course["gradeLevel"],
+    modules: row.modules.map((module) => ({
+      id: module.id,
+      title: module.title,
+      description: module.description,
+      order: module.order,
+      estimatedDuration: module.estimatedDuration,
+      lessons: module.lessons.map((lesson) => ({
+        id: lesson.id,
+        title: lesson.title,
+        content: lesson.content,
+        type: lesson.type as Lesson["type"],
+        materials: lesson.materials as unknown as LearningMaterial[],
+        objectives: lesson.objectives,
+        duration: lesson.duration,
+        order: lesson.order,
+      })),
+      assessments: module.assessments.map((assessment) => ({
+        id: assessment.id,
+        title: assessment.title,
+        type: assessment.type as Assessment["type"],
+        questions: assessment.questions as unknown as Question[],
+        timeLimit: assessment.timeLimit ?? undefined,
+        passingScore: assessment.passingScore,
+        order: assessment.order,
+      })),
+    })),
+    prerequisites: row.prerequisites,
+    estimatedDuration: row.estimatedDuration,
+    difficulty: row.difficulty,
+    tags: row.tags,
+    authorId: row.authorId ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function courseScalars(course: CourseDraft) {
+  return {
+    title: course.title,
+    description: course.description,
+    subject: course.subject,
+    level: course.level,
+    gradeLevel: course.gradeLevel ?? null,
+    prerequisites: course.prerequisites,
+    estimatedDuration: course.estimatedDuration,
+    difficulty: course.difficulty,
+    tags: course.tags,
+  };
+}
+
+function moduleScalars(module: Module) {
+  return {
+    title: module.title,
+    description: module.description,
+    order: module.order,
+    estimatedDuration: module.estimatedDuration,
+  };
+}
+
+function lessonScalars(lesson: Lesson) {
+  return {
+    title: lesson.title,
+    content: lesson.content,
+    type: lesson.type,
+    materials: lesson.materials as unknown as Prisma.InputJsonArray,
+    objectives: lesson.objectives,
+    duration: lesson.duration,
+    order: lesson.order,
+  };
+}
+
+function assessmentScalars(assessment: Assessment) {
+  return {
+    title: assessment.title,
+    type: assessment.type,
+    questions: assessment.questions as unknown as Prisma.InputJsonArray,
+    timeLimit: assessment.timeLimit ?? null,
+    passingScore: assessment.passingScore,
+    order: assessment.order,
+  };
+}
+
+// Nested create for a course with its modules, lessons and assessments.
+// Ids are kept when given (built-in courses use readable slugs).
+function courseCreateData(course: CourseDraft & { id?: string; authorId?: string }): Prisma.CourseCreateInput {
+  return {
+    id: course.id,
+    ...courseScalars(course),
+    ...(course.authorId && { author: { connect: { id: course.authorId } } }),
+    modules: {
+      create: course.modules.map((module) => ({
+        id: module.id || undefined,
+        ...moduleScalars(module),
+        lessons: {
+          create: module.lessons.map((lesson) => ({ id: lesson.id || undefined, ...lessonScalars(lesson) })),
+        },
+        assessments: {
+          create: module.assessments.map((assessment) => ({ id: assessment.id || undefined, ...assessmentScalars(assessment) })),
+        },
+      })),
+    },
+  };
+}
 
-  private initializeDefaultCourses(): void {
+// Grades are each assessment's latest score; an assessment counts as
+// completed once any attempt has passed
+function toProgress(enrollment: EnrollmentRow): StudentProgress {
+  const grades: Record<string, number> = {};
+  const completedAssessments = new Set<string>();
+  for (const attempt of enrollment.attempts) {
+    grades[attempt.assessmentId] = attempt.score;
+    if (attempt.passed) {
+      completedAssessments.add(attempt.assessmentId);
+    }
+  }
+
+  return {
+    userId: enrollment.userId,
+    courseId: enrollment.courseId,
+    completedLessons: enrollment.completedLessons,
+    completedAssessments: Array.from(completedAssessments),
+    currentModule: enrollment.currentModuleId ?? "",
+    currentLesson: enrollment.currentLessonId ?? "",
+    overallProgress: enrollment.overallProgress,
+    grades,
+    timeSpent: enrollment.timeSpent,
+    lastAccessed: enrollment.lastAccessed,
+  };
+}
+
+// Share of the course's lessons and assessments that are done, and the
+// first lesson not yet completed
+function courseProgress(course: Course, completedLessons: string[], completedAssessments: string[]) {
+  const lessons = course.modules.flatMap((module) => module.lessons.map((lesson) => ({ module, lesson })));
+  const assessments = course.modules.flatMap((module) => module.assessments);
+  const total = lessons.length + assessments.length;
+  const done =
+    lessons.filter(({ lesson }) => completedLessons.includes(lesson.id)).length +
+    assessments.filter((assessment) => completedAssessments.includes(assessment.id)).length;
+  const next = lessons.find(({ lesson }) => !completedLessons.includes(lesson.id));
+
+  return {
+    overallProgress: total > 0 ? Math.round((done / total) * 100) : 0,
+    currentModuleId: next?.module.id ?? null,
+    currentLessonId: next?.lesson.id ?? null,
+  };
+}
+
+// Courses, their structure and every student's progress live in the
+// database; the built-in catalogue is seeded on first use
+export class LMSSystem {
+  private defaultCourses: Promise<void> | null = null;
+
+  private ensureDefaultCourses(): Promise<void> {
+    if (!this.defaultCourses) {
+      this.defaultCourses = this.initializeDefaultCourses().catch((error) => {
+        this.defaultCourses = null;
+        throw error;
+      });
+    }
+    return this.defaultCourses;
+  }
+
+  private async initializeDefaultCourses(): Promise<void> {
     // Add some default courses
     const courses: Course[] = [
       this.createMathCourse(),
@@ -107,9 +308,20 @@ export class LMSSystem {
       this.createPhilosophyCourse(),
     ];
 
-    courses.forEach(course => {
-      this.courses.set(course.id, course);
+    const existing = await prisma.course.findMany({
+      where: { id: { in: courses.map((course) => course.id) } },
+      select: { id: true },
     });
+    const seeded = new Set(existing.map((course) => course.id));
+
+    // Never overwrite a built-in course once it exists; it may have been edited
+    for (const course of courses.filter((c) => !seeded.has(c.id))) {
+      await prisma.course.upsert({
+        where: { id: course.id },
+        create: courseCreateData(course),
+        update: {},
+      });
+    }
   }
 
   private createMathCourse(): Course {
@@ -357,85 +569,130 @@ export class LMSSystem {
     level?: string;
     gradeLevel?: string;
     tags?: string[];
+    authorId?: string;
   }): Promise<Course[]> {
-    let courses = Array.from(this.courses.values());
-
-    if (filters) {
-      if (filters.subject) {
-        courses = courses.filter(c => c.subject.toLowerCase().includes(filters.subject!.toLowerCase()));
-      }
-      if (filters.level) {
-        courses = courses.filter(c => c.level === filters.level);
-      }
-      if (filters.gradeLevel) {
-        courses = courses.filter(c => c.gradeLevel === filters.gradeLevel);
-      }
-      if (filters.tags) {
-        courses = courses.filter(c => filters.tags!.some(tag => c.tags.includes(tag)));
-      }
-    }
+    await this.ensureDefaultCourses();
+
+    const rows = await prisma.course.findMany({
+      where: {
+        ...(filters?.subject && { subject: { contains: filters.subject, mode: "insensitive" as const } }),
+        ...(filters?.level && { level: filters.level }),
+        ...(filters?.gradeLevel && { gradeLevel: filters.gradeLevel }),
+        ...(filters?.tags && { tags: { hasSome: filters.tags } }),
+        ...(filters?.authorId && { authorId: filters.authorId }),
+      },
+      include: COURSE_INCLUDE,
+      orderBy: { createdAt: "asc" },
+    });
 
-    return courses;
+    return rows.map(toCourse);
   }
 
   async getCourse(courseId: string): Promise<Course | null> {
-    return this.courses.get(courseId) || null;
+    await this.ensureDefaultCourses();
+
+    const row = await prisma.course.findUnique({
+      where: { id: courseId },
+      include: COURSE_INCLUDE,
+    });
+    return row ? toCourse(row) : null;
   }
 
+  // Enrolling again keeps the existing progress
   async enrollStudent(userId: string, courseId: string): Promise<StudentProgress> {
     const course = await this.getCourse(courseId);
     if (!course) {
-      throw new Error("Course not found");
+      throw new LMSNotFoundError("Course not found");
     }
 
-    const progress: StudentProgress = {
-      userId,
-      courseId,
-      completedLessons: [],
-      completedAssessments: [],
-      currentModule: course.modules[0]?.id || "",
-      currentLesson: course.modules[0]?.lessons[0]?.id || "",
-      overallProgress: 0,
-      grades: {},
-      timeSpent: 0,
-      lastAccessed: new Date(),
-    };
+    const enrollment = await prisma.courseEnrollment.upsert({
+      where: { userId_courseId: { userId, courseId } },
+      create: {
+        userId,
+        courseId,
+        ...courseProgress(course, [], []),
+      },
+      update: { lastAccessed: new Date() },
+      include: ENROLLMENT_INCLUDE,
+    });
 
-    this.studentProgress.set(`${userId}-${courseId}`, progress);
-    return progress;
+    return toProgress(enrollment);
   }
 
   async getStudentProgress(userId: string, courseId: string): Promise<StudentProgress | null> {
-    return this.studentProgress.get(`${userId}-${courseId}`) || null;
+    const enrollment = await prisma.courseEnrollment.findUnique({
+      where: { userId_courseId: { userId, courseId } },
+      include: ENROLLMENT_INCLUDE,
+    });
+    return enrollment ? toProgress(enrollment) : null;
   }
 
-  async updateProgress(userId: string, courseId: string, updates: Partial<StudentProgress>): Promise<StudentProgress> {
+  async getEnrollments(userId: string): Promise<StudentProgress[]> {
+    const enrollments = await prisma.courseEnrollment.findMany({
+      where: { userId },
+      include: ENROLLMENT_INCLUDE,
+      orderBy: { lastAccessed: "desc" },
+    });
+    return enrollments.map(toProgress);
+  }
+
+  // Grades and completed assessments come from assessment attempts, so only
+  // position and time can be set directly
+  async updateProgress(
+    userId: string,
+    courseId: string,
+    updates: Partial<Pick<StudentProgress, "currentModule" | "currentLesson" | "timeSpent">>
+  ): Promise<StudentProgress> {
     const progress = await this.getStudentProgress(userId, courseId);
     if (!progress) {
-      throw new Error("Student not enrolled in this course");
+      throw new NotEnrolledError();
     }
 
-    const updatedProgress = { ...progress, ...updates, lastAccessed: new Date() };
-    this.studentProgress.set(`${userId}-${courseId}`, updatedProgress);
-    return updatedProgress;
+    const enrollment = await prisma.courseEnrollment.update({
+      where: { userId_courseId: { userId, courseId } },
+      data: {
+        currentModuleId: updates.currentModule,
+        currentLessonId: updates.currentLesson,
+        timeSpent: updates.timeSpent,
+        lastAccessed: new Date(),
+      },
+      include: ENROLLMENT_INCLUDE,
+    });
+    return toProgress(enrollment);
   }
 
-  async completeLesson(userId: string, courseId: string, lessonId: string): Promise<void> {
+  // Time spent defaults to the lesson's planned duration, counted once
+  async completeLesson(userId: string, courseId: string, lessonId: string, minutesSpent?: number): Promise<StudentProgress> {
     const progress = await this.getStudentProgress(userId, courseId);
     if (!progress) {
-      throw new Error("Student not enrolled in this course");
+      throw new NotEnrolledError();
     }
 
-    if (!progress.completedLessons.includes(lessonId)) {
-      progress.completedLessons.push(lessonId);
-      await this.updateProgress(userId, courseId, progress);
+    const course = await this.getCourse(courseId);
+    const lesson = course?.modules.flatMap(m => m.lessons).find(l => l.id === lessonId);
+    if (!course || !lesson) {
+      throw new LMSNotFoundError("Lesson not found");
     }
+
+    const firstTime = !progress.completedLessons.includes(lessonId);
+    const completedLessons = firstTime ? [...progress.completedLessons, lessonId] : progress.completedLessons;
+    const enrollment = await prisma.courseEnrollment.update({
+      where: { userId_courseId: { userId, courseId } },
+      data: {
+        completedLessons,
+        ...courseProgress(course, completedLessons, progress.completedAssessments),
+        timeSpent: progress.timeSpent + (minutesSpent ?? (firstTime ? lesson.duration : 0)),
+        lastAccessed: new Date(),
+      },
+      include: ENROLLMENT_INCLUDE,
+    });
+    return toProgress(enrollment);
   }
 
-  async submitAssessment(userId: string, courseId: string, assessmentId: string, answers: Record<string, any>): Promise<{ score: number; feedback: string[] }> {
+  async submitAssessment(userId: string, courseId: string, assessmentId: string, answers: Record<string, any>): Promise<{ score: number; passed: boolean; feedback: string[] }> {
     const course = await this.getCourse(courseId);
     if (!course) {
-      throw new Error("Course not found");
+      throw new LMSNotFoundError("Course not found");
     }
 
     const assessment = course.modules
@@ -443,7 +700,12 @@ export class LMSSystem {
       .find(a => a.id === assessmentId);
 
     if (!assessment) {
-      throw new Error("Assessment not found");
+      throw new LMSNotFoundError("Assessment not found");
+    }
+
+    const progress = await this.getStudentProgress(userId, courseId);
+    if (!progress) {
+      throw new NotEnrolledError();
     }
 
     let totalScore = 0;
@@ -461,20 +723,34 @@ export class LMSSystem {
       }
     }
 
-    const percentageScore = (totalScore / maxScore) * 100;
-
-    // Update progress
-    const progress = await this.getStudentProgress(userId, courseId);
-    if (progress) {
-      progress.grades[assessmentId] = percentageScore;
-      if (percentageScore >= assessment.passingScore) {
-        progress.completedAssessments.push(assessmentId);
-      }
-      await this.updateProgress(userId, courseId, progress);
-    }
+    const percentageScore = maxScore > 0 ? (totalScore / maxScore) * 100 : 0;
+    const passed = percentageScore >= assessment.passingScore;
+
+    // Record the attempt and update progress
+    const completedAssessments = passed && !progress.completedAssessments.includes(assessmentId)
+      ? [...progress.completedAssessments, assessmentId]
+      : progress.completedAssessments;
+    const { overallProgress } = courseProgress(course, progress.completedLessons, completedAssessments);
+
+    await prisma.courseEnrollment.update({
+      where: { userId_courseId: { userId, courseId } },
+      data: {
+        overallProgress,
+        lastAccessed: new Date(),
+        attempts: {
+          create: {
+            assessmentId,
+            answers: answers as Prisma.InputJsonObject,
+            score: percentageScore,
+            passed,
+          },
+        },
+      },
+    });
 
     return {
       score: percentageScore,
+      passed,
       feedback,
     };
   }
@@ -492,23 +768,25 @@ export class LMSSystem {
     courses: Course[];
     reasons: string[];
   }> {
-    const userProgress = Array.from(this.studentProgress.values())
-      .filter(p => p.userId === userId);
+    const courses = await this.getCourses();
+    const userProgress = await this.getEnrollments(userId);
+    const enrolled = new Set(userProgress.map(p => p.courseId));
 
     const completedCourses = userProgress
       .filter(p => p.overallProgress >= 80)
       .map(p => p.courseId);
 
-    const userStrengths = this.analyzeStrengths(userProgress);
+    const userStrengths = this.analyzeStrengths(courses, userProgress);
     const recommendations: Course[] = [];
     const reasons: string[] = [];
 
     // Recommend courses based on completed courses
     for (const courseId of completedCourses) {
-      const course = await this.getCourse(courseId);
+      const course = courses.find(c => c.id === courseId);
       if (course) {
-        const nextLevelCourses = Array.from(this.courses.values())
-          .filter(c => c.subject === course.subject &&
+        const nextLevelCourses = courses
+          .filter(c => !enrolled.has(c.id) &&
+                      c.subject === course.subject &&
                       this.getLevelNumber(c.level) > this.getLevelNumber(course.level));
 
         recommendations.push(...nextLevelCourses.slice(0, 2));
@@ -518,8 +796,9 @@ export class LMSSystem {
 
     // Recommend courses based on strengths
     for (const strength of userStrengths) {
-      const strengthCourses = Array.from(this.courses.values())
-        .filter(c => c.tags.includes(strength) || c.subject.toLowerCase().includes(strength));
+      const strengthCourses = courses
+        .filter(c => !enrolled.has(c.id) &&
+                    (c.tags.includes(strength) || c.subject.toLowerCase().includes(strength)));
 
       recommendations.push(...strengthCourses.slice(0, 2));
       reasons.push(`You excel in ${strength}-related topics. Here are some courses to further develop this skill.`);
@@ -536,17 +815,18 @@ export class LMSSystem {
     };
   }
 
-  private analyzeStrengths(progress: StudentProgress[]): string[] {
+  private analyzeStrengths(courses: Course[], progress: StudentProgress[]): string[] {
     const strengths: string[] = [];
 
     // Analyze high-performing subjects
     const subjectPerformance = new Map<string, number[]>();
 
     for (const p of progress) {
-      const course = this.courses.get(p.courseId);
-      if (course) {
-        const scores = Object.values(p.grades);
-        const avgScore = scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : 0;
+      const course = courses.find(c => c.id === p.courseId);
+      const scores = Object.values(p.grades);
+      // Courses without any graded assessment say nothing about strengths
+      if (course && scores.length > 0) {
+        const avgScore = scores.reduce((a, b) => a + b, 0) / scores.length;
 
         if (!subjectPerformance.has(course.subject)) {
           subjectPerformance.set(course.subject, []);
@@ -555,7 +835,7 @@ export class LMSSystem {
       }
     }
 
-    for (const [subject, scores] of subjectPerformance) {
+    for (const [subject, scores] of Array.from(subjectPerformance.entries())) {
       const avgScore = scores.reduce((a, b) => a + b, 0) / scores.length;
       if (avgScore >= 85) {
         strengths.push(subject.toLowerCase());
@@ -575,24 +855,92 @@ export class LMSSystem {
     return levelMap[level] || 1;
   }
 
-  async createCustomCourse(template: Partial<Course>): Promise<Course> {
-    const course: Course = {
-      id: `custom-${Date.now()}`,
-      title: template.title || "Custom Course",
-      description: template.description || "A custom learning experience",
-      subject: template.subject || "General",
-      level: template.level || "beginner",
-      gradeLevel: template.gradeLevel,
-      modules: template.modules || [],
-      prerequisites: template.prerequisites || [],
-      estimatedDuration: template.estimatedDuration || 10,
-      difficulty: template.difficulty || 5,
-      tags: template.tags || ["custom"],
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+  // Ids in the template are dropped so a copied or imported course never
+  // collides with an existing one
+  async createCustomCourse(template: Partial<Course>, authorId?: string): Promise<Course> {
+    const modules = (template.modules || []).map(module => ({
+      ...module,
+      id: "",
+      lessons: module.lessons.map(lesson => ({ ...lesson, id: "" })),
+      assessments: module.assessments.map(assessment => ({ ...assessment, id: "" })),
+    }));
+
+    const row = await prisma.course.create({
+      data: courseCreateData({
+        title: template.title || "Custom Course",
+        description: template.description || "A custom learning experience",
+        subject: template.subject || "General",
+        level: template.level || "beginner",
+        gradeLevel: template.gradeLevel,
+        modules,
+        prerequisites: template.prerequisites || [],
+        estimatedDuration: template.estimatedDuration || 10,
+        difficulty: template.difficulty || 5,
+        tags: template.tags || ["custom"],
+        authorId,
+      }),
+      include: COURSE_INCLUDE,
+    });
 
-    this.courses.set(course.id, course);
-    return course;
+    return toCourse(row);
+  }
+
+  // Saves an edited course in place. Modules, lessons and assessments keep
+  // their ids so enrollments and attempts survive edits; ones left out are
+  // deleted, and ids that aren't part of this course are treated as new.
+  async updateCourse(courseId: string, draft: CourseDraft): Promise<Course> {
+    const existing = await this.getCourse(courseId);
+    if (!existing) {
+      throw new LMSNotFoundError("Course not found");
+    }
+
+    const moduleIds = new Set(existing.modules.map(m => m.id));
+    const lessonIds = new Set(existing.modules.flatMap(m => m.lessons.map(l => l.id)));
+    const assessmentIds = new Set(existing.modules.flatMap(m => m.assessments.map(a => a.id)));
+    const known = (id: string, ids: Set<string>) => (ids.has(id) ? id : undefined);
+
+    const keptLessons = draft.modules.flatMap(m => m.lessons.map(l => l.id)).filter(id => lessonIds.has(id));
+    const keptAssessments = draft.modules.flatMap(m => m.assessments.map(a => a.id)).filter(id => assessmentIds.has(id));
+
+    await prisma.$transaction(async(tx) => {
+      await tx.courseLesson.deleteMany({ where: { module: { courseId }, id: { notIn: keptLessons } } });
+      await tx.courseAssessment.deleteMany({ where: { module: { courseId }, id: { notIn: keptAssessments } } });
+      await tx.course.update({ where: { id: courseId }, data: courseScalars(draft) });
+
+      const savedModules: string[] = [];
+      for (const courseModule of draft.modules) {
+        const moduleId = known(courseModule.id, moduleIds);
+        const saved = moduleId
+          ? await tx.courseModule.update({ where: { id: moduleId }, data: moduleScalars(courseModule) })
+          : await tx.courseModule.create({ data: { courseId, ...moduleScalars(courseModule) } });
+        savedModules.push(saved.id);
+
+        for (const lesson of courseModule.lessons) {
+          const lessonId = known(lesson.id, lessonIds);
+          const data = { moduleId: saved.id, ...lessonScalars(lesson) };
+          await (lessonId
+            ? tx.courseLesson.update({ where: { id: lessonId }, data })
+            : tx.courseLesson.create({ data }));
+        }
+        for (const assessment of courseModule.assessments) {
+          const assessmentId = known(assessment.id, assessmentIds);
+          const data = { moduleId: saved.id, ...assessmentScalars(assessment) };
+          await (assessmentId
+            ? tx.courseAssessment.update({ where: { id: assessmentId }, data })
+            : tx.courseAssessment.create({ data }));
+        }
+      }
+
+      // Last, so lessons moved out of a removed module aren't deleted with it
+      await tx.courseModule.deleteMany({ where: { courseId, id: { notIn: savedModules } } });
+    }, { timeout: 30000 });
+
+    return (await this.getCourse(courseId))!;
+  }
+
+  async deleteCourse(courseId: string): Promise<void> {
+    await prisma.course.delete({ where: { id: courseId } });
   }
 }
+
+export const lmsSystem = new LMSSystem();
@@ -0,0 +1,58 @@
+import { prisma } from "../database";
+import { loadRateLookup } from "./exchange-rates";
+
+export interface AccountBalance {
+  id: string;
+  name: string;
+  type: string;
+  currency: string;
+  balance: number; // In the account's currency
+  balanceInBase: number | null; // Null when no recent rate is stored
+  rate: number | null;
+  rateDate: Date | null;
+}
+
+// Opening balance plus every transaction on the account, in the account's own
+// currency, and converted to the base currency at the latest stored rate
+export async function getAccountBalances(userId: string, baseCurrency: string, now = new Date()): Promise<AccountBalance[]> {
+  const accounts = await prisma.financialAccount.findMany({
+    where: { userId, archived: false },
+    orderBy: { name: "asc" },
+  });
+
+  if (accounts.length === 0) {
+    return [];
+  }
+
+  const [totals, lookup] = await Promise.all([
+    prisma.transaction.groupBy({
+      by: ["accountId", "type"],
+      where: { userId, accountId: { in: accounts.map((account) => account.id) } },
+      _sum: { amount: true, originalAmount: true },
+    }),
+    loadRateLookup(userId, [baseCurrency, ...accounts.map((account) => account.currency)], now, now),
+  ]);
+
+  return accounts.map((account) => {
+    // Transactions on an account are entered in its currency; originalAmount is only set when that isn't the base
+    const net = totals
+      .filter((row) => row.accountId === account.id)
+      .reduce((sum, row) => {
+        const amount = (account.currency === baseCurrency ? row._sum.amount : row._sum.originalAmount) || 0;
+        return sum + (row.type === "Income" ? amount : -amount);
+      }, 0);
+    const balance = Math.round((account.openingBalance + net) * 100) / 100;
+    const quote = lookup(account.currency, baseCurrency, now);
+
+    return {
+      id: account.id,
+      name: account.name,
+      type: account.type,
+      currency: account.currency,
+      balance,
+      balanceInBase: quote ? Math.round(balance * quote.rate * 100) / 100 : null,
+      rate: quote ? quote.rate : null,
+      rateDate: quote && account.currency !== baseCurrency ? quote.rateDate : null,
+    };
+  });
+}
@@ -0,0 +1,133 @@
+import { prisma } from "../database";
+import { CategoryClassifier, trainCategoryClassifier } from "./category-classifier";
+import { CategorizationInput, CategoryAssignment, categorizeTransaction, compileCategoryRules } from "./categorization";
+
+export const UNCATEGORIZED = "Uncategorized";
+
+// Most recent categorized rows used to train the classifier
+const MAX_TRAINING_EXAMPLES = 5000;
+const RECATEGORIZE_BATCH_SIZE = 500;
+const MAX_REPORTED_CHANGES = 100;
+
+export type Categorizer = (input: CategorizationInput) => CategoryAssignment | null;
+
+export interface RecategorizeOptions {
+  includeManual?: boolean; // Also overwrite categories the user picked
+  dryRun?: boolean;
+}
+
+export interface RecategorizeResult {
+  scanned: number;
+  updated: number;
+  byCategory: Record<string, number>;
+  changes: {
+    id: string;
+    description: string;
+    from: string;
+    to: string;
+    source: CategoryAssignment["source"];
+    confidence: number;
+  }[];
+}
+
+// Load the user's rules and train the classifier once, for categorizing many rows
+export async function loadCategorizer(userId: string): Promise<Categorizer> {
+  const [rules, classifier] = await Promise.all([
+    prisma.categoryRule.findMany({ where: { userId, enabled: true } }),
+    trainUserClassifier(userId),
+  ]);
+
+  const compiled = compileCategoryRules(rules);
+  return (input) => categorizeTransaction(input, compiled, classifier);
+}
+
+// Trained only on categories a person chose (by hand or via their bank), never
+// on earlier guesses, so mistakes don't reinforce themselves
+export async function trainUserClassifier(userId: string): Promise<CategoryClassifier> {
+  const history = await prisma.transaction.findMany({
+    where: {
+      userId,
+      category: { not: UNCATEGORIZED },
+      OR: [{ categorySource: null }, { categorySource: { in: ["user", "import"] } }],
+    },
+    select: { description: true, amount: true, type: true, category: true },
+    orderBy: { date: "desc" },
+    take: MAX_TRAINING_EXAMPLES,
+  });
+
+  return trainCategoryClassifier(history);
+}
+
+export async function recategorizeTransactions(
+  userId: string,
+  options: RecategorizeOptions = {}
+): Promise<RecategorizeResult> {
+  const categorize = await loadCategorizer(userId);
+  const result: RecategorizeResult = { scanned: 0, updated: 0, byCategory: {}, changes: [] };
+
+  // Rows entered before auto-categorization (null source) count as manual
+  const where = options.includeManual
+    ? { userId }
+    : {
+      userId,
+      OR: [
+        { category: UNCATEGORIZED },
+        { categorySource: { in: ["rule", "classifier", "import"] } },
+      ],
+    };
+
+  let cursor: string | undefined;
+
+  for (;;) {
+    const batch = await prisma.transaction.findMany({
+      where,
+      select: { id: true, description: true, amount: true, type: true, category: true, categoryRuleId: true },
+      orderBy: { id: "asc" },
+      take: RECATEGORIZE_BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+
+    if (batch.length === 0) {
+      break;
+    }
+    cursor = batch[batch.length - 1].id;
+    result.scanned += batch.length;
+
+    const updates = [];
+    for (const transaction of batch) {
+      const assignment = categorize(transaction);
+      if (!assignment || (assignment.category === transaction.category && assignment.ruleId === (transaction.categoryRuleId || undefined))) {
+        continue;
+      }
+
+      result.updated++;
+      result.byCategory[assignment.category] = (result.byCategory[assignment.category] || 0) + 1;
+      if (result.changes.length < MAX_REPORTED_CHANGES) {
+        result.changes.push({
+          id: transaction.id,
+          description: transaction.description,
+          from: transaction.category,
+          to: assignment.category,
+          source: assignment.source,
+          confidence: assignment.confidence,
+        });
+      }
+
+      updates.push(prisma.transaction.update({
+        where: { id: transaction.id },
+        data: {
+          category: assignment.category,
+          categorySource: assignment.source,
+          categoryConfidence: assignment.confidence,
+          categoryRuleId: assignment.ruleId || null,
+        },
+      }));
+    }
+
+    if (!options.dryRun && updates.length > 0) {
+      await prisma.$transaction(updates);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,126 @@
+import { prisma } from "../database";
+import { emitAutomationEvent } from "../automation/event-bus";
+import { EnvelopePeriod, buildEnvelopeLedger, getPeriodBounds } from "./budget-periods";
+
+type BudgetRecord = Awaited<ReturnType<typeof prisma.budget.findMany>>[number];
+type BudgetPeriodRecord = Awaited<ReturnType<typeof prisma.budgetPeriod.findMany>>[number];
+
+export interface BudgetEnvelope {
+  budget: BudgetRecord;
+  current: EnvelopePeriod;
+}
+
+// Recompute every envelope's ledger from its transactions and transfers, write
+// changed BudgetPeriod rows and keep Budget.spent at the current period's spend.
+// Emits budget.exceeded the first time a period's envelope goes negative.
+export async function syncBudgetEnvelopes(userId: string, now = new Date()): Promise<BudgetEnvelope[]> {
+  const budgets = await prisma.budget.findMany({
+    where: { userId },
+    include: { periods: true },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (budgets.length === 0) {
+    return [];
+  }
+
+  const earliest = budgets.reduce((min, budget) => {
+    const { start } = getPeriodBounds(budget.period, budget.periodAnchor, budget.periodAnchor);
+    return start < min ? start : min;
+  }, now);
+
+  const [expenses, transfers] = await Promise.all([
+    prisma.transaction.findMany({
+      where: {
+        userId,
+        type: "Expense",
+        category: { in: Array.from(new Set(budgets.map((budget) => budget.category))) },
+        date: { gte: earliest },
+      },
+      select: { date: true, amount: true, category: true },
+    }),
+    prisma.budgetTransfer.findMany({
+      where: { userId, date: { gte: earliest } },
+      select: { date: true, amount: true, fromBudgetId: true, toBudgetId: true },
+    }),
+  ]);
+
+  const envelopes: BudgetEnvelope[] = [];
+
+  for (const { periods, ...budget } of budgets) {
+    const existing = new Map(periods.map((period) => [period.periodStart.getTime(), period]));
+    const allocations = new Map(periods.map((period) => [period.periodStart.getTime(), period.allocated]));
+    const spending = expenses.filter((expense) => expense.category === budget.category);
+    const ledger = buildEnvelopeLedger(budget, spending, transfers, now, allocations);
+    const current = ledger[ledger.length - 1];
+
+    const writes = ledger
+      .filter((period) => hasChanged(existing.get(period.periodStart.getTime()), period))
+      .map((period) => prisma.budgetPeriod.upsert({
+        where: { budgetId_periodStart: { budgetId: budget.id, periodStart: period.periodStart } },
+        create: { budgetId: budget.id, userId, periodStart: period.periodStart, ...toRecord(period) },
+        update: toRecord(period),
+      }));
+
+    if (writes.length > 0) {
+      await prisma.$transaction(writes);
+    }
+    if (budget.spent !== current.spent) {
+      await prisma.budget.update({ where: { id: budget.id }, data: { spent: current.spent } });
+    }
+
+    if (current.closingBalance < 0 && !existing.get(current.periodStart.getTime())?.exceededAt) {
+      await notifyExceeded(userId, budget, current, now);
+    }
+
+    envelopes.push({ budget: { ...budget, spent: current.spent }, current });
+  }
+
+  return envelopes;
+}
+
+function toRecord(period: EnvelopePeriod) {
+  return {
+    periodEnd: period.periodEnd,
+    allocated: period.allocated,
+    carriedIn: period.carriedIn,
+    transfersIn: period.transfersIn,
+    transfersOut: period.transfersOut,
+    spent: period.spent,
+    closingBalance: period.closingBalance,
+    closed: period.closed,
+  };
+}
+
+function hasChanged(stored: BudgetPeriodRecord | undefined, period: EnvelopePeriod): boolean {
+  return !stored ||
+    stored.periodEnd.getTime() !== period.periodEnd.getTime() ||
+    stored.allocated !== period.allocated ||
+    stored.carriedIn !== period.carriedIn ||
+    stored.transfersIn !== period.transfersIn ||
+    stored.transfersOut !== period.transfersOut ||
+    stored.spent !== period.spent ||
+    stored.closingBalance !== period.closingBalance ||
+    stored.closed !== period.closed;
+}
+
+async function notifyExceeded(userId: string, budget: BudgetRecord, period: EnvelopePeriod, now: Date) {
+  // Compare-and-set so concurrent syncs emit once per period
+  const { count } = await prisma.budgetPeriod.updateMany({
+    where: { budgetId: budget.id, periodStart: period.periodStart, exceededAt: null },
+    data: { exceededAt: now },
+  });
+
+  if (count === 1) {
+    emitAutomationEvent("budget.exceeded", userId, {
+      budgetId: budget.id,
+      budgetName: budget.name,
+      category: budget.category,
+      spent: period.spent,
+      available: period.available,
+      overBy: -period.closingBalance,
+      periodStart: period.periodStart,
+      periodEnd: period.periodEnd,
+    });
+  }
+}
@@ -0,0 +1,183 @@
+// Envelope budgeting: each budget is an envelope that is refilled with its
+// amount at the start of every period. What happens to the balance left at the
+// end of a period depends on the rollover mode:
+//   reset          - the next period starts from the budget amount
+//   carry_surplus  - unspent money carries over, overspending is forgiven
+//   carry_deficit  - overspending is taken out of the next period, surplus is dropped
+// Transfers move money between envelopes within a period.
+
+export const BUDGET_PERIODS = ["weekly", "biweekly", "monthly", "quarterly", "yearly"] as const;
+export type BudgetPeriodType = typeof BUDGET_PERIODS[number];
+
+export const ROLLOVER_MODES = ["reset", "carry_surplus", "carry_deficit"] as const;
+export type RolloverMode = typeof ROLLOVER_MODES[number];
+
+// Budgets older than this many periods only keep the most recent ones in the ledger
+export const MAX_LEDGER_PERIODS = 120;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIOD_ALIASES: Record<string, BudgetPeriodType> = {
+  week: "weekly",
+  fortnightly: "biweekly",
+  month: "monthly",
+  quarter: "quarterly",
+  year: "yearly",
+  annual: "yearly",
+  annually: "yearly",
+};
+
+export interface EnvelopeBudget {
+  id: string;
+  amount: number;
+  period: string;
+  rollover: string;
+  periodAnchor: Date;
+}
+
+export interface EnvelopeSpend {
+  date: Date;
+  amount: number;
+}
+
+export interface EnvelopeTransfer {
+  date: Date;
+  amount: number;
+  fromBudgetId: string;
+  toBudgetId: string;
+}
+
+export interface EnvelopePeriod {
+  periodStart: Date;
+  periodEnd: Date; // Exclusive
+  allocated: number;
+  carriedIn: number;
+  transfersIn: number;
+  transfersOut: number;
+  spent: number;
+  available: number; // allocated + carriedIn + transfersIn - transfersOut
+  closingBalance: number; // available - spent
+  closed: boolean;
+}
+
+export function isBudgetPeriod(value: string): value is BudgetPeriodType {
+  return (BUDGET_PERIODS as readonly string[]).includes(value);
+}
+
+export function isRolloverMode(value: string): value is RolloverMode {
+  return (ROLLOVER_MODES as readonly string[]).includes(value);
+}
+
+// Budget.period used to be free text; map what we can and fall back to monthly
+export function normalizeBudgetPeriod(period: string): BudgetPeriodType {
+  const key = period.trim().toLowerCase();
+  if (isBudgetPeriod(key)) {
+    return key;
+  }
+  return PERIOD_ALIASES[key] || "monthly";
+}
+
+// UTC period containing `date`. Weekly and biweekly periods are aligned to the
+// anchor's date; the others follow the calendar.
+export function getPeriodBounds(period: string, anchor: Date, date: Date): { start: Date; end: Date } {
+  const type = normalizeBudgetPeriod(period);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  switch (type) {
+    case "weekly":
+    case "biweekly": {
+      const length = type === "weekly" ? 7 : 14;
+      const anchorDay = Math.floor(anchor.getTime() / DAY_MS);
+      const day = Math.floor(date.getTime() / DAY_MS);
+      const startDay = anchorDay + Math.floor((day - anchorDay) / length) * length;
+      return { start: new Date(startDay * DAY_MS), end: new Date((startDay + length) * DAY_MS) };
+    }
+    case "quarterly": {
+      const quarterStart = month - (month % 3);
+      return { start: new Date(Date.UTC(year, quarterStart, 1)), end: new Date(Date.UTC(year, quarterStart + 3, 1)) };
+    }
+    case "yearly":
+      return { start: new Date(Date.UTC(year, 0, 1)), end: new Date(Date.UTC(year + 1, 0, 1)) };
+    default:
+      return { start: new Date(Date.UTC(year, month, 1)), end: new Date(Date.UTC(year, month + 1, 1)) };
+  }
+}
+
+export function carryForward(mode: string, closingBalance: number): number {
+  switch (mode) {
+    case "carry_surplus":
+      return Math.max(0, closingBalance);
+    case "carry_deficit":
+      return Math.min(0, closingBalance);
+    default:
+      return 0;
+  }
+}
+
+// Every period from the one containing the budget's anchor up to the current
+// one. `allocations` holds the amount already recorded for past periods (keyed
+// by period start time) so editing the budget doesn't rewrite history.
+export function buildEnvelopeLedger(
+  budget: EnvelopeBudget,
+  spending: EnvelopeSpend[],
+  transfers: EnvelopeTransfer[],
+  now: Date,
+  allocations: Map<number, number> = new Map()
+): EnvelopePeriod[] {
+  const current = getPeriodBounds(budget.period, budget.periodAnchor, now);
+  const bounds: { start: Date; end: Date }[] = [current];
+  const first = getPeriodBounds(budget.period, budget.periodAnchor, budget.periodAnchor);
+
+  while (bounds[0].start > first.start && bounds.length < MAX_LEDGER_PERIODS) {
+    bounds.unshift(getPeriodBounds(budget.period, budget.periodAnchor, new Date(bounds[0].start.getTime() - DAY_MS)));
+  }
+
+  const ledger: EnvelopePeriod[] = [];
+  let carriedIn = 0;
+
+  for (const { start, end } of bounds) {
+    const inPeriod = (date: Date) => date >= start && date < end;
+    const isCurrent = start.getTime() === current.start.getTime();
+    const allocated = isCurrent ? budget.amount : allocations.get(start.getTime()) ?? budget.amount;
+
+    let transfersIn = 0;
+    let transfersOut = 0;
+    for (const transfer of transfers) {
+      if (!inPeriod(transfer.date)) {
+        continue;
+      }
+      if (transfer.toBudgetId === budget.id) {
+        transfersIn += transfer.amount;
+      }
+      if (transfer.fromBudgetId === budget.id) {
+        transfersOut += transfer.amount;
+      }
+    }
+
+    const spent = spending.filter((item) => inPeriod(item.date)).reduce((sum, item) => sum + item.amount, 0);
+    const available = allocated + carriedIn + transfersIn - transfersOut;
+    const closingBalance = available - spent;
+
+    ledger.push({
+      periodStart: start,
+      periodEnd: end,
+      allocated: round(allocated),
+      carriedIn: round(carriedIn),
+      transfersIn: round(transfersIn),
+      transfersOut: round(transfersOut),
+      spent: round(spent),
+      available: round(available),
+      closingBalance: round(closingBalance),
+      closed: !isCurrent,
+    });
+
+    carriedIn = carryForward(budget.rollover, closingBalance);
+  }
+
+  return ledger;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
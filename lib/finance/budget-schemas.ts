@@ -0,0 +1,16 @@
+import { z } from "zod";
+import { ROLLOVER_MODES } from "./budget-periods";
+
+export const RolloverModeSchema = z.enum(ROLLOVER_MODES);
+
+export const BudgetTransferSchema = z
+  .object({
+    fromBudgetId: z.string().min(1),
+    toBudgetId: z.string().min(1),
+    amount: z.number().positive(),
+    note: z.string().max(200).nullable().optional(),
+  })
+  .refine((data) => data.fromBudgetId !== data.toBudgetId, {
+    message: "Choose two different budgets",
+    path: ["toBudgetId"],
+  });
@@ -0,0 +1,295 @@
+import { getOccurrences, parseRRule } from "./recurrence";
+
+// Forward-looking daily balance projection. Three sources of cash flow:
+//   1. Recurring templates, on their scheduled dates
+//   2. Budgeted categories, spent evenly at the budget's rate (or faster, if
+//      recent spending in that category has been running above it)
+//   3. Everything else from the last LOOKBACK_DAYS (variable income and
+//      unbudgeted spending), as a daily average
+// Goals are funded from the projected surplus, earliest deadline first.
+
+export const FORECAST_HORIZONS = [30, 90, 365] as const;
+export type ForecastHorizon = typeof FORECAST_HORIZONS[number];
+
+export const LOOKBACK_DAYS = 90;
+// New users: don't extrapolate a few days of history into a daily rate
+const MIN_LOOKBACK_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 30.44;
+
+const PERIOD_DAYS: Record<string, number> = {
+  daily: 1,
+  weekly: 7,
+  biweekly: 14,
+  monthly: DAYS_PER_MONTH,
+  quarterly: 91.31,
+  yearly: 365.25,
+  annual: 365.25,
+};
+
+export interface ForecastRecurringItem {
+  id: string;
+  description: string;
+  amount: number;
+  type: string;
+  rrule: string;
+  startDate: Date;
+  endDate?: Date | null;
+  nextOccurrence?: Date | null;
+}
+
+export interface ForecastBudget {
+  category: string;
+  amount: number;
+  period: string;
+}
+
+export interface ForecastGoal {
+  id: string;
+  name: string;
+  targetAmount: number;
+  currentAmount: number;
+  deadline?: Date | null;
+}
+
+export interface ForecastHistoryItem {
+  date: Date;
+  amount: number;
+  type: string;
+  category: string;
+  recurringId?: string | null;
+}
+
+export interface ForecastInput {
+  startingBalance: number;
+  horizonDays: number;
+  today?: Date;
+  recurring: ForecastRecurringItem[];
+  budgets: ForecastBudget[];
+  goals: ForecastGoal[];
+  history: ForecastHistoryItem[]; // At least the last LOOKBACK_DAYS
+}
+
+export interface ForecastPoint {
+  date: string; // YYYY-MM-DD
+  balance: number;
+  income: number;
+  expenses: number;
+}
+
+export type GoalForecastStatus = "complete" | "on_track" | "at_risk" | "overdue" | "no_deadline";
+
+export interface GoalForecast {
+  id: string;
+  name: string;
+  remaining: number;
+  deadline: string | null;
+  requiredPerMonth: number | null;
+  projectedAvailable: number | null; // Surplus left for this goal by its deadline
+  onTrack: boolean;
+  status: GoalForecastStatus;
+}
+
+export interface CashFlowForecast {
+  horizonDays: number;
+  startingBalance: number;
+  endingBalance: number;
+  lowestBalance: { date: string; balance: number };
+  overdrafts: { date: string; balance: number }[]; // First day of each stretch below zero
+  firstOverdraftDate: string | null;
+  points: ForecastPoint[];
+  goals: GoalForecast[];
+  assumptions: {
+    recurringItems: number;
+    budgetSpendingPerDay: number;
+    variableIncomePerDay: number;
+    variableExpensesPerDay: number;
+    lookbackDays: number;
+  };
+}
+
+export function forecastCashFlow(input: ForecastInput): CashFlowForecast {
+  const today = toNoonUTC(input.today || new Date());
+  const end = new Date(today.getTime() + input.horizonDays * DAY_MS);
+  const income = new Array(input.horizonDays + 1).fill(0);
+  const expenses = new Array(input.horizonDays + 1).fill(0);
+
+  // 1. Recurring templates
+  for (const item of input.recurring) {
+    const from = item.nextOccurrence || item.startDate;
+    const until = item.endDate && item.endDate < end ? item.endDate : end;
+    let dates: Date[];
+    try {
+      dates = getOccurrences(parseRRule(item.rrule), item.startDate, from, until, input.horizonDays + 1);
+    } catch {
+      continue; // Unparseable rules were rejected at save time; skip rather than fail the summary
+    }
+
+    for (const date of dates) {
+      // Overdue occurrences the cron hasn't materialized yet land today
+      const day = Math.max(0, Math.round((toNoonUTC(date).getTime() - today.getTime()) / DAY_MS));
+      (item.type === "Income" ? income : expenses)[day] += item.amount;
+    }
+  }
+
+  // 2 + 3. Daily rates from budgets and recent history
+  const rates = computeDailyRates(input.history, input.budgets, today);
+
+  for (let day = 1; day <= input.horizonDays; day++) {
+    income[day] += rates.variableIncomePerDay;
+    expenses[day] += rates.budgetSpendingPerDay + rates.variableExpensesPerDay;
+  }
+
+  const points: ForecastPoint[] = [];
+  const overdrafts: { date: string; balance: number }[] = [];
+  let balance = input.startingBalance;
+  let lowest = { date: toDateKey(today), balance };
+
+  for (let day = 0; day <= input.horizonDays; day++) {
+    const wasNegative = balance < 0;
+    balance += income[day] - expenses[day];
+    const date = toDateKey(new Date(today.getTime() + day * DAY_MS));
+
+    points.push({ date, balance: round(balance), income: round(income[day]), expenses: round(expenses[day]) });
+
+    if (balance < lowest.balance) {
+      lowest = { date, balance };
+    }
+    if (balance < 0 && (!wasNegative || day === 0)) {
+      overdrafts.push({ date, balance: round(balance) });
+    }
+  }
+
+  const averageNetPerDay = (balance - input.startingBalance) / Math.max(input.horizonDays, 1);
+
+  return {
+    horizonDays: input.horizonDays,
+    startingBalance: round(input.startingBalance),
+    endingBalance: round(balance),
+    lowestBalance: { date: lowest.date, balance: round(lowest.balance) },
+    overdrafts,
+    firstOverdraftDate: overdrafts[0]?.date || null,
+    points,
+    goals: forecastGoals(input.goals, points, input.startingBalance, averageNetPerDay, today),
+    assumptions: {
+      recurringItems: input.recurring.length,
+      budgetSpendingPerDay: round(rates.budgetSpendingPerDay),
+      variableIncomePerDay: round(rates.variableIncomePerDay),
+      variableExpensesPerDay: round(rates.variableExpensesPerDay),
+      lookbackDays: rates.lookbackDays,
+    },
+  };
+}
+
+function computeDailyRates(history: ForecastHistoryItem[], budgets: ForecastBudget[], today: Date) {
+  const windowStart = today.getTime() - LOOKBACK_DAYS * DAY_MS;
+  // Templates are projected separately, so their past occurrences don't count twice
+  const recent = history.filter((item) => item.date.getTime() >= windowStart && item.date <= today && !item.recurringId);
+  const earliest = recent.reduce((min, item) => Math.min(min, item.date.getTime()), today.getTime());
+  const lookbackDays = Math.min(LOOKBACK_DAYS, Math.max(MIN_LOOKBACK_DAYS, Math.ceil((today.getTime() - earliest) / DAY_MS)));
+
+  const budgetRates = new Map<string, number>();
+  for (const budget of budgets) {
+    const periodDays = PERIOD_DAYS[budget.period.toLowerCase()] || DAYS_PER_MONTH;
+    budgetRates.set(budget.category, (budgetRates.get(budget.category) || 0) + budget.amount / periodDays);
+  }
+
+  const observedByCategory = new Map<string, number>();
+  let variableIncome = 0;
+  let variableExpenses = 0;
+
+  for (const item of recent) {
+    if (item.type === "Income") {
+      variableIncome += item.amount;
+    } else if (budgetRates.has(item.category)) {
+      observedByCategory.set(item.category, (observedByCategory.get(item.category) || 0) + item.amount);
+    } else {
+      variableExpenses += item.amount;
+    }
+  }
+
+  let budgetSpendingPerDay = 0;
+  budgetRates.forEach((rate, category) => {
+    // Overspending categories are projected at their actual pace
+    budgetSpendingPerDay += Math.max(rate, (observedByCategory.get(category) || 0) / lookbackDays);
+  });
+
+  return {
+    budgetSpendingPerDay,
+    variableIncomePerDay: variableIncome / lookbackDays,
+    variableExpensesPerDay: variableExpenses / lookbackDays,
+    lookbackDays,
+  };
+}
+
+function forecastGoals(
+  goals: ForecastGoal[],
+  points: ForecastPoint[],
+  startingBalance: number,
+  averageNetPerDay: number,
+  today: Date
+): GoalForecast[] {
+  const horizonDays = points.length - 1;
+  let allocated = 0;
+
+  const ordered = [...goals].sort((a, b) => {
+    if (!a.deadline || !b.deadline) {
+      return a.deadline ? -1 : b.deadline ? 1 : 0;
+    }
+    return a.deadline.getTime() - b.deadline.getTime();
+  });
+
+  const results = ordered.map((goal): GoalForecast => {
+    const remaining = Math.max(0, goal.targetAmount - goal.currentAmount);
+    const base = {
+      id: goal.id,
+      name: goal.name,
+      remaining: round(remaining),
+      deadline: goal.deadline ? toDateKey(goal.deadline) : null,
+    };
+
+    if (remaining === 0) {
+      return { ...base, requiredPerMonth: 0, projectedAvailable: null, onTrack: true, status: "complete" };
+    }
+    if (!goal.deadline) {
+      return { ...base, requiredPerMonth: null, projectedAvailable: null, onTrack: false, status: "no_deadline" };
+    }
+
+    const daysLeft = Math.round((toNoonUTC(goal.deadline).getTime() - today.getTime()) / DAY_MS);
+    if (daysLeft <= 0) {
+      return { ...base, requiredPerMonth: null, projectedAvailable: null, onTrack: false, status: "overdue" };
+    }
+
+    // Net cash generated by the deadline: read off the projection, extrapolating past the horizon
+    const netByDeadline = daysLeft <= horizonDays
+      ? points[daysLeft].balance - startingBalance
+      : points[horizonDays].balance - startingBalance + averageNetPerDay * (daysLeft - horizonDays);
+    const available = Math.max(0, netByDeadline - allocated);
+    const onTrack = available >= remaining;
+    allocated += Math.min(available, remaining);
+
+    return {
+      ...base,
+      requiredPerMonth: round(remaining / (daysLeft / DAYS_PER_MONTH)),
+      projectedAvailable: round(available),
+      onTrack,
+      status: onTrack ? "on_track" : "at_risk",
+    };
+  });
+
+  // Keep the caller's order
+  return goals.map((goal) => results.find((result) => result.id === goal.id)!);
+}
+
+function toNoonUTC(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), 12));
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
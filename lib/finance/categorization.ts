@@ -0,0 +1,158 @@
+import { CategoryClassifier, classifyTransaction } from "./category-classifier";
+
+// Auto-categorization: the user's rules win (highest priority first); when
+// none match, the classifier trained on their history gets a say if it is
+// confident enough.
+
+export const MIN_CLASSIFIER_CONFIDENCE = 0.6;
+
+export type CategorySource = "user" | "rule" | "classifier" | "import";
+
+export interface CategoryRuleDefinition {
+  id: string;
+  category: string;
+  type?: string | null;
+  payeePattern?: string | null;
+  merchantAliases: string[];
+  minAmount?: number | null;
+  maxAmount?: number | null;
+  priority: number;
+  enabled: boolean;
+}
+
+// A rule with its payee pattern compiled, ready to run against many rows
+export interface CompiledCategoryRule extends CategoryRuleDefinition {
+  pattern: RegExp | null;
+}
+
+export interface CategorizationInput {
+  description: string;
+  amount: number; // Positive, as stored
+  type: string;
+}
+
+export interface CategoryAssignment {
+  category: string;
+  source: "rule" | "classifier";
+  confidence: number;
+  ruleId?: string;
+}
+
+// Enabled rules, highest priority first, each pattern compiled once
+export function compileCategoryRules(rules: CategoryRuleDefinition[]): CompiledCategoryRule[] {
+  return rules
+    .filter((rule) => rule.enabled)
+    .sort((a, b) => b.priority - a.priority)
+    .map((rule) => ({ ...rule, pattern: rule.payeePattern ? compilePayeePattern(rule.payeePattern) : null }));
+}
+
+export function categorizeTransaction(
+  input: CategorizationInput,
+  rules: CompiledCategoryRule[],
+  classifier?: CategoryClassifier | null
+): CategoryAssignment | null {
+  const rule = rules.find((candidate) => matchesCategoryRule(candidate, input));
+
+  if (rule) {
+    return { category: rule.category, source: "rule", confidence: 1, ruleId: rule.id };
+  }
+
+  const prediction = classifier ? classifyTransaction(classifier, input) : null;
+  if (prediction && prediction.confidence >= MIN_CLASSIFIER_CONFIDENCE) {
+    return { category: prediction.category, source: "classifier", confidence: prediction.confidence };
+  }
+
+  return null;
+}
+
+export function matchesCategoryRule(rule: CompiledCategoryRule, input: CategorizationInput): boolean {
+  if (!hasCriteria(rule)) {
+    return false;
+  }
+  if (rule.type && rule.type !== input.type) {
+    return false;
+  }
+  if (typeof rule.minAmount === "number" && input.amount < rule.minAmount) {
+    return false;
+  }
+  if (typeof rule.maxAmount === "number" && input.amount > rule.maxAmount) {
+    return false;
+  }
+  // An invalid or unsafe pattern never matches
+  if (rule.payeePattern && (!rule.pattern || !rule.pattern.test(input.description))) {
+    return false;
+  }
+  if (rule.merchantAliases.length > 0) {
+    const description = normalizeMerchant(input.description);
+    if (!rule.merchantAliases.some((alias) => description.includes(normalizeMerchant(alias)))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// A rule with only a type (or nothing) would swallow every transaction
+export function hasCriteria(rule: Pick<CategoryRuleDefinition, "payeePattern" | "merchantAliases" | "minAmount" | "maxAmount">): boolean {
+  return (
+    !!rule.payeePattern ||
+    rule.merchantAliases.length > 0 ||
+    typeof rule.minAmount === "number" ||
+    typeof rule.maxAmount === "number"
+  );
+}
+
+// Null for a pattern that doesn't compile or could backtrack catastrophically
+export function compilePayeePattern(pattern: string): RegExp | null {
+  if (!isSafePayeePattern(pattern)) {
+    return null;
+  }
+  try {
+    return new RegExp(pattern, "i");
+  } catch {
+    return null;
+  }
+}
+
+// Patterns run on the server against every imported row, so refuse the shapes
+// behind exponential backtracking: a repeated group that itself contains a
+// quantifier or alternatives, like (a+)+ or (a|ab)*, and backreferences
+export function isSafePayeePattern(pattern: string): boolean {
+  const groups: { risky: boolean }[] = [];
+  let closedRisky = false; // Whether the group that just closed was risky
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const quantified = char === "*" || char === "+" || (char === "{" && /^\{\d+(,\d*)?\}/.test(pattern.slice(i)));
+    if (quantified) {
+      if (closedRisky) {
+        return false;
+      }
+      groups.forEach((group) => (group.risky = true));
+    }
+    closedRisky = false;
+
+    if (char === "\\") {
+      if (/[1-9k]/.test(pattern[i + 1] ?? "")) {
+        return false;
+      }
+      i++;
+    } else if (char === "[") {
+      // Skip the class; a quantifier inside it is a literal
+      i++;
+      while (i < pattern.length && pattern[i] !== "]") {
+        i += pattern[i] === "\\" ? 2 : 1;
+      }
+    } else if (char === "(") {
+      groups.push({ risky: false });
+    } else if (char === ")") {
+      closedRisky = groups.pop()?.risky ?? false;
+    } else if (char === "|") {
+      groups.forEach((group) => (group.risky = true));
+    }
+  }
+  return true;
+}
+
+// "AMZN Mktp US*2K3" and "amzn-mktp" both become "amzn mktp us 2k3" / "amzn mktp"
+function normalizeMerchant(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
@@ -0,0 +1,103 @@
+// Multinomial naive Bayes over description words, trained on the user's own
+// categorized history. Runs entirely in-process: nothing leaves the server.
+
+export interface CategoryExample {
+  description: string;
+  amount: number; // Positive, as stored
+  type: string; // Income or Expense
+  category: string;
+}
+
+export interface CategoryPrediction {
+  category: string;
+  confidence: number; // Posterior probability of the winning category, 0-1
+}
+
+interface CategoryStats {
+  exampleCount: number;
+  tokenCounts: Record<string, number>;
+  tokenTotal: number;
+  types: Record<string, number>;
+}
+
+export interface CategoryClassifier {
+  categories: Record<string, CategoryStats>;
+  vocabularySize: number;
+  exampleCount: number;
+}
+
+// Below this many examples per category the posteriors are mostly noise
+export const MIN_EXAMPLES_PER_CATEGORY = 2;
+
+export function trainCategoryClassifier(examples: CategoryExample[]): CategoryClassifier {
+  const categories: Record<string, CategoryStats> = {};
+  const vocabulary = new Set<string>();
+
+  for (const example of examples) {
+    if (!categories[example.category]) {
+      categories[example.category] = { exampleCount: 0, tokenCounts: {}, tokenTotal: 0, types: {} };
+    }
+    const stats = categories[example.category];
+    stats.exampleCount++;
+    stats.types[example.type] = (stats.types[example.type] || 0) + 1;
+
+    for (const token of extractFeatures(example)) {
+      stats.tokenCounts[token] = (stats.tokenCounts[token] || 0) + 1;
+      stats.tokenTotal++;
+      vocabulary.add(token);
+    }
+  }
+
+  for (const [category, stats] of Object.entries(categories)) {
+    if (stats.exampleCount < MIN_EXAMPLES_PER_CATEGORY) {
+      delete categories[category];
+    }
+  }
+
+  return { categories, vocabularySize: vocabulary.size, exampleCount: examples.length };
+}
+
+export function classifyTransaction(
+  model: CategoryClassifier,
+  input: Omit<CategoryExample, "category">
+): CategoryPrediction | null {
+  // Categories are only ever offered for the type they were used with
+  const candidates = Object.entries(model.categories).filter(([, stats]) => stats.types[input.type]);
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const features = extractFeatures(input);
+  const candidateExamples = candidates.reduce((sum, [, stats]) => sum + stats.exampleCount, 0);
+
+  const scores = candidates.map(([category, stats]) => {
+    let score = Math.log(stats.exampleCount / candidateExamples);
+    for (const token of features) {
+      // Laplace smoothing so unseen words don't zero out a category
+      score += Math.log(((stats.tokenCounts[token] || 0) + 1) / (stats.tokenTotal + model.vocabularySize + 1));
+    }
+    return { category, score };
+  });
+
+  // Softmax in log space
+  const max = Math.max(...scores.map((entry) => entry.score));
+  const total = scores.reduce((sum, entry) => sum + Math.exp(entry.score - max), 0);
+  const best = scores.reduce((top, entry) => (entry.score > top.score ? entry : top));
+
+  return {
+    category: best.category,
+    confidence: Math.round((1 / total) * 1000) / 1000,
+  };
+}
+
+// Description words plus a coarse amount bucket, so "Shell 4.50" (snacks) and
+// "Shell 60.00" (fuel) can land in different categories
+export function extractFeatures(input: { description: string; amount: number }): string[] {
+  const words = input.description
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((word) => word.length >= 2 && !/^\d+$/.test(word));
+
+  return [...words, `amount:${Math.floor(Math.log10(Math.max(Math.abs(input.amount), 1)))}`];
+}
@@ -0,0 +1,40 @@
+import { z } from "zod";
+import { compilePayeePattern, hasCriteria, isSafePayeePattern } from "./categorization";
+
+const CategoryRuleFields = z.object({
+  category: z.string().min(1).max(100),
+  type: z.enum(["Income", "Expense"]).nullable().optional(),
+  payeePattern: z
+    .string()
+    .max(500)
+    .refine((pattern) => isSafePayeePattern(pattern), {
+      message: "Payee patterns can't repeat a group that has its own quantifier or alternatives, or use backreferences",
+    })
+    .refine((pattern) => compilePayeePattern(pattern) !== null, { message: "Invalid regular expression" })
+    .nullable()
+    .optional(),
+  merchantAliases: z.array(z.string().min(1).max(100)).max(50).default([]),
+  minAmount: z.number().min(0).nullable().optional(),
+  maxAmount: z.number().min(0).nullable().optional(),
+  priority: z.number().int().min(-1000).max(1000).default(0),
+  enabled: z.boolean().default(true),
+});
+
+export const CategoryRuleSchema = CategoryRuleFields
+  .refine((rule) => hasCriteria(rule), {
+    message: "Add a payee pattern, merchant alias or amount range",
+  })
+  .refine((rule) => typeof rule.minAmount !== "number" || typeof rule.maxAmount !== "number" || rule.minAmount <= rule.maxAmount, {
+    message: "minAmount must not exceed maxAmount",
+  });
+
+export const RecategorizeSchema = z.object({
+  includeManual: z.boolean().default(false),
+  dryRun: z.boolean().default(false),
+});
+
+export const CategorySuggestionSchema = z.object({
+  description: z.string().min(1),
+  amount: z.number().min(0),
+  type: z.enum(["Income", "Expense"]),
+});
@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+export const ACCOUNT_TYPES = ["checking", "savings", "credit", "cash"] as const;
+
+export const CurrencyCodeSchema = z
+  .string()
+  .transform((value) => value.trim().toUpperCase())
+  .refine((value) => /^[A-Z]{3}$/.test(value), { message: "Use a three-letter ISO 4217 currency code" });
+
+export const FinancialAccountSchema = z.object({
+  name: z.string().min(1).max(100),
+  type: z.enum(ACCOUNT_TYPES).default("checking"),
+  currency: CurrencyCodeSchema,
+  openingBalance: z.number().default(0),
+});
+
+export const FinancialAccountUpdateSchema = FinancialAccountSchema.omit({ currency: true })
+  .partial()
+  .extend({ archived: z.boolean().optional() });
+
+export const BaseCurrencySchema = z.object({
+  baseCurrency: CurrencyCodeSchema,
+});
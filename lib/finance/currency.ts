@@ -0,0 +1,239 @@
+import { parseCsvRows } from "./statement-parsers";
+
+// Exchange rates are stored locally as "1 base = rate quote" rows, imported from
+// an ECB reference-rate file (XML or CSV) or a plain date,base,quote,rate CSV.
+// Conversions use the latest rate on or before the date being converted.
+
+export const DEFAULT_BASE_CURRENCY = "USD";
+
+// ECB rates skip weekends and holidays; monthly CSVs are a month apart
+export const MAX_RATE_AGE_DAYS = 31;
+
+export const MAX_RATE_ROWS = 300000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+export interface ExchangeRateRow {
+  base: string;
+  quote: string;
+  rate: number;
+  date: Date; // Midnight UTC
+}
+
+export interface RateQuote {
+  rate: number; // Multiply an amount in `from` by this to get `to`
+  rateDate: Date; // Oldest rate involved, when triangulating
+}
+
+export interface ConvertedAmount extends RateQuote {
+  amount: number;
+}
+
+export type RateLookup = (from: string, to: string, date: Date) => RateQuote | null;
+
+export class MissingExchangeRateError extends Error {
+  constructor(public currencies: string[], public date: Date) {
+    super(`No exchange rate for ${currencies.join(", ")} on or before ${date.toISOString().slice(0, 10)}`);
+    this.name = "MissingExchangeRateError";
+  }
+}
+
+// The base currency changed while amounts were being converted to the old one
+export class BaseCurrencyChangedError extends Error {
+  constructor(message = "Base currency changed; try again") {
+    super(message);
+    this.name = "BaseCurrencyChangedError";
+  }
+}
+
+export function isCurrencyCode(value: string): boolean {
+  return /^[A-Z]{3}$/.test(value);
+}
+
+export function parseExchangeRates(fileName: string, content: string): ExchangeRateRow[] {
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+  const rows = /\.xml$/i.test(fileName) || text.trimStart().startsWith("<")
+    ? parseEcbXml(text)
+    : parseRateCsv(text);
+
+  if (rows.length > MAX_RATE_ROWS) {
+    throw new Error(`Rate files are limited to ${MAX_RATE_ROWS} rates`);
+  }
+  return rows;
+}
+
+// eurofxref-daily.xml / eurofxref-hist.xml: <Cube time="..."><Cube currency="USD" rate="1.09"/>...</Cube>
+export function parseEcbXml(xml: string): ExchangeRateRow[] {
+  const rows: ExchangeRateRow[] = [];
+  const dayPattern = /<Cube\s+time=["'](\d{4}-\d{2}-\d{2})["']\s*>([\s\S]*?)<\/Cube>/g;
+  const ratePattern = /<Cube\s+currency=["']([A-Z]{3})["']\s+rate=["']([\d.]+)["']\s*\/>/g;
+
+  for (const [, time, body] of Array.from(xml.matchAll(dayPattern))) {
+    const date = parseRateDate(time);
+    for (const [, quote, rate] of Array.from(body.matchAll(ratePattern))) {
+      rows.push({ base: "EUR", quote, rate: parseFloat(rate), date });
+    }
+  }
+
+  if (rows.length === 0) {
+    throw new Error("No exchange rates found in the XML file");
+  }
+  return rows;
+}
+
+// Either the ECB layout (Date, USD, JPY, ... with EUR as the base) or one rate
+// per row with date, base, quote and rate columns
+export function parseRateCsv(content: string): ExchangeRateRow[] {
+  const [header, ...records] = parseCsvRows(content);
+  if (!header) {
+    throw new Error("The rate file is empty");
+  }
+
+  const columns = header.map((cell) => cell.trim());
+  const lower = columns.map((cell) => cell.toLowerCase());
+  const dateIndex = lower.indexOf("date");
+  if (dateIndex === -1) {
+    throw new Error("Rate CSVs need a date column");
+  }
+
+  const rows: ExchangeRateRow[] = [];
+  const rateIndex = lower.indexOf("rate");
+
+  if (rateIndex !== -1) {
+    const baseIndex = findColumn(lower, ["base", "from"]);
+    const quoteIndex = findColumn(lower, ["quote", "currency", "to", "target"]);
+    if (baseIndex === -1 || quoteIndex === -1) {
+      throw new Error("Rate CSVs need base and quote columns, or the ECB layout");
+    }
+
+    for (const record of records) {
+      const base = (record[baseIndex] || "").trim().toUpperCase();
+      const quote = (record[quoteIndex] || "").trim().toUpperCase();
+      const rate = parseFloat(record[rateIndex]);
+      if (isCurrencyCode(base) && isCurrencyCode(quote) && rate > 0) {
+        rows.push({ base, quote, rate, date: parseRateDate(record[dateIndex]) });
+      }
+    }
+  } else {
+    const currencies = columns.map((cell, index) => (index !== dateIndex && isCurrencyCode(cell) ? cell : null));
+    if (!currencies.some(Boolean)) {
+      throw new Error("Rate CSVs need a rate column, or currency codes as column headers");
+    }
+
+    for (const record of records) {
+      const date = parseRateDate(record[dateIndex]);
+      currencies.forEach((quote, index) => {
+        const rate = parseFloat(record[index]); // "N/A" for currencies not quoted that day
+        if (quote && rate > 0) {
+          rows.push({ base: "EUR", quote, rate, date });
+        }
+      });
+    }
+  }
+
+  return rows;
+}
+
+// YYYY-MM-DD, or "18 October 2024" as in the ECB's single-day CSV
+function parseRateDate(value: string | undefined): Date {
+  const text = (value || "").trim();
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (iso) {
+    return new Date(Date.UTC(+iso[1], +iso[2] - 1, +iso[3]));
+  }
+
+  const long = /^(\d{1,2})\s+([A-Za-z]+)\s+(\d{4})$/.exec(text);
+  const month = long ? MONTHS.indexOf(long[2].toLowerCase()) : -1;
+  if (long && month !== -1) {
+    return new Date(Date.UTC(+long[3], month, +long[1]));
+  }
+
+  throw new Error(`Unrecognized rate date "${text}"`);
+}
+
+function findColumn(columns: string[], names: string[]): number {
+  return columns.findIndex((column) => names.includes(column));
+}
+
+// Lookup over an in-memory set of rates. Pairs are used directly, inverted, or
+// crossed through a shared base (USD→GBP via EUR for ECB data).
+export function createRateLookup(rates: ExchangeRateRow[], maxAgeDays = MAX_RATE_AGE_DAYS): RateLookup {
+  const byPair = new Map<string, ExchangeRateRow[]>();
+  const bases = new Set<string>();
+
+  for (const row of rates) {
+    const key = `${row.base}/${row.quote}`;
+    const list = byPair.get(key) || [];
+    list.push(row);
+    byPair.set(key, list);
+    bases.add(row.base);
+  }
+  byPair.forEach((list) => list.sort((a, b) => a.date.getTime() - b.date.getTime()));
+
+  const latest = (base: string, quote: string, date: Date): ExchangeRateRow | null => {
+    const list = byPair.get(`${base}/${quote}`);
+    if (!list) {
+      return null;
+    }
+    // Binary search for the last rate on or before `date`
+    let low = 0;
+    let high = list.length - 1;
+    let found: ExchangeRateRow | null = null;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (list[mid].date <= date) {
+        found = list[mid];
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return found && date.getTime() - found.date.getTime() <= maxAgeDays * DAY_MS ? found : null;
+  };
+
+  const direct = (from: string, to: string, date: Date): RateQuote | null => {
+    const forward = latest(from, to, date);
+    const inverse = latest(to, from, date);
+    // Prefer whichever was published more recently
+    if (forward && (!inverse || forward.date >= inverse.date)) {
+      return { rate: forward.rate, rateDate: forward.date };
+    }
+    return inverse ? { rate: 1 / inverse.rate, rateDate: inverse.date } : null;
+  };
+
+  return (from, to, date) => {
+    if (from === to) {
+      return { rate: 1, rateDate: date };
+    }
+
+    const pair = direct(from, to, date);
+    if (pair) {
+      return pair;
+    }
+
+    for (const pivot of Array.from(bases)) {
+      const first = pivot === from ? null : direct(from, pivot, date);
+      const second = first && pivot !== to ? direct(pivot, to, date) : null;
+      if (first && second) {
+        return {
+          rate: first.rate * second.rate,
+          rateDate: first.rateDate < second.rateDate ? first.rateDate : second.rateDate,
+        };
+      }
+    }
+    return null;
+  };
+}
+
+export function convertAmount(amount: number, from: string, to: string, date: Date, lookup: RateLookup): ConvertedAmount {
+  const quote = lookup(from, to, date);
+  if (!quote) {
+    throw new MissingExchangeRateError([from], date);
+  }
+  return { ...quote, amount: Math.round(amount * quote.rate * 100) / 100 };
+}
@@ -0,0 +1,225 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../database";
+import {
+  BaseCurrencyChangedError,
+  DEFAULT_BASE_CURRENCY,
+  ExchangeRateRow,
+  MAX_RATE_AGE_DAYS,
+  MissingExchangeRateError,
+  RateLookup,
+  createRateLookup,
+} from "./currency";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INSERT_BATCH_SIZE = 5000;
+const UPDATE_BATCH_SIZE = 500;
+
+export interface BaseCurrencyFields {
+  amount: number;
+  originalAmount: number | null;
+  originalCurrency: string | null;
+  exchangeRate: number | null;
+  rateDate: Date | null;
+}
+
+export async function getBaseCurrency(userId: string): Promise<string> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { baseCurrency: true } });
+  return user?.baseCurrency || DEFAULT_BASE_CURRENCY;
+}
+
+// Run inside the transaction that stores amounts in the user's base currency,
+// passing the base they were converted to (default: the current one). The
+// no-op update takes the user row lock, so the write serialises with
+// changeBaseCurrency: either it commits before the change reads the user's
+// transactions, or it waits for the change and fails here.
+export async function lockBaseCurrency(tx: Prisma.TransactionClient, userId: string, base?: string): Promise<string> {
+  const current = base ?? ((await tx.user.findUnique({ where: { id: userId }, select: { baseCurrency: true } }))?.baseCurrency || DEFAULT_BASE_CURRENCY);
+  const locked = await tx.user.updateMany({
+    where: { id: userId, baseCurrency: current },
+    data: { baseCurrency: current },
+  });
+  if (locked.count === 0) {
+    throw new BaseCurrencyChangedError();
+  }
+  return current;
+}
+
+// Rates touching any of `currencies`, covering conversions dated between `from` and `to`
+export async function loadRateLookup(userId: string, currencies: string[], from: Date, to: Date): Promise<RateLookup> {
+  const codes = Array.from(new Set(currencies));
+  const rates = await prisma.exchangeRate.findMany({
+    where: {
+      userId,
+      date: { gte: new Date(from.getTime() - MAX_RATE_AGE_DAYS * DAY_MS), lte: to },
+      OR: [{ base: { in: codes } }, { quote: { in: codes } }],
+    },
+    select: { base: true, quote: true, rate: true, date: true },
+  });
+  return createRateLookup(rates);
+}
+
+// Amount fields for a transaction entered in `currency`. Throws
+// MissingExchangeRateError when no rate is stored for the date.
+export async function convertToBaseCurrency(
+  userId: string,
+  amount: number,
+  currency: string,
+  date: Date,
+  baseCurrency?: string
+): Promise<BaseCurrencyFields> {
+  const base = baseCurrency || await getBaseCurrency(userId);
+  if (currency === base) {
+    return { amount, originalAmount: null, originalCurrency: null, exchangeRate: null, rateDate: null };
+  }
+
+  const lookup = await loadRateLookup(userId, [currency, base], date, date);
+  const quote = lookup(currency, base, date);
+  if (!quote) {
+    throw new MissingExchangeRateError([currency], date);
+  }
+
+  return {
+    amount: Math.round(amount * quote.rate * 100) / 100,
+    originalAmount: amount,
+    originalCurrency: currency,
+    exchangeRate: quote.rate,
+    rateDate: quote.rateDate,
+  };
+}
+
+// Imported rates replace what is stored for the same pairs over the file's date range
+export async function importExchangeRates(userId: string, rows: ExchangeRateRow[], source: string) {
+  const ranges = new Map<string, { base: string; quote: string; from: Date; to: Date }>();
+  for (const row of rows) {
+    const key = `${row.base}/${row.quote}`;
+    const range = ranges.get(key);
+    if (!range) {
+      ranges.set(key, { base: row.base, quote: row.quote, from: row.date, to: row.date });
+    } else {
+      range.from = row.date < range.from ? row.date : range.from;
+      range.to = row.date > range.to ? row.date : range.to;
+    }
+  }
+
+  // Files can repeat a pair/date; the last one wins
+  const unique = new Map(rows.map((row) => [`${row.base}/${row.quote}/${row.date.getTime()}`, row]));
+  const data = Array.from(unique.values()).map((row) => ({ userId, source, ...row }));
+
+  await prisma.$transaction(async(tx) => {
+    for (const range of Array.from(ranges.values())) {
+      await tx.exchangeRate.deleteMany({
+        where: { userId, base: range.base, quote: range.quote, date: { gte: range.from, lte: range.to } },
+      });
+    }
+    for (let i = 0; i < data.length; i += INSERT_BATCH_SIZE) {
+      await tx.exchangeRate.createMany({ data: data.slice(i, i + INSERT_BATCH_SIZE) });
+    }
+  }, { timeout: 120000 });
+
+  const spans = Array.from(ranges.values());
+  return {
+    imported: data.length,
+    pairs: Array.from(ranges.keys()),
+    from: spans.reduce<Date | null>((min, range) => (!min || range.from < min ? range.from : min), null),
+    to: spans.reduce<Date | null>((max, range) => (!max || range.to > max ? range.to : max), null),
+  };
+}
+
+// Switch the user's base currency. Transactions are reconverted at the rate on
+// their own date; budgets, goals, recurring templates and envelope history at
+// today's rate. It all happens in one database transaction that first takes
+// the user row lock, so transactions written meanwhile (see lockBaseCurrency)
+// are either converted too or rejected. Nothing is written if any rate is missing.
+export async function changeBaseCurrency(userId: string, newBase: string, now = new Date()) {
+  const oldBase = await getBaseCurrency(userId);
+  if (oldBase === newBase) {
+    return { baseCurrency: newBase, converted: 0 };
+  }
+
+  return prisma.$transaction(async(tx) => {
+    const { count } = await tx.user.updateMany({
+      where: { id: userId, baseCurrency: oldBase },
+      data: { baseCurrency: newBase },
+    });
+    if (count === 0) {
+      throw new BaseCurrencyChangedError();
+    }
+
+    const transactions = await tx.transaction.findMany({
+      where: { userId },
+      select: { id: true, date: true, amount: true, originalAmount: true, originalCurrency: true },
+    });
+
+    const earliest = transactions.reduce((min, transaction) => Math.min(min, transaction.date.getTime()), now.getTime());
+    const latest = transactions.reduce((max, transaction) => Math.max(max, transaction.date.getTime()), now.getTime());
+    const currencies = Array.from(new Set(transactions.map((transaction) => transaction.originalCurrency || oldBase)));
+    const lookup = await loadRateLookup(
+      userId,
+      [...currencies, oldBase, newBase],
+      new Date(earliest),
+      new Date(latest)
+    );
+
+    const currentRate = lookup(oldBase, newBase, now);
+    const missing = new Set<string>(currentRate ? [] : [oldBase]);
+    const updates: { id: string; fields: BaseCurrencyFields }[] = [];
+
+    for (const transaction of transactions) {
+      const currency = transaction.originalCurrency || oldBase;
+      const original = transaction.originalAmount ?? transaction.amount;
+
+      if (currency === newBase) {
+        updates.push({
+          id: transaction.id,
+          fields: { amount: original, originalAmount: null, originalCurrency: null, exchangeRate: null, rateDate: null },
+        });
+        continue;
+      }
+
+      const quote = lookup(currency, newBase, transaction.date);
+      if (!quote) {
+        missing.add(currency);
+        continue;
+      }
+      updates.push({
+        id: transaction.id,
+        fields: {
+          amount: Math.round(original * quote.rate * 100) / 100,
+          originalAmount: original,
+          originalCurrency: currency,
+          exchangeRate: quote.rate,
+          rateDate: quote.rateDate,
+        },
+      });
+    }
+
+    if (missing.size > 0 || !currentRate) {
+      throw new MissingExchangeRateError(Array.from(missing), now);
+    }
+
+    for (let i = 0; i < updates.length; i += UPDATE_BATCH_SIZE) {
+      await Promise.all(updates.slice(i, i + UPDATE_BATCH_SIZE).map(({ id, fields }) =>
+        tx.transaction.update({ where: { id }, data: fields })
+      ));
+    }
+
+    const multiply = { multiply: currentRate.rate };
+    await tx.budget.updateMany({ where: { userId }, data: { amount: multiply, spent: multiply } });
+    await tx.budgetPeriod.updateMany({
+      where: { userId },
+      data: {
+        allocated: multiply,
+        carriedIn: multiply,
+        transfersIn: multiply,
+        transfersOut: multiply,
+        spent: multiply,
+        closingBalance: multiply,
+      },
+    });
+    await tx.budgetTransfer.updateMany({ where: { userId }, data: { amount: multiply } });
+    await tx.financialGoal.updateMany({ where: { userId }, data: { targetAmount: multiply, currentAmount: multiply } });
+    await tx.recurringTransaction.updateMany({ where: { userId }, data: { amount: multiply } });
+
+    return { baseCurrency: newBase, converted: updates.length, rate: currentRate.rate, rateDate: currentRate.rateDate };
+  }, { timeout: 120000 });
+}
@@ -0,0 +1,22 @@
+import { z } from "zod";
+import { DATE_FORMATS } from "./statement-parsers";
+
+export const CsvColumnMappingSchema = z
+  .object({
+    date: z.string().min(1),
+    description: z.string().min(1),
+    amount: z.string().min(1).optional(),
+    debit: z.string().min(1).optional(),
+    credit: z.string().min(1).optional(),
+    category: z.string().min(1).optional(),
+    memo: z.string().min(1).optional(),
+    reference: z.string().min(1).optional(),
+    dateFormat: z.enum(DATE_FORMATS as [string, ...string[]]),
+    decimalSeparator: z.enum([".", ","]).optional(),
+    delimiter: z.string().length(1).optional(),
+    invertSign: z.boolean().optional(),
+    skipRows: z.number().int().min(0).max(50).optional(),
+  })
+  .refine((mapping) => mapping.amount || mapping.debit || mapping.credit, {
+    message: "Map either an amount column or debit/credit columns",
+  });
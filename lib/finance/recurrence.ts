@@ -0,0 +1,256 @@
+// Recurrence rules for recurring transactions: a subset of RFC 5545 RRULE
+// (FREQ, INTERVAL, BYDAY, BYMONTHDAY, COUNT, UNTIL). Works on calendar days in
+// UTC; occurrences are stamped at noon like imported transactions.
+//
+// One deliberate deviation: a MONTHLY rule without BYMONTHDAY repeats on the
+// start date's day and clamps to the end of shorter months (a bill due on the
+// 31st is due on Feb 28/29), where RFC 5545 would skip those months.
+
+export type RecurrenceFrequency = "weekly" | "biweekly" | "monthly" | "custom";
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ["weekly", "biweekly", "monthly", "custom"];
+
+export interface RecurrenceRule {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  byDay?: { weekday: number; ordinal?: number }[]; // weekday 0 = Sunday
+  byMonthDay?: number[]; // Negative counts from the end of the month
+  count?: number;
+  until?: Date;
+}
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Give up after this many consecutive periods without a date (e.g. BYMONTHDAY=30 with INTERVAL=12 from February)
+const MAX_EMPTY_PERIODS = 1000;
+
+export function frequencyToRRule(frequency: Exclude<RecurrenceFrequency, "custom">): string {
+  switch (frequency) {
+    case "weekly":
+      return "FREQ=WEEKLY";
+    case "biweekly":
+      return "FREQ=WEEKLY;INTERVAL=2";
+    case "monthly":
+      return "FREQ=MONTHLY";
+  }
+}
+
+export function parseRRule(value: string): RecurrenceRule {
+  const rule: Partial<RecurrenceRule> = { interval: 1 };
+  const text = value.trim().replace(/^RRULE:/i, "");
+
+  for (const part of text.split(";").filter(Boolean)) {
+    const [key, raw] = part.split("=");
+    const name = key.trim().toUpperCase();
+    const data = (raw || "").trim().toUpperCase();
+
+    switch (name) {
+      case "FREQ":
+        if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(data)) {
+          throw new Error(`Unsupported FREQ "${raw}"`);
+        }
+        rule.freq = data as RecurrenceRule["freq"];
+        break;
+      case "INTERVAL":
+        rule.interval = parsePositiveInteger(data, "INTERVAL");
+        break;
+      case "COUNT":
+        rule.count = parsePositiveInteger(data, "COUNT");
+        break;
+      case "UNTIL":
+        rule.until = parseUntil(data);
+        break;
+      case "BYDAY":
+        rule.byDay = data.split(",").map(parseByDay);
+        break;
+      case "BYMONTHDAY":
+        rule.byMonthDay = data.split(",").map((day) => {
+          const parsed = Number(day);
+          if (!Number.isInteger(parsed) || parsed === 0 || Math.abs(parsed) > 31) {
+            throw new Error(`Invalid BYMONTHDAY "${day}"`);
+          }
+          return parsed;
+        });
+        break;
+      case "WKST":
+        break; // Weeks always start on Monday here
+      default:
+        throw new Error(`Unsupported RRULE part "${key}"`);
+    }
+  }
+
+  if (!rule.freq) {
+    throw new Error("RRULE must include FREQ");
+  }
+  if (rule.count && rule.until) {
+    throw new Error("RRULE cannot have both COUNT and UNTIL");
+  }
+  if (rule.byDay?.some((day) => day.ordinal !== undefined) && rule.freq !== "MONTHLY") {
+    throw new Error("Ordinal BYDAY values (e.g. 1MO) are only supported with FREQ=MONTHLY");
+  }
+
+  return rule as RecurrenceRule;
+}
+
+export function isValidRRule(value: string): boolean {
+  try {
+    parseRRule(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Occurrences on or after `from` and on or before `until`, oldest first.
+// `start` anchors the series (and COUNT), so it must be the template's start date.
+export function getOccurrences(
+  rule: RecurrenceRule,
+  start: Date,
+  from: Date,
+  until: Date,
+  limit = 366
+): Date[] {
+  const anchor = toNoonUTC(start);
+  const end = rule.until && rule.until < until ? rule.until : until;
+  const occurrences: Date[] = [];
+  let seen = 0;
+  let emptyPeriods = 0;
+
+  for (let period = 0; occurrences.length < limit; period++) {
+    const candidates = expandPeriod(rule, anchor, period).filter((date) => date >= anchor);
+
+    if (candidates.length === 0) {
+      if (++emptyPeriods > MAX_EMPTY_PERIODS) {
+        break;
+      }
+      continue;
+    }
+    emptyPeriods = 0;
+
+    for (const date of candidates) {
+      if (date > end || (rule.count && seen >= rule.count)) {
+        return occurrences;
+      }
+      seen++;
+      if (date >= toNoonUTC(from) && occurrences.length < limit) {
+        occurrences.push(date);
+      }
+    }
+  }
+
+  return occurrences;
+}
+
+// First occurrence strictly after `after`, or null when the series has ended
+export function getNextOccurrence(rule: RecurrenceRule, start: Date, after: Date, horizonDays = 3660): Date | null {
+  const from = new Date(toNoonUTC(after).getTime() + DAY_MS);
+  const [next] = getOccurrences(rule, start, from, new Date(from.getTime() + horizonDays * DAY_MS), 1);
+  return next || null;
+}
+
+// All candidate dates in the period'th interval after the anchor, sorted
+function expandPeriod(rule: RecurrenceRule, anchor: Date, period: number): Date[] {
+  const step = period * rule.interval;
+  const year = anchor.getUTCFullYear();
+  const month = anchor.getUTCMonth();
+  const day = anchor.getUTCDate();
+
+  switch (rule.freq) {
+    case "DAILY":
+      return [new Date(anchor.getTime() + step * DAY_MS)];
+
+    case "WEEKLY": {
+      // Monday of the anchor's week, moved forward by whole weeks
+      const monday = anchor.getTime() - ((anchor.getUTCDay() + 6) % 7) * DAY_MS + step * 7 * DAY_MS;
+      const weekdays = rule.byDay ? rule.byDay.map((entry) => entry.weekday) : [anchor.getUTCDay()];
+      return weekdays
+        .map((weekday) => new Date(monday + ((weekday + 6) % 7) * DAY_MS))
+        .sort((a, b) => a.getTime() - b.getTime());
+    }
+
+    case "MONTHLY": {
+      const targetYear = year + Math.floor((month + step) / 12);
+      const targetMonth = (month + step) % 12;
+      const length = daysInMonth(targetYear, targetMonth);
+      let days: number[];
+
+      if (rule.byDay) {
+        days = rule.byDay.flatMap((entry) => weekdayDaysInMonth(targetYear, targetMonth, entry.weekday, entry.ordinal));
+      } else if (rule.byMonthDay) {
+        days = rule.byMonthDay
+          .map((monthDay) => (monthDay > 0 ? monthDay : length + monthDay + 1))
+          .filter((monthDay) => monthDay >= 1 && monthDay <= length);
+      } else {
+        days = [Math.min(day, length)];
+      }
+
+      return Array.from(new Set(days))
+        .sort((a, b) => a - b)
+        .map((monthDay) => utcNoon(targetYear, targetMonth, monthDay));
+    }
+
+    case "YEARLY": {
+      const targetYear = year + step;
+      return [utcNoon(targetYear, month, Math.min(day, daysInMonth(targetYear, month)))];
+    }
+  }
+}
+
+function weekdayDaysInMonth(year: number, month: number, weekday: number, ordinal?: number): number[] {
+  const length = daysInMonth(year, month);
+  const first = (weekday - new Date(Date.UTC(year, month, 1)).getUTCDay() + 7) % 7 + 1;
+  const days: number[] = [];
+
+  for (let monthDay = first; monthDay <= length; monthDay += 7) {
+    days.push(monthDay);
+  }
+
+  if (ordinal === undefined) {
+    return days;
+  }
+  const picked = ordinal > 0 ? days[ordinal - 1] : days[days.length + ordinal];
+  return picked === undefined ? [] : [picked];
+}
+
+function parseByDay(value: string): { weekday: number; ordinal?: number } {
+  const match = value.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+  if (!match) {
+    throw new Error(`Invalid BYDAY "${value}"`);
+  }
+
+  const ordinal = match[1] ? Number(match[1]) : undefined;
+  if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 5)) {
+    throw new Error(`Invalid BYDAY ordinal "${value}"`);
+  }
+
+  return { weekday: WEEKDAYS.indexOf(match[2]), ordinal };
+}
+
+function parseUntil(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) {
+    throw new Error(`Invalid UNTIL "${value}"`);
+  }
+  return utcNoon(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+function parsePositiveInteger(value: string, name: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`Invalid ${name} "${value}"`);
+  }
+  return parsed;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function utcNoon(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day, 12));
+}
+
+function toNoonUTC(date: Date): Date {
+  return utcNoon(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
@@ -0,0 +1,33 @@
+import { z } from "zod";
+import { RECURRENCE_FREQUENCIES, isValidRRule } from "./recurrence";
+
+export const RecurringTransactionSchema = z
+  .object({
+    description: z.string().min(1).max(200),
+    amount: z.number().positive(),
+    type: z.enum(["Income", "Expense"]),
+    category: z.string().min(1).max(100),
+    notes: z.string().max(1000).nullable().optional(),
+    frequency: z.enum(RECURRENCE_FREQUENCIES as [string, ...string[]]),
+    rrule: z
+      .string()
+      .max(500)
+      .refine(isValidRRule, { message: "Invalid or unsupported RRULE" })
+      .nullable()
+      .optional(),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date().nullable().optional(),
+    active: z.boolean().default(true),
+  })
+  .refine((data) => data.frequency !== "custom" || !!data.rrule, {
+    message: "A custom frequency needs an RRULE",
+    path: ["rrule"],
+  })
+  .refine((data) => !data.endDate || data.endDate >= data.startDate, {
+    message: "endDate must not be before startDate",
+    path: ["endDate"],
+  });
+
+export const SubscriptionStatusSchema = z.object({
+  status: z.enum(["active", "dismissed"]),
+});
@@ -0,0 +1,114 @@
+import { prisma } from "../database";
+import { emitAutomationEvent } from "../automation/event-bus";
+import { lockBaseCurrency } from "./exchange-rates";
+import { RecurrenceFrequency, frequencyToRRule, getNextOccurrence, getOccurrences, parseRRule } from "./recurrence";
+
+// A template that was missed for a long time catches up at most this many occurrences per run
+export const MAX_CATCH_UP_OCCURRENCES = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RecurringSchedule {
+  rrule: string;
+  startDate: Date;
+  endDate?: Date | null;
+}
+
+export interface MaterializeResult {
+  checked: number;
+  created: number;
+  templates: number;
+}
+
+export function resolveRRule(frequency: RecurrenceFrequency, rrule?: string | null): string {
+  if (frequency === "custom") {
+    if (!rrule) {
+      throw new Error("A custom frequency needs an RRULE");
+    }
+    return rrule.replace(/^RRULE:/i, "");
+  }
+  return frequencyToRRule(frequency);
+}
+
+// First occurrence on/after the start date (after = null) or strictly after `after`
+export function computeNextOccurrence(schedule: RecurringSchedule, after: Date | null): Date | null {
+  const rule = parseRRule(schedule.rrule);
+  // "Strictly after the day before" includes the start date itself
+  const next = getNextOccurrence(rule, schedule.startDate, after || new Date(schedule.startDate.getTime() - DAY_MS));
+
+  if (!next || (schedule.endDate && next > schedule.endDate)) {
+    return null;
+  }
+  return next;
+}
+
+// Create a Transaction for every occurrence due today or earlier. Each template
+// advances with a compare-and-set on nextOccurrence, so overlapping cron runs
+// can't materialize the same occurrence twice.
+export async function materializeDueRecurring(now = new Date()): Promise<MaterializeResult> {
+  const dueBy = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), 12));
+  const templates = await prisma.recurringTransaction.findMany({
+    where: { active: true, nextOccurrence: { lte: dueBy } },
+  });
+
+  const result: MaterializeResult = { checked: templates.length, created: 0, templates: 0 };
+
+  for (const template of templates) {
+    try {
+      const rule = parseRRule(template.rrule);
+      const until = template.endDate && template.endDate < dueBy ? template.endDate : dueBy;
+      const dates = getOccurrences(rule, template.startDate, template.nextOccurrence!, until, MAX_CATCH_UP_OCCURRENCES);
+      const last = dates[dates.length - 1];
+      const next = last ? computeNextOccurrence(template, last) : null;
+
+      const created = await prisma.$transaction(async(tx) => {
+        // Template amounts are in the base currency, so don't race a change to it
+        await lockBaseCurrency(tx, template.userId);
+        const { count } = await tx.recurringTransaction.updateMany({
+          where: { id: template.id, nextOccurrence: template.nextOccurrence, amount: template.amount },
+          data: { nextOccurrence: next },
+        });
+        if (count === 0) {
+          return []; // Another run got here first, or the amount was converted to a new base currency
+        }
+
+        return Promise.all(dates.map((date) => tx.transaction.create({
+          data: {
+            userId: template.userId,
+            recurringId: template.id,
+            description: template.description,
+            amount: template.amount,
+            type: template.type,
+            category: template.category,
+            categorySource: "user",
+            date,
+            notes: template.notes,
+          },
+        })));
+      });
+
+      for (const transaction of created) {
+        emitAutomationEvent("transaction.created", template.userId, {
+          transactionId: transaction.id,
+          description: transaction.description,
+          amount: transaction.amount,
+          type: transaction.type,
+          category: transaction.category,
+          date: transaction.date,
+          notes: transaction.notes,
+          source: "recurring",
+          recurringId: template.id,
+        });
+      }
+
+      if (created.length > 0) {
+        result.created += created.length;
+        result.templates++;
+      }
+    } catch (error) {
+      console.error(`Failed to materialize recurring transaction ${template.id}:`, error);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,304 @@
+import { prisma } from "../database";
+import { emitAutomationEvent } from "../automation/event-bus";
+import {
+  CsvColumnMapping,
+  DateFormat,
+  ParsedTransaction,
+  StatementFormat,
+  StatementParseError,
+  detectStatementFormat,
+  parseStatement,
+} from "./statement-parsers";
+import { DATE_TOLERANCE_DAYS, DuplicateMatch, findDuplicates } from "./transaction-dedup";
+import { Categorizer, UNCATEGORIZED, loadCategorizer } from "./auto-categorize";
+import { CategorySource } from "./categorization";
+import { MissingExchangeRateError } from "./currency";
+import { BaseCurrencyFields, getBaseCurrency, loadRateLookup, lockBaseCurrency } from "./exchange-rates";
+
+export const MAX_IMPORT_ROWS = 10000;
+
+// The batched transaction.created event carries at most this many rows
+const MAX_EVENT_TRANSACTIONS = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StatementImportOptions {
+  fileName: string;
+  content: string;
+  format?: StatementFormat;
+  mapping?: CsvColumnMapping;
+  dateFormat?: DateFormat; // QIF only; CSV carries its own in the mapping
+  bankName?: string;
+  account?: { id: string; currency: string }; // Statement amounts are in this account's currency
+}
+
+export interface StatementPreviewRow extends ParsedTransaction {
+  duplicate?: Omit<DuplicateMatch, "index">;
+}
+
+export interface StatementPreview {
+  format: StatementFormat;
+  rows: StatementPreviewRow[];
+  errors: string[];
+  duplicateCount: number;
+}
+
+interface CategorizedRow extends ParsedTransaction {
+  category: string;
+  categorySource: CategorySource | null;
+  categoryConfidence: number | null;
+  categoryRuleId: string | null;
+}
+
+export interface StatementImportResult extends StatementPreview {
+  importId: string;
+  importedCount: number;
+}
+
+// Parse a statement and flag rows that already exist, without writing anything
+export async function previewStatementImport(userId: string, options: StatementImportOptions): Promise<StatementPreview> {
+  const format = options.format || detectStatementFormat(options.fileName, options.content);
+  const parsed = parseStatement(format, options.content, {
+    mapping: options.mapping,
+    dateFormat: options.dateFormat,
+  });
+
+  if (parsed.transactions.length > MAX_IMPORT_ROWS) {
+    throw new StatementParseError(`Statements are limited to ${MAX_IMPORT_ROWS} transactions per import`);
+  }
+
+  const duplicates = await detectDuplicates(userId, parsed.transactions, options.account?.currency);
+  const rows: StatementPreviewRow[] = parsed.transactions.map((transaction, index) => {
+    const match = duplicates.get(index);
+    return match
+      ? { ...transaction, duplicate: { existingId: match.existingId, reason: match.reason, similarity: match.similarity } }
+      : transaction;
+  });
+
+  return {
+    format,
+    rows,
+    errors: parsed.errors,
+    duplicateCount: duplicates.size,
+  };
+}
+
+// Import the non-duplicate rows in one database transaction, record their
+// provenance and emit a single batched transaction.created event
+export async function importStatement(userId: string, options: StatementImportOptions): Promise<StatementImportResult> {
+  const preview = await previewStatementImport(userId, options);
+  const categorize = await loadCategorizer(userId);
+  const newRows = preview.rows
+    .filter((row) => !row.duplicate)
+    .map((row) => categorizeRow(row, categorize));
+  const base = await getBaseCurrency(userId);
+  const converted = await convertRows(userId, newRows, base, options.account?.currency);
+  // Signed amounts in the base currency, for the batch event
+  const rowsInBase = newRows.map((row, index) => ({
+    ...row,
+    amount: row.amount < 0 ? -converted[index].amount : converted[index].amount,
+  }));
+
+  const statementImport = await prisma.$transaction(async(tx) => {
+    await lockBaseCurrency(tx, userId, base);
+    const created = await tx.transactionImport.create({
+      data: {
+        userId,
+        format: preview.format,
+        fileName: options.fileName,
+        bankName: options.bankName || null,
+        importedCount: newRows.length,
+        duplicateCount: preview.duplicateCount,
+        errorCount: preview.errors.length,
+      },
+    });
+
+    await tx.transaction.createMany({
+      data: newRows.map((row, index) => ({
+        userId,
+        importId: created.id,
+        accountId: options.account?.id || null,
+        description: row.description,
+        ...converted[index],
+        type: row.amount < 0 ? "Expense" : "Income",
+        category: row.category,
+        categorySource: row.categorySource,
+        categoryConfidence: row.categoryConfidence,
+        categoryRuleId: row.categoryRuleId,
+        date: row.date,
+        notes: row.memo || null,
+        externalId: row.externalId || null,
+      })),
+    });
+
+    await tx.dataProvenance.create({
+      data: {
+        userId,
+        dataType: "finance",
+        source: "imported",
+        sourceId: created.id,
+        consentGiven: true, // The user uploaded the statement themselves
+        purpose: `Bank statement import: ${options.fileName}`,
+        retentionPolicy: "until_deleted",
+      },
+    });
+
+    return created;
+  });
+
+  if (newRows.length > 0) {
+    emitAutomationEvent("transaction.created", userId, buildBatchEventData(statementImport.id, rowsInBase));
+  }
+
+  return {
+    ...preview,
+    importId: statementImport.id,
+    importedCount: newRows.length,
+  };
+}
+
+// The bank's own category is kept; otherwise rules and the classifier decide
+function categorizeRow(row: StatementPreviewRow, categorize: Categorizer): CategorizedRow {
+  const { duplicate: _duplicate, ...transaction } = row;
+
+  if (row.category) {
+    return { ...transaction, category: row.category, categorySource: "import", categoryConfidence: null, categoryRuleId: null };
+  }
+
+  const assignment = categorize({
+    description: row.description,
+    amount: Math.abs(row.amount),
+    type: row.amount < 0 ? "Expense" : "Income",
+  });
+
+  return assignment
+    ? {
+      ...transaction,
+      category: assignment.category,
+      categorySource: assignment.source,
+      categoryConfidence: assignment.confidence,
+      categoryRuleId: assignment.ruleId || null,
+    }
+    : { ...transaction, category: UNCATEGORIZED, categorySource: null, categoryConfidence: null, categoryRuleId: null };
+}
+
+// Statement amounts are in the account's currency; stored amounts in the base currency
+async function convertRows(userId: string, rows: CategorizedRow[], base: string, currency?: string): Promise<BaseCurrencyFields[]> {
+  const unconverted = rows.map((row) => ({
+    amount: Math.abs(row.amount),
+    originalAmount: null,
+    originalCurrency: null,
+    exchangeRate: null,
+    rateDate: null,
+  }));
+  if (!currency || rows.length === 0) {
+    return unconverted;
+  }
+
+  if (currency === base) {
+    return unconverted;
+  }
+
+  const times = rows.map((row) => row.date.getTime());
+  const lookup = await loadRateLookup(userId, [currency, base], new Date(Math.min(...times)), new Date(Math.max(...times)));
+
+  return rows.map((row) => {
+    const quote = lookup(currency, base, row.date);
+    if (!quote) {
+      throw new MissingExchangeRateError([currency], row.date);
+    }
+    return {
+      amount: Math.round(Math.abs(row.amount) * quote.rate * 100) / 100,
+      originalAmount: Math.abs(row.amount),
+      originalCurrency: currency,
+      exchangeRate: quote.rate,
+      rateDate: quote.rateDate,
+    };
+  });
+}
+
+async function detectDuplicates(
+  userId: string,
+  transactions: ParsedTransaction[],
+  currency?: string
+): Promise<Map<number, DuplicateMatch>> {
+  if (transactions.length === 0) {
+    return new Map();
+  }
+
+  const times = transactions.map((transaction) => transaction.date.getTime());
+  const existing = await prisma.transaction.findMany({
+    where: {
+      userId,
+      date: {
+        gte: new Date(Math.min(...times) - DATE_TOLERANCE_DAYS * DAY_MS),
+        lte: new Date(Math.max(...times) + DATE_TOLERANCE_DAYS * DAY_MS),
+      },
+    },
+    select: {
+      id: true,
+      date: true,
+      amount: true,
+      originalAmount: true,
+      originalCurrency: true,
+      type: true,
+      description: true,
+      externalId: true,
+    },
+  });
+
+  const matches = findDuplicates(
+    transactions,
+    existing.map((row) => {
+      // Compare in the statement's currency when the stored row was entered in it
+      const amount = currency && row.originalCurrency === currency && row.originalAmount !== null
+        ? row.originalAmount
+        : row.amount;
+      return {
+        id: row.id,
+        date: row.date,
+        // Stored amounts are positive; compare in the statement's signed form
+        amount: row.type === "Expense" ? -amount : amount,
+        description: row.description,
+        externalId: row.externalId,
+      };
+    })
+  );
+
+  return new Map(matches.map((match) => [match.index, match]));
+}
+
+// Triggers filter on individual transactions, so the batch lists them (up to
+// MAX_EVENT_TRANSACTIONS) alongside totals for the whole import
+function buildBatchEventData(importId: string, rows: CategorizedRow[]) {
+  const categories: Record<string, number> = {};
+  let totalIncome = 0;
+  let totalExpenses = 0;
+
+  const transactions = rows.map((row) => {
+    const amount = Math.abs(row.amount);
+    const type = row.amount < 0 ? "Expense" : "Income";
+    const category = row.category;
+
+    if (type === "Expense") {
+      totalExpenses += amount;
+      categories[category] = (categories[category] || 0) + amount;
+    } else {
+      totalIncome += amount;
+    }
+
+    return { description: row.description, amount, type, category, date: row.date };
+  });
+
+  return {
+    batch: true,
+    source: "import",
+    importId,
+    count: rows.length,
+    totalIncome: Math.round(totalIncome * 100) / 100,
+    totalExpenses: Math.round(totalExpenses * 100) / 100,
+    categories,
+    transactions: transactions.slice(0, MAX_EVENT_TRANSACTIONS),
+    truncated: transactions.length > MAX_EVENT_TRANSACTIONS,
+  };
+}
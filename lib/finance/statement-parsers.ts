@@ -0,0 +1,350 @@
+// Parsers for bank statement exports: CSV (with a per-bank column mapping),
+// OFX/QFX (SGML 1.x and XML 2.x) and QIF. Amounts are signed: negative for
+// money leaving the account.
+
+export type StatementFormat = "csv" | "ofx" | "qif";
+
+export type DateFormat = "YYYY-MM-DD" | "MM/DD/YYYY" | "DD/MM/YYYY" | "DD.MM.YYYY" | "YYYYMMDD";
+
+export const DATE_FORMATS: DateFormat[] = ["YYYY-MM-DD", "MM/DD/YYYY", "DD/MM/YYYY", "DD.MM.YYYY", "YYYYMMDD"];
+
+// A statement the caller has to fix: no mapping, missing columns, too many rows
+export class StatementParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StatementParseError";
+  }
+}
+
+export interface ParsedTransaction {
+  date: Date;
+  amount: number;
+  description: string;
+  category?: string;
+  memo?: string;
+  externalId?: string; // OFX FITID or a bank reference column
+}
+
+export interface ParseResult {
+  transactions: ParsedTransaction[];
+  errors: string[]; // One per skipped line/record
+}
+
+export interface CsvColumnMapping {
+  date: string;
+  description: string;
+  amount?: string; // Signed amount column...
+  debit?: string; // ...or separate debit/credit columns
+  credit?: string;
+  category?: string;
+  memo?: string;
+  reference?: string;
+  dateFormat: DateFormat;
+  decimalSeparator?: "." | ",";
+  delimiter?: string;
+  invertSign?: boolean; // For banks that export spending as positive numbers
+  skipRows?: number; // Preamble lines before the header row
+}
+
+export function detectStatementFormat(fileName: string, content: string): StatementFormat {
+  const extension = fileName.toLowerCase().split(".").pop();
+
+  if (extension === "ofx" || extension === "qfx" || /<OFX>/i.test(content)) {
+    return "ofx";
+  }
+  if (extension === "qif" || /^!Type:/im.test(content)) {
+    return "qif";
+  }
+  return "csv";
+}
+
+export function parseStatement(
+  format: StatementFormat,
+  content: string,
+  options: { mapping?: CsvColumnMapping; dateFormat?: DateFormat } = {}
+): ParseResult {
+  switch (format) {
+    case "ofx":
+      return parseOfxStatement(content);
+    case "qif":
+      return parseQifStatement(content, options.dateFormat);
+    case "csv":
+      if (!options.mapping) {
+        throw new StatementParseError("A column mapping is required to import CSV statements");
+      }
+      return parseCsvStatement(content, options.mapping);
+  }
+}
+
+// RFC 4180: quoted fields may contain delimiters, newlines and "" escapes
+export function parseCsvRows(content: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === "\"" && content[i + 1] === "\"") {
+        field += "\"";
+        i++;
+      } else if (char === "\"") {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === "\"") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+// Header row of a CSV export, for building a mapping in the UI
+export function readCsvHeader(content: string, delimiter = ",", skipRows = 0): string[] {
+  return (parseCsvRows(stripBom(content), delimiter)[skipRows] || []).map((cell) => cell.trim());
+}
+
+export function parseCsvStatement(content: string, mapping: CsvColumnMapping): ParseResult {
+  const rows = parseCsvRows(stripBom(content), mapping.delimiter || ",").slice(mapping.skipRows || 0);
+  const header = (rows.shift() || []).map((cell) => cell.trim());
+  const result: ParseResult = { transactions: [], errors: [] };
+
+  const column = (name?: string) => (name ? header.indexOf(name) : -1);
+  const dateIndex = column(mapping.date);
+  const descriptionIndex = column(mapping.description);
+  const amountIndex = column(mapping.amount);
+  const debitIndex = column(mapping.debit);
+  const creditIndex = column(mapping.credit);
+
+  if (dateIndex < 0 || descriptionIndex < 0 || (amountIndex < 0 && debitIndex < 0 && creditIndex < 0)) {
+    const missing = [
+      dateIndex < 0 ? `date "${mapping.date}"` : null,
+      descriptionIndex < 0 ? `description "${mapping.description}"` : null,
+      amountIndex < 0 && debitIndex < 0 && creditIndex < 0 ? "amount (or debit/credit)" : null,
+    ].filter(Boolean);
+    throw new StatementParseError(`CSV is missing mapped columns: ${missing.join(", ")}`);
+  }
+
+  rows.forEach((cells, index) => {
+    const line = index + 2 + (mapping.skipRows || 0);
+    const cell = (columnIndex: number) => (columnIndex >= 0 ? (cells[columnIndex] || "").trim() : "");
+
+    try {
+      let amount: number;
+      if (amountIndex >= 0) {
+        amount = parseAmount(cell(amountIndex), mapping.decimalSeparator);
+      } else {
+        // Debit columns hold spending as a positive number
+        const debit = cell(debitIndex) ? Math.abs(parseAmount(cell(debitIndex), mapping.decimalSeparator)) : 0;
+        const credit = cell(creditIndex) ? Math.abs(parseAmount(cell(creditIndex), mapping.decimalSeparator)) : 0;
+        amount = credit - debit;
+      }
+
+      if (mapping.invertSign) {
+        amount = -amount;
+      }
+
+      result.transactions.push({
+        date: parseDate(cell(dateIndex), mapping.dateFormat),
+        amount,
+        description: cell(descriptionIndex) || "Imported transaction",
+        category: cell(column(mapping.category)) || undefined,
+        memo: cell(column(mapping.memo)) || undefined,
+        externalId: cell(column(mapping.reference)) || undefined,
+      });
+    } catch (error) {
+      result.errors.push(`Line ${line}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  return result;
+}
+
+export function parseOfxStatement(content: string): ParseResult {
+  const result: ParseResult = { transactions: [], errors: [] };
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+  blocks.forEach((block, index) => {
+    // SGML OFX leaves leaf elements unclosed, so read up to the next tag or line break
+    const field = (tag: string) => {
+      const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+      return match ? decodeEntities(match[1].trim()) : "";
+    };
+
+    try {
+      const name = field("NAME") || field("PAYEE");
+      const memo = field("MEMO");
+
+      result.transactions.push({
+        date: parseOfxDate(field("DTPOSTED")),
+        amount: parseAmount(field("TRNAMT")),
+        description: name || memo || field("TRNTYPE") || "Imported transaction",
+        memo: name && memo ? memo : undefined,
+        externalId: field("FITID") || undefined,
+      });
+    } catch (error) {
+      result.errors.push(`Transaction ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  return result;
+}
+
+export function parseQifStatement(content: string, dateFormat: DateFormat = "MM/DD/YYYY"): ParseResult {
+  const result: ParseResult = { transactions: [], errors: [] };
+  let record: Record<string, string> = {};
+  let recordNumber = 0;
+
+  const flush = () => {
+    if (Object.keys(record).length === 0) {
+      return;
+    }
+    recordNumber++;
+
+    try {
+      const category = record.L && !record.L.startsWith("[") ? record.L : undefined; // [Account] is a transfer
+      result.transactions.push({
+        date: parseDate((record.D || "").replace(/'\s*/, "/20").replace(/\s+/g, ""), dateFormat),
+        amount: parseAmount(record.T ?? record.U),
+        description: record.P || record.M || "Imported transaction",
+        category,
+        memo: record.P && record.M ? record.M : undefined,
+        externalId: record.N || undefined,
+      });
+    } catch (error) {
+      result.errors.push(`Record ${recordNumber}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    record = {};
+  };
+
+  for (const rawLine of stripBom(content).split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("!")) {
+      continue;
+    }
+    if (line === "^") {
+      flush();
+      continue;
+    }
+
+    const code = line[0];
+    // Split lines (S/E/$) describe category splits; the total is on T
+    if (!"SE$".includes(code) && record[code] === undefined) {
+      record[code] = line.slice(1).trim();
+    }
+  }
+  flush();
+
+  return result;
+}
+
+// Handles "1,234.56", "-12", "(12.00)", "$ 5", "12-" and "1.234,56" with decimalSeparator ","
+export function parseAmount(value: string | undefined, decimalSeparator: "." | "," = "."): number {
+  if (value === undefined || value.trim() === "") {
+    throw new StatementParseError("Missing amount");
+  }
+
+  let text = value.trim();
+  let negative = false;
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith("-")) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  text = text.replace(/[^\d.,+-]/g, "");
+  text = decimalSeparator === ","
+    ? text.replace(/\./g, "").replace(",", ".")
+    : text.replace(/,/g, "");
+
+  const amount = Number(text);
+  if (!Number.isFinite(amount) || text === "") {
+    throw new StatementParseError(`Invalid amount "${value}"`);
+  }
+
+  return Math.round((negative ? -Math.abs(amount) : amount) * 100) / 100;
+}
+
+// Dates are stored at noon UTC so they don't shift a day in any timezone
+export function parseDate(value: string | undefined, format: DateFormat): Date {
+  const text = (value || "").trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const parts = text.split(/[-/.]/).map(Number);
+
+  switch (format) {
+    case "YYYY-MM-DD":
+      [year, month, day] = parts;
+      break;
+    case "MM/DD/YYYY":
+      [month, day, year] = parts;
+      break;
+    case "DD/MM/YYYY":
+    case "DD.MM.YYYY":
+      [day, month, year] = parts;
+      break;
+    case "YYYYMMDD":
+      [year, month, day] = [Number(text.slice(0, 4)), Number(text.slice(4, 6)), Number(text.slice(6, 8))];
+      break;
+  }
+
+  if (year !== undefined && year < 100) {
+    year += 2000;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day, 12));
+  if (
+    !Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day) ||
+    date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day
+  ) {
+    throw new StatementParseError(`Invalid date "${value}" (expected ${format})`);
+  }
+
+  return date;
+}
+
+// OFX dates: YYYYMMDD[HHMMSS[.XXX]][[+-offset:TZ]]; only the calendar date matters here
+function parseOfxDate(value: string): Date {
+  return parseDate(value.slice(0, 8), "YYYYMMDD");
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function stripBom(content: string): string {
+  return content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+}
@@ -0,0 +1,144 @@
+// Finds likely subscriptions in transaction history: charges from the same
+// merchant at a regular cadence with similar amounts. Also reports when the
+// most recent charge differs from the one before it (a price change).
+
+export interface ChargeRecord {
+  id: string;
+  date: Date;
+  amount: number; // Positive, as stored
+  description: string;
+}
+
+export type SubscriptionCadence = "weekly" | "biweekly" | "monthly" | "quarterly" | "yearly";
+
+export interface DetectedSubscriptionCandidate {
+  merchant: string; // Normalized key used to group charges
+  displayName: string; // Description of the latest charge
+  cadence: SubscriptionCadence;
+  intervalDays: number; // Median gap between charges
+  amount: number; // Latest charge
+  previousAmount: number | null;
+  occurrences: number;
+  firstChargedAt: Date;
+  lastChargedAt: Date;
+  nextExpectedAt: Date;
+  active: boolean; // Still charging: the next charge isn't overdue
+  transactionIds: string[];
+  priceChange: { from: number; to: number; changedAt: Date } | null;
+}
+
+const CADENCES: { cadence: SubscriptionCadence; days: number; tolerance: number; minOccurrences: number }[] = [
+  { cadence: "weekly", days: 7, tolerance: 1, minOccurrences: 4 },
+  { cadence: "biweekly", days: 14, tolerance: 2, minOccurrences: 3 },
+  { cadence: "monthly", days: 30.44, tolerance: 4, minOccurrences: 3 },
+  { cadence: "quarterly", days: 91.3, tolerance: 8, minOccurrences: 3 },
+  { cadence: "yearly", days: 365.25, tolerance: 15, minOccurrences: 2 },
+];
+
+// Share of gaps / amounts that must fit the pattern
+const MIN_REGULAR_SHARE = 0.75;
+// Amounts within this fraction of the median count as "the same price"
+const AMOUNT_TOLERANCE = 0.25;
+// Changes smaller than this fraction (and a cent) are rounding noise
+const MIN_PRICE_CHANGE = 0.01;
+// A subscription is inactive once a charge is this many cadences overdue
+const OVERDUE_FACTOR = 1.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Prefixes banks put in front of the merchant name
+const NOISE_WORDS = new Set([
+  "pos", "debit", "credit", "card", "purchase", "payment", "recurring", "visa", "mastercard",
+  "sq", "tst", "paypal", "ach", "online", "www", "com", "inc", "ltd", "llc", "the",
+]);
+
+export function detectSubscriptions(charges: ChargeRecord[], now = new Date()): DetectedSubscriptionCandidate[] {
+  const groups = new Map<string, ChargeRecord[]>();
+
+  for (const charge of charges) {
+    const key = merchantKey(charge.description);
+    if (!key) {
+      continue;
+    }
+    const group = groups.get(key) || [];
+    group.push(charge);
+    groups.set(key, group);
+  }
+
+  const detected: DetectedSubscriptionCandidate[] = [];
+  groups.forEach((group, merchant) => {
+    const candidate = analyzeGroup(merchant, group, now);
+    if (candidate) {
+      detected.push(candidate);
+    }
+  });
+
+  return detected.sort((a, b) => b.amount - a.amount);
+}
+
+export function merchantKey(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/[^a-z ]+/g, " ")
+    .split(/\s+/)
+    .filter((word) => word.length >= 2 && !NOISE_WORDS.has(word))
+    .slice(0, 3)
+    .join(" ");
+}
+
+function analyzeGroup(merchant: string, group: ChargeRecord[], now: Date): DetectedSubscriptionCandidate | null {
+  const charges = [...group].sort((a, b) => a.date.getTime() - b.date.getTime());
+  if (charges.length < 2) {
+    return null;
+  }
+
+  const gaps = charges.slice(1).map((charge, index) => (charge.date.getTime() - charges[index].date.getTime()) / DAY_MS);
+  const intervalDays = median(gaps);
+  const match = CADENCES.find((entry) => Math.abs(intervalDays - entry.days) <= entry.tolerance);
+
+  if (!match || charges.length < match.minOccurrences) {
+    return null;
+  }
+
+  const regularGaps = gaps.filter((gap) => Math.abs(gap - match.days) <= match.tolerance).length;
+  if (regularGaps / gaps.length < MIN_REGULAR_SHARE) {
+    return null;
+  }
+
+  const typicalAmount = median(charges.map((charge) => charge.amount));
+  const similarAmounts = charges.filter((charge) => Math.abs(charge.amount - typicalAmount) <= typicalAmount * AMOUNT_TOLERANCE).length;
+  if (similarAmounts / charges.length < MIN_REGULAR_SHARE) {
+    return null;
+  }
+
+  const latest = charges[charges.length - 1];
+  const previous = charges[charges.length - 2];
+  const difference = Math.abs(latest.amount - previous.amount);
+  const priceChange = difference >= 0.01 && difference >= previous.amount * MIN_PRICE_CHANGE
+    ? { from: previous.amount, to: latest.amount, changedAt: latest.date }
+    : null;
+
+  const nextExpectedAt = new Date(latest.date.getTime() + Math.round(match.days) * DAY_MS);
+
+  return {
+    merchant,
+    displayName: latest.description,
+    cadence: match.cadence,
+    intervalDays: Math.round(intervalDays * 10) / 10,
+    amount: latest.amount,
+    previousAmount: previous.amount,
+    occurrences: charges.length,
+    firstChargedAt: charges[0].date,
+    lastChargedAt: latest.date,
+    nextExpectedAt,
+    active: now.getTime() - latest.date.getTime() <= match.days * OVERDUE_FACTOR * DAY_MS,
+    transactionIds: charges.map((charge) => charge.id),
+    priceChange,
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
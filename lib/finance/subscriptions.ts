@@ -0,0 +1,112 @@
+import { prisma } from "../database";
+import { DetectedSubscriptionCandidate, detectSubscriptions } from "./subscription-detection";
+
+// Long enough to see two yearly charges
+const DETECTION_LOOKBACK_DAYS = 400;
+// Only alert on price changes this recent; older ones are history, not news
+const PRICE_CHANGE_ALERT_DAYS = 45;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SubscriptionRefreshResult {
+  detected: number;
+  priceChanges: number;
+}
+
+// Re-run detection over the user's expenses, update DetectedSubscription rows and
+// raise a ProactiveInsight for each new price change. Charges materialized from
+// recurring templates are excluded: the user already knows about those.
+export async function refreshDetectedSubscriptions(userId: string, now = new Date()): Promise<SubscriptionRefreshResult> {
+  const [charges, existing] = await Promise.all([
+    prisma.transaction.findMany({
+      where: {
+        userId,
+        type: "Expense",
+        recurringId: null,
+        date: { gte: new Date(now.getTime() - DETECTION_LOOKBACK_DAYS * DAY_MS) },
+      },
+      select: { id: true, date: true, amount: true, description: true },
+    }),
+    prisma.detectedSubscription.findMany({ where: { userId } }),
+  ]);
+
+  const known = new Map(existing.map((subscription) => [subscription.merchant, subscription]));
+  const candidates = detectSubscriptions(charges, now);
+  let priceChanges = 0;
+
+  for (const candidate of candidates) {
+    const previous = known.get(candidate.merchant);
+    const dismissed = previous?.status === "dismissed";
+    const alert = !dismissed && candidate.active && isNewPriceChange(candidate, previous?.lastPriceChangeAt, now);
+
+    const subscription = await prisma.detectedSubscription.upsert({
+      where: { userId_merchant: { userId, merchant: candidate.merchant } },
+      create: {
+        userId,
+        ...toRecord(candidate),
+        status: candidate.active ? "active" : "inactive",
+        lastPriceChangeAt: alert ? candidate.priceChange!.changedAt : null,
+      },
+      update: {
+        ...toRecord(candidate),
+        status: dismissed ? "dismissed" : candidate.active ? "active" : "inactive",
+        ...(alert ? { lastPriceChangeAt: candidate.priceChange!.changedAt } : {}),
+      },
+    });
+
+    if (alert) {
+      await createPriceChangeInsight(userId, subscription.id, candidate);
+      priceChanges++;
+    }
+  }
+
+  return { detected: candidates.length, priceChanges };
+}
+
+function isNewPriceChange(candidate: DetectedSubscriptionCandidate, lastAlertedAt: Date | null | undefined, now: Date): boolean {
+  const change = candidate.priceChange;
+  if (!change || now.getTime() - change.changedAt.getTime() > PRICE_CHANGE_ALERT_DAYS * DAY_MS) {
+    return false;
+  }
+  return !lastAlertedAt || change.changedAt > lastAlertedAt;
+}
+
+async function createPriceChangeInsight(userId: string, subscriptionId: string, candidate: DetectedSubscriptionCandidate) {
+  const { from, to, changedAt } = candidate.priceChange!;
+  const increased = to > from;
+  const percent = Math.round((Math.abs(to - from) / from) * 100);
+
+  await prisma.proactiveInsight.create({
+    data: {
+      userId,
+      type: "finance",
+      title: `${candidate.displayName} ${increased ? "raised" : "lowered"} its price`,
+      description: `Your ${candidate.cadence} charge went from $${from.toFixed(2)} to $${to.toFixed(2)} ` +
+        `(${increased ? "+" : "-"}${percent}%) on ${changedAt.toISOString().slice(0, 10)}.` +
+        (increased ? " Worth checking whether you still use it." : ""),
+      priority: increased ? "medium" : "low",
+      data: {
+        kind: "subscription_price_change",
+        subscriptionId,
+        merchant: candidate.merchant,
+        from,
+        to,
+        changedAt: changedAt.toISOString(),
+      },
+    },
+  });
+}
+
+function toRecord(candidate: DetectedSubscriptionCandidate) {
+  return {
+    merchant: candidate.merchant,
+    displayName: candidate.displayName,
+    cadence: candidate.cadence,
+    intervalDays: candidate.intervalDays,
+    amount: candidate.amount,
+    previousAmount: candidate.previousAmount,
+    occurrences: candidate.occurrences,
+    lastChargedAt: candidate.lastChargedAt,
+    nextExpectedAt: candidate.nextExpectedAt,
+  };
+}
@@ -0,0 +1,97 @@
+import { ParsedTransaction } from "./statement-parsers";
+
+// Fuzzy duplicate detection for imported transactions. A candidate duplicates
+// an existing row when the bank reference matches, or when the amount matches
+// to the cent, the dates are within a few days (posting lag) and the
+// descriptions share most of their words ("POS 4411 STARBUCKS #12" ~ "Starbucks").
+
+export const DATE_TOLERANCE_DAYS = 3;
+export const DESCRIPTION_SIMILARITY_THRESHOLD = 0.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ExistingTransaction {
+  id: string;
+  date: Date;
+  amount: number; // Signed, like ParsedTransaction
+  description: string;
+  externalId?: string | null;
+}
+
+export interface DuplicateMatch {
+  index: number; // Position in the candidate list
+  existingId: string;
+  reason: "reference" | "fuzzy";
+  similarity: number;
+}
+
+export function findDuplicates(
+  candidates: ParsedTransaction[],
+  existing: ExistingTransaction[]
+): DuplicateMatch[] {
+  const matches: DuplicateMatch[] = [];
+  // Each existing row absorbs at most one candidate, so two identical coffees
+  // on the same day still import one new row if only one was already there
+  const used = new Set<string>();
+  const byReference = new Map(existing.filter((row) => row.externalId).map((row) => [row.externalId!, row]));
+
+  candidates.forEach((candidate, index) => {
+    const referenceMatch = candidate.externalId ? byReference.get(candidate.externalId) : undefined;
+    if (referenceMatch && !used.has(referenceMatch.id)) {
+      used.add(referenceMatch.id);
+      matches.push({ index, existingId: referenceMatch.id, reason: "reference", similarity: 1 });
+      return;
+    }
+
+    let best: { row: ExistingTransaction; similarity: number } | null = null;
+
+    for (const row of existing) {
+      if (used.has(row.id) || Math.round(row.amount * 100) !== Math.round(candidate.amount * 100)) {
+        continue;
+      }
+      if (Math.abs(row.date.getTime() - candidate.date.getTime()) > DATE_TOLERANCE_DAYS * DAY_MS) {
+        continue;
+      }
+
+      const similarity = descriptionSimilarity(candidate.description, row.description);
+      if (similarity >= DESCRIPTION_SIMILARITY_THRESHOLD && (!best || similarity > best.similarity)) {
+        best = { row, similarity };
+      }
+    }
+
+    if (best) {
+      used.add(best.row.id);
+      matches.push({ index, existingId: best.row.id, reason: "fuzzy", similarity: best.similarity });
+    }
+  });
+
+  return matches;
+}
+
+// Overlap coefficient of the descriptions' word sets, ignoring card numbers,
+// store numbers and other short tokens
+export function descriptionSimilarity(a: string, b: string): number {
+  const wordsA = tokenize(a);
+  const wordsB = tokenize(b);
+
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return normalize(a) === normalize(b) ? 1 : 0;
+  }
+
+  let shared = 0;
+  wordsA.forEach((word) => {
+    if (wordsB.has(word)) {
+      shared++;
+    }
+  });
+
+  return shared / Math.min(wordsA.size, wordsB.size);
+}
+
+function tokenize(value: string): Set<string> {
+  return new Set(normalize(value).split(" ").filter((word) => word.length >= 3 && !/\d/.test(word)));
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
@@ -0,0 +1,435 @@
+// Flashcard import and export: CSV (compatible with Anki's text import and
+// export) and Anki .apkg packages. An .apkg is a zip holding a SQLite
+// collection; we read the legacy collection formats (collection.anki2 and
+// collection.anki21) and write collection.anki2, which every Anki version
+// imports. Scheduling comes along both ways so reviews carry on where they
+// left off.
+
+import { createHash, randomBytes } from "crypto";
+import { parseCsvRows } from "../finance/statement-parsers";
+import { readSqliteSchema, readSqliteTable, writeSqlite } from "../sqlite-file";
+import type { SqliteRow } from "../sqlite-file";
+import { readZip, writeZip } from "../zip";
+import { CardDraft, CardSchedule, CardState, STARTING_EASE } from "./spaced-repetition";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FIELD_SEPARATOR = "\x1f";
+
+export interface ImportedCard extends CardDraft {
+  deckName?: string; // Anki deck, "Parent::Child"
+  schedule?: CardSchedule; // Anki's scheduling, when the file carries it
+}
+
+export interface ExportedCard {
+  front: string;
+  back: string;
+  tags: string[];
+  schedule: CardSchedule;
+}
+
+export class FlashcardImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FlashcardImportError";
+  }
+}
+
+// --- Text helpers ---
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/\[sound:[^\]]*\]/g, "")
+    .replace(/<br\s*\/?>|<\/(div|p|li|tr|h\d)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, "&")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function textToHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\n/g, "<br>");
+}
+
+// --- CSV ---
+
+const SEPARATORS: Record<string, string> = { comma: ",", tab: "\t", semicolon: ";", pipe: "|", space: " " };
+
+// Columns: front, back and optional space-separated tags. Understands Anki's
+// "#separator:", "#html:" and "#tags column:" header lines and an optional
+// front/back header row.
+export function parseCardsCsv(content: string): ImportedCard[] {
+  const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const directives: Record<string, string> = {};
+  while (lines.length > 0 && lines[0].startsWith("#")) {
+    const [key, ...value] = lines.shift()!.slice(1).split(":");
+    directives[key.trim().toLowerCase()] = value.join(":").trim();
+  }
+  const body = lines.join("\n");
+
+  const firstLine = lines.find((line) => line.trim()) ?? "";
+  const separator = directives.separator;
+  const delimiter = separator
+    ? SEPARATORS[separator.toLowerCase()] ?? separator.slice(0, 1)
+    : firstLine.includes("\t") ? "\t" : firstLine.includes(";") && !firstLine.includes(",") ? ";" : ",";
+  const html = directives.html === "true";
+  const tagsColumn = directives["tags column"] ? parseInt(directives["tags column"]) - 1 : 2;
+
+  const rows = parseCsvRows(body, delimiter);
+  if (rows.length > 0 && /^(front|question|term)$/i.test(rows[0][0]?.trim()) && /^(back|answer|definition)$/i.test(rows[0][1]?.trim())) {
+    rows.shift();
+  }
+
+  const clean = (value: string | undefined) => (html ? htmlToText(value ?? "") : (value ?? "").trim());
+  return rows
+    .map((row) => ({
+      front: clean(row[0]),
+      back: clean(row[1]),
+      tags: (row[tagsColumn] ?? "").split(/\s+/).filter(Boolean),
+    }))
+    .filter((card) => card.front && card.back);
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, "\"\"")}"` : value;
+}
+
+export function cardsToCsv(cards: CardDraft[]): string {
+  const header = ["#separator:comma", "#html:false", "#columns:Front,Back,Tags", "#tags column:3"];
+  const rows = cards.map((card) => [card.front, card.back, (card.tags ?? []).join(" ")].map(csvField).join(","));
+  return [...header, ...rows].join("\n") + "\n";
+}
+
+// --- Anki templates ---
+
+interface AnkiModel {
+  type: number; // 0 standard, 1 cloze
+  fields: string[];
+  templates: { ord: number; qfmt: string; afmt: string }[];
+}
+
+// {{c1::answer::hint}} deletions; the one being asked becomes [...] on the front
+function renderCloze(text: string, ord: number, side: "front" | "back"): string {
+  return text.replace(/\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g, (_, number, answer, hint) => {
+    if (Number(number) !== ord + 1) {
+      return answer;
+    }
+    return side === "front" ? `[${hint || "..."}]` : answer;
+  });
+}
+
+function renderTemplate(template: string, fields: Record<string, string>, ord: number, side: "front" | "back"): string {
+  const value = (name: string) => fields[name.trim()] ?? "";
+  let output = template;
+  // Conditional sections, innermost first
+  for (let i = 0; i < 10 && /\{\{[#^]/.test(output); i++) {
+    output = output.replace(/\{\{([#^])([^}]+)\}\}((?:(?!\{\{[#^])[\s\S])*?)\{\{\/\2\}\}/g, (_, kind, name, inner) =>
+      (kind === "#") === Boolean(htmlToText(value(name))) ? inner : ""
+    );
+  }
+  return output
+    .replace(/\{\{FrontSide\}\}/g, "")
+    .replace(/<hr id=["']?answer["']?\s*\/?>/gi, "")
+    .replace(/\{\{([^}]+)\}\}/g, (_, tag: string) => {
+      const parts = tag.split(":");
+      const name = parts[parts.length - 1];
+      if (parts.includes("type")) {
+        return "";
+      }
+      return parts.includes("cloze") ? renderCloze(value(name), ord, side) : value(name);
+    });
+}
+
+function readModels(col: SqliteRow): Map<number, AnkiModel> {
+  const models = new Map<number, AnkiModel>();
+  if (typeof col.models !== "string" || !col.models) {
+    return models;
+  }
+  for (const model of Object.values(JSON.parse(col.models)) as any[]) {
+    models.set(Number(model.id), {
+      type: model.type ?? 0,
+      fields: (model.flds ?? []).sort((a: any, b: any) => a.ord - b.ord).map((field: any) => field.name),
+      templates: (model.tmpls ?? []).map((template: any) => ({ ord: template.ord, qfmt: template.qfmt, afmt: template.afmt })),
+    });
+  }
+  return models;
+}
+
+function readDeckNames(collection: Buffer, col: SqliteRow): Map<number, string> {
+  const names = new Map<number, string>();
+  if (typeof col.decks === "string" && col.decks) {
+    for (const deck of Object.values(JSON.parse(col.decks)) as any[]) {
+      names.set(Number(deck.id), deck.name);
+    }
+  } else if (readSqliteSchema(collection).some((table) => table.name === "decks")) {
+    // Newer collections keep decks in their own table, with \x1f between levels
+    for (const deck of readSqliteTable(collection, "decks")) {
+      names.set(Number(deck.id), String(deck.name).split(FIELD_SEPARATOR).join("::"));
+    }
+  }
+  return names;
+}
+
+// --- Anki scheduling ---
+
+const ANKI_CARD_TYPES: CardState[] = ["new", "learning", "review", "relearning"];
+
+function ankiSchedule(card: SqliteRow, crt: number, lastReview: number | undefined): CardSchedule {
+  const type = Number(card.type);
+  const queue = Number(card.queue);
+  const due = Number(card.due);
+  const state = ANKI_CARD_TYPES[type] ?? "new";
+  const interval = Math.max(0, Number(card.ivl));
+
+  let dueAt = new Date();
+  if (state === "review" || queue === 3) {
+    dueAt = new Date((crt + due * 86400) * 1000); // Days since the collection was created
+  } else if (state !== "new") {
+    dueAt = new Date(due * 1000); // Learning cards are due at a timestamp
+  }
+
+  return {
+    state,
+    step: 0,
+    ease: Number(card.factor) > 0 ? Number(card.factor) / 1000 : STARTING_EASE,
+    interval,
+    repetitions: Number(card.reps),
+    lapses: Number(card.lapses),
+    dueAt,
+    lastReviewedAt: state === "new"
+      ? null
+      : new Date(lastReview ?? (state === "review" ? dueAt.getTime() - interval * DAY_MS : Date.now())),
+  };
+}
+
+// --- .apkg ---
+
+export function parseApkg(buffer: Buffer): ImportedCard[] {
+  const files = readZip(buffer);
+  const collection = files.get("collection.anki21") ?? files.get("collection.anki2");
+  if (!collection) {
+    throw new FlashcardImportError(
+      files.has("collection.anki21b")
+        ? "This deck uses Anki's newest package format. Export it again with \"Support older Anki versions\" ticked."
+        : "Not an Anki package: collection file missing"
+    );
+  }
+
+  const [col] = readSqliteTable(collection, "col");
+  if (!col) {
+    throw new FlashcardImportError("Anki collection is empty");
+  }
+  const crt = Number(col.crt);
+  const models = readModels(col);
+  const deckNames = readDeckNames(collection, col);
+
+  const notes = new Map(readSqliteTable(collection, "notes").map((note) => [Number(note.id), note]));
+  const lastReviews = new Map<number, number>();
+  for (const entry of readSqliteTable(collection, "revlog")) {
+    lastReviews.set(Number(entry.cid), Math.max(lastReviews.get(Number(entry.cid)) ?? 0, Number(entry.id)));
+  }
+
+  const cards: ImportedCard[] = [];
+  for (const card of readSqliteTable(collection, "cards")) {
+    const note = notes.get(Number(card.nid));
+    if (!note) {
+      continue;
+    }
+    const values = String(note.flds).split(FIELD_SEPARATOR);
+    const model = models.get(Number(note.mid));
+    const ord = Number(card.ord);
+
+    let front: string;
+    let back: string;
+    const template = model && (model.type === 1 ? model.templates[0] : model.templates.find((entry) => entry.ord === ord));
+    if (model && template) {
+      const fields = Object.fromEntries(model.fields.map((name, i) => [name, values[i] ?? ""]));
+      front = renderTemplate(template.qfmt, fields, ord, "front");
+      back = renderTemplate(template.afmt, fields, ord, "back");
+    } else {
+      // No note type to go by: first field is the question, the rest the answer
+      front = /\{\{c\d+::/.test(values[0]) ? renderCloze(values[0], ord, "front") : values[0];
+      back = /\{\{c\d+::/.test(values[0]) ? renderCloze(values[0], ord, "back") : values.slice(1).join("\n");
+    }
+
+    front = htmlToText(front);
+    back = htmlToText(back);
+    if (!front || !back) {
+      continue;
+    }
+    cards.push({
+      front,
+      back,
+      tags: String(note.tags ?? "").split(/\s+/).filter(Boolean),
+      deckName: deckNames.get(Number(card.did)),
+      schedule: ankiSchedule(card, crt, lastReviews.get(Number(card.id))),
+    });
+  }
+  return cards;
+}
+
+const ANKI_TABLES = {
+  col: "CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null)",
+  notes: "CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null)",
+  cards: "CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null)",
+  revlog: "CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null)",
+  graves: "CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null)",
+};
+
+function ankiDeck(id: number, name: string, now: number) {
+  return {
+    id,
+    name,
+    mod: Math.floor(now / 1000),
+    usn: 0,
+    lrnToday: [0, 0],
+    revToday: [0, 0],
+    newToday: [0, 0],
+    timeToday: [0, 0],
+    collapsed: false,
+    desc: "",
+    dyn: 0,
+    conf: 1,
+    extendNew: 10,
+    extendRev: 50,
+  };
+}
+
+// A "Basic" note type (Front/Back) with one card per note
+function ankiModel(id: number, deckId: number, now: number) {
+  const field = (name: string, ord: number) => ({ name, ord, sticky: false, rtl: false, font: "Arial", size: 20, media: [] });
+  return {
+    id,
+    name: "Basic",
+    type: 0,
+    mod: Math.floor(now / 1000),
+    usn: 0,
+    sortf: 0,
+    did: deckId,
+    tmpls: [{ name: "Card 1", ord: 0, qfmt: "{{Front}}", afmt: "{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}", did: null, bqfmt: "", bafmt: "" }],
+    flds: [field("Front", 0), field("Back", 1)],
+    css: ".card {\n font-family: arial;\n font-size: 20px;\n text-align: center;\n color: black;\n background-color: white;\n}\n",
+    latexPre: "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+    latexPost: "\\end{document}",
+    req: [[0, "any", [0]]],
+    tags: [],
+    vers: [],
+  };
+}
+
+const ANKI_DECK_OPTIONS = {
+  id: 1,
+  name: "Default",
+  mod: 0,
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  dyn: false,
+  new: { delays: [1, 10], ints: [1, 4, 0], initialFactor: 2500, order: 1, perDay: 20, bury: false, separate: true },
+  rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, hardFactor: 1.2, bury: false },
+  lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 1 },
+};
+
+function ankiCardFields(schedule: CardSchedule, crt: number, position: number) {
+  const type = ANKI_CARD_TYPES.indexOf(schedule.state);
+  if (schedule.state === "new") {
+    return { type, queue: 0, due: position, ivl: 0, factor: 0 };
+  }
+  const factor = Math.round(schedule.ease * 1000);
+  if (schedule.state === "review") {
+    return { type, queue: 2, due: Math.round((schedule.dueAt.getTime() / 1000 - crt) / 86400), ivl: schedule.interval, factor };
+  }
+  return { type, queue: 1, due: Math.floor(schedule.dueAt.getTime() / 1000), ivl: schedule.interval, factor };
+}
+
+export function buildApkg(deckName: string, cards: ExportedCard[], now = new Date()): Buffer {
+  const ms = now.getTime();
+  const crt = Math.floor(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) / 1000);
+  const deckId = ms;
+  const modelId = ms + 1;
+
+  const notes: SqliteRow[] = [];
+  const ankiCards: SqliteRow[] = [];
+  cards.forEach((card, i) => {
+    const front = textToHtml(card.front);
+    notes.push({
+      id: ms + i,
+      guid: randomBytes(8).toString("base64").replace(/[+/=]/g, "").slice(0, 10),
+      mid: modelId,
+      mod: Math.floor(ms / 1000),
+      usn: -1,
+      tags: card.tags.length > 0 ? ` ${card.tags.join(" ")} ` : "",
+      flds: [front, textToHtml(card.back)].join(FIELD_SEPARATOR),
+      sfld: card.front,
+      csum: parseInt(createHash("sha1").update(card.front).digest("hex").slice(0, 8), 16),
+      flags: 0,
+      data: "",
+    });
+    ankiCards.push({
+      id: ms + i,
+      nid: ms + i,
+      did: deckId,
+      ord: 0,
+      mod: Math.floor(ms / 1000),
+      usn: -1,
+      ...ankiCardFields(card.schedule, crt, i + 1),
+      reps: card.schedule.repetitions,
+      lapses: card.schedule.lapses,
+      left: 0,
+      odue: 0,
+      odid: 0,
+      flags: 0,
+      data: "",
+    });
+  });
+
+  const col: SqliteRow = {
+    id: 1,
+    crt,
+    mod: ms,
+    scm: ms,
+    ver: 11,
+    dty: 0,
+    usn: 0,
+    ls: 0,
+    conf: JSON.stringify({
+      nextPos: cards.length + 1,
+      estTimes: true,
+      activeDecks: [deckId],
+      sortType: "noteFld",
+      timeLim: 0,
+      sortBackwards: false,
+      addToCur: true,
+      curDeck: deckId,
+      newSpread: 0,
+      dueCounts: true,
+      curModel: String(modelId),
+      collapseTime: 1200,
+    }),
+    models: JSON.stringify({ [modelId]: ankiModel(modelId, deckId, ms) }),
+    decks: JSON.stringify({ 1: ankiDeck(1, "Default", ms), [deckId]: ankiDeck(deckId, deckName, ms) }),
+    dconf: JSON.stringify({ 1: ANKI_DECK_OPTIONS }),
+    tags: "{}",
+  };
+
+  const collection = writeSqlite([
+    { name: "col", sql: ANKI_TABLES.col, rows: [col] },
+    { name: "notes", sql: ANKI_TABLES.notes, rows: notes },
+    { name: "cards", sql: ANKI_TABLES.cards, rows: ankiCards },
+    { name: "revlog", sql: ANKI_TABLES.revlog, rows: [] },
+    { name: "graves", sql: ANKI_TABLES.graves, rows: [] },
+  ]);
+
+  return writeZip([
+    { name: "collection.anki2", data: collection },
+    { name: "media", data: Buffer.from("{}") },
+  ]);
+}
@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+export const DeckSchema = z.object({
+  name: z.string().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  skillId: z.string().nullable().optional(),
+  newPerDay: z.number().int().min(0).max(500).optional(),
+});
+
+export const CardSchema = z.object({
+  front: z.string().min(1).max(5000),
+  back: z.string().min(1).max(10000),
+  tags: z.array(z.string().max(100)).max(50).optional(),
+});
+
+export const AddCardsSchema = z.object({
+  cards: z.array(CardSchema).min(1).max(500),
+});
+
+export const GenerateCardsSchema = z.object({
+  resourceId: z.string(),
+  useAi: z.boolean().optional(),
+});
+
+export const ReviewSchema = z.object({
+  cardId: z.string(),
+  grade: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4)]),
+  durationMs: z.number().int().min(0).max(60 * 60 * 1000).optional(),
+});
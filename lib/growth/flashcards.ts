@@ -0,0 +1,248 @@
+import { prisma } from "../database";
+import { getUserTimezone } from "../timezone";
+import { ollamaClient } from "../ai/ollama-client";
+import { localDay } from "./habit-schedule";
+import {
+  CardDraft,
+  CardSchedule,
+  CardState,
+  ReviewGrade,
+  cardsFromText,
+  deckMastery,
+  newCardSchedule,
+  reviewCard,
+  reviewQueue,
+} from "./spaced-repetition";
+import type { ImportedCard } from "./flashcard-formats";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_QUEUE = 200;
+
+interface FlashcardRow {
+  id: string;
+  deckId: string;
+  front: string;
+  back: string;
+  tags: string[];
+  state: string;
+  step: number;
+  ease: number;
+  interval: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: Date;
+  lastReviewedAt: Date | null;
+}
+
+export function cardSchedule(card: FlashcardRow): CardSchedule {
+  return {
+    state: card.state as CardState,
+    step: card.step,
+    ease: card.ease,
+    interval: card.interval,
+    repetitions: card.repetitions,
+    lapses: card.lapses,
+    dueAt: card.dueAt,
+    lastReviewedAt: card.lastReviewedAt,
+  };
+}
+
+// Skill.masteryLevel follows the cards in the skill's decks
+export async function refreshSkillMastery(skillId: string, now = new Date()): Promise<number | null> {
+  const cards = await prisma.flashcard.findMany({
+    where: { deck: { skillId } },
+    select: { state: true, interval: true, lastReviewedAt: true },
+  });
+  if (cards.length === 0) {
+    return null;
+  }
+  const masteryLevel = deckMastery(cards.map((card) => ({ ...card, state: card.state as CardState })), now);
+  await prisma.skill.update({ where: { id: skillId }, data: { masteryLevel } });
+  return masteryLevel;
+}
+
+// New cards already introduced today, per deck, in the user's timezone
+async function newSeenToday(deckIds: string[], timeZone: string, now: Date): Promise<Map<string, number>> {
+  const today = localDay(now, timeZone);
+  const reviews = await prisma.flashcardReview.findMany({
+    where: { state: "new", reviewedAt: { gte: new Date(now.getTime() - DAY_MS) }, card: { deckId: { in: deckIds } } },
+    select: { reviewedAt: true, card: { select: { deckId: true } } },
+  });
+  const counts = new Map<string, number>();
+  for (const review of reviews) {
+    if (localDay(review.reviewedAt, timeZone) === today) {
+      counts.set(review.card.deckId, (counts.get(review.card.deckId) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+// Cards to study now across the user's decks (or one deck), with what's left
+export async function studyQueue(userId: string, deckId?: string, now = new Date()) {
+  const decks = await prisma.flashcardDeck.findMany({
+    where: { userId, ...(deckId && { id: deckId }) },
+    include: { cards: true },
+  });
+  const seen = await newSeenToday(decks.map((deck) => deck.id), await getUserTimezone(userId), now);
+
+  const queue = decks.flatMap((deck) =>
+    reviewQueue(
+      deck.cards.map((card) => ({ ...card, state: card.state as CardState })),
+      { newPerDay: deck.newPerDay, newSeenToday: seen.get(deck.id) ?? 0 },
+      now
+    ).map((card) => ({ ...card, deckName: deck.name }))
+  );
+  // Minute-timer learning cards first, then reviews, then new cards, across decks
+  const order: Record<CardState, number> = { learning: 0, relearning: 0, review: 1, new: 2 };
+  queue.sort((a, b) => order[a.state] - order[b.state] || a.dueAt.getTime() - b.dueAt.getTime());
+
+  const nextDue = decks
+    .flatMap((deck) => deck.cards)
+    .filter((card) => card.state !== "new" && card.dueAt > now)
+    .reduce<Date | null>((earliest, card) => (!earliest || card.dueAt < earliest ? card.dueAt : earliest), null);
+
+  return {
+    cards: queue.slice(0, MAX_QUEUE),
+    counts: {
+      learning: queue.filter((card) => card.state === "learning" || card.state === "relearning").length,
+      review: queue.filter((card) => card.state === "review").length,
+      new: queue.filter((card) => card.state === "new").length,
+    },
+    nextDue,
+  };
+}
+
+export async function reviewFlashcard(userId: string, cardId: string, grade: ReviewGrade, durationMs?: number, now = new Date()) {
+  const card = await prisma.flashcard.findFirst({
+    where: { id: cardId, deck: { userId } },
+    include: { deck: { select: { skillId: true } } },
+  });
+  if (!card) {
+    return null;
+  }
+
+  const next = reviewCard(cardSchedule(card), grade, now);
+  const [updated] = await prisma.$transaction([
+    prisma.flashcard.update({ where: { id: card.id }, data: next }),
+    prisma.flashcardReview.create({
+      data: { cardId: card.id, grade, state: card.state, interval: next.interval, ease: next.ease, durationMs, reviewedAt: now },
+    }),
+  ]);
+
+  const masteryLevel = card.deck.skillId ? await refreshSkillMastery(card.deck.skillId, now) : null;
+  return { card: updated, masteryLevel };
+}
+
+export async function deckSummaries(userId: string, now = new Date()) {
+  const decks = await prisma.flashcardDeck.findMany({
+    where: { userId },
+    include: {
+      skill: { select: { id: true, name: true, masteryLevel: true } },
+      cards: { select: { state: true, interval: true, dueAt: true, lastReviewedAt: true } },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return decks.map(({ cards, ...deck }) => {
+    const schedules = cards.map((card) => ({ ...card, state: card.state as CardState }));
+    return {
+      ...deck,
+      total: cards.length,
+      new: cards.filter((card) => card.state === "new").length,
+      due: cards.filter((card) => card.state !== "new" && card.dueAt <= now).length,
+      mastery: deckMastery(schedules, now),
+    };
+  });
+}
+
+// Cards from a resource's AI summary or notes. With useAi, Ollama writes
+// question/answer pairs; otherwise (or if that fails) "Term: definition"
+// lines and Q/A pairs already in the text are used.
+export async function draftCardsFromResource(
+  resource: { title: string; aiSummary: string | null; notes: string | null },
+  useAi = false
+): Promise<CardDraft[]> {
+  const text = [resource.aiSummary, resource.notes].filter(Boolean).join("\n\n");
+  if (!text.trim()) {
+    return [];
+  }
+
+  if (useAi) {
+    try {
+      const reply = await ollamaClient.generateText(
+        `Write flashcards that test the key facts and concepts in these notes on "${resource.title}".
+Write each card as two lines, "Q: <question>" then "A: <short answer>", with a blank line between cards. Write at most 15 cards and nothing else.
+
+${text.slice(0, 6000)}`,
+        1200
+      );
+      const cards = cardsFromText(reply);
+      if (cards.length > 0) {
+        return cards;
+      }
+    } catch (error) {
+      console.error("AI flashcard generation failed:", error);
+    }
+  }
+  return cardsFromText(text);
+}
+
+// Adds cards to a deck, skipping ones whose front is already in it
+export async function addCards(deckId: string, drafts: ImportedCard[], resourceId?: string): Promise<number> {
+  const existing = await prisma.flashcard.findMany({ where: { deckId }, select: { front: true } });
+  const fronts = new Set(existing.map((card) => card.front.toLowerCase()));
+  const fresh = drafts.filter((draft) => {
+    const key = draft.front.toLowerCase();
+    if (fronts.has(key)) {
+      return false;
+    }
+    fronts.add(key);
+    return true;
+  });
+
+  const now = new Date();
+  const { count } = await prisma.flashcard.createMany({
+    data: fresh.map((draft) => ({
+      deckId,
+      front: draft.front,
+      back: draft.back,
+      tags: draft.tags ?? [],
+      resourceId,
+      ...(draft.schedule ?? newCardSchedule(now)),
+    })),
+  });
+  return count;
+}
+
+// Imports into one deck, or into decks named after the file's own decks
+export async function importCards(
+  userId: string,
+  cards: ImportedCard[],
+  options: { deckId?: string; deckName: string; skillId?: string | null }
+) {
+  const groups = new Map<string, ImportedCard[]>();
+  for (const card of cards) {
+    const name = options.deckId ? "" : card.deckName || options.deckName;
+    groups.set(name, [...(groups.get(name) ?? []), card]);
+  }
+
+  const decks: { id: string; name: string; imported: number; skipped: number }[] = [];
+  const skillIds = new Set<string>();
+  for (const [name, group] of Array.from(groups.entries())) {
+    const deck = options.deckId
+      ? await prisma.flashcardDeck.findFirstOrThrow({ where: { id: options.deckId, userId } })
+      : (await prisma.flashcardDeck.findFirst({ where: { userId, name } })) ??
+        (await prisma.flashcardDeck.create({ data: { userId, name, skillId: options.skillId ?? undefined } }));
+    const imported = await addCards(deck.id, group);
+    decks.push({ id: deck.id, name: deck.name, imported, skipped: group.length - imported });
+    if (deck.skillId) {
+      skillIds.add(deck.skillId);
+    }
+  }
+
+  // Imported review history counts towards mastery straight away
+  for (const skillId of Array.from(skillIds)) {
+    await refreshSkillMastery(skillId);
+  }
+  return decks;
+}
@@ -0,0 +1,445 @@
+// Habit frequency rules and the stats derived from HabitLog rows: current and
+// best streak, completion rate and a per-day calendar. Everything works on
+// calendar days ("YYYY-MM-DD") in the user's timezone; HabitLog.date holds the
+// calendar day at UTC midnight.
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export type HabitSchedule =
+  | { type: "daily" }
+  | { type: "weekdays"; days: number[] } // 0 = Sunday
+  | { type: "every_n_days"; interval: number } // Counted from the day the habit was created
+  | { type: "weekly"; times: number } // Any days within a Monday-Sunday week
+  | { type: "monthly"; times: number };
+
+// Set on logs that aren't a completion. A skip takes the day off the schedule
+// (rest day, illness); a freeze keeps the streak alive without counting as done.
+export type HabitLogStatus = "skip" | "freeze";
+export const HABIT_LOG_STATUSES: HabitLogStatus[] = ["skip", "freeze"];
+
+export interface HabitLogInput {
+  date: Date | string;
+  completed: boolean;
+  status?: string | null;
+}
+
+export type HabitDayStatus =
+  | "done"
+  | "missed"
+  | "skipped"
+  | "frozen"
+  | "pending" // Due and still open today (or this week/month)
+  | "not_due"
+  | "inactive"; // Before the habit started, or in the future
+
+export interface HabitStatsInput {
+  schedule: HabitSchedule;
+  createdAt: Date;
+  logs: HabitLogInput[];
+  timeZone?: string;
+  now?: Date;
+}
+
+export interface HabitStats {
+  streak: number;
+  bestStreak: number;
+  streakUnit: "day" | "week" | "month";
+  completionRate: number | null; // 0-100 over the window; null before anything was due
+  dueToday: boolean; // Still needs doing today (or this period)
+  doneToday: boolean;
+  periodProgress: { done: number; target: number } | null; // Weekly and monthly habits
+}
+
+// --- Calendar-day helpers ---
+
+export function localDay(date: Date, timeZone = "UTC"): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(date);
+}
+
+export function shiftDay(day: string, days: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+function weekday(day: string): number {
+  return new Date(`${day}T00:00:00Z`).getUTCDay();
+}
+
+// Calendar day of a HabitLog.date (stored at UTC midnight) or a plain date string
+export function logDay(date: Date | string): string {
+  return typeof date === "string" ? date.slice(0, 10) : date.toISOString().slice(0, 10);
+}
+
+// Parse "YYYY-MM-DD" into the UTC-midnight Date stored in HabitLog.date
+export function parseLogDate(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return isNaN(date.getTime()) || logDay(date) !== value ? null : date;
+}
+
+// --- Schedules ---
+
+// Reads Habit.schedule, falling back to the legacy daily/weekly/monthly frequency
+export function parseSchedule(schedule: unknown, frequency?: string | null): HabitSchedule {
+  const rule = (schedule ?? {}) as Record<string, unknown>;
+  const count = (value: unknown, max: number) =>
+    typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= max ? value : null;
+
+  switch (rule.type) {
+    case "daily":
+      return { type: "daily" };
+    case "weekdays": {
+      const days = Array.isArray(rule.days)
+        ? Array.from(new Set(rule.days.filter((day): day is number => Number.isInteger(day) && day >= 0 && day <= 6))).sort()
+        : [];
+      if (days.length > 0) {
+        return { type: "weekdays", days };
+      }
+      break;
+    }
+    case "every_n_days": {
+      const interval = count(rule.interval, 365);
+      if (interval) {
+        return { type: "every_n_days", interval };
+      }
+      break;
+    }
+    case "weekly": {
+      const times = count(rule.times, 7);
+      if (times) {
+        return { type: "weekly", times };
+      }
+      break;
+    }
+    case "monthly": {
+      const times = count(rule.times, 31);
+      if (times) {
+        return { type: "monthly", times };
+      }
+      break;
+    }
+  }
+
+  switch ((frequency ?? "").toLowerCase()) {
+    case "weekly":
+      return { type: "weekly", times: 1 };
+    case "monthly":
+      return { type: "monthly", times: 1 };
+    default:
+      return { type: "daily" };
+  }
+}
+
+// Legacy Habit.frequency value for a schedule
+export function scheduleFrequency(schedule: HabitSchedule): "daily" | "weekly" | "monthly" {
+  return schedule.type === "monthly" ? "monthly" : schedule.type === "weekly" ? "weekly" : "daily";
+}
+
+export function describeSchedule(schedule: HabitSchedule): string {
+  const times = (n: number) => (n === 1 ? "Once" : n === 2 ? "Twice" : `${n}x`);
+  switch (schedule.type) {
+    case "daily":
+      return "Every day";
+    case "weekdays":
+      return schedule.days.map((day) => WEEKDAY_LABELS[day]).join(", ");
+    case "every_n_days":
+      return schedule.interval === 1 ? "Every day" : `Every ${schedule.interval} days`;
+    case "weekly":
+      return `${times(schedule.times)} a week`;
+    case "monthly":
+      return `${times(schedule.times)} a month`;
+  }
+}
+
+function isPeriodic(schedule: HabitSchedule): schedule is Extract<HabitSchedule, { type: "weekly" | "monthly" }> {
+  return schedule.type === "weekly" || schedule.type === "monthly";
+}
+
+function isDueOn(schedule: HabitSchedule, day: string, anchor: string): boolean {
+  switch (schedule.type) {
+    case "weekdays":
+      return schedule.days.includes(weekday(day));
+    case "every_n_days":
+      // Also works for backfilled days before the anchor (negative offsets)
+      return daysBetween(anchor, day) % schedule.interval === 0;
+    default:
+      return true;
+  }
+}
+
+// First and last day of the week (Monday-Sunday) or month containing `day`
+function periodOf(schedule: HabitSchedule, day: string): { start: string; end: string } {
+  if (schedule.type === "monthly") {
+    const start = `${day.slice(0, 7)}-01`;
+    const next = new Date(`${start}T00:00:00Z`);
+    next.setUTCMonth(next.getUTCMonth() + 1);
+    return { start, end: shiftDay(next.toISOString().slice(0, 10), -1) };
+  }
+  const start = shiftDay(day, -((weekday(day) + 6) % 7));
+  return { start, end: shiftDay(start, 6) };
+}
+
+// --- Evaluation ---
+
+interface Context {
+  schedule: HabitSchedule;
+  anchor: string; // Creation day; every_n_days counts from here
+  start: string; // Earliest of creation day and first (backfilled) log
+  today: string;
+  logs: Map<string, HabitLogInput>;
+}
+
+function buildContext(input: HabitStatsInput): Context {
+  const timeZone = input.timeZone ?? "UTC";
+  const anchor = localDay(input.createdAt, timeZone);
+  const logs = new Map(input.logs.map((log) => [logDay(log.date), log]));
+  const earliest = Array.from(logs.keys()).sort()[0];
+  return {
+    schedule: input.schedule,
+    anchor,
+    start: earliest && earliest < anchor ? earliest : anchor,
+    today: localDay(input.now ?? new Date(), timeZone),
+    logs,
+  };
+}
+
+function logStatus(log: HabitLogInput | undefined): "done" | "skipped" | "frozen" | null {
+  if (log?.completed) {
+    return "done";
+  }
+  if (log?.status === "skip") {
+    return "skipped";
+  }
+  if (log?.status === "freeze") {
+    return "frozen";
+  }
+  return null;
+}
+
+function dayStatus(context: Context, day: string): HabitDayStatus {
+  if (day < context.start || day > context.today) {
+    return "inactive";
+  }
+  const logged = logStatus(context.logs.get(day));
+  if (logged) {
+    return logged;
+  }
+  if (!isDueOn(context.schedule, day, context.anchor)) {
+    return "not_due";
+  }
+  return day === context.today ? "pending" : "missed";
+}
+
+interface PeriodResult {
+  start: string;
+  end: string;
+  status: "done" | "missed" | "frozen" | "pending" | "skipped";
+  done: number;
+  target: number;
+}
+
+function evaluatePeriod(context: Context, start: string, end: string): PeriodResult {
+  const schedule = context.schedule as Extract<HabitSchedule, { type: "weekly" | "monthly" }>;
+  let done = 0;
+  let skips = 0;
+  let frozen = false;
+  let activeDays = 0;
+  for (let day = start; day <= end; day = shiftDay(day, 1)) {
+    if (day < context.start) {
+      continue;
+    }
+    activeDays++;
+    const logged = logStatus(context.logs.get(day));
+    done += logged === "done" ? 1 : 0;
+    skips += logged === "skipped" ? 1 : 0;
+    frozen = frozen || logged === "frozen";
+  }
+
+  // A partial first period asks for no more than its remaining days
+  const target = Math.max(0, Math.min(schedule.times - skips, activeDays - skips));
+  const status = target === 0
+    ? "skipped"
+    : done >= target
+      ? "done"
+      : frozen
+        ? "frozen"
+        : end >= context.today
+          ? "pending"
+          : "missed";
+  return { start, end, status, done, target };
+}
+
+interface Unit {
+  end: string;
+  status: "done" | "missed" | "frozen" | "pending";
+}
+
+// Scheduled days (or periods) from the start through today, oldest first
+function units(context: Context): { units: Unit[]; current: PeriodResult | null } {
+  const result: Unit[] = [];
+  if (isPeriodic(context.schedule)) {
+    let current: PeriodResult | null = null;
+    for (let start = periodOf(context.schedule, context.start).start; start <= context.today;) {
+      const period = evaluatePeriod(context, start, periodOf(context.schedule, start).end);
+      if (period.status !== "skipped") {
+        result.push({ end: period.end, status: period.status });
+      }
+      if (period.end >= context.today) {
+        current = period;
+      }
+      start = shiftDay(period.end, 1);
+    }
+    return { units: result, current };
+  }
+
+  for (let day = context.start; day <= context.today; day = shiftDay(day, 1)) {
+    const status = dayStatus(context, day);
+    // Completions on days that weren't due are a bonus; they neither extend nor break a streak
+    if ((status === "done" && !isDueOn(context.schedule, day, context.anchor)) ||
+      status === "not_due" || status === "skipped" || status === "inactive") {
+      continue;
+    }
+    result.push({ end: day, status });
+  }
+  return { units: result, current: null };
+}
+
+// Frozen units keep the run going without adding to it; an open unit never breaks it
+function streaks(scheduled: Unit[]): { run: number; best: number } {
+  let run = 0;
+  let best = 0;
+  for (const unit of scheduled) {
+    if (unit.status === "done") {
+      run++;
+      best = Math.max(best, run);
+    } else if (unit.status === "missed") {
+      run = 0;
+    }
+  }
+  return { run, best };
+}
+
+function streakUnit(schedule: HabitSchedule): HabitStats["streakUnit"] {
+  return schedule.type === "weekly" ? "week" : schedule.type === "monthly" ? "month" : "day";
+}
+
+export function habitStats(input: HabitStatsInput, windowDays = 30): HabitStats {
+  const context = buildContext(input);
+  const { units: scheduled, current } = units(context);
+  const { run, best } = streaks(scheduled);
+
+  const windowStart = shiftDay(context.today, -(windowDays - 1));
+  const counted = scheduled.filter((unit) => unit.end >= windowStart && unit.status !== "pending");
+  const completed = counted.filter((unit) => unit.status === "done").length;
+
+  const todayLog = context.logs.get(context.today);
+  const doneToday = Boolean(todayLog?.completed);
+  const dueToday = current
+    ? current.status === "pending"
+    : dayStatus(context, context.today) === "pending";
+
+  return {
+    streak: run,
+    bestStreak: best,
+    streakUnit: streakUnit(input.schedule),
+    completionRate: counted.length > 0 ? Math.round((completed / counted.length) * 100) : null,
+    dueToday,
+    doneToday,
+    periodProgress: current ? { done: current.done, target: current.target } : null,
+  };
+}
+
+// Status of every day from `from` to `to` inclusive, for the heatmap
+export function habitCalendar(input: HabitStatsInput, from: string, to: string): { date: string; status: HabitDayStatus }[] {
+  const context = buildContext(input);
+  const periods = new Map<string, PeriodResult>();
+  const days: { date: string; status: HabitDayStatus }[] = [];
+
+  for (let day = from; day <= to; day = shiftDay(day, 1)) {
+    let status = dayStatus(context, day);
+    if (isPeriodic(context.schedule) && (status === "missed" || status === "pending")) {
+      // Individual days of a weekly/monthly habit are only missed if the whole period was
+      const { start, end } = periodOf(context.schedule, day);
+      if (!periods.has(start)) {
+        periods.set(start, evaluatePeriod(context, start, end));
+      }
+      const period = periods.get(start)!;
+      status = period.status === "missed" ? "missed" : period.status === "pending" && day === context.today ? "pending" : "not_due";
+    }
+    days.push({ date: day, status });
+  }
+  return days;
+}
+
+// --- Missed and at-risk habits ---
+
+export interface MissedUnit {
+  key: string; // The day, or the first day of the week/month; one habit.missed per key
+  start: string;
+  end: string;
+  unit: HabitStats["streakUnit"];
+  streakLost: number; // Streak going into the missed unit
+}
+
+// The scheduled day (or week/month) that closed most recently, if it closed
+// more than `graceHours` ago with nothing logged. Late logs within the grace
+// period still count, so the miss is only reported once they can't arrive.
+export function lastMissed(input: HabitStatsInput, graceHours = 0): MissedUnit | null {
+  const now = input.now ?? new Date();
+  const context = buildContext({ ...input, now: new Date(now.getTime() - graceHours * HOUR_MS) });
+  const day = shiftDay(context.today, -1);
+  if (day < context.start) {
+    return null;
+  }
+
+  let start = day;
+  let end = day;
+  if (isPeriodic(context.schedule)) {
+    ({ start, end } = periodOf(context.schedule, day));
+    if (end !== day || evaluatePeriod(context, start, end).status !== "missed") {
+      return null;
+    }
+  } else if (dayStatus(context, day) !== "missed") {
+    return null;
+  }
+
+  // Seen from the last day of the unit, it is still open and doesn't break the run
+  const { run } = streaks(units({ ...context, today: end }).units);
+  return { key: start, start, end, unit: streakUnit(context.schedule), streakLost: run };
+}
+
+export interface HabitRisk {
+  streak: number;
+  remaining: number; // Completions still needed today or this period
+  daysLeft: number; // Days left to do them in, including today
+  deadline: string; // Last day that counts
+}
+
+// A habit is at risk when it can't wait any longer: due today, or a weekly or
+// monthly target that needs a completion on every remaining day of the period
+export function habitRisk(input: HabitStatsInput): HabitRisk | null {
+  const context = buildContext(input);
+  const { units: scheduled, current } = units(context);
+  const { run } = streaks(scheduled);
+
+  if (current) {
+    const remaining = current.target - current.done;
+    const daysLeft = daysBetween(context.today, current.end) + 1;
+    if (current.status !== "pending" || remaining < daysLeft) {
+      return null;
+    }
+    return { streak: run, remaining, daysLeft, deadline: current.end };
+  }
+  if (dayStatus(context, context.today) !== "pending") {
+    return null;
+  }
+  return { streak: run, remaining: 1, daysLeft: 1, deadline: context.today };
+}
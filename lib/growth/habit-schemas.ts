@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+export const HabitScheduleSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("daily") }),
+  z.object({ type: z.literal("weekdays"), days: z.array(z.number().int().min(0).max(6)).min(1).max(7) }),
+  z.object({ type: z.literal("every_n_days"), interval: z.number().int().min(1).max(365) }),
+  z.object({ type: z.literal("weekly"), times: z.number().int().min(1).max(7) }),
+  z.object({ type: z.literal("monthly"), times: z.number().int().min(1).max(31) }),
+]);
+
+export const HabitLogSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD"),
+  completed: z.boolean().optional(),
+  status: z.enum(["skip", "freeze"]).nullable().optional(),
+  notes: z.string().max(1000).optional(),
+});
@@ -0,0 +1,148 @@
+import { prisma } from "../database";
+import { getUserTimezone } from "../timezone";
+import { emitAutomationEvent } from "../automation/event-bus";
+import {
+  HabitLogStatus,
+  HabitRisk,
+  HabitStats,
+  describeSchedule,
+  habitRisk,
+  habitStats,
+  lastMissed,
+  localDay,
+  logDay,
+  parseSchedule,
+} from "./habit-schedule";
+
+// Hours a day (or week/month) stays open after it ends, so late logs still count
+const DEFAULT_MISSED_GRACE_HOURS = 3;
+
+interface HabitRow {
+  id: string;
+  userId: string;
+  name: string;
+  frequency: string;
+  schedule: unknown;
+  createdAt: Date;
+}
+
+export interface HabitLogChange {
+  completed?: boolean;
+  status?: HabitLogStatus | null;
+  notes?: string;
+}
+
+// Stats for one habit from its full log history
+export async function computeHabitStats(habit: HabitRow, timeZone: string, now = new Date()): Promise<HabitStats> {
+  const logs = await prisma.habitLog.findMany({
+    where: { habitId: habit.id },
+    select: { date: true, completed: true, status: true },
+  });
+  return habitStats({ schedule: parseSchedule(habit.schedule, habit.frequency), createdAt: habit.createdAt, logs, timeZone, now });
+}
+
+// Keep the stored streak in line with the logs
+export async function refreshHabitStreak(habit: HabitRow, timeZone?: string): Promise<HabitStats> {
+  const stats = await computeHabitStats(habit, timeZone ?? (await getUserTimezone(habit.userId)));
+  await prisma.habit.update({ where: { id: habit.id }, data: { streak: stats.streak } });
+  return stats;
+}
+
+// Create or replace the log for one calendar day (UTC midnight, see
+// parseLogDate). Works for backfilled days too.
+export async function logHabit(habit: HabitRow, date: Date, change: HabitLogChange = {}, timeZone?: string) {
+  const completed = change.status ? false : change.completed ?? true;
+  const status = completed ? null : change.status ?? null;
+
+  const habitLog = await prisma.habitLog.upsert({
+    where: { habitId_date: { habitId: habit.id, date } },
+    update: { completed, status, ...(change.notes !== undefined && { notes: change.notes }) },
+    create: { habitId: habit.id, date, completed, status, notes: change.notes },
+  });
+  const stats = await refreshHabitStreak(habit, timeZone);
+
+  if (completed) {
+    emitAutomationEvent("habit.completed", habit.userId, {
+      habitId: habit.id,
+      habitName: habit.name,
+      date: logDay(date),
+      logId: habitLog.id,
+      streak: stats.streak,
+    });
+  }
+  return { habitLog, stats };
+}
+
+export async function clearHabitLog(habit: HabitRow, date: Date, timeZone?: string): Promise<HabitStats> {
+  await prisma.habitLog.deleteMany({ where: { habitId: habit.id, date } });
+  return refreshHabitStreak(habit, timeZone);
+}
+
+// Today's calendar day for the user, as stored in HabitLog.date
+export async function todayForUser(userId: string, now = new Date()): Promise<Date> {
+  return new Date(`${localDay(now, await getUserTimezone(userId))}T00:00:00Z`);
+}
+
+function missedGraceHours(habit: { missedGraceHours: number | null }): number {
+  if (habit.missedGraceHours !== null) {
+    return habit.missedGraceHours;
+  }
+  const hours = parseInt(process.env.HABIT_MISSED_GRACE_HOURS || "");
+  return isNaN(hours) || hours < 0 ? DEFAULT_MISSED_GRACE_HOURS : hours;
+}
+
+async function habitsWithLogs(userId: string) {
+  return prisma.habit.findMany({
+    where: { userId },
+    include: { logs: { select: { date: true, completed: true, status: true } } },
+  });
+}
+
+// Emit habit.missed for each of the user's habits whose latest scheduled day
+// or period closed with nothing logged, once per day/period. Returns the
+// number of events emitted.
+export async function detectMissedHabits(userId: string, now = new Date()): Promise<number> {
+  const timeZone = await getUserTimezone(userId);
+  let emitted = 0;
+
+  for (const habit of await habitsWithLogs(userId)) {
+    const schedule = parseSchedule(habit.schedule, habit.frequency);
+    const missed = lastMissed({ schedule, createdAt: habit.createdAt, logs: habit.logs, timeZone, now }, missedGraceHours(habit));
+    if (!missed || missed.key === habit.missedNotifiedFor) {
+      continue;
+    }
+
+    await prisma.habit.update({ where: { id: habit.id }, data: { missedNotifiedFor: missed.key } });
+    emitAutomationEvent("habit.missed", userId, {
+      habitId: habit.id,
+      habitName: habit.name,
+      date: missed.start,
+      endDate: missed.end,
+      unit: missed.unit,
+      streakLost: missed.streakLost,
+    });
+    emitted++;
+  }
+  return emitted;
+}
+
+export interface HabitAtRisk extends HabitRisk {
+  id: string;
+  name: string;
+  scheduleLabel: string;
+}
+
+// Habits that need doing today (or on every day left in their period), longest streaks first
+export async function habitsAtRisk(userId: string, timeZone?: string, now = new Date()): Promise<HabitAtRisk[]> {
+  const zone = timeZone ?? (await getUserTimezone(userId));
+  const atRisk: HabitAtRisk[] = [];
+
+  for (const habit of await habitsWithLogs(userId)) {
+    const schedule = parseSchedule(habit.schedule, habit.frequency);
+    const risk = habitRisk({ schedule, createdAt: habit.createdAt, logs: habit.logs, timeZone: zone, now });
+    if (risk) {
+      atRisk.push({ id: habit.id, name: habit.name, scheduleLabel: describeSchedule(schedule), ...risk });
+    }
+  }
+  return atRisk.sort((a, b) => b.streak - a.streak || a.daysLeft - b.daysLeft);
+}
@@ -0,0 +1,239 @@
+// Spaced-repetition scheduling for flashcards, following Anki's variant of
+// SM-2: new cards go through short learning steps, then graduate to review
+// intervals that grow by the card's ease factor. Lapsed cards relearn and
+// lose ease. Mastery estimates how much of a deck would be recalled today,
+// using FSRS's forgetting curve with the interval as the card's stability.
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const LEARNING_STEPS_MINUTES = [1, 10];
+export const RELEARNING_STEPS_MINUTES = [10];
+export const GRADUATING_INTERVAL = 1; // Days
+export const EASY_INTERVAL = 4; // Days
+export const STARTING_EASE = 2.5;
+export const MINIMUM_EASE = 1.3;
+export const MAXIMUM_INTERVAL = 36500; // Days
+export const MATURE_INTERVAL = 21; // Days; Anki's threshold for a mature card
+
+export type ReviewGrade = 1 | 2 | 3 | 4;
+
+export const REVIEW_GRADES: { grade: ReviewGrade; label: string }[] = [
+  { grade: 1, label: "Again" },
+  { grade: 2, label: "Hard" },
+  { grade: 3, label: "Good" },
+  { grade: 4, label: "Easy" },
+];
+
+export type CardState = "new" | "learning" | "review" | "relearning";
+
+export interface CardSchedule {
+  state: CardState;
+  step: number; // Position in the (re)learning steps
+  ease: number;
+  interval: number; // Days
+  repetitions: number; // Successful reviews
+  lapses: number;
+  dueAt: Date;
+  lastReviewedAt: Date | null;
+}
+
+export function newCardSchedule(now = new Date()): CardSchedule {
+  return {
+    state: "new",
+    step: 0,
+    ease: STARTING_EASE,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: now,
+    lastReviewedAt: null,
+  };
+}
+
+const inMinutes = (now: Date, minutes: number) => new Date(now.getTime() + minutes * MINUTE_MS);
+const inDays = (now: Date, days: number) => new Date(now.getTime() + days * DAY_MS);
+const clampInterval = (days: number) => Math.min(MAXIMUM_INTERVAL, Math.max(1, Math.round(days)));
+
+// Short-term steps for new and lapsed cards
+function reviewStep(card: CardSchedule, grade: ReviewGrade, steps: number[], now: Date): CardSchedule {
+  const graduate = (interval: number): CardSchedule => ({
+    ...card,
+    state: "review",
+    step: 0,
+    interval,
+    repetitions: card.repetitions + 1,
+    dueAt: inDays(now, interval),
+    lastReviewedAt: now,
+  });
+  const relearning = card.state === "relearning";
+  const state = relearning ? "relearning" : "learning";
+
+  switch (grade) {
+    case 1:
+      return { ...card, state, step: 0, dueAt: inMinutes(now, steps[0]), lastReviewedAt: now };
+    case 2: {
+      // Repeat the step; on the first one, wait halfway to the next
+      const delay = card.step === 0 && steps.length > 1 ? (steps[0] + steps[1]) / 2 : steps[card.step] ?? steps[0];
+      return { ...card, state, dueAt: inMinutes(now, delay), lastReviewedAt: now };
+    }
+    case 3: {
+      const step = card.step + 1;
+      if (step < steps.length) {
+        return { ...card, state, step, dueAt: inMinutes(now, steps[step]), lastReviewedAt: now };
+      }
+      return graduate(relearning ? card.interval : GRADUATING_INTERVAL);
+    }
+    case 4:
+      return graduate(relearning ? clampInterval(card.interval + 1) : EASY_INTERVAL);
+  }
+}
+
+export function reviewCard(card: CardSchedule, grade: ReviewGrade, now = new Date()): CardSchedule {
+  if (card.state === "new" || card.state === "learning") {
+    return reviewStep(card, grade, LEARNING_STEPS_MINUTES, now);
+  }
+  if (card.state === "relearning") {
+    return reviewStep(card, grade, RELEARNING_STEPS_MINUTES, now);
+  }
+
+  if (grade === 1) {
+    // Lapse: relearn, then come back at half the interval
+    return {
+      ...card,
+      state: "relearning",
+      step: 0,
+      ease: Math.max(MINIMUM_EASE, card.ease - 0.2),
+      interval: clampInterval(card.interval * 0.5),
+      lapses: card.lapses + 1,
+      dueAt: inMinutes(now, RELEARNING_STEPS_MINUTES[0]),
+      lastReviewedAt: now,
+    };
+  }
+
+  const ease = grade === 2 ? Math.max(MINIMUM_EASE, card.ease - 0.15) : grade === 4 ? card.ease + 0.15 : card.ease;
+  const growth = grade === 2 ? 1.2 : grade === 4 ? card.ease * 1.3 : card.ease;
+  // Each answer moves the card at least a day further out than before
+  const interval = clampInterval(Math.max(card.interval + 1, card.interval * growth));
+  return {
+    ...card,
+    ease: Math.round(ease * 100) / 100,
+    interval,
+    repetitions: card.repetitions + 1,
+    dueAt: inDays(now, interval),
+    lastReviewedAt: now,
+  };
+}
+
+// --- Queues ---
+
+export interface QueueLimits {
+  newPerDay: number;
+  newSeenToday: number;
+}
+
+// Cards to study now: due learning cards first (they're on a minute timer),
+// then due reviews oldest first, then new cards up to today's limit
+export function reviewQueue<T extends Pick<CardSchedule, "state" | "dueAt">>(cards: T[], limits: QueueLimits, now = new Date()): T[] {
+  const due = (card: T) => card.dueAt.getTime() <= now.getTime();
+  const byDue = (a: T, b: T) => a.dueAt.getTime() - b.dueAt.getTime();
+  const learning = cards.filter((card) => (card.state === "learning" || card.state === "relearning") && due(card)).sort(byDue);
+  const reviews = cards.filter((card) => card.state === "review" && due(card)).sort(byDue);
+  const fresh = cards.filter((card) => card.state === "new").slice(0, Math.max(0, limits.newPerDay - limits.newSeenToday));
+  return [...learning, ...reviews, ...fresh];
+}
+
+// --- Mastery ---
+
+// Probability of recall `elapsedDays` after a review, for a card that is
+// expected to be at 90% recall after `stability` days (FSRS power curve)
+export function retrievability(elapsedDays: number, stability: number): number {
+  if (stability <= 0) {
+    return 0;
+  }
+  return Math.pow(1 + elapsedDays / (9 * stability), -1);
+}
+
+// 0-1: how well a card is known today. New cards count as unknown and cards
+// still in learning as barely known; reviewed cards count by maturity and
+// by how likely they are to be recalled right now.
+export function cardMastery(card: Pick<CardSchedule, "state" | "interval" | "lastReviewedAt">, now = new Date()): number {
+  if (card.state === "new" || !card.lastReviewedAt) {
+    return 0;
+  }
+  if (card.state !== "review") {
+    return 0.05;
+  }
+  const elapsed = Math.max(0, (now.getTime() - card.lastReviewedAt.getTime()) / DAY_MS);
+  const maturity = Math.min(1, card.interval / MATURE_INTERVAL);
+  return maturity * retrievability(elapsed, card.interval);
+}
+
+// Skill.masteryLevel (0-100) from the cards in the skill's decks
+export function deckMastery(cards: Pick<CardSchedule, "state" | "interval" | "lastReviewedAt">[], now = new Date()): number {
+  if (cards.length === 0) {
+    return 0;
+  }
+  const total = cards.reduce((sum, card) => sum + cardMastery(card, now), 0);
+  return Math.round((total / cards.length) * 100);
+}
+
+// --- Card generation ---
+
+export interface CardDraft {
+  front: string;
+  back: string;
+  tags?: string[];
+}
+
+const stripMarkdown = (text: string) =>
+  text
+    .replace(/^\s*(?:[-*+•]|\d+[.)])\s+/, "")
+    .replace(/\*\*|__|`/g, "")
+    .trim();
+
+// Cards from notes, a summary or an AI reply: "Q: ... A: ..." pairs, and
+// "Term: definition" or "Term - definition" lines (as in bullet lists)
+export function cardsFromText(text: string): CardDraft[] {
+  const cards: CardDraft[] = [];
+  const lines = text.split(/\r?\n/).map((line) => line.trim());
+
+  for (let i = 0; i < lines.length; i++) {
+    const question = lines[i].match(/^(?:\*\*)?(?:Q|Question)\s*[:.)](?:\*\*)?\s*(.+)$/i);
+    if (question) {
+      const answer: string[] = [];
+      let j = i + 1;
+      const first = lines[j]?.match(/^(?:\*\*)?(?:A|Answer)\s*[:.)](?:\*\*)?\s*(.*)$/i);
+      if (first) {
+        answer.push(first[1]);
+        // Answers may run over several lines, up to the next question or a blank line
+        for (j++; j < lines.length && lines[j] && !/^(?:\*\*)?(?:Q|Question)\s*[:.)]/i.test(lines[j]); j++) {
+          answer.push(lines[j]);
+        }
+        if (answer.join("").trim()) {
+          cards.push({ front: stripMarkdown(question[1]), back: answer.map(stripMarkdown).join("\n").trim() });
+        }
+        i = j - 1;
+      }
+      continue;
+    }
+
+    if (/^#/.test(lines[i])) {
+      continue;
+    }
+    const definition = stripMarkdown(lines[i]).match(/^([^:–—]{2,80}?)\s*(?::|\s[-–—]\s)\s*(.{3,})$/);
+    if (definition && !/^(https?|www)/i.test(definition[1])) {
+      cards.push({ front: definition[1].trim(), back: definition[2].trim() });
+    }
+  }
+
+  const seen = new Set<string>();
+  return cards.filter((card) => {
+    const key = card.front.toLowerCase();
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
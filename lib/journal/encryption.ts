@@ -0,0 +1,202 @@
+// Client-side encryption for private journal entries (Web Crypto, browser only
+// at runtime). Entries are encrypted with a random AES-GCM data key. The data
+// key is stored on the server only in wrapped form: once under a key derived
+// from the user's passphrase and once under a key derived from a one-time
+// recovery key. The server never sees the passphrase, the recovery key or the
+// unwrapped data key.
+
+export const PBKDF2_ITERATIONS = 310000;
+export const ENCRYPTED_TITLE = "Encrypted entry";
+
+const RECOVERY_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ"; // Crockford base32
+const RECOVERY_KEY_LENGTH = 32; // 160 bits
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface WrappedKey {
+  salt: string; // base64
+  iv: string; // base64
+  wrappedKey: string; // base64
+}
+
+// What /api/journal/keyring stores. Safe to send to the server.
+export interface JournalKeyring {
+  version: number; // Bumped on every data-key rotation
+  kdf: "PBKDF2-SHA256";
+  iterations: number;
+  passphrase: WrappedKey;
+  recovery: WrappedKey;
+}
+
+export interface EncryptedPayload {
+  ciphertext: string; // base64
+  iv: string; // base64
+  keyVersion: number;
+}
+
+export interface JournalPlaintext {
+  title: string;
+  content: string;
+}
+
+export interface UnlockedKeyring {
+  keyring: JournalKeyring;
+  key: CryptoKey;
+}
+
+export class JournalKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JournalKeyError";
+  }
+}
+
+const subtle = () => globalThis.crypto.subtle;
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function randomBytes(length: number) {
+  return globalThis.crypto.getRandomValues(new Uint8Array(length));
+}
+
+export function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = "";
+  for (let i = 0; i < view.length; i++) {
+    binary += String.fromCharCode(view[i]);
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(value: string) {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Shown once as XXXX-XXXX-...; dashes, spaces and case are ignored when typed back
+export function generateRecoveryKey(): string {
+  const chars = Array.from(randomBytes(RECOVERY_KEY_LENGTH), (byte) => RECOVERY_ALPHABET[byte % 32]).join("");
+  return chars.match(/.{4}/g)!.join("-");
+}
+
+export function normalizeRecoveryKey(value: string): string {
+  return value
+    .toUpperCase()
+    .replace(/[\s-]/g, "")
+    .replace(/O/g, "0")
+    .replace(/[IL]/g, "1");
+}
+
+async function deriveWrappingKey(secret: string, salt: BufferSource, iterations: number): Promise<CryptoKey> {
+  const material = await subtle().importKey("raw", encoder.encode(secret), "PBKDF2", false, ["deriveKey"]);
+  return subtle().deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["wrapKey", "unwrapKey"]
+  );
+}
+
+async function wrapDataKey(key: CryptoKey, secret: string, iterations: number): Promise<WrappedKey> {
+  const salt = randomBytes(SALT_BYTES);
+  const iv = randomBytes(IV_BYTES);
+  const wrappingKey = await deriveWrappingKey(secret, salt, iterations);
+  const wrapped = await subtle().wrapKey("raw", key, wrappingKey, { name: "AES-GCM", iv });
+  return { salt: toBase64(salt), iv: toBase64(iv), wrappedKey: toBase64(wrapped) };
+}
+
+async function unwrapDataKey(wrapped: WrappedKey, secret: string, iterations: number): Promise<CryptoKey> {
+  const wrappingKey = await deriveWrappingKey(secret, fromBase64(wrapped.salt), iterations);
+  try {
+    // Extractable so the key can be re-wrapped for a new passphrase or recovery key
+    return await subtle().unwrapKey(
+      "raw",
+      fromBase64(wrapped.wrappedKey),
+      wrappingKey,
+      { name: "AES-GCM", iv: fromBase64(wrapped.iv) },
+      { name: "AES-GCM", length: 256 },
+      true,
+      ["encrypt", "decrypt"]
+    );
+  } catch {
+    // AES-GCM authentication fails on a wrong secret
+    throw new JournalKeyError("Incorrect passphrase or recovery key");
+  }
+}
+
+// New data key, wrapped for the passphrase and a fresh recovery key. Also used
+// for rotation, with `version` set to the current version + 1.
+export async function createKeyring(
+  passphrase: string,
+  version = 1,
+  iterations = PBKDF2_ITERATIONS
+): Promise<UnlockedKeyring & { recoveryKey: string }> {
+  const key = await subtle().generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]);
+  const recoveryKey = generateRecoveryKey();
+  const keyring: JournalKeyring = {
+    version,
+    kdf: "PBKDF2-SHA256",
+    iterations,
+    passphrase: await wrapDataKey(key, passphrase, iterations),
+    recovery: await wrapDataKey(key, normalizeRecoveryKey(recoveryKey), iterations),
+  };
+  return { keyring, key, recoveryKey };
+}
+
+export async function unlockWithPassphrase(keyring: JournalKeyring, passphrase: string): Promise<CryptoKey> {
+  return unwrapDataKey(keyring.passphrase, passphrase, keyring.iterations);
+}
+
+export async function unlockWithRecoveryKey(keyring: JournalKeyring, recoveryKey: string): Promise<CryptoKey> {
+  return unwrapDataKey(keyring.recovery, normalizeRecoveryKey(recoveryKey), keyring.iterations);
+}
+
+// Same data key under a new passphrase, e.g. after unlocking with the recovery
+// key. Pass `resetRecovery` to also issue a new recovery key.
+export async function rewrapKeyring(
+  keyring: JournalKeyring,
+  key: CryptoKey,
+  passphrase: string,
+  resetRecovery = false
+): Promise<{ keyring: JournalKeyring; recoveryKey: string | null }> {
+  const recoveryKey = resetRecovery ? generateRecoveryKey() : null;
+  return {
+    keyring: {
+      ...keyring,
+      passphrase: await wrapDataKey(key, passphrase, keyring.iterations),
+      recovery: recoveryKey
+        ? await wrapDataKey(key, normalizeRecoveryKey(recoveryKey), keyring.iterations)
+        : keyring.recovery,
+    },
+    recoveryKey,
+  };
+}
+
+// The key version is bound as associated data so a payload can't be replayed under another version
+export async function encryptEntry(key: CryptoKey, keyVersion: number, entry: JournalPlaintext): Promise<EncryptedPayload> {
+  const iv = randomBytes(IV_BYTES);
+  const ciphertext = await subtle().encrypt(
+    { name: "AES-GCM", iv, additionalData: encoder.encode(`journal:v${keyVersion}`) },
+    key,
+    encoder.encode(JSON.stringify({ title: entry.title, content: entry.content }))
+  );
+  return { ciphertext: toBase64(ciphertext), iv: toBase64(iv), keyVersion };
+}
+
+export async function decryptEntry(key: CryptoKey, payload: EncryptedPayload): Promise<JournalPlaintext> {
+  try {
+    const plaintext = await subtle().decrypt(
+      { name: "AES-GCM", iv: fromBase64(payload.iv), additionalData: encoder.encode(`journal:v${payload.keyVersion}`) },
+      key,
+      fromBase64(payload.ciphertext)
+    );
+    return JSON.parse(decoder.decode(plaintext));
+  } catch {
+    throw new JournalKeyError("This entry can't be decrypted with the current key");
+  }
+}
@@ -0,0 +1,77 @@
+import { emitAutomationEvent } from "@/lib/automation/event-bus";
+import type { JournalEventData, JournalSentiment, SentimentLabel } from "@/lib/automation/journal-trigger";
+import { detectTextEmotion } from "@vitality/emotion-detection/text";
+import type { TextEmotion } from "@vitality/emotion-detection/text";
+
+// Pleasantness of each detected emotion, scaled by its intensity to give a
+// sentiment score in [-1, 1]
+const EMOTION_VALENCE: Record<TextEmotion, number> = {
+  happy: 1,
+  excited: 0.8,
+  calm: 0.5,
+  neutral: 0,
+  anxious: -0.7,
+  sad: -1,
+  angry: -1,
+};
+
+const LABEL_THRESHOLD = 0.2;
+
+interface JournalEntryLike {
+  id: string;
+  title: string;
+  content: string;
+  mood?: string | null;
+  tags?: string[];
+  isPrivate: boolean;
+  encrypted?: boolean;
+}
+
+// Runs locally; entry text never leaves the server for this
+export function analyzeJournalSentiment(text: string): JournalSentiment {
+  const { emotion, confidence, intensity } = detectTextEmotion(text);
+  const score = Math.round(EMOTION_VALENCE[emotion] * intensity * 100) / 100;
+  let label: SentimentLabel = "neutral";
+  if (score >= LABEL_THRESHOLD) {
+    label = "positive";
+  } else if (score <= -LABEL_THRESHOLD) {
+    label = "negative";
+  }
+
+  return {
+    emotion,
+    confidence: Math.round(confidence * 100) / 100,
+    intensity: Math.round(intensity * 100) / 100,
+    score,
+    label,
+  };
+}
+
+// `sentiment` and `emotion` columns for a plaintext or encrypted entry
+export function sentimentFields(entry: { title: string; content: string; encrypted?: boolean }) {
+  if (entry.encrypted) {
+    return { sentiment: null, emotion: null };
+  }
+  const sentiment = analyzeJournalSentiment(`${entry.title}\n${entry.content}`);
+  return { sentiment: sentiment.score, emotion: sentiment.emotion };
+}
+
+export function buildJournalEventData(entry: JournalEntryLike): JournalEventData {
+  const encrypted = !!entry.encrypted;
+  const withholdText = encrypted || entry.isPrivate;
+  return {
+    entryId: entry.id,
+    title: withholdText ? null : entry.title,
+    content: withholdText ? null : entry.content,
+    mood: entry.mood ?? null,
+    tags: entry.tags || [],
+    isPrivate: entry.isPrivate,
+    encrypted,
+    wordCount: encrypted ? null : entry.content.split(/\s+/).filter(Boolean).length,
+    sentiment: encrypted ? null : analyzeJournalSentiment(`${entry.title}\n${entry.content}`),
+  };
+}
+
+export function emitJournalCreated(userId: string, entry: JournalEntryLike): void {
+  emitAutomationEvent("journal.created", userId, buildJournalEventData(entry));
+}
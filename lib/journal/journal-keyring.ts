@@ -0,0 +1,44 @@
+import type { Prisma } from "@prisma/client";
+
+// Once a user sets up journal encryption, the server only stores private
+// entries as ciphertext under the keyring's current version.
+
+export class JournalKeyConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JournalKeyConflictError";
+  }
+}
+
+export const KEY_CHANGED_MESSAGE = "Journal key has changed; unlock your journal again";
+export const PLAINTEXT_PRIVATE_MESSAGE = "Journal encryption is on; private entries must be encrypted in the journal";
+
+export async function hasJournalKeyring(tx: Prisma.TransactionClient, userId: string): Promise<boolean> {
+  return (await tx.journalKeyring.count({ where: { userId } })) > 0;
+}
+
+// Run inside the transaction that writes the entry. An encrypted write takes
+// the keyring row lock (a no-op update that only matches the current version),
+// so it serialises with key rotation: either the rotation commits first and
+// the write fails, or the rotation waits, sees the new entry among those it
+// didn't re-encrypt, and fails instead.
+export async function checkJournalWrite(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  write: { isPrivate: boolean; keyVersion: number | null }
+): Promise<void> {
+  if (write.keyVersion !== null) {
+    const locked = await tx.journalKeyring.updateMany({
+      where: { userId, version: write.keyVersion },
+      data: { version: write.keyVersion },
+    });
+    if (locked.count === 0) {
+      throw new JournalKeyConflictError(KEY_CHANGED_MESSAGE);
+    }
+    return;
+  }
+
+  if (write.isPrivate && (await hasJournalKeyring(tx, userId))) {
+    throw new JournalKeyConflictError(PLAINTEXT_PRIVATE_MESSAGE);
+  }
+}
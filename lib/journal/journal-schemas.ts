@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { ENCRYPTED_TITLE } from "./encryption";
+
+// Base64 strings; ciphertext allows for a 10,000 character entry plus title and JSON framing
+const base64 = (max: number) => z.string().min(1).max(max).regex(/^[A-Za-z0-9+/]+={0,2}$/, "Expected base64");
+
+export const EncryptedPayloadSchema = z.object({
+  ciphertext: base64(60000),
+  iv: base64(32),
+  keyVersion: z.number().int().min(1),
+});
+
+const WrappedKeySchema = z.object({
+  salt: base64(64),
+  iv: base64(32),
+  wrappedKey: base64(128),
+});
+
+export const JournalKeyringSchema = z.object({
+  version: z.number().int().min(1),
+  kdf: z.literal("PBKDF2-SHA256"),
+  iterations: z.number().int().min(100000).max(10000000),
+  passphrase: WrappedKeySchema,
+  recovery: WrappedKeySchema,
+});
+
+// Same version: new passphrase and/or recovery key. Next version: data-key
+// rotation, with every encrypted entry re-encrypted under the new key.
+export const KeyringUpdateSchema = z.object({
+  keyring: JournalKeyringSchema,
+  entries: z.array(EncryptedPayloadSchema.extend({ id: z.string().min(1) })).optional(),
+});
+
+// Title and content columns for a plaintext or encrypted entry
+export function encryptionFields(data: {
+  title?: string;
+  content?: string;
+  encrypted?: z.infer<typeof EncryptedPayloadSchema>;
+}) {
+  if (data.encrypted) {
+    return {
+      title: ENCRYPTED_TITLE,
+      content: "",
+      encrypted: true,
+      ciphertext: data.encrypted.ciphertext,
+      iv: data.encrypted.iv,
+      keyVersion: data.encrypted.keyVersion,
+    };
+  }
+  return {
+    title: data.title as string,
+    content: data.content as string,
+    encrypted: false,
+    ciphertext: null,
+    iv: null,
+    keyVersion: null,
+  };
+}
+
+// Columns returned by the entry list endpoints
+export const journalEntrySelect = {
+  id: true,
+  title: true,
+  content: true,
+  mood: true,
+  tags: true,
+  isPrivate: true,
+  encrypted: true,
+  ciphertext: true,
+  iv: true,
+  keyVersion: true,
+  sentiment: true,
+  emotion: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
@@ -0,0 +1,218 @@
+// Journal search, shared by the server (plaintext entries) and the browser
+// (encrypted entries, after they are decrypted locally), so both rank and
+// highlight results the same way.
+
+const SNIPPET_RADIUS = 80;
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface JournalSearchHit {
+  score: number;
+  title: HighlightSegment[];
+  snippet: HighlightSegment[];
+  matchedTags: string[];
+}
+
+export interface SearchableEntry {
+  title: string;
+  content: string;
+  tags: string[];
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+export interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export interface OnThisDayRange {
+  year: number;
+  start: Date;
+  end: Date; // Exclusive
+}
+
+// Words and "quoted phrases", lowercased; every term must match
+export function parseSearchQuery(query: string): string[] {
+  const terms: string[] = [];
+  const pattern = /"([^"]+)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query)) !== null) {
+    const term = (match[1] ?? match[2]).trim().toLowerCase();
+    if (term && !terms.includes(term)) {
+      terms.push(term);
+    }
+  }
+  return terms;
+}
+
+// Non-overlapping [start, end) ranges of every term occurrence, in order
+export function findMatches(text: string, terms: string[]): [number, number][] {
+  const lower = text.toLowerCase();
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    let index = lower.indexOf(term);
+    while (index !== -1) {
+      ranges.push([index, index + term.length]);
+      index = lower.indexOf(term, index + term.length);
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+  return merged;
+}
+
+export function highlight(text: string, ranges: [number, number][]): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    if (start > cursor) {
+      segments.push({ text: text.slice(cursor, start), match: false });
+    }
+    segments.push({ text: text.slice(start, end), match: true });
+    cursor = end;
+  }
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), match: false });
+  }
+  return segments;
+}
+
+// A window of the content around the first match, cut at word boundaries
+export function highlightSnippet(content: string, terms: string[], radius = SNIPPET_RADIUS): HighlightSegment[] {
+  const ranges = findMatches(content, terms);
+  if (ranges.length === 0) {
+    const preview = content.length > radius * 2 ? `${content.slice(0, radius * 2).trimEnd()}…` : content;
+    return [{ text: preview, match: false }];
+  }
+
+  let start = Math.max(0, ranges[0][0] - radius);
+  let end = Math.min(content.length, ranges[0][1] + radius);
+  if (start > 0) {
+    const space = content.indexOf(" ", start);
+    start = space !== -1 && space < ranges[0][0] ? space + 1 : start;
+  }
+  if (end < content.length) {
+    const space = content.lastIndexOf(" ", end);
+    end = space > ranges[0][1] ? space : end;
+  }
+
+  const inWindow = ranges
+    .filter(([from, to]) => from >= start && to <= end)
+    .map(([from, to]): [number, number] => [from - start, to - start]);
+  const segments = highlight(content.slice(start, end), inWindow);
+  if (start > 0) {
+    segments.unshift({ text: "…", match: false });
+  }
+  if (end < content.length) {
+    segments.push({ text: "…", match: false });
+  }
+  return segments;
+}
+
+// Null unless every term appears in the title or content, or equals a tag.
+// Title and tag matches rank above matches in the body.
+export function searchEntry(entry: SearchableEntry, terms: string[]): JournalSearchHit | null {
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const title = entry.title.toLowerCase();
+  const content = entry.content.toLowerCase();
+  const tags = entry.tags.map((tag) => tag.toLowerCase());
+  let score = 0;
+  for (const term of terms) {
+    const inTitle = title.includes(term);
+    const inTags = tags.includes(term);
+    const contentHits = findMatches(content, [term]).length;
+    if (!inTitle && !inTags && contentHits === 0) {
+      return null;
+    }
+    score += (inTitle ? 3 : 0) + (inTags ? 2 : 0) + Math.min(contentHits, 5);
+  }
+
+  return {
+    score,
+    title: highlight(entry.title, findMatches(entry.title, terms)),
+    snippet: highlightSnippet(entry.content, terms),
+    matchedTags: entry.tags.filter((tag) => terms.includes(tag.toLowerCase())),
+  };
+}
+
+// Most used first; tags differing only by case are counted together under
+// their most common spelling
+export function buildTagCloud(entries: { tags: string[] }[]): TagCount[] {
+  const groups = new Map<string, Map<string, number>>();
+  for (const entry of entries) {
+    for (const tag of new Set(entry.tags)) {
+      const key = tag.toLowerCase();
+      const spellings = groups.get(key) ?? new Map<string, number>();
+      spellings.set(tag, (spellings.get(tag) ?? 0) + 1);
+      groups.set(key, spellings);
+    }
+  }
+
+  return Array.from(groups.values())
+    .map((spellings) => {
+      const ranked = Array.from(spellings.entries()).sort((a, b) => b[1] - a[1]);
+      return { tag: ranked[0][0], count: ranked.reduce((sum, [, count]) => sum + count, 0) };
+    })
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+// Local-day ranges for the same calendar date in each earlier year, newest
+// first. `tzOffset` is the client's Date#getTimezoneOffset() in minutes.
+// Feb 29 entries resurface on Feb 28 in non-leap years.
+export function onThisDayRanges(today: CalendarDate, fromYear: number, tzOffset = 0): OnThisDayRange[] {
+  const localMidnight = (year: number, month: number, day: number) =>
+    new Date(Date.UTC(year, month - 1, day) + tzOffset * 60 * 1000);
+
+  const ranges: OnThisDayRange[] = [];
+  const isLeapDay = today.month === 2 && today.day === 29;
+  const includesLeapDay = today.month === 2 && today.day === 28 && !isLeapYear(today.year);
+  for (let year = today.year - 1; year >= fromYear; year--) {
+    if (isLeapDay && !isLeapYear(year)) {
+      continue;
+    }
+    const days = includesLeapDay && isLeapYear(year) ? 2 : 1;
+    ranges.push({
+      year,
+      start: localMidnight(year, today.month, today.day),
+      end: localMidnight(year, today.month, today.day + days),
+    });
+  }
+  return ranges;
+}
+
+export function parseCalendarDate(value: string): CalendarDate | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return { year, month, day };
+}
@@ -0,0 +1,108 @@
+import { AssessmentDefinition, AssessmentType, getAssessment, isClinicalScore } from "./assessments";
+
+// Change between two administrations of the same instrument, classified with
+// the Jacobson-Truax reliable change index (RCI) and clinical cutoff.
+
+const RELIABLE_Z = 1.96;
+
+export type ChangeDirection = "improved" | "worsened" | "unchanged";
+
+// recovered: reliable improvement out of the clinical range
+// deteriorated: reliable worsening into the clinical range
+export type ChangeCategory = "recovered" | "improved" | "unchanged" | "worsened" | "deteriorated";
+
+export interface AssessmentPoint {
+  id: string;
+  score: number;
+  severity: string | null;
+  createdAt: Date;
+}
+
+export interface AssessmentChange {
+  fromId: string;
+  toId: string;
+  from: number;
+  to: number;
+  difference: number; // to - from, in score units
+  rci: number; // Positive = improvement, whatever the instrument's direction
+  reliable: boolean;
+  clinicallySignificant: boolean;
+  direction: ChangeDirection;
+  category: ChangeCategory;
+}
+
+export interface AssessmentTrend {
+  type: AssessmentType;
+  maxScore: number;
+  higherIsBetter: boolean;
+  clinicalCutoff: number;
+  reliableChange: number; // Smallest difference that counts as reliable
+  points: AssessmentPoint[];
+  changes: AssessmentChange[]; // Between consecutive administrations
+  sinceBaseline: AssessmentChange | null; // First vs latest
+}
+
+export function standardErrorOfDifference(definition: AssessmentDefinition): number {
+  const { sd, reliability } = definition.changeNorms;
+  return sd * Math.sqrt(2 * (1 - reliability));
+}
+
+export function compareAdministrations(
+  definition: AssessmentDefinition,
+  from: AssessmentPoint,
+  to: AssessmentPoint
+): AssessmentChange {
+  const difference = to.score - from.score;
+  const improvement = definition.higherIsBetter ? difference : -difference;
+  const rci = Math.round((improvement / standardErrorOfDifference(definition)) * 100) / 100;
+  const reliable = Math.abs(rci) > RELIABLE_Z;
+  const direction: ChangeDirection = !reliable ? "unchanged" : rci > 0 ? "improved" : "worsened";
+
+  const wasClinical = isClinicalScore(definition, from.score);
+  const isClinical = isClinicalScore(definition, to.score);
+  const clinicallySignificant = (direction === "improved" && wasClinical && !isClinical) ||
+    (direction === "worsened" && !wasClinical && isClinical);
+
+  let category: ChangeCategory = direction;
+  if (clinicallySignificant) {
+    category = direction === "improved" ? "recovered" : "deteriorated";
+  }
+
+  return {
+    fromId: from.id,
+    toId: to.id,
+    from: from.score,
+    to: to.score,
+    difference,
+    rci,
+    reliable,
+    clinicallySignificant,
+    direction,
+    category,
+  };
+}
+
+export function buildAssessmentTrend(type: string, points: AssessmentPoint[]): AssessmentTrend | null {
+  const definition = getAssessment(type);
+  if (!definition) {
+    return null;
+  }
+
+  const ordered = [...points].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  const changes = ordered.slice(1).map((point, index) => compareAdministrations(definition, ordered[index], point));
+  const threshold = RELIABLE_Z * standardErrorOfDifference(definition);
+
+  return {
+    type: definition.type,
+    maxScore: definition.maxScore,
+    higherIsBetter: definition.higherIsBetter,
+    clinicalCutoff: definition.changeNorms.clinicalCutoff,
+    // Scores move in steps of scoreMultiplier, so round up to the next reachable step
+    reliableChange: (Math.floor(threshold / definition.scoreMultiplier) + 1) * definition.scoreMultiplier,
+    points: ordered,
+    changes,
+    sinceBaseline: ordered.length > 1
+      ? compareAdministrations(definition, ordered[0], ordered[ordered.length - 1])
+      : null,
+  };
+}
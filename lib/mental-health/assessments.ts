@@ -0,0 +1,299 @@
+// Registry of validated self-report instruments. Item wording, answer ranges,
+// reverse-scored items and severity bands follow each instrument's published
+// scoring guide, so a given set of answers always scores the same way.
+
+export const ASSESSMENT_TYPES = ["PHQ-9", "GAD-7", "PSS-10", "WHO-5"] as const;
+export type AssessmentType = typeof ASSESSMENT_TYPES[number];
+
+export type SeverityTone = "minimal" | "mild" | "moderate" | "severe";
+
+export interface AnswerOption {
+  value: number;
+  label: string;
+  description?: string;
+}
+
+export interface AssessmentItem {
+  id: number; // 1-based, as numbered on the questionnaire
+  text: string;
+  reverse?: boolean; // Scored as (max option - answer)
+  safety?: boolean; // Any non-zero answer starts the crisis flow
+}
+
+export interface SeverityBand {
+  min: number;
+  max: number;
+  label: string;
+  tone: SeverityTone;
+  interpretation: string;
+}
+
+// Norms for Jacobson-Truax reliable change: a difference counts as reliable
+// when it exceeds 1.96 x sd x sqrt(2 x (1 - reliability)). Scores on the
+// clinical side of `clinicalCutoff` are in the clinical range.
+export interface ChangeNorms {
+  sd: number;
+  reliability: number;
+  clinicalCutoff: number;
+}
+
+export interface AssessmentDefinition {
+  type: AssessmentType;
+  title: string;
+  description: string;
+  prompt: string;
+  items: AssessmentItem[];
+  options: AnswerOption[];
+  scoreMultiplier: number; // WHO-5 reports the raw total x4 as a 0-100 index
+  maxScore: number;
+  higherIsBetter: boolean;
+  bands: SeverityBand[];
+  changeNorms: ChangeNorms;
+}
+
+export interface AssessmentScore {
+  type: AssessmentType;
+  answers: number[];
+  rawScore: number;
+  score: number;
+  maxScore: number;
+  severity: SeverityBand;
+  interpretation: string;
+  safetyFlag: boolean;
+  safetyItems: number[];
+}
+
+export interface CrisisResource {
+  name: string;
+  contact: string;
+  description: string;
+}
+
+export const CRISIS_RESOURCES: CrisisResource[] = [
+  { name: "988 Suicide & Crisis Lifeline", contact: "Call or text 988", description: "Free, confidential support 24/7 (US)" },
+  { name: "Crisis Text Line", contact: "Text HOME to 741741", description: "Text with a trained crisis counselor 24/7" },
+  { name: "Emergency services", contact: "Call 911", description: "If you are in immediate danger" },
+];
+
+export class AssessmentValidationError extends Error {
+  constructor(message: string, public itemId?: number) {
+    super(message);
+    this.name = "AssessmentValidationError";
+  }
+}
+
+const FREQUENCY_OPTIONS: AnswerOption[] = [
+  { value: 0, label: "Not at all", description: "0 days" },
+  { value: 1, label: "Several days", description: "1-6 days" },
+  { value: 2, label: "More than half the days", description: "7-11 days" },
+  { value: 3, label: "Nearly every day", description: "12-14 days" },
+];
+
+const PHQ9: AssessmentDefinition = {
+  type: "PHQ-9",
+  title: "Patient Health Questionnaire (PHQ-9)",
+  description: "A 9-item depression screening tool",
+  prompt: "Over the last 2 weeks, how often have you been bothered by any of the following problems?",
+  items: [
+    { id: 1, text: "Little interest or pleasure in doing things" },
+    { id: 2, text: "Feeling down, depressed, or hopeless" },
+    { id: 3, text: "Trouble falling or staying asleep, or sleeping too much" },
+    { id: 4, text: "Feeling tired or having little energy" },
+    { id: 5, text: "Poor appetite or overeating" },
+    { id: 6, text: "Feeling bad about yourself - or that you are a failure or have let yourself or your family down" },
+    { id: 7, text: "Trouble concentrating on things, such as reading the newspaper or watching television" },
+    {
+      id: 8,
+      text: "Moving or speaking so slowly that other people could have noticed. Or the opposite - being so fidgety or restless that you have been moving around a lot more than usual",
+    },
+    { id: 9, text: "Thoughts that you would be better off dead or of hurting yourself in some way", safety: true },
+  ],
+  options: FREQUENCY_OPTIONS,
+  scoreMultiplier: 1,
+  maxScore: 27,
+  higherIsBetter: false,
+  changeNorms: { sd: 5.7, reliability: 0.89, clinicalCutoff: 10 }, // Reliable change: 6 points
+  bands: [
+    { min: 0, max: 4, label: "Minimal", tone: "minimal", interpretation: "Minimal or no depressive symptoms." },
+    { min: 5, max: 9, label: "Mild", tone: "mild", interpretation: "Mild depressive symptoms. Watchful waiting and repeating the PHQ-9 at follow-up is usually enough." },
+    { min: 10, max: 14, label: "Moderate", tone: "moderate", interpretation: "Moderate depressive symptoms. Consider talking with a clinician about a treatment plan." },
+    { min: 15, max: 19, label: "Moderately Severe", tone: "severe", interpretation: "Moderately severe depressive symptoms. Active treatment with a clinician is recommended." },
+    { min: 20, max: 27, label: "Severe", tone: "severe", interpretation: "Severe depressive symptoms. Please reach out to a mental health professional promptly." },
+  ],
+};
+
+const GAD7: AssessmentDefinition = {
+  type: "GAD-7",
+  title: "Generalized Anxiety Disorder (GAD-7)",
+  description: "A 7-item anxiety screening tool",
+  prompt: "Over the last 2 weeks, how often have you been bothered by the following problems?",
+  items: [
+    { id: 1, text: "Feeling nervous, anxious, or on edge" },
+    { id: 2, text: "Not being able to stop or control worrying" },
+    { id: 3, text: "Worrying too much about different things" },
+    { id: 4, text: "Trouble relaxing" },
+    { id: 5, text: "Being so restless that it's hard to sit still" },
+    { id: 6, text: "Becoming easily annoyed or irritable" },
+    { id: 7, text: "Feeling afraid as if something awful might happen" },
+  ],
+  options: FREQUENCY_OPTIONS,
+  scoreMultiplier: 1,
+  maxScore: 21,
+  higherIsBetter: false,
+  changeNorms: { sd: 4.8, reliability: 0.92, clinicalCutoff: 8 }, // Reliable change: 4 points
+  bands: [
+    { min: 0, max: 4, label: "Minimal", tone: "minimal", interpretation: "Minimal anxiety symptoms." },
+    { min: 5, max: 9, label: "Mild", tone: "mild", interpretation: "Mild anxiety symptoms. Monitor and repeat the GAD-7 at follow-up." },
+    { min: 10, max: 14, label: "Moderate", tone: "moderate", interpretation: "Moderate anxiety symptoms. Consider talking with a clinician." },
+    { min: 15, max: 21, label: "Severe", tone: "severe", interpretation: "Severe anxiety symptoms. Please reach out to a mental health professional." },
+  ],
+};
+
+const PSS10: AssessmentDefinition = {
+  type: "PSS-10",
+  title: "Perceived Stress Scale (PSS-10)",
+  description: "A 10-item measure of how stressful life has felt",
+  prompt: "In the last month, how often have you...",
+  items: [
+    { id: 1, text: "Been upset because of something that happened unexpectedly?" },
+    { id: 2, text: "Felt that you were unable to control the important things in your life?" },
+    { id: 3, text: "Felt nervous and \"stressed\"?" },
+    { id: 4, text: "Felt confident about your ability to handle your personal problems?", reverse: true },
+    { id: 5, text: "Felt that things were going your way?", reverse: true },
+    { id: 6, text: "Found that you could not cope with all the things that you had to do?" },
+    { id: 7, text: "Been able to control irritations in your life?", reverse: true },
+    { id: 8, text: "Felt that you were on top of things?", reverse: true },
+    { id: 9, text: "Been angered because of things that happened that were outside of your control?" },
+    { id: 10, text: "Felt difficulties were piling up so high that you could not overcome them?" },
+  ],
+  options: [
+    { value: 0, label: "Never" },
+    { value: 1, label: "Almost never" },
+    { value: 2, label: "Sometimes" },
+    { value: 3, label: "Fairly often" },
+    { value: 4, label: "Very often" },
+  ],
+  scoreMultiplier: 1,
+  maxScore: 40,
+  higherIsBetter: false,
+  changeNorms: { sd: 6.2, reliability: 0.85, clinicalCutoff: 14 }, // Reliable change: 7 points
+  bands: [
+    { min: 0, max: 13, label: "Low Stress", tone: "minimal", interpretation: "Low perceived stress." },
+    { min: 14, max: 26, label: "Moderate Stress", tone: "moderate", interpretation: "Moderate perceived stress. Regular stress-management practices can help." },
+    { min: 27, max: 40, label: "High Stress", tone: "severe", interpretation: "High perceived stress. Consider reducing load where you can and talking with someone you trust or a professional." },
+  ],
+};
+
+const WHO5: AssessmentDefinition = {
+  type: "WHO-5",
+  title: "WHO-5 Well-Being Index",
+  description: "A 5-item measure of current wellbeing",
+  prompt: "Over the last 2 weeks...",
+  items: [
+    { id: 1, text: "I have felt cheerful and in good spirits" },
+    { id: 2, text: "I have felt calm and relaxed" },
+    { id: 3, text: "I have felt active and vigorous" },
+    { id: 4, text: "I woke up feeling fresh and rested" },
+    { id: 5, text: "My daily life has been filled with things that interest me" },
+  ],
+  options: [
+    { value: 5, label: "All of the time" },
+    { value: 4, label: "Most of the time" },
+    { value: 3, label: "More than half of the time" },
+    { value: 2, label: "Less than half of the time" },
+    { value: 1, label: "Some of the time" },
+    { value: 0, label: "At no time" },
+  ],
+  scoreMultiplier: 4,
+  maxScore: 100,
+  higherIsBetter: true,
+  changeNorms: { sd: 18, reliability: 0.85, clinicalCutoff: 50 }, // Reliable change: 20 points
+  bands: [
+    { min: 0, max: 28, label: "Low Wellbeing", tone: "severe", interpretation: "Very low wellbeing, often seen with depression. Consider a PHQ-9 and talking with a clinician." },
+    { min: 29, max: 50, label: "Reduced Wellbeing", tone: "moderate", interpretation: "Reduced wellbeing. Screening for depression with the PHQ-9 is suggested." },
+    { min: 51, max: 100, label: "Good Wellbeing", tone: "minimal", interpretation: "Good wellbeing." },
+  ],
+};
+
+export const ASSESSMENTS: Record<AssessmentType, AssessmentDefinition> = {
+  "PHQ-9": PHQ9,
+  "GAD-7": GAD7,
+  "PSS-10": PSS10,
+  "WHO-5": WHO5,
+};
+
+// Accepts "PHQ-9", "phq9", "PHQ 9", ...
+export function getAssessment(type: string): AssessmentDefinition | null {
+  const key = type.replace(/[^a-z0-9]/gi, "").toUpperCase();
+  const match = ASSESSMENT_TYPES.find((candidate) => candidate.replace("-", "") === key);
+  return match ? ASSESSMENTS[match] : null;
+}
+
+export function getSeverityBand(definition: AssessmentDefinition, score: number): SeverityBand {
+  return definition.bands.find((band) => score >= band.min && score <= band.max) ||
+    definition.bands[definition.bands.length - 1];
+}
+
+export function isClinicalScore(definition: AssessmentDefinition, score: number): boolean {
+  const { clinicalCutoff } = definition.changeNorms;
+  return definition.higherIsBetter ? score <= clinicalCutoff : score >= clinicalCutoff;
+}
+
+export function isSafetyResponse(item: AssessmentItem, value: number | undefined): boolean {
+  return Boolean(item.safety) && value !== undefined && value > 0;
+}
+
+// Answers arrive either in item order or keyed by item id ({ 1: 0, 2: 3, ... })
+export function normalizeAnswers(definition: AssessmentDefinition, answers: unknown): number[] {
+  const values = Array.isArray(answers)
+    ? answers
+    : answers && typeof answers === "object"
+      ? definition.items.map((item) => (answers as Record<string, unknown>)[item.id])
+      : null;
+
+  if (!values) {
+    throw new AssessmentValidationError("Answers must be an array or an object keyed by item number");
+  }
+  if (values.length !== definition.items.length) {
+    throw new AssessmentValidationError(`${definition.type} has ${definition.items.length} items, got ${values.length} answers`);
+  }
+
+  const allowed = new Set(definition.options.map((option) => option.value));
+  return definition.items.map((item, index) => {
+    const value = values[index];
+    if (typeof value !== "number" || !allowed.has(value)) {
+      throw new AssessmentValidationError(`Item ${item.id} needs an answer from the ${definition.type} scale`, item.id);
+    }
+    return value;
+  });
+}
+
+export function scoreAssessment(type: string, answers: unknown): AssessmentScore {
+  const definition = getAssessment(type);
+  if (!definition) {
+    throw new AssessmentValidationError(`Unknown assessment type "${type}"`);
+  }
+
+  const values = normalizeAnswers(definition, answers);
+  const maxOption = Math.max(...definition.options.map((option) => option.value));
+  const rawScore = definition.items.reduce((sum, item, index) => {
+    return sum + (item.reverse ? maxOption - values[index] : values[index]);
+  }, 0);
+  const score = rawScore * definition.scoreMultiplier;
+  const severity = getSeverityBand(definition, score);
+  const safetyItems = definition.items
+    .filter((item, index) => isSafetyResponse(item, values[index]))
+    .map((item) => item.id);
+
+  return {
+    type: definition.type,
+    answers: values,
+    rawScore,
+    score,
+    maxScore: definition.maxScore,
+    severity,
+    interpretation: severity.interpretation,
+    safetyFlag: safetyItems.length > 0,
+    safetyItems,
+  };
+}
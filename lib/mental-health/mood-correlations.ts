@@ -0,0 +1,317 @@
+// Relates daily mood to what happened that day (or the day before): activities
+// logged with a mood entry, completed habits and spending by category. Also
+// looks for day-of-week effects. Every estimate carries a 95% confidence
+// interval, and only effects whose interval excludes zero count as findings.
+
+const Z_975 = 1.959964;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_MOOD_DAYS = 14;
+const MIN_GROUP_DAYS = 5; // Days with and without a signal before comparing them
+const MIN_WEEKDAY_DAYS = 3;
+const LAGS = [0, 1];
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export type SignalSource = "activity" | "habit" | "spending";
+
+export interface CorrelationInput {
+  moods: { mood: number; activities: string[]; createdAt: Date }[];
+  habitLogs: { habitName: string; date: Date; completed: boolean }[];
+  transactions: { category: string; type: string; date: Date }[];
+  timeZone?: string; // IANA; mood entries and transactions are bucketed by local day
+}
+
+export interface ConfidenceInterval {
+  low: number;
+  high: number;
+}
+
+export interface MoodEffect {
+  key: string; // e.g. "habit:sleep 8 hours:1"
+  source: SignalSource;
+  signal: string;
+  lag: number; // 0 = same day, 1 = signal the day before the mood
+  daysWith: number;
+  daysWithout: number;
+  meanWith: number;
+  meanWithout: number;
+  lift: number; // meanWith - meanWithout, in mood points
+  liftCi: ConfidenceInterval;
+  correlation: number; // Point-biserial r
+  correlationCi: ConfidenceInterval;
+  significant: boolean;
+}
+
+export interface WeekdayEffect {
+  weekday: number; // 0 = Sunday
+  label: string;
+  days: number;
+  meanMood: number;
+  lift: number; // Against all other days
+  liftCi: ConfidenceInterval;
+  significant: boolean;
+}
+
+export interface MoodCorrelationReport {
+  moodDays: number;
+  meanMood: number;
+  enoughData: boolean;
+  effects: MoodEffect[]; // Strongest first
+  weekdays: WeekdayEffect[];
+}
+
+export interface MoodFinding {
+  key: string;
+  title: string;
+  description: string;
+  lift: number;
+  liftCi: ConfidenceInterval;
+  days: number;
+  strength: number; // Distance of the interval from zero
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export function dayKey(date: Date, timeZone = "UTC"): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(date);
+}
+
+function shiftDay(day: string, days: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function variance(values: number[]): number {
+  const average = mean(values);
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+}
+
+// Two-sided 97.5% quantile of Student's t (Cornish-Fisher expansion; within
+// 0.01 of the exact value for df >= 3)
+export function tCritical(df: number): number {
+  const z = Z_975;
+  return z +
+    (z ** 3 + z) / (4 * df) +
+    (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * df ** 2) +
+    (3 * z ** 7 + 19 * z ** 5 + 17 * z ** 3 - 15 * z) / (384 * df ** 3);
+}
+
+// Welch's unequal-variance interval for mean(a) - mean(b)
+export function meanDifference(a: number[], b: number[]): { difference: number; ci: ConfidenceInterval } {
+  const difference = mean(a) - mean(b);
+  const varA = variance(a) / a.length;
+  const varB = variance(b) / b.length;
+  const se = Math.sqrt(varA + varB);
+  if (se === 0) {
+    return { difference, ci: { low: difference, high: difference } };
+  }
+  const df = (varA + varB) ** 2 / (varA ** 2 / (a.length - 1) + varB ** 2 / (b.length - 1));
+  const margin = tCritical(df) * se;
+  return { difference, ci: { low: difference - margin, high: difference + margin } };
+}
+
+// Pearson correlation with a Fisher z interval
+export function correlation(xs: number[], ys: number[]): { r: number; ci: ConfidenceInterval } {
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let covariance = 0;
+  let sumX = 0;
+  let sumY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    sumX += (xs[i] - meanX) ** 2;
+    sumY += (ys[i] - meanY) ** 2;
+  }
+  const r = sumX === 0 || sumY === 0 ? 0 : covariance / Math.sqrt(sumX * sumY);
+  if (xs.length <= 3 || Math.abs(r) === 1) {
+    return { r, ci: { low: r, high: r } };
+  }
+  const z = Math.atanh(r);
+  const margin = Z_975 / Math.sqrt(xs.length - 3);
+  return { r, ci: { low: Math.tanh(z - margin), high: Math.tanh(z + margin) } };
+}
+
+const excludesZero = (ci: ConfidenceInterval) => ci.low > 0 || ci.high < 0;
+
+function roundCi(ci: ConfidenceInterval): ConfidenceInterval {
+  return { low: round(ci.low), high: round(ci.high) };
+}
+
+// Average mood per day
+function dailyMoods(input: CorrelationInput): Map<string, number> {
+  const byDay = new Map<string, number[]>();
+  for (const entry of input.moods) {
+    const day = dayKey(entry.createdAt, input.timeZone);
+    byDay.set(day, [...(byDay.get(day) ?? []), entry.mood]);
+  }
+  return new Map(Array.from(byDay.entries(), ([day, moods]) => [day, mean(moods)]));
+}
+
+// Days on which each signal occurred, keyed by "source:signal"
+function collectSignals(input: CorrelationInput): Map<string, { source: SignalSource; signal: string; days: Set<string> }> {
+  const signals = new Map<string, { source: SignalSource; signal: string; days: Set<string> }>();
+  const add = (source: SignalSource, name: string, day: string) => {
+    const signal = name.trim().toLowerCase();
+    if (!signal) {
+      return;
+    }
+    const key = `${source}:${signal}`;
+    const existing = signals.get(key) ?? { source, signal, days: new Set<string>() };
+    existing.days.add(day);
+    signals.set(key, existing);
+  };
+
+  for (const entry of input.moods) {
+    for (const activity of entry.activities) {
+      add("activity", activity, dayKey(entry.createdAt, input.timeZone));
+    }
+  }
+  for (const log of input.habitLogs) {
+    if (log.completed) {
+      // Habit log dates are calendar dates stored at UTC midnight
+      add("habit", log.habitName, dayKey(log.date));
+    }
+  }
+  for (const transaction of input.transactions) {
+    if (transaction.type.toLowerCase() === "expense") {
+      add("spending", transaction.category, dayKey(transaction.date, input.timeZone));
+    }
+  }
+  return signals;
+}
+
+export function analyzeMoodCorrelations(input: CorrelationInput): MoodCorrelationReport {
+  const moods = dailyMoods(input);
+  const days = Array.from(moods.keys()).sort();
+  const values = days.map((day) => moods.get(day)!);
+  const report: MoodCorrelationReport = {
+    moodDays: days.length,
+    meanMood: days.length > 0 ? round(mean(values)) : 0,
+    enoughData: days.length >= MIN_MOOD_DAYS,
+    effects: [],
+    weekdays: [],
+  };
+  if (!report.enoughData) {
+    return report;
+  }
+
+  for (const [key, { source, signal, days: signalDays }] of collectSignals(input)) {
+    for (const lag of LAGS) {
+      const present = days.map((day) => signalDays.has(shiftDay(day, -lag)));
+      const withSignal = values.filter((_, i) => present[i]);
+      const withoutSignal = values.filter((_, i) => !present[i]);
+      if (withSignal.length < MIN_GROUP_DAYS || withoutSignal.length < MIN_GROUP_DAYS) {
+        continue;
+      }
+
+      const { difference, ci } = meanDifference(withSignal, withoutSignal);
+      const { r, ci: rCi } = correlation(present.map(Number), values);
+      report.effects.push({
+        key: `${key}:${lag}`,
+        source,
+        signal,
+        lag,
+        daysWith: withSignal.length,
+        daysWithout: withoutSignal.length,
+        meanWith: round(mean(withSignal)),
+        meanWithout: round(mean(withoutSignal)),
+        lift: round(difference),
+        liftCi: roundCi(ci),
+        correlation: round(r),
+        correlationCi: roundCi(rCi),
+        significant: excludesZero(ci) && excludesZero(rCi),
+      });
+    }
+  }
+  report.effects.sort((a, b) => effectStrength(b.liftCi) - effectStrength(a.liftCi));
+
+  for (let weekday = 0; weekday < 7; weekday++) {
+    const isWeekday = days.map((day) => new Date(`${day}T00:00:00Z`).getUTCDay() === weekday);
+    const on = values.filter((_, i) => isWeekday[i]);
+    const off = values.filter((_, i) => !isWeekday[i]);
+    if (on.length < MIN_WEEKDAY_DAYS || off.length < MIN_GROUP_DAYS) {
+      continue;
+    }
+    const { difference, ci } = meanDifference(on, off);
+    report.weekdays.push({
+      weekday,
+      label: WEEKDAYS[weekday],
+      days: on.length,
+      meanMood: round(mean(on)),
+      lift: round(difference),
+      liftCi: roundCi(ci),
+      significant: excludesZero(ci),
+    });
+  }
+
+  return report;
+}
+
+// How far the interval sits from zero; 0 when it straddles zero
+function effectStrength(ci: ConfidenceInterval): number {
+  return excludesZero(ci) ? Math.min(Math.abs(ci.low), Math.abs(ci.high)) : 0;
+}
+
+function formatPoints(value: number): string {
+  return `${value > 0 ? "+" : ""}${value.toFixed(1)}`;
+}
+
+function describeSignal(effect: MoodEffect): string {
+  const when = effect.lag === 1 ? "the day after" : "on days";
+  switch (effect.source) {
+    case "habit":
+      return `${when} you complete "${effect.signal}"`;
+    case "spending":
+      return `${when} you spend on ${effect.signal}`;
+    default:
+      return `${when} you log "${effect.signal}"`;
+  }
+}
+
+// Significant effects, strongest first, at most one per signal (the stronger
+// lag). With many signals some chance findings are expected, so callers
+// should only publish the top few.
+export function strongestFindings(report: MoodCorrelationReport, limit = 3): MoodFinding[] {
+  const findings: MoodFinding[] = [];
+  const seenSignals = new Set<string>();
+
+  for (const effect of report.effects.filter((candidate) => candidate.significant)) {
+    const signalKey = `${effect.source}:${effect.signal}`;
+    if (seenSignals.has(signalKey)) {
+      continue;
+    }
+    seenSignals.add(signalKey);
+    const direction = effect.lift > 0 ? "higher" : "lower";
+    findings.push({
+      key: effect.key,
+      title: `Your mood tends to be ${direction} ${describeSignal(effect)}`,
+      description: `Across ${effect.daysWith} days your mood averaged ${effect.meanWith.toFixed(1)}, ` +
+        `compared with ${effect.meanWithout.toFixed(1)} on the other ${effect.daysWithout} days ` +
+        `(${formatPoints(effect.lift)} points, 95% CI ${formatPoints(effect.liftCi.low)} to ${formatPoints(effect.liftCi.high)}). ` +
+        "This is a pattern in your data, not proof of cause and effect.",
+      lift: effect.lift,
+      liftCi: effect.liftCi,
+      days: effect.daysWith,
+      strength: effectStrength(effect.liftCi),
+    });
+  }
+
+  for (const weekday of report.weekdays.filter((candidate) => candidate.significant)) {
+    const direction = weekday.lift > 0 ? "higher" : "lower";
+    findings.push({
+      key: `weekday:${weekday.weekday}`,
+      title: `${weekday.label}s tend to bring a ${direction} mood`,
+      description: `Your mood on ${weekday.label}s averaged ${weekday.meanMood.toFixed(1)} over ${weekday.days} weeks ` +
+        `(${formatPoints(weekday.lift)} points vs other days, 95% CI ${formatPoints(weekday.liftCi.low)} to ${formatPoints(weekday.liftCi.high)}).`,
+      lift: weekday.lift,
+      liftCi: weekday.liftCi,
+      days: weekday.days,
+      strength: effectStrength(weekday.liftCi),
+    });
+  }
+
+  return findings.sort((a, b) => b.strength - a.strength).slice(0, limit);
+}
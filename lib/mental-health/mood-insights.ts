@@ -0,0 +1,86 @@
+import { prisma } from "../database";
+import { getUserTimezone } from "../timezone";
+import { MoodCorrelationReport, analyzeMoodCorrelations, strongestFindings } from "./mood-correlations";
+
+const ANALYSIS_LOOKBACK_DAYS = 120;
+// Don't repeat the same finding within this window
+const INSIGHT_COOLDOWN_DAYS = 30;
+const MAX_INSIGHTS_PER_RUN = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export async function buildMoodCorrelationReport(
+  userId: string,
+  options: { days?: number; timeZone?: string; now?: Date } = {}
+): Promise<MoodCorrelationReport> {
+  const now = options.now ?? new Date();
+  // One extra day so lagged signals have a "yesterday" for the first mood
+  const since = new Date(now.getTime() - ((options.days ?? ANALYSIS_LOOKBACK_DAYS) + 1) * DAY_MS);
+
+  const [moods, habitLogs, transactions] = await Promise.all([
+    prisma.moodEntry.findMany({
+      where: { userId, createdAt: { gte: since } },
+      select: { mood: true, activities: true, createdAt: true },
+    }),
+    prisma.habitLog.findMany({
+      where: { habit: { userId }, date: { gte: since }, completed: true },
+      select: { date: true, completed: true, habit: { select: { name: true } } },
+    }),
+    prisma.transaction.findMany({
+      where: { userId, date: { gte: since }, type: { equals: "expense", mode: "insensitive" } },
+      select: { category: true, type: true, date: true },
+    }),
+  ]);
+
+  return analyzeMoodCorrelations({
+    moods,
+    habitLogs: habitLogs.map((log) => ({ habitName: log.habit.name, date: log.date, completed: log.completed })),
+    transactions,
+    timeZone: options.timeZone,
+  });
+}
+
+// Publish the strongest new findings as ProactiveInsight rows. Returns how
+// many were created.
+export async function publishMoodInsights(userId: string, now = new Date()): Promise<number> {
+  // Bucket days in the user's timezone rather than the server's
+  const report = await buildMoodCorrelationReport(userId, { now, timeZone: await getUserTimezone(userId) });
+  const findings = strongestFindings(report, MAX_INSIGHTS_PER_RUN);
+  if (findings.length === 0) {
+    return 0;
+  }
+
+  const recent = await prisma.proactiveInsight.findMany({
+    where: {
+      userId,
+      createdAt: { gte: new Date(now.getTime() - INSIGHT_COOLDOWN_DAYS * DAY_MS) },
+      data: { path: ["kind"], equals: "mood_correlation" },
+    },
+    select: { data: true },
+  });
+  const recentKeys = new Set(recent.map((insight) => (insight.data as { key?: string } | null)?.key));
+
+  let published = 0;
+  for (const finding of findings.filter((candidate) => !recentKeys.has(candidate.key))) {
+    await prisma.proactiveInsight.create({
+      data: {
+        userId,
+        type: "health",
+        title: finding.title,
+        description: finding.description,
+        // Worth a closer look when something reliably drags mood down
+        priority: finding.lift < 0 && Math.abs(finding.lift) >= 1 ? "medium" : "low",
+        data: {
+          kind: "mood_correlation",
+          key: finding.key,
+          lift: finding.lift,
+          liftCi: { low: finding.liftCi.low, high: finding.liftCi.high },
+          days: finding.days,
+          moodDays: report.moodDays,
+        },
+      },
+    });
+    published++;
+  }
+  return published;
+}
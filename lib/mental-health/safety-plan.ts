@@ -0,0 +1,242 @@
+import { CRISIS_RESOURCES, CrisisResource } from "./assessments";
+
+// Personal safety plan following the Stanley-Brown Safety Planning
+// Intervention: six steps worked through in order during a crisis, plus the
+// reasons the person has for living.
+
+export const SAFETY_PLAN_PATH = "/dashboard/mental-health/safety-plan";
+export const SAFETY_PLAN_QUICK_PATH = "/dashboard/mental-health/safety-plan/quick";
+// localStorage copy so the quick view works without a connection
+export const SAFETY_PLAN_CACHE_KEY = "vitality:safety-plan";
+// Service worker (public/safety-plan-sw.js) that keeps the quick view's page
+// and scripts available offline; registered with the quick view as its scope
+export const SAFETY_PLAN_SW_PATH = "/safety-plan-sw.js";
+
+const MAX_ITEMS = 20;
+const MAX_TEXT_LENGTH = 300;
+
+export interface SafetyContact {
+  name: string;
+  phone?: string;
+  note?: string; // Relationship, clinic, hours...
+}
+
+export interface SafetyPlan {
+  warningSigns: string[];
+  copingStrategies: string[];
+  distractionContacts: SafetyContact[];
+  distractionPlaces: string[];
+  helpContacts: SafetyContact[];
+  professionalContacts: SafetyContact[];
+  environmentSafety: string[];
+  reasonsForLiving: string[];
+  updatedAt?: string; // ISO
+}
+
+export type SafetyPlanListField =
+  | "warningSigns"
+  | "copingStrategies"
+  | "distractionPlaces"
+  | "environmentSafety"
+  | "reasonsForLiving";
+export type SafetyPlanContactField = "distractionContacts" | "helpContacts" | "professionalContacts";
+
+export type SafetyPlanSection =
+  | { step: number | null; field: SafetyPlanListField; kind: "list"; title: string; prompt: string; placeholder: string }
+  | { step: number | null; field: SafetyPlanContactField; kind: "contacts"; title: string; prompt: string; placeholder: string };
+
+// In the order they are used during a crisis
+export const SAFETY_PLAN_SECTIONS: SafetyPlanSection[] = [
+  {
+    step: 1,
+    field: "warningSigns",
+    kind: "list",
+    title: "Warning signs",
+    prompt: "Thoughts, images, moods, situations or behaviors that tell me a crisis may be developing",
+    placeholder: "e.g. Not sleeping, pulling away from friends",
+  },
+  {
+    step: 2,
+    field: "copingStrategies",
+    kind: "list",
+    title: "Things I can do on my own",
+    prompt: "Ways to take my mind off my problems without contacting anyone",
+    placeholder: "e.g. Go for a walk, play guitar, take a shower",
+  },
+  {
+    step: 3,
+    field: "distractionContacts",
+    kind: "contacts",
+    title: "People who help me take my mind off things",
+    prompt: "People I can spend time with, without having to talk about how I feel",
+    placeholder: "Name",
+  },
+  {
+    step: 3,
+    field: "distractionPlaces",
+    kind: "list",
+    title: "Places that help me take my mind off things",
+    prompt: "Social settings where I feel better around others",
+    placeholder: "e.g. Coffee shop on Main St, the gym",
+  },
+  {
+    step: 4,
+    field: "helpContacts",
+    kind: "contacts",
+    title: "People I can ask for help",
+    prompt: "People I can tell that I'm struggling",
+    placeholder: "Name",
+  },
+  {
+    step: 5,
+    field: "professionalContacts",
+    kind: "contacts",
+    title: "Professionals and services I can contact",
+    prompt: "My therapist, doctor, local urgent care or crisis team",
+    placeholder: "Name or service",
+  },
+  {
+    step: 6,
+    field: "environmentSafety",
+    kind: "list",
+    title: "Making my environment safe",
+    prompt: "Steps to keep things I could use to hurt myself out of reach",
+    placeholder: "e.g. Ask my sister to keep my medication",
+  },
+  {
+    step: null,
+    field: "reasonsForLiving",
+    kind: "list",
+    title: "My reasons for living",
+    prompt: "The things that matter most to me and are worth living for",
+    placeholder: "e.g. My kids, my dog, seeing the ocean again",
+  },
+];
+
+export const EMPTY_SAFETY_PLAN: SafetyPlan = {
+  warningSigns: [],
+  copingStrategies: [],
+  distractionContacts: [],
+  distractionPlaces: [],
+  helpContacts: [],
+  professionalContacts: [],
+  environmentSafety: [],
+  reasonsForLiving: [],
+};
+
+function cleanText(value: unknown): string {
+  return typeof value === "string" ? value.trim().slice(0, MAX_TEXT_LENGTH) : "";
+}
+
+function cleanList(values: unknown): string[] {
+  if (!Array.isArray(values)) {
+    return [];
+  }
+  const seen = new Set<string>();
+  const items: string[] = [];
+  for (const value of values) {
+    const item = cleanText(value);
+    if (item && !seen.has(item.toLowerCase())) {
+      seen.add(item.toLowerCase());
+      items.push(item);
+    }
+  }
+  return items.slice(0, MAX_ITEMS);
+}
+
+function cleanContacts(values: unknown): SafetyContact[] {
+  if (!Array.isArray(values)) {
+    return [];
+  }
+  return values
+    .map((value) => {
+      const contact = (value ?? {}) as Record<string, unknown>;
+      const cleaned: SafetyContact = { name: cleanText(contact.name) };
+      const phone = cleanText(contact.phone);
+      const note = cleanText(contact.note);
+      if (phone) {
+        cleaned.phone = phone;
+      }
+      if (note) {
+        cleaned.note = note;
+      }
+      return cleaned;
+    })
+    .filter((contact) => contact.name)
+    .slice(0, MAX_ITEMS);
+}
+
+// Trims text, drops blank and duplicate rows and caps list lengths. Accepts
+// anything shaped like a plan, e.g. a request body or a stored Json column.
+export function normalizeSafetyPlan(input: Partial<Record<keyof SafetyPlan, unknown>>): SafetyPlan {
+  return {
+    warningSigns: cleanList(input.warningSigns),
+    copingStrategies: cleanList(input.copingStrategies),
+    distractionContacts: cleanContacts(input.distractionContacts),
+    distractionPlaces: cleanList(input.distractionPlaces),
+    helpContacts: cleanContacts(input.helpContacts),
+    professionalContacts: cleanContacts(input.professionalContacts),
+    environmentSafety: cleanList(input.environmentSafety),
+    reasonsForLiving: cleanList(input.reasonsForLiving),
+    ...(typeof input.updatedAt === "string" && { updatedAt: input.updatedAt }),
+  };
+}
+
+export function isSafetyPlanEmpty(plan: SafetyPlan): boolean {
+  return SAFETY_PLAN_SECTIONS.every((section) => plan[section.field].length === 0);
+}
+
+export interface CrisisSafetyPlan {
+  copingStrategies: string[];
+  contacts: SafetyContact[]; // People first, then professionals
+  reasonsForLiving: string[];
+  resources: CrisisResource[]; // Always includes the national crisis lines
+  url: string;
+}
+
+// The parts of the plan to put in front of someone in crisis
+export function crisisView(plan: SafetyPlan | null): CrisisSafetyPlan | null {
+  if (!plan || isSafetyPlanEmpty(plan)) {
+    return null;
+  }
+  return {
+    copingStrategies: plan.copingStrategies.slice(0, 3),
+    contacts: [...plan.helpContacts, ...plan.professionalContacts].slice(0, 4),
+    reasonsForLiving: plan.reasonsForLiving,
+    resources: CRISIS_RESOURCES,
+    url: SAFETY_PLAN_QUICK_PATH,
+  };
+}
+
+// Phone numbers as tel: links; keeps the leading + and digits only
+export function telHref(phone: string): string {
+  return `tel:${phone.replace(/(?!^\+)[^\d]/g, "")}`;
+}
+
+// Browser-only: last saved copy of the plan for the offline quick view
+export function readCachedSafetyPlan(): SafetyPlan | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  try {
+    const cached = window.localStorage.getItem(SAFETY_PLAN_CACHE_KEY);
+    return cached ? normalizeSafetyPlan(JSON.parse(cached)) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeCachedSafetyPlan(plan: SafetyPlan | null): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+  try {
+    if (plan) {
+      window.localStorage.setItem(SAFETY_PLAN_CACHE_KEY, JSON.stringify(plan));
+    } else {
+      window.localStorage.removeItem(SAFETY_PLAN_CACHE_KEY);
+    }
+  } catch {
+    // Storage full or disabled; the plan is still on the server
+  }
+}
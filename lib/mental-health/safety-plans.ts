@@ -0,0 +1,28 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../database";
+import { SafetyPlan, normalizeSafetyPlan } from "./safety-plan";
+
+export async function getSafetyPlan(userId: string): Promise<SafetyPlan | null> {
+  const row = await prisma.safetyPlan.findUnique({ where: { userId } });
+  if (!row) {
+    return null;
+  }
+  // Contact columns are Json; normalizing also guards against hand-edited rows
+  return normalizeSafetyPlan({ ...row, updatedAt: row.updatedAt.toISOString() });
+}
+
+export async function saveSafetyPlan(userId: string, input: Partial<SafetyPlan>): Promise<SafetyPlan> {
+  const { updatedAt: _ignored, ...plan } = normalizeSafetyPlan(input);
+  const data = {
+    ...plan,
+    distractionContacts: plan.distractionContacts as unknown as Prisma.InputJsonArray,
+    helpContacts: plan.helpContacts as unknown as Prisma.InputJsonArray,
+    professionalContacts: plan.professionalContacts as unknown as Prisma.InputJsonArray,
+  };
+  const row = await prisma.safetyPlan.upsert({
+    where: { userId },
+    create: { userId, ...data },
+    update: data,
+  });
+  return { ...plan, updatedAt: row.updatedAt.toISOString() };
+}
@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { DISTORTION_IDS } from "./thought-records";
+
+const intensity = z.number().int().min(0).max(100);
+const optionalText = z.string().max(5000).optional();
+
+export const ThoughtRecordSchema = z.object({
+  moodEntryId: z.string().min(1).optional(),
+  situation: z.string().trim().min(1).max(2000),
+  automaticThought: z.string().trim().min(1).max(2000),
+  emotion: z.string().trim().min(1).max(100),
+  intensityBefore: intensity,
+  distortions: z.array(z.enum(DISTORTION_IDS)).max(DISTORTION_IDS.length).default([]),
+  evidenceFor: optionalText,
+  evidenceAgainst: optionalText,
+  balancedThought: optionalText,
+  intensityAfter: intensity.optional(),
+});
+
+// Records are often finished later, e.g. re-rating the emotion the next day
+export const UpdateThoughtRecordSchema = ThoughtRecordSchema.partial()
+  .omit({ moodEntryId: true })
+  .extend({
+    moodEntryId: z.string().min(1).nullable().optional(),
+    intensityAfter: intensity.nullable().optional(),
+  });
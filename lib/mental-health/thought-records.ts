@@ -0,0 +1,177 @@
+// Cognitive-behavioral thought records: a situation, the automatic thought it
+// triggered, the emotion and how strong it was, the thinking traps involved,
+// evidence for and against the thought, and a more balanced alternative. The
+// emotion is re-rated afterwards to see whether the exercise helped.
+
+export const THOUGHT_RECORD_PATH = "/dashboard/mental-health/thought-records";
+
+// Common cognitive distortions (after Beck and Burns)
+export const DISTORTION_IDS = [
+  "all_or_nothing",
+  "overgeneralization",
+  "mental_filter",
+  "disqualifying_positive",
+  "mind_reading",
+  "fortune_telling",
+  "catastrophizing",
+  "emotional_reasoning",
+  "should_statements",
+  "labeling",
+  "personalization",
+  "blaming",
+] as const;
+
+export type DistortionId = typeof DISTORTION_IDS[number];
+
+export interface CognitiveDistortion {
+  id: DistortionId;
+  label: string;
+  description: string;
+  question: string; // Prompt for challenging it
+}
+
+export const COGNITIVE_DISTORTIONS: Record<DistortionId, CognitiveDistortion> = {
+  all_or_nothing: {
+    id: "all_or_nothing",
+    label: "All-or-nothing thinking",
+    description: "Seeing things in black and white; anything short of perfect is a failure",
+    question: "Is there a middle ground between these two extremes?",
+  },
+  overgeneralization: {
+    id: "overgeneralization",
+    label: "Overgeneralization",
+    description: "Treating one event as a never-ending pattern (always, never, everyone)",
+    question: "Does this really happen every time, or am I remembering the times it did?",
+  },
+  mental_filter: {
+    id: "mental_filter",
+    label: "Mental filter",
+    description: "Dwelling on one negative detail so it colors everything else",
+    question: "What else happened that I'm leaving out?",
+  },
+  disqualifying_positive: {
+    id: "disqualifying_positive",
+    label: "Discounting the positive",
+    description: "Insisting good things don't count",
+    question: "Would I discount this if it happened to a friend?",
+  },
+  mind_reading: {
+    id: "mind_reading",
+    label: "Mind reading",
+    description: "Assuming you know what others are thinking, usually that it's negative",
+    question: "What evidence do I have for what they're thinking? Could I ask?",
+  },
+  fortune_telling: {
+    id: "fortune_telling",
+    label: "Fortune telling",
+    description: "Predicting that things will turn out badly",
+    question: "What are some other ways this could turn out?",
+  },
+  catastrophizing: {
+    id: "catastrophizing",
+    label: "Catastrophizing",
+    description: "Blowing things out of proportion or expecting the worst",
+    question: "If the worst did happen, how would I cope? What is most likely to happen?",
+  },
+  emotional_reasoning: {
+    id: "emotional_reasoning",
+    label: "Emotional reasoning",
+    description: "Taking feelings as facts: I feel it, so it must be true",
+    question: "What would I conclude from the facts alone?",
+  },
+  should_statements: {
+    id: "should_statements",
+    label: "Should statements",
+    description: "Rigid rules about how you or others should, must or ought to act",
+    question: "Where does this rule come from? Is it helping me?",
+  },
+  labeling: {
+    id: "labeling",
+    label: "Labeling",
+    description: "Attaching a global label to yourself or others instead of describing the behavior",
+    question: "Am I describing one thing I did, or judging who I am?",
+  },
+  personalization: {
+    id: "personalization",
+    label: "Personalization",
+    description: "Blaming yourself for things that aren't entirely in your control",
+    question: "What other factors played a part?",
+  },
+  blaming: {
+    id: "blaming",
+    label: "Blaming",
+    description: "Holding others entirely responsible for how you feel",
+    question: "What part of this can I influence?",
+  },
+};
+
+// Phrases that often signal a distortion. Only used to suggest a thought
+// record and pre-tick boxes; the user decides what applies.
+const DISTORTION_CUES: [DistortionId, RegExp][] = [
+  ["all_or_nothing", /\b(completely|totally|perfect(ly)?|ruined|useless)\b/i],
+  ["overgeneralization", /\b(always|never|every ?one|no ?one|every time|nothing ever)\b/i],
+  ["mind_reading", /\b(they|he|she|everyone) (think|thinks|must think|hates?) (i['’]?m|me)\b/i],
+  ["fortune_telling", /\b(it['’]?s going to|it will|i['’]?ll never|i will never)\b/i],
+  ["catastrophizing", /\b(worst|disaster|catastroph\w*|terrible|unbearable|can['’]?t stand)\b/i],
+  ["emotional_reasoning", /\bi feel (like )?(a |an )?(failure|stupid|worthless|useless)\b/i],
+  ["should_statements", /\b(should(n['’]?t)?|must|ought to|have to)\b/i],
+  ["labeling", /\bi['’]?m (such )?(a |an |so )?(failure|loser|idiot|stupid|worthless|pathetic)\b/i],
+  ["personalization", /\b(my fault|because of me|i ruined)\b/i],
+];
+
+export function detectDistortionCues(text: string): DistortionId[] {
+  return DISTORTION_CUES.filter(([, cue]) => cue.test(text)).map(([id]) => id);
+}
+
+export interface ThoughtRecordSample {
+  distortions: string[];
+  intensityBefore: number; // 0-100
+  intensityAfter: number | null; // 0-100; null until re-rated
+}
+
+export interface DistortionFrequency {
+  id: DistortionId;
+  label: string;
+  count: number;
+  share: number; // Fraction of records that tagged it
+  averageReduction: number | null; // Intensity points, over re-rated records
+}
+
+export interface ThoughtRecordStats {
+  total: number;
+  rerated: number;
+  averageReduction: number | null;
+  distortions: DistortionFrequency[]; // Most frequent first; unused ones omitted
+}
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function averageReduction(records: ThoughtRecordSample[]): number | null {
+  const rerated = records.filter((record) => record.intensityAfter !== null);
+  if (rerated.length === 0) {
+    return null;
+  }
+  return round(rerated.reduce((sum, record) => sum + record.intensityBefore - record.intensityAfter!, 0) / rerated.length);
+}
+
+export function thoughtRecordStats(records: ThoughtRecordSample[]): ThoughtRecordStats {
+  const distortions = DISTORTION_IDS.map((id) => {
+    const tagged = records.filter((record) => record.distortions.includes(id));
+    return {
+      id,
+      label: COGNITIVE_DISTORTIONS[id].label,
+      count: tagged.length,
+      share: records.length > 0 ? round(tagged.length / records.length, 2) : 0,
+      averageReduction: averageReduction(tagged),
+    };
+  })
+    .filter((frequency) => frequency.count > 0)
+    .sort((a, b) => b.count - a.count);
+
+  return {
+    total: records.length,
+    rerated: records.filter((record) => record.intensityAfter !== null).length,
+    averageReduction: averageReduction(records),
+    distortions,
+  };
+}
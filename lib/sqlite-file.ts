@@ -0,0 +1,478 @@
+// Reads and writes small SQLite database files in memory, for file formats
+// that are SQLite inside (Anki collections). Only tables are supported: rows
+// are read by walking the table b-trees, and written files hold tables
+// without indexes. UTF-8 databases only.
+
+export type SqliteValue = number | string | Buffer | null;
+export type SqliteRow = Record<string, SqliteValue>;
+
+export interface SqliteTable {
+  name: string;
+  sql: string; // CREATE TABLE statement
+  rows: SqliteRow[];
+}
+
+export class SqliteFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SqliteFormatError";
+  }
+}
+
+const HEADER = "SQLite format 3\0";
+const PAGE_SIZE = 4096;
+
+const LEAF_TABLE = 0x0d;
+const INTERIOR_TABLE = 0x05;
+
+// Most rows read from one table; a real collection is far smaller
+export const MAX_TABLE_ROWS = 500000;
+
+// --- Encoding helpers ---
+
+function readVarint(buffer: Buffer, offset: number): [number, number] {
+  let value = BigInt(0);
+  for (let i = 0; i < 9; i++) {
+    const byte = buffer[offset + i];
+    if (i === 8) {
+      value = (value << BigInt(8)) | BigInt(byte);
+      return [Number(BigInt.asIntN(64, value)), 9];
+    }
+    value = (value << BigInt(7)) | BigInt(byte & 0x7f);
+    if (byte < 0x80) {
+      return [Number(value), i + 1];
+    }
+  }
+  throw new SqliteFormatError("Corrupt varint");
+}
+
+function writeVarint(value: number): Buffer {
+  let v = BigInt.asUintN(64, BigInt(value));
+  if (v > BigInt("0x00ffffffffffffff")) {
+    // Nine bytes: eight 7-bit groups, then a full last byte
+    const bytes = Buffer.alloc(9);
+    bytes[8] = Number(v & BigInt(0xff));
+    v >>= BigInt(8);
+    for (let i = 7; i >= 0; i--) {
+      bytes[i] = Number(v & BigInt(0x7f)) | 0x80;
+      v >>= BigInt(7);
+    }
+    return bytes;
+  }
+  const groups: number[] = [];
+  do {
+    groups.unshift(Number(v & BigInt(0x7f)));
+    v >>= BigInt(7);
+  } while (v > BigInt(0));
+  return Buffer.from(groups.map((group, i) => (i < groups.length - 1 ? group | 0x80 : group)));
+}
+
+function readInt(buffer: Buffer, offset: number, bytes: number): number {
+  if (bytes <= 6) {
+    return buffer.readIntBE(offset, bytes);
+  }
+  return Number(buffer.readBigInt64BE(offset));
+}
+
+// Column names from a CREATE TABLE statement, and which one (if any) is an
+// alias for the rowid (INTEGER PRIMARY KEY), since its value isn't stored
+export function tableColumns(sql: string): { columns: string[]; rowidColumn: string | null } {
+  const body = sql.slice(sql.indexOf("(") + 1, sql.lastIndexOf(")"));
+  const definitions: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of body) {
+    if (char === "," && depth === 0) {
+      definitions.push(current);
+      current = "";
+      continue;
+    }
+    depth += char === "(" ? 1 : char === ")" ? -1 : 0;
+    current += char;
+  }
+  definitions.push(current);
+
+  const columns: string[] = [];
+  let rowidColumn: string | null = null;
+  for (const definition of definitions.map((part) => part.trim())) {
+    if (/^(constraint|primary|unique|check|foreign)\b/i.test(definition)) {
+      continue;
+    }
+    const name = definition.match(/^("[^"]+"|`[^`]+`|\[[^\]]+\]|\S+)/)?.[1].replace(/^["`[]|["`\]]$/g, "");
+    if (!name) {
+      continue;
+    }
+    columns.push(name);
+    if (/^\S+\s+integer\s+primary\s+key\b/i.test(definition)) {
+      rowidColumn = name;
+    }
+  }
+  return { columns, rowidColumn };
+}
+
+// --- Reading ---
+
+interface Database {
+  buffer: Buffer;
+  pageSize: number;
+  usable: number;
+}
+
+function page(db: Database, pageNumber: number): number {
+  const offset = (pageNumber - 1) * db.pageSize;
+  if (pageNumber < 1 || offset + db.pageSize > db.buffer.length) {
+    throw new SqliteFormatError(`Page ${pageNumber} is out of range`);
+  }
+  return offset;
+}
+
+function readPayload(db: Database, offset: number, size: number): Buffer {
+  const maxLocal = db.usable - 35;
+  if (size > db.buffer.length) {
+    throw new SqliteFormatError("Record is larger than the database");
+  }
+  if (size <= maxLocal) {
+    return db.buffer.subarray(offset, offset + size);
+  }
+  const minLocal = Math.floor(((db.usable - 12) * 32) / 255) - 23;
+  const k = minLocal + ((size - minLocal) % (db.usable - 4));
+  const local = k <= maxLocal ? k : minLocal;
+
+  const parts = [db.buffer.subarray(offset, offset + local)];
+  let remaining = size - local;
+  let next = db.buffer.readUInt32BE(offset + local);
+  while (remaining > 0) {
+    if (next === 0) {
+      throw new SqliteFormatError("Overflow chain ends early");
+    }
+    const start = page(db, next);
+    const chunk = Math.min(remaining, db.usable - 4);
+    parts.push(db.buffer.subarray(start + 4, start + 4 + chunk));
+    remaining -= chunk;
+    next = db.buffer.readUInt32BE(start);
+  }
+  return Buffer.concat(parts);
+}
+
+function decodeRecord(record: Buffer): SqliteValue[] {
+  const [headerSize, headerBytes] = readVarint(record, 0);
+  const types: number[] = [];
+  for (let offset = headerBytes; offset < headerSize;) {
+    const [type, length] = readVarint(record, offset);
+    types.push(type);
+    offset += length;
+  }
+
+  const values: SqliteValue[] = [];
+  let offset = headerSize;
+  for (const type of types) {
+    if (type === 0) {
+      values.push(null);
+    } else if (type >= 1 && type <= 6) {
+      const bytes = [0, 1, 2, 3, 4, 6, 8][type];
+      values.push(readInt(record, offset, bytes));
+      offset += bytes;
+    } else if (type === 7) {
+      values.push(record.readDoubleBE(offset));
+      offset += 8;
+    } else if (type === 8 || type === 9) {
+      values.push(type - 8);
+    } else if (type >= 12) {
+      const length = Math.floor((type - 12) / 2);
+      const bytes = record.subarray(offset, offset + length);
+      values.push(type % 2 === 0 ? Buffer.from(bytes) : bytes.toString("utf8"));
+      offset += length;
+    } else {
+      throw new SqliteFormatError(`Unknown serial type ${type}`);
+    }
+  }
+  return values;
+}
+
+interface TableWalk {
+  visit: (rowid: number, values: SqliteValue[]) => void;
+  visited: Set<number>; // Pages, so a corrupt file can't loop
+  rows: number;
+}
+
+// Every row of a table b-tree, in rowid order
+function walkTable(db: Database, rootPage: number, visit: TableWalk["visit"]) {
+  walkPage(db, rootPage, { visit, visited: new Set(), rows: 0 }, 0);
+}
+
+function walkPage(db: Database, pageNumber: number, walk: TableWalk, depth: number) {
+  if (depth > 20) {
+    throw new SqliteFormatError("Table b-tree is too deep");
+  }
+  if (walk.visited.has(pageNumber)) {
+    throw new SqliteFormatError(`Page ${pageNumber} is linked more than once`);
+  }
+  walk.visited.add(pageNumber);
+  const start = page(db, pageNumber);
+  const header = pageNumber === 1 ? start + 100 : start;
+  const type = db.buffer[header];
+  const cells = db.buffer.readUInt16BE(header + 3);
+  const pointers = header + (type === INTERIOR_TABLE ? 12 : 8);
+
+  for (let i = 0; i < cells; i++) {
+    let offset = start + db.buffer.readUInt16BE(pointers + i * 2);
+    if (type === INTERIOR_TABLE) {
+      walkPage(db, db.buffer.readUInt32BE(offset), walk, depth + 1);
+    } else if (type === LEAF_TABLE) {
+      if (++walk.rows > MAX_TABLE_ROWS) {
+        throw new SqliteFormatError(`Table has more than ${MAX_TABLE_ROWS} rows`);
+      }
+      const [size, sizeBytes] = readVarint(db.buffer, offset);
+      offset += sizeBytes;
+      const [rowid, rowidBytes] = readVarint(db.buffer, offset);
+      offset += rowidBytes;
+      walk.visit(rowid, decodeRecord(readPayload(db, offset, size)));
+    } else {
+      throw new SqliteFormatError(`Page ${pageNumber} is not a table page`);
+    }
+  }
+  if (type === INTERIOR_TABLE) {
+    walkPage(db, db.buffer.readUInt32BE(header + 8), walk, depth + 1);
+  }
+}
+
+function openDatabase(buffer: Buffer): Database {
+  if (buffer.length < 100 || buffer.toString("latin1", 0, 16) !== HEADER) {
+    throw new SqliteFormatError("Not an SQLite database");
+  }
+  if (buffer.readUInt32BE(56) > 1) {
+    throw new SqliteFormatError("Only UTF-8 SQLite databases are supported");
+  }
+  const rawPageSize = buffer.readUInt16BE(16);
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  return { buffer, pageSize, usable: pageSize - buffer[20] };
+}
+
+// Table names and CREATE statements, from sqlite_master
+export function readSqliteSchema(buffer: Buffer): { name: string; rootPage: number; sql: string }[] {
+  const db = openDatabase(buffer);
+  const tables: { name: string; rootPage: number; sql: string }[] = [];
+  walkTable(db, 1, (_, [type, name, , rootPage, sql]) => {
+    if (type === "table" && typeof name === "string" && typeof rootPage === "number" && typeof sql === "string") {
+      tables.push({ name, rootPage, sql });
+    }
+  });
+  return tables;
+}
+
+export function readSqliteTable(buffer: Buffer, tableName: string): SqliteRow[] {
+  const table = readSqliteSchema(buffer).find((entry) => entry.name === tableName);
+  if (!table) {
+    throw new SqliteFormatError(`No table named ${tableName}`);
+  }
+  const { columns, rowidColumn } = tableColumns(table.sql);
+  const rows: SqliteRow[] = [];
+  walkTable(openDatabase(buffer), table.rootPage, (rowid, values) => {
+    const row: SqliteRow = {};
+    // Columns added by ALTER TABLE are missing from older rows
+    columns.forEach((column, i) => {
+      row[column] = column === rowidColumn ? rowid : values[i] ?? null;
+    });
+    rows.push(row);
+  });
+  return rows;
+}
+
+// --- Writing ---
+
+function encodeRecord(values: SqliteValue[]): Buffer {
+  const types: Buffer[] = [];
+  const bodies: Buffer[] = [];
+  for (const value of values) {
+    if (value === null) {
+      types.push(writeVarint(0));
+    } else if (typeof value === "number" && Number.isInteger(value) && (value === 0 || value === 1)) {
+      types.push(writeVarint(8 + value));
+    } else if (typeof value === "number" && Number.isSafeInteger(value)) {
+      const [type, bytes] = Math.abs(value) < 0x80
+        ? [1, 1]
+        : Math.abs(value) < 0x8000
+          ? [2, 2]
+          : Math.abs(value) < 0x80000000
+            ? [4, 4]
+            : [6, 8];
+      const body = Buffer.alloc(bytes);
+      if (bytes === 8) {
+        body.writeBigInt64BE(BigInt(value));
+      } else {
+        body.writeIntBE(value, 0, bytes);
+      }
+      types.push(writeVarint(type));
+      bodies.push(body);
+    } else if (typeof value === "number") {
+      const body = Buffer.alloc(8);
+      body.writeDoubleBE(value);
+      types.push(writeVarint(7));
+      bodies.push(body);
+    } else {
+      const body = typeof value === "string" ? Buffer.from(value, "utf8") : value;
+      types.push(writeVarint(body.length * 2 + (typeof value === "string" ? 13 : 12)));
+      bodies.push(body);
+    }
+  }
+
+  const typeBytes = Buffer.concat(types);
+  // The header size counts itself; one byte is enough unless the header is long
+  let headerSize = typeBytes.length + 1;
+  if (writeVarint(headerSize).length > 1) {
+    headerSize = typeBytes.length + writeVarint(typeBytes.length + 2).length;
+  }
+  return Buffer.concat([writeVarint(headerSize), typeBytes, ...bodies]);
+}
+
+class PageWriter {
+  pages: Buffer[] = [];
+
+  allocate(): number {
+    this.pages.push(Buffer.alloc(PAGE_SIZE));
+    return this.pages.length;
+  }
+
+  get(pageNumber: number): Buffer {
+    return this.pages[pageNumber - 1];
+  }
+}
+
+// Builds a leaf cell, spilling the tail of a large payload onto overflow pages
+function leafCell(writer: PageWriter, rowid: number, payload: Buffer): Buffer {
+  const prefix = Buffer.concat([writeVarint(payload.length), writeVarint(rowid)]);
+  const maxLocal = PAGE_SIZE - 35;
+  if (payload.length <= maxLocal) {
+    return Buffer.concat([prefix, payload]);
+  }
+  const minLocal = Math.floor(((PAGE_SIZE - 12) * 32) / 255) - 23;
+  const k = minLocal + ((payload.length - minLocal) % (PAGE_SIZE - 4));
+  const local = k <= maxLocal ? k : minLocal;
+
+  const overflow: number[] = [];
+  for (let offset = local; offset < payload.length; offset += PAGE_SIZE - 4) {
+    const pageNumber = writer.allocate();
+    payload.copy(writer.get(pageNumber), 4, offset, Math.min(offset + PAGE_SIZE - 4, payload.length));
+    overflow.push(pageNumber);
+  }
+  overflow.forEach((pageNumber, i) => writer.get(pageNumber).writeUInt32BE(overflow[i + 1] ?? 0, 0));
+
+  const pointer = Buffer.alloc(4);
+  pointer.writeUInt32BE(overflow[0]);
+  return Buffer.concat([prefix, payload.subarray(0, local), pointer]);
+}
+
+function fillPage(target: Buffer, headerOffset: number, type: number, cells: Buffer[], rightChild?: number) {
+  const headerSize = type === INTERIOR_TABLE ? 12 : 8;
+  let contentStart = PAGE_SIZE;
+  cells.forEach((cell, i) => {
+    contentStart -= cell.length;
+    cell.copy(target, contentStart);
+    target.writeUInt16BE(contentStart, headerOffset + headerSize + i * 2);
+  });
+  target[headerOffset] = type;
+  target.writeUInt16BE(cells.length, headerOffset + 3);
+  target.writeUInt16BE(contentStart % 65536, headerOffset + 5);
+  if (rightChild !== undefined) {
+    target.writeUInt32BE(rightChild, headerOffset + 8);
+  }
+}
+
+// Splits cells into pages, filling each one as far as it goes
+function paginate(cells: Buffer[], headerSize: number, capacity = PAGE_SIZE): Buffer[][] {
+  const pages: Buffer[][] = [[]];
+  let used = headerSize;
+  for (const cell of cells) {
+    if (used + cell.length + 2 > capacity && pages[pages.length - 1].length > 0) {
+      pages.push([]);
+      used = headerSize;
+    }
+    pages[pages.length - 1].push(cell);
+    used += cell.length + 2;
+  }
+  return pages;
+}
+
+// Writes a table b-tree and returns its root page
+function writeTable(writer: PageWriter, rows: { rowid: number; payload: Buffer }[]): number {
+  let written = 0;
+  let level = paginate(rows.map((row) => leafCell(writer, row.rowid, row.payload)), 8).map((cells) => {
+    const pageNumber = writer.allocate();
+    fillPage(writer.get(pageNumber), 0, LEAF_TABLE, cells);
+    written += cells.length;
+    // Largest rowid on the page, the key for the parent
+    return { pageNumber, maxRowid: written > 0 ? rows[written - 1].rowid : 0 };
+  });
+
+  while (level.length > 1) {
+    // Every child but the last gets a cell; the last is the right pointer
+    const groups: typeof level[] = [];
+    let group: typeof level = [];
+    let used = 12;
+    for (const child of level) {
+      const size = 4 + writeVarint(child.maxRowid).length + 2;
+      if (used + size > PAGE_SIZE && group.length > 1) {
+        groups.push(group);
+        group = [];
+        used = 12;
+      }
+      group.push(child);
+      used += size;
+    }
+    groups.push(group);
+
+    level = groups.map((children) => {
+      const pageNumber = writer.allocate();
+      const cells = children.slice(0, -1).map((child) => {
+        const pointer = Buffer.alloc(4);
+        pointer.writeUInt32BE(child.pageNumber);
+        return Buffer.concat([pointer, writeVarint(child.maxRowid)]);
+      });
+      const last = children[children.length - 1];
+      fillPage(writer.get(pageNumber), 0, INTERIOR_TABLE, cells, last.pageNumber);
+      return { pageNumber, maxRowid: last.maxRowid };
+    });
+  }
+  return level[0].pageNumber;
+}
+
+export function writeSqlite(tables: SqliteTable[]): Buffer {
+  const writer = new PageWriter();
+  writer.allocate(); // Page 1: header and sqlite_master
+
+  const master: { rowid: number; payload: Buffer }[] = tables.map((table, i) => {
+    const { columns, rowidColumn } = tableColumns(table.sql);
+    const rows = table.rows.map((row, index) => ({
+      rowid: rowidColumn ? Number(row[rowidColumn]) : index + 1,
+      payload: encodeRecord(columns.map((column) => (column === rowidColumn ? null : row[column] ?? null))),
+    }));
+    rows.sort((a, b) => a.rowid - b.rowid);
+    const rootPage = writeTable(writer, rows);
+    return { rowid: i + 1, payload: encodeRecord(["table", table.name, table.name, rootPage, table.sql]) };
+  });
+
+  const schemaCells = master.map((row) => leafCell(writer, row.rowid, row.payload));
+  if (paginate(schemaCells, 108).length > 1) {
+    throw new SqliteFormatError("Schema does not fit on the first page");
+  }
+  const first = writer.get(1);
+  fillPage(first, 100, LEAF_TABLE, schemaCells);
+
+  first.write(HEADER, 0, "latin1");
+  first.writeUInt16BE(PAGE_SIZE, 16);
+  first[18] = 1; // Legacy (rollback journal) file format
+  first[19] = 1;
+  first[20] = 0; // Reserved bytes per page
+  first[21] = 64; // Payload fractions, fixed by the format
+  first[22] = 32;
+  first[23] = 32;
+  first.writeUInt32BE(1, 24); // Change counter
+  first.writeUInt32BE(writer.pages.length, 28);
+  first.writeUInt32BE(1, 40); // Schema cookie
+  first.writeUInt32BE(4, 44); // Schema format
+  first.writeUInt32BE(1, 56); // UTF-8
+  first.writeUInt32BE(1, 92); // Version-valid-for, matches the change counter
+  first.writeUInt32BE(3039000, 96);
+
+  return Buffer.concat(writer.pages);
+}
@@ -0,0 +1,16 @@
+import { prisma } from "./database";
+import { isValidTimezone } from "./automation/cron";
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+// Users don't carry a timezone of their own; use the timezone of their first org
+export async function getUserTimezone(userId: string): Promise<string> {
+  const membership = await prisma.membership.findFirst({
+    where: { userId },
+    orderBy: { joinedAt: "asc" },
+    include: { org: { select: { timezone: true } } },
+  });
+
+  const timezone = membership?.org.timezone;
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
@@ -0,0 +1,136 @@
+// Minimal XML reader for package manifests (SCORM, IMS Common Cartridge,
+// QTI). Builds an element tree with attributes and text; namespaces are not
+// resolved, so lookups go by local name. DTDs are skipped, never loaded.
+
+export interface XmlElement {
+  name: string; // As written, e.g. "adlcp:location"
+  localName: string; // Without the prefix
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Text directly inside the element
+}
+
+export class XmlFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "XmlFormatError";
+  }
+}
+
+const ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: "\"", apos: "'" };
+
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return ENTITIES[code] ?? entity;
+  });
+}
+
+const localPart = (name: string) => name.slice(name.indexOf(":") + 1);
+
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: "#document", localName: "#document", attributes: {}, children: [], text: "" };
+  const stack = [root];
+  let i = xml.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  while (i < xml.length) {
+    const current = stack[stack.length - 1];
+    const open = xml.indexOf("<", i);
+    if (open === -1) {
+      current.text += decodeXmlEntities(xml.slice(i));
+      break;
+    }
+    if (open > i) {
+      current.text += decodeXmlEntities(xml.slice(i, open));
+    }
+
+    if (xml.startsWith("<!--", open)) {
+      const end = xml.indexOf("-->", open + 4);
+      i = end === -1 ? xml.length : end + 3;
+    } else if (xml.startsWith("<![CDATA[", open)) {
+      const end = xml.indexOf("]]>", open + 9);
+      if (end === -1) {
+        throw new XmlFormatError("Unterminated CDATA section");
+      }
+      current.text += xml.slice(open + 9, end);
+      i = end + 3;
+    } else if (xml.startsWith("<?", open)) {
+      const end = xml.indexOf("?>", open + 2);
+      i = end === -1 ? xml.length : end + 2;
+    } else if (xml.startsWith("<!", open)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      const bracket = xml.indexOf("[", open);
+      const close = xml.indexOf(">", open);
+      const end = bracket !== -1 && bracket < close ? xml.indexOf("]>", bracket) + 1 : close;
+      i = end <= 0 ? xml.length : end + 1;
+    } else if (xml[open + 1] === "/") {
+      const end = xml.indexOf(">", open);
+      const name = xml.slice(open + 2, end).trim();
+      if (end === -1 || stack.length === 1 || current.name !== name) {
+        throw new XmlFormatError(`Unexpected closing tag </${name}>`);
+      }
+      stack.pop();
+      i = end + 1;
+    } else {
+      const tag = xml.slice(open).match(/^<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/);
+      if (!tag) {
+        throw new XmlFormatError(`Malformed tag at offset ${open}`);
+      }
+      const attributes: Record<string, string> = {};
+      for (const [, key, , double, single] of Array.from(tag[2].matchAll(/([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g))) {
+        attributes[key] = decodeXmlEntities(double ?? single ?? "");
+      }
+      const element: XmlElement = { name: tag[1], localName: localPart(tag[1]), attributes, children: [], text: "" };
+      current.children.push(element);
+      if (!tag[3]) {
+        stack.push(element);
+      }
+      i = open + tag[0].length;
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new XmlFormatError(`Unclosed tag <${stack[stack.length - 1].name}>`);
+  }
+  const [documentElement] = root.children;
+  if (!documentElement) {
+    throw new XmlFormatError("No root element");
+  }
+  return documentElement;
+}
+
+export function xmlChildren(element: XmlElement | undefined, localName: string): XmlElement[] {
+  return element ? element.children.filter((child) => child.localName === localName) : [];
+}
+
+export function xmlChild(element: XmlElement | undefined, localName: string): XmlElement | undefined {
+  return element?.children.find((child) => child.localName === localName);
+}
+
+// Depth-first, including the element itself
+export function xmlDescendants(element: XmlElement | undefined, localName: string): XmlElement[] {
+  if (!element) {
+    return [];
+  }
+  const found = element.localName === localName ? [element] : [];
+  return found.concat(...element.children.map((child) => xmlDescendants(child, localName)));
+}
+
+// Attribute by local name, ignoring the prefix (adlcp:scormtype, xml:base)
+export function xmlAttribute(element: XmlElement | undefined, localName: string): string | undefined {
+  if (!element) {
+    return undefined;
+  }
+  const key = Object.keys(element.attributes).find((name) => localPart(name) === localName);
+  return key === undefined ? undefined : element.attributes[key];
+}
+
+export function xmlText(element: XmlElement | undefined): string {
+  if (!element) {
+    return "";
+  }
+  return (element.text + element.children.map(xmlText).join("")).trim();
+}
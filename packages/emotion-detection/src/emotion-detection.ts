@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { detectTextEmotion } from './text';
 
 // Emotion types
 export const EmotionType = z.enum(['happy', 'sad', 'angry', 'anxious', 'calm', 'excited', 'neutral']);
@@ -13,34 +14,6 @@ export interface EmotionResult {
   source: 'text' | 'facial' | 'voice' | 'combined';
 }
 
-// Text emotion patterns
-const textEmotionPatterns = {
-  happy: [
-    'happy', 'joy', 'excited', 'great', 'wonderful', 'amazing', 'fantastic', 'awesome',
-    'delighted', 'thrilled', 'ecstatic', 'elated', 'cheerful', 'glad', 'pleased'
-  ],
-  sad: [
-    'sad', 'depressed', 'down', 'unhappy', 'miserable', 'hopeless', 'blue', 'melancholy',
-    'gloomy', 'sorrowful', 'heartbroken', 'devastated', 'disappointed'
-  ],
-  angry: [
-    'angry', 'mad', 'furious', 'irritated', 'frustrated', 'annoyed', 'livid', 'enraged',
-    'outraged', 'fuming', 'seething', 'hostile', 'aggressive'
-  ],
-  anxious: [
-    'anxious', 'worried', 'nervous', 'stressed', 'concerned', 'fearful', 'tense', 'uneasy',
-    'apprehensive', 'panicked', 'terrified', 'scared', 'afraid'
-  ],
-  excited: [
-    'excited', 'thrilled', 'eager', 'enthusiastic', 'pumped', 'energized', 'motivated',
-    'inspired', 'passionate', 'zealous', 'ardent'
-  ],
-  calm: [
-    'calm', 'peaceful', 'relaxed', 'serene', 'content', 'satisfied', 'tranquil', 'at ease',
-    'composed', 'collected', 'centered', 'balanced'
-  ]
-};
-
 // Facial expression patterns (simplified)
 const facialExpressionPatterns = {
   happy: ['smile', 'grin', 'laugh', 'cheerful', 'bright'],
@@ -76,43 +49,8 @@ export class EmotionDetectionService {
 
   // Detect emotion from text
   detectFromText(text: string): EmotionResult {
-    const lowerText = text.toLowerCase();
-    const scores: Record<EmotionType, number> = {
-      happy: 0,
-      sad: 0,
-      angry: 0,
-      anxious: 0,
-      excited: 0,
-      calm: 0,
-      neutral: 0
-    };
-
-    // Calculate scores for each emotion
-    for (const [emotion, patterns] of Object.entries(textEmotionPatterns)) {
-      const matches = patterns.filter(pattern => lowerText.includes(pattern));
-      scores[emotion as EmotionType] = matches.length;
-    }
-
-    // Find the emotion with the highest score
-    let maxScore = 0;
-    let detectedEmotion: EmotionType = 'neutral';
-
-    for (const [emotion, score] of Object.entries(scores)) {
-      if (score > maxScore) {
-        maxScore = score;
-        detectedEmotion = emotion as EmotionType;
-      }
-    }
-
-    // Calculate confidence based on score
-    const totalWords = text.split(' ').length;
-    const confidence = Math.min(maxScore / Math.max(totalWords * 0.1, 1), 1);
-    const intensity = Math.min(maxScore / 3, 1);
-
     const result: EmotionResult = {
-      emotion: detectedEmotion,
-      confidence,
-      intensity,
+      ...detectTextEmotion(text),
       timestamp: new Date(),
       source: 'text'
     };
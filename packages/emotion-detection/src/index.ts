@@ -3,3 +3,5 @@
 export { EmotionDetectionService, emotionDetectionService, useEmotionDetection } from './emotion-detection';
 export type { EmotionResult } from './emotion-detection';
 export { EmotionType } from './emotion-detection';
+export { detectTextEmotion, textEmotionPatterns } from './text';
+export type { TextEmotion, TextEmotionScore } from './text';
@@ -0,0 +1,66 @@
+// Keyword emotion detection for text. Imports nothing else, so servers can use
+// it through '@vitality/emotion-detection/text' without the browser code.
+
+export type TextEmotion = 'happy' | 'sad' | 'angry' | 'anxious' | 'calm' | 'excited' | 'neutral';
+
+export interface TextEmotionScore {
+  emotion: TextEmotion;
+  confidence: number;
+  intensity: number;
+}
+
+// Text emotion patterns
+export const textEmotionPatterns: Record<Exclude<TextEmotion, 'neutral'>, string[]> = {
+  happy: [
+    'happy', 'joy', 'excited', 'great', 'wonderful', 'amazing', 'fantastic', 'awesome',
+    'delighted', 'thrilled', 'ecstatic', 'elated', 'cheerful', 'glad', 'pleased'
+  ],
+  sad: [
+    'sad', 'depressed', 'down', 'unhappy', 'miserable', 'hopeless', 'blue', 'melancholy',
+    'gloomy', 'sorrowful', 'heartbroken', 'devastated', 'disappointed'
+  ],
+  angry: [
+    'angry', 'mad', 'furious', 'irritated', 'frustrated', 'annoyed', 'livid', 'enraged',
+    'outraged', 'fuming', 'seething', 'hostile', 'aggressive'
+  ],
+  anxious: [
+    'anxious', 'worried', 'nervous', 'stressed', 'concerned', 'fearful', 'tense', 'uneasy',
+    'apprehensive', 'panicked', 'terrified', 'scared', 'afraid'
+  ],
+  excited: [
+    'excited', 'thrilled', 'eager', 'enthusiastic', 'pumped', 'energized', 'motivated',
+    'inspired', 'passionate', 'zealous', 'ardent'
+  ],
+  calm: [
+    'calm', 'peaceful', 'relaxed', 'serene', 'content', 'satisfied', 'tranquil', 'at ease',
+    'composed', 'collected', 'centered', 'balanced'
+  ]
+};
+
+// Whole words only, so "download" isn't "down" and "discontent" isn't "content"
+const patternExpressions = Object.entries(textEmotionPatterns).map(([emotion, patterns]) => ({
+  emotion: emotion as TextEmotion,
+  expressions: patterns.map(pattern => new RegExp(`\\b${pattern.replace(/ /g, '\\s+')}\\b`))
+}));
+
+// The emotion with the most keyword hits wins; ties go to the first listed
+export function detectTextEmotion(text: string): TextEmotionScore {
+  const lowerText = text.toLowerCase();
+  let emotion: TextEmotion = 'neutral';
+  let maxScore = 0;
+
+  for (const { emotion: candidate, expressions } of patternExpressions) {
+    const score = expressions.filter(expression => expression.test(lowerText)).length;
+    if (score > maxScore) {
+      maxScore = score;
+      emotion = candidate;
+    }
+  }
+
+  // Calculate confidence based on score
+  const totalWords = text.split(' ').length;
+  const confidence = Math.min(maxScore / Math.max(totalWords * 0.1, 1), 1);
+  const intensity = Math.min(maxScore / 3, 1);
+
+  return { emotion, confidence, intensity };
+}